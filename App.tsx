@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Session } from '@supabase/supabase-js';
 import { supabase } from './lib/supabase';
-import { AppView, VisionImage, FinancialGoal, OnboardingState, ActionTask, Habit, UserProfile } from './types';
+import { AppView, VisionImage, FinancialGoal, OnboardingState, ActionTask, Habit, UserProfile, VisionPromptOptions } from './types';
 import { withRetry } from './utils/retry';
 import FinancialDashboard from './components/FinancialDashboard';
 import VisionBoard from './components/VisionBoard';
@@ -31,6 +31,7 @@ import { GuidedOnboarding } from './components/onboarding';
 import { Dashboard, DashboardV2 } from './components/dashboard';
 import { LandingPage } from './components/landing';
 import GoalEditorPage from './components/GoalEditorPage';
+import SharedVisionView from './components/SharedVisionView';
 import { SparklesIcon, MicIcon, DocumentIcon, ReceiptIcon, ShieldCheckIcon, FireIcon, BookOpenIcon, CalendarIcon, FolderIcon, PrinterIcon, HeartIcon, GlobeIcon, TrophyIcon, ChartBarIcon, MusicNoteIcon, BeakerIcon, VisionaryLogo, VisionaryIcon } from './components/Icons';
 import { sendVisionChatMessage, generateVisionSummary } from './services/geminiService';
 import { checkDatabaseConnection, saveDocument } from './services/storageService';
@@ -40,6 +41,9 @@ import NotificationSettings from './components/settings/NotificationSettings';
 import AgentSettings from './components/settings/AgentSettings';
 import MySystems from './components/MySystems';
 import { useSubscriptionPolling } from './hooks/useSubscriptionPolling';
+import { parseShareToken } from './services/visionShareService';
+import { scanImage } from './services/moderationService';
+import { compressImage } from './services/imageService';
 
 const App = () => {
   const [session, setSession] = useState<Session | null>(null);
@@ -47,6 +51,8 @@ const App = () => {
   const [showLoginForm, setShowLoginForm] = useState(false);
 
   const [view, setView] = useState<AppView>(AppView.LANDING);
+  // Public share links (/share/:token) render without the app shell, signed in or not
+  const [sharedVisionToken] = useState(() => parseShareToken(window.location.pathname));
   const [chatInput, setChatInput] = useState('');
   const [credits, setCredits] = useState<number>(0);
   const [subscriptionTier, setSubscriptionTier] = useState<'FREE' | 'PRO' | 'ELITE'>('FREE');
@@ -634,7 +640,7 @@ const App = () => {
 
   // Generate vision image using Gemini API
   // Note: This function throws an error if generation fails - callers should handle this gracefully
-  const generateVisionImage = useCallback(async (prompt: string, photoRef?: string, onStatusChange?: (status: string) => void) => {
+  const generateVisionImage = useCallback(async (prompt: string, photoRef?: string, onStatusChange?: (status: string) => void, options?: VisionPromptOptions) => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
       throw new Error('Please sign in to generate visions');
@@ -656,7 +662,9 @@ const App = () => {
       const requestBody: any = {
         action: 'generate_image',
         prompt,
-        images: []
+        images: [],
+        style: options?.style,
+        aspectRatio: options?.aspectRatio
       };
 
       // If photo reference provided, fetch it and include with identity description
@@ -782,6 +790,8 @@ const App = () => {
       };
     }
 
+    await scanImage('vision', visionData.id);
+
     if (onStatusChange) onStatusChange('Complete!');
 
     return {
@@ -855,11 +865,15 @@ const App = () => {
   }, []);
 
   const uploadPhoto = useCallback(async (file: File) => {
+    // Downscale and strip EXIF/GPS before it leaves the device
+    const upload = await compressImage(file).catch(() => file);
+    const extension = upload.type === 'image/jpeg' ? 'jpg' : file.name.split('.').pop();
+
     // Upload to Supabase storage - use 'visions' bucket for reference images
-    const fileName = `references/${Date.now()}-${file.name}`;
+    const fileName = `references/${Date.now()}-${file.name.replace(/\.[^.]+$/, '')}.${extension}`;
     const { data, error } = await supabase.storage
       .from('visions')
-      .upload(fileName, file, { upsert: true });
+      .upload(fileName, upload, { contentType: upload.type || undefined, upsert: true });
 
     if (error) {
       console.error('Upload error:', error);
@@ -883,6 +897,8 @@ const App = () => {
 
     if (refError) {
       console.error('Reference save error:', refError);
+    } else {
+      await scanImage('reference', refData.id);
     }
 
     return refData?.id || data?.path || '';
@@ -1236,6 +1252,8 @@ const App = () => {
           <VisionBoard
             initialImage={selectedGalleryImage}
             initialPrompt={activeVisionPrompt} // Pass the captured vision prompt
+            onSetPrimary={handleSetPrimaryVision}
+            primaryVisionId={primaryVisionId}
             onAgentStart={(prompt) => {
               setActiveVisionPrompt(prompt);
               setView(AppView.ACTION_PLAN);
@@ -1537,6 +1555,10 @@ const App = () => {
     }
   }, [session, onboardingCompleted, view]);
 
+  if (sharedVisionToken) {
+    return <SharedVisionView token={sharedVisionToken} />;
+  }
+
   if (authLoading) {
     return <div className="min-h-screen flex items-center justify-center bg-slate-50"><div className="w-8 h-8 border-4 border-gray-200 border-t-navy-900 rounded-full animate-spin"></div></div>;
   }
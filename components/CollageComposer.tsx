@@ -0,0 +1,519 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CollageDocument, CollageLayer, VisionImage } from '../types';
+import { saveVisionImage } from '../services/storageService';
+import {
+  AFFIRMATION_STICKERS,
+  COLLAGE_BACKGROUNDS,
+  LayerMove,
+  SnapGuides,
+  arrangeGrid,
+  clampLayer,
+  createCollage,
+  createHeadlineLayer,
+  createImageLayer,
+  createStickerLayer,
+  getCanvasInches,
+  getCollageSizes,
+  renderCollage,
+  reorderLayer,
+  snapLayer
+} from '../services/collageService';
+import { useToast } from './ToastContext';
+import { PlusIcon, PrinterIcon, SaveIcon, TrashIcon, XMarkIcon } from './Icons';
+
+interface Props {
+  images: VisionImage[];
+  onClose: () => void;
+  onSaved: (imageId: string, orderPrint: boolean) => void;
+}
+
+interface DragState {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: CollageLayer;
+}
+
+const MAX_COLLAGE_IMAGES = 12;
+
+/**
+ * Collage composer - arranges several gallery images, a headline and
+ * affirmation stickers on one poster-sized canvas and saves the result
+ * to the gallery as a print-ready PNG
+ */
+const CollageComposer: React.FC<Props> = ({ images, onClose, onSaved }) => {
+  const [doc, setDoc] = useState<CollageDocument | null>(null);
+  const [picking, setPicking] = useState(true);
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [headlineInput, setHeadlineInput] = useState('');
+  const [guides, setGuides] = useState<SnapGuides>({ x: [], y: [] });
+  const [stageHeight, setStageHeight] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const { showToast } = useToast();
+
+  // Text in the preview scales with the stage exactly as it will on export
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => setStageHeight(entry.contentRect.height));
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, [picking]);
+
+  const selected = doc?.layers.find(l => l.id === selectedId) || null;
+  const imageCount = doc?.layers.filter(l => l.kind === 'image').length || 0;
+
+  const updateDoc = (changes: Partial<CollageDocument>) => {
+    if (!doc) return;
+    const next = { ...doc, ...changes };
+    setDoc(next.layout === 'grid' ? arrangeGrid(next) : next);
+  };
+
+  const updateLayer = (id: string, changes: Partial<CollageLayer>) => {
+    setDoc(prev => prev && { ...prev, layers: prev.layers.map(l => (l.id === id ? { ...l, ...changes } : l)) });
+  };
+
+  const togglePicked = (id: string) => {
+    setPickedIds(prev => {
+      if (prev.includes(id)) return prev.filter(p => p !== id);
+      if (imageCount + prev.length >= MAX_COLLAGE_IMAGES) {
+        showToast(`A collage can hold up to ${MAX_COLLAGE_IMAGES} images`, 'info');
+        return prev;
+      }
+      return [...prev, id];
+    });
+  };
+
+  const confirmPicked = () => {
+    const picked = pickedIds
+      .map(id => images.find(img => img.id === id))
+      .filter((img): img is VisionImage => !!img);
+
+    if (!doc) {
+      setDoc(createCollage(picked));
+    } else {
+      const added = picked.map((img, i) => createImageLayer(img, imageCount + i));
+      // New images go under the headline and stickers
+      const firstText = doc.layers.findIndex(l => l.kind !== 'image');
+      const layers = firstText === -1
+        ? [...doc.layers, ...added]
+        : [...doc.layers.slice(0, firstText), ...added, ...doc.layers.slice(firstText)];
+      updateDoc({ layers });
+    }
+    setPickedIds([]);
+    setPicking(false);
+  };
+
+  const addHeadline = () => {
+    if (!doc || !headlineInput.trim()) return;
+    const layer = createHeadlineLayer(headlineInput.trim());
+    setDoc({ ...doc, layers: [...doc.layers, layer] });
+    setSelectedId(layer.id);
+    setHeadlineInput('');
+  };
+
+  const addSticker = (sticker: typeof AFFIRMATION_STICKERS[number]) => {
+    if (!doc) return;
+    const count = doc.layers.filter(l => l.kind === 'sticker').length;
+    const layer = createStickerLayer(sticker, count);
+    setDoc({ ...doc, layers: [...doc.layers, layer] });
+    setSelectedId(layer.id);
+  };
+
+  const moveSelected = (move: LayerMove) => {
+    if (!doc || !selectedId) return;
+    setDoc({ ...doc, layers: reorderLayer(doc.layers, selectedId, move) });
+  };
+
+  const removeSelected = () => {
+    if (!doc || !selectedId) return;
+    updateDoc({ layers: doc.layers.filter(l => l.id !== selectedId) });
+    setSelectedId(null);
+  };
+
+  // ============================================
+  // Drag, resize and snapping
+  // ============================================
+
+  const startDrag = (e: React.PointerEvent, layer: CollageLayer, mode: DragState['mode']) => {
+    e.stopPropagation();
+    setSelectedId(layer.id);
+    dragRef.current = { id: layer.id, mode, startX: e.clientX, startY: e.clientY, origin: layer };
+    stageRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!drag || !rect || !doc) return;
+
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const { origin } = drag;
+
+    let moved: CollageLayer = drag.mode === 'move'
+      ? clampLayer({ ...origin, x: origin.x + dx, y: origin.y + dy })
+      : clampLayer({ ...origin, width: origin.width + dx, height: origin.height + dy });
+
+    if (drag.mode === 'move') {
+      const snapped = snapLayer(moved, doc.layers);
+      moved = snapped.layer;
+      setGuides(snapped.guides);
+    }
+
+    // Moving an image by hand takes the collage out of the grid
+    setDoc(prev => prev && {
+      ...prev,
+      layout: origin.kind === 'image' ? 'freeform' : prev.layout,
+      layers: prev.layers.map(l => (l.id === drag.id ? moved : l))
+    });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setGuides({ x: [], y: [] });
+  };
+
+  // ============================================
+  // Export
+  // ============================================
+
+  const handleSave = async (orderPrint: boolean) => {
+    if (!doc || isSaving) return;
+    setIsSaving(true);
+    try {
+      const headline = doc.layers.find(l => l.kind === 'headline')?.text;
+      const image: VisionImage = {
+        id: crypto.randomUUID(),
+        url: await renderCollage(doc),
+        prompt: headline ? `Vision board collage: ${headline}` : 'Vision board collage',
+        createdAt: Date.now()
+      };
+      await saveVisionImage(image);
+      showToast('Collage saved to your gallery', 'success');
+      onSaved(image.id, orderPrint);
+    } catch (error: any) {
+      console.error('Collage export failed:', error);
+      showToast(error?.name === 'SecurityError'
+        ? 'One of the images could not be exported. Try removing it and saving again.'
+        : 'Failed to save collage. Please try again.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inches = doc ? getCanvasInches(doc) : { width: 18, height: 24 };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-2 sm:p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[95vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-serif font-bold text-navy-900">Collage Composer</h2>
+            <p className="text-sm text-gray-500">
+              {picking
+                ? 'Choose the visions to arrange on your board'
+                : `${inches.width}" x ${inches.height}" poster · drag to move, corner to resize`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 text-gray-500">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {picking ? (
+          <>
+            <div className="flex-1 overflow-y-auto p-6">
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                {images.map(img => {
+                  const order = pickedIds.indexOf(img.id);
+                  return (
+                    <button
+                      key={img.id}
+                      onClick={() => togglePicked(img.id)}
+                      className={`relative aspect-square rounded-lg overflow-hidden border-4 transition-colors ${
+                        order >= 0 ? 'border-gold-500' : 'border-transparent hover:border-gray-200'
+                      }`}
+                    >
+                      <img src={img.url} alt={img.prompt} className="w-full h-full object-cover" />
+                      {order >= 0 && (
+                        <span className="absolute top-2 right-2 w-7 h-7 rounded-full bg-gold-500 text-navy-900 text-sm font-bold flex items-center justify-center">
+                          {order + 1}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+              <button
+                onClick={() => (doc ? setPicking(false) : onClose())}
+                className="px-4 py-2 text-gray-600 hover:text-navy-900"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmPicked}
+                disabled={pickedIds.length === 0}
+                className="px-5 py-2 bg-navy-900 hover:bg-navy-800 disabled:opacity-40 text-white rounded-lg font-semibold"
+              >
+                {doc ? `Add ${pickedIds.length || ''} Image${pickedIds.length === 1 ? '' : 's'}` : 'Start Collage'}
+              </button>
+            </div>
+          </>
+        ) : doc && (
+          <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+            {/* Canvas */}
+            <div className="flex-1 bg-gray-100 flex items-center justify-center p-4 overflow-auto" onPointerDown={() => setSelectedId(null)}>
+              <div
+                ref={stageRef}
+                className="relative shadow-xl overflow-hidden select-none touch-none"
+                style={{
+                  aspectRatio: `${inches.width} / ${inches.height}`,
+                  height: inches.height >= inches.width ? 'min(70vh, 100%)' : undefined,
+                  width: inches.height < inches.width ? 'min(100%, 90vh)' : undefined,
+                  background: doc.background
+                }}
+                onPointerMove={onPointerMove}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+              >
+                {doc.layers.map(layer => (
+                  <div
+                    key={layer.id}
+                    onPointerDown={(e) => startDrag(e, layer, 'move')}
+                    className={`absolute cursor-move ${layer.id === selectedId ? 'outline outline-2 outline-gold-500' : ''}`}
+                    style={{
+                      left: `${layer.x * 100}%`,
+                      top: `${layer.y * 100}%`,
+                      width: `${layer.width * 100}%`,
+                      height: `${layer.height * 100}%`,
+                      transform: `rotate(${layer.rotation}deg)`
+                    }}
+                  >
+                    {layer.kind === 'image' ? (
+                      <img src={layer.imageUrl} alt="" draggable={false} className="w-full h-full object-cover pointer-events-none" />
+                    ) : (
+                      <div
+                        className={`w-full h-full flex items-center justify-center text-center leading-[1.2] font-bold ${
+                          layer.kind === 'headline' ? 'font-serif' : 'font-sans'
+                        }`}
+                        style={{
+                          color: layer.color,
+                          background: layer.background,
+                          borderRadius: layer.kind === 'sticker' ? 9999 : undefined,
+                          fontSize: (layer.fontScale || 0.03) * stageHeight,
+                          textShadow: layer.kind === 'headline' ? '0 2px 6px rgba(0,0,0,0.45)' : undefined,
+                          padding: '0 4%'
+                        }}
+                      >
+                        {layer.text}
+                      </div>
+                    )}
+                    {layer.id === selectedId && (
+                      <div
+                        onPointerDown={(e) => startDrag(e, layer, 'resize')}
+                        className="absolute -right-2 -bottom-2 w-4 h-4 bg-gold-500 border-2 border-white rounded-sm cursor-nwse-resize"
+                      />
+                    )}
+                  </div>
+                ))}
+
+                {/* Snap guides */}
+                {guides.x.map(x => (
+                  <div key={`gx-${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: `${x * 100}%` }} />
+                ))}
+                {guides.y.map(y => (
+                  <div key={`gy-${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: `${y * 100}%` }} />
+                ))}
+              </div>
+            </div>
+
+            {/* Controls */}
+            <div className="w-full lg:w-80 border-t lg:border-t-0 lg:border-l border-gray-200 overflow-y-auto p-5 space-y-5 text-sm">
+              <section>
+                <h3 className="font-semibold text-navy-900 mb-2">Layout</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['grid', 'freeform'] as const).map(layout => (
+                    <button
+                      key={layout}
+                      onClick={() => updateDoc({ layout })}
+                      className={`py-2 rounded-lg border capitalize ${
+                        doc.layout === layout ? 'border-gold-500 bg-gold-50 text-navy-900 font-semibold' : 'border-gray-200 text-gray-600'
+                      }`}
+                    >
+                      {layout}
+                    </button>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="font-semibold text-navy-900 mb-2">Poster size</h3>
+                <div className="flex gap-2">
+                  <select
+                    value={doc.size}
+                    onChange={(e) => updateDoc({ size: e.target.value })}
+                    className="flex-1 border border-gray-200 rounded-lg px-2 py-2"
+                  >
+                    {getCollageSizes().map(s => (
+                      <option key={s.size} value={s.size}>{s.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => updateDoc({ orientation: doc.orientation === 'portrait' ? 'landscape' : 'portrait' })}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-gray-600 capitalize"
+                  >
+                    {doc.orientation}
+                  </button>
+                </div>
+                <div className="flex gap-2 mt-2">
+                  {COLLAGE_BACKGROUNDS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => updateDoc({ background: color })}
+                      className={`w-8 h-8 rounded-full border-2 ${doc.background === color ? 'border-gold-500' : 'border-gray-200'}`}
+                      style={{ background: color }}
+                      aria-label={`Background ${color}`}
+                    />
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="font-semibold text-navy-900 mb-2">Images ({imageCount})</h3>
+                <button
+                  onClick={() => setPicking(true)}
+                  disabled={imageCount >= MAX_COLLAGE_IMAGES}
+                  className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-gold-500 disabled:opacity-40"
+                >
+                  <PlusIcon className="w-4 h-4" /> Add from gallery
+                </button>
+              </section>
+
+              <section>
+                <h3 className="font-semibold text-navy-900 mb-2">Headline</h3>
+                <div className="flex gap-2">
+                  <input
+                    value={headlineInput}
+                    onChange={(e) => setHeadlineInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addHeadline()}
+                    placeholder="My 2027 Vision"
+                    className="flex-1 border border-gray-200 rounded-lg px-3 py-2"
+                  />
+                  <button onClick={addHeadline} className="px-3 py-2 bg-navy-900 text-white rounded-lg">Add</button>
+                </div>
+              </section>
+
+              <section>
+                <h3 className="font-semibold text-navy-900 mb-2">Affirmations</h3>
+                <div className="flex flex-wrap gap-2">
+                  {AFFIRMATION_STICKERS.map(sticker => (
+                    <button
+                      key={sticker.text}
+                      onClick={() => addSticker(sticker)}
+                      className="px-3 py-1 rounded-full text-xs font-semibold"
+                      style={{ background: sticker.background, color: sticker.color }}
+                    >
+                      {sticker.text}
+                    </button>
+                  ))}
+                </div>
+              </section>
+
+              {selected && (
+                <section className="p-3 bg-gray-50 rounded-lg space-y-3">
+                  <h3 className="font-semibold text-navy-900 capitalize">Selected {selected.kind}</h3>
+                  {selected.kind !== 'image' && (
+                    <>
+                      <textarea
+                        value={selected.text || ''}
+                        onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+                        rows={2}
+                        className="w-full border border-gray-200 rounded-lg px-3 py-2"
+                      />
+                      <label className="flex items-center gap-2 text-gray-600">
+                        Size
+                        <input
+                          type="range"
+                          min={0.01}
+                          max={0.12}
+                          step={0.002}
+                          value={selected.fontScale || 0.03}
+                          onChange={(e) => updateLayer(selected.id, { fontScale: Number(e.target.value) })}
+                          className="flex-1"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2 text-gray-600">
+                        Color
+                        <input
+                          type="color"
+                          value={selected.color || '#ffffff'}
+                          onChange={(e) => updateLayer(selected.id, { color: e.target.value })}
+                        />
+                      </label>
+                    </>
+                  )}
+                  <label className="flex items-center gap-2 text-gray-600">
+                    Rotate
+                    <input
+                      type="range"
+                      min={-45}
+                      max={45}
+                      value={selected.rotation}
+                      onChange={(e) => updateLayer(selected.id, { rotation: Number(e.target.value) })}
+                      className="flex-1"
+                    />
+                  </label>
+                  <div className="grid grid-cols-4 gap-1">
+                    {([['back', 'Back'], ['backward', 'Down'], ['forward', 'Up'], ['front', 'Front']] as const).map(([move, label]) => (
+                      <button
+                        key={move}
+                        onClick={() => moveSelected(move)}
+                        className="py-1 border border-gray-200 rounded text-xs text-gray-600 hover:bg-white"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={removeSelected}
+                    className="w-full flex items-center justify-center gap-2 py-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <TrashIcon className="w-4 h-4" /> Remove
+                  </button>
+                </section>
+              )}
+
+              <div className="space-y-2 pt-2 border-t border-gray-200">
+                <button
+                  onClick={() => handleSave(false)}
+                  disabled={isSaving || doc.layers.length === 0}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-navy-900 hover:bg-navy-800 disabled:opacity-50 text-white rounded-lg font-semibold"
+                >
+                  <SaveIcon className="w-4 h-4" />
+                  {isSaving ? 'Rendering...' : 'Save to Gallery'}
+                </button>
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving || doc.layers.length === 0}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-gold-500 hover:bg-gold-600 disabled:opacity-50 text-navy-900 rounded-lg font-semibold"
+                >
+                  <PrinterIcon className="w-4 h-4" />
+                  Save &amp; Order Print
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollageComposer;
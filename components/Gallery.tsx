@@ -1,9 +1,30 @@
 
 import React, { useState, useEffect } from 'react';
-import { getVisionGallery, deleteVisionImage } from '../services/storageService';
-import { VisionImage } from '../types';
-import { TrashIcon, DownloadIcon, SparklesIcon, SaveIcon, ShareIcon, CopyIcon, MailIcon, TwitterIcon, FacebookIcon, GoogleIcon, PrinterIcon } from './Icons';
+import {
+  getVisionGallery,
+  deleteVisionImage,
+  deleteVisionImages,
+  setVisionFavorite,
+  addVisionTags,
+  updateVisionTags,
+  getVisionTags,
+  getVisionAlbums,
+  createVisionAlbum,
+  renameVisionAlbum,
+  deleteVisionAlbum,
+  moveVisionImages
+} from '../services/storageService';
+import { VisionAlbum, VisionImage } from '../types';
+import { groupByLineage } from '../services/visionLineageService';
+import { GALLERY_PAGE_SIZE, mergeTags, removeTag, updateSelection } from '../services/visionLibraryService';
+import { PRINT_BLOCKED_MESSAGE, isPrintBlocked } from '../services/moderationService';
+import { TrashIcon, DownloadIcon, SparklesIcon, SaveIcon, ShareIcon, CopyIcon, MailIcon, TwitterIcon, FacebookIcon, GoogleIcon, PrinterIcon, HeartIcon } from './Icons';
 import PrintOrderModal from './PrintOrderModal';
+import CollageComposer from './CollageComposer';
+import ShareVisionModal from './ShareVisionModal';
+import WorkbookOrderModal from './WorkbookOrderModal';
+import GalleryFilterBar, { GalleryFilter } from './gallery/GalleryFilterBar';
+import GalleryBulkActions from './gallery/GalleryBulkActions';
 import OptimizedImage from './OptimizedImage';
 import { useToast } from './ToastContext';
 
@@ -23,28 +44,264 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
   const [printImage, setPrintImage] = useState<VisionImage | null>(null);
   // Lightbox state
   const [lightboxImage, setLightboxImage] = useState<VisionImage | null>(null);
+  const [showCollage, setShowCollage] = useState(false);
+  // Lineage whose versions are listed (cards show one version per vision)
+  const [versionsRootId, setVersionsRootId] = useState<string | null>(null);
+  // Share link modal: an image to create a link for, or null to manage existing links
+  const [shareModal, setShareModal] = useState<{ image: VisionImage | null } | null>(null);
+
+  // Albums, tags, search and paging (filters run on the server)
+  const [albums, setAlbums] = useState<VisionAlbum[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [filter, setFilter] = useState<GalleryFilter>({});
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+
+  // Bulk selection
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  // Bulk print opens the print modal for each selected vision in turn
+  const [printQueue, setPrintQueue] = useState<VisionImage[]>([]);
+  const [workbookVisionIds, setWorkbookVisionIds] = useState<string[] | null>(null);
   const { showToast } = useToast();
 
+  const groups = groupByLineage(images);
+  const versionsGroup = groups.find(g => g.rootId === versionsRootId);
+  const isFiltered = !!search || filter.albumId !== undefined || !!filter.tags?.length || !!filter.favoritesOnly;
+
+  // Each card shows the primary version if it belongs to the vision, otherwise the latest
+  const cards = groups.map(group => ({
+    group,
+    img: group.versions.find(v => v.id === primaryVisionId) || group.latest
+  }));
+
   useEffect(() => {
-    loadGallery();
+    loadLibrary();
   }, []);
 
-  const loadGallery = async () => {
+  useEffect(() => {
+    loadGallery();
+  }, [filter, search]);
+
+  // Search as the user types, without a query per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadLibrary = async () => {
+    const [albumData, tagData] = await Promise.all([getVisionAlbums(), getVisionTags()]);
+    setAlbums(albumData);
+    setAllTags(tagData);
+  };
+
+  const loadGallery = async (): Promise<VisionImage[]> => {
     setLoading(true);
     setLoadError(null);
     try {
-      const data = await getVisionGallery();
+      const data = await getVisionGallery({ ...filter, search, page: 0, pageSize: GALLERY_PAGE_SIZE });
       setImages(data);
+      setPage(0);
+      setHasMore(data.length === GALLERY_PAGE_SIZE);
+      setSelectedIds([]);
+      return data;
     } catch (error: any) {
       console.error('Failed to load gallery:', error);
       setLoadError('Failed to load gallery. Please try again.');
       showToast('Failed to load gallery. Please try again.', 'error');
       setImages([]);
+      return [];
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const nextPage = page + 1;
+      const data = await getVisionGallery({ ...filter, search, page: nextPage, pageSize: GALLERY_PAGE_SIZE });
+      setImages(prev => [...prev, ...data.filter(img => !prev.some(p => p.id === img.id))]);
+      setPage(nextPage);
+      setHasMore(data.length === GALLERY_PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load more visions:', error);
+      showToast('Failed to load more visions.', 'error');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Reload so the collage shows up with its storage URL, then print it if asked
+  const handleCollageSaved = async (imageId: string, orderPrint: boolean) => {
+    setShowCollage(false);
+    try {
+      const data = await loadGallery();
+      const collage = data.find(img => img.id === imageId);
+      if (orderPrint && collage) setPrintImage(collage);
+    } catch (error) {
+      console.error('Failed to reload gallery after collage save:', error);
+    }
+  };
+
+  // ============================================
+  // ALBUMS & TAGS
+  // ============================================
+
+  const handleCreateAlbum = async (name: string) => {
+    try {
+      const album = await createVisionAlbum(name);
+      setAlbums(prev => [...prev, album].sort((a, b) => a.name.localeCompare(b.name)));
+      showToast(`Album "${album.name}" created`, 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to create album', 'error');
+    }
+  };
+
+  const handleRenameAlbum = async (album: VisionAlbum, name: string) => {
+    try {
+      await renameVisionAlbum(album.id, name);
+      setAlbums(prev => prev.map(a => a.id === album.id ? { ...a, name } : a));
+    } catch (error: any) {
+      showToast(error.message || 'Failed to rename album', 'error');
+    }
+  };
+
+  const handleDeleteAlbum = async (album: VisionAlbum) => {
+    try {
+      await deleteVisionAlbum(album.id);
+      setAlbums(prev => prev.filter(a => a.id !== album.id));
+      setFilter(prev => ({ ...prev, albumId: undefined }));
+      showToast('Album deleted', 'success');
+    } catch (error) {
+      showToast('Failed to delete album', 'error');
+    }
+  };
+
+  const replaceImages = (updated: VisionImage[]) => {
+    setImages(prev => prev.map(img => updated.find(u => u.id === img.id) || img));
+    setLightboxImage(prev => prev ? updated.find(u => u.id === prev.id) || prev : prev);
+  };
+
+  const saveTags = async (image: VisionImage, tags: string[]) => {
+    try {
+      const saved = await updateVisionTags(image.id, tags);
+      replaceImages([{ ...image, tags: saved }]);
+      setAllTags(prev => Array.from(new Set([...prev, ...saved])).sort());
+    } catch (error) {
+      showToast('Failed to update tags', 'error');
+    }
+  };
+
+  const handleToggleFavorite = async (e: React.MouseEvent, image: VisionImage) => {
+    e.stopPropagation();
+    try {
+      await setVisionFavorite([image.id], !image.isFavorite);
+      replaceImages([{ ...image, isFavorite: !image.isFavorite }]);
+    } catch (error) {
+      showToast('Failed to update favorite', 'error');
+    }
+  };
+
+  // ============================================
+  // BULK ACTIONS
+  // ============================================
+
+  const selectedImages = images.filter(img => selectedIds.includes(img.id));
+
+  const toggleSelectMode = () => {
+    setSelectMode(prev => !prev);
+    setSelectedIds([]);
+    setSelectionAnchor(null);
+  };
+
+  const handleSelectCard = (e: React.MouseEvent, img: VisionImage) => {
+    e.stopPropagation();
+    setSelectedIds(prev => updateSelection(prev, cards.map(c => c.img.id), img.id, selectionAnchor, e.shiftKey));
+    setSelectionAnchor(img.id);
+  };
+
+  const runBulk = async (action: () => Promise<void>, success: string) => {
+    setBulkBusy(true);
+    try {
+      await action();
+      showToast(success, 'success');
+    } catch (error: any) {
+      console.error('Bulk action failed:', error);
+      showToast(error.message || 'Something went wrong. Please try again.', 'error');
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedIds.length;
+    if (!confirm(`Delete ${count} vision${count !== 1 ? 's' : ''}? This cannot be undone.`)) return;
+    runBulk(async () => {
+      await deleteVisionImages(selectedIds);
+      setImages(prev => prev.filter(img => !selectedIds.includes(img.id)));
+      setSelectedIds([]);
+    }, `Deleted ${count} vision${count !== 1 ? 's' : ''}`);
+  };
+
+  const handleBulkMove = (albumId: string | null) => {
+    const album = albums.find(a => a.id === albumId);
+    runBulk(async () => {
+      await moveVisionImages(selectedIds, albumId);
+      // Drop moved visions from an album view they no longer belong to
+      if (filter.albumId !== undefined && filter.albumId !== albumId) {
+        setImages(prev => prev.filter(img => !selectedIds.includes(img.id)));
+      } else {
+        replaceImages(selectedImages.map(img => ({ ...img, albumId: albumId || undefined })));
+      }
+      setSelectedIds([]);
+    }, album ? `Moved to "${album.name}"` : 'Removed from album');
+  };
+
+  const handleBulkFavorite = (isFavorite: boolean) => {
+    runBulk(async () => {
+      await setVisionFavorite(selectedIds, isFavorite);
+      replaceImages(selectedImages.map(img => ({ ...img, isFavorite })));
+    }, isFavorite ? 'Added to favorites' : 'Removed from favorites');
+  };
+
+  const handleBulkTags = (tags: string) => {
+    runBulk(async () => {
+      replaceImages(await addVisionTags(selectedImages, tags));
+      setAllTags(prev => Array.from(new Set([...prev, ...mergeTags([], tags)])).sort());
+    }, 'Tags added');
+  };
+
+  const handleBulkPrint = () => {
+    const printable = selectedImages.filter(img => !isPrintBlocked(img.moderationStatus));
+    if (printable.length < selectedImages.length) {
+      showToast(`${selectedImages.length - printable.length} image(s) under content review were skipped`, 'info');
+    }
+    const [first, ...rest] = printable;
+    if (!first) return;
+    setPrintQueue(rest);
+    setPrintImage(first);
+  };
+
+  const handlePrintClosed = () => {
+    const [next, ...rest] = printQueue;
+    setPrintImage(next || null);
+    setPrintQueue(rest);
+  };
+
+  const handleBulkWorkbook = () => {
+    if (selectedIds.length > 4) {
+      showToast('A workbook holds up to 4 vision boards; the first 4 selected are included.', 'info');
+    }
+    setWorkbookVisionIds(selectedIds);
+  };
+
   const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if (confirm("Are you sure you want to delete this vision?")) {
@@ -155,6 +412,11 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
       return;
     }
 
+    if (isPrintBlocked(img.moderationStatus)) {
+      showToast(PRINT_BLOCKED_MESSAGE, 'error');
+      return;
+    }
+
     console.log('🔍 Print button clicked!', { imgId: img.id, timestamp: new Date().toISOString() });
     setPrintImage(img);
     console.log('✅ Print modal opened');
@@ -224,6 +486,43 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
                 </p>
               </div>
 
+              {/* Tags */}
+              <div>
+                <p className="text-white/60 text-xs uppercase tracking-wider mb-1">Tags</p>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {(lightboxImage.tags || []).map(tag => (
+                    <span key={tag} className="flex items-center gap-1 bg-white/15 text-white text-xs px-2 py-1 rounded-full">
+                      #{tag}
+                      <button
+                        onClick={() => saveTags(lightboxImage, removeTag(lightboxImage.tags, tag))}
+                        className="text-white/60 hover:text-white"
+                        title="Remove tag"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (tagDraft.trim()) saveTags(lightboxImage, mergeTags(lightboxImage.tags, tagDraft));
+                      setTagDraft('');
+                    }}
+                  >
+                    <input
+                      value={tagDraft}
+                      onChange={(e) => setTagDraft(e.target.value)}
+                      placeholder="Add tag..."
+                      list="gallery-tag-suggestions"
+                      className="bg-transparent border border-white/20 focus:border-gold-400 text-white text-xs px-2 py-1 rounded-full outline-none w-28 placeholder-white/40"
+                    />
+                    <datalist id="gallery-tag-suggestions">
+                      {allTags.map(tag => <option key={tag} value={tag} />)}
+                    </datalist>
+                  </form>
+                </div>
+              </div>
+
               {/* Reflection prompts */}
               <div className="space-y-4">
                 <div className="bg-white/5 rounded-lg p-3">
@@ -306,6 +605,10 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
               <button
                 onClick={(e) => {
                   e.stopPropagation();
+                  if (isPrintBlocked(lightboxImage.moderationStatus)) {
+                    showToast(PRINT_BLOCKED_MESSAGE, 'error');
+                    return;
+                  }
                   setLightboxImage(null);
                   setPrintImage(lightboxImage);
                 }}
@@ -329,7 +632,92 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
       {printImage && (
         <PrintOrderModal
           image={printImage}
-          onClose={() => setPrintImage(null)}
+          onClose={handlePrintClosed}
+        />
+      )}
+
+      {workbookVisionIds && (
+        <WorkbookOrderModal
+          initialVisionIds={workbookVisionIds}
+          onClose={() => setWorkbookVisionIds(null)}
+          onNavigateToGenerator={onNavigateToVisionBoard}
+        />
+      )}
+
+      {/* Versions Modal - every saved version of one vision */}
+      {versionsGroup && (
+        <div
+          className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 animate-fade-in"
+          onClick={() => setVersionsRootId(null)}
+        >
+          <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[85vh] overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-serif font-bold text-navy-900">
+                {versionsGroup.versions.length} Versions
+              </h3>
+              <button onClick={() => setVersionsRootId(null)} className="text-gray-400 hover:text-navy-900 p-1">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {versionsGroup.versions.map((version, index) => (
+                <div key={version.id} className="group relative rounded-xl overflow-hidden border border-gray-200 bg-gray-50">
+                  <button
+                    onClick={(e) => { setVersionsRootId(null); handleViewLightbox(e, version); }}
+                    className="block w-full aspect-[16/9]"
+                  >
+                    <img src={version.variants?.thumb?.url || version.url} alt={version.prompt} className="w-full h-full object-cover" />
+                  </button>
+                  <div className="p-2">
+                    <p className="text-xs text-navy-900 line-clamp-2">{version.prompt}</p>
+                    <p className="text-[10px] text-gray-400 mt-1">
+                      v{versionsGroup.versions.length - index}
+                      {version.style && ` · ${version.style}`}
+                      {' · '}{new Date(version.createdAt).toLocaleDateString()}
+                    </p>
+                    <div className="flex gap-1 mt-2">
+                      <button
+                        onClick={(e) => { setVersionsRootId(null); handleImageClick(e, version); }}
+                        className="flex-1 text-[10px] font-medium bg-navy-900 hover:bg-navy-800 text-white py-1.5 rounded"
+                      >
+                        Refine
+                      </button>
+                      {onSetPrimary && (
+                        <button
+                          onClick={() => onSetPrimary(version)}
+                          disabled={primaryVisionId === version.id}
+                          className="flex-1 text-[10px] font-medium border border-gold-300 text-gold-700 hover:bg-gold-50 py-1.5 rounded disabled:opacity-50"
+                        >
+                          {primaryVisionId === version.id ? 'Primary' : 'Set Primary'}
+                        </button>
+                      )}
+                      <button
+                        onClick={(e) => handleDelete(e, version.id)}
+                        className="px-2 text-red-500 hover:bg-red-50 rounded"
+                        title="Delete this version"
+                      >
+                        <TrashIcon className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {shareModal && (
+        <ShareVisionModal image={shareModal.image} onClose={() => setShareModal(null)} />
+      )}
+
+      {showCollage && (
+        <CollageComposer
+          images={images}
+          onClose={() => setShowCollage(false)}
+          onSaved={handleCollageSaved}
         />
       )}
 
@@ -343,8 +731,26 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
         </div>
         <div className="flex items-center gap-4">
           <span className="text-sm text-gray-500">
-            {images.length} Vision{images.length !== 1 ? 's' : ''} Saved
+            {groups.length}{hasMore ? '+' : ''} Vision{groups.length !== 1 ? 's' : ''} {isFiltered ? 'Found' : 'Saved'}
           </span>
+          {images.length > 0 && (
+            <button
+              onClick={() => setShareModal({ image: null })}
+              className="flex items-center gap-2 px-5 py-2.5 bg-white border border-gray-200 hover:bg-gray-50 text-navy-900 rounded-xl font-semibold transition-colors"
+            >
+              <ShareIcon className="w-5 h-5" />
+              Shared Links
+            </button>
+          )}
+          {images.length > 0 && (
+            <button
+              onClick={() => setShowCollage(true)}
+              className="flex items-center gap-2 px-5 py-2.5 bg-navy-900 hover:bg-navy-800 text-white rounded-xl font-semibold transition-colors shadow-lg"
+            >
+              <SparklesIcon className="w-5 h-5 text-gold-400" />
+              Create Collage
+            </button>
+          )}
           {onNavigateToVisionBoard && (
             <button
               onClick={onNavigateToVisionBoard}
@@ -359,6 +765,36 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
         </div>
       </div>
 
+      <GalleryFilterBar
+        albums={albums}
+        tags={allTags}
+        filter={filter}
+        search={searchInput}
+        selectMode={selectMode}
+        onSearchChange={setSearchInput}
+        onFilterChange={setFilter}
+        onCreateAlbum={handleCreateAlbum}
+        onRenameAlbum={handleRenameAlbum}
+        onDeleteAlbum={handleDeleteAlbum}
+        onToggleSelectMode={toggleSelectMode}
+      />
+
+      {selectMode && (
+        <GalleryBulkActions
+          count={selectedIds.length}
+          albums={albums}
+          busy={bulkBusy}
+          onSelectAll={() => setSelectedIds(cards.map(c => c.img.id))}
+          onClear={() => setSelectedIds([])}
+          onDelete={handleBulkDelete}
+          onMove={handleBulkMove}
+          onFavorite={handleBulkFavorite}
+          onAddTags={handleBulkTags}
+          onPrint={handleBulkPrint}
+          onAddToWorkbook={handleBulkWorkbook}
+        />
+      )}
+
       {loading ? (
         <div className="flex justify-center py-20">
           <div className="w-10 h-10 border-4 border-gray-200 border-t-gold-500 rounded-full animate-spin"></div>
@@ -377,6 +813,21 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
             Retry
           </button>
         </div>
+      ) : images.length === 0 && isFiltered ? (
+        <div className="text-center py-24 bg-gray-50 rounded-2xl border-2 border-dashed border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">No visions match</h3>
+          <p className="text-gray-500 mb-4">Try a different search, album or tag.</p>
+          <button
+            onClick={() => {
+              setSearchInput('');
+              setSearch('');
+              setFilter({});
+            }}
+            className="px-4 py-2 bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors"
+          >
+            Clear Filters
+          </button>
+        </div>
       ) : images.length === 0 ? (
         <div className="text-center py-24 bg-gray-50 rounded-2xl border-2 border-dashed border-gray-200">
           <SparklesIcon className="w-12 h-12 text-gray-300 mx-auto mb-4" />
@@ -385,18 +836,35 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {images.map((img) => (
+          {cards.map(({ group, img }) => (
             <div
-              key={img.id}
-              onClick={(e) => handleImageClick(e, img)}
-              className="group relative bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-xl hover:border-gold-400 transition-all cursor-pointer aspect-[16/9]"
+              key={group.rootId}
+              onClick={(e) => selectMode ? handleSelectCard(e, img) : handleImageClick(e, img)}
+              className={`group relative bg-white rounded-xl shadow-sm border overflow-hidden hover:shadow-xl transition-all cursor-pointer aspect-[16/9] ${
+                selectedIds.includes(img.id) ? 'border-gold-500 ring-4 ring-gold-400' : 'border-gray-200 hover:border-gold-400'
+              }`}
             >
+              {/* Selection checkbox */}
+              {selectMode && (
+                <div className={`absolute top-3 left-3 z-[60] w-6 h-6 rounded-md border-2 flex items-center justify-center shadow ${
+                  selectedIds.includes(img.id) ? 'bg-gold-500 border-gold-500 text-navy-900' : 'bg-white/90 border-white'
+                }`}>
+                  {selectedIds.includes(img.id) && (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                </div>
+              )}
+
               <OptimizedImage
                 src={img.url}
                 alt={img.prompt}
                 className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
                 width={800}
                 priority={true}
+                variants={img.variants}
+                sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
               />
 
               {/* Background gradient overlay - always visible at bottom for button visibility */}
@@ -407,11 +875,29 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
                 {/* Vision prompt text - appears on hover */}
                 <p className="text-white text-sm line-clamp-2 font-medium mb-12 opacity-0 group-hover:opacity-100 transition-opacity duration-300 transform translate-y-2 group-hover:translate-y-0 drop-shadow-lg">
                   {img.prompt}
+                  {!!img.tags?.length && (
+                    <span className="block text-xs text-gold-300 mt-1 truncate">
+                      {img.tags.slice(0, 4).map(tag => `#${tag}`).join(' ')}
+                    </span>
+                  )}
                 </p>
               </div>
 
               {/* Action buttons - POSITIONED ABSOLUTELY TO AVOID OVERLAY INTERFERENCE */}
+              {!selectMode && (
               <div className="absolute bottom-3 right-3 flex gap-2 z-[60]">
+                {/* Favorite Button */}
+                <button
+                  onClick={(e) => handleToggleFavorite(e, img)}
+                  className={`p-2.5 rounded-full shadow-lg transition-all duration-200 hover:scale-110 active:scale-95 ${
+                    img.isFavorite ? 'bg-pink-500 hover:bg-pink-600 text-white' : 'bg-white hover:bg-gray-100 text-navy-900'
+                  }`}
+                  title={img.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                  type="button"
+                >
+                  <HeartIcon className="w-4 h-4" />
+                </button>
+
                 {/* Print Button - Gold for emphasis */}
                 <button
                   onClick={(e) => {
@@ -460,6 +946,17 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
                       className="absolute bottom-14 right-0 bg-white rounded-lg shadow-2xl p-2 flex flex-col gap-1 w-40 z-[70] animate-fade-in border border-gray-100"
                       onClick={(e) => e.stopPropagation()}
                     >
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setActiveShareId(null);
+                          setShareModal({ image: img });
+                        }}
+                        className="flex items-center gap-2 px-3 py-2 text-xs text-navy-900 hover:bg-gold-50 rounded text-left w-full font-semibold transition-colors"
+                        type="button"
+                      >
+                        <ShareIcon className="w-3 h-3 text-gold-500" /> Private Link
+                      </button>
                       <button
                         onClick={(e) => handleShareAction(e, 'email', img.url)}
                         className="flex items-center gap-2 px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 rounded text-left w-full font-medium transition-colors"
@@ -506,6 +1003,22 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
                   <TrashIcon className="w-4 h-4" />
                 </button>
               </div>
+              )}
+
+              {/* Versions Badge - opens every saved version of this vision */}
+              {group.versions.length > 1 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setVersionsRootId(group.rootId);
+                  }}
+                  className="absolute bottom-3 left-3 bg-white/90 hover:bg-white text-navy-900 text-xs font-bold px-3 py-1.5 rounded-full shadow-lg z-[60] transition-colors"
+                  title="Show all versions"
+                  type="button"
+                >
+                  {group.versions.length} versions
+                </button>
+              )}
 
               {/* Primary Badge - always visible if this is the primary */}
               {primaryVisionId === img.id && (
@@ -517,6 +1030,13 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
                 </div>
               )}
 
+              {/* Moderation Badge - flagged images wait for review and can't be printed */}
+              {isPrintBlocked(img.moderationStatus) && (
+                <div className="absolute top-3 right-3 bg-amber-500 text-white text-xs font-bold px-3 py-1.5 rounded-full shadow-lg z-30 pointer-events-none">
+                  Under review
+                </div>
+              )}
+
               {/* Edit Hint Badge */}
               <div className="absolute top-3 right-3 bg-white/90 text-navy-900 text-xs font-bold px-3 py-1.5 rounded-full opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0 transition-all duration-300 shadow-lg z-20 pointer-events-none flex items-center gap-1">
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -529,6 +1049,18 @@ const Gallery: React.FC<Props> = ({ onSelect, onSetPrimary, primaryVisionId, onN
         </div>
       )}
 
+      {!loading && hasMore && (
+        <div className="flex justify-center mt-8">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-6 py-2.5 bg-white border border-gray-200 hover:border-navy-900 text-navy-900 rounded-xl font-semibold transition-colors disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load More Visions'}
+          </button>
+        </div>
+      )}
+
       {/* Floating Action Button (FAB) - Always visible at bottom right */}
       {onNavigateToVisionBoard && (
         <button
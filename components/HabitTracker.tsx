@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { Habit, HabitFrequency, HabitCompletion } from '../types';
+import { Habit, HabitFrequency, HabitCompletion, HabitTargetPeriod, HabitImportFormat, HabitImportResult, HabitAnalytics, HabitRoutine, RoutineStats, RoutineStepStatus } from '../types';
 import {
   getHabits,
   createHabit,
@@ -8,7 +8,16 @@ import {
   completeHabit,
   getTodayCompletions,
   getHabitStats,
-  getHabitCompletions
+  getHabitCompletions,
+  getHabitProgressTotals,
+  getHabitBackfillWindow,
+  importHabits,
+  exportHabits,
+  getHabitAnalytics,
+  getRoutines,
+  createRoutine,
+  deleteRoutine,
+  getRoutineStats
 } from '../services/storageService';
 import {
   PlusIcon,
@@ -19,7 +28,10 @@ import {
   XMarkIcon,
   ChartBarIcon,
   CalendarIcon,
-  RefreshIcon
+  RefreshIcon,
+  UploadIcon,
+  DownloadIcon,
+  ClockIcon
 } from './Icons';
 
 interface HabitTrackerProps {
@@ -35,12 +47,37 @@ const FREQUENCY_OPTIONS: { value: HabitFrequency; label: string }[] = [
 
 const DAYS_OF_WEEK = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+type ProgressTotals = Record<string, { today: number; week: number }>;
+
+// Logged amount toward the current target period for a measurable habit
+const getLoggedAmount = (habit: Habit, totals: ProgressTotals) => {
+  const entry = totals[habit.id];
+  if (!entry) return 0;
+  return habit.target_period === 'week' ? entry.week : entry.today;
+};
+
+const isTargetMet = (habit: Habit, totals: ProgressTotals) =>
+  !!habit.target_value && getLoggedAmount(habit, totals) >= habit.target_value;
+
+// Local YYYY-MM-DD for a calendar day
+const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
 const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
   const [habits, setHabits] = useState<Habit[]>([]);
   const [todayCompleted, setTodayCompleted] = useState<string[]>([]);
+  const [progressTotals, setProgressTotals] = useState<ProgressTotals>({});
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [selectedHabit, setSelectedHabit] = useState<Habit | null>(null);
+  const [routines, setRoutines] = useState<HabitRoutine[]>([]);
+  const [routineStats, setRoutineStats] = useState<RoutineStats[]>([]);
+  const [showRoutineModal, setShowRoutineModal] = useState(false);
+  const [routinePrompt, setRoutinePrompt] = useState<{ routineTitle: string; step: RoutineStepStatus } | null>(null);
   const [stats, setStats] = useState({
     totalHabits: 0,
     totalCompletions: 0,
@@ -55,17 +92,70 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
 
   const loadData = async () => {
     setLoading(true);
-    const [habitsData, completedToday, statsData] = await Promise.all([
+    const [habitsData, completedToday, statsData, totals, routinesData, routineStatsData] = await Promise.all([
       getHabits(),
       getTodayCompletions(),
-      getHabitStats()
+      getHabitStats(),
+      getHabitProgressTotals(),
+      getRoutines(),
+      getRoutineStats()
     ]);
     setHabits(habitsData);
     setTodayCompleted(completedToday);
     setStats(statsData);
+    setProgressTotals(totals);
+    setRoutines(routinesData);
+    setRoutineStats(routineStatsData);
     setLoading(false);
   };
 
+  // Refresh routine progress and prompt the next step after a routine habit is done
+  const refreshRoutines = async (completedHabitId: string) => {
+    if (!routines.some(r => r.today.steps.some(s => s.habit_id === completedHabitId))) return;
+
+    const updated = await getRoutines();
+    setRoutines(updated);
+
+    const routine = updated.find(r =>
+      r.today.nextStep && r.today.steps.some(s => s.habit_id === completedHabitId && s.completed)
+    );
+    if (!routine?.today.nextStep) {
+      setRoutinePrompt(null);
+      return;
+    }
+    // Prefer the step after the one just completed, like the server-side prompts
+    const position = routine.today.steps.find(s => s.habit_id === completedHabitId)!.position;
+    const remaining = routine.today.steps.filter(s => s.scheduled && !s.completed);
+    const step = remaining.find(s => s.position > position) || routine.today.nextStep;
+    setRoutinePrompt({ routineTitle: routine.title, step });
+  };
+
+  const isHabitDone = (habit: Habit) =>
+    habit.target_value ? isTargetMet(habit, progressTotals) : todayCompleted.includes(habit.id);
+
+  const handleLogAmount = async (habit: Habit, amount: number) => {
+    const before = isTargetMet(habit, progressTotals);
+    const completion = await completeHabit(habit.id, undefined, undefined, amount);
+    if (!completion) return;
+
+    const updatedTotals = await getHabitProgressTotals();
+    setProgressTotals(updatedTotals);
+    if (!todayCompleted.includes(habit.id)) {
+      setTodayCompleted(prev => [...prev, habit.id]);
+    }
+
+    // Only bump the streak when this entry reached the target
+    if (!before && isTargetMet(habit, updatedTotals)) {
+      setHabits(prev => prev.map(h =>
+        h.id === habit.id ? { ...h, current_streak: (h.current_streak || 0) + 1 } : h
+      ));
+    }
+
+    const newStats = await getHabitStats();
+    setStats(newStats);
+    await refreshRoutines(habit.id);
+  };
+
   const handleComplete = async (habitId: string) => {
     if (todayCompleted.includes(habitId)) return;
 
@@ -80,6 +170,15 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
     // Refresh stats
     const newStats = await getHabitStats();
     setStats(newStats);
+    await refreshRoutines(habitId);
+  };
+
+  const handleDeleteRoutine = async (routineId: string) => {
+    if (!confirm('Delete this routine? Its habits are kept.')) return;
+    if (await deleteRoutine(routineId)) {
+      setRoutines(prev => prev.filter(r => r.id !== routineId));
+      setRoutineStats(prev => prev.filter(s => s.routine_id !== routineId));
+    }
   };
 
   const handleDelete = async (habitId: string) => {
@@ -88,6 +187,8 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
     setHabits(prev => prev.filter(h => h.id !== habitId));
   };
 
+  const doneCount = habits.filter(isHabitDone).length;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -109,13 +210,22 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
             <p className="text-gray-600">Build habits that align with your vision</p>
           </div>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="bg-navy-900 text-white px-6 py-3 rounded-xl font-bold hover:bg-navy-800 transition-colors flex items-center gap-2"
-        >
-          <PlusIcon className="w-5 h-5" />
-          New Habit
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="border border-gray-300 text-navy-900 px-4 py-3 rounded-xl font-bold hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <UploadIcon className="w-5 h-5" />
+            Import / Export
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-navy-900 text-white px-6 py-3 rounded-xl font-bold hover:bg-navy-800 transition-colors flex items-center gap-2"
+          >
+            <PlusIcon className="w-5 h-5" />
+            New Habit
+          </button>
+        </div>
       </div>
 
       {/* Stats Dashboard */}
@@ -156,20 +266,52 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
         </div>
         <div className="flex items-center gap-4">
           <div className="text-4xl font-bold text-gold-400">
-            {todayCompleted.length}/{habits.length}
+            {doneCount}/{habits.length}
           </div>
           <div className="flex-1 bg-navy-800 rounded-full h-4 overflow-hidden">
             <div
               className="bg-gold-500 h-full transition-all duration-500"
-              style={{ width: habits.length > 0 ? `${(todayCompleted.length / habits.length) * 100}%` : '0%' }}
+              style={{ width: habits.length > 0 ? `${(doneCount / habits.length) * 100}%` : '0%' }}
             />
           </div>
-          {todayCompleted.length === habits.length && habits.length > 0 && (
+          {doneCount === habits.length && habits.length > 0 && (
             <TrophyIcon className="w-8 h-8 text-gold-400 animate-bounce" />
           )}
         </div>
       </div>
 
+      {/* Next Routine Step */}
+      {routinePrompt && (
+        <div className="bg-gold-50 border border-gold-200 rounded-xl p-4 mb-8 flex items-center justify-between gap-4 animate-fade-in">
+          <p className="text-navy-900">
+            Next in <span className="font-bold">{routinePrompt.routineTitle}</span>: {routinePrompt.step.title}
+          </p>
+          <div className="flex items-center gap-2">
+            {!habits.find(h => h.id === routinePrompt.step.habit_id)?.target_value && (
+              <button
+                onClick={() => handleComplete(routinePrompt.step.habit_id)}
+                className="bg-navy-900 text-white px-4 py-2 rounded-lg font-medium hover:bg-navy-800 transition-colors"
+              >
+                Complete
+              </button>
+            )}
+            <button onClick={() => setRoutinePrompt(null)} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Routines */}
+      {habits.length >= 2 && (
+        <RoutinesSection
+          routines={routines}
+          stats={routineStats}
+          onCreate={() => setShowRoutineModal(true)}
+          onDelete={handleDeleteRoutine}
+        />
+      )}
+
       {/* Habits List */}
       {habits.length === 0 ? (
         <div className="text-center py-16 bg-white rounded-2xl shadow-sm border border-gray-100">
@@ -189,8 +331,10 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
             <HabitCard
               key={habit.id}
               habit={habit}
-              isCompletedToday={todayCompleted.includes(habit.id)}
+              isCompletedToday={isHabitDone(habit)}
+              loggedAmount={getLoggedAmount(habit, progressTotals)}
               onComplete={() => handleComplete(habit.id)}
+              onLogAmount={(amount) => handleLogAmount(habit, amount)}
               onDelete={() => handleDelete(habit.id)}
               onSelect={() => setSelectedHabit(habit)}
             />
@@ -213,11 +357,32 @@ const HabitTracker: React.FC<HabitTrackerProps> = ({ onBack }) => {
         />
       )}
 
+      {/* Create Routine Modal */}
+      {showRoutineModal && (
+        <CreateRoutineModal
+          habits={habits}
+          onClose={() => setShowRoutineModal(false)}
+          onCreated={() => {
+            setShowRoutineModal(false);
+            loadData();
+          }}
+        />
+      )}
+
+      {/* Import / Export Modal */}
+      {showImportModal && (
+        <ImportExportModal
+          onClose={() => setShowImportModal(false)}
+          onImported={loadData}
+        />
+      )}
+
       {/* Habit Detail Modal */}
       {selectedHabit && (
         <HabitDetailModal
           habit={selectedHabit}
           onClose={() => setSelectedHabit(null)}
+          onBackfilled={loadData}
         />
       )}
     </div>
@@ -246,10 +411,25 @@ const StatCard: React.FC<{
 const HabitCard: React.FC<{
   habit: Habit;
   isCompletedToday: boolean;
+  loggedAmount: number;
   onComplete: () => void;
+  onLogAmount: (amount: number) => void;
   onDelete: () => void;
   onSelect: () => void;
-}> = ({ habit, isCompletedToday, onComplete, onDelete, onSelect }) => {
+}> = ({ habit, isCompletedToday, loggedAmount, onComplete, onLogAmount, onDelete, onSelect }) => {
+  const [amount, setAmount] = useState('');
+  const isMeasurable = !!habit.target_value;
+  const percent = isMeasurable
+    ? Math.min(100, Math.round((loggedAmount / habit.target_value!) * 100))
+    : 0;
+
+  const handleLog = () => {
+    const parsed = amount ? parseFloat(amount) : habit.target_value!;
+    if (!(parsed > 0)) return;
+    onLogAmount(parsed);
+    setAmount('');
+  };
+
   const getFrequencyLabel = (freq: HabitFrequency, customDays: number[]) => {
     switch (freq) {
       case 'daily': return 'Every day';
@@ -269,8 +449,8 @@ const HabitCard: React.FC<{
       <div className="flex items-center gap-4">
         {/* Complete Button */}
         <button
-          onClick={onComplete}
-          disabled={isCompletedToday}
+          onClick={isMeasurable ? handleLog : onComplete}
+          disabled={isCompletedToday && !isMeasurable}
           className={`w-12 h-12 rounded-full border-2 flex items-center justify-center transition-all ${
             isCompletedToday
               ? 'bg-green-500 border-green-500 text-white'
@@ -303,8 +483,40 @@ const HabitCard: React.FC<{
               </span>
             )}
           </div>
+          {isMeasurable && (
+            <div className="mt-2">
+              <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                <span>
+                  {loggedAmount}/{habit.target_value} {habit.unit || ''}
+                  {habit.target_period === 'week' ? ' this week' : ' today'}
+                </span>
+                <span>{percent}%</span>
+              </div>
+              <div className="bg-gray-100 rounded-full h-2 overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-500 ${isCompletedToday ? 'bg-green-500' : 'bg-gold-500'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+          )}
         </div>
 
+        {/* Log Amount */}
+        {isMeasurable && (
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleLog()}
+            placeholder={String(habit.target_value)}
+            title={`Amount to log${habit.unit ? ` (${habit.unit})` : ''}`}
+            className="w-20 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:border-gold-500 focus:ring-1 focus:ring-gold-500 outline-none"
+          />
+        )}
+
         {/* Streak */}
         <div className="flex items-center gap-2 px-4 py-2 bg-orange-50 rounded-xl">
           <FireIcon className={`w-5 h-5 ${(habit.current_streak || 0) > 0 ? 'text-orange-500' : 'text-gray-300'}`} />
@@ -335,18 +547,30 @@ const CreateHabitModal: React.FC<{
   const [frequency, setFrequency] = useState<HabitFrequency>('daily');
   const [customDays, setCustomDays] = useState<number[]>([]);
   const [reminderTime, setReminderTime] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [unit, setUnit] = useState('');
+  const [targetValue, setTargetValue] = useState('');
+  const [targetPeriod, setTargetPeriod] = useState<HabitTargetPeriod>('day');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) return;
 
+    const target = parseFloat(targetValue);
+    if (isMeasurable && !(target > 0)) return;
+
     onCreate({
       title: title.trim(),
       description: description.trim() || undefined,
       frequency,
       custom_days: frequency === 'custom' ? customDays : [],
       reminder_time: reminderTime || undefined,
-      is_active: true
+      is_active: true,
+      ...(isMeasurable && {
+        unit: unit.trim() || undefined,
+        target_value: target,
+        target_period: targetPeriod
+      })
     });
   };
 
@@ -437,6 +661,48 @@ const CreateHabitModal: React.FC<{
             </div>
           )}
 
+          {/* Measurable Target */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={isMeasurable}
+                onChange={(e) => setIsMeasurable(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Track an amount (e.g., 8 glasses, 30 minutes)
+            </label>
+            {isMeasurable && (
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={targetValue}
+                  onChange={(e) => setTargetValue(e.target.value)}
+                  placeholder="Target"
+                  className="w-24 border border-gray-300 rounded-lg px-3 py-2 focus:border-gold-500 focus:ring-1 focus:ring-gold-500 outline-none"
+                  required
+                />
+                <input
+                  type="text"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder="Unit (e.g., pages)"
+                  className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:border-gold-500 focus:ring-1 focus:ring-gold-500 outline-none"
+                />
+                <select
+                  value={targetPeriod}
+                  onChange={(e) => setTargetPeriod(e.target.value as HabitTargetPeriod)}
+                  className="border border-gray-300 rounded-lg px-3 py-2 focus:border-gold-500 focus:ring-1 focus:ring-gold-500 outline-none"
+                >
+                  <option value="day">per day</option>
+                  <option value="week">per week</option>
+                </select>
+              </div>
+            )}
+          </div>
+
           {/* Reminder Time */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -472,16 +738,547 @@ const CreateHabitModal: React.FC<{
   );
 };
 
+// Import / Export Modal Component
+// Routines Section Component
+const RoutinesSection: React.FC<{
+  routines: HabitRoutine[];
+  stats: RoutineStats[];
+  onCreate: () => void;
+  onDelete: (routineId: string) => void;
+}> = ({ routines, stats, onCreate, onDelete }) => (
+  <div className="mb-8">
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-lg font-bold text-navy-900">Routines</h3>
+      <button
+        onClick={onCreate}
+        className="text-sm font-medium text-navy-900 hover:text-navy-700 flex items-center gap-1"
+      >
+        <PlusIcon className="w-4 h-4" />
+        New Routine
+      </button>
+    </div>
+
+    {routines.length === 0 ? (
+      <p className="text-sm text-gray-400">
+        Stack habits into a routine, like "After morning coffee: journal, then plan the day".
+      </p>
+    ) : (
+      <div className="grid md:grid-cols-2 gap-4">
+        {routines.map(routine => {
+          const routineStat = stats.find(s => s.routine_id === routine.id);
+          return (
+            <div key={routine.id} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h4 className="font-bold text-navy-900">{routine.title}</h4>
+                  {routine.anchorCue && <p className="text-sm text-gray-500">{routine.anchorCue}</p>}
+                  {routine.windowStart && routine.windowEnd && (
+                    <p className={`text-xs flex items-center gap-1 mt-1 ${routine.inWindow ? 'text-green-600' : 'text-gray-400'}`}>
+                      <ClockIcon className="w-3 h-3" />
+                      {routine.windowStart.slice(0, 5)} – {routine.windowEnd.slice(0, 5)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm font-medium ${routine.today.isComplete ? 'text-green-600' : 'text-gray-500'}`}>
+                    {routine.today.completedSteps}/{routine.today.totalSteps}
+                  </span>
+                  <button onClick={() => onDelete(routine.id)} className="text-gray-300 hover:text-red-500 transition-colors">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <ol className="space-y-1 mb-3">
+                {routine.today.steps.map((step, idx) => (
+                  <li
+                    key={step.habit_id}
+                    className={`text-sm flex items-center gap-2 ${step.scheduled ? 'text-gray-700' : 'text-gray-300'}`}
+                  >
+                    {step.completed
+                      ? <CheckCircleIcon className="w-4 h-4 text-green-500" />
+                      : <span className="w-4 text-center text-xs text-gray-400">{idx + 1}</span>}
+                    <span className={step.completed ? 'line-through text-gray-400' : ''}>{step.title}</span>
+                    {!step.scheduled && <span className="text-xs">(not today)</span>}
+                  </li>
+                ))}
+              </ol>
+
+              {routineStat && routineStat.dueDays > 0 && (
+                <div className="flex gap-4 text-xs text-gray-500 border-t border-gray-100 pt-2">
+                  <span>{routineStat.rate}% complete (30 days)</span>
+                  {routineStat.currentStreak > 0 && (
+                    <span className="flex items-center gap-1">
+                      <FireIcon className="w-3 h-3 text-orange-500" />
+                      {routineStat.currentStreak} day streak
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+// Create Routine Modal Component
+const CreateRoutineModal: React.FC<{
+  habits: Habit[];
+  onClose: () => void;
+  onCreated: () => void;
+}> = ({ habits, onClose, onCreated }) => {
+  const [title, setTitle] = useState('');
+  const [anchorCue, setAnchorCue] = useState('');
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+  const [habitIds, setHabitIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Habits are added in the order they are picked
+  const toggleHabit = (habitId: string) => {
+    setHabitIds(prev => prev.includes(habitId) ? prev.filter(id => id !== habitId) : [...prev, habitId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || habitIds.length < 2) return;
+    if (!!windowStart !== !!windowEnd) {
+      setError('Set both ends of the time window, or neither');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await createRoutine({
+        title: title.trim(),
+        anchorCue: anchorCue.trim() || undefined,
+        windowStart: windowStart || undefined,
+        windowEnd: windowEnd || undefined,
+        habitIds
+      });
+      onCreated();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create routine');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-fade-in max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-navy-900">Create Routine</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Routine Name *</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g., Morning routine"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Anchor Cue</label>
+            <input
+              type="text"
+              value={anchorCue}
+              onChange={(e) => setAnchorCue(e.target.value)}
+              placeholder="e.g., After morning coffee"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Time Window (optional)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={windowStart}
+                onChange={(e) => setWindowStart(e.target.value)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+              />
+              <span className="text-gray-400">to</span>
+              <input
+                type="time"
+                value={windowEnd}
+                onChange={(e) => setWindowEnd(e.target.value)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Steps (pick in order) *</label>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {habits.map(habit => {
+                const order = habitIds.indexOf(habit.id);
+                return (
+                  <button
+                    key={habit.id}
+                    type="button"
+                    onClick={() => toggleHabit(habit.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-3 transition-colors ${
+                      order >= 0 ? 'bg-navy-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    <span className="w-5 text-center font-bold">{order >= 0 ? order + 1 : ''}</span>
+                    {habit.title}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">Choose at least two habits</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3">{error}</div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!title.trim() || habitIds.length < 2 || saving}
+              className="flex-1 px-4 py-2 bg-navy-900 text-white rounded-lg font-bold hover:bg-navy-800 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Create Routine'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const ImportExportModal: React.FC<{
+  onClose: () => void;
+  onImported: () => void;
+}> = ({ onClose, onImported }) => {
+  const [format, setFormat] = useState<HabitImportFormat>('csv');
+  const [files, setFiles] = useState<{ csv?: string; habitsCsv?: string; checkmarksCsv?: string }>({});
+  const [result, setResult] = useState<HabitImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readFile = async (key: 'csv' | 'habitsCsv' | 'checkmarksCsv', file?: File) => {
+    setResult(null);
+    setError(null);
+    const content = file ? await file.text() : undefined;
+    setFiles(prev => ({ ...prev, [key]: content }));
+  };
+
+  const hasFiles = format === 'csv' ? !!files.csv : !!files.habitsCsv;
+
+  const runImport = async (dryRun: boolean) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const data = await importHabits(format, files, dryRun);
+      setResult(data);
+      if (!dryRun) onImported();
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: HabitImportFormat) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const exported = await exportHabits(exportFormat);
+      exported.forEach(file => {
+        const url = URL.createObjectURL(new Blob([file.content], { type: 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      });
+    } catch (err: any) {
+      setError(err.message || 'Export failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const preview = result?.preview;
+  const imported = result && !result.dryRun;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 animate-fade-in max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-navy-900">Import / Export Habits</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Export</h4>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={working}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('loop')}
+              disabled={working}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              Loop Habit Tracker
+            </button>
+          </div>
+        </div>
+
+        {/* Import */}
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Import</h4>
+        <div className="flex gap-2 mb-4">
+          {([['csv', 'CSV'], ['loop', 'Loop Habit Tracker']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => { setFormat(value); setFiles({}); setResult(null); setError(null); }}
+              className={`flex-1 py-2 rounded-lg font-medium text-sm transition-colors ${
+                format === value ? 'bg-navy-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {format === 'csv' ? (
+          <div className="mb-4">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => readFile('csv', e.target.files?.[0])}
+              className="w-full text-sm"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Columns: habit, date (YYYY-MM-DD), value, notes, plus optional frequency, custom_days, target_value and unit
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-4">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Habits.csv</label>
+              <input type="file" accept=".csv,text/csv" onChange={(e) => readFile('habitsCsv', e.target.files?.[0])} className="w-full text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Checkmarks.csv</label>
+              <input type="file" accept=".csv,text/csv" onChange={(e) => readFile('checkmarksCsv', e.target.files?.[0])} className="w-full text-sm" />
+            </div>
+            <p className="text-xs text-gray-400">From Loop: Settings → Export as CSV, then unzip</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3 mb-4">{error}</div>
+        )}
+
+        {preview && (
+          <div className="bg-gray-50 rounded-lg p-4 mb-4 text-sm space-y-1">
+            <p className="font-medium text-navy-900 mb-2">{imported ? 'Import complete' : 'Preview'}</p>
+            <p>New habits: <span className="font-medium">{imported ? result?.habitsCreated : preview.newHabits.length}</span></p>
+            <p>Matched existing habits: <span className="font-medium">{preview.matchedHabits.length}</span></p>
+            <p>Completions {imported ? 'imported' : 'to import'}: <span className="font-medium">{imported ? result?.completionsImported : preview.completionsToImport}</span></p>
+            <p>Already logged (skipped): <span className="font-medium">{preview.duplicateCompletions}</span></p>
+            {preview.issues.length > 0 && (
+              <ul className="mt-2 max-h-32 overflow-y-auto space-y-1">
+                {preview.issues.map((issue, idx) => (
+                  <li key={idx} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}>
+                    {issue.line > 0 && `Line ${issue.line}: `}{issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => runImport(true)}
+            disabled={!hasFiles || working}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            onClick={() => runImport(false)}
+            disabled={!preview?.canImport || !!imported || working}
+            className="flex-1 px-4 py-2 bg-navy-900 text-white rounded-lg font-bold hover:bg-navy-800 transition-colors disabled:opacity-50"
+          >
+            {working ? 'Working...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const HEATMAP_LEVEL_COLORS = ['bg-gray-100', 'bg-green-200', 'bg-green-300', 'bg-green-400', 'bg-green-500'];
+
+const TIME_OF_DAY_LABELS: { key: keyof HabitAnalytics['timeOfDay']['periods']; label: string }[] = [
+  { key: 'morning', label: 'Morning' },
+  { key: 'afternoon', label: 'Afternoon' },
+  { key: 'evening', label: 'Evening' },
+  { key: 'night', label: 'Night' }
+];
+
+// Habit Analytics Panel Component
+const HabitAnalyticsPanel: React.FC<{ habitId: string }> = ({ habitId }) => {
+  const [analytics, setAnalytics] = useState<HabitAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getHabitAnalytics(habitId).then(result => {
+      if (cancelled) return;
+      setAnalytics(result?.analytics ?? null);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [habitId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-20 mb-4">
+        <div className="w-6 h-6 border-2 border-gray-200 border-t-navy-900 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!analytics) return null;
+
+  // Pad the first week so each heatmap column starts on Sunday
+  const leadingBlanks = new Date(`${analytics.range.start}T00:00:00`).getDay();
+  const { timeOfDay, weekdays, mood } = analytics;
+
+  return (
+    <div className="mb-6 space-y-5">
+      {/* Yearly Heatmap */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-3">Past Year</h4>
+        <div className="overflow-x-auto">
+          <div
+            className="grid gap-[2px] w-max"
+            style={{ gridTemplateRows: 'repeat(7, 8px)', gridAutoFlow: 'column', gridAutoColumns: '8px' }}
+          >
+            {Array.from({ length: leadingBlanks }).map((_, idx) => (
+              <div key={`blank-${idx}`} />
+            ))}
+            {analytics.heatmap.map(day => (
+              <div
+                key={day.date}
+                title={`${new Date(`${day.date}T00:00:00`).toLocaleDateString()}${day.value > 0 ? ` - ${day.value}` : ''}`}
+                className={`rounded-sm ${day.scheduled || day.level > 0 ? HEATMAP_LEVEL_COLORS[day.level] : 'bg-gray-50'}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Weekday Strengths */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-3">By Weekday</h4>
+        <div className="grid grid-cols-7 gap-2 items-end h-20">
+          {weekdays.days.map(day => (
+            <div key={day.day} className="flex flex-col items-center h-full justify-end">
+              <div
+                className={`w-full rounded-t ${
+                  day.day === weekdays.strongestDay
+                    ? 'bg-green-500'
+                    : day.day === weekdays.weakestDay
+                    ? 'bg-orange-400'
+                    : 'bg-navy-200'
+                }`}
+                style={{ height: `${Math.max(day.rate ?? 0, 2)}%` }}
+                title={day.rate !== null ? `${day.rate}% of ${day.scheduled} days` : 'Not scheduled'}
+              />
+              <span className="text-xs text-gray-500 mt-1">{DAYS_OF_WEEK[day.day]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Time of Day */}
+      {timeOfDay.sampleSize > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-3">Time of Day</h4>
+          <div className="grid grid-cols-4 gap-2">
+            {TIME_OF_DAY_LABELS.map(({ key, label }) => (
+              <div
+                key={key}
+                className={`rounded-lg p-2 text-center ${key === timeOfDay.peakPeriod ? 'bg-gold-100' : 'bg-gray-50'}`}
+              >
+                <div className="text-lg font-bold text-navy-900">
+                  {Math.round((timeOfDay.periods[key] / timeOfDay.sampleSize) * 100)}%
+                </div>
+                <div className="text-xs text-gray-500">{label}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Mood */}
+      {mood.avgMoodWhenDone !== null && mood.avgMoodWhenMissed !== null && (
+        <div className="bg-purple-50 rounded-lg p-3 text-sm text-purple-900">
+          Average mood {mood.avgMoodWhenDone}/5 on days you do this habit vs {mood.avgMoodWhenMissed}/5 when you skip it
+          {mood.correlation !== null && ` (${mood.strength} correlation)`}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Habit Detail Modal Component
 const HabitDetailModal: React.FC<{
   habit: Habit;
   onClose: () => void;
-}> = ({ habit, onClose }) => {
+  onBackfilled: () => void;
+}> = ({ habit, onClose, onBackfilled }) => {
   const [completions, setCompletions] = useState<HabitCompletion[]>([]);
   const [loading, setLoading] = useState(true);
+  const [backfillWindow, setBackfillWindow] = useState(0);
+  const [backfilling, setBackfilling] = useState<string | null>(null);
 
   useEffect(() => {
     loadCompletions();
+    getHabitBackfillWindow().then(setBackfillWindow);
   }, [habit.id]);
 
   const loadCompletions = async () => {
@@ -491,6 +1288,28 @@ const HabitDetailModal: React.FC<{
     setLoading(false);
   };
 
+  // Past days inside the backfill window can be logged after the fact
+  const canBackfill = (date: Date) => {
+    const daysAgo = Math.round((new Date().setHours(0, 0, 0, 0) - new Date(date).setHours(0, 0, 0, 0)) / 86400000);
+    return daysAgo > 0 && daysAgo <= backfillWindow;
+  };
+
+  const handleBackfill = async (date: Date) => {
+    const dateKey = toDateKey(date);
+    if (!confirm(`Log "${habit.title}" as completed on ${date.toLocaleDateString()}?`)) return;
+
+    setBackfilling(dateKey);
+    const completion = await completeHabit(habit.id, undefined, undefined, undefined, dateKey);
+    setBackfilling(null);
+
+    if (completion) {
+      await loadCompletions();
+      onBackfilled();
+    } else {
+      alert('Could not log that day. It may be outside your backfill window.');
+    }
+  };
+
   // Generate last 30 days for the calendar view
   const getLast30Days = () => {
     const days = [];
@@ -503,13 +1322,26 @@ const HabitDetailModal: React.FC<{
   };
 
   const isDateCompleted = (date: Date) => {
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = toDateKey(date);
     return completions.some(c => c.completed_at.startsWith(dateStr));
   };
 
+  const isDateBackfilled = (date: Date) => {
+    const dateStr = toDateKey(date);
+    return completions.some(c => c.completed_at.startsWith(dateStr) && c.is_backfilled);
+  };
+
+  // Daily habits with a target only count as completed once the target is met
+  const isDatePartial = (date: Date) => {
+    if (!habit.target_value || habit.target_period === 'week') return false;
+    const dateStr = toDateKey(date);
+    const completion = completions.find(c => c.completed_at.startsWith(dateStr));
+    return !!completion && completion.value != null && completion.value < habit.target_value;
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 animate-fade-in max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <div>
             <h3 className="text-xl font-bold text-navy-900">{habit.title}</h3>
@@ -551,19 +1383,33 @@ const HabitDetailModal: React.FC<{
           ) : (
             <div className="grid grid-cols-10 gap-1">
               {getLast30Days().map((date, idx) => {
-                const completed = isDateCompleted(date);
+                const partial = isDatePartial(date);
+                const completed = isDateCompleted(date) && !partial;
+                const backfilled = isDateBackfilled(date);
                 const isToday = date.toDateString() === new Date().toDateString();
+                const backfillable = !completed && !partial && canBackfill(date);
                 return (
-                  <div
+                  <button
                     key={idx}
-                    title={date.toLocaleDateString()}
+                    type="button"
+                    disabled={!backfillable || backfilling !== null}
+                    onClick={() => handleBackfill(date)}
+                    title={
+                      backfillable
+                        ? `${date.toLocaleDateString()} - click to log`
+                        : `${date.toLocaleDateString()}${backfilled ? ' (logged late)' : ''}`
+                    }
                     className={`w-full aspect-square rounded transition-colors ${
                       completed
                         ? 'bg-green-500'
+                        : partial
+                        ? 'bg-green-200'
                         : isToday
                         ? 'bg-navy-200'
                         : 'bg-gray-100'
-                    }`}
+                    } ${backfilled ? 'ring-2 ring-inset ring-gold-400' : ''} ${
+                      backfillable ? 'hover:bg-green-100 cursor-pointer' : 'cursor-default'
+                    } ${backfilling === toDateKey(date) ? 'animate-pulse' : ''}`}
                   />
                 );
               })}
@@ -574,6 +1420,12 @@ const HabitDetailModal: React.FC<{
               <div className="w-3 h-3 rounded bg-green-500"></div>
               <span>Completed</span>
             </div>
+            {habit.target_value && habit.target_period !== 'week' && (
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded bg-green-200"></div>
+                <span>Partial</span>
+              </div>
+            )}
             <div className="flex items-center gap-1">
               <div className="w-3 h-3 rounded bg-gray-100"></div>
               <span>Missed</span>
@@ -582,9 +1434,20 @@ const HabitDetailModal: React.FC<{
               <div className="w-3 h-3 rounded bg-navy-200"></div>
               <span>Today</span>
             </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded bg-green-500 ring-2 ring-inset ring-gold-400"></div>
+              <span>Logged late</span>
+            </div>
           </div>
+          {backfillWindow > 0 && (
+            <p className="text-xs text-gray-400 mt-2">
+              Forgot to log? Click a missed day from the last {backfillWindow} days to record it.
+            </p>
+          )}
         </div>
 
+        <HabitAnalyticsPanel habitId={habit.id} />
+
         <button
           onClick={onClose}
           className="w-full py-3 border border-gray-300 rounded-xl font-medium text-gray-700 hover:bg-gray-50 transition-colors"
@@ -21,6 +21,8 @@ import OutreachScheduler from './admin/OutreachScheduler';
 import FeatureFlagManager from './admin/FeatureFlagManager';
 import AgentActivityDashboard from './admin/AgentActivityDashboard';
 import PrintProductsAnalytics from './admin/PrintProductsAnalytics';
+import PromptPresetManager from './admin/PromptPresetManager';
+import ModerationQueue from './admin/ModerationQueue';
 
 interface Props {
   onBack?: () => void;
@@ -41,6 +43,17 @@ interface TeamMember {
   last_active?: string;
   status: 'active' | 'at_risk' | 'inactive';
   credits: number;
+  backfilled_this_week: number;
+}
+
+interface BackfilledEntry {
+  id: string;
+  user_id: string;
+  actor_id?: string;
+  habit_title?: string;
+  action: 'logged' | 'updated' | 'removed';
+  completed_for_date: string;
+  created_at: string;
 }
 
 interface TeamStats {
@@ -69,12 +82,13 @@ interface Team {
 const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeView, setActiveView] = useState<'overview' | 'members' | 'reports' | 'communications' | 'voice_analytics' | 'ai_settings' | 'alerts' | 'outreach' | 'knowledge' | 'team_admin' | 'site_settings' | 'credits' | 'feature_flags' | 'agent_activity' | 'print_products'>('overview');
+  const [activeView, setActiveView] = useState<'overview' | 'members' | 'reports' | 'communications' | 'voice_analytics' | 'ai_settings' | 'alerts' | 'outreach' | 'knowledge' | 'team_admin' | 'site_settings' | 'credits' | 'feature_flags' | 'agent_activity' | 'print_products' | 'prompt_presets' | 'moderation'>('overview');
 
   // Data states
   const [team, setTeam] = useState<Team | null>(null);
   const [members, setMembers] = useState<TeamMember[]>([]);
   const [stats, setStats] = useState<TeamStats | null>(null);
+  const [backfilledEntries, setBackfilledEntries] = useState<BackfilledEntry[]>([]);
   const [isManager, setIsManager] = useState(false);
 
   // Modal states
@@ -142,6 +156,7 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
       // Load team members - platform admins can see all, others see their team only
       let teamMembers: any[] = [];
       let profilesMap: Record<string, { email: string; credits: number }> = {};
+      let backfilled: BackfilledEntry[] = [];
 
       // Only query team members if user has a team OR is platform admin viewing all
       if (memberData?.team_id || isAdmin) {
@@ -186,6 +201,22 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
             acc[p.id] = { email: p.email || '', credits: p.credits || 0 };
             return acc;
           }, {});
+
+          // Completions logged after the fact in the last week
+          const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+          const { data: auditData, error: auditError } = await supabase
+            .from('habit_completion_audit')
+            .select('id, user_id, actor_id, habit_title, action, completed_for_date, created_at')
+            .in('user_id', userIds)
+            .eq('is_backfilled', true)
+            .gte('created_at', weekAgo)
+            .order('created_at', { ascending: false })
+            .limit(200);
+          if (auditError) {
+            console.warn('Could not load habit audit trail:', auditError);
+          } else {
+            backfilled = auditData || [];
+          }
         }
       }
 
@@ -220,11 +251,13 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
           completion_rate: member.completion_rate || 0,
           last_active: member.last_active_at,
           status,
-          credits: profile.credits
+          credits: profile.credits,
+          backfilled_this_week: backfilled.filter(e => e.user_id === member.user_id && e.action === 'logged').length
         };
       });
 
       setMembers(transformedMembers);
+      setBackfilledEntries(backfilled);
 
       // Calculate team stats
       const activeCount = transformedMembers.filter(m => m.status === 'active').length;
@@ -390,7 +423,9 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
             { id: 'alerts', label: 'Alerts', adminOnly: false, managerOnly: true },
             { id: 'outreach', label: 'Outreach', adminOnly: false, managerOnly: true },
             { id: 'agent_activity', label: 'Agent Activity', adminOnly: false, managerOnly: true },
+            { id: 'prompt_presets', label: 'Prompt Presets', adminOnly: false, managerOnly: true },
             { id: 'print_products', label: 'Print Products', adminOnly: true },
+            { id: 'moderation', label: 'Moderation', adminOnly: true },
             { id: 'knowledge', label: 'Knowledge Base', adminOnly: true },
             { id: 'team_admin', label: 'Manage Members', adminOnly: true },
             { id: 'credits', label: 'Credit Management', adminOnly: true },
@@ -544,6 +579,7 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
                     <th className="text-center p-4 text-indigo-200 font-medium">Streak</th>
                     <th className="text-center p-4 text-indigo-200 font-medium">This Week</th>
                     <th className="text-center p-4 text-indigo-200 font-medium">Completion</th>
+                    <th className="text-center p-4 text-indigo-200 font-medium">Backfilled</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-white/10">
@@ -589,6 +625,11 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
                           <span className="text-sm text-white">{member.completion_rate}%</span>
                         </div>
                       </td>
+                      <td className="p-4 text-center">
+                        <span className={`font-medium ${member.backfilled_this_week > 0 ? 'text-yellow-300' : 'text-white'}`}>
+                          {member.backfilled_this_week}
+                        </span>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -631,6 +672,39 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
               </div>
             </div>
 
+            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+              <h3 className="text-lg font-semibold text-white mb-1">Backfilled Entries</h3>
+              <p className="text-sm text-indigo-200 mb-4">Habit completions logged for a past day in the last 7 days</p>
+              {backfilledEntries.length === 0 ? (
+                <p className="text-indigo-200 text-sm">No backfilled entries this week.</p>
+              ) : (
+                <div className="divide-y divide-white/10">
+                  {backfilledEntries.map((entry) => {
+                    const member = members.find(m => m.user_id === entry.user_id);
+                    const actor = entry.actor_id && entry.actor_id !== entry.user_id
+                      ? members.find(m => m.user_id === entry.actor_id)?.name || 'another user'
+                      : null;
+                    return (
+                      <div key={entry.id} className="flex items-center justify-between py-3">
+                        <div>
+                          <p className="text-white font-medium">
+                            {member?.name || 'Team Member'} {entry.action} "{entry.habit_title || 'Habit'}"
+                          </p>
+                          <p className="text-sm text-indigo-200">
+                            For {new Date(entry.completed_for_date + 'T00:00:00').toLocaleDateString()}
+                            {actor && ` · by ${actor}`}
+                          </p>
+                        </div>
+                        <span className="text-sm text-indigo-200">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
             <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
               <h3 className="text-lg font-semibold text-white mb-4">Engagement Trends</h3>
               <div className="h-48 flex items-center justify-center text-indigo-200">
@@ -714,6 +788,20 @@ const ManagerDashboard: React.FC<Props> = ({ onBack }) => {
           <FeatureFlagManager />
         )}
 
+        {/* Prompt Presets View - team presets for managers, platform presets for admins */}
+        {activeView === 'prompt_presets' && isManager && (
+          <PromptPresetManager
+            teamId={team?.id !== 'all' ? team?.id : undefined}
+            teamName={team?.name}
+            isPlatformAdmin={isPlatformAdmin}
+          />
+        )}
+
+        {/* Moderation Queue View - Platform Admin Only */}
+        {activeView === 'moderation' && isPlatformAdmin && (
+          <ModerationQueue />
+        )}
+
         {/* Print Products Analytics View - Platform Admin Only */}
         {activeView === 'print_products' && isPlatformAdmin && (
           <PrintProductsAnalytics />
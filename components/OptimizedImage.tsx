@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { getOptimizedImageUrl } from '../services/imageService';
+import { buildSrcSet, getOptimizedImageUrl } from '../services/imageService';
+import { ImageVariants } from '../types';
 
 interface Props extends React.ImgHTMLAttributes<HTMLImageElement> {
     src: string;
@@ -8,6 +9,7 @@ interface Props extends React.ImgHTMLAttributes<HTMLImageElement> {
     height?: number;
     className?: string;
     priority?: boolean; // If true, load immediately (no lazy load)
+    variants?: ImageVariants; // Resized copies; the browser picks one via srcset
 }
 
 const OptimizedImage: React.FC<Props> = ({
@@ -17,6 +19,8 @@ const OptimizedImage: React.FC<Props> = ({
     height,
     className = '',
     priority = false,
+    variants,
+    sizes,
     ...props
 }) => {
     const [isLoaded, setIsLoaded] = useState(false);
@@ -55,6 +59,8 @@ const OptimizedImage: React.FC<Props> = ({
 
     const optimizedUrl = getOptimizedImageUrl(src, width, height);
     const currentSrc = useOriginal ? src : optimizedUrl;
+    // A missing variant falls back to the original along with the src
+    const srcSet = useOriginal ? undefined : buildSrcSet(variants) || undefined;
 
     const handleError = () => {
         if (!useOriginal) {
@@ -83,6 +89,8 @@ const OptimizedImage: React.FC<Props> = ({
                 <img
                     ref={imgRef}
                     src={currentSrc}
+                    srcSet={srcSet}
+                    sizes={srcSet ? (sizes || `(max-width: ${width}px) 100vw, ${width}px`) : sizes}
                     alt={alt}
                     className={`transition-opacity duration-500 ${isLoaded ? 'opacity-100' : 'opacity-0'
                         } ${className}`}
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import { ActionTask, VisionImage, VisionShare } from '../types';
+import { getActionTasks } from '../services/storageService';
+import {
+  SHARE_EXPIRY_OPTIONS,
+  createVisionShare,
+  getVisionShares,
+  revokeVisionShare
+} from '../services/visionShareService';
+import { CopyIcon, ShareIcon, TrashIcon } from './Icons';
+import { useToast } from './ToastContext';
+
+interface Props {
+  // Vision to create a link for; without one the modal only manages existing links
+  image: VisionImage | null;
+  onClose: () => void;
+}
+
+/**
+ * Create expiring, revocable public links to a vision board, and list or
+ * revoke the user's existing links
+ */
+const ShareVisionModal: React.FC<Props> = ({ image, onClose }) => {
+  const [shares, setShares] = useState<VisionShare[]>([]);
+  const [tasks, setTasks] = useState<ActionTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [createdShare, setCreatedShare] = useState<VisionShare | null>(null);
+
+  // Link options
+  const [title, setTitle] = useState('');
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(1); // 7 days
+  const [passcode, setPasscode] = useState('');
+  const [watermark, setWatermark] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    loadShares();
+    if (image) {
+      getActionTasks().then(setTasks).catch(() => setTasks([]));
+    }
+  }, [image?.id]);
+
+  const loadShares = async () => {
+    try {
+      setLoading(true);
+      setShares(await getVisionShares());
+    } catch (err) {
+      console.error('Failed to load share links:', err);
+      showToast('Failed to load your share links', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleTask = (id: string) => {
+    setSelectedTaskIds(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+  };
+
+  const handleCreate = async () => {
+    if (!image) return;
+    try {
+      setCreating(true);
+      const share = await createVisionShare({
+        visionId: image.id,
+        title: title.trim() || undefined,
+        // Only the goals picked here are copied to the link
+        goals: tasks
+          .filter(t => selectedTaskIds.includes(t.id))
+          .map(t => ({ title: t.title, completed: t.isCompleted })),
+        expiresInDays: SHARE_EXPIRY_OPTIONS[expiryIndex].days,
+        passcode: passcode.trim() || undefined,
+        watermark
+      }, image.url);
+
+      setCreatedShare(share);
+      setShares(prev => [share, ...prev]);
+      setPasscode('');
+      await copyLink(share.share_url);
+    } catch (err: any) {
+      console.error('Failed to create share link:', err);
+      showToast(err.message || 'Failed to create share link', 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: VisionShare) => {
+    if (!confirm('Anyone with this link will no longer be able to view your vision. Revoke it?')) return;
+    try {
+      await revokeVisionShare(share.id);
+      setShares(prev => prev.map(s => s.id === share.id ? { ...s, state: 'revoked', revoked_at: new Date().toISOString() } : s));
+      if (createdShare?.id === share.id) setCreatedShare(null);
+      showToast('Share link revoked', 'success');
+    } catch (err) {
+      console.error('Failed to revoke share link:', err);
+      showToast('Failed to revoke share link', 'error');
+    }
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showToast('Link copied to clipboard!', 'success');
+    } catch {
+      showToast('Copy the link from the box below', 'info');
+    }
+  };
+
+  const activeShares = shares.filter(s => s.state === 'active');
+  const listedShares = image ? activeShares.filter(s => s.vision_id === image.id) : activeShares;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="p-5 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-serif font-bold text-navy-900 flex items-center gap-2">
+            <ShareIcon className="w-5 h-5 text-gold-500" />
+            {image ? 'Share Vision' : 'Shared Links'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-navy-900 p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {image && (
+          <div className="p-5 space-y-4 border-b border-gray-100">
+            <div className="flex gap-3">
+              <img src={image.url} alt={image.prompt} className="w-24 h-16 object-cover rounded-lg flex-shrink-0" />
+              <p className="text-xs text-gray-500">
+                Anyone with the link sees the image and only the title and goals you choose below. Nothing else from your profile is shared.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-semibold text-navy-900 mb-1">Title (optional)</label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={120}
+                placeholder="e.g. My 2030 Vision"
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-gold-400"
+              />
+            </div>
+
+            {tasks.length > 0 && (
+              <div>
+                <label className="block text-xs font-semibold text-navy-900 mb-1">Goals to show</label>
+                <ul className="max-h-32 overflow-y-auto space-y-1 border border-gray-100 rounded-lg p-2">
+                  {tasks.slice(0, 20).map(task => (
+                    <li key={task.id}>
+                      <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedTaskIds.includes(task.id)}
+                          onChange={() => toggleTask(task.id)}
+                          disabled={!selectedTaskIds.includes(task.id) && selectedTaskIds.length >= 10}
+                          className="accent-navy-900"
+                        />
+                        <span className={task.isCompleted ? 'line-through text-gray-400' : ''}>{task.title}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-navy-900 mb-1">Link expires</label>
+                <select
+                  value={expiryIndex}
+                  onChange={(e) => setExpiryIndex(Number(e.target.value))}
+                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-gold-400 bg-white"
+                >
+                  {SHARE_EXPIRY_OPTIONS.map((option, index) => (
+                    <option key={option.label} value={index}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-navy-900 mb-1">Passcode (optional)</label>
+                <input
+                  type="text"
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  maxLength={64}
+                  placeholder="No passcode"
+                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-gold-400"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-navy-900 cursor-pointer">
+              <input type="checkbox" checked={watermark} onChange={(e) => setWatermark(e.target.checked)} className="accent-navy-900" />
+              Add a watermark to the shared image
+            </label>
+
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="w-full bg-navy-900 hover:bg-navy-800 text-white font-semibold py-2.5 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {creating ? 'Creating link...' : 'Create Share Link'}
+            </button>
+
+            {createdShare && (
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={createdShare.share_url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 border border-gray-200 bg-gray-50 rounded-lg px-3 py-2 text-xs text-gray-700"
+                />
+                <button
+                  onClick={() => copyLink(createdShare.share_url)}
+                  className="px-3 bg-gold-500 hover:bg-gold-600 text-navy-900 rounded-lg"
+                  title="Copy link"
+                >
+                  <CopyIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="p-5">
+          <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">
+            Active links {image ? 'for this vision' : ''} ({listedShares.length})
+          </h4>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-2 border-gray-200 border-t-gold-500 rounded-full animate-spin" />
+            </div>
+          ) : listedShares.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">No active share links.</p>
+          ) : (
+            <ul className="space-y-2">
+              {listedShares.map(share => (
+                <li key={share.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-100">
+                  <img src={share.image_url} alt="" className="w-12 h-8 object-cover rounded flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium text-navy-900 truncate">{share.title || 'Untitled vision'}</p>
+                    <p className="text-[10px] text-gray-400">
+                      {share.view_count} view{share.view_count !== 1 ? 's' : ''}
+                      {' · '}{share.expires_at ? `expires ${new Date(share.expires_at).toLocaleDateString()}` : 'never expires'}
+                      {share.has_passcode && ' · passcode'}
+                      {share.watermarked && ' · watermarked'}
+                    </p>
+                  </div>
+                  <button onClick={() => copyLink(share.share_url)} className="p-1.5 text-gray-500 hover:text-navy-900" title="Copy link">
+                    <CopyIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleRevoke(share)} className="p-1.5 text-red-500 hover:text-red-700" title="Revoke link">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareVisionModal;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { SharedVision } from '../types';
+import { getSharedVision } from '../services/visionShareService';
+import { VisionaryLogo } from './Icons';
+
+interface Props {
+  token: string;
+}
+
+/**
+ * Public read-only page for a shared vision board (/share/:token).
+ * Shown to anyone with the link, signed in or not.
+ */
+const SharedVisionView: React.FC<Props> = ({ token }) => {
+  const [loading, setLoading] = useState(true);
+  const [vision, setVision] = useState<SharedVision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPasscode, setNeedsPasscode] = useState(false);
+  const [passcode, setPasscode] = useState('');
+
+  useEffect(() => {
+    loadVision();
+  }, [token]);
+
+  const loadVision = async (code?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getSharedVision(token, code);
+      if (result.success && result.share) {
+        setVision(result.share);
+        setNeedsPasscode(false);
+        if (result.share.title) document.title = result.share.title;
+      } else {
+        const isPasscode = result.reason === 'passcode_required' || result.reason === 'passcode_invalid' || result.reason === 'passcode_locked';
+        setNeedsPasscode(isPasscode);
+        // Asking for the passcode the first time isn't an error
+        setError(result.reason === 'passcode_required' ? null : result.error || 'This vision link is no longer available.');
+      }
+    } catch (err) {
+      console.error('Failed to load shared vision:', err);
+      setError('This vision could not be loaded. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmitPasscode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passcode.trim()) loadVision(passcode.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-navy-900 flex flex-col">
+      <header className="px-4 sm:px-8 h-16 flex items-center justify-between">
+        <a href="/"><VisionaryLogo variant="full" size="sm" theme="light" /></a>
+        <a
+          href="/"
+          className="text-sm font-semibold bg-gold-500 hover:bg-gold-400 text-navy-900 px-4 py-2 rounded-lg transition-colors"
+        >
+          Create Your Vision
+        </a>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        {loading && !vision ? (
+          <div className="w-10 h-10 border-4 border-white/20 border-t-gold-500 rounded-full animate-spin" />
+        ) : vision ? (
+          <div className="max-w-4xl w-full flex flex-col items-center gap-6 animate-fade-in">
+            {vision.title && (
+              <h1 className="text-3xl md:text-4xl font-serif font-bold text-white text-center">{vision.title}</h1>
+            )}
+            <img
+              src={vision.image_url}
+              alt={vision.title || 'Shared vision board'}
+              className="w-full max-h-[65vh] object-contain rounded-2xl shadow-2xl"
+            />
+            {vision.goals.length > 0 && (
+              <div className="bg-white/10 backdrop-blur-md rounded-xl p-5 w-full max-w-xl">
+                <p className="text-gold-400 text-xs font-bold uppercase tracking-wider mb-3">Goals</p>
+                <ul className="space-y-2">
+                  {vision.goals.map((goal, index) => (
+                    <li key={index} className="flex items-center gap-2 text-white/90 text-sm">
+                      <span className={goal.completed ? 'text-green-400' : 'text-white/40'}>{goal.completed ? '✓' : '○'}</span>
+                      <span className={goal.completed ? 'line-through text-white/60' : ''}>{goal.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : needsPasscode ? (
+          <form onSubmit={handleSubmitPasscode} className="bg-white rounded-2xl shadow-2xl p-6 max-w-sm w-full space-y-4">
+            <h1 className="text-lg font-serif font-bold text-navy-900">This vision is protected</h1>
+            <p className="text-sm text-gray-500">Enter the passcode you were given to view it.</p>
+            <input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              autoFocus
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-gold-400"
+              placeholder="Passcode"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={loading || !passcode.trim()}
+              className="w-full bg-navy-900 hover:bg-navy-800 text-white font-semibold py-2.5 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Checking...' : 'View Vision'}
+            </button>
+          </form>
+        ) : (
+          <div className="text-center max-w-sm">
+            <h1 className="text-xl font-serif font-bold text-white mb-2">Vision unavailable</h1>
+            <p className="text-white/70 text-sm">{error}</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedVisionView;
@@ -1,19 +1,30 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { editVisionImage, enhanceVisionPrompt, getVisionSuggestions, fetchUserGoalsAndVision, validateLikeness, VisionGenerationResult, LikenessValidationResult } from '../services/geminiService';
+import { generateVisionImageInBackground, enhanceVisionPrompt, getVisionSuggestions, fetchUserGoalsAndVision, validateLikeness, VisionGenerationResult, LikenessValidationResult } from '../services/geminiService';
 import { analyzeUserFace } from '../services/ai/identityService';
 import { useToast } from '../components/ToastContext';
 import {
   saveVisionImage,
   getVisionGallery,
+  getVisionLineage,
   deleteVisionImage,
   saveReferenceImage,
   getReferenceLibrary,
   deleteReferenceImage,
-  getUserProfile,
-  decrementCredits
+  getUserProfile
 } from '../services/storageService';
-import { VisionImage, ReferenceImage } from '../types';
+import { VisionImage, ReferenceImage, PromptPreset, UserProfile } from '../types';
+import { buildLineageTree, flattenLineage, getPreviousVersion } from '../services/visionLineageService';
+import {
+  PRESET_ASPECT_RATIOS,
+  PRESET_SCOPE_LABELS,
+  STYLE_PRESETS,
+  buildPromptVariables,
+  fillPromptTemplate,
+  getPromptPresets,
+  savePromptPreset,
+  withNegativePrompt
+} from '../services/promptPresetService';
 import { SparklesIcon, UploadIcon, SaveIcon, TrashIcon, DownloadIcon, RobotIcon, MicIcon, LibraryIcon, TagIcon, PlusIcon, PrinterIcon } from './Icons';
 
 // Camera Icon Component
@@ -53,31 +64,35 @@ const PRESET_TAGS = [
   "Golden hour"
 ];
 
-// Style Presets with Tier Locking
-const STYLE_PRESETS = [
-  { id: 'photorealistic', name: 'Photorealistic', tier: 'FREE' },
-  { id: 'cinematic', name: 'Cinematic', tier: 'PRO' },
-  { id: 'oil_painting', name: 'Oil Painting', tier: 'PRO' },
-  { id: 'watercolor', name: 'Watercolor', tier: 'PRO' },
-  { id: 'cyberpunk', name: 'Cyberpunk', tier: 'ELITE' },
-  { id: '3d_render', name: '3D Render', tier: 'ELITE' }
-];
-
 interface Props {
   onAgentStart: (prompt: string) => void;
   initialImage?: VisionImage | null;
   initialPrompt?: string;
+  onSetPrimary?: (image: VisionImage) => void;
+  primaryVisionId?: string;
 }
 
-const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPrompt }) => {
+const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPrompt, onSetPrimary, primaryVisionId }) => {
   const [baseImage, setBaseImage] = useState<string | null>(initialImage?.url || null);
   const [resultImage, setResultImage] = useState<string | null>(null);
+  // Gallery ids of the base and result, so each generation is saved as a child version of its base
+  const [baseImageId, setBaseImageId] = useState<string | null>(initialImage?.id || null);
+  const [resultImageId, setResultImageId] = useState<string | null>(null);
   const [currentPrompt, setCurrentPrompt] = useState(initialImage?.prompt || '');
   const [promptInput, setPromptInput] = useState(initialImage?.prompt || initialPrompt || '');
   const [goalText, setGoalText] = useState('');
   const [headerText, setHeaderText] = useState('');
   const [selectedStyle, setSelectedStyle] = useState<string>('photorealistic');
+  // Prompt presets: a template fills the prompt; style, negative guidance and aspect ratio carry over
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState('');
+  const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(false);
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
+  // Background generation saves to the gallery; remember which result is already there
+  const [savedResultUrl, setSavedResultUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
   const { showToast } = useToast();
@@ -99,6 +114,12 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
   const [isRefUploading, setIsRefUploading] = useState(false);
   const [isAnalyzingPhoto, setIsAnalyzingPhoto] = useState(false);
 
+  // Version History (all versions of the vision being refined)
+  const [lineage, setLineage] = useState<VisionImage[]>([]);
+  const [showHistory, setShowHistory] = useState(true);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+
   // Credit State
   const [credits, setCredits] = useState<number | null>(null);
   const [userTier, setUserTier] = useState<string>('FREE');
@@ -174,9 +195,12 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
   useEffect(() => {
     loadReferences();
     loadProfile();
+    loadPresets();
     if (initialImage) {
       setBaseImage(initialImage.url);
+      setBaseImageId(initialImage.id);
       setPromptInput(initialImage.prompt);
+      loadLineage(initialImage.lineageRootId || initialImage.id);
     } else if (initialPrompt && !promptInput) {
       setPromptInput(initialPrompt);
     }
@@ -226,20 +250,78 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
   const loadProfile = async () => {
     const profile = await getUserProfile();
     if (profile) {
+      setProfile(profile);
       setCredits(profile.credits);
       setUserTier(profile.subscription_tier || 'FREE');
     }
   };
 
+  const loadPresets = async () => {
+    setPresets(await getPromptPresets());
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+
+    const vars = buildPromptVariables(profile, {
+      visionText: userGoals?.visionText,
+      financialTarget: userGoals?.financialTarget
+    });
+    const { prompt, missing } = fillPromptTemplate(preset.template, vars);
+    setPromptInput(prompt);
+    setNegativePrompt(preset.negativePrompt || '');
+    setAspectRatio(preset.aspectRatio || '');
+
+    const presetStyle = STYLE_PRESETS.find(style => style.id === preset.style);
+    if (presetStyle && !isStyleLocked(presetStyle.tier)) {
+      setSelectedStyle(presetStyle.id);
+    }
+
+    if (missing.length > 0) {
+      showToast(`Fill in ${missing.map(m => `{${m}}`).join(', ')} in the prompt`, 'info');
+    }
+  };
+
+  const handleSavePreset = async () => {
+    const name = prompt('Name this preset. Use {name} or {dreamLocation} in the prompt to reuse it for anyone.');
+    if (!name?.trim()) return;
+    try {
+      const preset = await savePromptPreset({
+        scope: 'personal',
+        name,
+        template: promptInput,
+        style: selectedStyle,
+        negativePrompt: negativePrompt || undefined,
+        aspectRatio: aspectRatio || undefined
+      });
+      await loadPresets();
+      setSelectedPresetId(preset.id);
+      showToast(`Saved preset "${preset.name}"`, 'success');
+    } catch (e: any) {
+      showToast(e.message || 'Failed to save preset.', 'error');
+    }
+  };
+
   const loadReferences = async () => {
     const refs = await getReferenceLibrary();
     setReferences(refs);
   };
 
+  const loadLineage = async (lineageRootId: string) => {
+    const versions = await getVisionLineage(lineageRootId);
+    setLineage(versions);
+    setCompareIds([]);
+  };
+
   // CRITICAL: Helper to clear all image generation state when base image changes
   // This prevents stale data from persisting and causing truncation/corruption
+  // A new base image also starts a new vision; refine and branch set the base id afterwards
   const clearImageGenerationState = useCallback(() => {
     setResultImage(null);
+    setResultImageId(null);
+    setBaseImageId(null);
     setLikenessValidation(null);
     setModelUsed(null);
     setLikenessOptimized(false);
@@ -637,53 +719,34 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
         console.log('🔒 Identity Anchor will be used - baseImage is AI-generated, anchor is original selfie');
       }
 
-      // Call the upgraded editVisionImage with reference tags + Identity Anchor
-      const result = await editVisionImage(
-        imagesToProcess,
-        fullPrompt,
-        goalText,
-        headerText,
-        selectedStyle,
-        undefined, // aspectRatio
-        identityPrompt || undefined,
-        refTags.length > 0 ? refTags : undefined, // Pass reference image tags
-        identityAnchor || undefined, // Identity Anchor (original selfie)
-        'AUTO' // Let Complexity Router decide EDIT vs GENERATE
+      // Queue generation with reference tags + Identity Anchor; the worker saves
+      // the image and deducts the credit only if it succeeds
+      const savePrompt = fullPrompt + (goalText ? ` (Goal: ${goalText})` : '') + (headerText ? ` (Title: ${headerText})` : '');
+      const result = await generateVisionImageInBackground(
+        {
+          images: imagesToProcess,
+          prompt: withNegativePrompt(fullPrompt, negativePrompt),
+          savePrompt,
+          embeddedText: goalText,
+          titleText: headerText,
+          style: selectedStyle,
+          aspectRatio: aspectRatio || undefined,
+          identityPrompt: identityPrompt || undefined,
+          referenceImageTags: refTags.length > 0 ? refTags : undefined, // Pass reference image tags
+          referenceImageIds: dedupedRefs.map(r => r.id),
+          identityAnchorImage: identityAnchor || undefined, // Identity Anchor (original selfie)
+          requestType: 'AUTO', // Let Complexity Router decide EDIT vs GENERATE
+          parentImageId: baseImageId || undefined // Saved as a new version of the base image
+        },
+        (job) => setGenerationStatus(job.progress_message)
       );
 
-      if (result && result.image) {
-        // DIAGNOSTIC: Log image data details to debug truncation issues
-        const imageData = result.image;
-        const dataLength = imageData.length;
-        const startsCorrectly = imageData.startsWith('data:image/');
-        const hasBase64Marker = imageData.includes(';base64,');
-        const base64Start = imageData.indexOf(';base64,') + 8;
-        const base64Data = hasBase64Marker ? imageData.substring(base64Start) : '';
-        const base64Length = base64Data.length;
-        // Check if base64 ends properly (should be = padded or end cleanly)
-        const endsCorrectly = base64Data.length > 0 && (base64Data.endsWith('=') || base64Data.endsWith('==') || /[A-Za-z0-9+/]$/.test(base64Data));
-
-        console.log('📊 IMAGE DIAGNOSTIC:', {
-          totalLength: dataLength,
-          startsCorrectly,
-          hasBase64Marker,
-          base64Length,
-          endsCorrectly,
-          first50: imageData.substring(0, 50),
-          last50: imageData.substring(Math.max(0, dataLength - 50)),
-          model: result.model_used
-        });
-
-        // Validate image before setting
-        if (!startsCorrectly || !hasBase64Marker) {
-          console.error('❌ Invalid image data format received!');
-        }
-        if (base64Length < 10000) {
-          console.warn('⚠️ Image data seems small - might be truncated. Expected >100KB, got:', base64Length);
-        }
-
-        setResultImage(result.image);
-        setCurrentPrompt(fullPrompt + (goalText ? ` (Goal: ${goalText})` : '') + (headerText ? ` (Title: ${headerText})` : ''));
+      if (result?.url) {
+        setResultImage(result.url);
+        setResultImageId(result.imageId);
+        setSavedResultUrl(result.url);
+        setCurrentPrompt(savePrompt);
+        loadLineage(result.lineage_root_id || result.imageId);
 
         // Store model metadata
         setModelUsed(result.model_used || null);
@@ -693,21 +756,18 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
         if (result.warning) {
           showToast(`Vision generated with warning: ${result.warning}`, 'info');
         } else if (result.likeness_optimized && selectedRefs.length > 0) {
-          showToast("Vision generated with likeness optimization!", 'success');
+          showToast("Vision generated with likeness optimization and saved to your gallery!", 'success');
         } else {
-          showToast("Vision board generated successfully!", 'success');
+          showToast("Vision board generated and saved to your gallery!", 'success');
         }
 
-        // Deduct Credit
-        const success = await decrementCredits();
-        if (success) {
-          setCredits(prev => (prev !== null ? prev - 1 : 0));
-        }
+        // Credit was deducted by the worker
+        loadProfile();
 
         // Optional: Run likeness validation if references were used
         if (dedupedRefs.length > 0 && result.likeness_optimized) {
           // Don't block on validation - run it in background
-          runLikenessValidation(refUrls, result.image, dedupedRefs.map(r => r.identityDescription || r.tags.join(', ')));
+          runLikenessValidation(refUrls, result.url, dedupedRefs.map(r => r.identityDescription || r.tags.join(', ')));
         }
       } else {
         const errorMsg = "Could not generate image. Please try a different prompt.";
@@ -733,6 +793,9 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
           errorMsg = "Session expired. Please sign out and sign back in.";
         } else if (e.message.includes('Invalid or expired')) {
           errorMsg = "Your session has expired. Please refresh the page and sign in again.";
+        } else if (e.message.includes('No credits remaining')) {
+          errorMsg = "You're out of credits. Upgrade to keep generating visions.";
+          setShowSubModal(true);
         } else {
           errorMsg = `Generation failed: ${e.message.substring(0, 100)}`;
         }
@@ -742,6 +805,7 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
       console.error('Vision generation error:', e);
     } finally {
       setLoading(false);
+      setGenerationStatus(null);
     }
   };
 
@@ -777,6 +841,8 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
       setBaseImage(resultImage);
       // Clear ALL result/validation state to prevent stale data
       clearImageGenerationState();
+      // The next generation becomes a child version of this result
+      setBaseImageId(resultImageId);
 
       // ============================================
       // IDENTITY ANCHOR: Mark as AI but PRESERVE anchor
@@ -793,7 +859,62 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
     }
   };
 
+  // ============================================
+  // VERSION HISTORY: step back, branch, compare
+  // ============================================
+
+  // Show a saved version as the current result (doesn't change the base)
+  const viewVersion = (version: VisionImage) => {
+    setResultImage(version.url);
+    setResultImageId(version.id);
+    setSavedResultUrl(version.url);
+    setCurrentPrompt(version.prompt);
+    setModelUsed(version.modelUsed || null);
+    setLikenessValidation(null);
+  };
+
+  const handleStepBack = () => {
+    const currentId = resultImageId || baseImageId;
+    const previous = currentId ? getPreviousVersion(lineage, currentId) : null;
+    if (previous) {
+      viewVersion(previous);
+    } else {
+      showToast("This is the first version of this vision.", 'info');
+    }
+  };
+
+  // Continue refining from an earlier version; the next generation starts a new branch
+  const handleBranchFrom = (version: VisionImage) => {
+    setBaseImage(version.url);
+    clearImageGenerationState();
+    setBaseImageId(version.id);
+    setPromptInput(version.prompt);
+    if (version.style) setSelectedStyle(version.style);
+    // Gallery versions are AI-generated; the identity anchor (if any) is kept
+    setIsBaseImageAI(true);
+
+    showToast("Branching from this version. Your next generation starts a new branch.", 'info');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Keep at most two versions selected for side-by-side comparison
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev =>
+      prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleMakePrimary = (version: VisionImage) => {
+    if (!onSetPrimary) return;
+    onSetPrimary(version);
+    showToast("Set as your primary vision!", 'success');
+  };
+
   const handleSaveToGallery = async () => {
+    if (resultImage && resultImage === savedResultUrl) {
+      showToast("This vision is already in your gallery.", 'info');
+      return;
+    }
     if (resultImage && !isSaving) {
       setIsSaving(true);
       try {
@@ -806,6 +927,8 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
           prompt: currentPrompt || "Vision Board Image",
           createdAt: Date.now(),
           isFavorite: true,
+          parentImageId: baseImageId || undefined,
+          style: selectedStyle,
           // Include likeness metadata for tracking
           modelUsed: modelUsed || undefined,
           referenceImageIds: selectedRefs.length > 0 ? selectedRefs.map(r => r.id) : undefined,
@@ -988,6 +1111,59 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
         </div>
       )}
 
+      {/* Version Compare Modal */}
+      {showCompare && compareIds.length === 2 && (
+        <div
+          className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-4 animate-fade-in"
+          onClick={() => setShowCompare(false)}
+        >
+          <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto p-4 md:p-6" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-serif font-bold text-navy-900 text-lg">Compare Versions</h3>
+              <button onClick={() => setShowCompare(false)} className="text-gray-400 hover:text-navy-900 p-1">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {compareIds
+                .map(id => lineage.find(v => v.id === id))
+                .filter((v): v is VisionImage => !!v)
+                .map(version => (
+                  <div key={version.id} className="flex flex-col gap-2">
+                    <img src={version.url} alt={version.prompt} className="w-full rounded-xl object-contain bg-gray-100 max-h-[55vh]" />
+                    <p className="text-xs text-navy-900 line-clamp-3">{version.prompt}</p>
+                    <div className="flex flex-wrap gap-1 text-[10px]">
+                      <span className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">v{lineage.findIndex(v => v.id === version.id) + 1}</span>
+                      {version.style && <span className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{version.style}</span>}
+                      {version.modelUsed && <span className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{version.modelUsed}</span>}
+                      {version.likenessScore != null && (
+                        <span className="bg-green-50 text-green-700 px-2 py-0.5 rounded-full">Likeness {Math.round(version.likenessScore * 100)}%</span>
+                      )}
+                      <span className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{new Date(version.createdAt).toLocaleString()}</span>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => { viewVersion(version); setShowCompare(false); }}
+                        className="flex-1 bg-navy-100 hover:bg-navy-200 text-navy-900 text-xs font-medium py-2 rounded-lg transition-colors"
+                      >
+                        Keep This One
+                      </button>
+                      <button
+                        onClick={() => { handleBranchFrom(version); setShowCompare(false); }}
+                        className="flex-1 bg-white border border-navy-200 hover:border-navy-900 text-navy-900 text-xs font-medium py-2 rounded-lg transition-colors"
+                      >
+                        Branch From Here
+                      </button>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Floating Goals Panel - Hidden on mobile, compact sidebar on desktop */}
       {userGoals && (userGoals.visionText || userGoals.tasks.length > 0 || userGoals.financialTarget) && (
         <div className={`hidden lg:block fixed left-0 top-24 z-40 transition-all duration-300 ${showGoalsPanel ? 'translate-x-0' : '-translate-x-full'}`}>
@@ -1181,6 +1357,28 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
               <div className="mb-4 md:mb-6">
                 <label className="block text-xs md:text-sm font-medium text-gray-700 mb-2">3. Design Your Scene</label>
 
+                {/* Prompt Presets */}
+                {presets.length > 0 && (
+                  <select
+                    value={selectedPresetId}
+                    onChange={(e) => handleApplyPreset(e.target.value)}
+                    className="w-full mb-3 border border-gray-300 rounded-lg px-2 md:px-3 py-1.5 md:py-2 text-xs md:text-sm focus:border-gold-500 outline-none bg-white"
+                  >
+                    <option value="">Start from a preset...</option>
+                    {(['personal', 'team', 'platform'] as const).map(scope => {
+                      const scoped = presets.filter(p => p.scope === scope);
+                      if (scoped.length === 0) return null;
+                      return (
+                        <optgroup key={scope} label={PRESET_SCOPE_LABELS[scope]}>
+                          {scoped.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </optgroup>
+                      );
+                    })}
+                  </select>
+                )}
+
                 {/* Preset Tags - Scrollable on mobile */}
                 <div className="flex flex-wrap gap-1.5 md:gap-2 mb-3 md:mb-4 items-center max-h-24 md:max-h-none overflow-y-auto md:overflow-visible">
                   <button
@@ -1255,6 +1453,35 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
                     <MicIcon className="w-5 h-5" />
                   </button>
                 </div>
+
+                {/* Negative guidance & aspect ratio */}
+                <div className="flex gap-2 mt-2">
+                  <input
+                    type="text"
+                    value={negativePrompt}
+                    onChange={(e) => setNegativePrompt(e.target.value)}
+                    placeholder="Avoid (e.g. text, crowds)"
+                    className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2 md:px-3 py-1.5 text-xs focus:border-gold-500 outline-none"
+                  />
+                  <select
+                    value={aspectRatio}
+                    onChange={(e) => setAspectRatio(e.target.value)}
+                    className="border border-gray-300 rounded-lg px-2 py-1.5 text-xs focus:border-gold-500 outline-none bg-white"
+                    title="Aspect ratio"
+                  >
+                    <option value="">Auto</option>
+                    {PRESET_ASPECT_RATIOS.map(ratio => (
+                      <option key={ratio} value={ratio}>{ratio}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={handleSavePreset}
+                  disabled={!promptInput.trim()}
+                  className="mt-2 text-xs text-gold-700 hover:text-gold-800 font-medium disabled:opacity-40"
+                >
+                  + Save as preset
+                </button>
               </div>
 
               {/* Goal Text Overlay */}
@@ -1293,7 +1520,7 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
                 {loading ? (
                   <>
                     <div className="w-4 h-4 md:w-5 md:h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    <span className="text-sm md:text-base">Manifesting...</span>
+                    <span className="text-sm md:text-base">{generationStatus || 'Manifesting...'}</span>
                   </>
                 ) : (
                   <>
@@ -1462,6 +1689,7 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
                     onClick={() => {
                       if (confirm('Discard this vision? This cannot be undone.')) {
                         setResultImage(null);
+                        setResultImageId(null);
                         setCurrentPrompt('');
                         showToast('Vision discarded', 'info');
                       }
@@ -1475,6 +1703,92 @@ const VisionBoard: React.FC<Props> = ({ onAgentStart, initialImage, initialPromp
                 </div>
               </div>
             )}
+
+            {/* Version History - every generation of this vision, as a tree */}
+            {lineage.length > 1 && (
+              <div className="bg-white p-3 md:p-4 rounded-xl shadow-md border border-gray-100">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="font-bold text-navy-900 text-sm flex items-center gap-1"
+                  >
+                    Version History <span className="text-gray-400 font-normal">({lineage.length})</span>
+                    <span className="text-gray-400 text-xs">{showHistory ? '▲' : '▼'}</span>
+                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleStepBack}
+                      className="text-xs bg-white border border-gray-200 hover:bg-gray-50 text-navy-900 px-3 py-1.5 rounded-lg transition-colors"
+                      title="Show the version this one was generated from"
+                    >
+                      ↶ Step Back
+                    </button>
+                    <button
+                      onClick={() => setShowCompare(true)}
+                      disabled={compareIds.length !== 2}
+                      className="text-xs bg-navy-900 hover:bg-navy-800 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40"
+                      title="Select two versions to compare"
+                    >
+                      Compare ({compareIds.length}/2)
+                    </button>
+                  </div>
+                </div>
+
+                {showHistory && (
+                  <ul className="space-y-1 max-h-80 overflow-y-auto">
+                    {flattenLineage(buildLineageTree(lineage)).map(({ image: version, depth }) => {
+                      const isCurrent = version.id === (resultImageId || baseImageId);
+                      return (
+                        <li
+                          key={version.id}
+                          className={`flex items-center gap-2 p-1.5 rounded-lg ${isCurrent ? 'bg-gold-50 border border-gold-200' : 'hover:bg-gray-50'}`}
+                          style={{ marginLeft: Math.min(depth, 6) * 12 }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={compareIds.includes(version.id)}
+                            onChange={() => toggleCompare(version.id)}
+                            className="accent-navy-900"
+                            title="Select to compare"
+                          />
+                          <button onClick={() => viewVersion(version)} className="shrink-0">
+                            <img src={version.url} alt={version.prompt} className="w-10 h-10 rounded object-cover" />
+                          </button>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs text-navy-900 truncate">{version.prompt}</p>
+                            <p className="text-[10px] text-gray-400 truncate">
+                              v{lineage.findIndex(v => v.id === version.id) + 1}
+                              {version.style && ` · ${version.style}`}
+                              {version.likenessScore != null && ` · Likeness ${Math.round(version.likenessScore * 100)}%`}
+                              {' · '}{new Date(version.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          {version.id === primaryVisionId && (
+                            <span className="text-[10px] bg-gold-500 text-navy-900 font-bold px-1.5 py-0.5 rounded">Primary</span>
+                          )}
+                          <button
+                            onClick={() => handleBranchFrom(version)}
+                            className="text-[10px] text-navy-700 hover:text-navy-900 border border-gray-200 px-2 py-1 rounded"
+                            title="Refine from this version"
+                          >
+                            Branch
+                          </button>
+                          {onSetPrimary && version.id !== primaryVisionId && (
+                            <button
+                              onClick={() => handleMakePrimary(version)}
+                              className="text-[10px] text-gold-700 hover:text-gold-900 border border-gold-200 px-2 py-1 rounded"
+                              title="Show this version on your dashboard"
+                            >
+                              ★ Primary
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -37,6 +37,8 @@ interface Props {
   onNavigateToHabits?: () => void;
   defaultEdition?: EditionType;
   hasActionPlan?: boolean;
+  // Visions picked in the gallery; selected (and listed first) instead of the most recent
+  initialVisionIds?: string[];
   // TODO: Add userProfile prop for smart defaults
   // userProfile?: { first_name?: string };
 }
@@ -112,7 +114,8 @@ const WorkbookOrderModal: React.FC<Props> = ({
   onNavigateToGenerator,
   onNavigateToHabits,
   defaultEdition,
-  hasActionPlan = false
+  hasActionPlan = false,
+  initialVisionIds
 }) => {
   const [step, setStep] = useState<WizardStep>('TEMPLATE');
   const [isLoading, setIsLoading] = useState(false);
@@ -203,6 +206,11 @@ const WorkbookOrderModal: React.FC<Props> = ({
       const realVisionBoards = visionData.filter(v =>
         v.url && !v.url.startsWith('data:image/svg+xml')
       );
+      if (initialVisionIds?.length) {
+        realVisionBoards.sort((a, b) =>
+          Number(initialVisionIds.includes(b.id)) - Number(initialVisionIds.includes(a.id))
+        );
+      }
       setVisionBoards(realVisionBoards);
       setHabits(habitsData);
 
@@ -216,8 +224,11 @@ const WorkbookOrderModal: React.FC<Props> = ({
       setWizardState(prev => ({
         ...prev,
         title: defaultTitle,
-        // Pre-select recent real vision boards (up to max)
-        selectedVisionIds: realVisionBoards.slice(0, MAX_VISION_BOARDS).map(v => v.id),
+        // Pre-select the visions picked in the gallery, or the most recent ones (up to max)
+        selectedVisionIds: (initialVisionIds?.length
+          ? realVisionBoards.filter(v => initialVisionIds.includes(v.id))
+          : realVisionBoards
+        ).slice(0, MAX_VISION_BOARDS).map(v => v.id),
         // Pre-select all habits (up to max)
         selectedHabitIds: habitsData.slice(0, MAX_HABITS).map(h => h.id)
       }));
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { ModerationQueueItem } from '../../types';
+import {
+  MODERATION_CATEGORY_LABELS,
+  getModerationQueue,
+  reviewModerationItem
+} from '../../services/moderationService';
+
+type QueueStatus = ModerationQueueItem['status'];
+
+const STATUS_TABS: { id: QueueStatus; label: string }[] = [
+  { id: 'pending', label: 'Needs Review' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' }
+];
+
+/**
+ * ModerationQueue - Admin review of quarantined images
+ *
+ * Images flagged by the moderation scan are held here and can't be
+ * printed. Approving clears the flag; rejecting keeps the image blocked.
+ */
+const ModerationQueue: React.FC = () => {
+  const [status, setStatus] = useState<QueueStatus>('pending');
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue(1);
+  }, [status]);
+
+  const loadQueue = async (nextPage: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getModerationQueue(status, nextPage);
+      setItems(prev => nextPage === 1 ? result.items : [...prev, ...result.items]);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+      setPage(nextPage);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (item: ModerationQueueItem, decision: 'approved' | 'rejected') => {
+    const note = notes[item.id]?.trim();
+    if (decision === 'rejected' && !note) {
+      setError('Add a note explaining the rejection');
+      return;
+    }
+    setReviewingId(item.id);
+    setError(null);
+    try {
+      await reviewModerationItem(item.id, decision, note);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      setTotal(prev => Math.max(0, prev - 1));
+    } catch (err: any) {
+      setError(err.message || 'Failed to review image');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Content Moderation</h2>
+          <p className="text-sm text-indigo-200">Flagged uploads and generations are held here and blocked from printing</p>
+        </div>
+        <div className="flex gap-2">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setStatus(tab.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                status === tab.id ? 'bg-white text-purple-900' : 'bg-white/10 text-white hover:bg-white/20'
+              }`}
+            >
+              {tab.label}{status === tab.id && !loading ? ` (${total})` : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+      )}
+
+      {items.length === 0 && !loading ? (
+        <div className="bg-white/10 rounded-xl border border-white/20 p-6 text-center text-indigo-200">
+          {status === 'pending' ? 'Nothing waiting for review' : 'No reviewed images'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {items.map(item => (
+            <div key={item.id} className="bg-white/10 backdrop-blur-sm rounded-xl border border-white/20 overflow-hidden">
+              <img src={item.imageUrl} alt="Flagged image" className="w-full h-48 object-cover" />
+              <div className="p-4 space-y-2">
+                <div className="flex flex-wrap gap-1.5">
+                  {item.categories.length > 0 ? item.categories.map(category => (
+                    <span key={category} className="text-xs px-2 py-0.5 rounded-full bg-red-500/30 text-red-100">
+                      {MODERATION_CATEGORY_LABELS[category]} {Math.round((item.scores[category] ?? 0) * 100)}%
+                    </span>
+                  )) : (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-500/30 text-yellow-100">Scan error</span>
+                  )}
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-white/10 text-indigo-100">
+                    {item.source === 'vision' ? 'Generated' : 'Upload'}
+                  </span>
+                </div>
+                <p className="text-xs text-indigo-200">
+                  {item.userName || item.userEmail || item.userId} · {new Date(item.createdAt).toLocaleString()}
+                </p>
+                <ul className="text-xs text-indigo-100 list-disc list-inside">
+                  {item.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                </ul>
+
+                {item.status === 'pending' ? (
+                  <>
+                    <input
+                      value={notes[item.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [item.id]: e.target.value })}
+                      placeholder="Review notes (required to reject)"
+                      className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-indigo-300 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleReview(item, 'approved')}
+                        disabled={reviewingId === item.id}
+                        className="flex-1 px-3 py-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReview(item, 'rejected')}
+                        disabled={reviewingId === item.id}
+                        className="flex-1 px-3 py-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-indigo-300">
+                    {item.status === 'approved' ? 'Approved' : 'Rejected'}
+                    {item.reviewedAt && ` ${new Date(item.reviewedAt).toLocaleDateString()}`}
+                    {item.reviewNotes && ` · ${item.reviewNotes}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading && <div className="text-center text-indigo-200">Loading...</div>}
+
+      {hasMore && !loading && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => loadQueue(page + 1)}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm font-medium"
+          >
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModerationQueue;
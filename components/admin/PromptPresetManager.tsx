@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { PromptPreset, PromptPresetInput, PromptPresetScope } from '../../types';
+import {
+  PRESET_ASPECT_RATIOS,
+  PROMPT_TEMPLATE_VARIABLES,
+  STYLE_PRESETS,
+  deletePromptPreset,
+  getPromptPresets,
+  getTemplateVariables,
+  savePromptPreset
+} from '../../services/promptPresetService';
+
+interface Props {
+  teamId?: string;
+  teamName?: string;
+  isPlatformAdmin: boolean;
+}
+
+const EMPTY_FORM: PromptPresetInput = {
+  scope: 'team',
+  name: '',
+  description: '',
+  template: '',
+  style: 'photorealistic',
+  negativePrompt: '',
+  aspectRatio: '',
+  sortOrder: 0,
+  isActive: true
+};
+
+/**
+ * PromptPresetManager - Admin panel for shared prompt templates
+ *
+ * Team managers edit their team's presets; platform admins also edit
+ * the featured presets every user sees. Templates use {variable}
+ * placeholders filled from each user's profile.
+ */
+const PromptPresetManager: React.FC<Props> = ({ teamId, teamName, isPlatformAdmin }) => {
+  const scopes: PromptPresetScope[] = [
+    ...(teamId ? ['team' as const] : []),
+    ...(isPlatformAdmin ? ['platform' as const] : [])
+  ];
+  const [scope, setScope] = useState<PromptPresetScope>(scopes[0] || 'team');
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Preset being edited: null = none, '' = new preset
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PromptPresetInput>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadPresets();
+  }, [scope, teamId]);
+
+  const loadPresets = async () => {
+    setLoading(true);
+    setPresets(await getPromptPresets({
+      includeInactive: true,
+      scope,
+      teamId: scope === 'team' ? teamId : undefined
+    }));
+    setLoading(false);
+  };
+
+  const startEdit = (preset?: PromptPreset) => {
+    setError(null);
+    setEditingId(preset?.id || '');
+    setForm(preset ? { ...EMPTY_FORM, ...preset } : { ...EMPTY_FORM, scope, teamId });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.template.trim()) {
+      setError('Name and template are required');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await savePromptPreset({ ...form, scope, teamId: scope === 'team' ? teamId : undefined }, editingId || undefined);
+      setEditingId(null);
+      await loadPresets();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save preset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: PromptPreset) => {
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await deletePromptPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete preset');
+    }
+  };
+
+  const unknownVariables = getTemplateVariables(form.template)
+    .filter(v => !PROMPT_TEMPLATE_VARIABLES.some(known => known.key === v));
+
+  const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-indigo-300 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  if (scopes.length === 0) {
+    return (
+      <div className="bg-white/10 rounded-xl border border-white/20 p-6 text-indigo-200">
+        Join a team to manage shared prompt presets.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Prompt Presets</h2>
+          <p className="text-sm text-indigo-200">Reusable vision prompts with style, negative guidance and aspect ratio</p>
+        </div>
+        <div className="flex gap-2">
+          {scopes.map(s => (
+            <button
+              key={s}
+              onClick={() => { setScope(s); setEditingId(null); }}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                scope === s ? 'bg-white text-purple-900' : 'bg-white/10 text-white hover:bg-white/20'
+              }`}
+            >
+              {s === 'team' ? (teamName || 'Team') : 'Platform'}
+            </button>
+          ))}
+          <button
+            onClick={() => startEdit()}
+            className="px-4 py-2 bg-indigo-500 hover:bg-indigo-600 text-white rounded-lg font-medium transition-colors text-sm"
+          >
+            + New Preset
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+      )}
+
+      {editingId !== null && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-xl border border-white/20 p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Preset name"
+              maxLength={80}
+              className={inputClass}
+            />
+            <input
+              value={form.description || ''}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Short description (optional)"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <textarea
+              value={form.template}
+              onChange={(e) => setForm({ ...form, template: e.target.value })}
+              placeholder="{name} on a sailboat in {dreamLocation} at golden hour"
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {PROMPT_TEMPLATE_VARIABLES.map(v => (
+                <button
+                  key={v.key}
+                  onClick={() => setForm({ ...form, template: `${form.template}{${v.key}}` })}
+                  className="text-xs px-2 py-1 rounded-full bg-white/10 text-indigo-100 hover:bg-white/20"
+                  title={v.label}
+                >
+                  {`{${v.key}}`}
+                </button>
+              ))}
+            </div>
+            {unknownVariables.length > 0 && (
+              <p className="text-xs text-yellow-300 mt-2">
+                Unknown variables stay unfilled: {unknownVariables.map(v => `{${v}}`).join(', ')}
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <select
+              value={form.style || ''}
+              onChange={(e) => setForm({ ...form, style: e.target.value })}
+              className={inputClass}
+            >
+              {STYLE_PRESETS.map(style => (
+                <option key={style.id} value={style.id} className="text-gray-900">{style.name}</option>
+              ))}
+            </select>
+            <select
+              value={form.aspectRatio || ''}
+              onChange={(e) => setForm({ ...form, aspectRatio: e.target.value })}
+              className={inputClass}
+            >
+              <option value="" className="text-gray-900">Auto aspect</option>
+              {PRESET_ASPECT_RATIOS.map(ratio => (
+                <option key={ratio} value={ratio} className="text-gray-900">{ratio}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={form.sortOrder ?? 0}
+              onChange={(e) => setForm({ ...form, sortOrder: Number(e.target.value) })}
+              title="Sort order"
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={form.isActive ?? true}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+          <input
+            value={form.negativePrompt || ''}
+            onChange={(e) => setForm({ ...form, negativePrompt: e.target.value })}
+            placeholder="Avoid (e.g. text, crowds, logos)"
+            className={inputClass}
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditingId(null)} className="px-4 py-2 text-indigo-200 hover:text-white text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 text-white rounded-lg font-medium transition-colors text-sm"
+            >
+              {saving ? 'Saving...' : 'Save Preset'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-xl border border-white/20">
+        {loading ? (
+          <div className="p-6 text-center text-indigo-200">Loading presets...</div>
+        ) : presets.length === 0 ? (
+          <div className="p-6 text-center text-indigo-200">No presets yet</div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {presets.map(preset => (
+              <div key={preset.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-white">
+                    {preset.name}
+                    {!preset.isActive && <span className="ml-2 text-xs text-yellow-300">Inactive</span>}
+                  </p>
+                  <p className="text-sm text-indigo-200 truncate">{preset.template}</p>
+                  <p className="text-xs text-indigo-300 mt-1">
+                    {[preset.style, preset.aspectRatio, preset.negativePrompt && `avoid: ${preset.negativePrompt}`].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => startEdit(preset)} className="text-sm text-indigo-200 hover:text-white">Edit</button>
+                  <button onClick={() => handleDelete(preset)} className="text-sm text-red-300 hover:text-red-200">Delete</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptPresetManager;
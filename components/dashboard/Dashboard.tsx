@@ -16,6 +16,7 @@ interface Habit {
   icon: string;
   completedToday: boolean;
   streak: number;
+  isPaused?: boolean;
 }
 
 interface Props {
@@ -34,6 +35,7 @@ interface Props {
   financialTargetLabel?: string;
   onNavigate: (view: AppView) => void;
   onToggleTask: (taskId: string) => void;
+  onSkipTask?: (taskId: string) => void;
   onToggleHabit: (habitId: string) => void;
   isLoadingFocus?: boolean;
   onPlayBriefing?: () => void;
@@ -59,6 +61,7 @@ const Dashboard: React.FC<Props> = ({
   financialTargetLabel,
   onNavigate,
   onToggleTask,
+  onSkipTask,
   onToggleHabit,
   isLoadingFocus,
   onPlayBriefing,
@@ -223,6 +226,7 @@ const Dashboard: React.FC<Props> = ({
             <TodayActionsCard
               tasks={tasks}
               onToggleTask={onToggleTask}
+              onSkipTask={onSkipTask}
               onViewAll={() => onNavigate(AppView.ACTION_PLAN)}
             />
 
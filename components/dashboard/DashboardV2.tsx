@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
-import { AppView, ActionTask } from '../../types';
+import { AppView, ActionTask, ImageVariants } from '../../types';
+import { advanceTaskRecurrence } from '../../services/storageService';
 import VisionHero from './VisionHero';
 import ExecutionPanel from './ExecutionPanel';
 import QuickActions from './QuickActions';
@@ -15,6 +16,7 @@ interface VisionData {
   id: string;
   title?: string;
   imageUrl?: string;
+  variants?: ImageVariants;
   isPrimary?: boolean;
   createdAt?: string;
 }
@@ -92,7 +94,7 @@ const DashboardV2: React.FC<Props> = ({
     try {
       const { data: boards, error } = await supabase
         .from('vision_boards')
-        .select('id, prompt, image_url, is_favorite, created_at')
+        .select('id, prompt, image_url, image_variants, is_favorite, created_at')
         .eq('user_id', userId)
         .order('is_favorite', { ascending: false })
         .order('created_at', { ascending: false })
@@ -105,6 +107,7 @@ const DashboardV2: React.FC<Props> = ({
           id: boards[0].id,
           title: boards[0].prompt?.slice(0, 100),
           imageUrl: boards[0].image_url,
+          variants: boards[0].image_variants,
           isPrimary: boards[0].is_favorite,
           createdAt: boards[0].created_at
         });
@@ -126,8 +129,9 @@ const DashboardV2: React.FC<Props> = ({
       // Fetch today's tasks
       const { data: todayData, error: todayError } = await supabase
         .from('action_tasks')
-        .select('id, title, description, due_date, type, is_completed, ai_metadata')
+        .select('id, title, description, due_date, type, is_completed, ai_metadata, recurrence_rule')
         .eq('user_id', userId)
+        .is('skipped_at', null)
         .gte('due_date', today.toISOString())
         .lt('due_date', tomorrow.toISOString())
         .order('due_date', { ascending: true });
@@ -141,7 +145,8 @@ const DashboardV2: React.FC<Props> = ({
         dueDate: task.due_date,
         type: task.type as ActionTask['type'],
         isCompleted: task.is_completed,
-        aiMetadata: task.ai_metadata
+        aiMetadata: task.ai_metadata,
+        recurrenceRule: task.recurrence_rule || undefined
       }));
 
       setTodayTasks(mappedTodayTasks);
@@ -149,8 +154,9 @@ const DashboardV2: React.FC<Props> = ({
       // Fetch upcoming tasks
       const { data: upcomingData, error: upcomingError } = await supabase
         .from('action_tasks')
-        .select('id, title, description, due_date, type, is_completed')
+        .select('id, title, description, due_date, type, is_completed, recurrence_rule')
         .eq('user_id', userId)
+        .is('skipped_at', null)
         .gte('due_date', tomorrow.toISOString())
         .eq('is_completed', false)
         .order('due_date', { ascending: true })
@@ -164,7 +170,8 @@ const DashboardV2: React.FC<Props> = ({
         description: task.description || '',
         dueDate: task.due_date,
         type: task.type as ActionTask['type'],
-        isCompleted: task.is_completed
+        isCompleted: task.is_completed,
+        recurrenceRule: task.recurrence_rule || undefined
       }));
 
       setUpcomingTasks(mappedUpcomingTasks);
@@ -319,6 +326,17 @@ const DashboardV2: React.FC<Props> = ({
         imageUrl: primaryVision.url,
         isPrimary: true
       });
+
+      // App state only carries the URL; look up the resized copies for the hero
+      supabase
+        .from('vision_boards')
+        .select('image_variants')
+        .eq('id', primaryVision.id)
+        .maybeSingle()
+        .then(({ data }) => {
+          if (!data?.image_variants) return;
+          setVision(prev => prev?.id === primaryVision.id ? { ...prev, variants: data.image_variants } : prev);
+        });
     }
   }, [primaryVision]);
 
@@ -350,8 +368,15 @@ const DashboardV2: React.FC<Props> = ({
       setTodayTasks(prev =>
         prev.map(t => t.id === taskId ? { ...t, isCompleted: !newCompleted } : t)
       );
+      return;
     }
-  }, []); // No dependencies needed - uses functional updates
+
+    // Completing a recurring task schedules its next occurrence
+    if (newCompleted) {
+      const next = await advanceTaskRecurrence(taskId);
+      if (next) fetchTodayTasks();
+    }
+  }, [fetchTodayTasks]);
 
   // Toggle habit completion - uses functional updates to avoid state dependency
   const handleToggleHabit = useCallback(async (habitId: string) => {
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { ActionTask } from '../../types';
+import { describeRecurrence } from '../../supabase/functions/_shared/task-recurrence';
 import EmptyState from './EmptyState';
 
 interface HabitData {
@@ -143,6 +144,7 @@ const ExecutionPanel: React.FC<Props> = ({
                     {task.dueDate && (
                       <p className="text-xs text-gray-400">
                         {new Date(task.dueDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {task.recurrenceRule && <span className="ml-2">↻ {describeRecurrence(task.recurrenceRule)}</span>}
                       </p>
                     )}
                   </div>
@@ -176,6 +178,9 @@ const ExecutionPanel: React.FC<Props> = ({
                 <div key={task.id} className="flex items-center gap-2 text-sm text-gray-600">
                   <span className="text-gray-400">○</span>
                   <span className="truncate">{task.title}</span>
+                  {task.recurrenceRule && (
+                    <span className="text-gray-400" title={describeRecurrence(task.recurrenceRule)}>↻</span>
+                  )}
                   <span className="text-xs text-gray-400 ml-auto">
                     {new Date(task.dueDate).toLocaleDateString([], { month: 'short', day: 'numeric' })}
                   </span>
@@ -6,6 +6,8 @@ interface Habit {
   icon: string;
   completedToday: boolean;
   streak: number;
+  /** Vacation mode: paused habits count as neither done nor missed */
+  isPaused?: boolean;
 }
 
 interface Props {
@@ -15,7 +17,8 @@ interface Props {
 }
 
 const HabitStreakBar: React.FC<Props> = ({ habits, onToggleHabit, onViewAll }) => {
-  const completedCount = habits.filter(h => h.completedToday).length;
+  const activeHabits = habits.filter(h => !h.isPaused);
+  const completedCount = activeHabits.filter(h => h.completedToday).length;
   const displayHabits = habits.slice(0, 5);
 
   return (
@@ -27,7 +30,7 @@ const HabitStreakBar: React.FC<Props> = ({ habits, onToggleHabit, onViewAll }) =
           <h3 className="font-bold text-navy-900">Daily Habits</h3>
         </div>
         <span className="text-sm font-medium text-gray-500">
-          {completedCount}/{habits.length} complete
+          {completedCount}/{activeHabits.length} complete
         </span>
       </div>
 
@@ -39,22 +42,28 @@ const HabitStreakBar: React.FC<Props> = ({ habits, onToggleHabit, onViewAll }) =
               <button
                 key={habit.id}
                 onClick={() => onToggleHabit(habit.id)}
+                disabled={habit.isPaused}
+                title={habit.isPaused ? 'Paused' : undefined}
                 className="flex flex-col items-center gap-2 p-2 group"
               >
                 <div
                   className={`w-14 h-14 rounded-xl flex items-center justify-center text-2xl transition-all ${
-                    habit.completedToday
+                    habit.isPaused
+                      ? 'bg-gray-50 opacity-50'
+                      : habit.completedToday
                       ? 'bg-green-100 ring-2 ring-green-500 ring-offset-2'
                       : 'bg-gray-100 hover:bg-gray-200'
                   }`}
                 >
-                  {habit.icon}
+                  {habit.isPaused ? '⏸️' : habit.icon}
                 </div>
                 <div className="text-center">
                   <p className="text-xs font-medium text-gray-700 truncate max-w-[60px]">
                     {habit.name}
                   </p>
-                  {habit.streak > 0 && (
+                  {habit.isPaused ? (
+                    <p className="text-xs text-gray-400 font-semibold">Paused</p>
+                  ) : habit.streak > 0 && (
                     <p className="text-xs text-orange-500 font-semibold">
                       {habit.streak} 🔥
                     </p>
@@ -77,11 +86,11 @@ const HabitStreakBar: React.FC<Props> = ({ habits, onToggleHabit, onViewAll }) =
               <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-gradient-to-r from-green-500 to-emerald-500 rounded-full transition-all duration-500"
-                  style={{ width: habits.length > 0 ? `${(completedCount / habits.length) * 100}%` : '0%' }}
+                  style={{ width: activeHabits.length > 0 ? `${(completedCount / activeHabits.length) * 100}%` : '0%' }}
                 />
               </div>
               <span className="text-xs font-semibold text-gray-600">
-                {habits.length > 0 ? Math.round((completedCount / habits.length) * 100) : 0}%
+                {activeHabits.length > 0 ? Math.round((completedCount / activeHabits.length) * 100) : 0}%
               </span>
             </div>
           </div>
@@ -13,13 +13,42 @@ interface Props {
  * - Current pace indicator (on track, at risk, ahead)
  * - Predicted completion date
  * - Confidence score
- * - AI-generated recommendations
+ * - Recommendations
+ *
+ * Predictions are calculated daily by the predict-progress function; users
+ * without any yet can calculate them on demand.
  */
 const ProgressPredictionWidget: React.FC<Props> = ({ userId }) => {
   const [predictions, setPredictions] = useState<ProgressPrediction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const calculatePredictions = async () => {
+    setIsCalculating(true);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('predict-progress?action=predict', {
+        body: {}
+      });
+      if (invokeError || !data?.success) {
+        throw invokeError || new Error(data?.error);
+      }
+
+      const { data: rows } = await supabase
+        .from('progress_predictions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('calculated_at', { ascending: false })
+        .limit(5);
+      setPredictions(rows || []);
+    } catch (err) {
+      console.error('Prediction calculation error:', err);
+      setError('Could not calculate predictions');
+    } finally {
+      setIsCalculating(false);
+    }
+  };
 
   useEffect(() => {
     const fetchPredictions = async () => {
@@ -139,9 +168,16 @@ const ProgressPredictionWidget: React.FC<Props> = ({ userId }) => {
         </div>
         <div className="text-center py-4">
           <p className="text-gray-500 text-sm mb-2">No predictions yet</p>
-          <p className="text-gray-400 text-xs">
-            As you work on your goals and habits, AI will generate progress predictions
+          <p className="text-gray-400 text-xs mb-3">
+            Predictions need open tasks with due dates or a financial target with recent balances
           </p>
+          <button
+            onClick={calculatePredictions}
+            disabled={isCalculating}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors disabled:opacity-50"
+          >
+            {isCalculating ? 'Calculating...' : 'Calculate now'}
+          </button>
         </div>
       </div>
     );
@@ -209,7 +245,9 @@ const ProgressPredictionWidget: React.FC<Props> = ({ userId }) => {
           <div className="flex items-center justify-between">
             <span className="text-sm text-gray-600">Predicted Completion</span>
             <span className="text-sm font-medium text-gray-900">
-              {formatDate(primaryPrediction.predicted_completion_date)}
+              {primaryPrediction.predicted_completion_date
+                ? formatDate(primaryPrediction.predicted_completion_date)
+                : 'Needs recent progress'}
             </span>
           </div>
           <div className="flex items-center justify-between mt-1">
@@ -1,13 +1,17 @@
 import React from 'react';
 import { ActionTask } from '../../types';
+import { describeRecurrence } from '../../supabase/functions/_shared/task-recurrence';
 
 interface Props {
   tasks: ActionTask[];
   onToggleTask: (taskId: string) => void;
+  onSkipTask?: (taskId: string) => void;
   onViewAll: () => void;
 }
 
-const TodayActionsCard: React.FC<Props> = ({ tasks, onToggleTask, onViewAll }) => {
+const TodayActionsCard: React.FC<Props> = ({ tasks: allTasks, onToggleTask, onSkipTask, onViewAll }) => {
+  // Skipped occurrences of recurring tasks are history, not today's work
+  const tasks = allTasks.filter(t => !t.skippedAt);
   const todayTasks = tasks.slice(0, 3); // Show top 3 tasks
   const completedCount = tasks.filter(t => t.isCompleted).length;
 
@@ -75,8 +79,21 @@ const TodayActionsCard: React.FC<Props> = ({ tasks, onToggleTask, onViewAll }) =
                 {task.description && (
                   <p className="text-sm text-gray-500 truncate">{task.description}</p>
                 )}
+                {task.recurrenceRule && (
+                  <p className="text-xs text-gray-400">↻ {describeRecurrence(task.recurrenceRule)}</p>
+                )}
               </div>
 
+              {task.recurrenceRule && !task.isCompleted && onSkipTask && (
+                <button
+                  onClick={() => onSkipTask(task.id)}
+                  className="text-xs text-gray-400 hover:text-gray-600"
+                  title="Skip this occurrence"
+                >
+                  Skip
+                </button>
+              )}
+
               {task.type && (
                 <span className={`text-xs px-2 py-0.5 rounded-full border ${getTypeColor(task.type)}`}>
                   {task.type}
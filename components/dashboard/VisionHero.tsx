@@ -1,10 +1,13 @@
 import React from 'react';
 import { VisionaryIcon, AscensionIcon } from '../Icons';
+import { ImageVariants } from '../../types';
+import { buildSrcSet } from '../../services/imageService';
 
 interface VisionData {
   id: string;
   title?: string;
   imageUrl?: string;
+  variants?: ImageVariants;
   isPrimary?: boolean;
   createdAt?: string;
 }
@@ -159,6 +162,8 @@ const VisionHero: React.FC<Props> = ({
         <div className="md:w-1/3 relative group">
           <img
             src={vision.imageUrl}
+            srcSet={buildSrcSet(vision.variants) || undefined}
+            sizes="(min-width: 768px) 33vw, 100vw"
             alt={vision.title || 'Your Vision'}
             className="w-full h-48 md:h-full object-cover"
           />
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { VisionAlbum } from '../../types';
+import { PrinterIcon, TagIcon, TrashIcon, BookOpenIcon } from '../Icons';
+
+interface Props {
+  count: number;
+  albums: VisionAlbum[];
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onMove: (albumId: string | null) => void;
+  onFavorite: (isFavorite: boolean) => void;
+  onAddTags: (tags: string) => void;
+  onPrint: () => void;
+  onAddToWorkbook: () => void;
+}
+
+/**
+ * Sticky bar of actions for the visions selected in the gallery
+ */
+const GalleryBulkActions: React.FC<Props> = ({
+  count,
+  albums,
+  busy,
+  onSelectAll,
+  onClear,
+  onDelete,
+  onMove,
+  onFavorite,
+  onAddTags,
+  onPrint,
+  onAddToWorkbook
+}) => {
+  const [tagInput, setTagInput] = useState<string | null>(null);
+  const disabled = busy || count === 0;
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-semibold transition-colors disabled:opacity-40';
+
+  const submitTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tagInput?.trim()) onAddTags(tagInput);
+    setTagInput(null);
+  };
+
+  return (
+    <div className="sticky top-16 z-40 bg-navy-900 text-white rounded-xl shadow-xl p-3 mb-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm font-bold px-2">{count} selected</span>
+      <button onClick={onSelectAll} className="text-xs text-white/70 hover:text-white px-2">Select all</button>
+      <button onClick={onClear} disabled={count === 0} className="text-xs text-white/70 hover:text-white px-2 disabled:opacity-40">Clear</button>
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => {
+            if (e.target.value) onMove(e.target.value === '__unfiled' ? null : e.target.value);
+          }}
+          className="bg-white/10 hover:bg-white/20 text-white text-xs font-semibold rounded-lg px-3 py-2 outline-none disabled:opacity-40"
+        >
+          <option value="" className="text-navy-900">Move to album...</option>
+          {albums.map(album => (
+            <option key={album.id} value={album.id} className="text-navy-900">{album.name}</option>
+          ))}
+          <option value="__unfiled" className="text-navy-900">Remove from album</option>
+        </select>
+
+        {tagInput === null ? (
+          <button onClick={() => setTagInput('')} disabled={disabled} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+            <TagIcon className="w-3.5 h-3.5" /> Tag
+          </button>
+        ) : (
+          <form onSubmit={submitTags} className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onBlur={() => !tagInput.trim() && setTagInput(null)}
+              placeholder="beach, 2030"
+              className="px-2 py-1.5 rounded-lg text-xs text-navy-900 outline-none w-32"
+            />
+            <button type="submit" className={`${buttonClass} bg-gold-500 text-navy-900`}>Add</button>
+          </form>
+        )}
+
+        <button onClick={() => onFavorite(true)} disabled={disabled} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+          ♥ Favorite
+        </button>
+        <button onClick={() => onFavorite(false)} disabled={disabled} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+          ♡ Unfavorite
+        </button>
+        <button onClick={onPrint} disabled={disabled} className={`${buttonClass} bg-gold-500 hover:bg-gold-400 text-navy-900`}>
+          <PrinterIcon className="w-3.5 h-3.5" /> Print
+        </button>
+        <button onClick={onAddToWorkbook} disabled={disabled} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+          <BookOpenIcon className="w-3.5 h-3.5" /> Add to Workbook
+        </button>
+        <button onClick={onDelete} disabled={disabled} className={`${buttonClass} bg-red-500 hover:bg-red-600`}>
+          <TrashIcon className="w-3.5 h-3.5" /> Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GalleryBulkActions;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { VisionAlbum, VisionGalleryQuery } from '../../types';
+
+export type GalleryFilter = Pick<VisionGalleryQuery, 'albumId' | 'tags' | 'favoritesOnly'>;
+
+interface Props {
+  albums: VisionAlbum[];
+  tags: string[];
+  filter: GalleryFilter;
+  search: string;
+  selectMode: boolean;
+  onSearchChange: (search: string) => void;
+  onFilterChange: (filter: GalleryFilter) => void;
+  onCreateAlbum: (name: string) => void;
+  onRenameAlbum: (album: VisionAlbum, name: string) => void;
+  onDeleteAlbum: (album: VisionAlbum) => void;
+  onToggleSelectMode: () => void;
+}
+
+/**
+ * Search, album tabs, favorites and tag filters above the gallery grid
+ */
+const GalleryFilterBar: React.FC<Props> = ({
+  albums,
+  tags,
+  filter,
+  search,
+  selectMode,
+  onSearchChange,
+  onFilterChange,
+  onCreateAlbum,
+  onRenameAlbum,
+  onDeleteAlbum,
+  onToggleSelectMode
+}) => {
+  const [newAlbumName, setNewAlbumName] = useState<string | null>(null);
+  const activeAlbum = albums.find(a => a.id === filter.albumId);
+  const selectedTags = filter.tags || [];
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-semibold transition-colors whitespace-nowrap ${
+      active ? 'bg-navy-900 text-white' : 'bg-white border border-gray-200 text-navy-900 hover:border-navy-900'
+    }`;
+
+  const toggleTag = (tag: string) => {
+    onFilterChange({
+      ...filter,
+      tags: selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag]
+    });
+  };
+
+  const submitNewAlbum = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newAlbumName?.trim()) onCreateAlbum(newAlbumName.trim());
+    setNewAlbumName(null);
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <svg className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search prompts and tags..."
+            className="w-full pl-9 pr-3 py-2.5 border border-gray-200 rounded-xl text-sm outline-none focus:border-gold-400 bg-white"
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onFilterChange({ ...filter, favoritesOnly: !filter.favoritesOnly })}
+            className={`${chipClass(!!filter.favoritesOnly)} !py-2.5 !rounded-xl`}
+          >
+            ♥ Favorites
+          </button>
+          <button onClick={onToggleSelectMode} className={`${chipClass(selectMode)} !py-2.5 !rounded-xl`}>
+            {selectMode ? 'Done Selecting' : 'Select'}
+          </button>
+        </div>
+      </div>
+
+      {/* Albums */}
+      <div className="flex items-center gap-2 overflow-x-auto pb-1">
+        <button onClick={() => onFilterChange({ ...filter, albumId: undefined })} className={chipClass(filter.albumId === undefined)}>
+          All Visions
+        </button>
+        <button onClick={() => onFilterChange({ ...filter, albumId: null })} className={chipClass(filter.albumId === null)}>
+          Unfiled
+        </button>
+        {albums.map(album => (
+          <button key={album.id} onClick={() => onFilterChange({ ...filter, albumId: album.id })} className={chipClass(filter.albumId === album.id)}>
+            {album.name}
+          </button>
+        ))}
+        {newAlbumName === null ? (
+          <button
+            onClick={() => setNewAlbumName('')}
+            className="px-3 py-1.5 rounded-full text-xs font-semibold text-gold-700 border border-dashed border-gold-400 hover:bg-gold-50 whitespace-nowrap"
+          >
+            + New Album
+          </button>
+        ) : (
+          <form onSubmit={submitNewAlbum} className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={newAlbumName}
+              onChange={(e) => setNewAlbumName(e.target.value)}
+              onBlur={() => !newAlbumName.trim() && setNewAlbumName(null)}
+              maxLength={60}
+              placeholder="Album name"
+              className="px-3 py-1.5 rounded-full text-xs border border-gold-400 outline-none w-36"
+            />
+            <button type="submit" className="px-3 py-1.5 rounded-full text-xs font-semibold bg-gold-500 text-navy-900">Add</button>
+          </form>
+        )}
+        {activeAlbum && (
+          <div className="flex items-center gap-1 ml-auto">
+            <button
+              onClick={() => {
+                const name = prompt('Rename album', activeAlbum.name);
+                if (name?.trim() && name.trim() !== activeAlbum.name) onRenameAlbum(activeAlbum, name.trim());
+              }}
+              className="text-xs text-gray-500 hover:text-navy-900 px-2 py-1 whitespace-nowrap"
+            >
+              Rename
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(`Delete the album "${activeAlbum.name}"? Its visions stay in your gallery.`)) onDeleteAlbum(activeAlbum);
+              }}
+              className="text-xs text-red-500 hover:text-red-700 px-2 py-1 whitespace-nowrap"
+            >
+              Delete Album
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Tags */}
+      {tags.length > 0 && (
+        <div className="flex items-center gap-2 overflow-x-auto pb-1">
+          <span className="text-xs text-gray-400 font-medium">Tags:</span>
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-2.5 py-1 rounded-full text-[11px] font-medium whitespace-nowrap transition-colors ${
+                selectedTags.includes(tag) ? 'bg-gold-500 text-navy-900' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+          {selectedTags.length > 0 && (
+            <button onClick={() => onFilterChange({ ...filter, tags: [] })} className="text-[11px] text-gray-400 hover:text-navy-900 whitespace-nowrap">
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryFilterBar;
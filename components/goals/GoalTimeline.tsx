@@ -0,0 +1,187 @@
+/**
+ * GoalTimeline - Gantt view of an action plan
+ *
+ * Shows subtasks under their parents and projected dates from
+ * taskGraphService: when an upstream task slips, dependent tasks move
+ * with it. The critical path (the chain that sets the finish date) is
+ * highlighted.
+ */
+
+import React, { useMemo } from 'react';
+import { ActionTask } from '../../types';
+import { scheduleTasks } from '../../services/taskGraphService';
+
+interface Props {
+  tasks: ActionTask[];
+}
+
+const DAY_MS = 86400000;
+
+const toTime = (dateKey: string) => Date.parse(`${dateKey}T00:00:00Z`);
+
+const formatDate = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const getTodayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const GoalTimeline: React.FC<Props> = ({ tasks }) => {
+  const today = getTodayKey();
+  const schedule = useMemo(() => scheduleTasks(tasks, today), [tasks, today]);
+  const tasksById = useMemo(() => new Map(tasks.map(t => [t.id, t])), [tasks]);
+
+  if (tasks.length === 0) {
+    return (
+      <div className="bg-white rounded-xl p-12 shadow-sm border border-gray-100 text-center text-gray-500">
+        Add goals to see them on the timeline
+      </div>
+    );
+  }
+
+  // Visible range covers every bar and planned due date, plus today
+  const dates = schedule.entries.flatMap(e => [e.start, e.end, e.plannedEnd].filter((d): d is string => !!d));
+  const rangeStart = Math.min(toTime(today), ...dates.map(toTime));
+  const rangeEnd = Math.max(toTime(today), ...dates.map(toTime)) + DAY_MS;
+  const span = rangeEnd - rangeStart;
+  const percent = (dateKey: string) => ((toTime(dateKey) - rangeStart) / span) * 100;
+
+  // Month ticks, thinned out for long plans
+  const ticks: { label: string; left: number }[] = [];
+  const cursor = new Date(rangeStart);
+  cursor.setUTCDate(1);
+  cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  const monthCount = Math.ceil(span / (30 * DAY_MS));
+  const step = Math.max(1, Math.ceil(monthCount / 8));
+  while (cursor.getTime() < rangeEnd) {
+    ticks.push({
+      label: cursor.toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' }),
+      left: ((cursor.getTime() - rangeStart) / span) * 100
+    });
+    cursor.setUTCMonth(cursor.getUTCMonth() + step);
+  }
+
+  const shifted = schedule.entries.filter(e => e.shiftDays > 0);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+      {/* Summary */}
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        {schedule.cycle ? (
+          <span className="px-3 py-1 rounded-full bg-red-50 text-red-700">
+            Dependency cycle: {schedule.cycle.map(id => tasksById.get(id)?.title).join(' → ')}
+          </span>
+        ) : (
+          <>
+            {schedule.projectEnd && (
+              <span className="text-gray-700">
+                Projected finish: <span className="font-semibold text-navy-900">{formatDate(schedule.projectEnd)}</span>
+              </span>
+            )}
+            {schedule.criticalPath.length > 0 && (
+              <span className="px-3 py-1 rounded-full bg-rose-50 text-rose-700">
+                Critical path: {schedule.criticalPath.length} task{schedule.criticalPath.length === 1 ? '' : 's'}
+              </span>
+            )}
+            {shifted.length > 0 && (
+              <span className="px-3 py-1 rounded-full bg-amber-50 text-amber-700">
+                {shifted.length} task{shifted.length === 1 ? '' : 's'} pushed back by upstream delays
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[640px]">
+          {/* Axis */}
+          <div className="flex">
+            <div className="w-56 flex-shrink-0" />
+            <div className="relative flex-1 h-6 border-b border-gray-200">
+              {ticks.map(tick => (
+                <span
+                  key={tick.label + tick.left}
+                  className="absolute text-xs text-gray-400 -translate-x-1/2"
+                  style={{ left: `${tick.left}%` }}
+                >
+                  {tick.label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Rows */}
+          {schedule.entries.map(entry => {
+            const task = tasksById.get(entry.taskId);
+            if (!task) return null;
+
+            const barColor = task.isCompleted
+              ? 'bg-green-400'
+              : entry.isCritical
+              ? 'bg-rose-500'
+              : 'bg-navy-700';
+            const blockers = entry.blockedBy.map(id => tasksById.get(id)?.title).filter(Boolean);
+
+            return (
+              <div key={entry.taskId} className="flex items-center border-b border-gray-50 py-2">
+                <div className="w-56 flex-shrink-0 pr-3" style={{ paddingLeft: `${entry.depth * 16}px` }}>
+                  <p className={`text-sm truncate ${task.isCompleted ? 'text-gray-400 line-through' : 'text-navy-900'}`}>
+                    {entry.depth > 0 && <span className="text-gray-300 mr-1">↳</span>}
+                    {task.title}
+                  </p>
+                  {blockers.length > 0 && (
+                    <p className="text-xs text-gray-400 truncate">Blocked by {blockers.join(', ')}</p>
+                  )}
+                </div>
+                <div className="relative flex-1 h-8">
+                  {/* Today */}
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-gold-500/60"
+                    style={{ left: `${percent(today)}%` }}
+                  />
+                  {/* Projected bar */}
+                  <div
+                    className={`absolute top-2 h-4 rounded ${barColor}`}
+                    style={{
+                      left: `${percent(entry.start)}%`,
+                      width: `${Math.max(0.5, percent(entry.end) - percent(entry.start))}%`
+                    }}
+                    title={`${formatDate(entry.start)} – ${formatDate(entry.end)}`}
+                  />
+                  {/* Original due date when the task slipped */}
+                  {entry.shiftDays > 0 && entry.plannedEnd && (
+                    <>
+                      <div
+                        className="absolute top-1 h-6 w-0.5 bg-amber-500"
+                        style={{ left: `${percent(entry.plannedEnd)}%` }}
+                        title={`Originally due ${formatDate(entry.plannedEnd)}`}
+                      />
+                      <span
+                        className="absolute top-2 text-xs text-amber-700 whitespace-nowrap pl-1"
+                        style={{ left: `${percent(entry.end)}%` }}
+                      >
+                        +{entry.shiftDays}d
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-rose-500" /> Critical path</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-navy-700" /> Scheduled</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-400" /> Completed</span>
+        <span className="flex items-center gap-1"><span className="w-0.5 h-3 bg-amber-500" /> Original due date</span>
+        <span className="flex items-center gap-1"><span className="w-px h-3 bg-gold-500" /> Today</span>
+      </div>
+    </div>
+  );
+};
+
+export default GoalTimeline;
@@ -6,12 +6,16 @@
  * - Editable goals with fields for description, metric/KPI, target date, priority, status
  * - Reordering, adding, deleting goals
  * - Draft plan creation and approval workflow
+ * - Version history with side-by-side compare and restore
+ * - Subtasks, "blocked by" dependencies and a timeline with the critical path
+ * - Version-checked saves with a merge dialog when a goal changed elsewhere
+ * - Live updates from other sessions, the AI coach and the voice agent
  * - AI coaching integration
  * - Sync with Execute view
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { AppView, ActionTask, GoalPlan, GoalPlanSource } from '../../types';
+import { AppView, ActionTask, GoalPlan, GoalPlanSource, PlanComparison, PlanEditor, PlanFieldChange, PlanTaskConflict, PlanTaskMergeField } from '../../types';
 import {
   getActivePlan,
   getDraftPlan,
@@ -21,8 +25,26 @@ import {
   deleteDraftTask,
   updateDraftPlan,
   approvePlan,
-  getPlanHistory
+  getPlanHistory,
+  comparePlanVersions,
+  restorePlanVersion,
+  importTasksToDraftPlan,
+  updateTaskStatus,
+  advanceTaskRecurrence,
+  skipTaskOccurrence,
+  subscribeToPlanChanges
 } from '../../services/storageService';
+import {
+  ConflictChoice,
+  PlanEditConflictError,
+  isAutoMergeable,
+  mergeTaskEdits,
+  resolveTaskConflict
+} from '../../services/planConflictService';
+import { getTaskGraphError } from '../../services/taskGraphService';
+import { describeRecurrence, normalizeRecurrence } from '../../supabase/functions/_shared/task-recurrence';
+import GoalTimeline from './GoalTimeline';
+import PlanImportModal from './PlanImportModal';
 
 // Icons
 const TargetIcon = () => (
@@ -85,6 +107,18 @@ const HistoryIcon = () => (
   </svg>
 );
 
+const UploadIcon = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+  </svg>
+);
+
+const CompareIcon = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+  </svg>
+);
+
 // Types
 interface Props {
   userId: string;
@@ -94,7 +128,7 @@ interface Props {
 }
 
 type TaskPriority = 'high' | 'medium' | 'low';
-type FilterType = 'all' | 'pending' | 'completed' | 'high' | 'medium' | 'low' | 'FINANCE' | 'LIFESTYLE' | 'ADMIN';
+type FilterType = 'all' | 'pending' | 'completed' | 'recurring' | 'skipped' | 'high' | 'medium' | 'low' | 'FINANCE' | 'LIFESTYLE' | 'ADMIN';
 
 interface EditableGoal extends ActionTask {
   metric?: string;
@@ -109,6 +143,24 @@ const PRIORITY_CONFIG: Record<TaskPriority, { label: string; color: string; bgCo
   low: { label: 'Low', color: 'text-green-700', bgColor: 'bg-green-50', borderColor: 'border-green-200' },
 };
 
+// Repeat presets; any other rule shows as custom
+const REPEAT_OPTIONS = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'semiannually', label: 'Every 6 months' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+// Who made a change that arrived from outside this session
+const PLAN_EDITOR_LABELS: Record<PlanEditor, string> = {
+  user: 'Another session',
+  ai_coach: 'The AI coach',
+  voice_agent: 'The voice coach',
+};
+
 // Type configuration
 const TYPE_CONFIG: Record<string, { icon: string; label: string; color: string; bgColor: string }> = {
   FINANCE: { icon: '💰', label: 'Financial', color: 'text-emerald-700', bgColor: 'bg-emerald-50' },
@@ -134,7 +186,10 @@ const GoalsPage: React.FC<Props> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [editingGoalId, setEditingGoalId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [planHistory, setPlanHistory] = useState<GoalPlan[]>([]);
+  const [comparison, setComparison] = useState<PlanComparison | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'timeline'>('list');
   const [showNewGoalForm, setShowNewGoalForm] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
@@ -142,11 +197,23 @@ const GoalsPage: React.FC<Props> = ({
   const [showFilters, setShowFilters] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [isAutoSaving, setIsAutoSaving] = useState(false);
+  const [conflict, setConflict] = useState<PlanTaskConflict | null>(null);
+  const [remoteNotice, setRemoteNotice] = useState<string | null>(null);
 
   // Refs for debounced auto-save
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const pendingGoalRef = useRef<EditableGoal | null>(null);
 
+  // Last server copy of each goal: the revision saves are checked against,
+  // and the base for merging when someone else saved in between
+  const serverTasksRef = useRef<Map<string, ActionTask>>(new Map());
+  const editingGoalIdRef = useRef<string | null>(null);
+  const bulkSaveRef = useRef(false);
+
+  useEffect(() => {
+    editingGoalIdRef.current = editingGoalId;
+  }, [editingGoalId]);
+
   // New goal form state
   const [newGoal, setNewGoal] = useState<Partial<EditableGoal>>({
     title: '',
@@ -170,15 +237,15 @@ const GoalsPage: React.FC<Props> = ({
     try {
       // Try to get draft plan first
       const draft = await getDraftPlan();
+      setDraftPlan(draft);
       if (draft) {
-        setDraftPlan(draft);
-        setGoals(draft.tasks?.map(t => ({ ...t, isEditing: false })) || []);
+        showPlanTasks(draft.tasks);
       } else {
         // Get active plan
         const active = await getActivePlan();
+        setActivePlan(active);
         if (active) {
-          setActivePlan(active);
-          setGoals(active.tasks?.map(t => ({ ...t, isEditing: false })) || []);
+          showPlanTasks(active.tasks);
         }
       }
 
@@ -193,6 +260,12 @@ const GoalsPage: React.FC<Props> = ({
     }
   };
 
+  // Show a plan's tasks as loaded from the server
+  const showPlanTasks = (tasks: ActionTask[] = []) => {
+    serverTasksRef.current = new Map(tasks.map(t => [t.id, t]));
+    setGoals(tasks.map(t => ({ ...t, isEditing: false })));
+  };
+
   // Filter goals
   const filteredGoals = goals.filter(goal => {
     // Search filter
@@ -201,8 +274,14 @@ const GoalsPage: React.FC<Props> = ({
       return false;
     }
 
+    // Skipped occurrences of recurring goals only show under their own filter
+    if (filter === 'skipped') return !!goal.skippedAt;
+    if (goal.skippedAt) return false;
+
     // Status/priority/type filter
     switch (filter) {
+      case 'recurring':
+        return !!goal.recurrenceRule;
       case 'pending':
         return !goal.isCompleted;
       case 'completed':
@@ -220,12 +299,13 @@ const GoalsPage: React.FC<Props> = ({
     }
   });
 
-  // Stats
+  // Stats (skipped occurrences are neither done nor pending)
+  const activeGoals = goals.filter(g => !g.skippedAt);
   const stats = {
-    total: goals.length,
-    completed: goals.filter(g => g.isCompleted).length,
-    pending: goals.filter(g => !g.isCompleted).length,
-    highPriority: goals.filter(g => g.priority === 'high' && !g.isCompleted).length
+    total: activeGoals.length,
+    completed: activeGoals.filter(g => g.isCompleted).length,
+    pending: activeGoals.filter(g => !g.isCompleted).length,
+    highPriority: activeGoals.filter(g => g.priority === 'high' && !g.isCompleted).length
   };
 
   // Create draft from active plan for editing
@@ -247,7 +327,7 @@ const GoalsPage: React.FC<Props> = ({
         await saveDraftTasks(newDraft.id, activePlan.tasks);
         const updatedDraft = await getDraftPlan();
         setDraftPlan(updatedDraft);
-        setGoals(updatedDraft?.tasks?.map(t => ({ ...t, isEditing: false })) || []);
+        showPlanTasks(updatedDraft?.tasks);
       }
     } catch (err: any) {
       console.error('Error creating draft:', err);
@@ -257,6 +337,28 @@ const GoalsPage: React.FC<Props> = ({
     }
   };
 
+  // Save a goal against the revision last read from the server. If it
+  // changed elsewhere, edits to different fields merge on their own; when
+  // both sides changed the same field the merge dialog opens instead.
+  const saveChecked = async (planId: string, goal: EditableGoal, retries = 1): Promise<ActionTask | null> => {
+    const server = serverTasksRef.current.get(goal.id);
+    try {
+      const saved = await saveDraftTask(planId, { ...goal, revision: server?.revision ?? goal.revision });
+      if (saved) serverTasksRef.current.set(saved.id, saved);
+      return saved;
+    } catch (err) {
+      if (!(err instanceof PlanEditConflictError)) throw err;
+
+      const merge = mergeTaskEdits(server, goal, err.current);
+      if (isAutoMergeable(merge) && retries > 0) {
+        serverTasksRef.current.set(goal.id, merge.theirs!);
+        return saveChecked(planId, { ...goal, ...merge.merged }, retries - 1);
+      }
+      setConflict(merge);
+      return null;
+    }
+  };
+
   // Save goal changes
   const saveGoal = async (goal: EditableGoal) => {
     const planId = draftPlan?.id;
@@ -266,9 +368,15 @@ const GoalsPage: React.FC<Props> = ({
       return;
     }
 
+    const graphError = getTaskGraphError(goals.map(g => g.id === goal.id ? goal : g));
+    if (graphError) {
+      setError(graphError);
+      return;
+    }
+
     setIsSaving(true);
     try {
-      const savedTask = await saveDraftTask(planId, {
+      const savedTask = await saveChecked(planId, {
         ...goal,
         displayOrder: goals.findIndex(g => g.id === goal.id)
       });
@@ -304,11 +412,15 @@ const GoalsPage: React.FC<Props> = ({
       const planId = draftPlan?.id;
       if (!planId || !pendingGoalRef.current) return;
 
+      // Leave invalid links unsaved until the user fixes them
+      const pendingGoal = pendingGoalRef.current;
+      if (getTaskGraphError(goals.map(g => g.id === pendingGoal.id ? pendingGoal : g))) return;
+
       setIsAutoSaving(true);
       try {
-        const savedTask = await saveDraftTask(planId, {
-          ...pendingGoalRef.current,
-          displayOrder: goals.findIndex(g => g.id === pendingGoalRef.current?.id)
+        const savedTask = await saveChecked(planId, {
+          ...pendingGoal,
+          displayOrder: goals.findIndex(g => g.id === pendingGoal.id)
         });
 
         if (savedTask) {
@@ -364,12 +476,15 @@ const GoalsPage: React.FC<Props> = ({
         dueDate: newGoal.dueDate || new Date().toISOString(),
         isCompleted: false,
         displayOrder: goals.length,
-        source: 'manual'
+        source: 'manual',
+        recurrenceRule: newGoal.recurrenceRule
       };
 
       const savedTask = await saveDraftTask(planId, goalToSave);
       if (savedTask) {
-        setGoals(prev => [...prev, { ...savedTask, isEditing: false }]);
+        serverTasksRef.current.set(savedTask.id, savedTask);
+        // The realtime echo of the insert may have added it already
+        setGoals(prev => [...prev.filter(g => g.id !== savedTask.id), { ...savedTask, isEditing: false }]);
         setNewGoal({
           title: '',
           description: '',
@@ -377,7 +492,8 @@ const GoalsPage: React.FC<Props> = ({
           priority: 'medium',
           dueDate: '',
           metric: '',
-          targetValue: ''
+          targetValue: '',
+          recurrenceRule: undefined
         });
         setShowNewGoalForm(false);
         setLastSaved(new Date());
@@ -399,7 +515,7 @@ const GoalsPage: React.FC<Props> = ({
     try {
       const success = await deleteDraftTask(planId, goalId);
       if (success) {
-        setGoals(prev => prev.filter(g => g.id !== goalId));
+        removeGoal(goalId);
         setLastSaved(new Date());
       }
     } catch (err: any) {
@@ -410,6 +526,18 @@ const GoalsPage: React.FC<Props> = ({
     }
   };
 
+  // Deleted tasks no longer block or contain anything
+  const removeGoal = (goalId: string) => {
+    serverTasksRef.current.delete(goalId);
+    setGoals(prev => prev
+      .filter(g => g.id !== goalId)
+      .map(g => ({
+        ...g,
+        parentTaskId: g.parentTaskId === goalId ? undefined : g.parentTaskId,
+        dependsOn: g.dependsOn?.filter(id => id !== goalId)
+      })));
+  };
+
   // Toggle goal completion
   const toggleGoalCompletion = async (goalId: string) => {
     const goal = goals.find(g => g.id === goalId);
@@ -418,13 +546,39 @@ const GoalsPage: React.FC<Props> = ({
     const updatedGoal = { ...goal, isCompleted: !goal.isCompleted };
     setGoals(prev => prev.map(g => g.id === goalId ? updatedGoal : g));
 
-    // Save if we have a draft
+    // Completing a recurring goal schedules its next occurrence
+    let next: ActionTask | null = null;
     if (draftPlan?.id) {
-      await saveDraftTask(draftPlan.id, updatedGoal);
+      const saved = await saveChecked(draftPlan.id, updatedGoal);
+      if (saved?.isCompleted) next = await advanceTaskRecurrence(goalId);
+      if (saved) setLastSaved(new Date());
+    } else if (activePlan) {
+      next = await updateTaskStatus(goalId, updatedGoal.isCompleted);
+    }
+
+    if (next) addOccurrence(next);
+  };
+
+  // Skip this occurrence of a recurring goal
+  const skipOccurrence = async (goalId: string) => {
+    setIsSaving(true);
+    try {
+      const next = await skipTaskOccurrence(goalId);
+      setGoals(prev => prev.map(g => g.id === goalId ? { ...g, skippedAt: new Date().toISOString() } : g));
+      if (next) addOccurrence(next);
       setLastSaved(new Date());
+    } catch (err: any) {
+      console.error('Error skipping goal:', err);
+      setError(err.message || 'Failed to skip goal. Please try again.');
+    } finally {
+      setIsSaving(false);
     }
   };
 
+  const addOccurrence = (task: ActionTask) => {
+    setGoals(prev => prev.some(g => g.id === task.id) ? prev : [...prev, { ...task, isEditing: false }]);
+  };
+
   // Approve draft plan
   const approveDraft = async () => {
     if (!draftPlan?.id) return;
@@ -482,9 +636,11 @@ const GoalsPage: React.FC<Props> = ({
         }
 
         if (planId) {
-          await saveDraftTasks(planId, newTasks);
+          // This session started the rewrite, so its echoes need no notice
+          bulkSaveRef.current = true;
+          await saveDraftTasks(planId, newTasks, 'ai_coach');
           const updatedDraft = await getDraftPlan();
-          setGoals(updatedDraft?.tasks?.map(t => ({ ...t, isEditing: false })) || []);
+          showPlanTasks(updatedDraft?.tasks);
           setLastSaved(new Date());
         }
       }
@@ -492,10 +648,161 @@ const GoalsPage: React.FC<Props> = ({
       console.error('Error regenerating with AI:', err);
       setError('Failed to regenerate goals. Please try again.');
     } finally {
+      bulkSaveRef.current = false;
       setIsRegenerating(false);
     }
   };
 
+  // Compare two plan versions side by side (older version on the left)
+  const compareVersions = async (planIdA: string, planIdB: string) => {
+    const [a, b] = [planIdA, planIdB].map(id => planHistory.find(p => p.id === id));
+    const [baseId, compareId] = a && b && a.version > b.version ? [planIdB, planIdA] : [planIdA, planIdB];
+
+    const result = await comparePlanVersions(baseId, compareId);
+    if (result) {
+      setComparison(result);
+    } else {
+      setError('Failed to load plan versions. Please try again.');
+    }
+  };
+
+  // Restore an archived version as a new draft
+  const restoreVersion = async (planId: string) => {
+    setIsSaving(true);
+    try {
+      await restorePlanVersion(planId);
+      setComparison(null);
+      setShowHistory(false);
+      await loadPlans();
+    } catch (err: any) {
+      console.error('Error restoring plan version:', err);
+      setError(err.message || 'Failed to restore this version. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Add reviewed imported tasks to the draft plan
+  const importPlan = async (tasks: ActionTask[], options: { replace: boolean; title?: string }) => {
+    setIsSaving(true);
+    try {
+      await importTasksToDraftPlan(tasks, { replace: options.replace, visionText: options.title });
+      setShowImport(false);
+      await loadPlans();
+      setLastSaved(new Date());
+    } catch (err: any) {
+      console.error('Error importing plan:', err);
+      setError(err.message || 'Failed to import plan. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Keep the merged result of a conflict, with the user's pick per field.
+  // A goal deleted elsewhere is saved again as a new goal.
+  const saveMergedConflict = async (choices: Partial<Record<PlanTaskMergeField, ConflictChoice>>) => {
+    const planId = draftPlan?.id;
+    if (!conflict || !planId) return;
+
+    const { mine, theirs } = conflict;
+    setConflict(null);
+    setEditingGoalId(null);
+    setIsSaving(true);
+    try {
+      if (!theirs) {
+        const restored = await saveDraftTask(planId, { ...mine, id: undefined, revision: undefined });
+        if (restored) {
+          serverTasksRef.current.set(restored.id, restored);
+          setGoals(prev => prev.map(g => g.id === mine.id ? { ...restored, isEditing: false } : g));
+          setLastSaved(new Date());
+        }
+        return;
+      }
+
+      serverTasksRef.current.set(theirs.id, theirs);
+      const resolved = resolveTaskConflict(conflict, choices);
+      setGoals(prev => prev.map(g => g.id === resolved.id ? { ...resolved, isEditing: false } : g));
+      const saved = await saveChecked(planId, resolved);
+      if (saved) {
+        setGoals(prev => prev.map(g => g.id === saved.id ? { ...saved, isEditing: false } : g));
+        setLastSaved(new Date());
+      }
+    } catch (err: any) {
+      console.error('Error saving merged goal:', err);
+      setError('Failed to save goal. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Drop my edits in favor of the version saved elsewhere
+  const keepTheirConflictVersion = () => {
+    if (!conflict) return;
+
+    const { mine, theirs } = conflict;
+    if (theirs) {
+      serverTasksRef.current.set(theirs.id, theirs);
+      setGoals(prev => prev.map(g => g.id === theirs.id ? { ...theirs, isEditing: false } : g));
+    } else {
+      removeGoal(mine.id);
+    }
+    setConflict(null);
+    setEditingGoalId(null);
+  };
+
+  // A goal saved by another session or an agent. Goals being edited here
+  // keep the local edits; the next save merges them.
+  const applyRemoteTask = (task: ActionTask) => {
+    const known = serverTasksRef.current.get(task.id);
+    if (known && (task.revision ?? 0) <= (known.revision ?? 0)) return; // our own save
+
+    const isEditingHere = pendingGoalRef.current?.id === task.id || editingGoalIdRef.current === task.id;
+    if (!isEditingHere) {
+      serverTasksRef.current.set(task.id, task);
+      setGoals(prev => prev.some(g => g.id === task.id)
+        ? prev.map(g => g.id === task.id ? { ...task, isEditing: g.isEditing } : g)
+        : [...prev, { ...task, isEditing: false }]);
+    }
+
+    if (task.modifiedBy && task.modifiedBy !== 'user' && !bulkSaveRef.current) {
+      const who = PLAN_EDITOR_LABELS[task.modifiedBy];
+      setRemoteNotice(!known
+        ? `${who} added "${task.title}"`
+        : isEditingHere
+        ? `${who} changed "${task.title}" while you were editing it. Saving will merge both.`
+        : `${who} updated "${task.title}"`);
+    }
+  };
+
+  const applyRemoteDelete = (taskId: string) => {
+    if (!serverTasksRef.current.has(taskId)) return;
+    serverTasksRef.current.delete(taskId);
+
+    // A goal being edited here stays; saving it offers to restore it
+    if (pendingGoalRef.current?.id === taskId || editingGoalIdRef.current === taskId) return;
+    removeGoal(taskId);
+  };
+
+  const applyRemotePlan = (plan: GoalPlan) => {
+    if (plan.status === 'draft') {
+      setDraftPlan(prev => prev?.id === plan.id ? { ...plan, tasks: prev.tasks } : prev);
+    } else {
+      // Approved or archived by another session
+      loadPlans();
+    }
+  };
+
+  // Subscribe to the plan being shown
+  const livePlanId = draftPlan?.id || activePlan?.id;
+  useEffect(() => {
+    if (!livePlanId) return;
+    return subscribeToPlanChanges(livePlanId, {
+      onTaskSaved: applyRemoteTask,
+      onTaskDeleted: applyRemoteDelete,
+      onPlanUpdated: applyRemotePlan
+    });
+  }, [livePlanId]);
+
   // Navigate to Execute
   const goToExecute = () => {
     onNavigate(AppView.ACTION_PLAN);
@@ -554,6 +861,15 @@ const GoalsPage: React.FC<Props> = ({
             </button>
           )}
 
+          {/* Import */}
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <UploadIcon />
+            <span className="hidden sm:inline">Import</span>
+          </button>
+
           {/* History */}
           <button
             onClick={() => setShowHistory(!showHistory)}
@@ -596,6 +912,16 @@ const GoalsPage: React.FC<Props> = ({
         </div>
       )}
 
+      {/* Changes from other sessions and agents */}
+      {remoteNotice && (
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 text-blue-700 rounded-lg flex items-center justify-between">
+          <span>{remoteNotice}</span>
+          <button onClick={() => setRemoteNotice(null)} className="text-blue-500 hover:text-blue-700">
+            &times;
+          </button>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
         <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
@@ -655,6 +981,21 @@ const GoalsPage: React.FC<Props> = ({
             <ChevronDownIcon />
           </button>
 
+          {/* View Toggle */}
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+            {(['list', 'timeline'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-4 py-2 text-sm transition-colors ${
+                  viewMode === mode ? 'bg-navy-900 text-white' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {mode === 'list' ? 'List' : 'Timeline'}
+              </button>
+            ))}
+          </div>
+
           {/* Add Goal Button */}
           <button
             onClick={() => setShowNewGoalForm(true)}
@@ -673,6 +1014,8 @@ const GoalsPage: React.FC<Props> = ({
                 { value: 'all', label: 'All' },
                 { value: 'pending', label: 'Pending' },
                 { value: 'completed', label: 'Completed' },
+                { value: 'recurring', label: '↻ Recurring' },
+                { value: 'skipped', label: 'Skipped' },
                 { value: 'high', label: 'High Priority' },
                 { value: 'medium', label: 'Medium Priority' },
                 { value: 'low', label: 'Low Priority' },
@@ -755,6 +1098,13 @@ const GoalsPage: React.FC<Props> = ({
                 className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Repeats</label>
+              <RepeatSelect
+                goal={newGoal}
+                onChange={(recurrenceRule) => setNewGoal({ ...newGoal, recurrenceRule, recurrenceAnchor: undefined })}
+              />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Metric/KPI (optional)</label>
               <input
@@ -799,54 +1149,96 @@ const GoalsPage: React.FC<Props> = ({
         </div>
       )}
 
-      {/* Goals List */}
-      <div className="space-y-4">
-        {filteredGoals.length === 0 ? (
-          <div className="bg-white rounded-xl p-12 shadow-sm border border-gray-100 text-center">
-            <TargetIcon />
-            <h3 className="text-lg font-medium text-gray-900 mt-4">No goals found</h3>
-            <p className="text-gray-500 mt-2">
-              {searchTerm || filter !== 'all'
-                ? 'Try adjusting your search or filters'
-                : 'Get started by adding your first goal'}
-            </p>
-            {!searchTerm && filter === 'all' && (
-              <button
-                onClick={() => setShowNewGoalForm(true)}
-                className="mt-4 flex items-center gap-2 px-4 py-2 bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors mx-auto"
-              >
-                <PlusIcon />
-                Add Your First Goal
-              </button>
-            )}
-          </div>
-        ) : (
-          filteredGoals.map((goal) => (
-            <GoalCard
-              key={goal.id}
-              goal={goal}
-              isEditing={editingGoalId === goal.id}
-              onEdit={() => setEditingGoalId(goal.id)}
-              onSave={saveGoal}
-              onAutoSave={debouncedAutoSave}
-              onDelete={() => deleteGoal(goal.id)}
-              onToggleComplete={() => toggleGoalCompletion(goal.id)}
-              onCancelEdit={() => setEditingGoalId(null)}
-              isSaving={isSaving}
-              isAutoSaving={isAutoSaving}
-            />
-          ))
-        )}
-      </div>
+      {/* Goals List / Timeline */}
+      {viewMode === 'timeline' ? (
+        <GoalTimeline tasks={activeGoals} />
+      ) : (
+        <div className="space-y-4">
+          {filteredGoals.length === 0 ? (
+            <div className="bg-white rounded-xl p-12 shadow-sm border border-gray-100 text-center">
+              <TargetIcon />
+              <h3 className="text-lg font-medium text-gray-900 mt-4">No goals found</h3>
+              <p className="text-gray-500 mt-2">
+                {searchTerm || filter !== 'all'
+                  ? 'Try adjusting your search or filters'
+                  : 'Get started by adding your first goal'}
+              </p>
+              {!searchTerm && filter === 'all' && (
+                <button
+                  onClick={() => setShowNewGoalForm(true)}
+                  className="mt-4 flex items-center gap-2 px-4 py-2 bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors mx-auto"
+                >
+                  <PlusIcon />
+                  Add Your First Goal
+                </button>
+              )}
+            </div>
+          ) : (
+            filteredGoals.map((goal) => (
+              <GoalCard
+                key={goal.id}
+                goal={goal}
+                allGoals={goals}
+                isEditing={editingGoalId === goal.id}
+                onEdit={() => setEditingGoalId(goal.id)}
+                onSave={saveGoal}
+                onAutoSave={debouncedAutoSave}
+                onDelete={() => deleteGoal(goal.id)}
+                onToggleComplete={() => toggleGoalCompletion(goal.id)}
+                onSkip={() => skipOccurrence(goal.id)}
+                onCancelEdit={() => setEditingGoalId(null)}
+                isSaving={isSaving}
+                isAutoSaving={isAutoSaving}
+              />
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Plan Import Modal */}
+      {showImport && (
+        <PlanImportModal
+          hasExistingGoals={goals.length > 0}
+          isSaving={isSaving}
+          onImport={importPlan}
+          onClose={() => setShowImport(false)}
+        />
+      )}
 
       {/* Plan History Modal */}
       {showHistory && (
         <PlanHistoryModal
           history={planHistory}
+          canRestore={!draftPlan}
+          isSaving={isSaving}
+          onCompare={compareVersions}
+          onRestore={restoreVersion}
           onClose={() => setShowHistory(false)}
         />
       )}
 
+      {/* Plan Compare Modal */}
+      {comparison && (
+        <PlanCompareModal
+          comparison={comparison}
+          canRestore={!draftPlan}
+          isSaving={isSaving}
+          onRestore={restoreVersion}
+          onClose={() => setComparison(null)}
+        />
+      )}
+
+      {/* Edit Conflict Modal */}
+      {conflict && (
+        <PlanConflictModal
+          conflict={conflict}
+          allGoals={goals}
+          isSaving={isSaving}
+          onSaveMerged={saveMergedConflict}
+          onKeepTheirs={keepTheirConflictVersion}
+        />
+      )}
+
       {/* Last saved indicator */}
       {(lastSaved || isAutoSaving) && (
         <div className={`fixed bottom-4 right-4 px-4 py-2 rounded-lg shadow-sm text-sm flex items-center gap-2 ${
@@ -898,12 +1290,14 @@ const GoalsPage: React.FC<Props> = ({
 
 interface GoalCardProps {
   goal: EditableGoal;
+  allGoals: EditableGoal[];
   isEditing: boolean;
   onEdit: () => void;
   onSave: (goal: EditableGoal) => void;
   onAutoSave: (goal: EditableGoal) => void;
   onDelete: () => void;
   onToggleComplete: () => void;
+  onSkip: () => void;
   onCancelEdit: () => void;
   isSaving: boolean;
   isAutoSaving: boolean;
@@ -911,12 +1305,14 @@ interface GoalCardProps {
 
 const GoalCard: React.FC<GoalCardProps> = ({
   goal,
+  allGoals,
   isEditing,
   onEdit,
   onSave,
   onAutoSave,
   onDelete,
   onToggleComplete,
+  onSkip,
   onCancelEdit,
   isSaving,
   isAutoSaving
@@ -924,6 +1320,11 @@ const GoalCard: React.FC<GoalCardProps> = ({
   const [editedGoal, setEditedGoal] = useState(goal);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+  // Pick up saves, merges and live changes before the next edit starts
+  useEffect(() => {
+    if (!isEditing) setEditedGoal(goal);
+  }, [goal, isEditing]);
+
   // Handle field changes with auto-save
   const handleFieldChange = (updates: Partial<EditableGoal>) => {
     const updated = { ...editedGoal, ...updates };
@@ -931,6 +1332,24 @@ const GoalCard: React.FC<GoalCardProps> = ({
     onAutoSave(updated);
   };
 
+  const toggleDependency = (taskId: string) => {
+    const dependsOn = editedGoal.dependsOn || [];
+    handleFieldChange({
+      dependsOn: dependsOn.includes(taskId)
+        ? dependsOn.filter(id => id !== taskId)
+        : [...dependsOn, taskId]
+    });
+  };
+
+  const otherGoals = allGoals.filter(g => g.id !== goal.id);
+  const titleOf = (taskId: string) => allGoals.find(g => g.id === taskId)?.title;
+  const parentTitle = goal.parentTaskId ? titleOf(goal.parentTaskId) : undefined;
+  const blockers = (goal.dependsOn || [])
+    .filter(id => !allGoals.find(g => g.id === id)?.isCompleted)
+    .map(titleOf)
+    .filter(Boolean);
+  const subtaskCount = allGoals.filter(g => g.parentTaskId === goal.id).length;
+
   const typeConfig = TYPE_CONFIG[goal.type] || TYPE_CONFIG.ADMIN;
   const priorityConfig = PRIORITY_CONFIG[goal.priority || 'medium'];
 
@@ -989,6 +1408,57 @@ const GoalCard: React.FC<GoalCardProps> = ({
               className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Duration (days)</label>
+            <input
+              type="number"
+              min={1}
+              value={editedGoal.durationDays ?? ''}
+              onChange={(e) => handleFieldChange({ durationDays: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : undefined })}
+              placeholder="7"
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Repeats</label>
+            <RepeatSelect
+              goal={editedGoal}
+              onChange={(recurrenceRule) => handleFieldChange({ recurrenceRule, recurrenceAnchor: undefined })}
+            />
+          </div>
+          {otherGoals.length > 0 && (
+            <>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Subtask of</label>
+                <select
+                  value={editedGoal.parentTaskId || ''}
+                  onChange={(e) => handleFieldChange({ parentTaskId: e.target.value || undefined })}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
+                >
+                  <option value="">None (top-level goal)</option>
+                  {otherGoals.map(g => (
+                    <option key={g.id} value={g.id}>{g.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Blocked by</label>
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                  {otherGoals.map(g => (
+                    <label key={g.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={(editedGoal.dependsOn || []).includes(g.id)}
+                        onChange={() => toggleDependency(g.id)}
+                        className="rounded border-gray-300"
+                      />
+                      {g.title}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
         </div>
         <div className="flex items-center justify-between mt-4">
           {/* Auto-save indicator */}
@@ -1027,7 +1497,9 @@ const GoalCard: React.FC<GoalCardProps> = ({
 
   return (
     <div className={`bg-white rounded-xl p-6 shadow-sm border transition-all ${
-      goal.isCompleted ? 'border-green-200 bg-green-50/50' : 'border-gray-100 hover:border-gray-200'
+      goal.skippedAt
+        ? 'border-gray-100 opacity-60'
+        : goal.isCompleted ? 'border-green-200 bg-green-50/50' : 'border-gray-100 hover:border-gray-200'
     }`}>
       <div className="flex items-start gap-4">
         {/* Completion Checkbox */}
@@ -1058,6 +1530,16 @@ const GoalCard: React.FC<GoalCardProps> = ({
 
             {/* Actions */}
             <div className="flex items-center gap-2">
+              {goal.recurrenceRule && !goal.isCompleted && !goal.skippedAt && (
+                <button
+                  onClick={onSkip}
+                  disabled={isSaving}
+                  className="px-2 py-1 text-xs text-gray-500 hover:text-navy-900 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                  title="Skip this occurrence and schedule the next one"
+                >
+                  Skip
+                </button>
+              )}
               <button
                 onClick={onEdit}
                 className="p-2 text-gray-400 hover:text-navy-900 hover:bg-gray-100 rounded-lg transition-colors"
@@ -1106,6 +1588,31 @@ const GoalCard: React.FC<GoalCardProps> = ({
                 {new Date(goal.dueDate).toLocaleDateString()}
               </span>
             )}
+            {goal.recurrenceRule && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-indigo-50 text-indigo-700">
+                ↻ {describeRecurrence(goal.recurrenceRule)}
+              </span>
+            )}
+            {goal.skippedAt && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-500">
+                Skipped
+              </span>
+            )}
+            {parentTitle && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-600">
+                ↳ Subtask of {parentTitle}
+              </span>
+            )}
+            {subtaskCount > 0 && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-600">
+                {subtaskCount} subtask{subtaskCount === 1 ? '' : 's'}
+              </span>
+            )}
+            {blockers.length > 0 && !goal.isCompleted && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-amber-50 text-amber-700">
+                Blocked by {blockers.join(', ')}
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -1113,16 +1620,74 @@ const GoalCard: React.FC<GoalCardProps> = ({
   );
 };
 
+// ============================================
+// Repeat Select
+// ============================================
+
+interface RepeatSelectProps {
+  goal: Partial<ActionTask>;
+  onChange: (recurrenceRule: string | undefined) => void;
+}
+
+const RepeatSelect: React.FC<RepeatSelectProps> = ({ goal, onChange }) => {
+  // Saved rules are pinned to the due date, so compare against presets pinned the same way.
+  // A newly picked preset is saved as-is and pinned when the goal is saved.
+  const anchor = goal.recurrenceAnchor || goal.dueDate?.split('T')[0] || new Date().toISOString().split('T')[0];
+  const current = goal.recurrenceRule
+    ? REPEAT_OPTIONS.find(o => o.value === goal.recurrenceRule || normalizeRecurrence(o.value, anchor) === goal.recurrenceRule)?.value || 'custom'
+    : '';
+
+  return (
+    <select
+      value={current}
+      onChange={(e) => onChange(e.target.value || undefined)}
+      className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
+    >
+      <option value="">Does not repeat</option>
+      {REPEAT_OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+      {current === 'custom' && goal.recurrenceRule && (
+        <option value="custom" disabled>{describeRecurrence(goal.recurrenceRule)}</option>
+      )}
+    </select>
+  );
+};
+
 // ============================================
 // Plan History Modal
 // ============================================
 
 interface PlanHistoryModalProps {
   history: GoalPlan[];
+  canRestore: boolean;
+  isSaving: boolean;
+  onCompare: (planIdA: string, planIdB: string) => void;
+  onRestore: (planId: string) => void;
   onClose: () => void;
 }
 
-const PlanHistoryModal: React.FC<PlanHistoryModalProps> = ({ history, onClose }) => {
+const PlanHistoryModal: React.FC<PlanHistoryModalProps> = ({
+  history,
+  canRestore,
+  isSaving,
+  onCompare,
+  onRestore,
+  onClose
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Keep at most two versions selected, dropping the oldest pick
+  const toggleSelected = (planId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(planId)
+        ? prev.filter(id => id !== planId)
+        : [...prev, planId].slice(-2)
+    );
+  };
+
+  const versionOf = (planId?: string) => history.find(p => p.id === planId)?.version;
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
@@ -1136,6 +1701,24 @@ const PlanHistoryModal: React.FC<PlanHistoryModalProps> = ({ history, onClose })
               &times;
             </button>
           </div>
+          {history.length > 1 && (
+            <div className="flex items-center justify-between gap-4 mt-3">
+              <p className="text-sm text-gray-500">Select two versions to compare them side by side.</p>
+              <button
+                onClick={() => onCompare(selectedIds[0], selectedIds[1])}
+                disabled={selectedIds.length !== 2}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors disabled:opacity-50 whitespace-nowrap"
+              >
+                <CompareIcon />
+                {selectedIds.length === 2
+                  ? `Compare v${versionOf(selectedIds[0])} & v${versionOf(selectedIds[1])}`
+                  : 'Compare'}
+              </button>
+            </div>
+          )}
+          {!canRestore && (
+            <p className="text-xs text-amber-700 mt-2">Approve your current draft to restore an older version.</p>
+          )}
         </div>
         <div className="p-6 overflow-y-auto max-h-[60vh]">
           {history.length === 0 ? (
@@ -1154,7 +1737,16 @@ const PlanHistoryModal: React.FC<PlanHistoryModalProps> = ({ history, onClose })
                   }`}
                 >
                   <div className="flex items-center justify-between">
-                    <div>
+                    <div className="flex items-center">
+                      {history.length > 1 && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(plan.id)}
+                          onChange={() => toggleSelected(plan.id)}
+                          className="mr-3 rounded border-gray-300"
+                          aria-label={`Select version ${plan.version} to compare`}
+                        />
+                      )}
                       <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
                         plan.status === 'active'
                           ? 'bg-green-100 text-green-700'
@@ -1173,9 +1765,22 @@ const PlanHistoryModal: React.FC<PlanHistoryModalProps> = ({ history, onClose })
                   {plan.visionText && (
                     <p className="text-sm text-gray-600 mt-2 line-clamp-2">{plan.visionText}</p>
                   )}
-                  <p className="text-xs text-gray-400 mt-2">
-                    Source: {plan.source} | Tasks: {plan.tasks?.length || 0}
-                  </p>
+                  <div className="flex items-center justify-between mt-2">
+                    <p className="text-xs text-gray-400">
+                      Source: {plan.source}
+                      {plan.restoredFromPlanId && ` | Restored from v${versionOf(plan.restoredFromPlanId) ?? '?'}`}
+                    </p>
+                    {plan.status === 'archived' && (
+                      <button
+                        onClick={() => onRestore(plan.id)}
+                        disabled={!canRestore || isSaving}
+                        className="flex items-center gap-1 text-xs font-medium text-navy-900 hover:underline disabled:opacity-50 disabled:no-underline"
+                      >
+                        <RefreshIcon />
+                        Restore this version
+                      </button>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -1186,4 +1791,294 @@ const PlanHistoryModal: React.FC<PlanHistoryModalProps> = ({ history, onClose })
   );
 };
 
+// ============================================
+// Plan Compare Modal
+// ============================================
+
+interface PlanCompareModalProps {
+  comparison: PlanComparison;
+  canRestore: boolean;
+  isSaving: boolean;
+  onRestore: (planId: string) => void;
+  onClose: () => void;
+}
+
+const INSIGHT_LABELS: Record<string, string> = {
+  summary: 'Summary',
+  strengths: 'Strengths',
+  suggestions: 'Suggestions',
+  focusAreas: 'Focus Areas',
+  visionText: 'Vision',
+  financialTarget: 'Financial Target'
+};
+
+const TASK_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  dueDate: 'target date',
+  type: 'type',
+  priority: 'priority',
+  isCompleted: 'status',
+  parentTaskId: 'parent goal',
+  dependsOn: 'blocked by',
+  durationDays: 'duration (days)',
+  recurrenceRule: 'repeat'
+};
+
+const formatChangeValue = (change: PlanFieldChange, value: PlanFieldChange['before']): string => {
+  if (value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (change.field === 'isCompleted') return value ? 'Completed' : 'Pending';
+  if (change.field === 'financialTarget') return `$${Number(value).toLocaleString()}`;
+  return String(value);
+};
+
+const PlanCompareModal: React.FC<PlanCompareModalProps> = ({
+  comparison,
+  canRestore,
+  isSaving,
+  onRestore,
+  onClose
+}) => {
+  const { base, compare, diff } = comparison;
+
+  const removedIds = new Set(diff.removed.map(t => t.id));
+  const addedIds = new Set(diff.added.map(t => t.id));
+  const editedBefore = new Set(diff.edited.map(e => e.before.id));
+  const editedAfter = new Map(diff.edited.map(e => [e.after.id, e.changes]));
+  const moved = new Map(diff.reordered.map(m => [m.task.id, m]));
+  const planChanges = [...diff.plan, ...diff.insights];
+
+  const sortTasks = (tasks: ActionTask[] = []) =>
+    [...tasks].sort((a, b) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0));
+
+  const renderColumn = (plan: GoalPlan, side: 'base' | 'compare') => (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-navy-900">
+          Version {plan.version}
+          <span className="ml-2 text-xs font-normal text-gray-500">{plan.status}</span>
+        </h3>
+        {plan.status === 'archived' && (
+          <button
+            onClick={() => onRestore(plan.id)}
+            disabled={!canRestore || isSaving}
+            className="flex items-center gap-1 text-xs font-medium text-navy-900 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            <RefreshIcon />
+            Restore this version
+          </button>
+        )}
+      </div>
+      {(plan.tasks || []).length === 0 ? (
+        <p className="text-sm text-gray-400 py-4">No tasks recorded for this version</p>
+      ) : (
+        <ol className="space-y-2">
+          {sortTasks(plan.tasks).map((task) => {
+            const isRemoved = side === 'base' && removedIds.has(task.id);
+            const isAdded = side === 'compare' && addedIds.has(task.id);
+            const isEdited = side === 'base' ? editedBefore.has(task.id) : editedAfter.has(task.id);
+            const move = side === 'compare' ? moved.get(task.id) : undefined;
+            const changes = side === 'compare' ? editedAfter.get(task.id) : undefined;
+
+            return (
+              <li
+                key={task.id}
+                className={`p-3 rounded-lg border text-sm ${
+                  isRemoved
+                    ? 'border-red-200 bg-red-50'
+                    : isAdded
+                    ? 'border-green-200 bg-green-50'
+                    : isEdited
+                    ? 'border-amber-200 bg-amber-50'
+                    : 'border-gray-100 bg-white'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className={`font-medium ${isRemoved ? 'line-through text-red-700' : 'text-navy-900'}`}>
+                    {task.title}
+                  </span>
+                  <span className="flex-shrink-0 text-xs">
+                    {isRemoved && <span className="text-red-600">Removed</span>}
+                    {isAdded && <span className="text-green-600">Added</span>}
+                    {move && (
+                      <span className="text-blue-600">
+                        Moved {move.toPosition < move.fromPosition ? '↑' : '↓'} from #{move.fromPosition + 1}
+                      </span>
+                    )}
+                  </span>
+                </div>
+                {changes && changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-amber-800">
+                    {changes.map(change => (
+                      <li key={change.field}>
+                        Changed {TASK_FIELD_LABELS[change.field]}: {formatChangeValue(change, change.before)} → {formatChangeValue(change, change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-navy-900">
+              Compare Version {diff.baseVersion} and {diff.compareVersion}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+            >
+              &times;
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3 text-xs">
+            {diff.hasChanges ? (
+              <>
+                <span className="px-2 py-1 rounded-full bg-green-50 text-green-700">{diff.added.length} added</span>
+                <span className="px-2 py-1 rounded-full bg-red-50 text-red-700">{diff.removed.length} removed</span>
+                <span className="px-2 py-1 rounded-full bg-amber-50 text-amber-700">{diff.edited.length} edited</span>
+                <span className="px-2 py-1 rounded-full bg-blue-50 text-blue-700">{diff.reordered.length} reordered</span>
+                <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600">{diff.unchangedCount} unchanged</span>
+              </>
+            ) : (
+              <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600">No differences</span>
+            )}
+          </div>
+        </div>
+        <div className="p-6 overflow-y-auto max-h-[70vh]">
+          <div className="flex flex-col md:flex-row gap-6">
+            {renderColumn(base, 'base')}
+            {renderColumn(compare, 'compare')}
+          </div>
+
+          {planChanges.length > 0 && (
+            <div className="mt-6 pt-6 border-t border-gray-100">
+              <h3 className="font-semibold text-navy-900 mb-3">Plan & AI Insights</h3>
+              <div className="space-y-3">
+                {planChanges.map(change => (
+                  <div key={change.field} className="grid grid-cols-1 md:grid-cols-[140px_1fr_1fr] gap-2 text-sm">
+                    <span className="font-medium text-gray-700">{INSIGHT_LABELS[change.field]}</span>
+                    <span className="p-2 rounded bg-red-50 text-red-800">{formatChangeValue(change, change.before)}</span>
+                    <span className="p-2 rounded bg-green-50 text-green-800">{formatChangeValue(change, change.after)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// Edit Conflict Modal
+// ============================================
+
+interface PlanConflictModalProps {
+  conflict: PlanTaskConflict;
+  allGoals: EditableGoal[];
+  isSaving: boolean;
+  onSaveMerged: (choices: Partial<Record<PlanTaskMergeField, ConflictChoice>>) => void;
+  onKeepTheirs: () => void;
+}
+
+const PlanConflictModal: React.FC<PlanConflictModalProps> = ({
+  conflict,
+  allGoals,
+  isSaving,
+  onSaveMerged,
+  onKeepTheirs
+}) => {
+  const { mine, theirs, conflicts } = conflict;
+  const [choices, setChoices] = useState<Partial<Record<PlanTaskMergeField, ConflictChoice>>>(
+    () => Object.fromEntries(conflicts.map(c => [c.field, 'mine']))
+  );
+
+  const who = theirs ? PLAN_EDITOR_LABELS[theirs.modifiedBy || 'user'] : null;
+  const titleOf = (taskId: string) => allGoals.find(g => g.id === taskId)?.title || 'Removed goal';
+
+  const formatValue = (field: PlanTaskMergeField, value: PlanFieldChange['before']): string => {
+    if (field === 'parentTaskId' && typeof value === 'string') return titleOf(value);
+    if (field === 'dependsOn' && Array.isArray(value)) return value.length > 0 ? value.map(titleOf).join(', ') : '—';
+    if (field === 'recurrenceRule' && typeof value === 'string') return describeRecurrence(value);
+    return formatChangeValue({ field, before: value, after: value }, value);
+  };
+
+  const renderOption = (field: PlanTaskMergeField, side: ConflictChoice, value: PlanFieldChange['before']) => (
+    <label
+      className={`flex-1 p-2 rounded border cursor-pointer text-sm ${
+        choices[field] === side ? 'border-navy-900 bg-navy-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+    >
+      <input
+        type="radio"
+        name={`conflict-${field}`}
+        checked={choices[field] === side}
+        onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+        className="mr-2"
+      />
+      <span className="text-xs text-gray-500 mr-1">{side === 'mine' ? 'Mine:' : 'Theirs:'}</span>
+      {formatValue(field, value)}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold text-navy-900">
+            {theirs ? 'This goal changed while you were editing' : 'This goal was deleted elsewhere'}
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {theirs
+              ? `${who} saved "${theirs.title}" after you opened it. Changes to different fields have been combined; choose which version to keep where you both changed the same thing.`
+              : `"${mine.title}" was removed from the plan while you were editing it.`}
+          </p>
+        </div>
+
+        {theirs && (
+          <div className="p-6 overflow-y-auto max-h-[60vh] space-y-4">
+            {conflicts.map(c => (
+              <div key={c.field}>
+                <p className="text-sm font-medium text-gray-700 mb-2 capitalize">{TASK_FIELD_LABELS[c.field]}</p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {renderOption(c.field, 'mine', c.mine)}
+                  {renderOption(c.field, 'theirs', c.theirs)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            onClick={onKeepTheirs}
+            disabled={isSaving}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {theirs ? 'Discard my changes' : 'Let it go'}
+          </button>
+          <button
+            onClick={() => onSaveMerged(choices)}
+            disabled={isSaving}
+            className="px-4 py-2 bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors disabled:opacity-50"
+          >
+            {theirs ? 'Save merged goal' : 'Restore my version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export default GoalsPage;
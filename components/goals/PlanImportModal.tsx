@@ -0,0 +1,218 @@
+/**
+ * PlanImportModal - Import a plan from another tool
+ *
+ * Reads a Markdown outline, CSV file, Todoist CSV export or Trello JSON
+ * export (uploaded or pasted), then shows the parsed tasks in the
+ * DraftPlanReviewStep so they can be adjusted before they become a draft.
+ * Headings, sections and lists become milestones with their tasks as
+ * subtasks.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { ActionTask, PlanImportFormat, PlanImportResult } from '../../types';
+import { detectPlanImportFormat, parsePlanImport } from '../../services/planImportService';
+import DraftPlanReviewStep from '../onboarding/DraftPlanReviewStep';
+
+interface Props {
+  hasExistingGoals: boolean;
+  isSaving: boolean;
+  onImport: (tasks: ActionTask[], options: { replace: boolean; title?: string }) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: PlanImportFormat; label: string; hint: string }[] = [
+  { value: 'markdown', label: 'Markdown outline', hint: 'Headings become milestones, bullets become tasks' },
+  { value: 'csv', label: 'CSV', hint: 'Needs a title column; due date, priority and milestone columns are optional' },
+  { value: 'todoist', label: 'Todoist export', hint: 'The CSV from Todoist\'s "Export as template"' },
+  { value: 'trello', label: 'Trello board', hint: 'The JSON from Trello\'s "Print, export and share"' }
+];
+
+const getTodayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const PlanImportModal: React.FC<Props> = ({ hasExistingGoals, isSaving, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<PlanImportFormat>('markdown');
+  const [result, setResult] = useState<PlanImportResult | null>(null);
+  const [reviewedTasks, setReviewedTasks] = useState<ActionTask[]>([]);
+  const [replace, setReplace] = useState(false);
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    setFileName(file.name);
+    setText(content);
+    setFormat(detectPlanImportFormat(file.name, content));
+    setResult(null);
+  };
+
+  const handlePaste = (content: string) => {
+    setText(content);
+    setFileName('');
+    if (content.trim()) setFormat(detectPlanImportFormat('', content));
+    setResult(null);
+  };
+
+  const preview = () => {
+    const parsed = parsePlanImport(text, format, getTodayKey());
+    setResult(parsed);
+    setReviewedTasks(parsed.tasks);
+  };
+
+  const handleTasksChanged = useCallback((tasks: ActionTask[]) => setReviewedTasks(tasks), []);
+
+  const errors = result?.issues.filter(i => i.severity === 'error') || [];
+  const warnings = result?.issues.filter(i => i.severity === 'warning') || [];
+  const isReviewing = !!result && errors.length === 0;
+  const formatLabel = FORMAT_OPTIONS.find(o => o.value === format)?.label;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-navy-900">Import Plan</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {isReviewing
+                ? `Review ${reviewedTasks.length} imported tasks before they are added to your draft plan.`
+                : 'Bring in a plan from your notes app or project tool.'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {isReviewing && result ? (
+            <div className="space-y-4">
+              {warnings.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                  <ul className="space-y-1">
+                    {warnings.map((issue, i) => (
+                      <li key={i}>{issue.line > 0 ? `Line ${issue.line}: ` : ''}{issue.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <DraftPlanReviewStep
+                visionText={result.title || ''}
+                existingTasks={result.tasks}
+                onTasksChanged={handleTasksChanged}
+                insights={[
+                  `Imported from ${fileName || formatLabel}:`,
+                  result.milestoneCount > 0
+                    ? `• ${result.tasks.length - result.milestoneCount} tasks in ${result.milestoneCount} milestone${result.milestoneCount === 1 ? '' : 's'}`
+                    : `• ${result.tasks.length} tasks`,
+                  '• Milestones finish when their tasks do; see them on the Goals timeline',
+                  '• Check due dates and types before approving'
+                ]}
+                footerNote='Click "Add to Draft Plan" to add them to your draft. You can keep editing before you approve it.'
+              />
+
+              {hasExistingGoals && (
+                <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={!replace} onChange={() => setReplace(false)} />
+                    Add to my current goals
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={replace} onChange={() => setReplace(true)} />
+                    Replace my current goals
+                  </label>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Upload a file</label>
+                <input
+                  type="file"
+                  accept=".md,.markdown,.txt,.csv,.json"
+                  onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                  className="block w-full text-sm text-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Or paste it here</label>
+                <textarea
+                  value={text}
+                  onChange={(e) => handlePaste(e.target.value)}
+                  rows={10}
+                  placeholder={'## Year 1: Foundation\n- Open a brokerage account (due 2026-03-01)\n- Set up automatic transfers\n  - Pick an amount'}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                <select
+                  value={format}
+                  onChange={(e) => { setFormat(e.target.value as PlanImportFormat); setResult(null); }}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-gold-500/50 focus:border-gold-500 outline-none"
+                >
+                  {FORMAT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{FORMAT_OPTIONS.find(o => o.value === format)?.hint}</p>
+              </div>
+
+              {errors.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                  {errors.map((issue, i) => (
+                    <p key={i}>{issue.line > 0 ? `Line ${issue.line}: ` : ''}{issue.message}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+          {isReviewing ? (
+            <>
+              <button
+                onClick={() => setResult(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => onImport(reviewedTasks, { replace, title: result?.title })}
+                disabled={isSaving || reviewedTasks.length === 0 || reviewedTasks.some(t => !t.title.trim())}
+                className="px-4 py-2 bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Importing...' : 'Add to Draft Plan'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={preview}
+                disabled={!text.trim()}
+                className="px-4 py-2 bg-navy-900 text-white rounded-lg hover:bg-navy-800 transition-colors disabled:opacity-50"
+              >
+                Review Import
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanImportModal;
@@ -4,3 +4,5 @@
 
 export { default as GoalsPage } from './GoalsPage';
 export { default as AICoachDrawer } from './AICoachDrawer';
+export { default as GoalTimeline } from './GoalTimeline';
+export { default as PlanImportModal } from './PlanImportModal';
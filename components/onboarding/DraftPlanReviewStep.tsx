@@ -7,7 +7,10 @@ interface Props {
   themeName?: string;
   existingTasks?: ActionTask[];
   onTasksChanged: (tasks: ActionTask[]) => void;
-  generateActionPlan: (context: { vision: string; target?: number; theme?: string }) => Promise<ActionTask[]>;
+  // Omit to review a plan without AI regeneration (e.g. an imported plan)
+  generateActionPlan?: (context: { vision: string; target?: number; theme?: string }) => Promise<ActionTask[]>;
+  insights?: string[];
+  footerNote?: string;
 }
 
 type TaskPriority = 'high' | 'medium' | 'low';
@@ -56,6 +59,8 @@ const TYPE_CONFIG: Record<string, { icon: string; label: string; headerBg: strin
  * - Add new tasks
  * - Delete tasks
  * - Regenerate with AI assistance
+ *
+ * Also used to review imported plans before they become a draft.
  */
 const DraftPlanReviewStep: React.FC<Props> = ({
   visionText,
@@ -63,9 +68,11 @@ const DraftPlanReviewStep: React.FC<Props> = ({
   themeName,
   existingTasks,
   onTasksChanged,
-  generateActionPlan
+  generateActionPlan,
+  insights,
+  footerNote = 'Click "Continue" to approve your plan and start working on your goals.'
 }) => {
-  const [isGenerating, setIsGenerating] = useState(!existingTasks || existingTasks.length === 0);
+  const [isGenerating, setIsGenerating] = useState(!!generateActionPlan && (!existingTasks || existingTasks.length === 0));
   const [tasks, setTasks] = useState<EditableTask[]>(existingTasks || []);
   const [error, setError] = useState<string | null>(null);
   const [showAiInsights, setShowAiInsights] = useState(true);
@@ -73,7 +80,7 @@ const DraftPlanReviewStep: React.FC<Props> = ({
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
 
   // AI-generated insights based on the plan
-  const [aiInsights, setAiInsights] = useState<string[]>([
+  const [aiInsights, setAiInsights] = useState<string[]>(insights || [
     `Based on your vision and ${financialTarget ? `financial target of $${financialTarget.toLocaleString()}` : 'goals'}:`,
     '• Financial tasks are prioritized for the first year',
     '• Lifestyle tasks align with your selected theme',
@@ -82,7 +89,7 @@ const DraftPlanReviewStep: React.FC<Props> = ({
 
   // Generate tasks on mount if none exist
   useEffect(() => {
-    if (!existingTasks || existingTasks.length === 0) {
+    if (generateActionPlan && (!existingTasks || existingTasks.length === 0)) {
       generateTasks();
     }
   }, []);
@@ -99,6 +106,8 @@ const DraftPlanReviewStep: React.FC<Props> = ({
   }, [tasks, onTasksChanged]);
 
   const generateTasks = async () => {
+    if (!generateActionPlan) return;
+
     try {
       setIsGenerating(true);
       setError(null);
@@ -268,15 +277,17 @@ const DraftPlanReviewStep: React.FC<Props> = ({
                 <li key={i}>{insight}</li>
               ))}
             </ul>
-            <button
-              onClick={handleRegenerateWithAI}
-              className="mt-3 text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-              Regenerate plan with AI
-            </button>
+            {generateActionPlan && (
+              <button
+                onClick={handleRegenerateWithAI}
+                className="mt-3 text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Regenerate plan with AI
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -409,7 +420,7 @@ const DraftPlanReviewStep: React.FC<Props> = ({
         <div className="flex items-center justify-between">
           <p className="text-sm text-navy-700">
             <span className="font-medium">{tasks.length} tasks total.</span>
-            {' '}Click "Continue" to approve your plan and start working on your goals.
+            {' '}{footerNote}
           </p>
           {lastSaved && (
             <span className="text-xs text-navy-500">
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { OnboardingStep, OnboardingState, ActionTask, AppView, MasterPromptResponse } from '../../types';
+import { OnboardingStep, OnboardingState, ActionTask, AppView, MasterPromptResponse, VisionPromptOptions } from '../../types';
 import OnboardingLayout from './OnboardingLayout';
 import ThemeSelectorStep from './ThemeSelectorStep';
 import CoachIntroStep from './CoachIntroStep';
@@ -25,7 +25,7 @@ interface Props {
   onComplete: (state: OnboardingState) => void;
   onNavigate: (view: AppView) => void;
   // AI Functions
-  generateVisionImage: (prompt: string, photoRef?: string, onStatusChange?: (status: string) => void) => Promise<{ id: string; url: string }>;
+  generateVisionImage: (prompt: string, photoRef?: string, onStatusChange?: (status: string) => void, options?: VisionPromptOptions) => Promise<{ id: string; url: string }>;
   generateActionPlan: (context: { vision: string; target?: number; theme?: string }) => Promise<ActionTask[]>;
   // Storage Functions
   uploadPhoto: (file: File) => Promise<string>;
@@ -404,11 +404,12 @@ const GuidedOnboarding: React.FC<Props> = ({
             visionText={state.visionText || ''}
             photoRefId={state.photoRefId}
             themeName={state.themeName}
+            financialTarget={state.financialTarget}
             onVisionGenerated={(id, url) => {
               updateState({ primaryVisionId: id, primaryVisionUrl: url });
             }}
-            generateVision={async (prompt, photoRef, onStatusChange) => {
-              const result = await generateVisionImage(prompt, photoRef, onStatusChange);
+            generateVision={async (prompt, photoRef, onStatusChange, options) => {
+              const result = await generateVisionImage(prompt, photoRef, onStatusChange, options);
               return result;
             }}
           />
@@ -1,5 +1,7 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { supabase } from '../../lib/supabase';
+import { scanImage } from '../../services/moderationService';
+import { compressImage } from '../../services/imageService';
 
 interface Props {
   photoRefId?: string;
@@ -27,51 +29,9 @@ const PhotoUploadStep: React.FC<Props> = ({ photoRefId, onPhotoUploaded, onSkip
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  // Compress and resize image
+  // Compress and resize image (re-encoding also strips EXIF/GPS)
   const processImage = useCallback((file: File | Blob): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let { width, height } = img;
-
-        // Calculate new dimensions while maintaining aspect ratio
-        if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
-          if (width > height) {
-            height = Math.round((height * MAX_DIMENSION) / width);
-            width = MAX_DIMENSION;
-          } else {
-            width = Math.round((width * MAX_DIMENSION) / height);
-            height = MAX_DIMENSION;
-          }
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-
-        // Draw and compress
-        ctx.drawImage(img, 0, 0, width, height);
-        canvas.toBlob(
-          (blob) => {
-            if (blob) {
-              resolve(blob);
-            } else {
-              reject(new Error('Failed to compress image'));
-            }
-          },
-          'image/jpeg',
-          JPEG_QUALITY
-        );
-      };
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
-    });
+    return compressImage(file, { maxEdge: MAX_DIMENSION, quality: JPEG_QUALITY });
   }, []);
 
   // Prepare image for preview (don't upload to DB yet)
@@ -148,6 +108,8 @@ const PhotoUploadStep: React.FC<Props> = ({ photoRefId, onPhotoUploaded, onSkip
       if (refError) {
         console.error('Reference save error:', refError);
         // Still continue - image is uploaded even if DB save fails
+      } else {
+        await scanImage('reference', refData.id);
       }
 
       onPhotoUploaded(refData?.id || fileName, urlData.publicUrl, identityDescription.trim());
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
+import { PromptPreset, VisionPromptOptions } from '../../types';
+import { buildPromptVariables, fillPromptTemplate, getPromptPresets, withNegativePrompt } from '../../services/promptPresetService';
 
 interface Props {
   visionText: string;
   themeName?: string;
   photoRefId?: string;
+  financialTarget?: number;
   onVisionGenerated: (visionId: string, visionUrl: string) => void;
-  generateVision: (prompt: string, photoRef?: string, onStatusChange?: (status: string) => void) => Promise<{ id: string; url: string }>;
+  generateVision: (prompt: string, photoRef?: string, onStatusChange?: (status: string) => void, options?: VisionPromptOptions) => Promise<{ id: string; url: string }>;
 }
 
 const GENERATION_MESSAGES = [
@@ -20,6 +23,7 @@ const VisionGenerationStep: React.FC<Props> = ({
   visionText,
   themeName,
   photoRefId,
+  financialTarget,
   onVisionGenerated,
   generateVision
 }) => {
@@ -29,6 +33,18 @@ const VisionGenerationStep: React.FC<Props> = ({
   const [messageIndex, setMessageIndex] = useState(0);
   const [hasCalledCallback, setHasCalledCallback] = useState(false);
   const [generationStatus, setGenerationStatus] = useState<string | null>(null);
+  // Presets whose variables can all be filled from the onboarding answers so far
+  const [presets, setPresets] = useState<{ preset: PromptPreset; prompt: string }[]>([]);
+
+  useEffect(() => {
+    const vars = buildPromptVariables(null, { visionText, themeName, financialTarget });
+    getPromptPresets().then(all => {
+      setPresets(all
+        .map(preset => ({ preset, ...fillPromptTemplate(preset.template, vars) }))
+        .filter(p => p.missing.length === 0)
+        .slice(0, 4));
+    });
+  }, [visionText, themeName, financialTarget]);
 
   useEffect(() => {
     // Cycle through messages while generating, but only if we don't have a specific status
@@ -105,7 +121,7 @@ Make it feel achievable yet inspiring.`;
     generate();
   }, [visionText, themeName, photoRefId, generateVision, onVisionGenerated, hasCalledCallback]);
 
-  const handleRegenerate = async () => {
+  const handleRegenerate = async (preset?: { preset: PromptPreset; prompt: string }) => {
     setIsGenerating(true);
     setGeneratedVision(null);
     setError(null);
@@ -113,14 +129,16 @@ Make it feel achievable yet inspiring.`;
     setGenerationStatus('Initializing...');
 
     try {
-      const enhancedPrompt = `Create a different beautiful, inspiring vision board image that represents: ${visionText}.
+      const enhancedPrompt = preset
+        ? withNegativePrompt(preset.prompt, preset.preset.negativePrompt)
+        : `Create a different beautiful, inspiring vision board image that represents: ${visionText}.
 Style: photorealistic, aspirational, warm lighting, lifestyle imagery.
 Theme: ${themeName || 'balanced and harmonious'}.
 Make it feel achievable yet inspiring. Try a different perspective or composition.`;
 
       const result = await generateVision(enhancedPrompt, photoRefId, (status) => {
         setGenerationStatus(status);
-      });
+      }, preset ? { style: preset.preset.style, aspectRatio: preset.preset.aspectRatio } : undefined);
 
       setGeneratedVision(result);
       console.log('✅ Vision regenerated successfully with real image');
@@ -175,7 +193,7 @@ Make it feel achievable yet inspiring. Try a different perspective or compositio
           <h3 className="text-xl font-bold text-gray-900 mb-2">Generation Failed</h3>
           <p className="text-gray-500 mb-6">{error}</p>
           <button
-            onClick={handleRegenerate}
+            onClick={() => handleRegenerate()}
             className="bg-navy-900 text-white px-6 py-3 rounded-xl font-medium hover:bg-navy-800 transition-colors"
           >
             Try Again
@@ -247,7 +265,7 @@ Make it feel achievable yet inspiring. Try a different perspective or compositio
               {error}
             </p>
             <button
-              onClick={handleRegenerate}
+              onClick={() => handleRegenerate()}
               className="text-sm text-yellow-800 font-medium hover:text-yellow-900 underline"
             >
               Try again
@@ -260,7 +278,7 @@ Make it feel achievable yet inspiring. Try a different perspective or compositio
       {!error && (
         <div className="flex gap-4">
           <button
-            onClick={handleRegenerate}
+            onClick={() => handleRegenerate()}
             className="flex-1 bg-gray-100 text-gray-700 px-6 py-3 rounded-xl font-medium hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -271,6 +289,27 @@ Make it feel achievable yet inspiring. Try a different perspective or compositio
         </div>
       )}
 
+      {/* Prompt presets */}
+      {!error && presets.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Or start from a preset</p>
+          <div className="grid grid-cols-2 gap-2">
+            {presets.map(p => (
+              <button
+                key={p.preset.id}
+                onClick={() => handleRegenerate(p)}
+                className="text-left bg-white border border-gray-200 hover:border-gold-400 rounded-xl px-3 py-2 transition-colors"
+              >
+                <span className="block text-sm font-medium text-navy-900">{p.preset.name}</span>
+                {p.preset.description && (
+                  <span className="block text-xs text-gray-500 line-clamp-1">{p.preset.description}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Success Message */}
       {!error && (
         <div className="bg-green-50 rounded-xl p-4 border border-green-200 flex items-start gap-3">
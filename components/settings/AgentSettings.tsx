@@ -6,6 +6,7 @@ import { useAgentActions } from '../../hooks/useAgentActions';
 import PendingActionCard from './PendingActionCard';
 import ActionFeedbackButton from './ActionFeedbackButton';
 import CalendarConnection from './CalendarConnection';
+import CalendarFeed from './CalendarFeed';
 import { voiceService, VoiceSettings, VoiceQuota, VoicePersona } from '../../services/voiceService';
 
 const DAYS_OF_WEEK = [
@@ -1088,6 +1089,9 @@ export default function AgentSettings() {
                     </div>
                 )}
 
+                {/* CALENDAR SUBSCRIPTION CARD */}
+                {userId && <CalendarFeed userId={userId} />}
+
             </div>
 
             <div className="flex justify-end pt-4 border-t border-slate-700">
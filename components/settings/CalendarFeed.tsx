@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarFeedStatus } from '../../types';
+import {
+  getCalendarFeed,
+  rotateCalendarFeed,
+  disableCalendarFeed,
+  exportPlanCalendar
+} from '../../services/storageService';
+
+interface CalendarFeedProps {
+  userId: string;
+}
+
+/**
+ * iCalendar subscription feed and .ics download of the user's plan, for
+ * Apple Calendar, Outlook and anyone who doesn't connect Google Calendar
+ */
+const CalendarFeed: React.FC<CalendarFeedProps> = ({ userId }) => {
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeedStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFeed();
+  }, [userId]);
+
+  const loadFeed = async () => {
+    try {
+      setLoading(true);
+      setFeed(await getCalendarFeed());
+    } catch (err: any) {
+      console.error('Calendar feed status error:', err);
+      setError('Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleEnable = async () => {
+    if (feed?.enabled && !confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) {
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      const wasEnabled = feed?.enabled;
+      setFeed(await rotateCalendarFeed());
+      showSuccess(wasEnabled ? 'New calendar link created' : 'Calendar feed enabled');
+    } catch (err: any) {
+      console.error('Calendar feed rotate error:', err);
+      setError(err.message || 'Failed to create calendar link');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      setFeed(await disableCalendarFeed());
+      showSuccess('Calendar feed turned off');
+    } catch (err: any) {
+      console.error('Calendar feed disable error:', err);
+      setError(err.message || 'Failed to turn off calendar feed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed?.feed_url) return;
+    try {
+      await navigator.clipboard.writeText(feed.feed_url);
+      showSuccess('Link copied');
+    } catch {
+      setError('Could not copy the link. Select it and copy it manually.');
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      const file = await exportPlanCalendar();
+      const url = URL.createObjectURL(new Blob([file.content], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Calendar export error:', err);
+      setError(err.message || 'Calendar export failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading && !feed) {
+    return (
+      <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+        <div className="flex items-center justify-center py-4">
+          <div className="w-6 h-6 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+          <span className="ml-3 text-indigo-200">Loading calendar feed...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const webcalUrl = feed?.feed_url?.replace(/^https?:\/\//, 'webcal://');
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-2xl">🗓️</span>
+          Calendar Subscription
+        </h3>
+        {feed?.enabled && (
+          <span className="flex items-center gap-1 text-sm text-green-400">
+            <span className="w-2 h-2 bg-green-400 rounded-full" />
+            On
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-500/20 border border-green-500/50 rounded-lg text-green-200 text-sm">
+          {success}
+        </div>
+      )}
+
+      <p className="text-indigo-200 text-sm mb-4">
+        See task due dates, milestones, habit reminders, goal check-ins and your weekly review in
+        Apple Calendar, Outlook or any app that supports iCalendar. No account connection needed.
+      </p>
+
+      {feed?.enabled && feed.feed_url ? (
+        <div className="space-y-4">
+          <div className="p-4 bg-white/5 rounded-lg space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={feed.feed_url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-xs text-indigo-100 font-mono"
+              />
+              <button
+                onClick={handleCopy}
+                className="px-3 py-2 text-sm bg-indigo-500/30 hover:bg-indigo-500/40 text-indigo-100 rounded-lg transition-colors"
+              >
+                Copy
+              </button>
+            </div>
+            <div className="flex items-center justify-between text-xs text-indigo-300">
+              <span>
+                Last fetched: {feed.last_accessed_at ? formatDate(feed.last_accessed_at) : 'Not yet'}
+              </span>
+              {webcalUrl && (
+                <a href={webcalUrl} className="text-indigo-300 hover:text-white underline">
+                  Open in calendar app
+                </a>
+              )}
+            </div>
+          </div>
+
+          <div className="p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+            <p className="text-xs text-blue-200">
+              <span className="font-medium">Private link:</span> anyone with this link can see your plan.
+              Create a new link if it was shared by mistake.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={handleDownload}
+              disabled={working}
+              className="px-4 py-2 text-sm text-indigo-200 hover:text-white transition-colors"
+            >
+              Download .ics
+            </button>
+            <button
+              onClick={handleEnable}
+              disabled={working}
+              className="px-4 py-2 text-sm text-indigo-200 hover:text-white transition-colors"
+            >
+              New Link
+            </button>
+            <button
+              onClick={handleDisable}
+              disabled={working}
+              className="px-4 py-2 text-sm bg-red-500/20 hover:bg-red-500/30 text-red-300 rounded-lg transition-colors"
+            >
+              Turn Off
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-3">
+          <button
+            onClick={handleEnable}
+            disabled={working}
+            className="flex-1 py-3 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 disabled:opacity-50 text-white rounded-lg font-medium transition-all flex items-center justify-center gap-2"
+          >
+            {working ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Working...
+              </>
+            ) : (
+              'Create Subscription Link'
+            )}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={working}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-indigo-100 rounded-lg font-medium transition-colors"
+          >
+            Download .ics
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeed;
@@ -1,91 +1,78 @@
-import React from 'react';
-import { WorkbookPage, TextBlock, ImageBlock } from '../../types/workbookTypes';
-import MonthlyPlannerRenderer from './renderers/MonthlyPlannerRenderer';
-import HabitTrackerRenderer from './renderers/HabitTrackerRenderer';
+import React, { useMemo } from 'react';
+import { WorkbookPage, ThemePack } from '../../types/workbookTypes';
+import {
+    SceneOp,
+    WORKBOOK_FONTS,
+    layoutWorkbookPage
+} from '../../supabase/functions/_shared/workbook-layout';
 
 interface WorkbookPageRendererProps {
     page: WorkbookPage;
+    theme?: ThemePack;
 }
 
-const WorkbookPageRenderer: React.FC<WorkbookPageRendererProps> = ({ page }) => {
-    const { layout, textBlocks, imageBlocks, type } = page;
-
-    const containerStyle: React.CSSProperties = {
-        width: '100%',
-        height: '100%',
-        position: 'relative',
-        backgroundColor: '#fff',
-        overflow: 'hidden',
-        aspectRatio: `${layout.widthPx} / ${layout.heightPx}`, // Fixed: using widthPx/heightPx instead of pxWidth/pxHeight
-        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-    };
-
-    const renderContent = () => {
-        // Specialized Renderers
-        if (type === 'MONTHLY_PLANNER' && page.monthlyData) {
-            return <MonthlyPlannerRenderer data={page.monthlyData} layout={layout} />;
-        }
-
-        if (type === 'HABIT_TRACKER' && page.habitTracker) {
-            return <HabitTrackerRenderer data={page.habitTracker} layout={layout} />;
-        }
-
-        // Default / Generic Renderer (Text & Images)
-        return (
-            <>
-                {imageBlocks?.map((block) => (
-                    <ImageBlockRenderer key={block.id} block={block} />
-                ))}
-                {textBlocks?.map((block) => (
-                    <TextBlockRenderer key={block.id} block={block} />
-                ))}
-            </>
-        );
-    };
+/**
+ * Draws a page from the shared workbook layout, the same scene the print
+ * PDF is rendered from (see _shared/workbook-layout.ts)
+ */
+const WorkbookPageRenderer: React.FC<WorkbookPageRendererProps> = ({ page, theme }) => {
+    const scene = useMemo(() => layoutWorkbookPage(page, { theme }), [page, theme]);
 
     return (
-        <div className="workbook-page-render" style={containerStyle}>
-            {renderContent()}
-        </div>
+        <svg
+            className="workbook-page-render"
+            viewBox={`0 0 ${scene.width} ${scene.height}`}
+            preserveAspectRatio="xMidYMid meet"
+            style={{ width: '100%', height: '100%', display: 'block', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}
+        >
+            <rect x={0} y={0} width={scene.width} height={scene.height} fill={scene.background} />
+            {scene.ops.map((op, i) => <SceneOpRenderer key={i} op={op} />)}
+        </svg>
     );
 };
 
-const TextBlockRenderer: React.FC<{ block: TextBlock }> = ({ block }) => {
-    const style: React.CSSProperties = {
-        position: 'absolute',
-        left: `${block.position?.x}%`,
-        top: `${block.position?.y}%`,
-        transform: 'translate(-50%, -50%)',
-        ...block.style
-    };
+const SceneOpRenderer: React.FC<{ op: SceneOp }> = ({ op }) => {
+    const stroke = op.stroke ? {
+        stroke: op.stroke,
+        strokeWidth: op.strokeWidth || 1,
+        strokeDasharray: op.dash ? `${op.dash}` : undefined
+    } : {};
 
-    let className = 'wb-text-block';
-    if (block.role === 'TITLE') className += ' wb-title text-4xl font-serif font-bold text-navy-900';
-    if (block.role === 'SUBTITLE') className += ' wb-subtitle text-xl text-slate-600 font-sans uppercase tracking-widest';
-    if (block.role === 'BODY') className += ' wb-body text-base text-slate-800 font-sans leading-relaxed';
-    if (block.role === 'QUOTE') className += ' wb-quote text-2xl italic font-serif text-gold-600 text-center';
+    switch (op.kind) {
+        case 'rect':
+            return <rect x={op.x} y={op.y} width={op.w} height={op.h} fill={op.fill || 'none'} opacity={op.opacity} {...stroke} />;
 
-    return (
-        <div className={className} style={style}>
-            {block.content}
-        </div>
-    );
-};
+        case 'line':
+            return <line x1={op.x} y1={op.y} x2={op.x2} y2={op.y2} opacity={op.opacity} {...stroke} />;
 
-const ImageBlockRenderer: React.FC<{ block: ImageBlock }> = ({ block }) => {
-    const style: React.CSSProperties = {
-        position: 'absolute',
-        left: `${block.position?.x}%`,
-        top: `${block.position?.y}%`,
-        width: `${block.position?.w}%`,
-        height: `${block.position?.h}%`,
-        objectFit: 'cover',
-        ...block.style
-    };
+        case 'circle':
+            return <circle cx={op.x} cy={op.y} r={op.r} fill={op.fill || 'none'} {...stroke} />;
 
-    return (
-        <img src={block.url || 'https://via.placeholder.com/300'} alt={block.alt || block.prompt} style={style} />
-    );
+        case 'text': {
+            const font = WORKBOOK_FONTS[op.font || 'sans'];
+            return (
+                <text
+                    x={op.x}
+                    y={op.y}
+                    fill={op.fill}
+                    fontSize={op.size}
+                    fontFamily={font.family}
+                    fontWeight={font.weight}
+                    fontStyle={font.italic ? 'italic' : 'normal'}
+                    textAnchor={op.anchor || 'start'}
+                    style={{ whiteSpace: 'pre' }}
+                >
+                    {op.text}
+                </text>
+            );
+        }
+
+        case 'image':
+            return <image href={op.url} x={op.x} y={op.y} width={op.w} height={op.h} preserveAspectRatio="xMidYMid slice" />;
+
+        default:
+            return null;
+    }
 };
 
 export default WorkbookPageRenderer;
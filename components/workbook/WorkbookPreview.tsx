@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { WorkbookPage } from '../../types/workbookTypes';
+import { WorkbookPage, ThemePack } from '../../types/workbookTypes';
 import WorkbookPageRenderer from './WorkbookPageRenderer';
 import { ChevronLeftIcon, ChevronRightIcon } from '../Icons';
 
 interface Props {
     pages: WorkbookPage[];
+    theme?: ThemePack;
 }
 
-const WorkbookPreview: React.FC<Props> = ({ pages }) => {
+const WorkbookPreview: React.FC<Props> = ({ pages, theme }) => {
     // Spread index 0 = Cover (Page 1)
     // Spread index 1 = Pages 2 & 3
     // Spread index 2 = Pages 4 & 5
@@ -55,7 +56,7 @@ const WorkbookPreview: React.FC<Props> = ({ pages }) => {
                     {!isCover && (
                         <div className="flex-1 bg-white relative overflow-hidden rounded-l-lg border-r border-gray-200">
                             {left ? (
-                                <WorkbookPageRenderer page={left} />
+                                <WorkbookPageRenderer page={left} theme={theme} />
                             ) : (
                                 <div className="w-full h-full bg-gray-50 flex items-center justify-center text-gray-300">
                                     End of Workbook
@@ -72,7 +73,7 @@ const WorkbookPreview: React.FC<Props> = ({ pages }) => {
                         ${isCover ? 'rounded-r-lg rounded-l-lg shadow-2xl' : 'rounded-r-lg'}
                     `}>
                         {right ? (
-                            <WorkbookPageRenderer page={right} />
+                            <WorkbookPageRenderer page={right} theme={theme} />
                         ) : (
                             <div className="w-full h-full bg-gray-50 flex items-center justify-center text-gray-300">
                                 Empty Page
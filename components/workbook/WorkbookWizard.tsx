@@ -19,8 +19,16 @@ import {
     createStripeCheckoutSession
 } from '../../services/storageService';
 import { generateWorkbookContent } from '../../services/geminiService';
-import { buildInitialWorkbookPages, CoverThemeId } from '../../services/workbook/workbookService';
+import { buildInitialWorkbookPages, CoverThemeId, fetchUserDataForWorkbook } from '../../services/workbook/workbookService';
+import { renderWorkbookToPdf } from '../../services/workbook/workbookPdfService';
 import { WorkbookPage, ThemePack } from '../../types/workbookTypes';
+import {
+    HOLIDAY_SETS,
+    HolidaySetId,
+    PlannerOptions,
+    WeekStart
+} from '../../supabase/functions/_shared/planner-calendar';
+import { supabase } from '../../lib/supabase';
 import WorkbookPreview from './WorkbookPreview';
 import WorkbookCoverDesigner from './WorkbookCoverDesigner';
 import CoverThemeSelector from './CoverThemeSelector';
@@ -30,6 +38,24 @@ import './workbook.css';
 // Maximum number of vision boards allowed in a workbook
 const MAX_VISION_BOARDS = 4;
 
+// Date formats offered for the planner, by locale
+const PLANNER_LOCALES = [
+    { id: 'en-US', label: 'United States' },
+    { id: 'en-GB', label: 'United Kingdom' },
+    { id: 'en-CA', label: 'Canada' },
+    { id: 'en-AU', label: 'Australia' },
+    { id: 'de-DE', label: 'Deutsch' },
+    { id: 'fr-FR', label: 'Français' },
+    { id: 'es-ES', label: 'Español' }
+];
+
+// The planner starts next month unless the buyer picks another (YYYY-MM)
+const nextMonthValue = () => {
+    const now = new Date();
+    const next = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`;
+};
+
 type WizardStep = 'TYPE_SELECTION' | 'PERSONALIZE' | 'CONTENT' | 'PREVIEW' | 'PRINT';
 
 interface Props {
@@ -40,6 +66,8 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
     const [step, setStep] = useState<WizardStep>('TYPE_SELECTION');
     const [isLoading, setIsLoading] = useState(false);
     const [isGenerating, setIsGenerating] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
 
     // Data
     const [templates, setTemplates] = useState<WorkbookTemplate[]>([]);
@@ -68,6 +96,14 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
     const [includeFinancial, setIncludeFinancial] = useState(true);
     const [includeForeword, setIncludeForeword] = useState(true);
 
+    // Planner dates
+    const [plannerStart, setPlannerStart] = useState(nextMonthValue);
+    const [weekStart, setWeekStart] = useState<WeekStart>('SUNDAY');
+    const [plannerLocale, setPlannerLocale] = useState(
+        PLANNER_LOCALES.some(l => l.id === navigator.language) ? navigator.language : 'en-US'
+    );
+    const [holidaySets, setHolidaySets] = useState<HolidaySetId[]>([]);
+
     // Shipping
     const [shipping, setShipping] = useState<ShippingAddress>({
         name: '', line1: '', city: '', state: '', postalCode: '', country: 'US'
@@ -77,6 +113,25 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
         loadData();
     }, []);
 
+    // Faith workbooks mark the Christian holy days unless the buyer opts out
+    useEffect(() => {
+        if (themePack === 'faith') {
+            setHolidaySets(prev => prev.includes('CHRISTIAN') ? prev : [...prev, 'CHRISTIAN']);
+        }
+    }, [themePack]);
+
+    const plannerOptions = useMemo<PlannerOptions | undefined>(() => {
+        if (!includeCalendar) return undefined;
+        const [year, month] = plannerStart.split('-').map(Number);
+        return {
+            startYear: year,
+            startMonth: month - 1,
+            weekStart,
+            locale: plannerLocale,
+            holidaySets
+        };
+    }, [includeCalendar, plannerStart, weekStart, plannerLocale, holidaySets]);
+
     const loadData = async () => {
         setIsLoading(true);
         try {
@@ -419,6 +474,67 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
                                         ))}
                                     </div>
                                 </div>
+
+                                {includeCalendar && (
+                                    <div>
+                                        <h2 className="text-2xl font-bold text-navy-900 mb-2">Planner Dates</h2>
+                                        <p className="text-sm text-gray-500 mb-4">
+                                            Twelve dated months from your start month, each followed by its weekly spreads.
+                                        </p>
+                                        <div className="grid grid-cols-3 gap-4 mb-4">
+                                            <div>
+                                                <label className="block text-sm font-bold text-navy-900 mb-2">Start Month</label>
+                                                <input
+                                                    type="month"
+                                                    value={plannerStart}
+                                                    onChange={e => e.target.value && setPlannerStart(e.target.value)}
+                                                    className="w-full border rounded-lg p-3"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-bold text-navy-900 mb-2">Week Starts On</label>
+                                                <select
+                                                    value={weekStart}
+                                                    onChange={e => setWeekStart(e.target.value as WeekStart)}
+                                                    className="w-full border rounded-lg p-3"
+                                                >
+                                                    <option value="SUNDAY">Sunday</option>
+                                                    <option value="MONDAY">Monday</option>
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-bold text-navy-900 mb-2">Date Format</label>
+                                                <select
+                                                    value={plannerLocale}
+                                                    onChange={e => setPlannerLocale(e.target.value)}
+                                                    className="w-full border rounded-lg p-3"
+                                                >
+                                                    {PLANNER_LOCALES.map(locale => (
+                                                        <option key={locale.id} value={locale.id}>
+                                                            {locale.label} ({new Intl.DateTimeFormat(locale.id, { dateStyle: 'medium' }).format(new Date())})
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        </div>
+                                        <label className="block text-sm font-bold text-navy-900 mb-2">Holidays</label>
+                                        <div className="grid grid-cols-2 gap-4">
+                                            {(Object.keys(HOLIDAY_SETS) as HolidaySetId[]).map(id => (
+                                                <label key={id} className="flex items-center gap-3 p-4 border rounded-xl cursor-pointer hover:bg-gray-50">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={holidaySets.includes(id)}
+                                                        onChange={e => setHolidaySets(prev =>
+                                                            e.target.checked ? [...prev, id] : prev.filter(set => set !== id)
+                                                        )}
+                                                        className="w-5 h-5 text-navy-900 rounded"
+                                                    />
+                                                    <span className="font-medium text-navy-900">{HOLIDAY_SETS[id].label}</span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
 
                             <div className="bg-gray-50 rounded-xl p-6 h-fit">
@@ -451,6 +567,13 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
                                                 .map(id => habits.find(h => h.id === id))
                                                 .filter((h): h is Habit => h !== undefined);
 
+                                            // Dated tasks become milestones in the planner
+                                            let actionTasks: Awaited<ReturnType<typeof fetchUserDataForWorkbook>>['actionTasks'] = [];
+                                            if (plannerOptions) {
+                                                const { data: { user } } = await supabase.auth.getUser();
+                                                if (user) actionTasks = (await fetchUserDataForWorkbook(user.id)).actionTasks;
+                                            }
+
                                             console.log(`[WorkbookWizard] Building pages with ${selectedVisionImages.length} vision boards and ${selectedHabitObjects.length} habits`);
 
                                             const pages = await buildInitialWorkbookPages({
@@ -463,7 +586,10 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
                                                 title,
                                                 subtitle,
                                                 coverTheme,
-                                                themePack
+                                                themePack,
+                                                actionTasks,
+                                                planner: plannerOptions,
+                                                binding: selectedTemplate?.binding
                                             });
 
                                             console.log(`[WorkbookWizard] Generated ${pages.length} pages`);
@@ -490,6 +616,30 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
                                 <h2 className="text-2xl font-bold text-navy-900">Digital Preview</h2>
                                 <div className="flex gap-4">
                                     <button onClick={() => setStep('CONTENT')} className="text-gray-500 hover:text-navy-900">Back to Content</button>
+                                    <button
+                                        onClick={async () => {
+                                            setIsExporting(true);
+                                            setExportError(null);
+                                            try {
+                                                const blob = await renderWorkbookToPdf(generatedPages, { theme: themePack });
+                                                const url = URL.createObjectURL(blob);
+                                                const link = document.createElement('a');
+                                                link.href = url;
+                                                link.download = `${title || 'workbook'}.pdf`;
+                                                link.click();
+                                                URL.revokeObjectURL(url);
+                                            } catch (e: any) {
+                                                console.error("[WorkbookWizard] PDF export failed:", e);
+                                                setExportError(e.message || 'PDF export failed');
+                                            } finally {
+                                                setIsExporting(false);
+                                            }
+                                        }}
+                                        disabled={isExporting}
+                                        className="text-navy-900 font-bold px-4 py-2 rounded-lg border border-navy-900 hover:bg-gray-50 disabled:opacity-50"
+                                    >
+                                        {isExporting ? 'Rendering PDF...' : 'Download PDF'}
+                                    </button>
                                     <button
                                         onClick={() => setStep('PRINT')}
                                         className="bg-navy-900 text-white font-bold px-6 py-2 rounded-lg hover:bg-navy-800"
@@ -499,8 +649,12 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
                                 </div>
                             </div>
 
+                            {exportError && (
+                                <p className="text-sm text-red-600 mb-2">{exportError}</p>
+                            )}
+
                             <div className="flex-1 bg-gray-100 rounded-xl overflow-hidden relative">
-                                <WorkbookPreview pages={generatedPages} />
+                                <WorkbookPreview pages={generatedPages} theme={themePack} />
                             </div>
                         </div>
                     )}
@@ -588,7 +742,8 @@ const WorkbookWizard: React.FC<Props> = ({ onClose }) => {
                                                     workbook_pages: generatedPages,
                                                     // v2.1: Theme pack for PDF styling
                                                     customization_data: {
-                                                        theme_pack: themePack
+                                                        theme_pack: themePack,
+                                                        planner: plannerOptions
                                                     }
                                                 });
 
@@ -0,0 +1,396 @@
+/**
+ * VISION BOARD COLLAGE
+ *
+ * Layout and rendering for the collage composer, which arranges several
+ * gallery images, a headline and affirmation stickers on one poster canvas:
+ * - Canvas sizes come from the PRODUCT_CONFIG poster sizes, so a finished
+ *   collage prints without cropping
+ * - Layers are positioned in fractions of the canvas (0-1) and rendered at
+ *   print resolution only on export
+ * - Grid layout places images in even cells; freeform lets the user drag,
+ *   resize and rotate them with edge and center snapping
+ */
+
+import type { CollageDocument, CollageLayer, VisionImage } from '../types';
+import { PRODUCT_CONFIG } from './printService';
+
+// 150 DPI is the print minimum the workbook image check accepts
+export const COLLAGE_EXPORT_DPI = 150;
+// Largest canvas mobile Safari will allocate (16.7M pixels)
+const MAX_EXPORT_PIXELS = 16_000_000;
+const SNAP_THRESHOLD = 0.015;
+const MIN_LAYER_SIZE = 0.05;
+
+export const COLLAGE_BACKGROUNDS = ['#ffffff', '#f8f5ee', '#0f172a', '#1e3a5f'];
+
+export const AFFIRMATION_STICKERS = [
+  { text: 'I am worthy of my dreams', background: '#f59e0b', color: '#0f172a' },
+  { text: 'Abundance flows to me', background: '#10b981', color: '#ffffff' },
+  { text: 'Every day I grow stronger', background: '#6366f1', color: '#ffffff' },
+  { text: 'My future is bright', background: '#fde68a', color: '#0f172a' },
+  { text: 'I choose freedom', background: '#0f172a', color: '#fbbf24' },
+  { text: 'Grateful for today', background: '#f472b6', color: '#ffffff' }
+];
+
+export interface CollageSizeOption {
+  size: string;
+  label: string;
+  widthIn: number;
+  heightIn: number;
+}
+
+export interface SnapGuides {
+  x: number[];
+  y: number[];
+}
+
+export type LayerMove = 'front' | 'forward' | 'backward' | 'back';
+
+/**
+ * Poster sizes a collage can be composed for, in portrait inches
+ */
+export const getCollageSizes = (): CollageSizeOption[] =>
+  PRODUCT_CONFIG.poster.sizes.map(size => {
+    const [widthIn, heightIn] = size.split('x').map(Number);
+    return { size, label: `${widthIn}" x ${heightIn}"`, widthIn, heightIn };
+  });
+
+/**
+ * Canvas dimensions in inches for the document's size and orientation
+ */
+export const getCanvasInches = (doc: Pick<CollageDocument, 'size' | 'orientation'>): { width: number; height: number } => {
+  const option = getCollageSizes().find(s => s.size === doc.size) || getCollageSizes()[1];
+  return doc.orientation === 'landscape'
+    ? { width: option.heightIn, height: option.widthIn }
+    : { width: option.widthIn, height: option.heightIn };
+};
+
+/**
+ * Pixel size of the exported PNG: print DPI, scaled down to fit the
+ * largest canvas browsers allow
+ */
+export const getExportSize = (
+  doc: Pick<CollageDocument, 'size' | 'orientation'>,
+  dpi: number = COLLAGE_EXPORT_DPI
+): { width: number; height: number } => {
+  const inches = getCanvasInches(doc);
+  let width = inches.width * dpi;
+  let height = inches.height * dpi;
+  if (width * height > MAX_EXPORT_PIXELS) {
+    const scale = Math.sqrt(MAX_EXPORT_PIXELS / (width * height));
+    width *= scale;
+    height *= scale;
+  }
+  return { width: Math.floor(width), height: Math.floor(height) };
+};
+
+// ============================================
+// Layers
+// ============================================
+
+export const createImageLayer = (image: Pick<VisionImage, 'id' | 'url'>, index: number = 0): CollageLayer => {
+  // Freeform images cascade from the upper left so new ones stay visible
+  const offset = (index % 6) * 0.06;
+  return {
+    id: crypto.randomUUID(),
+    kind: 'image',
+    x: 0.1 + offset,
+    y: 0.1 + offset,
+    width: 0.45,
+    height: 0.3,
+    rotation: 0,
+    imageId: image.id,
+    imageUrl: image.url
+  };
+};
+
+export const createHeadlineLayer = (text: string): CollageLayer => ({
+  id: crypto.randomUUID(),
+  kind: 'headline',
+  x: 0.08,
+  y: 0.04,
+  width: 0.84,
+  height: 0.1,
+  rotation: 0,
+  text,
+  fontScale: 0.05,
+  color: '#ffffff'
+});
+
+export const createStickerLayer = (
+  sticker: { text: string; background: string; color: string },
+  index: number = 0
+): CollageLayer => ({
+  id: crypto.randomUUID(),
+  kind: 'sticker',
+  x: 0.3 + (index % 3) * 0.05,
+  y: 0.8 - (index % 3) * 0.05,
+  width: 0.4,
+  height: 0.06,
+  rotation: -4,
+  text: sticker.text,
+  fontScale: 0.022,
+  color: sticker.color,
+  background: sticker.background
+});
+
+/**
+ * New collage of the given gallery images, laid out as a grid
+ */
+export const createCollage = (images: Pick<VisionImage, 'id' | 'url'>[], size: string = '18x24'): CollageDocument =>
+  arrangeGrid({
+    size,
+    orientation: 'portrait',
+    layout: 'grid',
+    background: COLLAGE_BACKGROUNDS[0],
+    gap: 0.02,
+    layers: images.map((image, i) => createImageLayer(image, i))
+  });
+
+/**
+ * Place the image layers in even grid cells, keeping their stacking order.
+ * Columns are chosen so cells come out closest to square; a short last row
+ * is stretched to the full width. Headlines and stickers stay where they are.
+ */
+export const arrangeGrid = (doc: CollageDocument): CollageDocument => {
+  const images = doc.layers.filter(l => l.kind === 'image');
+  if (images.length === 0) return { ...doc, layout: 'grid' };
+
+  const inches = getCanvasInches(doc);
+  const gapX = doc.gap * Math.min(inches.width, inches.height) / inches.width;
+  const gapY = doc.gap * Math.min(inches.width, inches.height) / inches.height;
+
+  let columns = 1;
+  let bestSkew = Infinity;
+  for (let c = 1; c <= images.length; c++) {
+    const rows = Math.ceil(images.length / c);
+    const cellAspect = (inches.width / c) / (inches.height / rows);
+    const skew = Math.abs(Math.log(cellAspect));
+    if (skew < bestSkew) {
+      bestSkew = skew;
+      columns = c;
+    }
+  }
+
+  const rows = Math.ceil(images.length / columns);
+  const cellHeight = (1 - gapY * (rows + 1)) / rows;
+  const cells = new Map<string, Partial<CollageLayer>>();
+
+  images.forEach((layer, i) => {
+    const row = Math.floor(i / columns);
+    const inRow = row === rows - 1 ? images.length - row * columns : columns;
+    const col = i - row * columns;
+    const cellWidth = (1 - gapX * (inRow + 1)) / inRow;
+    cells.set(layer.id, {
+      x: gapX + col * (cellWidth + gapX),
+      y: gapY + row * (cellHeight + gapY),
+      width: cellWidth,
+      height: cellHeight,
+      rotation: 0
+    });
+  });
+
+  return {
+    ...doc,
+    layout: 'grid',
+    layers: doc.layers.map(l => (cells.has(l.id) ? { ...l, ...cells.get(l.id) } : l))
+  };
+};
+
+/**
+ * Move a layer to the top or bottom of the stack, or one step
+ */
+export const reorderLayer = (layers: CollageLayer[], id: string, move: LayerMove): CollageLayer[] => {
+  const index = layers.findIndex(l => l.id === id);
+  if (index === -1) return layers;
+
+  const target = {
+    front: layers.length - 1,
+    forward: Math.min(index + 1, layers.length - 1),
+    backward: Math.max(index - 1, 0),
+    back: 0
+  }[move];
+
+  const next = [...layers];
+  const [layer] = next.splice(index, 1);
+  next.splice(target, 0, layer);
+  return next;
+};
+
+/**
+ * Snap a moved layer's edges and center to the canvas edges and center and
+ * to the edges and centers of the other layers. Returns the adjusted layer
+ * and the guide lines it snapped to.
+ */
+export const snapLayer = (
+  layer: CollageLayer,
+  others: CollageLayer[],
+  threshold: number = SNAP_THRESHOLD
+): { layer: CollageLayer; guides: SnapGuides } => {
+  const targetsX = [0, 0.5, 1];
+  const targetsY = [0, 0.5, 1];
+  for (const other of others) {
+    if (other.id === layer.id) continue;
+    targetsX.push(other.x, other.x + other.width / 2, other.x + other.width);
+    targetsY.push(other.y, other.y + other.height / 2, other.y + other.height);
+  }
+
+  const snapX = findSnap([layer.x, layer.x + layer.width / 2, layer.x + layer.width], targetsX, threshold);
+  const snapY = findSnap([layer.y, layer.y + layer.height / 2, layer.y + layer.height], targetsY, threshold);
+
+  return {
+    layer: {
+      ...layer,
+      x: layer.x + (snapX?.delta || 0),
+      y: layer.y + (snapY?.delta || 0)
+    },
+    guides: {
+      x: snapX ? [snapX.line] : [],
+      y: snapY ? [snapY.line] : []
+    }
+  };
+};
+
+/**
+ * Keep a layer at least partly on the canvas and above the minimum size
+ */
+export const clampLayer = (layer: CollageLayer): CollageLayer => {
+  const width = Math.min(Math.max(layer.width, MIN_LAYER_SIZE), 1);
+  const height = Math.min(Math.max(layer.height, MIN_LAYER_SIZE), 1);
+  return {
+    ...layer,
+    width,
+    height,
+    x: Math.min(Math.max(layer.x, -width / 2), 1 - width / 2),
+    y: Math.min(Math.max(layer.y, -height / 2), 1 - height / 2)
+  };
+};
+
+/**
+ * Source rectangle that fills a box of the given size without distortion,
+ * cropping the image's overflow evenly from both sides
+ */
+export const coverCrop = (
+  imageWidth: number,
+  imageHeight: number,
+  boxWidth: number,
+  boxHeight: number
+): { sx: number; sy: number; sw: number; sh: number } => {
+  const scale = Math.max(boxWidth / imageWidth, boxHeight / imageHeight);
+  const sw = boxWidth / scale;
+  const sh = boxHeight / scale;
+  return { sx: (imageWidth - sw) / 2, sy: (imageHeight - sh) / 2, sw, sh };
+};
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Render the collage to a PNG data URL at print resolution
+ */
+export const renderCollage = async (doc: CollageDocument, dpi: number = COLLAGE_EXPORT_DPI): Promise<string> => {
+  const { width, height } = getExportSize(doc, dpi);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  ctx.fillStyle = doc.background;
+  ctx.fillRect(0, 0, width, height);
+
+  const urls = [...new Set(doc.layers.filter(l => l.imageUrl).map(l => l.imageUrl as string))];
+  const loaded = new Map(await Promise.all(urls.map(async url => [url, await loadImage(url)] as const)));
+
+  for (const layer of doc.layers) {
+    const box = { x: layer.x * width, y: layer.y * height, w: layer.width * width, h: layer.height * height };
+
+    ctx.save();
+    ctx.translate(box.x + box.w / 2, box.y + box.h / 2);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+
+    if (layer.kind === 'image' && layer.imageUrl) {
+      const img = loaded.get(layer.imageUrl)!;
+      const crop = coverCrop(img.naturalWidth, img.naturalHeight, box.w, box.h);
+      ctx.drawImage(img, crop.sx, crop.sy, crop.sw, crop.sh, -box.w / 2, -box.h / 2, box.w, box.h);
+    } else if (layer.text) {
+      drawText(ctx, layer, box.w, box.h, height);
+    }
+
+    ctx.restore();
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+const findSnap = (edges: number[], targets: number[], threshold: number): { delta: number; line: number } | null => {
+  let best: { delta: number; line: number } | null = null;
+  for (const edge of edges) {
+    for (const line of targets) {
+      const delta = line - edge;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, line };
+      }
+    }
+  }
+  return best;
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    // Gallery images live in Supabase storage; without CORS the canvas can't be exported
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load a collage image'));
+    img.src = url;
+  });
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: CollageLayer, w: number, h: number, canvasHeight: number) => {
+  const fontSize = (layer.fontScale || 0.03) * canvasHeight;
+
+  if (layer.kind === 'sticker') {
+    ctx.fillStyle = layer.background || '#ffffff';
+    ctx.beginPath();
+    ctx.roundRect(-w / 2, -h / 2, w, h, Math.min(h / 2, fontSize));
+    ctx.fill();
+    ctx.font = `bold ${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+  } else {
+    ctx.font = `bold ${fontSize}px Georgia, 'Times New Roman', serif`;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+    ctx.shadowBlur = fontSize * 0.2;
+  }
+
+  ctx.fillStyle = layer.color || '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lines = wrapText(ctx, layer.text || '', w * 0.92);
+  const lineHeight = fontSize * 1.2;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, 0, (i - (lines.length - 1) / 2) * lineHeight);
+  });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
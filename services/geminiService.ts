@@ -2,6 +2,8 @@
 import { supabase } from '../lib/supabase';
 import { ChatMessage, FinancialGoal, Milestone } from '../types';
 import { WorkbookPage, WorkbookPageType, WorkbookEdition, WorkbookTrimSize } from '../types/workbookTypes';
+import { createJob, waitForJob, Job, ImageGenerationJobPayload, ImageGenerationJobResult } from './jobService';
+import { addVisionImageVariants } from './storageService';
 
 /**
  * Helper to convert URL to Base64
@@ -236,6 +238,52 @@ export const editVisionImage = async (
   });
 };
 
+/**
+ * Generate a vision image as a background job
+ *
+ * Same model fallback chain as editVisionImage, but run by background-worker
+ * so the browser isn't held open for the whole generation. The worker retries
+ * transient model failures, saves the image to the gallery and deducts the
+ * credit on success; progress arrives through onProgress.
+ *
+ * Photos that are still data URLs are uploaded to storage first so the job
+ * row (and every realtime update of it) stays small. The worker can't resize
+ * images, so the thumbnail, medium and print variants are made here once the
+ * job is done.
+ */
+export const generateVisionImageInBackground = async (
+  payload: Omit<ImageGenerationJobPayload, 'uploadedInputs'>,
+  onProgress?: (job: Job) => void
+): Promise<ImageGenerationJobResult> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Must be authenticated to generate visions');
+
+  const uploadedInputs: string[] = [];
+  const toStorageUrl = async (image: string): Promise<string> => {
+    if (!image.startsWith('data:')) return image;
+
+    const blob = await (await fetch(image)).blob();
+    const path = `job-inputs/${user.id}/${crypto.randomUUID()}.${blob.type === 'image/jpeg' ? 'jpg' : 'png'}`;
+    const { error } = await supabase.storage.from('visions').upload(path, blob, { contentType: blob.type || 'image/png' });
+    if (error) throw error;
+
+    uploadedInputs.push(path);
+    return supabase.storage.from('visions').getPublicUrl(path).data.publicUrl;
+  };
+
+  const images = await Promise.all(payload.images.filter(Boolean).map(toStorageUrl));
+  const identityAnchorImage = payload.identityAnchorImage ? await toStorageUrl(payload.identityAnchorImage) : undefined;
+
+  const job = await createJob('image_generation', { ...payload, images, identityAnchorImage, uploadedInputs });
+  if (!job) throw new Error('Could not queue image generation. Please try again.');
+
+  const finished = await waitForJob(job.id, onProgress);
+  const result = finished.result as ImageGenerationJobResult;
+
+  const stored = await addVisionImageVariants(result.imageId, result.url);
+  return stored ? { ...result, url: stored.url, variants: stored.variants } : result;
+};
+
 /**
  * Validate likeness between reference images and generated image
  *
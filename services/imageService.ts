@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { ImageVariant, ImageVariantName, ImageVariants } from '../types';
+import { PRODIGI_SPECS } from './workbook/printSpecifications';
 
 interface ImageCacheMetadata {
     url: string;
@@ -89,3 +91,193 @@ export const preloadImage = (url: string): Promise<void> => {
         img.onerror = reject;
     });
 };
+
+// ============================================
+// Image Pipeline
+// ============================================
+
+/**
+ * Longest edge of the largest print product (24x36" poster) at print DPI.
+ * The print variant is only ever downscaled past this, so it keeps the
+ * resolution validateImageForPrint checks for.
+ */
+export const PRINT_MAX_EDGE_PX = 36 * PRODIGI_SPECS.DPI;
+
+// Uploaded photos are only used as likeness references, never printed directly
+export const UPLOAD_MAX_EDGE_PX = 2048;
+const UPLOAD_QUALITY = 0.85;
+
+interface VariantSpec {
+    maxEdge: number;
+    type: 'image/jpeg' | 'image/png';
+    quality?: number;
+    suffix: string;
+}
+
+export const IMAGE_VARIANT_SPECS: Record<ImageVariantName, VariantSpec> = {
+    thumb: { maxEdge: 400, type: 'image/jpeg', quality: 0.75, suffix: '_thumb.jpg' },
+    medium: { maxEdge: 1280, type: 'image/jpeg', quality: 0.82, suffix: '_medium.jpg' },
+    // Lossless, so printing from it loses nothing against the original
+    print: { maxEdge: PRINT_MAX_EDGE_PX, type: 'image/png', suffix: '.png' }
+};
+
+/**
+ * Scale dimensions to fit within maxEdge, keeping the aspect ratio. Never upscales.
+ */
+export const fitWithin = (
+    width: number,
+    height: number,
+    maxEdge: number
+): { width: number; height: number } => {
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale))
+    };
+};
+
+/**
+ * srcset for an image's variants, smallest first. Empty when there are none.
+ */
+export const buildSrcSet = (variants?: ImageVariants | null): string => {
+    if (!variants) return '';
+    return (Object.values(variants) as ImageVariant[])
+        .filter(v => v?.url && v.width)
+        .sort((a, b) => a.width - b.width)
+        .map(v => `${v.url} ${v.width}w`)
+        .join(', ');
+};
+
+/**
+ * Decode an image with its EXIF orientation applied
+ */
+const decodeImage = async (source: Blob | string): Promise<ImageBitmap | HTMLImageElement> => {
+    const blob = typeof source === 'string' && source.startsWith('data:')
+        ? await (await fetch(source)).blob()
+        : source;
+
+    if (typeof blob !== 'string' && typeof createImageBitmap === 'function') {
+        return createImageBitmap(blob, { imageOrientation: 'from-image' });
+    }
+
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const objectUrl = typeof blob === 'string' ? null : URL.createObjectURL(blob);
+        img.crossOrigin = 'anonymous';
+        img.onload = () => {
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+            resolve(img);
+        };
+        img.onerror = () => {
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+            reject(new Error('Failed to load image'));
+        };
+        img.src = objectUrl || (blob as string);
+    });
+};
+
+/**
+ * Redraw onto a canvas and re-encode. Only pixels survive, so EXIF data
+ * (camera details, GPS location) is stripped along the way.
+ */
+const encodeImage = (
+    image: ImageBitmap | HTMLImageElement,
+    maxEdge: number,
+    type: string,
+    quality?: number
+): Promise<{ blob: Blob; width: number; height: number }> => {
+    const { width, height } = fitWithin(image.width, image.height, maxEdge);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Could not get canvas context'));
+
+    if (type === 'image/jpeg') {
+        // JPEG has no alpha; keep transparent areas white rather than black
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => blob ? resolve({ blob, width, height }) : reject(new Error('Failed to encode image')),
+            type,
+            quality
+        );
+    });
+};
+
+/**
+ * Downscale and re-encode a photo before upload (JPEG, EXIF/GPS removed)
+ * @param source File, Blob or data URL
+ * @param options maxEdge in pixels and JPEG quality (0-1)
+ */
+export const compressImage = async (
+    source: Blob | string,
+    options: { maxEdge?: number; quality?: number } = {}
+): Promise<Blob> => {
+    const image = await decodeImage(source);
+    const { blob } = await encodeImage(
+        image,
+        options.maxEdge ?? UPLOAD_MAX_EDGE_PX,
+        'image/jpeg',
+        options.quality ?? UPLOAD_QUALITY
+    );
+    return blob;
+};
+
+/**
+ * Encode the thumbnail, medium and print variants of an image
+ */
+export const createImageVariants = async (
+    source: Blob | string
+): Promise<Record<ImageVariantName, { blob: Blob; width: number; height: number }>> => {
+    const image = await decodeImage(source);
+    const names = Object.keys(IMAGE_VARIANT_SPECS) as ImageVariantName[];
+    const encoded = await Promise.all(names.map(name => {
+        const spec = IMAGE_VARIANT_SPECS[name];
+        return encodeImage(image, spec.maxEdge, spec.type, spec.quality);
+    }));
+    return Object.fromEntries(names.map((name, i) => [name, encoded[i]])) as Record<ImageVariantName, { blob: Blob; width: number; height: number }>;
+};
+
+/**
+ * Upload an image and its variants to the visions bucket. The print variant
+ * is stored as `${baseName}.png` and is the image's main URL. Throws if the
+ * image can't be re-encoded rather than uploading the source, which may
+ * still carry EXIF/GPS metadata.
+ */
+export const uploadImageVariants = async (
+    baseName: string,
+    source: Blob | string
+): Promise<{ url: string; variants: ImageVariants }> => {
+    const upload = async (path: string, blob: Blob, contentType: string) => {
+        const { error } = await supabase.storage.from('visions').upload(path, blob, { contentType, upsert: true });
+        if (error) throw error;
+        return supabase.storage.from('visions').getPublicUrl(path).data.publicUrl;
+    };
+
+    const encoded = await createImageVariants(source).catch((error) => {
+        console.warn('Image variants unavailable', error);
+        throw new Error('This image could not be processed. Please try again.');
+    });
+
+    const variants: ImageVariants = {};
+    for (const name of Object.keys(encoded) as ImageVariantName[]) {
+        const spec = IMAGE_VARIANT_SPECS[name];
+        const { blob, width, height } = encoded[name];
+        variants[name] = { url: await upload(`${baseName}${spec.suffix}`, blob, spec.type), width, height };
+    }
+
+    return { url: variants.print!.url, variants };
+};
+
+/**
+ * Storage paths of every variant of an image, for cleanup
+ */
+export const getImageVariantPaths = (baseName: string): string[] =>
+    Object.values(IMAGE_VARIANT_SPECS).map(spec => `${baseName}${spec.suffix}`);
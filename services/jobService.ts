@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { ImageVariants } from '../types';
 
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
@@ -10,10 +11,64 @@ export interface Job {
     payload: any;
     result: any;
     error: string | null;
+    progress: number;
+    progress_message: string | null;
+    attempts: number;
+    max_attempts: number;
     created_at: string;
     updated_at: string;
 }
 
+/**
+ * Payload for an image_generation job. Images are storage URLs; the worker
+ * converts them for gemini-proxy.
+ */
+export interface ImageGenerationJobPayload {
+    images: string[];
+    prompt: string;
+    savePrompt?: string; // Prompt stored with the gallery image
+    embeddedText?: string;
+    titleText?: string;
+    style?: string;
+    aspectRatio?: string;
+    identityPrompt?: string;
+    referenceImageTags?: string[];
+    referenceImageIds?: string[];
+    identityAnchorImage?: string;
+    requestType?: 'EDIT' | 'GENERATE' | 'AUTO';
+    parentImageId?: string; // Gallery version being refined, recorded as the new image's parent
+    uploadedInputs?: string[]; // Storage paths the worker removes when done
+}
+
+export interface ImageGenerationJobResult {
+    imageId: string;
+    url: string;
+    variants?: ImageVariants; // Added by the client after the job completes
+    prompt: string;
+    parent_image_id?: string | null;
+    lineage_root_id?: string;
+    model_used?: string;
+    likeness_optimized?: boolean;
+    likeness_score?: number;
+    strategy_used?: string;
+    request_mode?: 'EDIT' | 'GENERATE';
+    identity_anchor_used?: boolean;
+    was_retried?: boolean;
+    warning?: string;
+}
+
+/**
+ * Payload for a pdf_export job: renders the order's stored workbook pages
+ */
+export interface PdfExportJobPayload {
+    orderId: string;
+}
+
+export interface PdfExportJobResult {
+    downloadUrl: string; // Signed link, valid for an hour
+    pageCount: number;
+}
+
 /**
  * Create a new background job and trigger the worker
  */
@@ -91,3 +146,45 @@ export const getJob = async (jobId: string): Promise<Job | null> => {
     if (error) return null;
     return data;
 };
+
+/**
+ * Wait for a job to finish, reporting progress along the way. Resolves with
+ * the completed job and rejects with the job's error if it fails.
+ */
+export const waitForJob = (
+    jobId: string,
+    onProgress?: (job: Job) => void,
+    timeoutMs: number = 5 * 60 * 1000
+): Promise<Job> => {
+    return new Promise((resolve, reject) => {
+        let settled = false;
+
+        const handle = (job: Job) => {
+            if (settled) return;
+            if (job.status === 'completed') {
+                finish();
+                resolve(job);
+            } else if (job.status === 'failed') {
+                finish();
+                reject(new Error(job.error || 'Job failed'));
+            } else {
+                onProgress?.(job);
+            }
+        };
+
+        const unsubscribe = subscribeToJob(jobId, handle);
+        const timer = setTimeout(() => {
+            finish();
+            reject(new Error('Timed out waiting for the job to finish'));
+        }, timeoutMs);
+
+        function finish() {
+            settled = true;
+            clearTimeout(timer);
+            unsubscribe();
+        }
+
+        // The job may have moved on before the subscription was ready
+        getJob(jobId).then(job => job && handle(job));
+    });
+};
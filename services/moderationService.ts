@@ -0,0 +1,131 @@
+/**
+ * IMAGE MODERATION
+ *
+ * Client side of the moderation gate (see _shared/image-moderation.ts):
+ * - Scan uploaded references and saved visions after they're stored
+ * - Keep flagged, rejected and unscanned images out of print orders
+ * - Admin review queue for quarantined images
+ */
+
+import { supabase } from '../lib/supabase';
+import type { ModerationCategory, ModerationQueueItem, ModerationStatus } from '../types';
+
+export const MODERATION_CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  nudity: 'Nudity',
+  violence: 'Violence',
+  minors_likeness: 'Minor in likeness',
+  trademark: 'Brand / trademark'
+};
+
+const BLOCKED_STATUSES: ModerationStatus[] = ['flagged', 'rejected'];
+
+export const PRINT_BLOCKED_MESSAGE = 'This image is under content review and can\'t be printed right now.';
+
+export const isPrintBlocked = (status?: ModerationStatus | null): boolean =>
+  !!status && BLOCKED_STATUSES.includes(status);
+
+/**
+ * Scan a saved image. Never throws: a failed scan leaves the image pending,
+ * and pending images are scanned again before printing (assertPrintable
+ * here, submit-to-prodigi on the server).
+ */
+export const scanImage = async (
+  source: 'vision' | 'reference',
+  imageId: string
+): Promise<ModerationStatus | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('moderate-image', {
+      body: { source, image_id: imageId }
+    });
+
+    if (error || !data?.success) {
+      console.warn('Image moderation scan failed', error || data?.error);
+      return null;
+    }
+
+    return data.status;
+  } catch (error) {
+    console.warn('Image moderation scan failed', error);
+    return null;
+  }
+};
+
+/**
+ * Throw if any of the visions is flagged or rejected, or still can't be
+ * scanned. Pending visions are scanned first.
+ */
+export const assertPrintable = async (visionIds: string[]): Promise<void> => {
+  if (!visionIds.length) return;
+
+  const { data, error } = await supabase
+    .from('vision_boards')
+    .select('id, moderation_status')
+    .in('id', visionIds);
+
+  if (error) throw error;
+
+  const statuses = await Promise.all((data || []).map((row: any) =>
+    row.moderation_status === 'pending' ? scanImage('vision', row.id) : row.moderation_status
+  ));
+
+  if (statuses.some(status => !status || status === 'pending' || isPrintBlocked(status))) {
+    throw new Error(PRINT_BLOCKED_MESSAGE);
+  }
+};
+
+/* --- ADMIN REVIEW --- */
+
+const mapQueueRow = (row: any): ModerationQueueItem => ({
+  id: row.id,
+  userId: row.user_id,
+  userName: row.user?.names || undefined,
+  userEmail: row.user?.email || undefined,
+  source: row.source,
+  imageId: row.image_id,
+  imageUrl: row.image_url,
+  categories: row.categories || [],
+  scores: row.scores || {},
+  reasons: row.reasons || [],
+  status: row.status,
+  reviewNotes: row.review_notes || undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at).getTime() : undefined,
+  createdAt: new Date(row.created_at).getTime()
+});
+
+/**
+ * Quarantined images for review, newest first
+ */
+export const getModerationQueue = async (
+  status: ModerationQueueItem['status'] = 'pending',
+  page = 1
+): Promise<{ items: ModerationQueueItem[]; total: number; hasMore: boolean }> => {
+  const { data, error } = await supabase.functions.invoke(
+    `admin-list-moderation-queue?status=${status}&page=${page}&limit=24`,
+    { method: 'GET' }
+  );
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to load moderation queue');
+
+  return {
+    items: (data.data || []).map(mapQueueRow),
+    total: data.meta?.total || 0,
+    hasMore: !!data.meta?.hasMore
+  };
+};
+
+/**
+ * Approve (false positive, printable again) or reject (stays blocked) a flagged image
+ */
+export const reviewModerationItem = async (
+  itemId: string,
+  decision: 'approved' | 'rejected',
+  notes?: string
+): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('admin-review-moderation-item', {
+    body: { item_id: itemId, decision, notes: notes || undefined }
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to review image');
+};
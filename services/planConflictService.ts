@@ -0,0 +1,117 @@
+/**
+ * GOAL PLAN EDIT CONFLICTS
+ *
+ * The Goals page, the AI coach and the voice agent can all write the same
+ * plan. Writes carry the revision they were based on; when the row has
+ * moved on, the save fails with a PlanEditConflictError and the two edits
+ * are merged three ways against the copy the page last read:
+ * - Fields only one side changed are taken from that side
+ * - Fields both sides changed to different values are conflicts the user
+ *   picks between in the merge dialog
+ * - A task deleted elsewhere can be restored or let go
+ */
+
+import type { ActionTask, PlanFieldChange, PlanTaskConflict, PlanTaskFieldConflict, PlanTaskMergeField } from '../types';
+import { TASK_FIELDS, taskFieldValue } from './planDiffService';
+
+const MERGE_FIELDS: PlanTaskMergeField[] = [...TASK_FIELDS, 'parentTaskId', 'dependsOn', 'durationDays', 'recurrenceRule'];
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+/**
+ * A version-checked write found the row changed (or deleted) since it was
+ * read. `current` is the row as it is now, or null when it is gone.
+ */
+export class PlanEditConflictError<T = ActionTask> extends Error {
+  readonly current: T | null;
+
+  constructor(message: string, current: T | null) {
+    super(message);
+    this.name = 'PlanEditConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Merge my edit of a task with the version saved elsewhere. `base` is the
+ * copy both edits started from; without it every difference is a conflict.
+ * The merged task carries their revision so it can be saved as is.
+ */
+export const mergeTaskEdits = (
+  base: ActionTask | undefined,
+  mine: ActionTask,
+  theirs: ActionTask | null
+): PlanTaskConflict => {
+  if (!theirs) {
+    return { mine, theirs: null, merged: mine, conflicts: [] };
+  }
+
+  const merged: ActionTask = { ...theirs };
+  const conflicts: PlanTaskFieldConflict[] = [];
+
+  for (const field of MERGE_FIELDS) {
+    const mineValue = mergeFieldValue(mine, field);
+    const theirsValue = mergeFieldValue(theirs, field);
+    if (sameValue(mineValue, theirsValue)) continue;
+
+    const baseValue = base ? mergeFieldValue(base, field) : null;
+    const mineChanged = !base || !sameValue(baseValue, mineValue);
+    const theirsChanged = !base || !sameValue(baseValue, theirsValue);
+
+    if (mineChanged && theirsChanged) {
+      conflicts.push({ field, base: baseValue, mine: mineValue, theirs: theirsValue });
+    } else if (mineChanged) {
+      copyField(merged, mine, field);
+    }
+  }
+
+  return { mine, theirs, merged, conflicts };
+};
+
+/**
+ * True when the merge needs no decision from the user
+ */
+export const isAutoMergeable = (conflict: PlanTaskConflict): boolean =>
+  conflict.theirs !== null && conflict.conflicts.length === 0;
+
+/**
+ * Apply the user's pick for each conflicting field (theirs by default)
+ */
+export const resolveTaskConflict = (
+  conflict: PlanTaskConflict,
+  choices: Partial<Record<PlanTaskMergeField, ConflictChoice>>
+): ActionTask => {
+  const resolved: ActionTask = { ...conflict.merged };
+  for (const { field } of conflict.conflicts) {
+    if (choices[field] === 'mine') copyField(resolved, conflict.mine, field);
+  }
+  return resolved;
+};
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+const mergeFieldValue = (task: ActionTask, field: PlanTaskMergeField): PlanFieldChange['before'] => {
+  switch (field) {
+    case 'parentTaskId':
+      return task.parentTaskId || null;
+    case 'dependsOn':
+      return [...(task.dependsOn || [])].sort();
+    case 'durationDays':
+      return task.durationDays ?? null;
+    case 'recurrenceRule':
+      return task.recurrenceRule || null;
+    default:
+      return taskFieldValue(task, field);
+  }
+};
+
+const sameValue = (a: PlanFieldChange['before'], b: PlanFieldChange['before']): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const copyField = (target: ActionTask, source: ActionTask, field: PlanTaskMergeField) => {
+  Object.assign(target, { [field]: source[field] });
+  // The anchor belongs to the rule it was set with
+  if (field === 'recurrenceRule') target.recurrenceAnchor = source.recurrenceAnchor;
+};
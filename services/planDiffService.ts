@@ -0,0 +1,215 @@
+/**
+ * GOAL PLAN VERSION DIFF
+ *
+ * Compares two versions of a goal plan for the Goals history view:
+ * - Added and removed tasks
+ * - Edited tasks, field by field
+ * - Reordered tasks (only those that actually moved, not everything
+ *   shifted by an insert or delete)
+ * - Changed AI insights, vision and financial target
+ *
+ * Tasks are matched by id first, since revisions carry task ids over
+ * from the plan they were based on, then by title for plans that were
+ * regenerated or imported.
+ */
+
+import type {
+  ActionTask,
+  GoalPlan,
+  PlanDiff,
+  PlanFieldChange,
+  PlanInsightField,
+  PlanTaskEdit,
+  PlanTaskField,
+  PlanTaskMove
+} from '../types';
+
+export const TASK_FIELDS: PlanTaskField[] = ['title', 'description', 'dueDate', 'type', 'priority', 'isCompleted'];
+const INSIGHT_FIELDS: PlanInsightField[] = ['summary', 'strengths', 'suggestions', 'focusAreas'];
+
+/**
+ * Diff two plan versions. `base` is the older side of the comparison.
+ */
+export const diffPlans = (base: GoalPlan, compare: GoalPlan): PlanDiff => {
+  const baseTasks = sortTasks(base.tasks || []);
+  const compareTasks = sortTasks(compare.tasks || []);
+  const pairs = matchTasks(baseTasks, compareTasks);
+
+  const matchedBase = new Set(pairs.map(p => p.before));
+  const matchedCompare = new Set(pairs.map(p => p.after));
+
+  const edited: PlanTaskEdit[] = [];
+  for (const pair of pairs) {
+    const changes = diffTask(pair.before, pair.after);
+    if (changes.length > 0) {
+      edited.push({ before: pair.before, after: pair.after, changes });
+    }
+  }
+
+  const reordered = findMovedTasks(pairs, baseTasks, compareTasks);
+  const insights = diffInsights(base.aiInsights, compare.aiInsights);
+  const plan: PlanDiff['plan'] = [];
+  if ((base.visionText || '') !== (compare.visionText || '')) {
+    plan.push({ field: 'visionText', before: base.visionText || null, after: compare.visionText || null });
+  }
+  if ((base.financialTarget ?? null) !== (compare.financialTarget ?? null)) {
+    plan.push({ field: 'financialTarget', before: base.financialTarget ?? null, after: compare.financialTarget ?? null });
+  }
+
+  const added = compareTasks.filter(t => !matchedCompare.has(t));
+  const removed = baseTasks.filter(t => !matchedBase.has(t));
+  const changedTasks = new Set([...edited.map(e => e.after), ...reordered.map(m => m.task)]);
+
+  return {
+    baseVersion: base.version,
+    compareVersion: compare.version,
+    added,
+    removed,
+    edited,
+    reordered,
+    insights,
+    plan,
+    unchangedCount: pairs.filter(p => !changedTasks.has(p.after)).length,
+    hasChanges: added.length + removed.length + edited.length + reordered.length + insights.length + plan.length > 0
+  };
+};
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+interface TaskPair {
+  before: ActionTask;
+  after: ActionTask;
+}
+
+const sortTasks = (tasks: ActionTask[]): ActionTask[] =>
+  tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => (a.task.displayOrder ?? a.index) - (b.task.displayOrder ?? b.index) || a.index - b.index)
+    .map(({ task }) => task);
+
+const normalizeTitle = (title: string): string =>
+  (title || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Pair tasks by id, then pair what is left by normalized title
+ */
+const matchTasks = (baseTasks: ActionTask[], compareTasks: ActionTask[]): TaskPair[] => {
+  const pairs: TaskPair[] = [];
+  const compareById = new Map(compareTasks.map(t => [t.id, t]));
+  const unmatchedBase: ActionTask[] = [];
+  const usedCompare = new Set<ActionTask>();
+
+  for (const task of baseTasks) {
+    const match = compareById.get(task.id);
+    if (match) {
+      pairs.push({ before: task, after: match });
+      usedCompare.add(match);
+    } else {
+      unmatchedBase.push(task);
+    }
+  }
+
+  const remainingByTitle = new Map<string, ActionTask[]>();
+  for (const task of compareTasks) {
+    if (usedCompare.has(task)) continue;
+    const key = normalizeTitle(task.title);
+    if (!remainingByTitle.has(key)) remainingByTitle.set(key, []);
+    remainingByTitle.get(key)!.push(task);
+  }
+
+  for (const task of unmatchedBase) {
+    const candidates = remainingByTitle.get(normalizeTitle(task.title));
+    const match = candidates?.shift();
+    if (match) pairs.push({ before: task, after: match });
+  }
+
+  return pairs;
+};
+
+/**
+ * A task field normalized for comparison (date only, default priority)
+ */
+export const taskFieldValue = (task: ActionTask, field: PlanTaskField): string | boolean | null => {
+  switch (field) {
+    case 'dueDate':
+      return task.dueDate ? task.dueDate.split('T')[0] : null;
+    case 'priority':
+      return task.priority || 'medium';
+    case 'isCompleted':
+      return !!task.isCompleted;
+    case 'description':
+      return task.description || '';
+    default:
+      return task[field] ?? null;
+  }
+};
+
+const diffTask = (before: ActionTask, after: ActionTask): PlanFieldChange<PlanTaskField>[] =>
+  TASK_FIELDS
+    .map(field => ({ field, before: taskFieldValue(before, field), after: taskFieldValue(after, field) }))
+    .filter(change => change.before !== change.after);
+
+/**
+ * Tasks whose relative order changed. The longest run of matched tasks
+ * that kept their relative order stays put; everything else moved.
+ */
+const findMovedTasks = (pairs: TaskPair[], baseTasks: ActionTask[], compareTasks: ActionTask[]): PlanTaskMove[] => {
+  const basePosition = new Map(baseTasks.map((t, i) => [t, i]));
+  const comparePosition = new Map(compareTasks.map((t, i) => [t, i]));
+  const ordered = [...pairs].sort((a, b) => comparePosition.get(a.after)! - comparePosition.get(b.after)!);
+  const sequence = ordered.map(p => basePosition.get(p.before)!);
+
+  const stable = new Set(longestIncreasingSubsequence(sequence));
+  return ordered
+    .filter((_, i) => !stable.has(i))
+    .map(pair => ({
+      task: pair.after,
+      fromPosition: basePosition.get(pair.before)!,
+      toPosition: comparePosition.get(pair.after)!
+    }));
+};
+
+/**
+ * Indexes into `values` forming one longest strictly increasing run
+ */
+const longestIncreasingSubsequence = (values: number[]): number[] => {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let best = -1;
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (best === -1 || lengths[i] > lengths[best]) best = i;
+  }
+
+  const indexes: number[] = [];
+  for (let i = best; i !== -1; i = previous[i]) indexes.unshift(i);
+  return indexes;
+};
+
+const insightValue = (value: string | string[] | undefined): string | string[] | null => {
+  if (Array.isArray(value)) return value.length > 0 ? value : null;
+  return value?.trim() || null;
+};
+
+const diffInsights = (
+  before: GoalPlan['aiInsights'],
+  after: GoalPlan['aiInsights']
+): PlanFieldChange<PlanInsightField>[] => {
+  const changes: PlanFieldChange<PlanInsightField>[] = [];
+  for (const field of INSIGHT_FIELDS) {
+    const a = insightValue(before?.[field]);
+    const b = insightValue(after?.[field]);
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+};
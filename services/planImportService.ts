@@ -0,0 +1,606 @@
+/**
+ * ACTION PLAN IMPORT
+ *
+ * Turns plans kept in notes apps and project tools into draft plan tasks:
+ * - markdown: headings become milestones, bullets become tasks and nested
+ *   bullets become subtasks; "- [x]" marks a task done
+ * - csv: a header row with at least a title column; an optional milestone
+ *   (or section/phase) column groups tasks
+ * - todoist: Todoist's CSV export (sections, indented tasks, priorities
+ *   and recurring dates such as "every month")
+ * - trello: Trello's JSON board export (lists, cards and checklists)
+ *
+ * Milestones are regular tasks with their tasks attached as subtasks, so
+ * the Goals timeline finishes a milestone when its tasks are done. Due
+ * dates are read where present; anything undated gets a default the user
+ * can change in the review step.
+ */
+
+import type { ActionTask, PlanImportFormat, PlanImportIssue, PlanImportResult } from '../types';
+import { parseCsv } from '../supabase/functions/_shared/habit-import';
+import { normalizeRecurrence } from '../supabase/functions/_shared/task-recurrence';
+
+export const MAX_IMPORT_TASKS = 500;
+export const DEFAULT_IMPORT_DUE_DAYS = 30;
+
+/**
+ * Guess the format from the file name and contents
+ */
+export const detectPlanImportFormat = (fileName: string, text: string): PlanImportFormat => {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  const firstLine = content.split(/\r?\n/)[0] || '';
+
+  if (content.startsWith('{')) return 'trello';
+  if (/^"?TYPE"?,"?CONTENT"?/i.test(firstLine)) return 'todoist';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  if (/\.(md|markdown|txt)$/i.test(fileName)) return 'markdown';
+  return firstLine.includes(',') && !/^\s*(#|[-*+]\s)/.test(firstLine) ? 'csv' : 'markdown';
+};
+
+/**
+ * Parse an export into tasks for a draft plan. `today` (YYYY-MM-DD) fills
+ * in years for dates like "March 1" and the default due date.
+ */
+export const parsePlanImport = (text: string, format: PlanImportFormat, today: string): PlanImportResult => {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdownPlan(text, today);
+    case 'csv':
+      return parseCsvPlan(text, today);
+    case 'todoist':
+      return parseTodoistExport(text, today);
+    case 'trello':
+      return parseTrelloExport(text, today);
+  }
+};
+
+/**
+ * Markdown outline: headings are milestones (a single top-level heading
+ * above deeper ones is the plan title), bullets are tasks
+ */
+export const parseMarkdownPlan = (text: string, today: string): PlanImportResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const items: ImportedItem[] = [];
+  const issues: PlanImportIssue[] = [];
+
+  const headings = lines
+    .map(line => line.match(/^(#{1,6})\s+/)?.[1].length)
+    .filter((level): level is number => level !== undefined);
+  const topLevel = Math.min(...headings);
+  const titleLevel = headings.filter(l => l === topLevel).length === 1 && headings.some(l => l > topLevel)
+    ? topLevel
+    : null;
+
+  let title: string | undefined;
+  const headingStack: { level: number; id: string }[] = [];
+  let bulletStack: { indent: number; id: string }[] = [];
+  let last: ImportedItem | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (!line.trim() || /^\s*(---+|\*\*\*+|<!--.*-->)\s*$/.test(line)) return;
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      if (level === titleLevel && title === undefined) {
+        title = heading[2].trim();
+        return;
+      }
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) headingStack.pop();
+      const { text: headingText, dueDate } = extractDueDate(heading[2], today);
+      last = addItem(items, {
+        title: headingText,
+        dueDate,
+        isMilestone: true,
+        parentId: headingStack[headingStack.length - 1]?.id
+      });
+      headingStack.push({ level, id: last.id });
+      bulletStack = [];
+      return;
+    }
+
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/);
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '    ').length;
+      const { text: taskText, dueDate } = extractDueDate(bullet[3], today);
+      if (!taskText) {
+        issues.push({ line: lineNumber, severity: 'warning', message: 'Skipped an empty bullet.' });
+        return;
+      }
+      while (bulletStack.length > 0 && bulletStack[bulletStack.length - 1].indent >= indent) bulletStack.pop();
+      last = addItem(items, {
+        title: taskText,
+        dueDate,
+        isCompleted: bullet[2]?.toLowerCase() === 'x',
+        parentId: bulletStack[bulletStack.length - 1]?.id ?? headingStack[headingStack.length - 1]?.id
+      });
+      bulletStack.push({ indent, id: last.id });
+      return;
+    }
+
+    // Other text describes the task or milestone above it
+    if (last) {
+      last.description = [last.description, line.trim()].filter(Boolean).join('\n');
+    } else {
+      issues.push({ line: lineNumber, severity: 'warning', message: 'Text before the first heading or bullet was ignored.' });
+    }
+  });
+
+  return finishImport('markdown', items, issues, today, title);
+};
+
+/**
+ * Generic CSV with a header row. Recognized columns: title (or task,
+ * name), description, due date, type, priority, milestone, completed.
+ */
+export const parseCsvPlan = (text: string, today: string): PlanImportResult => {
+  const rows = parseCsv(text);
+  const items: ImportedItem[] = [];
+  const issues: PlanImportIssue[] = [];
+
+  if (rows.length === 0) {
+    issues.push({ line: 0, severity: 'error', message: 'The file is empty.' });
+    return finishImport('csv', items, issues, today);
+  }
+
+  const columns = getCsvColumns(rows[0]);
+  if (columns.title === undefined) {
+    issues.push({ line: 1, severity: 'error', message: 'The CSV needs a title column (title, task or name).' });
+    return finishImport('csv', items, issues, today);
+  }
+
+  const milestones = new Map<string, string>();
+  const cell = (row: string[], column?: number) => (column === undefined ? '' : (row[column] || '').trim());
+
+  rows.slice(1).forEach((row, index) => {
+    const lineNumber = index + 2;
+    const title = cell(row, columns.title);
+    if (!title) {
+      issues.push({ line: lineNumber, severity: 'warning', message: 'Skipped a row without a title.' });
+      return;
+    }
+
+    let parentId: string | undefined;
+    const milestone = cell(row, columns.milestone);
+    if (milestone) {
+      const key = milestone.toLowerCase();
+      if (!milestones.has(key)) {
+        milestones.set(key, addItem(items, { title: milestone, isMilestone: true }).id);
+      }
+      parentId = milestones.get(key);
+    }
+
+    const dueText = cell(row, columns.due);
+    const dueDate = dueText ? parseImportDate(dueText, today) : null;
+    if (dueText && !dueDate) {
+      issues.push({ line: lineNumber, severity: 'warning', message: `Could not read the due date "${dueText}".` });
+    }
+
+    const priorityText = cell(row, columns.priority);
+    const priority = priorityText ? parsePriority(priorityText) : undefined;
+    if (priorityText && !priority) {
+      issues.push({ line: lineNumber, severity: 'warning', message: `Unknown priority "${priorityText}"; using medium.` });
+    }
+
+    addItem(items, {
+      title,
+      description: cell(row, columns.description),
+      dueDate,
+      type: parseTaskType(cell(row, columns.type)),
+      priority,
+      isCompleted: /^(yes|y|true|1|x|done|completed?)$/i.test(cell(row, columns.completed)),
+      parentId
+    });
+  });
+
+  return finishImport('csv', items, issues, today);
+};
+
+/**
+ * Todoist CSV export: sections become milestones, INDENT nests tasks,
+ * notes are added to the task above
+ */
+export const parseTodoistExport = (text: string, today: string): PlanImportResult => {
+  const rows = parseCsv(text);
+  const items: ImportedItem[] = [];
+  const issues: PlanImportIssue[] = [];
+
+  const header = (rows[0] || []).map(h => h.trim().toUpperCase());
+  const col = (name: string) => header.indexOf(name);
+  const [typeCol, contentCol, descriptionCol, priorityCol, indentCol, dateCol] =
+    ['TYPE', 'CONTENT', 'DESCRIPTION', 'PRIORITY', 'INDENT', 'DATE'].map(col);
+
+  if (typeCol < 0 || contentCol < 0) {
+    issues.push({ line: 1, severity: 'error', message: 'This does not look like a Todoist export (missing TYPE and CONTENT columns).' });
+    return finishImport('todoist', items, issues, today);
+  }
+
+  let sectionId: string | undefined;
+  let taskStack: string[] = [];
+  let last: ImportedItem | null = null;
+  const cell = (row: string[], column: number) => (column < 0 ? '' : (row[column] || '').trim());
+
+  rows.slice(1).forEach((row, index) => {
+    const lineNumber = index + 2;
+    const type = cell(row, typeCol).toLowerCase();
+    const content = cell(row, contentCol);
+
+    if (type === 'section') {
+      if (!content) return;
+      sectionId = addItem(items, { title: content, isMilestone: true }).id;
+      taskStack = [];
+      last = null;
+    } else if (type === 'task') {
+      if (!content) {
+        issues.push({ line: lineNumber, severity: 'warning', message: 'Skipped a task without content.' });
+        return;
+      }
+      const depth = Math.max(1, parseInt(cell(row, indentCol), 10) || 1);
+      taskStack = taskStack.slice(0, depth - 1);
+
+      const dateText = cell(row, dateCol);
+      let dueDate: string | null = null;
+      let recurrenceRule: string | undefined;
+      if (/^every\b/i.test(dateText)) {
+        try {
+          recurrenceRule = normalizeRecurrence(dateText, today);
+          dueDate = today;
+        } catch {
+          issues.push({ line: lineNumber, severity: 'warning', message: `Could not read the recurring date "${dateText}"; imported as a one-off task.` });
+        }
+      } else if (dateText) {
+        dueDate = parseImportDate(dateText, today);
+        if (!dueDate) {
+          issues.push({ line: lineNumber, severity: 'warning', message: `Could not read the date "${dateText}".` });
+        }
+      }
+
+      last = addItem(items, {
+        title: content,
+        description: cell(row, descriptionCol),
+        dueDate,
+        priority: TODOIST_PRIORITIES[cell(row, priorityCol)],
+        recurrenceRule,
+        parentId: taskStack[taskStack.length - 1] ?? sectionId
+      });
+      taskStack.push(last.id);
+    } else if (type === 'note') {
+      if (last && content) {
+        last.description = [last.description, content].filter(Boolean).join('\n');
+      }
+    }
+  });
+
+  return finishImport('todoist', items, issues, today);
+};
+
+/**
+ * Trello JSON board export: open lists become milestones, cards become
+ * tasks and checklist items become subtasks
+ */
+export const parseTrelloExport = (text: string, today: string): PlanImportResult => {
+  const items: ImportedItem[] = [];
+  const issues: PlanImportIssue[] = [];
+
+  let board: any;
+  try {
+    board = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    issues.push({ line: 0, severity: 'error', message: 'The file is not valid JSON.' });
+    return finishImport('trello', items, issues, today);
+  }
+
+  if (!Array.isArray(board?.lists) || !Array.isArray(board?.cards)) {
+    issues.push({ line: 0, severity: 'error', message: 'This does not look like a Trello board export (missing lists and cards).' });
+    return finishImport('trello', items, issues, today);
+  }
+
+  const byPosition = (a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0);
+  const checklists: any[] = Array.isArray(board.checklists) ? board.checklists : [];
+
+  for (const list of [...board.lists].filter((l: any) => !l.closed).sort(byPosition)) {
+    const milestone = addItem(items, { title: String(list.name || 'Untitled list').trim(), isMilestone: true });
+
+    const cards = board.cards.filter((c: any) => c.idList === list.id && !c.closed).sort(byPosition);
+    for (const card of cards) {
+      const labels: string[] = (card.labels || []).map((l: any) => String(l.name || '').toLowerCase()).filter(Boolean);
+      const cardItem = addItem(items, {
+        title: String(card.name || '').trim() || 'Untitled card',
+        description: String(card.desc || '').trim(),
+        dueDate: card.due ? parseImportDate(String(card.due), today) : null,
+        isCompleted: !!card.dueComplete,
+        type: labels.map(parseTaskType).find(Boolean),
+        priority: labels.map(parsePriority).find(Boolean),
+        parentId: milestone.id
+      });
+
+      for (const checklist of checklists.filter(c => c.idCard === card.id).sort(byPosition)) {
+        for (const checkItem of [...(checklist.checkItems || [])].sort(byPosition)) {
+          const name = String(checkItem.name || '').trim();
+          if (!name) continue;
+          addItem(items, {
+            title: name,
+            dueDate: checkItem.due ? parseImportDate(String(checkItem.due), today) : null,
+            isCompleted: checkItem.state === 'complete',
+            parentId: cardItem.id
+          });
+        }
+      }
+    }
+  }
+
+  return finishImport('trello', items, issues, today, board.name ? String(board.name) : undefined);
+};
+
+/**
+ * Read a date written as YYYY-MM-DD (optionally with a time), M/D/YYYY,
+ * "March 1, 2026", "1 March 2026", "today" or "tomorrow". Dates without
+ * a year fall on or after today.
+ */
+export const parseImportDate = (value: string, today: string): string | null => {
+  const text = value.trim().toLowerCase().replace(/(\d)(st|nd|rd|th)\b/g, '$1');
+  if (text === 'today') return today;
+  if (text === 'tomorrow') return addDays(today, 1);
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toDateKey(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return toDateKey(+match[3], +match[1], +match[2]);
+
+  match = text.match(/^([a-z]+)\.? (\d{1,2}),?(?: (\d{4}))?$/);
+  if (match && getMonth(match[1])) return withYear(match[3], getMonth(match[1])!, +match[2], today);
+
+  match = text.match(/^(\d{1,2}) ([a-z]+)\.?,?(?: (\d{4}))?$/);
+  if (match && getMonth(match[2])) return withYear(match[3], getMonth(match[2])!, +match[1], today);
+
+  return null;
+};
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+interface ImportedItem {
+  id: string;
+  title: string;
+  description: string;
+  dueDate: string | null;
+  type?: ActionTask['type'];
+  priority?: ActionTask['priority'];
+  isCompleted: boolean;
+  isMilestone: boolean;
+  parentId?: string;
+  recurrenceRule?: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Todoist exports p1 (most urgent) as 1; p4 is its default
+const TODOIST_PRIORITIES: Record<string, ActionTask['priority']> = { '1': 'high', '2': 'high', '3': 'medium', '4': 'medium' };
+
+const FINANCE_PATTERN = /\$|\b(save|saving|savings|invest\w*|budget\w*|debt|loans?|mortgage|retire\w*|401k|ira|tax\w*|portfolio|income|salary|expenses?|fund|money|credit|bank\w*|insurance|net worth)\b/i;
+const LIFESTYLE_PATTERN = /\b(travel\w*|trips?|move|moving|relocat\w*|house|home|health\w*|fitness|exercise|gym|diet|family|vacation|hobby|learn\w*|garden\w*|wedding|kids|friends|doctor|physical)\b/i;
+
+const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  title: ['title', 'task', 'name', 'content', 'item'],
+  description: ['description', 'notes', 'details'],
+  due: ['due', 'due date', 'due_date', 'deadline', 'date', 'target date'],
+  type: ['type', 'category'],
+  priority: ['priority'],
+  milestone: ['milestone', 'section', 'phase', 'goal', 'list'],
+  completed: ['completed', 'done', 'status', 'is_completed']
+};
+
+const addItem = (items: ImportedItem[], item: Partial<ImportedItem> & { title: string }): ImportedItem => {
+  const added: ImportedItem = {
+    id: crypto.randomUUID(),
+    description: '',
+    dueDate: null,
+    isCompleted: false,
+    isMilestone: false,
+    ...item
+  };
+  items.push(added);
+  return added;
+};
+
+/**
+ * Resolve types and due dates, then turn items into draft tasks:
+ * - type: from the source, else keywords, else the milestone's tasks,
+ *   else the parent, else Admin
+ * - due date: from the source, else the latest of its subtasks, else
+ *   the parent's, else today plus DEFAULT_IMPORT_DUE_DAYS
+ */
+const finishImport = (
+  format: PlanImportFormat,
+  allItems: ImportedItem[],
+  issues: PlanImportIssue[],
+  today: string,
+  title?: string
+): PlanImportResult => {
+  let items = allItems;
+  if (items.length > MAX_IMPORT_TASKS) {
+    issues.push({ line: 0, severity: 'warning', message: `Only the first ${MAX_IMPORT_TASKS} items were imported.` });
+    items = items.slice(0, MAX_IMPORT_TASKS);
+  }
+  if (items.length === 0 && !issues.some(i => i.severity === 'error')) {
+    issues.push({ line: 0, severity: 'error', message: 'No tasks found to import.' });
+  }
+
+  const byId = new Map(items.map(item => [item.id, item]));
+  const children = new Map<string, ImportedItem[]>();
+  for (const item of items) {
+    if (!item.parentId || !byId.has(item.parentId)) continue;
+    if (!children.has(item.parentId)) children.set(item.parentId, []);
+    children.get(item.parentId)!.push(item);
+  }
+  const parentOf = (item: ImportedItem) => (item.parentId ? byId.get(item.parentId) : undefined);
+
+  const ownTypes = new Map(items.map(item => [item.id, item.type || inferTaskType(`${item.title} ${item.description}`)]));
+  const resolvedTypes = new Map<string, ActionTask['type']>();
+  const resolveType = (item: ImportedItem): ActionTask['type'] => {
+    if (resolvedTypes.has(item.id)) return resolvedTypes.get(item.id)!;
+    let type = ownTypes.get(item.id);
+    if (!type && item.isMilestone) {
+      type = mostCommon((children.get(item.id) || []).map(child => ownTypes.get(child.id)).filter(Boolean) as ActionTask['type'][]);
+    }
+    const parent = parentOf(item);
+    const resolved = type || (parent ? resolveType(parent) : 'ADMIN');
+    resolvedTypes.set(item.id, resolved);
+    return resolved;
+  };
+
+  const latestDue = new Map<string, string | null>();
+  const getLatestDue = (item: ImportedItem): string | null => {
+    if (latestDue.has(item.id)) return latestDue.get(item.id)!;
+    let due = item.dueDate;
+    if (!due) {
+      for (const child of children.get(item.id) || []) {
+        const childDue = getLatestDue(child);
+        if (childDue && (!due || childDue > due)) due = childDue;
+      }
+    }
+    latestDue.set(item.id, due);
+    return due;
+  };
+
+  const defaultDue = addDays(today, DEFAULT_IMPORT_DUE_DAYS);
+  let defaulted = 0;
+  const getDueDate = (item: ImportedItem): string => {
+    for (let current: ImportedItem | undefined = item; current; current = parentOf(current)) {
+      const due = getLatestDue(current);
+      if (due) return due;
+    }
+    defaulted++;
+    return defaultDue;
+  };
+
+  const tasks: ActionTask[] = items.map((item, index) => {
+    const dueDate = getDueDate(item);
+    return {
+      id: item.id,
+      title: item.title,
+      description: item.description,
+      dueDate,
+      type: resolveType(item),
+      isCompleted: item.isCompleted,
+      milestoneYear: Number(dueDate.slice(0, 4)),
+      priority: item.priority || 'medium',
+      displayOrder: index,
+      source: 'import',
+      parentTaskId: item.parentId && byId.has(item.parentId) ? item.parentId : undefined,
+      dependsOn: [],
+      recurrenceRule: item.recurrenceRule
+    };
+  });
+
+  if (defaulted > 0) {
+    issues.push({
+      line: 0,
+      severity: 'warning',
+      message: `${defaulted} item${defaulted === 1 ? ' has' : 's have'} no due date and will be due ${defaultDue}. You can change this in the review step.`
+    });
+  }
+
+  return {
+    format,
+    title,
+    tasks,
+    milestoneCount: items.filter(item => item.isMilestone).length,
+    issues
+  };
+};
+
+/**
+ * Pull a due date out of a line of text, e.g. "Open IRA (due 2026-03-01)",
+ * "Book flights by March 1" or "Renew passport 📅 2026-05-10"
+ */
+const extractDueDate = (value: string, today: string): { text: string; dueDate: string | null } => {
+  const patterns = [
+    /\(?\s*(?:📅|@|\bdue:?|\bby)\s*(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Za-z]{3,9}\.? \d{1,2}(?:st|nd|rd|th)?(?:,? \d{4})?)\s*\)?/gi,
+    /\(?\b(\d{4}-\d{2}-\d{2})\b\)?/g
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of value.matchAll(pattern)) {
+      const dueDate = parseImportDate(match[1], today);
+      if (dueDate) {
+        const text = value
+          .replace(match[0], ' ')
+          .replace(/\s{2,}/g, ' ')
+          .trim()
+          .replace(/[\s,:;–—-]+$/, '');
+        return { text, dueDate };
+      }
+    }
+  }
+  return { text: value.trim(), dueDate: null };
+};
+
+const getCsvColumns = (header: string[]): Partial<Record<keyof typeof CSV_COLUMN_ALIASES, number>> => {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const columns: Partial<Record<string, number>> = {};
+  for (const [column, aliases] of Object.entries(CSV_COLUMN_ALIASES)) {
+    const index = normalized.findIndex(h => aliases.includes(h));
+    if (index >= 0) columns[column] = index;
+  }
+  return columns;
+};
+
+const parseTaskType = (value: string): ActionTask['type'] | undefined => {
+  const text = value.trim().toLowerCase();
+  if (/^(finance|financial|money)$/.test(text)) return 'FINANCE';
+  if (/^(lifestyle|life|personal)$/.test(text)) return 'LIFESTYLE';
+  if (/^(admin|administrative|paperwork)$/.test(text)) return 'ADMIN';
+  return undefined;
+};
+
+const parsePriority = (value: string): ActionTask['priority'] | undefined => {
+  const text = value.trim().toLowerCase();
+  if (/^(high|urgent|p1|1|!!!)$/.test(text)) return 'high';
+  if (/^(medium|normal|p2|2|!!)$/.test(text)) return 'medium';
+  if (/^(low|p3|3|!)$/.test(text)) return 'low';
+  return undefined;
+};
+
+const inferTaskType = (text: string): ActionTask['type'] | undefined => {
+  if (FINANCE_PATTERN.test(text)) return 'FINANCE';
+  if (LIFESTYLE_PATTERN.test(text)) return 'LIFESTYLE';
+  return undefined;
+};
+
+const mostCommon = <T extends string>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best: T | undefined;
+  counts.forEach((count, value) => {
+    if (best === undefined || count > counts.get(best)!) best = value;
+  });
+  return best;
+};
+
+const getMonth = (name: string): number | undefined => {
+  const index = MONTHS.indexOf(name.slice(0, 3));
+  return index >= 0 && (name.length === 3 || name.startsWith(MONTHS[index])) ? index + 1 : undefined;
+};
+
+const withYear = (year: string | undefined, month: number, day: number, today: string): string | null => {
+  if (year) return toDateKey(+year, month, day);
+  const thisYear = Number(today.slice(0, 4));
+  const date = toDateKey(thisYear, month, day);
+  return date && date < today ? toDateKey(thisYear + 1, month, day) : date;
+};
+
+const toDateKey = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
@@ -1,6 +1,8 @@
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { PosterOrder, ShippingAddress, PrintConfig } from '../types';
+import { PRINT_BLOCKED_MESSAGE, assertPrintable } from './moderationService';
 
 /**
  * Service to handle Print-on-Demand logic.
@@ -101,6 +103,9 @@ export const createPosterOrder = async (
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error("User must be logged in to order.");
 
+    // Flagged images can't be printed until an admin clears them
+    await assertPrintable([visionBoardId]);
+
     // 1. Save Order to Database with 'pending' status initially
     const { data, error } = await supabase
       .from('poster_orders')
@@ -161,6 +166,13 @@ export const createPosterOrder = async (
           { body: prodigiPayload }
         );
 
+        const isBlocked = prodigiResponse?.blocked ||
+            (functionError instanceof FunctionsHttpError && functionError.context.status === 403);
+        if (isBlocked) {
+            // Moderation gate on the server; the order stays pending and is never sent
+            throw new Error(PRINT_BLOCKED_MESSAGE);
+        }
+
         if (functionError) {
             console.warn("⚠️ Edge Function Failed (Backend Unreachable?). Falling back to simulation.", functionError);
             // Fallback Logic: Simulate success so user doesn't get stuck
@@ -176,6 +188,7 @@ export const createPosterOrder = async (
             console.log("✅ Order submitted to Prodigi:", vendorOrderId);
         }
     } catch (netError) {
+        if (netError instanceof Error && netError.message === PRINT_BLOCKED_MESSAGE) throw netError;
         console.warn("⚠️ Network Error invoking function. Falling back to simulation.", netError);
         vendorOrderId = `SIM-NET-${Math.floor(Math.random() * 100000)}`;
     }
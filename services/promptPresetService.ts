@@ -0,0 +1,195 @@
+/**
+ * PROMPT PRESETS
+ *
+ * Reusable prompt templates for vision generation, shared at personal,
+ * team and platform scope. Templates use {variable} placeholders that are
+ * filled from the user's profile and onboarding answers, e.g.
+ * "{name} on a sailboat in {dreamLocation} at golden hour".
+ * - Each preset can also set the artistic style, negative guidance and
+ *   aspect ratio
+ * - Who may see or edit a preset is enforced by RLS on
+ *   vision_prompt_presets; this module only reads and writes rows
+ */
+
+import { supabase } from '../lib/supabase';
+import type { OnboardingState, PromptPreset, PromptPresetInput, PromptPresetScope, UserProfile } from '../types';
+
+export const PROMPT_TEMPLATE_VARIABLES: { key: string; label: string }[] = [
+  { key: 'name', label: 'First name' },
+  { key: 'dreamLocation', label: 'Dream location' },
+  { key: 'retirementYear', label: 'Target year' },
+  { key: 'financialTarget', label: 'Financial target' },
+  { key: 'visionText', label: 'Vision statement' },
+  { key: 'theme', label: 'Theme' }
+];
+
+// Artistic styles with tier locking
+export const STYLE_PRESETS = [
+  { id: 'photorealistic', name: 'Photorealistic', tier: 'FREE' },
+  { id: 'cinematic', name: 'Cinematic', tier: 'PRO' },
+  { id: 'oil_painting', name: 'Oil Painting', tier: 'PRO' },
+  { id: 'watercolor', name: 'Watercolor', tier: 'PRO' },
+  { id: 'cyberpunk', name: 'Cyberpunk', tier: 'ELITE' },
+  { id: '3d_render', name: '3D Render', tier: 'ELITE' }
+];
+
+export const PRESET_ASPECT_RATIOS = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+export const PRESET_SCOPE_LABELS: Record<PromptPresetScope, string> = {
+  personal: 'My Presets',
+  team: 'Team Presets',
+  platform: 'Featured'
+};
+
+const SCOPE_ORDER: PromptPresetScope[] = ['personal', 'team', 'platform'];
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+export interface FilledPrompt {
+  prompt: string;
+  missing: string[]; // Variables with no value; left in the prompt as {variable}
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+/**
+ * Variable values for a user. Profile values win over onboarding answers.
+ */
+export const buildPromptVariables = (
+  profile?: Partial<UserProfile> | null,
+  onboarding?: Partial<OnboardingState> | null
+): Record<string, string> => {
+  const vars: Record<string, string> = {};
+  const set = (key: string, value: string | number | undefined | null) => {
+    const text = value === undefined || value === null ? '' : String(value).trim();
+    if (text && !vars[key]) vars[key] = text;
+  };
+
+  set('name', profile?.names?.split(/[\s&,]+/)[0]);
+  set('dreamLocation', profile?.dreamLocation);
+  set('retirementYear', profile?.targetRetirementYear);
+  const target = profile?.financial_target || onboarding?.financialTarget;
+  if (target) set('financialTarget', `$${Number(target).toLocaleString('en-US')}`);
+  set('visionText', onboarding?.visionText);
+  set('theme', onboarding?.themeName);
+  return vars;
+};
+
+/**
+ * Variable names used in a template, in order of first use
+ */
+export const getTemplateVariables = (template: string): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Replace {variable} placeholders with values. Unknown or empty
+ * variables stay in the prompt so the user can see what to fill in.
+ */
+export const fillPromptTemplate = (template: string, vars: Record<string, string>): FilledPrompt => {
+  const missing: string[] = [];
+  const prompt = template.replace(VARIABLE_PATTERN, (placeholder, key: string) => {
+    if (vars[key]) return vars[key];
+    if (!missing.includes(key)) missing.push(key);
+    return placeholder;
+  });
+  return { prompt, missing };
+};
+
+/**
+ * Final generation prompt with the preset's negative guidance appended
+ */
+export const withNegativePrompt = (prompt: string, negativePrompt?: string): string => {
+  const avoid = negativePrompt?.trim();
+  return avoid ? `${prompt.trim()}\nAvoid: ${avoid}` : prompt;
+};
+
+/**
+ * Personal presets first, then team, then platform; each by sort order and name
+ */
+export const sortPresets = (presets: PromptPreset[]): PromptPreset[] =>
+  [...presets].sort((a, b) =>
+    SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope) ||
+    a.sortOrder - b.sortOrder ||
+    a.name.localeCompare(b.name)
+  );
+
+// ============================================
+// STORAGE
+// ============================================
+
+const mapPresetRow = (row: any): PromptPreset => ({
+  id: row.id,
+  scope: row.scope,
+  teamId: row.team_id || undefined,
+  name: row.name,
+  description: row.description || undefined,
+  template: row.template,
+  style: row.style || undefined,
+  negativePrompt: row.negative_prompt || undefined,
+  aspectRatio: row.aspect_ratio || undefined,
+  sortOrder: row.sort_order ?? 0,
+  isActive: row.is_active
+});
+
+/**
+ * Presets visible to the current user. Inactive presets are only
+ * returned for the admin panel.
+ */
+export const getPromptPresets = async (options: { includeInactive?: boolean; scope?: PromptPresetScope; teamId?: string } = {}): Promise<PromptPreset[]> => {
+  let query = supabase.from('vision_prompt_presets').select('*');
+  if (!options.includeInactive) query = query.eq('is_active', true);
+  if (options.scope) query = query.eq('scope', options.scope);
+  if (options.teamId) query = query.eq('team_id', options.teamId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading prompt presets:', error);
+    return [];
+  }
+  return sortPresets((data || []).map(mapPresetRow));
+};
+
+/**
+ * Create a preset, or update it when an id is given
+ */
+export const savePromptPreset = async (input: PromptPresetInput, id?: string): Promise<PromptPreset> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Must be authenticated to save presets');
+
+  const row = {
+    scope: input.scope,
+    owner_id: input.scope === 'personal' ? user.id : null,
+    team_id: input.scope === 'team' ? input.teamId : null,
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    template: input.template.trim(),
+    style: input.style || null,
+    negative_prompt: input.negativePrompt?.trim() || null,
+    aspect_ratio: input.aspectRatio || null,
+    sort_order: input.sortOrder ?? 0,
+    is_active: input.isActive ?? true
+  };
+
+  const request = id
+    ? supabase.from('vision_prompt_presets').update(row).eq('id', id)
+    : supabase.from('vision_prompt_presets').insert({ ...row, created_by: user.id });
+
+  const { data, error } = await request.select().single();
+  if (error) {
+    // RLS rejects writes to scopes the user can't manage
+    if (error.code === '42501') throw new Error("You don't have permission to manage presets in this scope");
+    throw error;
+  }
+  return mapPresetRow(data);
+};
+
+export const deletePromptPreset = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('vision_prompt_presets').delete().eq('id', id);
+  if (error) throw error;
+};
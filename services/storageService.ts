@@ -1,6 +1,19 @@
 
 import { supabase } from '../lib/supabase';
-import { VisionImage, ReferenceImage, Document, ActionTask, UserProfile, ShippingAddress, Habit, HabitCompletion, HabitFrequency, WorkbookTemplate, WorkbookOrder, GoalPlan, GoalPlanStatus, GoalPlanSource } from '../types';
+import { VisionImage, ReferenceImage, Document, ActionTask, UserProfile, ShippingAddress, Habit, HabitCompletion, HabitFrequency, HabitImportFormat, HabitImportResult, HabitExportFile, HabitAnalytics, HabitRoutine, RoutineStats, WorkbookTemplate, WorkbookOrder, GoalPlan, GoalPlanStatus, GoalPlanSource, PlanComparison, PlanEditor, CalendarFeedStatus, CalendarExportFile, VisionAlbum, VisionGalleryQuery, ImageVariants } from '../types';
+import {
+  attachStreakProtection,
+  calculateCurrentStreak,
+  getBackfillError,
+  getBackfillWindow
+} from '../supabase/functions/_shared/habit-schedule';
+import { diffPlans } from './planDiffService';
+import { PlanEditConflictError } from './planConflictService';
+import { advanceRecurringTask, normalizeRecurrence } from '../supabase/functions/_shared/task-recurrence';
+import { getTaskGraphError, sanitizeTaskLinks } from './taskGraphService';
+import { buildPrefixSearchQuery, mergeTags, normalizeTags } from './visionLibraryService';
+import { assertPrintable, scanImage } from './moderationService';
+import { compressImage, getImageVariantPaths, uploadImageVariants } from './imageService';
 
 /**
  * Service to handle persistence of Vision Board and Reference data using Supabase.
@@ -45,7 +58,7 @@ export const getUserProfile = async (): Promise<UserProfile | null> => {
 
     const { data, error } = await supabase
       .from('profiles')
-      .select('credits, subscription_tier')
+      .select('credits, subscription_tier, names, financial_target')
       .eq('id', user.id)
       .single();
 
@@ -53,11 +66,12 @@ export const getUserProfile = async (): Promise<UserProfile | null> => {
 
     // Merge auth data with profile data
     return {
-      names: user.email?.split('@')[0] || 'User',
+      names: data.names || user.email?.split('@')[0] || 'User',
       targetRetirementYear: 2030, // Default
       dreamLocation: '',
       credits: data.credits ?? 3,
-      subscription_tier: data.subscription_tier || 'FREE'
+      subscription_tier: data.subscription_tier || 'FREE',
+      financial_target: data.financial_target || undefined
     };
   } catch (e) {
     return null;
@@ -170,8 +184,6 @@ export const getLastShippingAddress = async (): Promise<ShippingAddress | null>
  * Extended VisionImage interface for saving with likeness metadata
  */
 export interface VisionImageWithMetadata extends VisionImage {
-  modelUsed?: string;
-  referenceImageIds?: string[];
   likenessOptimized?: boolean;
   likenessMetadata?: {
     likeness_score?: number;
@@ -189,23 +201,8 @@ export const saveVisionImage = async (image: VisionImageWithMetadata): Promise<v
       throw new Error('Must be authenticated to save vision images');
     }
 
-    const blob = base64ToBlob(image.url);
-    const fileName = `${image.id}.png`;
-
-    const { error: uploadError } = await supabase
-      .storage
-      .from('visions')
-      .upload(fileName, blob, {
-        contentType: 'image/png',
-        upsert: true
-      });
-
-    if (uploadError) throw uploadError;
-
-    const { data: { publicUrl } } = supabase
-      .storage
-      .from('visions')
-      .getPublicUrl(fileName);
+    // Full-resolution print copy plus thumbnail and medium variants
+    const { url: publicUrl, variants } = await uploadImageVariants(image.id, base64ToBlob(image.url));
 
     const { error: dbError } = await supabase
       .from('vision_boards')
@@ -217,23 +214,35 @@ export const saveVisionImage = async (image: VisionImageWithMetadata): Promise<v
           image_url: publicUrl,
           created_at: new Date(image.createdAt).toISOString(),
           is_favorite: image.isFavorite || false,
+          tags: normalizeTags(image.tags || []),
+          album_id: image.albumId || null,
+          // Lineage (the root is assigned by a trigger from the parent)
+          parent_image_id: image.parentImageId || null,
+          style: image.style || null,
           // New likeness tracking columns
           model_used: image.modelUsed || null,
           reference_image_ids: image.referenceImageIds || null,
           likeness_optimized: image.likenessOptimized || false,
-          likeness_metadata: image.likenessMetadata || {}
+          likeness_metadata: image.likenessMetadata || {},
+          image_variants: variants
         }
       ]);
 
     if (dbError) throw dbError;
 
+    await scanImage('vision', image.id);
+
   } catch (error) {
     console.error("Failed to save vision image", error);
     throw error;
   }
 };
 
-export const getVisionGallery = async (): Promise<VisionImage[]> => {
+/**
+ * The user's visions, newest first. Filters and paging run on the server;
+ * without a query every vision is returned.
+ */
+export const getVisionGallery = async (query: VisionGalleryQuery = {}): Promise<VisionImage[]> => {
   try {
     // Get current user - CRITICAL: Must filter by user_id for security
     const { data: { user } } = await supabase.auth.getUser();
@@ -242,26 +251,107 @@ export const getVisionGallery = async (): Promise<VisionImage[]> => {
       return [];
     }
 
+    let request = supabase
+      .from('vision_boards')
+      .select('*')
+      .eq('user_id', user.id);  // SECURITY: Explicit user filtering (defense-in-depth with RLS)
+
+    const search = query.search ? buildPrefixSearchQuery(query.search) : null;
+    if (search) request = request.textSearch('search_vector', search, { config: 'english' });
+    if (query.tags?.length) request = request.contains('tags', query.tags);
+    if (query.albumId === null) request = request.is('album_id', null);
+    else if (query.albumId) request = request.eq('album_id', query.albumId);
+    if (query.favoritesOnly) request = request.eq('is_favorite', true);
+
+    request = request.order('created_at', { ascending: false });
+    if (query.pageSize) {
+      const from = (query.page || 0) * query.pageSize;
+      request = request.range(from, from + query.pageSize - 1);
+    }
+
+    const { data, error } = await request;
+
+    if (error || !data) return [];
+
+    return data.map(mapVisionRow);
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * All versions of one vision (everything sharing its lineage root), oldest first
+ */
+export const getVisionLineage = async (lineageRootId: string): Promise<VisionImage[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
     const { data, error } = await supabase
       .from('vision_boards')
       .select('*')
-      .eq('user_id', user.id)  // SECURITY: Explicit user filtering (defense-in-depth with RLS)
-      .order('created_at', { ascending: false });
+      .eq('user_id', user.id)
+      .eq('lineage_root_id', lineageRootId)
+      .order('created_at', { ascending: true });
 
     if (error || !data) return [];
 
-    return data.map((row: any) => ({
-      id: row.id,
-      url: row.image_url,
-      prompt: row.prompt,
-      createdAt: new Date(row.created_at).getTime(),
-      isFavorite: row.is_favorite
-    }));
+    return data.map(mapVisionRow);
   } catch (error) {
     return [];
   }
 };
 
+/**
+ * Encode and store the thumbnail, medium and print variants of a vision the
+ * background worker saved (it can't resize images itself), then point the
+ * row at them. The gallery falls back to the original until this is done,
+ * so a failure only warns.
+ */
+export const addVisionImageVariants = async (
+  imageId: string,
+  imageUrl: string
+): Promise<{ url: string; variants: ImageVariants } | null> => {
+  try {
+    const { url, variants } = await uploadImageVariants(imageId, imageUrl);
+
+    const { error } = await supabase
+      .from('vision_boards')
+      .update({ image_url: url, image_variants: variants })
+      .eq('id', imageId);
+    if (error) throw error;
+
+    // The worker's copy is replaced by the print variant unless it was already a PNG
+    const original = imageUrl.split('?')[0].split('/').pop();
+    if (original && !getImageVariantPaths(imageId).includes(original)) {
+      await supabase.storage.from('visions').remove([original]);
+    }
+
+    return { url, variants };
+  } catch (error) {
+    console.warn('Failed to create image variants', error);
+    return null;
+  }
+};
+
+const mapVisionRow = (row: any): VisionImage => ({
+  id: row.id,
+  url: row.image_url,
+  prompt: row.prompt,
+  createdAt: new Date(row.created_at).getTime(),
+  isFavorite: row.is_favorite,
+  parentImageId: row.parent_image_id || undefined,
+  lineageRootId: row.lineage_root_id || row.id,
+  style: row.style || undefined,
+  modelUsed: row.model_used || undefined,
+  referenceImageIds: row.reference_image_ids || undefined,
+  likenessScore: row.likeness_metadata?.likeness_score ?? undefined,
+  tags: row.tags || [],
+  albumId: row.album_id || undefined,
+  moderationStatus: row.moderation_status || undefined,
+  variants: row.image_variants && Object.keys(row.image_variants).length ? row.image_variants : undefined
+});
+
 export const deleteVisionImage = async (id: string): Promise<void> => {
   try {
     // SECURITY: Verify user owns this image before deleting (defense-in-depth with RLS)
@@ -271,13 +361,137 @@ export const deleteVisionImage = async (id: string): Promise<void> => {
     }
 
     // Only delete if user owns this vision board
-    await supabase.storage.from('visions').remove([`${id}.png`]);
+    await supabase.storage.from('visions').remove(getImageVariantPaths(id));
     await supabase.from('vision_boards').delete().eq('id', id).eq('user_id', user.id);
   } catch (error) {
     console.error("Failed to delete image", error);
   }
 };
 
+/**
+ * Delete several visions and their image files
+ */
+export const deleteVisionImages = async (ids: string[]): Promise<void> => {
+  if (!ids.length) return;
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Must be authenticated to delete images');
+  }
+
+  const { error } = await supabase.from('vision_boards').delete().in('id', ids).eq('user_id', user.id);
+  if (error) throw error;
+  await supabase.storage.from('visions').remove(ids.map(id => `${id}.png`));
+};
+
+export const setVisionFavorite = async (ids: string[], isFavorite: boolean): Promise<void> => {
+  if (!ids.length) return;
+  const { error } = await supabase.from('vision_boards').update({ is_favorite: isFavorite }).in('id', ids);
+  if (error) throw error;
+};
+
+/**
+ * Replace one vision's tags
+ */
+export const updateVisionTags = async (id: string, tags: string[]): Promise<string[]> => {
+  const clean = normalizeTags(tags);
+  const { error } = await supabase.from('vision_boards').update({ tags: clean }).eq('id', id);
+  if (error) throw error;
+  return clean;
+};
+
+/**
+ * Add tags to several visions, keeping the tags each already has
+ */
+export const addVisionTags = async (images: VisionImage[], tags: string | string[]): Promise<VisionImage[]> => {
+  return Promise.all(images.map(async image => {
+    const merged = mergeTags(image.tags, tags);
+    if (merged.length === (image.tags || []).length) return image;
+    const { error } = await supabase.from('vision_boards').update({ tags: merged }).eq('id', image.id);
+    if (error) throw error;
+    return { ...image, tags: merged };
+  }));
+};
+
+/**
+ * Every tag the user has used, for the filter bar and suggestions
+ */
+export const getVisionTags = async (): Promise<string[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('vision_boards')
+    .select('tags')
+    .eq('user_id', user.id);
+
+  if (error || !data) return [];
+  return normalizeTags(data.flatMap((row: any) => row.tags || [])).sort();
+};
+
+/* --- VISION ALBUMS --- */
+
+const mapAlbumRow = (row: any): VisionAlbum => ({
+  id: row.id,
+  name: row.name,
+  createdAt: new Date(row.created_at).getTime()
+});
+
+export const getVisionAlbums = async (): Promise<VisionAlbum[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('vision_albums')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(mapAlbumRow);
+};
+
+export const createVisionAlbum = async (name: string): Promise<VisionAlbum> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Must be authenticated to create albums');
+  }
+
+  const { data, error } = await supabase
+    .from('vision_albums')
+    .insert([{ user_id: user.id, name: name.trim() }])
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.code === '23505' ? 'You already have an album with that name' : error.message);
+  }
+  return mapAlbumRow(data);
+};
+
+export const renameVisionAlbum = async (id: string, name: string): Promise<void> => {
+  const { error } = await supabase.from('vision_albums').update({ name: name.trim() }).eq('id', id);
+  if (error) {
+    throw new Error(error.code === '23505' ? 'You already have an album with that name' : error.message);
+  }
+};
+
+/**
+ * Delete an album. Its visions stay in the gallery, unfiled.
+ */
+export const deleteVisionAlbum = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('vision_albums').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * File visions in an album (null takes them out of any album)
+ */
+export const moveVisionImages = async (ids: string[], albumId: string | null): Promise<void> => {
+  if (!ids.length) return;
+  const { error } = await supabase.from('vision_boards').update({ album_id: albumId }).in('id', ids);
+  if (error) throw error;
+};
+
 /* --- REFERENCE IMAGES --- */
 
 export const saveReferenceImage = async (
@@ -293,13 +507,18 @@ export const saveReferenceImage = async (
     }
 
     const id = crypto.randomUUID();
-    const blob = base64ToBlob(base64Url);
-    const fileName = `ref_${id}.png`;
+    // Downscaled and re-encoded, which also strips EXIF/GPS from camera photos.
+    // Never fall back to the original: it would keep that metadata.
+    const blob = await compressImage(base64Url).catch((error) => {
+      console.warn('Reference photo could not be processed', error);
+      throw new Error('This photo could not be processed. Please try a different image.');
+    });
+    const fileName = `ref_${id}.jpg`;
 
     const { error: uploadError } = await supabase
       .storage
       .from('visions')
-      .upload(fileName, blob, { contentType: 'image/png', upsert: true });
+      .upload(fileName, blob, { contentType: blob.type || 'image/png', upsert: true });
 
     if (uploadError) throw uploadError;
 
@@ -321,6 +540,8 @@ export const saveReferenceImage = async (
 
     if (dbError) throw dbError;
 
+    await scanImage('reference', id);
+
     return {
       id,
       url: publicUrl,
@@ -365,7 +586,7 @@ export const getReferenceLibrary = async (): Promise<ReferenceImage[]> => {
 
 export const deleteReferenceImage = async (id: string): Promise<void> => {
   try {
-    await supabase.storage.from('visions').remove([`ref_${id}.png`]);
+    await supabase.storage.from('visions').remove([`ref_${id}.jpg`, `ref_${id}.png`]);
     await supabase.from('reference_images').delete().eq('id', id);
   } catch (error) {
     console.error("Failed to delete reference", error);
@@ -497,6 +718,7 @@ export const getActionTasks = async (): Promise<ActionTask[]> => {
       .from('action_tasks')
       .select('*')
       .eq('user_id', user.id)  // SECURITY: Explicit user filtering
+      .is('skipped_at', null)
       .order('created_at', { ascending: true });
 
     if (error || !data) return [];
@@ -509,21 +731,78 @@ export const getActionTasks = async (): Promise<ActionTask[]> => {
       type: row.type,
       isCompleted: row.is_completed,
       milestoneYear: row.milestone_year,
-      aiMetadata: row.ai_metadata
+      aiMetadata: row.ai_metadata,
+      recurrenceRule: row.recurrence_rule || undefined,
+      recurrenceAnchor: row.recurrence_anchor || undefined,
+      recurrenceSeriesId: row.recurrence_series_id || undefined
     }));
   } catch (error) {
     return [];
   }
 };
 
-export const updateTaskStatus = async (id: string, isCompleted: boolean): Promise<void> => {
+/**
+ * Mark a task done or not done. Completing an occurrence of a recurring
+ * task creates the next one, which is returned.
+ */
+export const updateTaskStatus = async (id: string, isCompleted: boolean): Promise<ActionTask | null> => {
   try {
     await supabase.from('action_tasks').update({ is_completed: isCompleted }).eq('id', id);
+    return isCompleted ? await advanceTaskRecurrence(id) : null;
   } catch (error) {
     console.error("Failed to update task", error);
+    return null;
+  }
+};
+
+/**
+ * Create the next occurrence of a recurring task after the current one
+ * was completed. Occurrences that lapsed in the meantime are recorded as
+ * skipped. Returns null for one-off tasks or when the series has ended.
+ */
+export const advanceTaskRecurrence = async (id: string): Promise<ActionTask | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data: task } = await supabase
+      .from('action_tasks')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!task?.recurrence_rule) return null;
+
+    const { next } = await advanceRecurringTask(supabase, task, toLocalDateString(new Date()));
+    return next ? mapActionTaskFromDb(next) : null;
+  } catch (error) {
+    console.error("Failed to create next occurrence", error);
+    return null;
   }
 };
 
+/**
+ * Skip the current occurrence of a recurring task and return the next one
+ */
+export const skipTaskOccurrence = async (id: string): Promise<ActionTask | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  const { data: task, error } = await supabase
+    .from('action_tasks')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (error || !task) throw new Error('Task not found');
+  if (!task.recurrence_rule) throw new Error('Only recurring tasks can be skipped');
+
+  const { next } = await advanceRecurringTask(supabase, task, toLocalDateString(new Date()), { skip: true });
+  return next ? mapActionTaskFromDb(next) : null;
+};
+
 /* --- GOAL PLANS (v1.7 Draft Plan Review) --- */
 
 /**
@@ -535,6 +814,7 @@ export const createDraftPlan = async (data: {
   themeId?: string;
   source?: GoalPlanSource;
   aiInsights?: GoalPlan['aiInsights'];
+  restoredFromPlanId?: string;
 }): Promise<GoalPlan | null> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -561,6 +841,7 @@ export const createDraftPlan = async (data: {
         financial_target: data.financialTarget,
         theme_id: data.themeId,
         ai_insights: data.aiInsights || {},
+        restored_from_plan_id: data.restoredFromPlanId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       }])
@@ -643,7 +924,9 @@ export const getActivePlan = async (): Promise<GoalPlan | null> => {
 };
 
 /**
- * Save or update a task in a draft plan
+ * Save or update a task in a draft plan. Updates that carry a revision
+ * only apply if the task is still at that revision; otherwise a
+ * PlanEditConflictError with the current task is thrown.
  */
 export const saveDraftTask = async (
   planId: string,
@@ -667,6 +950,23 @@ export const saveDraftTask = async (
       return null;
     }
 
+    // Reject links that would create a dependency cycle in the plan
+    if (task.parentTaskId || task.dependsOn?.length) {
+      const { data: siblings } = await supabase
+        .from('action_tasks')
+        .select('*')
+        .eq('plan_id', planId);
+      const planTasks = (siblings || []).map(mapActionTaskFromDb).filter(t => t.id !== task.id);
+      const graphError = getTaskGraphError([
+        ...planTasks,
+        { ...task, id: task.id || 'new-task', title: task.title || 'New task', dueDate: task.dueDate || '', isCompleted: !!task.isCompleted }
+      ]);
+      if (graphError) {
+        console.error(graphError);
+        return null;
+      }
+    }
+
     const taskData = {
       plan_id: planId,
       user_id: user.id,
@@ -679,11 +979,40 @@ export const saveDraftTask = async (
       display_order: task.displayOrder || 0,
       source: task.source || 'manual',
       ai_metadata: task.aiMetadata || {},
+      parent_task_id: task.parentTaskId || null,
+      depends_on: task.dependsOn || [],
+      duration_days: task.durationDays ?? null,
+      ...getRecurrenceColumns(task),
+      modified_by: 'user',
       updated_at: new Date().toISOString()
     };
 
     let result;
-    if (task.id) {
+    if (task.id && task.revision !== undefined) {
+      // Update only if nobody else has written the task since it was read
+      const { data, error } = await supabase
+        .from('action_tasks')
+        .update(taskData)
+        .eq('id', task.id)
+        .eq('plan_id', planId)
+        .eq('revision', task.revision)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        const { data: current } = await supabase
+          .from('action_tasks')
+          .select('*')
+          .eq('id', task.id)
+          .eq('plan_id', planId)
+          .maybeSingle();
+        throw new PlanEditConflictError(
+          current ? 'This goal was changed elsewhere' : 'This goal was deleted elsewhere',
+          current ? mapActionTaskFromDb(current) : null
+        );
+      }
+      result = data;
+    } else if (task.id) {
       // Update existing task
       const { data, error } = await supabase
         .from('action_tasks')
@@ -711,6 +1040,7 @@ export const saveDraftTask = async (
 
     return mapActionTaskFromDb(result);
   } catch (error) {
+    if (error instanceof PlanEditConflictError) throw error;
     console.error("Failed to save draft task", error);
     return null;
   }
@@ -741,7 +1071,23 @@ export const deleteDraftTask = async (planId: string, taskId: string): Promise<b
       .eq('id', taskId)
       .eq('plan_id', planId);
 
-    return !error;
+    if (error) return false;
+
+    // Unblock tasks that were waiting on the deleted one
+    const { data: dependents } = await supabase
+      .from('action_tasks')
+      .select('id, depends_on')
+      .eq('plan_id', planId)
+      .contains('depends_on', [taskId]);
+
+    for (const dependent of dependents || []) {
+      await supabase
+        .from('action_tasks')
+        .update({ depends_on: (dependent.depends_on || []).filter((id: string) => id !== taskId) })
+        .eq('id', dependent.id);
+    }
+
+    return true;
   } catch (error) {
     console.error("Failed to delete draft task", error);
     return false;
@@ -794,7 +1140,152 @@ export const getPlanHistory = async (): Promise<GoalPlan[]> => {
 };
 
 /**
- * Update a draft plan's metadata
+ * Get a single plan version with its tasks. Archived plans use the task
+ * snapshot taken at approval, since later revisions take over their task rows.
+ */
+export const getPlanVersion = async (planId: string): Promise<GoalPlan | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data: plan, error } = await supabase
+      .from('goal_plans')
+      .select('*')
+      .eq('id', planId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) throw error;
+
+    if (plan.status === 'archived' && Array.isArray(plan.task_snapshot)) {
+      return mapGoalPlanFromDb(plan, plan.task_snapshot);
+    }
+
+    const { data: tasks } = await supabase
+      .from('action_tasks')
+      .select('*')
+      .eq('plan_id', plan.id)
+      .order('display_order', { ascending: true });
+
+    return mapGoalPlanFromDb(plan, tasks || []);
+  } catch (error) {
+    console.error("Failed to get plan version", error);
+    return null;
+  }
+};
+
+/**
+ * Compare two plan versions (older first) for the side-by-side view
+ */
+export const comparePlanVersions = async (
+  basePlanId: string,
+  comparePlanId: string
+): Promise<PlanComparison | null> => {
+  const [base, compare] = await Promise.all([
+    getPlanVersion(basePlanId),
+    getPlanVersion(comparePlanId)
+  ]);
+  if (!base || !compare) return null;
+
+  return { base, compare, diff: diffPlans(base, compare) };
+};
+
+/**
+ * Restore an archived plan version as a new draft. The active plan stays
+ * live until the draft is approved, like any other revision.
+ */
+export const restorePlanVersion = async (planId: string): Promise<GoalPlan> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const existingDraft = await getDraftPlan();
+  if (existingDraft) {
+    throw new Error('Approve your current draft before restoring another version.');
+  }
+
+  const source = await getPlanVersion(planId);
+  if (!source) throw new Error('Plan version not found');
+  if (source.status !== 'archived') {
+    throw new Error('Only archived versions can be restored');
+  }
+
+  const tasks = source.tasks || [];
+
+  // Keep today's completion state for tasks that still exist
+  const { data: currentRows } = tasks.length > 0
+    ? await supabase
+        .from('action_tasks')
+        .select('id, is_completed')
+        .eq('user_id', user.id)
+        .in('id', tasks.map(t => t.id))
+    : { data: [] };
+  const completion = new Map((currentRows || []).map((row: any) => [row.id, row.is_completed]));
+
+  const draft = await createDraftPlan({
+    visionText: source.visionText,
+    financialTarget: source.financialTarget,
+    themeId: source.themeId,
+    aiInsights: source.aiInsights,
+    source: 'revision',
+    restoredFromPlanId: source.id
+  });
+  if (!draft) throw new Error('Failed to create draft from this version');
+
+  if (tasks.length > 0) {
+    const saved = await saveDraftTasks(draft.id, tasks.map((task, index) => ({
+      ...task,
+      isCompleted: completion.get(task.id) ?? task.isCompleted,
+      displayOrder: index
+    })));
+    if (saved.length === 0) throw new Error('Failed to copy tasks into the restored draft');
+  }
+
+  return (await getDraftPlan()) || draft;
+};
+
+/**
+ * Put imported tasks into the user's draft plan for review and approval.
+ * Adds to the current goals (draft, else active plan) unless `replace`
+ * is set. A new draft keeps the active plan's vision and insights.
+ */
+export const importTasksToDraftPlan = async (
+  tasks: ActionTask[],
+  options: { replace?: boolean; visionText?: string } = {}
+): Promise<GoalPlan> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  if (tasks.length === 0) throw new Error('There are no tasks to import');
+
+  let draft = await getDraftPlan();
+  let existingTasks = draft?.tasks || [];
+
+  if (!draft) {
+    const active = await getActivePlan();
+    existingTasks = active?.tasks || [];
+    draft = await createDraftPlan({
+      visionText: active?.visionText || options.visionText,
+      financialTarget: active?.financialTarget,
+      themeId: active?.themeId,
+      aiInsights: active?.aiInsights,
+      source: 'import'
+    });
+    if (!draft) throw new Error('Failed to create a draft plan for the import');
+  }
+
+  const planTasks = options.replace ? tasks : [...existingTasks, ...tasks];
+  const saved = await saveDraftTasks(draft.id, planTasks.map((task, index) => ({
+    ...task,
+    displayOrder: index
+  })));
+  if (saved.length === 0) throw new Error('Failed to save the imported tasks');
+
+  return (await getDraftPlan()) || draft;
+};
+
+/**
+ * Update a draft plan's metadata. With `expectedRevision` the update only
+ * applies if the plan is still at that revision; otherwise a
+ * PlanEditConflictError with the current plan is thrown.
  */
 export const updateDraftPlan = async (
   planId: string,
@@ -803,38 +1294,59 @@ export const updateDraftPlan = async (
     financialTarget?: number;
     themeId?: string;
     aiInsights?: GoalPlan['aiInsights'];
-  }
+  },
+  expectedRevision?: number
 ): Promise<boolean> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return false;
 
-    const { error } = await supabase
+    let query = supabase
       .from('goal_plans')
       .update({
         vision_text: updates.visionText,
         financial_target: updates.financialTarget,
         theme_id: updates.themeId,
         ai_insights: updates.aiInsights,
+        modified_by: 'user',
         updated_at: new Date().toISOString()
       })
       .eq('id', planId)
       .eq('user_id', user.id)
       .eq('status', 'draft');
 
-    return !error;
+    if (expectedRevision !== undefined) {
+      query = query.eq('revision', expectedRevision);
+    }
+
+    const { data, error } = await query.select('id');
+    if (error) return false;
+
+    if (expectedRevision !== undefined && (data || []).length === 0) {
+      const current = await getPlanVersion(planId);
+      throw new PlanEditConflictError<GoalPlan>(
+        current ? 'This plan was changed elsewhere' : 'This plan is no longer a draft',
+        current
+      );
+    }
+
+    return true;
   } catch (error) {
+    if (error instanceof PlanEditConflictError) throw error;
     console.error("Failed to update draft plan", error);
     return false;
   }
 };
 
 /**
- * Bulk save tasks to a draft plan (for initial generation or regeneration)
+ * Bulk save tasks to a draft plan (for initial generation or regeneration).
+ * This replaces the plan's tasks wholesale, so it is not version-checked;
+ * open sessions see the new revisions and merge their pending edits.
  */
 export const saveDraftTasks = async (
   planId: string,
-  tasks: Omit<ActionTask, 'planId'>[]
+  tasks: Omit<ActionTask, 'planId'>[],
+  modifiedBy: PlanEditor = 'user'
 ): Promise<ActionTask[]> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -851,9 +1363,14 @@ export const saveDraftTasks = async (
 
     if (!plan) return [];
 
+    // Links only make sense within this plan, and must not loop
+    const linkedTasks = sanitizeTaskLinks(tasks.map(task => ({ ...task, id: task.id || crypto.randomUUID() })));
+    const graphError = getTaskGraphError(linkedTasks);
+    if (graphError) throw new Error(graphError);
+
     // Build task rows with proper UUIDs
-    const taskRows = tasks.map((task, index) => ({
-      id: task.id || crypto.randomUUID(),
+    const taskRows = linkedTasks.map((task, index) => ({
+      id: task.id,
       plan_id: planId,
       user_id: user.id,
       title: task.title,
@@ -865,6 +1382,11 @@ export const saveDraftTasks = async (
       display_order: task.displayOrder ?? index,
       source: task.source || 'onboarding',
       ai_metadata: task.aiMetadata || {},
+      parent_task_id: task.parentTaskId || null,
+      depends_on: task.dependsOn || [],
+      duration_days: task.durationDays ?? null,
+      ...getRecurrenceColumns(task),
+      modified_by: modifiedBy,
       updated_at: new Date().toISOString()
     }));
 
@@ -896,6 +1418,50 @@ export const saveDraftTasks = async (
   }
 };
 
+/**
+ * Subscribe to changes other sessions and agents make to a plan and its
+ * tasks. Delete events only carry the task id, so they are not filtered
+ * by plan. Returns an unsubscribe function.
+ */
+export const subscribeToPlanChanges = (
+  planId: string,
+  handlers: {
+    onTaskSaved: (task: ActionTask) => void;
+    onTaskDeleted: (taskId: string) => void;
+    onPlanUpdated: (plan: GoalPlan) => void;
+  }
+) => {
+  const subscription = supabase
+    .channel(`goal-plan-${planId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'action_tasks', filter: `plan_id=eq.${planId}` },
+      (payload) => handlers.onTaskSaved(mapActionTaskFromDb(payload.new))
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'action_tasks', filter: `plan_id=eq.${planId}` },
+      (payload) => handlers.onTaskSaved(mapActionTaskFromDb(payload.new))
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'action_tasks' },
+      (payload) => {
+        if (payload.old?.id) handlers.onTaskDeleted(payload.old.id);
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'goal_plans', filter: `id=eq.${planId}` },
+      (payload) => handlers.onPlanUpdated(mapGoalPlanFromDb(payload.new))
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(subscription);
+  };
+};
+
 // Helper function to map database row to GoalPlan
 const mapGoalPlanFromDb = (row: any, tasks?: any[]): GoalPlan => ({
   id: row.id,
@@ -911,6 +1477,9 @@ const mapGoalPlanFromDb = (row: any, tasks?: any[]): GoalPlan => ({
   updatedAt: row.updated_at,
   approvedAt: row.approved_at,
   archivedAt: row.archived_at,
+  restoredFromPlanId: row.restored_from_plan_id || undefined,
+  revision: row.revision ?? undefined,
+  modifiedBy: row.modified_by || undefined,
   tasks: tasks ? tasks.map(mapActionTaskFromDb) : undefined
 });
 
@@ -928,9 +1497,31 @@ const mapActionTaskFromDb = (row: any): ActionTask => ({
   planVersion: row.plan_version,
   displayOrder: row.display_order,
   priority: row.priority,
-  source: row.source
+  source: row.source,
+  parentTaskId: row.parent_task_id || undefined,
+  dependsOn: row.depends_on || [],
+  durationDays: row.duration_days ?? undefined,
+  recurrenceRule: row.recurrence_rule || undefined,
+  recurrenceAnchor: row.recurrence_anchor || undefined,
+  recurrenceSeriesId: row.recurrence_series_id || undefined,
+  skippedAt: row.skipped_at || undefined,
+  revision: row.revision ?? undefined,
+  modifiedBy: row.modified_by || undefined
 });
 
+// Recurrence columns for a task row. Rules entered as phrases
+// ("quarterly") are normalized and pinned to the first due date.
+const getRecurrenceColumns = (task: Partial<ActionTask>) => {
+  if (!task.recurrenceRule || !task.dueDate) {
+    return { recurrence_rule: null, recurrence_anchor: null };
+  }
+  const anchor = task.recurrenceAnchor || task.dueDate.split('T')[0];
+  return {
+    recurrence_rule: normalizeRecurrence(task.recurrenceRule, anchor),
+    recurrence_anchor: anchor
+  };
+};
+
 /* --- HABIT TRACKING --- */
 
 export const getHabits = async (): Promise<Habit[]> => {
@@ -955,6 +1546,12 @@ export const getHabits = async (): Promise<Habit[]> => {
       description: row.description,
       frequency: row.frequency as HabitFrequency,
       custom_days: row.custom_days || [],
+      weekly_target: row.weekly_target,
+      unit: row.unit || undefined,
+      target_value: row.target_value != null ? Number(row.target_value) : undefined,
+      target_period: row.target_period || 'day',
+      grace_days: row.grace_days ?? 0,
+      paused_until: row.paused_until || undefined,
       reminder_time: row.reminder_time,
       is_active: row.is_active,
       created_at: row.created_at,
@@ -981,6 +1578,10 @@ export const createHabit = async (habit: Omit<Habit, 'id' | 'user_id' | 'created
         description: habit.description,
         frequency: habit.frequency,
         custom_days: habit.custom_days,
+        weekly_target: habit.weekly_target,
+        unit: habit.unit,
+        target_value: habit.target_value,
+        target_period: habit.target_period,
         reminder_time: habit.reminder_time,
         is_active: habit.is_active ?? true,
         created_at: new Date().toISOString()
@@ -998,6 +1599,10 @@ export const createHabit = async (habit: Omit<Habit, 'id' | 'user_id' | 'created
       description: data.description,
       frequency: data.frequency,
       custom_days: data.custom_days || [],
+      weekly_target: data.weekly_target,
+      unit: data.unit || undefined,
+      target_value: data.target_value != null ? Number(data.target_value) : undefined,
+      target_period: data.target_period || 'day',
       reminder_time: data.reminder_time,
       is_active: data.is_active,
       created_at: data.created_at,
@@ -1019,6 +1624,10 @@ export const updateHabit = async (id: string, updates: Partial<Habit>): Promise<
         description: updates.description,
         frequency: updates.frequency,
         custom_days: updates.custom_days,
+        weekly_target: updates.weekly_target,
+        unit: updates.unit,
+        target_value: updates.target_value,
+        target_period: updates.target_period,
         reminder_time: updates.reminder_time,
         is_active: updates.is_active
       })
@@ -1046,19 +1655,53 @@ export const deleteHabit = async (id: string): Promise<boolean> => {
   }
 };
 
-export const completeHabit = async (habitId: string, notes?: string, moodRating?: number): Promise<HabitCompletion | null> => {
+/**
+ * Record a habit completion. For measurable habits, `value` is added to
+ * the day's total (defaulting to the full target when omitted).
+ * Pass `completedForDate` (YYYY-MM-DD) to backfill a past day within the
+ * user's backfill window.
+ */
+export const completeHabit = async (
+  habitId: string,
+  notes?: string,
+  moodRating?: number,
+  value?: number,
+  completedForDate?: string
+): Promise<HabitCompletion | null> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return null;
 
+    const today = toLocalDateString(new Date());
+    const completionDate = completedForDate || today;
+    const isBackfill = completionDate < today;
+
+    if (isBackfill) {
+      const windowDays = await getBackfillWindow(supabase, user.id);
+      const backfillError = getBackfillError(completionDate, today, windowDays);
+      if (backfillError) throw new Error(backfillError);
+    }
+
+    const { data: habit } = await supabase
+      .from('habits')
+      .select('target_value')
+      .eq('id', habitId)
+      .single();
+
+    if (habit?.target_value) {
+      return await addHabitProgress(habitId, Number(habit.target_value), value, completionDate, user.id, notes, moodRating);
+    }
+
     // Record the completion
     const { data, error } = await supabase
       .from('habit_completions')
       .insert([{
         habit_id: habitId,
-        completed_at: new Date().toISOString(),
+        completed_at: completionDate,
         notes: notes,
         mood_rating: moodRating,
+        is_backfilled: isBackfill,
+        logged_by: user.id,
         created_at: new Date().toISOString()
       }])
       .select()
@@ -1066,23 +1709,291 @@ export const completeHabit = async (habitId: string, notes?: string, moodRating?
 
     if (error) throw error;
 
-    // Update streak via edge function or compute locally
+    // Recompute the streak; a backfill may bridge an earlier gap
     await updateHabitStreak(habitId);
 
-    return {
-      id: data.id,
-      habit_id: data.habit_id,
-      completed_at: data.completed_at,
-      notes: data.notes,
-      mood_rating: data.mood_rating,
-      created_at: data.created_at
-    };
+    return mapHabitCompletion(data);
   } catch (error) {
     console.error("Failed to complete habit", error);
     return null;
   }
 };
 
+/**
+ * Add an amount to a day's entry for a measurable habit, summing with
+ * anything already logged that day
+ */
+const addHabitProgress = async (
+  habitId: string,
+  targetValue: number,
+  value: number | undefined,
+  completionDate: string,
+  userId: string,
+  notes?: string,
+  moodRating?: number
+): Promise<HabitCompletion | null> => {
+  const amount = value ?? targetValue;
+  if (!(amount > 0)) throw new Error('Value must be a positive number');
+
+  const isBackfill = completionDate < toLocalDateString(new Date());
+
+  // Summed in the database so concurrent entries for the day don't overwrite each other
+  const { data, error } = await supabase.rpc('add_habit_progress', {
+    p_habit_id: habitId,
+    p_completed_at: completionDate,
+    p_amount: amount,
+    p_notes: notes ?? null,
+    p_mood_rating: moodRating ?? null,
+    p_is_backfilled: isBackfill,
+    p_logged_by: userId
+  });
+
+  if (error) throw error;
+
+  await updateHabitStreak(habitId);
+
+  return mapHabitCompletion(data);
+};
+
+const mapHabitCompletion = (row: any): HabitCompletion => ({
+  id: row.id,
+  habit_id: row.habit_id,
+  completed_at: row.completed_at,
+  value: row.value != null ? Number(row.value) : undefined,
+  notes: row.notes,
+  mood_rating: row.mood_rating,
+  is_backfilled: row.is_backfilled ?? false,
+  created_at: row.created_at
+});
+
+/**
+ * Get how many days back the current user may log habit completions
+ */
+export const getHabitBackfillWindow = async (): Promise<number> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return 0;
+  return getBackfillWindow(supabase, user.id);
+};
+
+/**
+ * Get heatmap, time-of-day, weekday and mood analytics for a habit
+ */
+export const getHabitAnalytics = async (
+  habitId: string,
+  days: number = 365
+): Promise<{ analytics: HabitAnalytics; insights: string[] } | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke(
+      `habit-service?action=analytics&habitId=${habitId}&days=${days}`,
+      { method: 'GET' }
+    );
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to load analytics');
+    return { analytics: data.analytics, insights: data.insights || [] };
+  } catch (error) {
+    console.error("Failed to fetch habit analytics", error);
+    return null;
+  }
+};
+
+/**
+ * Import habits and history from a CSV file or a Loop Habit Tracker export.
+ * With dryRun the server only validates and reports what would change.
+ */
+export const importHabits = async (
+  format: HabitImportFormat,
+  files: { csv?: string; habitsCsv?: string; checkmarksCsv?: string },
+  dryRun: boolean
+): Promise<HabitImportResult> => {
+  const { data, error } = await supabase.functions.invoke('habit-service?action=import', {
+    body: { format, ...files, dryRun }
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Import failed');
+  return data;
+};
+
+/**
+ * Export the current user's habits and completions as CSV files
+ */
+export const exportHabits = async (format: HabitImportFormat): Promise<HabitExportFile[]> => {
+  const { data, error } = await supabase.functions.invoke(`habit-service?action=export&format=${format}`, {
+    method: 'GET'
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Export failed');
+  return data.files;
+};
+
+/**
+ * Get the current user's calendar subscription feed (URL is null when disabled)
+ */
+export const getCalendarFeed = async (): Promise<CalendarFeedStatus> => {
+  const { data, error } = await supabase.functions.invoke('calendar-feed?action=status', {
+    method: 'GET'
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to load calendar feed');
+  return data;
+};
+
+/**
+ * Issue a new calendar feed URL. Enables the feed, and any calendar
+ * subscribed to the previous URL stops updating.
+ */
+export const rotateCalendarFeed = async (): Promise<CalendarFeedStatus> => {
+  const { data, error } = await supabase.functions.invoke('calendar-feed?action=rotate', {
+    method: 'POST'
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to create calendar feed');
+  return data;
+};
+
+/**
+ * Turn off the calendar feed so its URL stops working
+ */
+export const disableCalendarFeed = async (): Promise<CalendarFeedStatus> => {
+  const { data, error } = await supabase.functions.invoke('calendar-feed?action=disable', {
+    method: 'POST'
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to disable calendar feed');
+  return data;
+};
+
+/**
+ * Export the current plan, reminders and check-ins as a one-off .ics file
+ */
+export const exportPlanCalendar = async (): Promise<CalendarExportFile> => {
+  const { data, error } = await supabase.functions.invoke('calendar-feed?action=export', {
+    method: 'GET'
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Calendar export failed');
+  return { filename: data.filename, content: data.content };
+};
+
+/**
+ * Get the user's routines (ordered habit stacks) with today's progress
+ */
+export const getRoutines = async (): Promise<HabitRoutine[]> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('habit-service?action=routines', {
+      method: 'GET'
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to load routines');
+    return data.routines;
+  } catch (error) {
+    console.error("Failed to fetch routines", error);
+    return [];
+  }
+};
+
+/**
+ * Create a routine from habits in the order they should be done
+ */
+export const createRoutine = async (routine: {
+  title: string;
+  anchorCue?: string;
+  windowStart?: string;
+  windowEnd?: string;
+  habitIds: string[];
+}): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('habit-service?action=create_routine', {
+    body: routine
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to create routine');
+};
+
+export const deleteRoutine = async (routineId: string): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('habit-service?action=delete_routine', {
+      body: { routineId }
+    });
+
+    if (error) throw error;
+    return !!data?.success;
+  } catch (error) {
+    console.error("Failed to delete routine", error);
+    return false;
+  }
+};
+
+/**
+ * Routine-level stats (full-completion rate, streak, per-step rates)
+ */
+export const getRoutineStats = async (days: number = 30): Promise<RoutineStats[]> => {
+  try {
+    const { data, error } = await supabase.functions.invoke(
+      `habit-service?action=routine_stats&days=${days}`,
+      { method: 'GET' }
+    );
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to load routine stats');
+    return data.stats;
+  } catch (error) {
+    console.error("Failed to fetch routine stats", error);
+    return [];
+  }
+};
+
+/**
+ * Get today's and this week's (Monday-start) logged totals per habit,
+ * for showing progress on measurable habits
+ */
+export const getHabitProgressTotals = async (): Promise<Record<string, { today: number; week: number }>> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return {};
+
+    const now = new Date();
+    const today = toLocalDateString(now);
+    const weekStart = new Date(now);
+    weekStart.setDate(now.getDate() - ((now.getDay() + 6) % 7));
+
+    const { data, error } = await supabase
+      .from('habit_completions')
+      .select('habit_id, completed_at, value, habits!inner(user_id, target_value)')
+      .eq('habits.user_id', user.id)
+      .not('habits.target_value', 'is', null)
+      .gte('completed_at', toLocalDateString(weekStart));
+
+    if (error || !data) return {};
+
+    const totals: Record<string, { today: number; week: number }> = {};
+    for (const row of data as any[]) {
+      const amount = row.value != null ? Number(row.value) : Number(row.habits?.target_value || 0);
+      const entry = totals[row.habit_id] || { today: 0, week: 0 };
+      entry.week += amount;
+      if (String(row.completed_at).startsWith(today)) entry.today += amount;
+      totals[row.habit_id] = entry;
+    }
+    return totals;
+  } catch (error) {
+    console.error("Failed to get habit progress", error);
+    return {};
+  }
+};
+
+const toLocalDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
 export const getHabitCompletions = async (habitId: string, days: number = 30): Promise<HabitCompletion[]> => {
   try {
     const startDate = new Date();
@@ -1101,8 +2012,10 @@ export const getHabitCompletions = async (habitId: string, days: number = 30): P
       id: row.id,
       habit_id: row.habit_id,
       completed_at: row.completed_at,
+      value: row.value != null ? Number(row.value) : undefined,
       notes: row.notes,
       mood_rating: row.mood_rating,
+      is_backfilled: row.is_backfilled ?? false,
       created_at: row.created_at
     }));
   } catch (error) {
@@ -1136,35 +2049,32 @@ export const getTodayCompletions = async (): Promise<string[]> => {
 
 const updateHabitStreak = async (habitId: string): Promise<void> => {
   try {
-    // Get completions in descending order
-    const { data: completions } = await supabase
-      .from('habit_completions')
-      .select('completed_at')
-      .eq('habit_id', habitId)
-      .order('completed_at', { ascending: false });
-
-    if (!completions || completions.length === 0) return;
-
-    // Calculate streak
-    let streak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    let currentDate = today;
-
-    for (const completion of completions) {
-      const completedDate = new Date(completion.completed_at);
-      completedDate.setHours(0, 0, 0, 0);
-
-      const diffDays = Math.floor((currentDate.getTime() - completedDate.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (diffDays === 0 || diffDays === 1) {
-        streak++;
-        currentDate = completedDate;
-      } else {
-        break;
-      }
-    }
+    const [{ data: habit }, { data: completions }] = await Promise.all([
+      supabase
+        .from('habits')
+        .select('id, frequency, custom_days, weekly_target, target_value, target_period, grace_days, created_at')
+        .eq('id', habitId)
+        .single(),
+      // Get completions in descending order
+      supabase
+        .from('habit_completions')
+        .select('completed_at, value')
+        .eq('habit_id', habitId)
+        .order('completed_at', { ascending: false })
+    ]);
+
+    if (!habit || !completions || completions.length === 0) return;
+
+    // Same schedule-aware engine the edge functions use, so backfilled
+    // days, pauses and freezes are honored
+    const [protectedHabit] = await attachStreakProtection(supabase, [habit]);
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const streak = calculateCurrentStreak(
+      protectedHabit,
+      completions,
+      toLocalDateString(new Date()),
+      timezone
+    );
 
     // Update habit with new streak
     await supabase
@@ -1417,6 +2327,8 @@ export const submitWorkbookToProdigi = async (orderId: string): Promise<{ succes
       throw new Error('Shipping address is required');
     }
 
+    await assertPrintable(order.vision_board_ids || []);
+
     // Prepare Prodigi payload
     const prodigiPayload = {
       orderId: orderId,
@@ -0,0 +1,290 @@
+/**
+ * ACTION PLAN TASK GRAPH
+ *
+ * Structure for long-horizon plans built from ActionTask rows:
+ * - Subtasks via parentTaskId (a parent finishes when its subtasks do)
+ * - "Blocked by" dependencies via dependsOn
+ * - Cycle detection, run before a plan is saved
+ * - Projected schedule for the Goals timeline: when an upstream task
+ *   slips, dependent tasks shift by the same amount
+ * - Critical path: the chain of tasks that decides when the plan finishes
+ */
+
+import type { ActionTask, TaskSchedule, TaskScheduleEntry } from '../types';
+
+export const DEFAULT_TASK_DURATION_DAYS = 7;
+
+type GraphTask = Pick<ActionTask, 'id' | 'title' | 'dueDate' | 'isCompleted'> &
+  Partial<Pick<ActionTask, 'parentTaskId' | 'dependsOn' | 'durationDays' | 'displayOrder'>>;
+
+/**
+ * Find one dependency cycle, returned as task ids with the first id
+ * repeated at the end. Subtask links count: a parent waits on its
+ * subtasks, so a subtask blocked by its own parent is a cycle.
+ */
+export const findDependencyCycle = (tasks: GraphTask[]): string[] | null => {
+  const prerequisites = buildPrerequisites(tasks);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    path.push(id);
+
+    for (const next of prerequisites.get(id) || []) {
+      if (state.get(next) === 'visiting') {
+        return [...path.slice(path.indexOf(next)), next];
+      }
+      if (!state.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of tasks) {
+    if (!state.has(task.id)) {
+      const cycle = visit(task.id);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+};
+
+/**
+ * Validation message for a plan about to be saved, or null if the
+ * dependency graph is sound
+ */
+export const getTaskGraphError = (tasks: GraphTask[]): string | null => {
+  const cycle = findDependencyCycle(tasks);
+  if (!cycle) return null;
+
+  const titles = new Map(tasks.map(t => [t.id, t.title]));
+  if (cycle.length === 2) {
+    return `"${titles.get(cycle[0])}" cannot depend on itself.`;
+  }
+  return `Dependency cycle: ${cycle.map(id => `"${titles.get(id)}"`).join(' → ')}. Remove one of these links.`;
+};
+
+/**
+ * Drop links to tasks that are not in the plan (e.g. deleted tasks)
+ */
+export const sanitizeTaskLinks = <T extends GraphTask>(tasks: T[]): T[] => {
+  const ids = new Set(tasks.map(t => t.id));
+  return tasks.map(task => ({
+    ...task,
+    parentTaskId: task.parentTaskId && ids.has(task.parentTaskId) && task.parentTaskId !== task.id
+      ? task.parentTaskId
+      : undefined,
+    dependsOn: [...new Set((task.dependsOn || []).filter(id => ids.has(id)))]
+  }));
+};
+
+/**
+ * Project finish dates for every task. Each task keeps its due date
+ * unless something upstream pushes it later:
+ * - a blocking task finishing later than due date minus duration
+ * - a subtask finishing after its parent's due date
+ * - the task itself being overdue and still open (it finishes today at best)
+ *
+ * Completed tasks never move and no longer hold anything up.
+ */
+export const scheduleTasks = (tasks: GraphTask[], today: string): TaskSchedule => {
+  const sanitized = sanitizeTaskLinks(tasks);
+  const cycle = findDependencyCycle(sanitized);
+  const ordered = orderForDisplay(sanitized);
+
+  if (cycle) {
+    return {
+      entries: ordered.map(({ task, depth }) => {
+        const plannedEnd = toDateKey(task.dueDate);
+        const end = plannedEnd || today;
+        return {
+          taskId: task.id,
+          depth,
+          start: addDays(end, -getDuration(task)),
+          end,
+          plannedEnd,
+          shiftDays: 0,
+          isCritical: false,
+          blockedBy: []
+        };
+      }),
+      criticalPath: [],
+      projectEnd: null,
+      cycle
+    };
+  }
+
+  const byId = new Map(sanitized.map(t => [t.id, t]));
+  const children = new Map<string, string[]>();
+  for (const task of sanitized) {
+    if (!task.parentTaskId) continue;
+    if (!children.has(task.parentTaskId)) children.set(task.parentTaskId, []);
+    children.get(task.parentTaskId)!.push(task.id);
+  }
+
+  const ends = new Map<string, string>();
+  const starts = new Map<string, string>();
+  const drivers = new Map<string, string>();
+
+  for (const id of topologicalOrder(sanitized)) {
+    const task = byId.get(id)!;
+    const duration = getDuration(task);
+    const plannedEnd = toDateKey(task.dueDate);
+    const isOpen = (upstreamId: string) => !byId.get(upstreamId)!.isCompleted;
+    const openDeps = (task.dependsOn || []).filter(isOpen);
+    const openChildren = (children.get(id) || []).filter(isOpen);
+
+    let end: string;
+    if (task.isCompleted) {
+      end = plannedEnd || today;
+    } else {
+      const candidates = [plannedEnd || addDays(today, duration), today];
+      for (const dep of openDeps) candidates.push(addDays(ends.get(dep)!, duration));
+      for (const child of openChildren) candidates.push(ends.get(child)!);
+      end = candidates.reduce(latest);
+    }
+
+    let start = addDays(end, -duration);
+    for (const child of children.get(id) || []) {
+      if (starts.get(child)! < start) start = starts.get(child)!;
+    }
+
+    // The open upstream task that finishes last drives this one
+    const upstream = [...openDeps, ...openChildren];
+    if (!task.isCompleted && upstream.length > 0) {
+      drivers.set(id, upstream.reduce((a, b) => (ends.get(b)! > ends.get(a)! ? b : a)));
+    }
+
+    ends.set(id, end);
+    starts.set(id, start);
+  }
+
+  const criticalPath = getCriticalPath(sanitized, ends, drivers);
+  const critical = new Set(criticalPath);
+
+  return {
+    entries: ordered.map(({ task, depth }): TaskScheduleEntry => {
+      const plannedEnd = toDateKey(task.dueDate);
+      const end = ends.get(task.id)!;
+      return {
+        taskId: task.id,
+        depth,
+        start: starts.get(task.id)!,
+        end,
+        plannedEnd,
+        shiftDays: plannedEnd && !task.isCompleted ? daysBetween(plannedEnd, end) : 0,
+        isCritical: critical.has(task.id),
+        blockedBy: (task.dependsOn || []).filter(dep => !byId.get(dep)!.isCompleted)
+      };
+    }),
+    criticalPath,
+    projectEnd: criticalPath.length > 0 ? ends.get(criticalPath[criticalPath.length - 1])! : null,
+    cycle: null
+  };
+};
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * For each task, the tasks that must finish before it can: its
+ * blockers and its subtasks
+ */
+const buildPrerequisites = (tasks: GraphTask[]): Map<string, string[]> => {
+  const ids = new Set(tasks.map(t => t.id));
+  const prerequisites = new Map<string, string[]>(tasks.map(t => [t.id, (t.dependsOn || []).filter(id => ids.has(id))]));
+  for (const task of tasks) {
+    if (task.parentTaskId && ids.has(task.parentTaskId)) {
+      prerequisites.get(task.parentTaskId)!.push(task.id);
+    }
+  }
+  return prerequisites;
+};
+
+/**
+ * Upstream-first order; only called on acyclic graphs
+ */
+const topologicalOrder = (tasks: GraphTask[]): string[] => {
+  const prerequisites = buildPrerequisites(tasks);
+  const visited = new Set<string>();
+  const order: string[] = [];
+
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    for (const next of prerequisites.get(id) || []) visit(next);
+    order.push(id);
+  };
+
+  tasks.forEach(t => visit(t.id));
+  return order;
+};
+
+/**
+ * Display order with each subtask listed under its parent
+ */
+const orderForDisplay = (tasks: GraphTask[]): { task: GraphTask; depth: number }[] => {
+  const sorted = tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => (a.task.displayOrder ?? a.index) - (b.task.displayOrder ?? b.index) || a.index - b.index)
+    .map(({ task }) => task);
+
+  const result: { task: GraphTask; depth: number }[] = [];
+  const seen = new Set<string>();
+  const add = (task: GraphTask, depth: number) => {
+    if (seen.has(task.id)) return;
+    seen.add(task.id);
+    result.push({ task, depth });
+    sorted.filter(t => t.parentTaskId === task.id).forEach(child => add(child, depth + 1));
+  };
+
+  sorted.filter(t => !t.parentTaskId).forEach(task => add(task, 0));
+  // Parent loops have no root; list them flat so nothing disappears
+  sorted.forEach(task => add(task, 0));
+  return result;
+};
+
+/**
+ * Walk back from the last task to finish through whichever upstream
+ * task finished last at each step
+ */
+const getCriticalPath = (
+  tasks: GraphTask[],
+  ends: Map<string, string>,
+  drivers: Map<string, string>
+): string[] => {
+  const open = tasks.filter(t => !t.isCompleted);
+  if (open.length === 0) return [];
+
+  let current: string | undefined = open.reduce((a, b) => (ends.get(b.id)! > ends.get(a.id)! ? b : a)).id;
+  const path: string[] = [];
+  while (current) {
+    path.unshift(current);
+    current = drivers.get(current);
+  }
+  return path;
+};
+
+const getDuration = (task: GraphTask): number =>
+  Math.max(1, Math.round(task.durationDays ?? DEFAULT_TASK_DURATION_DAYS));
+
+const toDateKey = (date?: string | null): string | null =>
+  date ? date.split('T')[0] : null;
+
+const latest = (a: string, b: string): string => (b > a ? b : a);
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
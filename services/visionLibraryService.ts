@@ -0,0 +1,86 @@
+/**
+ * VISION LIBRARY
+ *
+ * Helpers for organizing the gallery: tag clean-up, tag counts for the
+ * filter bar, the prefix search query sent to Postgres full-text search,
+ * and shift-click range selection for bulk actions.
+ */
+
+import type { VisionImage } from '../types';
+
+export const GALLERY_PAGE_SIZE = 48;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_TAGS_PER_IMAGE = 20;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Lowercase, trim and de-duplicate tags. Accepts comma-separated input.
+ */
+export const normalizeTags = (input: string | string[]): string[] => {
+  const raw = Array.isArray(input) ? input : input.split(',');
+  const tags: string[] = [];
+  raw.forEach(value => {
+    const tag = value.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  });
+  return tags;
+};
+
+/**
+ * Add tags to an image's existing tags, keeping order and the per-image limit
+ */
+export const mergeTags = (existing: string[] | undefined, added: string | string[]): string[] =>
+  normalizeTags([...(existing || []), ...normalizeTags(added)]).slice(0, MAX_TAGS_PER_IMAGE);
+
+export const removeTag = (existing: string[] | undefined, tag: string): string[] =>
+  (existing || []).filter(t => t !== tag);
+
+/**
+ * Tags across a set of images, most used first
+ */
+export const countTags = (images: Pick<VisionImage, 'tags'>[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  images.forEach(image => (image.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * to_tsquery text matching every word as a prefix ("beach vil" finds
+ * "beachfront villa"). Null when the input has no searchable words.
+ */
+export const buildPrefixSearchQuery = (search: string): string | null => {
+  const words = search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 8);
+  return words.length ? words.map(word => `${word}:*`).join(' & ') : null;
+};
+
+/**
+ * Toggle one image, or with shift held select everything between the
+ * last clicked image and this one (in display order)
+ */
+export const updateSelection = (
+  selected: string[],
+  orderedIds: string[],
+  id: string,
+  anchorId: string | null,
+  extendRange: boolean
+): string[] => {
+  if (extendRange && anchorId && anchorId !== id) {
+    const from = orderedIds.indexOf(anchorId);
+    const to = orderedIds.indexOf(id);
+    if (from !== -1 && to !== -1) {
+      const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      return [...selected, ...range.filter(r => !selected.includes(r))];
+    }
+  }
+  return selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id];
+};
@@ -0,0 +1,120 @@
+/**
+ * VISION IMAGE LINEAGE
+ *
+ * Every generation is saved to the gallery with the image it was refined
+ * from (parentImageId) and the first version of the vision (lineageRootId).
+ * These helpers turn a flat list of gallery images into:
+ * - A version tree per vision, for the Vision Board history panel
+ *   (step back to the parent, branch from any earlier version)
+ * - One group per vision with its latest version, for the Gallery
+ */
+
+import type { VisionImage } from '../types';
+
+export interface LineageNode {
+  image: VisionImage;
+  children: LineageNode[];
+  depth: number;
+}
+
+export interface VisionLineageGroup {
+  rootId: string;
+  latest: VisionImage;
+  // Newest first
+  versions: VisionImage[];
+}
+
+export const getLineageRootId = (image: VisionImage): string => image.lineageRootId || image.id;
+
+/**
+ * Build the version tree for a set of images. Images whose parent is not
+ * in the set (an original, or a parent that was deleted) become roots.
+ * Siblings are ordered oldest first so branches read in creation order.
+ */
+export const buildLineageTree = (images: VisionImage[]): LineageNode[] => {
+  const nodes = new Map<string, LineageNode>();
+  const sorted = [...images].sort((a, b) => a.createdAt - b.createdAt);
+  sorted.forEach(image => nodes.set(image.id, { image, children: [], depth: 0 }));
+
+  const roots: LineageNode[] = [];
+  sorted.forEach(image => {
+    const node = nodes.get(image.id)!;
+    const parent = image.parentImageId ? nodes.get(image.parentImageId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const setDepth = (node: LineageNode, depth: number) => {
+    node.depth = depth;
+    node.children.forEach(child => setDepth(child, depth + 1));
+  };
+  roots.forEach(root => setDepth(root, 0));
+
+  return roots;
+};
+
+/**
+ * Depth-first list of a version tree, for rendering as an indented list
+ */
+export const flattenLineage = (roots: LineageNode[]): LineageNode[] => {
+  const result: LineageNode[] = [];
+  const visit = (node: LineageNode) => {
+    result.push(node);
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return result;
+};
+
+/**
+ * Versions from the first one down to `imageId`. Empty if the image isn't in the set.
+ */
+export const getVersionPath = (images: VisionImage[], imageId: string): VisionImage[] => {
+  const byId = new Map(images.map(image => [image.id, image]));
+  const path: VisionImage[] = [];
+  const seen = new Set<string>();
+
+  let current = byId.get(imageId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentImageId ? byId.get(current.parentImageId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * The version `imageId` was generated from, if it is still in the set
+ */
+export const getPreviousVersion = (images: VisionImage[], imageId: string): VisionImage | null => {
+  const image = images.find(i => i.id === imageId);
+  if (!image?.parentImageId) return null;
+  return images.find(i => i.id === image.parentImageId) || null;
+};
+
+/**
+ * Group gallery images by vision, newest vision first. Each group shows
+ * its latest version on the Gallery card.
+ */
+export const groupByLineage = (images: VisionImage[]): VisionLineageGroup[] => {
+  const groups = new Map<string, VisionImage[]>();
+  images.forEach(image => {
+    const rootId = getLineageRootId(image);
+    const versions = groups.get(rootId);
+    if (versions) {
+      versions.push(image);
+    } else {
+      groups.set(rootId, [image]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([rootId, versions]) => {
+      const sorted = versions.sort((a, b) => b.createdAt - a.createdAt);
+      return { rootId, latest: sorted[0], versions: sorted };
+    })
+    .sort((a, b) => b.latest.createdAt - a.latest.createdAt);
+};
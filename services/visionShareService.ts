@@ -0,0 +1,177 @@
+/**
+ * VISION SHARE LINKS
+ *
+ * Client side of the vision-share edge function: create, list and revoke
+ * public links to a vision board, and load a shared vision on the public
+ * /share/:token route.
+ * - Links can expire, require a passcode, and show only the title and
+ *   goals the owner picked
+ * - With the watermark option, a watermarked copy is rendered here and
+ *   uploaded next to the user's other images; the link serves the copy
+ */
+
+import { supabase } from '../lib/supabase';
+import type { CreateVisionShareInput, SharedVisionResult, VisionShare } from '../types';
+
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '24 hours', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null }
+];
+
+export const SHARE_WATERMARK_TEXT = 'Visionary';
+
+const SHARE_PATH_PATTERN = /^\/share\/([A-Za-z0-9_-]{16,})\/?$/;
+
+/**
+ * Share token from a /share/:token path, or null for any other path
+ */
+export const parseShareToken = (pathname: string): string | null => {
+  const match = pathname.match(SHARE_PATH_PATTERN);
+  return match ? match[1] : null;
+};
+
+/**
+ * Create a share link for one of the user's visions
+ */
+export const createVisionShare = async (input: CreateVisionShareInput, imageUrl: string): Promise<VisionShare> => {
+  let watermarkedPath: string | undefined;
+
+  if (input.watermark) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Must be authenticated to share visions');
+
+    const blob = await renderWatermarkedImage(imageUrl);
+    watermarkedPath = `shares/${user.id}/${crypto.randomUUID()}.jpg`;
+
+    const { error: uploadError } = await supabase
+      .storage
+      .from('visions')
+      .upload(watermarkedPath, blob, { contentType: 'image/jpeg', upsert: false });
+
+    if (uploadError) throw uploadError;
+  }
+
+  const { data, error } = await supabase.functions.invoke('vision-share?action=create', {
+    method: 'POST',
+    body: {
+      vision_id: input.visionId,
+      title: input.title || null,
+      goals: input.goals || [],
+      expires_in_days: input.expiresInDays ?? null,
+      passcode: input.passcode || null,
+      watermarked_path: watermarkedPath || null
+    }
+  });
+
+  if (error || !data?.success) {
+    if (watermarkedPath) {
+      await supabase.storage.from('visions').remove([watermarkedPath]);
+    }
+    if (error) throw error;
+    throw new Error(data?.error || 'Failed to create share link');
+  }
+
+  return data.share;
+};
+
+/**
+ * The user's share links (active, expired and revoked), newest first
+ */
+export const getVisionShares = async (): Promise<VisionShare[]> => {
+  const { data, error } = await supabase.functions.invoke('vision-share?action=list', {
+    method: 'GET'
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to load share links');
+  return data.shares;
+};
+
+/**
+ * Stop a share link from working. Anyone who opens it sees that it is no longer available.
+ */
+export const revokeVisionShare = async (shareId: string): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('vision-share?action=revoke', {
+    method: 'POST',
+    body: { share_id: shareId }
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to revoke share link');
+};
+
+/**
+ * Load a shared vision for the public page. Works signed out.
+ */
+export const getSharedVision = async (token: string, passcode?: string): Promise<SharedVisionResult> => {
+  const { data, error } = await supabase.functions.invoke('vision-share?action=view', {
+    method: 'POST',
+    body: { token, passcode: passcode || undefined }
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Vision image with a tiled diagonal watermark and a corner label, as a JPEG
+ */
+export const renderWatermarkedImage = async (imageUrl: string, text: string = SHARE_WATERMARK_TEXT): Promise<Blob> => {
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Gallery images live in Supabase storage; without CORS the canvas can't be exported
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load the vision image'));
+    image.src = imageUrl;
+  });
+
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  ctx.drawImage(img, 0, 0, width, height);
+
+  // Faint tiled text across the whole image, so it can't simply be cropped out
+  const fontSize = Math.max(16, Math.round(Math.min(width, height) / 14));
+  ctx.save();
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.18)';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(-Math.PI / 6);
+  const diagonal = Math.hypot(width, height);
+  const stepX = fontSize * text.length * 0.9;
+  const stepY = fontSize * 3;
+  for (let y = -diagonal / 2; y <= diagonal / 2; y += stepY) {
+    for (let x = -diagonal / 2; x <= diagonal / 2; x += stepX) {
+      ctx.fillText(text, x, y);
+    }
+  }
+  ctx.restore();
+
+  // Solid label in the corner
+  const labelSize = Math.max(12, Math.round(fontSize / 2));
+  ctx.font = `bold ${labelSize}px sans-serif`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  ctx.fillText(`Shared with ${text}`, width - labelSize + 1, height - labelSize / 2 + 1);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.fillText(`Shared with ${text}`, width - labelSize, height - labelSize / 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to render the watermarked image'))),
+      'image/jpeg',
+      0.9
+    );
+  });
+};
@@ -13,6 +13,11 @@
  * - 10mm safety margin on all sides
  */
 
+import { PAGE_COUNT_LIMITS } from '../../supabase/functions/_shared/print-page-count';
+
+// Shared with generate-workbook-pdf
+export { isValidPageCount } from '../../supabase/functions/_shared/print-page-count';
+
 export const PRODIGI_SPECS = {
   // Resolution - 300 DPI mandatory for print quality
   DPI: 300,
@@ -42,10 +47,10 @@ export const PRODIGI_SPECS = {
   BINDING_GUTTER_LOSS_MM: 6,
 
   // Page count limits by binding type
-  SOFTCOVER_MIN_PAGES: 20,
-  SOFTCOVER_MAX_PAGES: 300,
-  HARDCOVER_MIN_PAGES: 24,
-  HARDCOVER_MAX_PAGES: 300,
+  SOFTCOVER_MIN_PAGES: PAGE_COUNT_LIMITS.softcover.min,
+  SOFTCOVER_MAX_PAGES: PAGE_COUNT_LIMITS.softcover.max,
+  HARDCOVER_MIN_PAGES: PAGE_COUNT_LIMITS.hardcover.min,
+  HARDCOVER_MAX_PAGES: PAGE_COUNT_LIMITS.hardcover.max,
 
   // PDF Export Settings
   PDF_PROFILE: 'PDF/X-4' as const,
@@ -197,32 +202,3 @@ export function mmToPixels(mm: number, dpi: number = PRODIGI_SPECS.DPI): number
 export function pixelsToMm(pixels: number, dpi: number = PRODIGI_SPECS.DPI): number {
   return (pixels / dpi) * 25.4;
 }
-
-/**
- * Check if page count meets Prodigi requirements
- */
-export function isValidPageCount(
-  pageCount: number,
-  bindingType: 'softcover' | 'hardcover'
-): { valid: boolean; reason?: string } {
-  const min = bindingType === 'softcover'
-    ? PRODIGI_SPECS.SOFTCOVER_MIN_PAGES
-    : PRODIGI_SPECS.HARDCOVER_MIN_PAGES;
-  const max = bindingType === 'softcover'
-    ? PRODIGI_SPECS.SOFTCOVER_MAX_PAGES
-    : PRODIGI_SPECS.HARDCOVER_MAX_PAGES;
-
-  if (pageCount % 2 !== 0) {
-    return { valid: false, reason: 'Page count must be even' };
-  }
-
-  if (pageCount < min) {
-    return { valid: false, reason: `Minimum ${min} pages required for ${bindingType}` };
-  }
-
-  if (pageCount > max) {
-    return { valid: false, reason: `Maximum ${max} pages allowed for ${bindingType}` };
-  }
-
-  return { valid: true };
-}
@@ -1,5 +1,6 @@
 import { WorkbookPage, WorkbookPageType, WorkbookTrimSize, WorkbookEdition, PageLayoutMeta } from '../../types/workbookTypes';
 import { generateWorkbookPage } from '../geminiService';
+import { PRODIGI_SPECS, TRIM_SIZES } from './printSpecifications';
 
 interface GenerateContext {
     type: WorkbookPageType;
@@ -33,31 +34,19 @@ export async function generatePage(context: GenerateContext): Promise<WorkbookPa
     };
 }
 
+/**
+ * Layout metadata for a trim size, from the Prodigi print specs so
+ * regenerated pages keep the same safe area as the rest of the workbook
+ */
 function fillLayoutMeta(trimSize: WorkbookTrimSize): PageLayoutMeta {
-    const dpi = 300;
-    let widthPx = 2100; // 7x9 default
-    let heightPx = 2700;
-
-    if (trimSize === 'LETTER_8_5x11') {
-        widthPx = 2550;
-        heightPx = 3300;
-    } else if (trimSize === 'A4_8_27x11_69') {
-        widthPx = 2480;
-        heightPx = 3508;
-    } else if (trimSize === 'A5_5_83x8_27') {
-        widthPx = 1748;
-        heightPx = 2480;
-    } else if (trimSize === 'TRADE_6x9') {
-        widthPx = 1800;
-        heightPx = 2700;
-    }
+    const size = TRIM_SIZES[trimSize as keyof typeof TRIM_SIZES] || TRIM_SIZES.TRADE_6x9;
 
     return {
         trimSize,
-        widthPx,
-        heightPx,
-        bleedPx: 37.5, // 0.125 inch
-        safeMarginPx: 150, // 0.5 inch
-        dpi
+        widthPx: size.widthPx,
+        heightPx: size.heightPx,
+        bleedPx: PRODIGI_SPECS.BLEED_PX,
+        safeMarginPx: PRODIGI_SPECS.SAFETY_MARGIN_PX,
+        dpi: PRODIGI_SPECS.DPI
     };
 }
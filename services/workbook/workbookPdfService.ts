@@ -1,12 +1,54 @@
-import { WorkbookPage } from '../../types/workbookTypes';
+import { WorkbookPage, ThemePack } from '../../types/workbookTypes';
+import { SUPABASE_URL } from '../../lib/supabase';
+import { createJob, waitForJob, PdfExportJobPayload, PdfExportJobResult } from '../jobService';
+import { loadWorkbookFonts, renderWorkbookPdf } from '../../supabase/functions/_shared/workbook-pdf';
 
-export async function renderWorkbookToPdf(pages: WorkbookPage[]): Promise<Blob> {
-    // Synthesizes all pages into print-ready PDF
+/**
+ * WORKBOOK PDF
+ *
+ * Renders WorkbookPage[] with the same renderer the print pipeline uses
+ * (supabase/functions/_shared/workbook-pdf.ts), so an at-home download is
+ * the document Prodigi prints.
+ */
+
+const fetchBytes = async (url: string): Promise<Uint8Array> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+};
+
+export async function renderWorkbookToPdf(
+    pages: WorkbookPage[],
+    options: { theme?: ThemePack } = {}
+): Promise<Blob> {
     console.log(`Rendering PDF for ${pages.length} pages...`);
 
-    // In a real implementation, this would use @react-pdf/renderer or jsPDF
-    // to render the JSON layout to a PDF blob.
+    // pdf-lib is large; only load it when someone exports
+    const [pdfLib, { default: fontkit }] = await Promise.all([
+        import('pdf-lib'),
+        import('@pdf-lib/fontkit')
+    ]);
+
+    const fonts = await loadWorkbookFonts(SUPABASE_URL, fetchBytes);
+    const bytes = await renderWorkbookPdf(pdfLib, pages, {
+        theme: options.theme,
+        fonts,
+        fontkit,
+        fetchBytes
+    });
+
+    return new Blob([bytes], { type: 'application/pdf' });
+}
+
+/**
+ * Render an order's stored pages to its print file in the background and
+ * return the download URL
+ */
+export async function exportOrderPdf(orderId: string): Promise<PdfExportJobResult> {
+    const payload: PdfExportJobPayload = { orderId };
+    const job = await createJob('pdf_export', payload);
+    if (!job) throw new Error('Could not queue the PDF export. Please try again.');
 
-    // For now, return a mock PDF blob
-    return new Blob(['%PDF-1.4... Mock PDF Content ...'], { type: 'application/pdf' });
+    const finished = await waitForJob(job.id);
+    return finished.result as PdfExportJobResult;
 }
@@ -17,8 +17,9 @@
  *
  * 3. PDF GENERATION (edge function):
  *    a) Edge function reads stored WorkbookPage[] from order
- *    b) pdfGenerator.ts renders WorkbookPage[] to PDF using pdf-lib
- *    c) Same WorkbookPage[] structure → consistent preview/PDF output
+ *    b) _shared/workbook-pdf.ts renders WorkbookPage[] to PDF using pdf-lib
+ *    c) Preview, at-home download and print all draw _shared/workbook-layout.ts
+ *       scenes → the same WorkbookPage[] gives the same document
  *
  * 4. KEY INTERFACES:
  *    - BuildOptions: User selections passed to page builder
@@ -32,8 +33,9 @@
 
 import { WorkbookPage, WorkbookEdition, WorkbookTrimSize, WorkbookPageType, ImageBlock, TextBlock, ThemePack, AIGeneratedContent, BindingType } from '../../types/workbookTypes';
 import { generatePage } from './workbookLayoutService';
-import { VisionImage, Habit } from '../../types';
-import { PRODIGI_SPECS, TRIM_SIZES } from './printSpecifications';
+import { VisionImage, Habit, WorkbookBinding } from '../../types';
+import { PRODIGI_SPECS, TRIM_SIZES, isValidPageCount } from './printSpecifications';
+import { PlannerOptions, PlannerPage, buildPlannerPages } from '../../supabase/functions/_shared/planner-calendar';
 import { supabase } from '../../lib/supabase';
 
 export interface BuildOptions {
@@ -53,6 +55,9 @@ export interface BuildOptions {
     themePack?: ThemePack;
     userName?: string;
     aiContent?: AIGeneratedContent;
+    // Dated 12-month planner in place of the sample month and week
+    planner?: PlannerOptions;
+    binding?: WorkbookBinding;
 }
 
 // Cover theme identifiers
@@ -118,33 +123,45 @@ export async function buildInitialWorkbookPages(options: BuildOptions): Promise<
     goalPage.pageNumber = pageNumber++;
     pages.push(goalPage);
 
-    // 6. MONTHLY PLANNER (sample month)
-    const monthlyPage = await generatePage({
-        type: 'MONTHLY_PLANNER',
-        edition: options.edition,
-        trimSize: options.trimSize,
-        goals: options.goals,
-        habits: options.habits.map(h => h.id)
-    });
-    monthlyPage.pageNumber = pageNumber++;
-    pages.push(monthlyPage);
+    // 6-8. PLANNER - dated months and weeks, or a sample month and week
+    if (options.planner) {
+        // Start on a left-hand page so the planner's spreads face each other
+        if (pageNumber % 2 === 1) {
+            pages.push(buildNotesPage(options, pageNumber++));
+        }
 
-    // 7. HABIT TRACKER - Uses actual habit data
-    if (options.habits.length > 0) {
-        const habitPage = buildHabitTrackerPage(options.habits, options, pageNumber++);
-        pages.push(habitPage);
-    }
+        for (const plannerPage of buildDatedPlanner(options, pages.length + TRAILING_PAGES)) {
+            pages.push(toWorkbookPage(plannerPage, options, pageNumber++));
+        }
+    } else {
+        // 6. MONTHLY PLANNER (sample month)
+        const monthlyPage = await generatePage({
+            type: 'MONTHLY_PLANNER',
+            edition: options.edition,
+            trimSize: options.trimSize,
+            goals: options.goals,
+            habits: options.habits.map(h => h.id)
+        });
+        monthlyPage.pageNumber = pageNumber++;
+        pages.push(monthlyPage);
 
-    // 8. WEEKLY PLANNER
-    const weeklyPage = await generatePage({
-        type: 'WEEKLY_PLANNER',
-        edition: options.edition,
-        trimSize: options.trimSize,
-        goals: options.goals,
-        habits: options.habits.map(h => h.id)
-    });
-    weeklyPage.pageNumber = pageNumber++;
-    pages.push(weeklyPage);
+        // 7. HABIT TRACKER - Uses actual habit data
+        if (options.habits.length > 0) {
+            const habitPage = buildHabitTrackerPage(options.habits, options, pageNumber++);
+            pages.push(habitPage);
+        }
+
+        // 8. WEEKLY PLANNER
+        const weeklyPage = await generatePage({
+            type: 'WEEKLY_PLANNER',
+            edition: options.edition,
+            trimSize: options.trimSize,
+            goals: options.goals,
+            habits: options.habits.map(h => h.id)
+        });
+        weeklyPage.pageNumber = pageNumber++;
+        pages.push(weeklyPage);
+    }
 
     // 9. REFLECTION PAGE
     const reflectionPage = await generatePage({
@@ -168,10 +185,78 @@ export async function buildInitialWorkbookPages(options: BuildOptions): Promise<
     notesPage.pageNumber = pageNumber++;
     pages.push(notesPage);
 
+    // Pad with notes pages to a page count Prodigi accepts for the binding
+    const binding = options.binding || 'softcover';
+    while (!isValidPageCount(pages.length, binding).valid && pages.length < maxPages(binding)) {
+        pages.push(buildNotesPage(options, pageNumber++));
+    }
+
+    // Padding only adds pages, so a book that is already too long can't be fixed here
+    const pageCount = isValidPageCount(pages.length, binding);
+    if (!pageCount.valid) {
+        throw new Error(`Workbook can't be printed: ${pageCount.reason}`);
+    }
+
     console.log(`[WorkbookService] Built ${pages.length} pages with ${options.visionBoardImages.length} vision boards`);
     return pages;
 }
 
+// Pages after the planner (reflection and notes)
+const TRAILING_PAGES = 2;
+
+const maxPages = (binding: WorkbookBinding) =>
+    binding === 'hardcover' ? PRODIGI_SPECS.HARDCOVER_MAX_PAGES : PRODIGI_SPECS.SOFTCOVER_MAX_PAGES;
+
+/**
+ * Planner pages with the user's habits and dated tasks as milestones.
+ * Weekly spreads are left out if they'd take the workbook over the
+ * binding's page limit.
+ */
+function buildDatedPlanner(options: BuildOptions, otherPages: number): PlannerPage[] {
+    const content = {
+        habits: options.habits.map(h => ({ id: h.id, name: h.title, description: h.description })),
+        milestones: (options.actionTasks || [])
+            .filter(t => t.due_date)
+            .map(t => ({ date: t.due_date!, label: t.title }))
+    };
+
+    const planner = buildPlannerPages(options.planner!, content);
+    if (otherPages + planner.length <= maxPages(options.binding || 'softcover')) {
+        return planner;
+    }
+
+    console.warn('[WorkbookService] Planner too long for the binding, leaving out weekly spreads');
+    return buildPlannerPages({ ...options.planner!, weeklySpreads: false }, content);
+}
+
+function toWorkbookPage(plannerPage: PlannerPage, options: BuildOptions, pageNumber: number): WorkbookPage {
+    return {
+        ...plannerPage,
+        id: crypto.randomUUID(),
+        edition: options.edition,
+        pageNumber,
+        layout: fillLayoutMeta(options.trimSize),
+        textBlocks: [],
+        imageBlocks: [],
+        aiContext: plannerPage.habitTracker ? { habitIds: options.habits.map(h => h.id) } : undefined,
+        isVisible: true
+    };
+}
+
+function buildNotesPage(options: BuildOptions, pageNumber: number): WorkbookPage {
+    return {
+        id: crypto.randomUUID(),
+        edition: options.edition,
+        type: 'NOTES_LINED',
+        pageNumber,
+        layout: fillLayoutMeta(options.trimSize),
+        title: 'Notes',
+        textBlocks: [],
+        imageBlocks: [],
+        isVisible: true
+    };
+}
+
 /**
  * Build a cover page with the selected theme
  */
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  arrangeGrid,
+  clampLayer,
+  coverCrop,
+  createCollage,
+  createHeadlineLayer,
+  getCollageSizes,
+  getExportSize,
+  reorderLayer,
+  snapLayer
+} from '../../services/collageService';
+import type { CollageLayer } from '../../types';
+
+/**
+ * Vision Board Collage Tests
+ *
+ * Covers poster sizing, grid arrangement, layer order, snapping and the
+ * crop math used when the collage is rendered for print.
+ */
+
+const images = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: `img-${i}`, url: `https://example.com/${i}.png` }));
+
+const layer = (id: string, x: number, y: number, width = 0.2, height = 0.2): CollageLayer => ({
+  id,
+  kind: 'image',
+  x,
+  y,
+  width,
+  height,
+  rotation: 0
+});
+
+describe('Vision Board Collage', () => {
+  describe('Sizing', () => {
+    it('should offer the poster sizes that can be printed', () => {
+      expect(getCollageSizes().map(s => s.size)).toEqual(['12x18', '18x24', '24x36']);
+    });
+
+    it('should export at 150 DPI and swap sides for landscape', () => {
+      expect(getExportSize({ size: '12x18', orientation: 'portrait' })).toEqual({ width: 1800, height: 2700 });
+      expect(getExportSize({ size: '12x18', orientation: 'landscape' })).toEqual({ width: 2700, height: 1800 });
+    });
+
+    it('should scale large posters down to a canvas browsers can allocate', () => {
+      const { width, height } = getExportSize({ size: '24x36', orientation: 'portrait' });
+      expect(width * height).toBeLessThanOrEqual(16_000_000);
+      expect(width / height).toBeCloseTo(24 / 36, 3);
+    });
+  });
+
+  describe('Grid layout', () => {
+    it('should fill the canvas with near-square cells inside the gutters', () => {
+      const doc = createCollage(images(4), '18x24');
+      const cells = doc.layers;
+
+      // 18x24 with four images: two columns, two rows
+      expect(new Set(cells.map(c => c.x.toFixed(4))).size).toBe(2);
+      expect(new Set(cells.map(c => c.y.toFixed(4))).size).toBe(2);
+      for (const cell of cells) {
+        expect(cell.x).toBeGreaterThan(0);
+        expect(cell.x + cell.width).toBeLessThan(1);
+        expect(cell.y + cell.height).toBeLessThan(1);
+      }
+    });
+
+    it('should stretch a short last row across the width', () => {
+      const doc = createCollage(images(3), '18x24');
+      const [first, second, last] = doc.layers;
+
+      expect(first.y).toBe(second.y);
+      expect(last.y).toBeGreaterThan(first.y);
+      expect(last.width).toBeGreaterThan(first.width * 1.9);
+    });
+
+    it('should leave headlines where they are', () => {
+      const doc = createCollage(images(2));
+      const headline = createHeadlineLayer('My 2027 Vision');
+      const arranged = arrangeGrid({ ...doc, layers: [...doc.layers, headline] });
+
+      expect(arranged.layers[2]).toEqual(headline);
+    });
+  });
+
+  describe('Editing', () => {
+    it('should reorder layers within the stack', () => {
+      const layers = [layer('a', 0, 0), layer('b', 0, 0), layer('c', 0, 0)];
+
+      expect(reorderLayer(layers, 'a', 'front').map(l => l.id)).toEqual(['b', 'c', 'a']);
+      expect(reorderLayer(layers, 'c', 'backward').map(l => l.id)).toEqual(['a', 'c', 'b']);
+      expect(reorderLayer(layers, 'a', 'back')).toEqual(layers);
+    });
+
+    it('should snap to the canvas center and to other layers', () => {
+      const centered = snapLayer(layer('a', 0.395, 0.7), []);
+      expect(centered.layer.x).toBeCloseTo(0.4);
+      expect(centered.guides.x).toEqual([0.5]);
+
+      const aligned = snapLayer(layer('a', 0.312, 0.61), [layer('b', 0.3, 0.1)]);
+      expect(aligned.layer.x).toBeCloseTo(0.3);
+      expect(aligned.guides.y).toEqual([]);
+    });
+
+    it('should keep layers partly on the canvas and above the minimum size', () => {
+      const clamped = clampLayer(layer('a', 1.4, -0.9, 0.01, 0.4));
+      expect(clamped.width).toBe(0.05);
+      expect(clamped.x).toBeCloseTo(0.975);
+      expect(clamped.y).toBeCloseTo(-0.2);
+    });
+  });
+
+  it('should crop overflow evenly when covering a box', () => {
+    // 16:9 image into a square box keeps the middle
+    expect(coverCrop(1600, 900, 300, 300)).toEqual({ sx: 350, sy: 0, sw: 900, sh: 900 });
+    // Tall box from a square image
+    const crop = coverCrop(1000, 1000, 200, 400);
+    expect(crop.sw / crop.sh).toBeCloseTo(0.5);
+    expect(crop.sx).toBe(250);
+  });
+});
@@ -0,0 +1,87 @@
+import { WorkbookPage, WorkbookPageType } from '../../../types/workbookTypes';
+import { PRODIGI_SPECS, TRIM_SIZES } from '../../../services/workbook/printSpecifications';
+
+/**
+ * One page of every dedicated workbook layout, on a 6x9 trade page, for
+ * the renderer snapshot tests
+ */
+
+const trade = TRIM_SIZES.TRADE_6x9;
+
+const page = (type: WorkbookPageType, extra: Partial<WorkbookPage> = {}): WorkbookPage => ({
+  id: `fixture-${type.toLowerCase()}`,
+  edition: 'SOFTCOVER_JOURNAL',
+  type,
+  pageNumber: 3,
+  layout: {
+    trimSize: 'TRADE_6x9',
+    widthPx: trade.widthPx,
+    heightPx: trade.heightPx,
+    bleedPx: PRODIGI_SPECS.BLEED_PX,
+    safeMarginPx: PRODIGI_SPECS.SAFETY_MARGIN_PX,
+    dpi: PRODIGI_SPECS.DPI
+  },
+  textBlocks: [],
+  imageBlocks: [],
+  isVisible: true,
+  ...extra
+});
+
+export const WORKBOOK_PAGE_FIXTURES: WorkbookPage[] = [
+  page('ROADMAP_YEAR', {
+    title: 'The Year Ahead',
+    roadmap: {
+      year: 2026,
+      summary: 'A year of steady growth: stronger savings, better health and more time with the people who matter.',
+      goals: [
+        { id: 'g1', category: 'FINANCIAL', label: 'Save a six-month emergency fund', timeframe: 'YEAR1', status: 'IN_PROGRESS' },
+        { id: 'g2', category: 'HEALTH', label: 'Run a half marathon', timeframe: 'YEAR1', status: 'PLANNED' },
+        { id: 'g3', category: 'FAMILY', label: 'Sunday dinners with the kids', timeframe: 'SHORT_TERM', status: 'COMPLETED' }
+      ],
+      keyMilestones: ['Open a high-yield savings account', 'Sign up for the spring 10k']
+    }
+  }),
+  page('ROADMAP_QUARTER', {
+    roadmap: {
+      year: 2026,
+      quarter: 2,
+      summary: 'Build the habits that carry the rest of the year.',
+      goals: [
+        { id: 'g1', category: 'CAREER', label: 'Finish the leadership course', timeframe: 'SHORT_TERM' },
+        { id: 'g2', category: 'HEALTH', label: 'Three workouts a week', timeframe: 'SHORT_TERM' }
+      ],
+      keyMilestones: ['Course certificate', '10k race day']
+    }
+  }),
+  page('WEEKLY_PLANNER', {
+    weeklyData: {
+      weekOf: 'March 2, 2026',
+      days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map((label, i) => ({
+        isoDate: `2026-03-0${i + 2}`,
+        label,
+        sections: i < 5 ? ['Work', 'Personal'] : []
+      }))
+    }
+  }),
+  page('REFLECTION_MONTH', {
+    title: 'March Reflection',
+    reflectionPrompts: [
+      { id: 'r1', question: 'Where did I see the most progress this month?', helperText: 'Think about habits, not just results.' },
+      { id: 'r2', question: 'What drained my energy, and what can I let go of?' }
+    ]
+  }),
+  page('NOTES_DOTGRID', { title: 'Ideas' }),
+  page('SECTION_DIVIDER', {
+    textBlocks: [
+      { id: 't1', role: 'LABEL', content: 'Part Two' },
+      { id: 't2', role: 'TITLE', content: 'Habits & Rhythms' },
+      { id: 't3', role: 'SUBTITLE', content: 'Small steps, repeated daily, become the life you want.' }
+    ]
+  }),
+  page('QUOTE_PAGE', {
+    textBlocks: [
+      { id: 't1', role: 'QUOTE', content: 'The secret of getting ahead is getting started.' },
+      { id: 't2', role: 'CAPTION', content: 'Mark Twain' }
+    ]
+  })
+];
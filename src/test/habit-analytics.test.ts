@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHabitAnalytics,
+  buildHeatmap,
+  buildMoodByDate,
+  describeHabitPatterns,
+  getMoodCorrelation,
+  getTimeOfDayDistribution,
+  getWeekdayPerformance
+} from '../../supabase/functions/_shared/habit-analytics';
+
+/**
+ * Habit Analytics Tests
+ *
+ * Covers the heatmap, time-of-day, weekday and mood correlation analytics
+ * returned by habit-service `analytics` and used for weekly review insights.
+ */
+
+// 2024-01-01 is a Monday
+const dates = (start: number, count: number) =>
+  Array.from({ length: count }, (_, i) => `2024-01-${String(start + i).padStart(2, '0')}`);
+
+describe('Habit Analytics', () => {
+  describe('Heatmap', () => {
+    it('should grade measurable days by progress and mark unscheduled days', () => {
+      const habit = { frequency: 'weekdays', target_value: 8, created_at: '2024-01-01T00:00:00Z' };
+      const heatmap = buildHeatmap(
+        habit,
+        [{ completed_at: '2024-01-01', value: 8 }, { completed_at: '2024-01-02', value: 3 }],
+        '2023-12-31',
+        '2024-01-06',
+        'UTC'
+      );
+
+      expect(heatmap).toHaveLength(7);
+      expect(heatmap[0]).toMatchObject({ date: '2023-12-31', scheduled: false, level: 0 });
+      expect(heatmap[1]).toMatchObject({ value: 8, level: 4, scheduled: true });
+      expect(heatmap[2]).toMatchObject({ value: 3, level: 2 });
+      expect(heatmap[6]).toMatchObject({ date: '2024-01-06', scheduled: false });
+    });
+  });
+
+  describe('Time of Day', () => {
+    it('should bucket by local hour and skip backfilled entries', () => {
+      const distribution = getTimeOfDayDistribution([
+        { completed_at: '2024-01-10', created_at: '2024-01-10T13:30:00Z' },
+        { completed_at: '2024-01-11', created_at: '2024-01-11T14:05:00Z' },
+        { completed_at: '2024-01-12', created_at: '2024-01-13T01:00:00Z', is_backfilled: true },
+        { completed_at: '2024-01-12', created_at: '2024-01-15T09:00:00Z' }
+      ], 'America/New_York');
+
+      expect(distribution.sampleSize).toBe(2);
+      expect(distribution.hourly[8]).toBe(1);
+      expect(distribution.hourly[9]).toBe(1);
+      expect(distribution.peakPeriod).toBe('morning');
+    });
+  });
+
+  describe('Weekdays', () => {
+    it('should find the strongest and weakest scheduled days', () => {
+      const habit = { frequency: 'custom', custom_days: [1, 3, 5], created_at: '2024-01-01T00:00:00Z' };
+      // Mondays and Wednesdays done both weeks, one Friday done
+      const completions = ['2024-01-01', '2024-01-03', '2024-01-05', '2024-01-08', '2024-01-10']
+        .map(completed_at => ({ completed_at }));
+      const performance = getWeekdayPerformance(habit, completions, '2024-01-01', '2024-01-14', 'UTC');
+
+      expect(performance.days[1]).toMatchObject({ scheduled: 2, completed: 2, rate: 100 });
+      expect(performance.days[5]).toMatchObject({ scheduled: 2, completed: 1, rate: 50 });
+      expect(performance.days[0].rate).toBeNull();
+      expect(performance.strongestDay).toBe(1);
+      expect(performance.weakestDay).toBe(5);
+    });
+  });
+
+  describe('Mood Correlation', () => {
+    it('should correlate completion with daily mood across habits', () => {
+      const habit = { frequency: 'daily', created_at: '2024-01-01T00:00:00Z' };
+      const days = dates(1, 12);
+      const done = days.filter((_, i) => i % 2 === 0);
+      const moodByDate = buildMoodByDate(
+        days.map((date, i) => ({ completed_at: date, mood_rating: i % 2 === 0 ? 5 : 2 })),
+        'UTC'
+      );
+
+      const mood = getMoodCorrelation(habit, done.map(completed_at => ({ completed_at })), moodByDate, '2024-01-01', '2024-01-12', 'UTC');
+
+      expect(mood.sampleDays).toBe(12);
+      expect(mood.avgMoodWhenDone).toBe(5);
+      expect(mood.avgMoodWhenMissed).toBe(2);
+      expect(mood.correlation).toBe(1);
+      expect(mood.strength).toBe('strong');
+    });
+
+    it('should not report a correlation from too few days', () => {
+      const habit = { frequency: 'daily', created_at: '2024-01-01T00:00:00Z' };
+      const moodByDate = buildMoodByDate([{ completed_at: '2024-01-02', mood_rating: 4 }], 'UTC');
+      const mood = getMoodCorrelation(habit, [{ completed_at: '2024-01-02' }], moodByDate, '2024-01-01', '2024-01-12', 'UTC');
+
+      expect(mood.correlation).toBeNull();
+      expect(mood.strength).toBe('none');
+    });
+  });
+
+  describe('Insights', () => {
+    it('should describe weekday and mood patterns', () => {
+      const habit = { frequency: 'daily', created_at: '2024-01-01T00:00:00Z' };
+      const days = dates(1, 14);
+      // Everything but weekends done; mood is higher on done days
+      const done = days.filter(d => ![0, 6].includes(new Date(`${d}T00:00:00Z`).getUTCDay()));
+      const moodByDate = buildMoodByDate(
+        days.map(date => ({ completed_at: date, mood_rating: done.includes(date) ? 4 : 2 })),
+        'UTC'
+      );
+
+      const analytics = buildHabitAnalytics(habit, done.map(completed_at => ({ completed_at })), moodByDate, '2024-01-14', 'UTC', 14);
+      const insights = describeHabitPatterns('Walk', analytics);
+
+      expect(analytics.heatmap).toHaveLength(14);
+      expect(insights[0]).toContain('Mood averages 4/5 on days you complete "Walk" vs 2/5');
+      expect(insights[1]).toContain('"Walk" is strongest on Mondays (100%) and weakest on Saturdays (0%)');
+    });
+  });
+});
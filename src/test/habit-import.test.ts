@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportPreview,
+  exportHabitsCsv,
+  exportLoopCsv,
+  parseCsv,
+  parseGenericCsv,
+  parseLoopExport
+} from '../../supabase/functions/_shared/habit-import';
+
+/**
+ * Habit Import & Export Tests
+ *
+ * Exercises the shared parser used by habit-service for CSV and Loop Habit
+ * Tracker imports, the dry-run preview and both export formats.
+ */
+
+const TODAY = '2024-01-20';
+
+describe('Habit Import', () => {
+  describe('CSV Parsing', () => {
+    it('should handle quoted fields, escaped quotes and CRLF', () => {
+      const rows = parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n');
+      expect(rows).toEqual([['a', 'b'], ['x, y', 'say "hi"']]);
+    });
+  });
+
+  describe('Generic CSV', () => {
+    it('should read habits and completions with settings from the first row', () => {
+      const parsed = parseGenericCsv(
+        'Habit,Date,Value,Frequency,Days,Unit,Target\n' +
+        'Water,2024-01-10,6,daily,,glasses,8\n' +
+        'Water,2024-01-11,8,,,,\n' +
+        'Gym,,,custom,Mon;Wed;Fri,,\n',
+        TODAY
+      );
+
+      expect(parsed.issues).toEqual([]);
+      expect(parsed.habits).toHaveLength(2);
+      expect(parsed.habits[0]).toMatchObject({ title: 'Water', unit: 'glasses', target_value: 8 });
+      expect(parsed.habits[1]).toMatchObject({ title: 'Gym', frequency: 'custom', custom_days: [1, 3, 5] });
+      expect(parsed.completions.map(c => [c.completed_at, c.value])).toEqual([
+        ['2024-01-10', 6],
+        ['2024-01-11', 8]
+      ]);
+    });
+
+    it('should report invalid and future dates as errors', () => {
+      const parsed = parseGenericCsv('habit,date\nRead,2024-02-30\nRead,2024-01-21\n,2024-01-01\n', TODAY);
+      expect(parsed.issues.map(i => [i.line, i.severity])).toEqual([
+        [2, 'error'],
+        [3, 'error'],
+        [4, 'error']
+      ]);
+      expect(parsed.completions).toHaveLength(0);
+    });
+
+    it('should sum repeated measurable entries and collapse repeated check-ins', () => {
+      const parsed = parseGenericCsv(
+        'habit,date,value,target\n' +
+        'Run,2024-01-10,2,5\nRun,2024-01-10,3,\n' +
+        'Read,2024-01-10,,\nread,2024-01-10,,\n',
+        TODAY
+      );
+      expect(parsed.completions).toHaveLength(2);
+      expect(parsed.completions[0].value).toBe(5);
+      expect(parsed.issues).toHaveLength(1);
+      expect(parsed.issues[0].severity).toBe('warning');
+    });
+  });
+
+  describe('Loop Habit Tracker', () => {
+    const habitsCsv =
+      'Position,Name,Type,Question,Description,FrequencyNumerator,FrequencyDenominator,Color,Unit,Target Type,Target Value,Archived?\n' +
+      '001,Meditate,0,Did you meditate?,,1,1,#FF0000,,,,false\n' +
+      '002,Gym,0,,,3,7,#00FF00,,,,false\n' +
+      '003,Pushups,1,,,1,1,#0000FF,reps,0,20,true\n';
+
+    it('should map schedules, numerical habits and archived state', () => {
+      const parsed = parseLoopExport(habitsCsv, '', TODAY);
+      expect(parsed.habits[0]).toMatchObject({ title: 'Meditate', frequency: 'daily', description: 'Did you meditate?' });
+      expect(parsed.habits[1]).toMatchObject({ frequency: 'weekly', weekly_target: 3 });
+      expect(parsed.habits[2]).toMatchObject({ unit: 'reps', target_value: 20, is_active: false });
+    });
+
+    it('should import manual checks and scale numerical values', () => {
+      const checkmarks =
+        'Date,Meditate,Gym,Pushups\n' +
+        '2024-01-12,2,1,15000\n' +
+        '2024-01-11,0,2,0\n';
+      const parsed = parseLoopExport(habitsCsv, checkmarks, TODAY);
+      expect(parsed.completions).toEqual([
+        { habit_title: 'Meditate', completed_at: '2024-01-12', value: null, notes: null },
+        { habit_title: 'Pushups', completed_at: '2024-01-12', value: 15, notes: null },
+        { habit_title: 'Gym', completed_at: '2024-01-11', value: null, notes: null }
+      ]);
+    });
+  });
+
+  describe('Preview', () => {
+    it('should match habits by title and skip already logged days', () => {
+      const parsed = parseGenericCsv('habit,date\nREAD ,2024-01-10\nRead,2024-01-11\nWalk,2024-01-11\n', TODAY);
+      const preview = buildImportPreview(parsed, [
+        { id: 'h1', title: 'Read', completion_dates: ['2024-01-10'] }
+      ]);
+
+      expect(preview.matchedHabits).toEqual([{ title: 'READ', habit_id: 'h1' }]);
+      expect(preview.newHabits.map(h => h.title)).toEqual(['Walk']);
+      expect(preview.completions).toHaveLength(2);
+      expect(preview.duplicateCompletions).toBe(1);
+      expect(preview.canImport).toBe(true);
+    });
+  });
+
+  describe('Export', () => {
+    it('should round-trip through the generic CSV parser', () => {
+      const csv = exportHabitsCsv([
+        {
+          title: 'Water, daily',
+          frequency: 'custom',
+          custom_days: [1, 3],
+          target_value: 8,
+          unit: 'glasses',
+          completions: [{ completed_at: '2024-01-15', value: 8, notes: 'said "done"' }]
+        },
+        { title: 'Stretch', completions: [] }
+      ]);
+
+      const parsed = parseGenericCsv(csv, TODAY);
+      expect(parsed.issues).toEqual([]);
+      expect(parsed.habits.map(h => h.title)).toEqual(['Water, daily', 'Stretch']);
+      expect(parsed.habits[0]).toMatchObject({ frequency: 'custom', custom_days: [1, 3], unit: 'glasses' });
+      expect(parsed.completions).toEqual([
+        { habit_title: 'Water, daily', completed_at: '2024-01-15', value: 8, notes: 'said "done"' }
+      ]);
+    });
+
+    it('should export a Loop CSV pair that imports back', () => {
+      const { habitsCsv, checkmarksCsv } = exportLoopCsv([
+        { title: 'Gym', frequency: 'weekly', weekly_target: 3, completions: [{ completed_at: '2024-01-10' }] },
+        { title: 'Pushups', frequency: 'daily', target_value: 20, unit: 'reps', completions: [{ completed_at: '2024-01-12', value: 15 }] }
+      ]);
+
+      const parsed = parseLoopExport(habitsCsv, checkmarksCsv, TODAY);
+      expect(parsed.habits[0]).toMatchObject({ title: 'Gym', frequency: 'weekly', weekly_target: 3 });
+      expect(parsed.habits[1]).toMatchObject({ unit: 'reps', target_value: 20 });
+      expect(parsed.completions).toEqual([
+        { habit_title: 'Pushups', completed_at: '2024-01-12', value: 15, notes: null },
+        { habit_title: 'Gym', completed_at: '2024-01-10', value: null, notes: null }
+      ]);
+      expect(parseCsv(checkmarksCsv)).toHaveLength(4);
+    });
+  });
+});
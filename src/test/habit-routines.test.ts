@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRoutineStats,
+  getRoutineProgress,
+  isWithinRoutineWindow
+} from '../../supabase/functions/_shared/habit-routines';
+
+/**
+ * Habit Routine Tests
+ *
+ * Covers next-step prompting and routine-level stats shared by
+ * habit-service, watch-sync and slack-bot.
+ */
+
+const CREATED = '2024-01-01T00:00:00Z';
+
+const habitsById = new Map([
+  ['coffee', { id: 'coffee', title: 'Coffee', frequency: 'daily', created_at: CREATED }],
+  ['journal', { id: 'journal', title: 'Journal', frequency: 'daily', created_at: CREATED }],
+  ['stretch', { id: 'stretch', title: 'Stretch', frequency: 'weekdays', created_at: CREATED }],
+  ['plan', { id: 'plan', title: 'Plan day', frequency: 'daily', created_at: CREATED }]
+]);
+
+const routine = {
+  id: 'r1',
+  title: 'Morning',
+  anchor_cue: 'After coffee',
+  steps: [
+    { habit_id: 'plan', position: 3 },
+    { habit_id: 'coffee', position: 0 },
+    { habit_id: 'stretch', position: 2 },
+    { habit_id: 'journal', position: 1 }
+  ]
+};
+
+const completionsFor = (entries: Record<string, string[]>) =>
+  new Map(Object.entries(entries).map(([id, dates]) => [id, dates]));
+
+describe('Habit Routines', () => {
+  describe('Progress', () => {
+    it('should prompt the step after the one just completed', () => {
+      // 2024-01-10 is a Wednesday
+      const progress = getRoutineProgress(
+        routine, habitsById, completionsFor({ coffee: ['2024-01-10'] }), '2024-01-10', 'UTC', 'coffee'
+      );
+
+      expect(progress.steps.map(s => s.habit_id)).toEqual(['coffee', 'journal', 'stretch', 'plan']);
+      expect(progress.completedSteps).toBe(1);
+      expect(progress.totalSteps).toBe(4);
+      expect(progress.nextStep?.habit_id).toBe('journal');
+    });
+
+    it('should skip unscheduled steps and come back to skipped ones last', () => {
+      // 2024-01-13 is a Saturday, so Stretch is not scheduled
+      const progress = getRoutineProgress(
+        routine, habitsById, completionsFor({ plan: ['2024-01-13'] }), '2024-01-13', 'UTC', 'plan'
+      );
+
+      expect(progress.totalSteps).toBe(3);
+      expect(progress.steps.find(s => s.habit_id === 'stretch')?.scheduled).toBe(false);
+      expect(progress.nextStep?.habit_id).toBe('coffee');
+    });
+
+    it('should report a complete routine with no next step', () => {
+      const done = ['2024-01-13'];
+      const progress = getRoutineProgress(
+        routine, habitsById, completionsFor({ coffee: done, journal: done, plan: done }), '2024-01-13', 'UTC', 'plan'
+      );
+
+      expect(progress.isComplete).toBe(true);
+      expect(progress.nextStep).toBeNull();
+    });
+  });
+
+  describe('Time Window', () => {
+    it('should handle same-day and overnight windows', () => {
+      const morning = { ...routine, window_start: '06:00:00', window_end: '09:30:00' };
+      const night = { ...routine, window_start: '22:00', window_end: '01:00' };
+
+      expect(isWithinRoutineWindow(morning, '07:15')).toBe(true);
+      expect(isWithinRoutineWindow(morning, '10:00')).toBe(false);
+      expect(isWithinRoutineWindow(night, '23:30')).toBe(true);
+      expect(isWithinRoutineWindow(night, '00:30')).toBe(true);
+      expect(isWithinRoutineWindow(night, '12:00')).toBe(false);
+      expect(isWithinRoutineWindow(routine, '12:00')).toBe(true);
+    });
+  });
+
+  describe('Stats', () => {
+    it('should count complete, partial and missed routine days', () => {
+      // Sat 13 (no Stretch) complete, Sun 14 partial, Mon 15 and Tue 16 complete
+      const all = ['2024-01-13', '2024-01-15', '2024-01-16'];
+      const stats = calculateRoutineStats(
+        routine,
+        habitsById,
+        completionsFor({
+          coffee: [...all, '2024-01-14'],
+          journal: all,
+          stretch: ['2024-01-15', '2024-01-16'],
+          plan: all
+        }),
+        '2024-01-13',
+        '2024-01-16',
+        'UTC'
+      );
+
+      expect(stats.dueDays).toBe(4);
+      expect(stats.completedDays).toBe(3);
+      expect(stats.partialDays).toBe(1);
+      expect(stats.rate).toBe(75);
+      expect(stats.currentStreak).toBe(2);
+      expect(stats.stepRates.map(s => s.rate)).toEqual([100, 75, 100, 75]);
+    });
+
+    it('should not break the streak on an unfinished today', () => {
+      const stats = calculateRoutineStats(
+        routine,
+        habitsById,
+        completionsFor({
+          coffee: ['2024-01-13', '2024-01-14'],
+          journal: ['2024-01-13'],
+          plan: ['2024-01-13']
+        }),
+        '2024-01-13',
+        '2024-01-14',
+        'UTC'
+      );
+
+      expect(stats.currentStreak).toBe(1);
+    });
+  });
+});
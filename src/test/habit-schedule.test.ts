@@ -0,0 +1,311 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  calculateCurrentStreak,
+  calculateLongestStreak,
+  countExpectedCompletions,
+  getBackfillError,
+  getDayOfWeek,
+  getHabitProgress,
+  getLocalDayBounds,
+  getNextReminderTime,
+  getPauseError,
+  getTodayInTimezone,
+  getWeekStart,
+  isHabitDueOn,
+  isHabitPausedOn,
+  isHabitScheduledOn,
+  isStreakMilestone,
+  resolveTimezone,
+  summarizeCompletions,
+  zonedTimeToUtc
+} from '../../supabase/functions/_shared/habit-schedule';
+
+/**
+ * Habit Schedule Engine Tests
+ *
+ * The shared module is plain TypeScript with no Deno imports, so these tests
+ * exercise the real recurrence and streak code used by habit-service,
+ * watch-sync, celebrate-streak, habit-reminder-scheduler and
+ * generate-weekly-review.
+ */
+
+// 2024-01-15 is a Monday
+const MONDAY = '2024-01-15';
+
+describe('Habit Schedule Engine', () => {
+  describe('Date Helpers', () => {
+    it('should add days across month boundaries', () => {
+      expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    it('should compute day of week independent of server timezone', () => {
+      expect(getDayOfWeek(MONDAY)).toBe(1);
+      expect(getDayOfWeek('2024-01-14')).toBe(0);
+    });
+
+    it('should find the Monday that starts a week', () => {
+      expect(getWeekStart('2024-01-21')).toBe(MONDAY);
+      expect(getWeekStart(MONDAY)).toBe(MONDAY);
+    });
+
+    it('should fall back to the default timezone for unknown zones', () => {
+      expect(resolveTimezone('Not/AZone')).toBe('America/New_York');
+      expect(resolveTimezone(null)).toBe('America/New_York');
+      expect(resolveTimezone('Asia/Tokyo')).toBe('Asia/Tokyo');
+    });
+  });
+
+  describe('Timezone Handling', () => {
+    it('should resolve today in the user timezone, not UTC', () => {
+      const now = new Date('2024-01-16T03:00:00Z');
+      expect(getTodayInTimezone('America/Los_Angeles', now)).toBe(MONDAY);
+      expect(getTodayInTimezone('Asia/Tokyo', now)).toBe('2024-01-16');
+    });
+
+    it('should convert local wall-clock time to UTC', () => {
+      expect(zonedTimeToUtc(MONDAY, '09:00', 'America/New_York').toISOString())
+        .toBe('2024-01-15T14:00:00.000Z');
+      expect(zonedTimeToUtc('2024-07-15', '09:00', 'America/New_York').toISOString())
+        .toBe('2024-07-15T13:00:00.000Z');
+    });
+
+    it('should bound a local day across a DST change', () => {
+      const { start, end } = getLocalDayBounds('2024-03-10', 'America/New_York');
+      expect((end.getTime() - start.getTime()) / 3600000).toBe(23);
+    });
+  });
+
+  describe('Recurrence', () => {
+    it('should schedule weekday habits Monday through Friday only', () => {
+      const habit = { frequency: 'weekdays' };
+      expect(isHabitScheduledOn(habit, MONDAY)).toBe(true);
+      expect(isHabitScheduledOn(habit, '2024-01-20')).toBe(false);
+    });
+
+    it('should honor custom_days for custom habits', () => {
+      const habit = { frequency: 'custom', custom_days: [1, 3, 5] };
+      expect(isHabitScheduledOn(habit, MONDAY)).toBe(true);
+      expect(isHabitScheduledOn(habit, '2024-01-16')).toBe(false);
+    });
+
+    it('should count exact weekday occurrences instead of approximating', () => {
+      const habit = { frequency: 'weekdays' };
+      expect(countExpectedCompletions(habit, MONDAY, '2024-01-21')).toBe(5);
+      expect(countExpectedCompletions(habit, '2024-01-20', '2024-01-21')).toBe(0);
+    });
+
+    it('should count custom days in a range', () => {
+      const habit = { frequency: 'custom', custom_days: [1, 3, 5] };
+      expect(countExpectedCompletions(habit, MONDAY, '2024-01-28')).toBe(6);
+    });
+
+    it('should expect the weekly target per week', () => {
+      const habit = { frequency: 'weekly', weekly_target: 3 };
+      expect(countExpectedCompletions(habit, MONDAY, '2024-01-28')).toBe(6);
+    });
+
+    it('should not expect completions before the habit was created', () => {
+      const habit = { frequency: 'daily', created_at: '2024-01-18T12:00:00Z' };
+      expect(countExpectedCompletions(habit, MONDAY, '2024-01-21', 'UTC')).toBe(4);
+    });
+  });
+
+  describe('Completion Summary', () => {
+    it('should ignore completions on unscheduled days', () => {
+      const habit = { frequency: 'weekdays' };
+      const summary = summarizeCompletions(
+        habit,
+        [MONDAY, '2024-01-16', '2024-01-20'],
+        MONDAY,
+        '2024-01-21'
+      );
+      expect(summary).toEqual({ expected: 5, completed: 2, rate: 40 });
+    });
+
+    it('should cap weekly habits at the weekly target', () => {
+      const habit = { frequency: 'weekly', weekly_target: 2 };
+      const summary = summarizeCompletions(
+        habit,
+        [MONDAY, '2024-01-16', '2024-01-17'],
+        MONDAY,
+        '2024-01-21'
+      );
+      expect(summary).toEqual({ expected: 2, completed: 2, rate: 100 });
+    });
+  });
+
+  describe('Measurable Habits', () => {
+    it('should sum logged values toward a daily target', () => {
+      const habit = { frequency: 'daily', target_value: 8, unit: 'glasses' };
+      const progress = getHabitProgress(
+        habit,
+        [{ completed_at: MONDAY, value: 3 }, { completed_at: MONDAY, value: 2 }],
+        MONDAY
+      );
+      expect(progress).toMatchObject({ value: 5, target: 8, unit: 'glasses', percent: 63, isComplete: false });
+    });
+
+    it('should sum a weekly target across the week', () => {
+      const habit = { frequency: 'daily', target_value: 100, target_period: 'week' as const };
+      const completions = [
+        { completed_at: MONDAY, value: 60 },
+        { completed_at: '2024-01-17', value: 50 },
+        { completed_at: '2024-01-10', value: 90 }
+      ];
+      const progress = getHabitProgress(habit, completions, '2024-01-18');
+      expect(progress.value).toBe(110);
+      expect(progress.isComplete).toBe(true);
+    });
+
+    it('should only count a day toward the streak once the target is reached', () => {
+      const habit = { frequency: 'daily', target_value: 30 };
+      const completions = [
+        { completed_at: '2024-01-13', value: 30 },
+        { completed_at: '2024-01-14', value: 10 },
+        { completed_at: MONDAY, value: 45 }
+      ];
+      expect(calculateCurrentStreak(habit, completions, MONDAY)).toBe(1);
+    });
+  });
+
+  describe('Streaks', () => {
+    it('should not break a daily streak when today is not yet done', () => {
+      const habit = { frequency: 'daily' };
+      const streak = calculateCurrentStreak(habit, ['2024-01-13', '2024-01-14'], MONDAY);
+      expect(streak).toBe(2);
+    });
+
+    it('should break a daily streak on a missed day', () => {
+      const habit = { frequency: 'daily' };
+      const streak = calculateCurrentStreak(habit, ['2024-01-12', '2024-01-14', MONDAY], MONDAY);
+      expect(streak).toBe(2);
+    });
+
+    it('should skip weekends for weekday habits', () => {
+      const habit = { frequency: 'weekdays' };
+      const streak = calculateCurrentStreak(habit, ['2024-01-11', '2024-01-12', MONDAY], MONDAY);
+      expect(streak).toBe(3);
+    });
+
+    it('should count consecutive weeks that met a weekly target', () => {
+      const habit = { frequency: 'weekly', weekly_target: 2 };
+      const completions = ['2024-01-01', '2024-01-03', '2024-01-08', '2024-01-10'];
+      expect(calculateCurrentStreak(habit, completions, MONDAY)).toBe(2);
+    });
+
+    it('should bucket timestamp completions by local date', () => {
+      const habit = { frequency: 'daily' };
+      const completions = ['2024-01-15T02:00:00Z', '2024-01-14T02:00:00Z'];
+      expect(calculateCurrentStreak(habit, completions, '2024-01-14', 'America/New_York')).toBe(2);
+    });
+
+    it('should find the longest streak in history', () => {
+      const habit = { frequency: 'daily' };
+      const completions = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-05'];
+      expect(calculateLongestStreak(habit, completions)).toBe(3);
+    });
+
+    it('should recognize milestone streaks', () => {
+      expect(isStreakMilestone(21)).toBe(true);
+      expect(isStreakMilestone(22)).toBe(false);
+    });
+  });
+
+  describe('Streak Protection', () => {
+    const vacation = [{ start_date: '2024-01-10', end_date: '2024-01-13' }];
+
+    it('should treat paused days as neither expected nor completed', () => {
+      const habit = { frequency: 'daily', pauses: vacation };
+      expect(isHabitPausedOn(habit, '2024-01-11')).toBe(true);
+      const summary = summarizeCompletions(habit, ['2024-01-08', '2024-01-11'], '2024-01-08', '2024-01-14');
+      expect(summary).toEqual({ expected: 3, completed: 1, rate: 33.3 });
+    });
+
+    it('should carry a streak across a vacation pause', () => {
+      const habit = { frequency: 'daily', pauses: vacation };
+      const completions = ['2024-01-08', '2024-01-09', '2024-01-14', MONDAY];
+      expect(calculateCurrentStreak(habit, completions, MONDAY)).toBe(4);
+    });
+
+    it('should keep a streak alive over a frozen day without counting it', () => {
+      const completions = ['2024-01-12', '2024-01-14', MONDAY];
+      expect(calculateCurrentStreak({ frequency: 'daily' }, completions, MONDAY)).toBe(2);
+      const habit = { frequency: 'daily', frozen_dates: ['2024-01-13'] };
+      expect(calculateCurrentStreak(habit, completions, MONDAY)).toBe(3);
+      expect(calculateLongestStreak(habit, completions)).toBe(3);
+    });
+
+    it('should tolerate misses within the grace window', () => {
+      const completions = ['2024-01-10', '2024-01-11', '2024-01-14', MONDAY];
+      expect(calculateCurrentStreak({ frequency: 'daily', grace_days: 1 }, completions, MONDAY)).toBe(2);
+      expect(calculateCurrentStreak({ frequency: 'daily', grace_days: 2 }, completions, MONDAY)).toBe(4);
+    });
+
+    it('should skip fully paused weeks for weekly habits', () => {
+      const habit = {
+        frequency: 'weekly',
+        weekly_target: 1,
+        pauses: [{ start_date: '2024-01-08', end_date: '2024-01-14' }]
+      };
+      expect(calculateCurrentStreak(habit, ['2024-01-03', MONDAY], MONDAY)).toBe(2);
+    });
+
+    it('should not remind on paused days', () => {
+      const habit = { frequency: 'daily', pauses: vacation };
+      expect(isHabitDueOn(habit, [], '2024-01-11')).toBe(false);
+      const next = getNextReminderTime(habit, '09:00', 'UTC', new Date('2024-01-10T12:00:00Z'));
+      expect(next.toISOString()).toBe('2024-01-14T09:00:00.000Z');
+    });
+  });
+
+  describe('Reminders', () => {
+    it('should not be due once the weekly target is met', () => {
+      const habit = { frequency: 'weekly', weekly_target: 1 };
+      expect(isHabitDueOn(habit, [MONDAY], '2024-01-17')).toBe(false);
+      expect(isHabitDueOn(habit, [], '2024-01-17')).toBe(true);
+    });
+
+    it('should schedule the next reminder in the user timezone on a scheduled day', () => {
+      const habit = { frequency: 'weekdays' };
+      // Saturday 2024-01-20 noon UTC
+      const next = getNextReminderTime(habit, '08:30', 'America/Chicago', new Date('2024-01-20T12:00:00Z'));
+      expect(next.toISOString()).toBe('2024-01-22T14:30:00.000Z');
+    });
+  });
+
+  describe('Pauses', () => {
+    it('should allow pauses starting today or later', () => {
+      expect(getPauseError('2024-01-15', '2024-01-20', '2024-01-15')).toBeNull();
+      expect(getPauseError('2024-01-16', '2024-01-16', '2024-01-15')).toBeNull();
+    });
+
+    it('should reject pauses that start in the past', () => {
+      expect(getPauseError('2024-01-14', '2024-01-20', '2024-01-15')).toMatch(/past/);
+    });
+
+    it('should reject malformed dates and inverted ranges', () => {
+      expect(getPauseError('01/16/2024', '2024-01-20', '2024-01-15')).toMatch(/YYYY-MM-DD/);
+      expect(getPauseError('2024-01-16', 'next week', '2024-01-15')).toMatch(/YYYY-MM-DD/);
+      expect(getPauseError('2024-01-20', '2024-01-16', '2024-01-15')).toMatch(/on or after/);
+    });
+  });
+
+  describe('Backfill', () => {
+    it('should allow past dates inside the window', () => {
+      expect(getBackfillError('2024-01-15', '2024-01-15', 7)).toBeNull();
+      expect(getBackfillError('2024-01-08', '2024-01-15', 7)).toBeNull();
+    });
+
+    it('should reject future dates and dates beyond the window', () => {
+      expect(getBackfillError('2024-01-16', '2024-01-15', 7)).toMatch(/future/);
+      expect(getBackfillError('2024-01-07', '2024-01-15', 7)).toMatch(/7 days back/);
+      expect(getBackfillError('2024-01-14', '2024-01-15', 0)).toMatch(/only be logged for today/);
+    });
+
+    it('should reject malformed dates', () => {
+      expect(getBackfillError('01/14/2024', '2024-01-15', 7)).toMatch(/YYYY-MM-DD/);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlanCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  getMilestoneEvents,
+  getTaskEvents,
+  getWeeklyReviewEvent,
+  serializeTimezone,
+  toIcsRecurrence
+} from '../../supabase/functions/_shared/ical-feed';
+
+/**
+ * iCalendar Feed Tests
+ *
+ * Covers how plan rows map to events (including recurring series and the
+ * weekly review) and the RFC 5545 text rules calendar clients enforce.
+ */
+
+const NOW = new Date('2026-03-04T12:00:00Z');
+
+describe('iCalendar Feed', () => {
+  describe('Events', () => {
+    it('should make dated tasks all-day events with stable UIDs', () => {
+      const events = getTaskEvents([
+        { id: 't1', title: 'Open savings account', due_date: '2026-03-10', priority: 'high' },
+        { id: 't2', title: 'Someday task', due_date: null }
+      ]);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        uid: 'task-t1@visionaryaicoach.com',
+        summary: '! Open savings account',
+        date: '2026-03-10'
+      });
+    });
+
+    it('should collapse a recurring series into one repeating event', () => {
+      const events = getTaskEvents([
+        { id: 'a', title: 'Review budget', due_date: '2026-01-15', recurrence_rule: 'FREQ=MONTHLY;BYMONTHDAY=15', recurrence_anchor: '2026-01-15', recurrence_series_id: 's1', is_completed: true },
+        { id: 'b', title: 'Review budget', due_date: '2026-02-15', recurrence_rule: 'FREQ=MONTHLY;BYMONTHDAY=15', recurrence_anchor: '2026-01-15', recurrence_series_id: 's1' }
+      ]);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        uid: 'task-series-s1@visionaryaicoach.com',
+        date: '2026-01-15',
+        rrule: 'FREQ=MONTHLY;BYMONTHDAY=15'
+      });
+    });
+
+    it('should exclude skipped occurrences of a series', () => {
+      const rule = { recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO', recurrence_anchor: '2026-02-02', recurrence_series_id: 's1' };
+      const events = getTaskEvents([
+        { id: 'a', title: 'Weekly plan', due_date: '2026-02-09', skipped_at: '2026-02-10T08:00:00Z', ...rule },
+        { id: 'b', title: 'Weekly plan', due_date: '2026-02-02', skipped_at: '2026-02-10T08:00:00Z', ...rule },
+        { id: 'c', title: 'Weekly plan', due_date: '2026-02-16', ...rule },
+        { id: 'd', title: 'Skipped one-off', due_date: '2026-02-20', skipped_at: '2026-02-21T08:00:00Z' },
+        { id: 'e', title: 'Ended', due_date: '2026-02-03', skipped_at: '2026-02-04T08:00:00Z', recurrence_rule: 'FREQ=DAILY', recurrence_series_id: 's2' }
+      ]);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ date: '2026-02-02', exdates: ['2026-02-02', '2026-02-09'] });
+    });
+
+    it('should keep month-end rules on the last day of short months', () => {
+      expect(toIcsRecurrence('FREQ=MONTHLY;BYMONTHDAY=31')).toBe('FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+      expect(toIcsRecurrence('RRULE:FREQ=WEEKLY;BYDAY=MO')).toBe('FREQ=WEEKLY;BYDAY=MO');
+    });
+
+    it('should summarize each milestone year on Dec 31', () => {
+      const events = getMilestoneEvents('u1', [
+        { id: 't1', title: 'Pay off card', milestone_year: 2027, is_completed: true },
+        { id: 't2', title: 'Buy house', milestone_year: 2027 },
+        { id: 't3', title: 'Retire', milestone_year: 2035 }
+      ]);
+
+      expect(events.map(e => e.date)).toEqual(['2027-12-31', '2035-12-31']);
+      expect(events[0].summary).toBe('2027 milestone (1/2 done)');
+      expect(events[0].description).toBe('[x] Pay off card\n[ ] Buy house');
+    });
+
+    it('should start the weekly review on the next review day in the user timezone', () => {
+      // 2026-03-04 is a Wednesday
+      const event = getWeeklyReviewEvent('u1', { weekly_review_day: 'Sunday', weekly_review_time: '09:00:00', timezone: 'America/New_York' }, '2026-03-04');
+      expect(event).toMatchObject({
+        dateTime: '2026-03-08T09:00:00',
+        tzid: 'America/New_York',
+        rrule: 'FREQ=WEEKLY;BYDAY=SU'
+      });
+
+      expect(getWeeklyReviewEvent('u1', { weekly_review_day: 'someday', weekly_review_time: '09:00' }, '2026-03-04')).toBeNull();
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should build a calendar with CRLF lines and skip skipped reminders', () => {
+      const ics = buildPlanCalendar({
+        userId: 'u1',
+        tasks: [{ id: 't1', title: 'File taxes', due_date: '2026-04-15' }],
+        habitReminders: [
+          { id: 'r1', habit_name: 'Meditate', scheduled_for: '2026-03-05T12:00:00Z', status: 'scheduled' },
+          { id: 'r2', habit_name: 'Run', scheduled_for: '2026-03-05T13:00:00Z', status: 'skipped' },
+          { id: 'r3', habit_name: 'Read', scheduled_for: '2026-03-05T14:00:00Z', status: 'snoozed', snoozed_until: '2026-03-05T15:30:00Z' }
+        ],
+        goalCheckins: [{ id: 'c1', goal_title: 'Emergency fund', scheduled_for: '2026-03-06T17:00:00Z' }],
+        weeklyReview: null,
+        today: '2026-03-04',
+        now: NOW
+      });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('DTSTAMP:20260304T120000Z');
+      expect(ics).toContain('DTSTART;VALUE=DATE:20260415\r\nDTEND;VALUE=DATE:20260416');
+      expect(ics).toContain('UID:habit-reminder-r1@visionaryaicoach.com\r\nDTSTAMP:20260304T120000Z\r\nDTSTART:20260305T120000Z');
+      expect(ics).toContain('DTSTART:20260305T153000Z');
+      expect(ics).not.toContain('SUMMARY:Run');
+      expect(ics).toContain('SUMMARY:Check-in: Emergency fund');
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+    });
+
+    it('should write EXDATEs and a VTIMEZONE for each TZID', () => {
+      const ics = buildPlanCalendar({
+        userId: 'u1',
+        tasks: [
+          { id: 'a', title: 'Weekly plan', due_date: '2026-03-02', skipped_at: '2026-03-03T08:00:00Z', recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO', recurrence_anchor: '2026-03-02', recurrence_series_id: 's1' },
+          { id: 'b', title: 'Weekly plan', due_date: '2026-03-09', recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO', recurrence_anchor: '2026-03-02', recurrence_series_id: 's1' }
+        ],
+        habitReminders: [],
+        goalCheckins: [],
+        weeklyReview: { weekly_review_day: 'sunday', weekly_review_time: '09:00', timezone: 'America/New_York' },
+        today: '2026-03-04',
+        now: NOW
+      });
+
+      expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO\r\nEXDATE;VALUE=DATE:20260302');
+      expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:America/New_York');
+      expect(ics.indexOf('END:VTIMEZONE')).toBeLessThan(ics.indexOf('BEGIN:VEVENT'));
+      expect(ics).toContain('DTSTART;TZID=America/New_York:20260308T090000');
+    });
+
+    it('should turn a year of offset changes into yearly rules', () => {
+      expect(serializeTimezone('America/New_York', 2026)).toEqual([
+        'BEGIN:VTIMEZONE',
+        'TZID:America/New_York',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20260308T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20261101T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'END:STANDARD',
+        'END:VTIMEZONE'
+      ]);
+
+      expect(serializeTimezone('Europe/London', 2026)).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+      expect(serializeTimezone('Asia/Kolkata', 2026)).toEqual([
+        'BEGIN:VTIMEZONE',
+        'TZID:Asia/Kolkata',
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        'TZOFFSETFROM:+0530',
+        'TZOFFSETTO:+0530',
+        'END:STANDARD',
+        'END:VTIMEZONE'
+      ]);
+    });
+
+    it('should escape TEXT values', () => {
+      expect(escapeIcsText('Save; invest, repeat\\\nthen rest')).toBe('Save\\; invest\\, repeat\\\\\\nthen rest');
+    });
+
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const line = `SUMMARY:${'é'.repeat(60)}`;
+      const folded = foldIcsLine(line);
+      const encoder = new TextEncoder();
+
+      expect(folded.split('\r\n ').join('')).toBe(line);
+      for (const part of folded.split('\r\n')) {
+        expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+      }
+      expect(foldIcsLine('SUMMARY:short')).toBe('SUMMARY:short');
+    });
+  });
+});
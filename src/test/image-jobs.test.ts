@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bytesToDataUrl,
+  dataUrlToBytes,
+  getImageExtension,
+  getMaxAttempts,
+  getRetryDelayMs,
+  getRetryStage,
+  getStoredImageRecord,
+  getVisionsStoragePath,
+  isOwnJobInput,
+  isTransientImageError
+} from '../../supabase/functions/_shared/image-jobs';
+
+/**
+ * Image Generation Job Tests
+ *
+ * Covers the background-worker's retry decisions, which stored images a
+ * job may touch, and the data URL handling used when generated images
+ * are uploaded to storage.
+ */
+
+describe('Image Generation Jobs', () => {
+  describe('Retries', () => {
+    it('should retry busy or unavailable models', () => {
+      expect(isTransientImageError('RESOURCE_EXHAUSTED: quota exceeded')).toBe(true);
+      expect(isTransientImageError('gemini-proxy returned 503')).toBe(true);
+      expect(isTransientImageError('Unable to generate image with your reference photos. All likeness-preserving models are currently unavailable.')).toBe(true);
+      expect(isTransientImageError('TypeError: fetch failed')).toBe(true);
+    });
+
+    it('should not retry configuration, safety or credit failures', () => {
+      expect(isTransientImageError('Your Gemini API key is invalid. API_KEY_INVALID. Image generation is currently unavailable.')).toBe(false);
+      expect(isTransientImageError('Response blocked by SAFETY filter')).toBe(false);
+      expect(isTransientImageError('No credits remaining. Upgrade to keep generating visions.')).toBe(false);
+      expect(isTransientImageError('Expected a base64 image data URL')).toBe(false);
+    });
+
+    it('should back off exponentially up to the cap', () => {
+      expect([1, 2, 3].map(a => getRetryDelayMs(a))).toEqual([2000, 4000, 8000]);
+      expect(getRetryDelayMs(10)).toBe(30000);
+    });
+
+    it('should describe the upcoming attempt', () => {
+      expect(getRetryStage(2, 3).message).toContain('attempt 2 of 3');
+    });
+
+    it('should cap the attempts a client asks for', () => {
+      expect(getMaxAttempts(undefined)).toBe(3);
+      expect(getMaxAttempts(2)).toBe(2);
+      expect(getMaxAttempts(1000)).toBe(3);
+      expect(getMaxAttempts(0)).toBe(1);
+    });
+  });
+
+  describe('Job inputs', () => {
+    const SUPABASE_URL = 'https://abc.supabase.co';
+    const USER = '11111111-1111-1111-1111-111111111111';
+    const IMAGE = '22222222-2222-2222-2222-222222222222';
+
+    it('should only follow URLs into the visions bucket of this project', () => {
+      expect(getVisionsStoragePath(`${SUPABASE_URL}/storage/v1/object/public/visions/job-inputs/${USER}/a.png`, SUPABASE_URL))
+        .toBe(`job-inputs/${USER}/a.png`);
+      expect(getVisionsStoragePath(`${SUPABASE_URL}/storage/v1/object/public/visions/${IMAGE}.png?t=1`, SUPABASE_URL)).toBe(`${IMAGE}.png`);
+
+      expect(getVisionsStoragePath('http://169.254.169.254/latest/meta-data', SUPABASE_URL)).toBeNull();
+      expect(getVisionsStoragePath(`https://abc.supabase.co.evil.com/storage/v1/object/public/visions/${IMAGE}.png`, SUPABASE_URL)).toBeNull();
+      expect(getVisionsStoragePath(`${SUPABASE_URL}/storage/v1/object/public/documents/report.pdf`, SUPABASE_URL)).toBeNull();
+      expect(getVisionsStoragePath(`${SUPABASE_URL}/functions/v1/gemini-proxy`, SUPABASE_URL)).toBeNull();
+      expect(getVisionsStoragePath(`${SUPABASE_URL}/storage/v1/object/public/visions/job-inputs%2F..%2Fx.png`, SUPABASE_URL)).toBeNull();
+    });
+
+    it('should only treat the user\'s own job uploads as removable', () => {
+      expect(isOwnJobInput(`job-inputs/${USER}/a.png`, USER)).toBe(true);
+      expect(isOwnJobInput('job-inputs/someone-else/a.png', USER)).toBe(false);
+      expect(isOwnJobInput(`${IMAGE}.png`, USER)).toBe(false);
+      expect(isOwnJobInput(`job-inputs/${USER}/../${IMAGE}.png`, USER)).toBe(false);
+    });
+
+    it('should map gallery and reference files to their rows', () => {
+      expect(getStoredImageRecord(`${IMAGE}.png`)).toEqual({ table: 'vision_boards', id: IMAGE });
+      expect(getStoredImageRecord(`${IMAGE}_medium.jpg`)).toEqual({ table: 'vision_boards', id: IMAGE });
+      expect(getStoredImageRecord(`ref_${IMAGE}.jpg`)).toEqual({ table: 'reference_images', id: IMAGE });
+      expect(getStoredImageRecord('shared/watermarked.jpg')).toBeNull();
+    });
+  });
+
+  describe('Image data', () => {
+    it('should round-trip bytes through a data URL', () => {
+      const bytes = new Uint8Array([137, 80, 78, 71, 0, 255]);
+      const dataUrl = bytesToDataUrl(bytes, 'image/png');
+
+      expect(dataUrl.startsWith('data:image/png;base64,')).toBe(true);
+      const decoded = dataUrlToBytes(dataUrl);
+      expect(decoded.mimeType).toBe('image/png');
+      expect(Array.from(decoded.bytes)).toEqual(Array.from(bytes));
+    });
+
+    it('should encode photos larger than one chunk', () => {
+      const bytes = new Uint8Array(100000).map((_, i) => i % 256);
+      expect(Array.from(dataUrlToBytes(bytesToDataUrl(bytes, 'image/jpeg')).bytes)).toEqual(Array.from(bytes));
+    });
+
+    it('should reject data that is not a base64 data URL', () => {
+      expect(() => dataUrlToBytes('https://example.com/a.png')).toThrow('base64');
+    });
+
+    it('should pick file extensions by type', () => {
+      expect(getImageExtension('image/jpeg')).toBe('jpg');
+      expect(getImageExtension('image/png')).toBe('png');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ImageClassifier,
+  moderateImage,
+  recordModeration,
+  ruleBasedClassifier
+} from '../../supabase/functions/_shared/image-moderation';
+import { isPrintBlocked } from '../../services/moderationService';
+
+/**
+ * Image Moderation Tests
+ *
+ * Covers the rule-based classifier, combining classifier scores, failing
+ * classifiers, recording decisions without overwriting earlier ones, and
+ * which statuses block printing.
+ */
+
+const vision = (prompt: string, extra: Record<string, any> = {}) => ({
+  source: 'vision' as const,
+  imageUrl: 'https://example.com/v.png',
+  prompt,
+  ...extra
+});
+
+describe('ruleBasedClassifier', () => {
+  it('should pass an ordinary vision', async () => {
+    const result = await ruleBasedClassifier.classify(vision('A couple watching the sunset from a sailboat in Lisbon'));
+
+    expect(result.scores).toEqual({});
+    expect(result.reasons).toEqual([]);
+  });
+
+  it('should score nudity, violence and trademarks in the prompt', async () => {
+    const result = await ruleBasedClassifier.classify(vision('Topless on a beach holding a gun next to a Starbucks'));
+
+    expect(result.scores.nudity).toBeGreaterThanOrEqual(0.5);
+    expect(result.scores.violence).toBeGreaterThanOrEqual(0.5);
+    expect(result.scores.trademark).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('should only flag minors when they appear in the likeness reference', async () => {
+    const scene = await ruleBasedClassifier.classify(vision('Grandparents playing with kids in the garden'));
+    expect(scene.scores.minors_likeness).toBeUndefined();
+
+    const likeness = await ruleBasedClassifier.classify(vision('At the beach', {
+      likenessTags: ['family'],
+      likenessDescriptions: ['A 9 year old girl with curly hair']
+    }));
+    expect(likeness.scores.minors_likeness).toBeGreaterThanOrEqual(0.5);
+  });
+});
+
+describe('moderateImage', () => {
+  it('should keep the highest score per category across classifiers', async () => {
+    const strict: ImageClassifier = {
+      name: 'strict',
+      classify: async () => ({ scores: { trademark: 0.95 }, reasons: ['Logo detected'] })
+    };
+
+    const result = await moderateImage(vision('A coffee with a Nike swoosh'), [ruleBasedClassifier, strict]);
+
+    expect(result.flagged).toBe(true);
+    expect(result.categories).toEqual(['trademark']);
+    expect(result.scores.trademark).toBe(0.95);
+    expect(result.classifiers).toEqual(['rules-v1', 'strict']);
+  });
+
+  it('should ignore scores under the threshold', async () => {
+    const lenient: ImageClassifier = {
+      name: 'lenient',
+      classify: async () => ({ scores: { violence: 0.2 }, reasons: [] })
+    };
+
+    const result = await moderateImage(vision('A quiet cabin'), [lenient]);
+
+    expect(result.flagged).toBe(false);
+    expect(result.categories).toEqual([]);
+  });
+
+  it('should flag the image when a classifier fails', async () => {
+    const broken: ImageClassifier = {
+      name: 'remote',
+      classify: async () => { throw new Error('timeout'); }
+    };
+
+    const result = await moderateImage(vision('A quiet cabin'), [ruleBasedClassifier, broken]);
+
+    expect(result.flagged).toBe(true);
+    expect(result.categories).toEqual([]);
+    expect(result.reasons).toContain('remote failed: timeout');
+  });
+});
+
+/**
+ * Query builder stand-in: every chained call returns the builder, and each
+ * maybeSingle() resolves with the next queued row
+ */
+const fakeSupabase = (rows: any[]) => {
+  const query: any = {};
+  for (const method of ['update', 'select', 'eq']) query[method] = vi.fn(() => query);
+  query.maybeSingle = vi.fn(async () => ({ data: rows.shift() ?? null, error: null }));
+  query.upsert = vi.fn(async () => ({ error: null }));
+  return { from: vi.fn(() => query), query };
+};
+
+describe('recordModeration', () => {
+  const item = { source: 'vision' as const, imageId: 'v1', userId: 'u1', imageUrl: 'https://example.com/v.png' };
+  const flagged = { flagged: true, categories: ['violence' as const], scores: { violence: 0.8 }, reasons: ['Mentions "gun"'], classifiers: ['rules-v1'] };
+
+  it('should flag a pending image and queue it once', async () => {
+    const { from, query } = fakeSupabase([{ id: 'v1' }]);
+
+    expect(await recordModeration({ from }, item, flagged)).toBe('flagged');
+    expect(query.update).toHaveBeenCalledWith({ moderation_status: 'flagged' });
+    expect(query.eq).toHaveBeenCalledWith('moderation_status', 'pending');
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ image_id: 'v1', source: 'vision' }),
+      { onConflict: 'image_id,source', ignoreDuplicates: true }
+    );
+  });
+
+  it('should keep an earlier decision instead of overwriting it', async () => {
+    const { from, query } = fakeSupabase([null, { moderation_status: 'rejected' }]);
+
+    expect(await recordModeration({ from }, item, { ...flagged, flagged: false, categories: [] })).toBe('rejected');
+    expect(query.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('isPrintBlocked', () => {
+  it('should block flagged and rejected images only', () => {
+    expect(isPrintBlocked('flagged')).toBe(true);
+    expect(isPrintBlocked('rejected')).toBe(true);
+    expect(isPrintBlocked('approved')).toBe(false);
+    expect(isPrintBlocked('pending')).toBe(false);
+    expect(isPrintBlocked(undefined)).toBe(false);
+  });
+});
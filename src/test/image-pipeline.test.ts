@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  IMAGE_VARIANT_SPECS,
+  buildSrcSet,
+  createImageVariants,
+  fitWithin,
+  getImageVariantPaths
+} from '../../services/imageService';
+import { PRODIGI_SPECS } from '../../services/workbook/printSpecifications';
+
+/**
+ * Image Pipeline Tests
+ *
+ * Covers variant sizing, srcset output, storage paths and keeping the
+ * print variant at print resolution.
+ */
+
+describe('fitWithin', () => {
+  it('should scale the longest edge down to the limit', () => {
+    expect(fitWithin(4000, 3000, 400)).toEqual({ width: 400, height: 300 });
+    expect(fitWithin(3000, 4000, 1280)).toEqual({ width: 960, height: 1280 });
+  });
+
+  it('should never upscale', () => {
+    expect(fitWithin(1024, 768, 1280)).toEqual({ width: 1024, height: 768 });
+  });
+});
+
+describe('buildSrcSet', () => {
+  it('should list variants smallest first', () => {
+    const srcSet = buildSrcSet({
+      print: { url: 'https://cdn/a.png', width: 2048, height: 1152 },
+      thumb: { url: 'https://cdn/a_thumb.jpg', width: 400, height: 225 },
+      medium: { url: 'https://cdn/a_medium.jpg', width: 1280, height: 720 }
+    });
+
+    expect(srcSet).toBe('https://cdn/a_thumb.jpg 400w, https://cdn/a_medium.jpg 1280w, https://cdn/a.png 2048w');
+  });
+
+  it('should be empty without variants', () => {
+    expect(buildSrcSet(undefined)).toBe('');
+    expect(buildSrcSet({})).toBe('');
+  });
+});
+
+/**
+ * Stand-ins for the browser image APIs: decoding yields an image of the
+ * given size, and each canvas encodes to a blob of its own type
+ */
+const stubBrowserImages = (width: number, height: number) => {
+  vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width, height })));
+  vi.stubGlobal('document', {
+    createElement: () => ({
+      width: 0,
+      height: 0,
+      getContext: () => ({ fillRect: vi.fn(), drawImage: vi.fn() }),
+      toBlob: (callback: (blob: Blob) => void, type: string) => callback(new Blob([], { type }))
+    })
+  });
+};
+
+describe('print variant', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep 300 DPI for the largest poster', async () => {
+    // A 24x36" poster at print resolution
+    const width = 24 * PRODIGI_SPECS.DPI;
+    const height = 36 * PRODIGI_SPECS.DPI;
+    stubBrowserImages(width, height);
+
+    const variants = await createImageVariants(new Blob([], { type: 'image/png' }));
+
+    expect(variants.print).toMatchObject({ width: 7200, height: 10800 });
+    expect(variants.print.blob.type).toBe('image/png');
+    expect(variants.medium).toMatchObject({ width: 853, height: 1280 });
+    expect(variants.thumb).toMatchObject({ width: 267, height: 400 });
+  });
+
+  it('should only downscale larger images to the print limit', async () => {
+    stubBrowserImages(20000, 10000);
+
+    const { print } = await createImageVariants(new Blob([], { type: 'image/png' }));
+
+    expect(print).toMatchObject({ width: 36 * PRODIGI_SPECS.DPI, height: 18 * PRODIGI_SPECS.DPI });
+    expect(IMAGE_VARIANT_SPECS.print.type).toBe('image/png');
+  });
+
+  it('should be stored under the original file name', () => {
+    expect(getImageVariantPaths('abc')).toEqual(['abc_thumb.jpg', 'abc_medium.jpg', 'abc.png']);
+  });
+});
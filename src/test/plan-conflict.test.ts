@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isAutoMergeable,
+  mergeTaskEdits,
+  PlanEditConflictError,
+  resolveTaskConflict
+} from '../../services/planConflictService';
+import type { ActionTask } from '../../types';
+
+/**
+ * Goal Plan Edit Conflict Tests
+ *
+ * Covers the three-way merge used when a version-checked goal save finds
+ * the goal was changed by another session, the AI coach or the voice agent.
+ */
+
+const task = (overrides: Partial<ActionTask> = {}): ActionTask => ({
+  id: 'a',
+  title: 'Open savings account',
+  description: '',
+  dueDate: '2026-03-01T00:00:00Z',
+  type: 'FINANCE',
+  isCompleted: false,
+  priority: 'medium',
+  revision: 3,
+  ...overrides
+});
+
+describe('Goal Plan Edit Conflicts', () => {
+  it('should combine edits to different fields', () => {
+    const base = task();
+    const mine = task({ title: 'Open high-yield savings account' });
+    const theirs = task({ priority: 'high', revision: 4, modifiedBy: 'voice_agent' });
+
+    const merge = mergeTaskEdits(base, mine, theirs);
+
+    expect(isAutoMergeable(merge)).toBe(true);
+    expect(merge.merged).toMatchObject({
+      title: 'Open high-yield savings account',
+      priority: 'high',
+      revision: 4
+    });
+  });
+
+  it('should report fields both sides changed differently', () => {
+    const base = task({ dependsOn: ['x'] });
+    const mine = task({ dueDate: '2026-04-01', dependsOn: ['y', 'x'] });
+    const theirs = task({ dueDate: '2026-05-01T00:00:00Z', dependsOn: ['x', 'y'], revision: 4 });
+
+    const merge = mergeTaskEdits(base, mine, theirs);
+
+    // Same dependencies in a different order are not a conflict
+    expect(merge.conflicts).toEqual([
+      { field: 'dueDate', base: '2026-03-01', mine: '2026-04-01', theirs: '2026-05-01' }
+    ]);
+    expect(isAutoMergeable(merge)).toBe(false);
+    expect(merge.merged.dueDate).toBe('2026-05-01T00:00:00Z');
+  });
+
+  it('should treat every difference as a conflict without a base', () => {
+    const merge = mergeTaskEdits(undefined, task({ title: 'Mine' }), task({ revision: 4 }));
+    expect(merge.conflicts.map(c => c.field)).toEqual(['title']);
+  });
+
+  it('should apply the user pick for each conflicting field', () => {
+    const base = task();
+    const mine = task({ title: 'Mine', description: 'My notes' });
+    const theirs = task({ title: 'Theirs', description: 'Their notes', isCompleted: true, revision: 5 });
+
+    const resolved = resolveTaskConflict(mergeTaskEdits(base, mine, theirs), { title: 'mine' });
+
+    expect(resolved).toMatchObject({
+      title: 'Mine',
+      description: 'Their notes',
+      isCompleted: true,
+      revision: 5
+    });
+  });
+
+  it('should keep the anchor with the chosen recurrence rule', () => {
+    const base = task();
+    const mine = task({ recurrenceRule: 'FREQ=MONTHLY;BYMONTHDAY=15', recurrenceAnchor: '2026-03-15' });
+    const theirs = task({ description: 'Automate transfers', revision: 4 });
+
+    const merge = mergeTaskEdits(base, mine, theirs);
+    expect(merge.merged).toMatchObject({
+      recurrenceRule: 'FREQ=MONTHLY;BYMONTHDAY=15',
+      recurrenceAnchor: '2026-03-15',
+      description: 'Automate transfers'
+    });
+  });
+
+  it('should flag a goal deleted elsewhere', () => {
+    const merge = mergeTaskEdits(task(), task({ title: 'Mine' }), null);
+    expect(merge.theirs).toBeNull();
+    expect(isAutoMergeable(merge)).toBe(false);
+
+    const error = new PlanEditConflictError('This goal was deleted elsewhere', null);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.current).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { diffPlans } from '../../services/planDiffService';
+import type { ActionTask, GoalPlan } from '../../types';
+
+/**
+ * Goal Plan Diff Tests
+ *
+ * Covers the version diff behind the Goals history compare view.
+ */
+
+const task = (id: string, title: string, displayOrder: number, overrides: Partial<ActionTask> = {}): ActionTask => ({
+  id,
+  title,
+  description: '',
+  dueDate: '2026-03-01T00:00:00Z',
+  type: 'ADMIN',
+  isCompleted: false,
+  priority: 'medium',
+  displayOrder,
+  ...overrides
+});
+
+const plan = (version: number, tasks: ActionTask[], overrides: Partial<GoalPlan> = {}): GoalPlan => ({
+  id: `plan-${version}`,
+  userId: 'user-1',
+  status: 'archived',
+  version,
+  source: 'revision',
+  createdAt: '2026-01-01T00:00:00Z',
+  tasks,
+  ...overrides
+});
+
+describe('Goal Plan Diff', () => {
+  it('should find added, removed and edited tasks', () => {
+    const base = plan(1, [
+      task('a', 'Open savings account', 0),
+      task('b', 'Meet advisor', 1),
+      task('c', 'Book trip', 2)
+    ]);
+    const compare = plan(2, [
+      task('a', 'Open high-yield savings account', 0, { priority: 'high' }),
+      task('c', 'Book trip', 1, { dueDate: '2026-04-15' }),
+      task('d', 'Cancel subscriptions', 2)
+    ]);
+
+    const diff = diffPlans(base, compare);
+
+    expect(diff.added.map(t => t.id)).toEqual(['d']);
+    expect(diff.removed.map(t => t.id)).toEqual(['b']);
+    expect(diff.edited.map(e => [e.after.id, e.changes])).toEqual([
+      ['a', [
+        { field: 'title', before: 'Open savings account', after: 'Open high-yield savings account' },
+        { field: 'priority', before: 'medium', after: 'high' }
+      ]],
+      ['c', [{ field: 'dueDate', before: '2026-03-01', after: '2026-04-15' }]]
+    ]);
+    // Removing "b" shifts "c" up without counting as a reorder
+    expect(diff.reordered).toEqual([]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('should only flag tasks that actually moved', () => {
+    const base = plan(1, ['a', 'b', 'c', 'd'].map((id, i) => task(id, `Task ${id}`, i)));
+    const compare = plan(2, ['a', 'c', 'd', 'b'].map((id, i) => task(id, `Task ${id}`, i)));
+
+    const diff = diffPlans(base, compare);
+
+    expect(diff.reordered.map(m => [m.task.id, m.fromPosition, m.toPosition])).toEqual([['b', 1, 3]]);
+    expect(diff.unchangedCount).toBe(3);
+  });
+
+  it('should match regenerated tasks by title', () => {
+    const base = plan(1, [task('old-1', 'Meet Advisor ', 0)]);
+    const compare = plan(2, [task('new-1', 'meet advisor', 0, { isCompleted: true })]);
+
+    const diff = diffPlans(base, compare);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.edited[0].changes).toEqual([
+      { field: 'title', before: 'Meet Advisor ', after: 'meet advisor' },
+      { field: 'isCompleted', before: false, after: true }
+    ]);
+  });
+
+  it('should report changed AI insights and plan targets', () => {
+    const base = plan(1, [], {
+      financialTarget: 50000,
+      aiInsights: { summary: 'Solid start', strengths: ['Saving'], suggestions: [] }
+    });
+    const compare = plan(2, [], {
+      financialTarget: 75000,
+      aiInsights: { summary: 'Solid start', strengths: ['Saving', 'Budgeting'], focusAreas: ['Debt'] }
+    });
+
+    const diff = diffPlans(base, compare);
+
+    expect(diff.insights).toEqual([
+      { field: 'strengths', before: ['Saving'], after: ['Saving', 'Budgeting'] },
+      { field: 'focusAreas', before: null, after: ['Debt'] }
+    ]);
+    expect(diff.plan).toEqual([{ field: 'financialTarget', before: 50000, after: 75000 }]);
+  });
+
+  it('should report no changes for identical versions', () => {
+    const tasks = [task('a', 'Task a', 0), task('b', 'Task b', 1)];
+    const diff = diffPlans(plan(1, tasks), plan(2, tasks.map(t => ({ ...t }))));
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.unchangedCount).toBe(2);
+  });
+});
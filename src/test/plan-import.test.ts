@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectPlanImportFormat,
+  parseCsvPlan,
+  parseImportDate,
+  parseMarkdownPlan,
+  parseTodoistExport,
+  parseTrelloExport
+} from '../../services/planImportService';
+
+/**
+ * Plan Import Tests
+ *
+ * Covers the Markdown, CSV, Todoist and Trello parsers that fill a draft
+ * plan from the Goals page import.
+ */
+
+const TODAY = '2026-03-01';
+
+describe('Plan Import', () => {
+  describe('Markdown', () => {
+    const outline = [
+      '# Early retirement plan',
+      '',
+      '## 2026: Build the foundation (due 2026-12-31)',
+      '- [x] Open a Roth IRA by March 15',
+      '- Automate savings 📅 2026-04-01',
+      '  - Pick a high-yield account',
+      '    Compare at least three banks',
+      '## Move to Lisbon',
+      '* Visit neighborhoods',
+      '* Book flights @2026-09-10'
+    ].join('\n');
+
+    it('should map headings to milestones and bullets to tasks', () => {
+      const result = parseMarkdownPlan(outline, TODAY);
+      const byTitle = (title: string) => result.tasks.find(t => t.title === title)!;
+
+      expect(result.title).toBe('Early retirement plan');
+      expect(result.milestoneCount).toBe(2);
+      expect(result.tasks.map(t => t.title)).toEqual([
+        '2026: Build the foundation',
+        'Open a Roth IRA',
+        'Automate savings',
+        'Pick a high-yield account',
+        'Move to Lisbon',
+        'Visit neighborhoods',
+        'Book flights'
+      ]);
+      expect(byTitle('Open a Roth IRA').parentTaskId).toBe(byTitle('2026: Build the foundation').id);
+      expect(byTitle('Pick a high-yield account').parentTaskId).toBe(byTitle('Automate savings').id);
+      expect(byTitle('Pick a high-yield account').description).toBe('Compare at least three banks');
+      expect(byTitle('Open a Roth IRA').isCompleted).toBe(true);
+      expect(result.tasks.every(t => t.source === 'import')).toBe(true);
+    });
+
+    it('should parse due dates and fill in the rest', () => {
+      const result = parseMarkdownPlan(outline, TODAY);
+      const byTitle = (title: string) => result.tasks.find(t => t.title === title)!;
+
+      expect(byTitle('Open a Roth IRA').dueDate).toBe('2026-03-15');
+      expect(byTitle('Automate savings').dueDate).toBe('2026-04-01');
+      // Undated tasks fall back to their parent, milestones to their latest task
+      expect(byTitle('Pick a high-yield account').dueDate).toBe('2026-04-01');
+      expect(byTitle('Move to Lisbon').dueDate).toBe('2026-09-10');
+      expect(byTitle('Visit neighborhoods').dueDate).toBe('2026-09-10');
+      expect(byTitle('Open a Roth IRA').type).toBe('FINANCE');
+      expect(byTitle('Book flights').type).toBe('LIFESTYLE');
+    });
+
+    it('should default undated plans and warn about it', () => {
+      const result = parseMarkdownPlan('- Declutter the garage', TODAY);
+
+      expect(result.tasks[0].dueDate).toBe('2026-03-31');
+      expect(result.tasks[0].type).toBe('ADMIN');
+      expect(result.issues).toEqual([expect.objectContaining({ severity: 'warning', line: 0 })]);
+      expect(parseMarkdownPlan('', TODAY).issues[0].severity).toBe('error');
+    });
+  });
+
+  describe('CSV', () => {
+    it('should read common columns and group by milestone', () => {
+      const result = parseCsvPlan([
+        'Task,Due Date,Priority,Phase,Done',
+        'Pay off credit card,2026-06-30,high,Debt free,no',
+        'Cancel unused subscriptions,4/15/2026,urgent-ish,Debt free,yes',
+        ',2026-01-01,,,'
+      ].join('\n'), TODAY);
+
+      expect(result.tasks.map(t => [t.title, t.parentTaskId ? 'child' : 'top'])).toEqual([
+        ['Debt free', 'top'],
+        ['Pay off credit card', 'child'],
+        ['Cancel unused subscriptions', 'child']
+      ]);
+      expect(result.tasks[1].priority).toBe('high');
+      expect(result.tasks[2].dueDate).toBe('2026-04-15');
+      expect(result.tasks[2].isCompleted).toBe(true);
+      expect(result.tasks[0].dueDate).toBe('2026-06-30');
+      expect(result.issues.map(i => i.line)).toEqual([3, 4]);
+    });
+
+    it('should require a title column', () => {
+      expect(parseCsvPlan('when,what\n2026-01-01,x', TODAY).issues[0].message).toMatch(/title column/);
+    });
+  });
+
+  describe('Todoist', () => {
+    it('should nest indented tasks under sections and keep recurring dates', () => {
+      const result = parseTodoistExport([
+        'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+        'section,Money,,,,,,,,',
+        'task,Review budget,,1,1,,,every month,en,',
+        'task,Export bank statements,,4,2,,,Mar 20 2026,en,',
+        'note,Use the CSV download,,,,,,,,',
+        'task,Plan summer trip,,4,1,,,someday,en,'
+      ].join('\n'), TODAY);
+      const byTitle = (title: string) => result.tasks.find(t => t.title === title)!;
+
+      expect(byTitle('Review budget').parentTaskId).toBe(byTitle('Money').id);
+      expect(byTitle('Review budget').priority).toBe('high');
+      expect(byTitle('Review budget').recurrenceRule).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+      expect(byTitle('Export bank statements').parentTaskId).toBe(byTitle('Review budget').id);
+      expect(byTitle('Export bank statements').dueDate).toBe('2026-03-20');
+      expect(byTitle('Export bank statements').description).toBe('Use the CSV download');
+      expect(result.issues.some(i => i.line === 6 && i.message.includes('someday'))).toBe(true);
+    });
+  });
+
+  describe('Trello', () => {
+    it('should map open lists, cards and checklist items', () => {
+      const board = {
+        name: 'House move',
+        lists: [
+          { id: 'l2', name: 'Later', pos: 2 },
+          { id: 'l1', name: 'This month', pos: 1 },
+          { id: 'l3', name: 'Archived', pos: 3, closed: true }
+        ],
+        cards: [
+          { id: 'c1', idList: 'l1', name: 'Get moving quotes', desc: 'Three companies', due: '2026-03-20T17:00:00.000Z', pos: 1, labels: [{ name: 'High' }] },
+          { id: 'c2', idList: 'l2', name: 'Sell the couch', pos: 1, dueComplete: true, due: '2026-05-01T00:00:00.000Z' },
+          { id: 'c3', idList: 'l1', name: 'Old card', pos: 2, closed: true },
+          { id: 'c4', idList: 'l3', name: 'Hidden', pos: 1 }
+        ],
+        checklists: [
+          { id: 'k1', idCard: 'c1', pos: 1, checkItems: [{ name: 'Call A', state: 'complete', pos: 1 }, { name: 'Call B', state: 'incomplete', pos: 2 }] }
+        ]
+      };
+
+      const result = parseTrelloExport(JSON.stringify(board), TODAY);
+
+      expect(result.title).toBe('House move');
+      expect(result.tasks.map(t => t.title)).toEqual(['This month', 'Get moving quotes', 'Call A', 'Call B', 'Later', 'Sell the couch']);
+      expect(result.tasks[1].priority).toBe('high');
+      expect(result.tasks[1].dueDate).toBe('2026-03-20');
+      expect(result.tasks[2].isCompleted).toBe(true);
+      expect(result.tasks[2].parentTaskId).toBe(result.tasks[1].id);
+      expect(result.tasks[5].isCompleted).toBe(true);
+      expect(parseTrelloExport('{"foo":1}', TODAY).issues[0].severity).toBe('error');
+    });
+  });
+
+  describe('Helpers', () => {
+    it('should detect formats', () => {
+      expect(detectPlanImportFormat('board.json', '{"lists":[]}')).toBe('trello');
+      expect(detectPlanImportFormat('export.csv', 'TYPE,CONTENT,PRIORITY')).toBe('todoist');
+      expect(detectPlanImportFormat('tasks.csv', 'title,due')).toBe('csv');
+      expect(detectPlanImportFormat('', '# Plan\n- a, b')).toBe('markdown');
+    });
+
+    it('should read common date formats', () => {
+      expect(parseImportDate('2026-07-04T10:00:00Z', TODAY)).toBe('2026-07-04');
+      expect(parseImportDate('12/25/2026', TODAY)).toBe('2026-12-25');
+      expect(parseImportDate('January 5th', TODAY)).toBe('2027-01-05');
+      expect(parseImportDate('5 Apr 2026', TODAY)).toBe('2026-04-05');
+      expect(parseImportDate('tomorrow', TODAY)).toBe('2026-03-02');
+      expect(parseImportDate('2026-02-30', TODAY)).toBeNull();
+      expect(parseImportDate('next quarter', TODAY)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMonthCalendar,
+  buildPlannerPages,
+  easterSunday,
+  getHolidays,
+  getWeekdayLabels,
+  toIsoDate
+} from '../../supabase/functions/_shared/planner-calendar';
+
+/**
+ * Planner Calendar Tests
+ *
+ * Covers week starts, locale labels, holiday sets and how months and
+ * weekly spreads are interleaved across a year boundary.
+ */
+
+describe('buildMonthCalendar', () => {
+  it('should start rows on Sunday or Monday', () => {
+    // March 2026 starts on a Sunday
+    const sunday = buildMonthCalendar(2026, 2, { weekStart: 'SUNDAY', locale: 'en-US' });
+    const monday = buildMonthCalendar(2026, 2, { weekStart: 'MONDAY', locale: 'en-US' });
+
+    expect(sunday.weeks[0][0].dateLabel).toBe('1');
+    expect(monday.weeks[0].map(d => d.dateLabel)).toEqual(['', '', '', '', '', '', '1']);
+    expect(monday.weekdayLabels).toEqual(['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN']);
+    monday.weeks.forEach(week => expect(week).toHaveLength(7));
+  });
+
+  it('should label months and weekdays in the locale', () => {
+    const month = buildMonthCalendar(2026, 2, { weekStart: 'MONDAY', locale: 'de-DE' });
+
+    expect(month.monthLabel).toBe('März');
+    expect(getWeekdayLabels('de-DE', 'MONDAY')[0]).toMatch(/^MO/);
+  });
+
+  it('should fall back to en-US for unknown locales', () => {
+    expect(buildMonthCalendar(2026, 0, { weekStart: 'SUNDAY', locale: 'not a locale' }).monthLabel).toBe('January');
+  });
+
+  it('should put holidays in the day cells', () => {
+    const month = buildMonthCalendar(2026, 10, { weekStart: 'SUNDAY', locale: 'en-US' }, iso => getHolidays(2026, ['US_FEDERAL'])[iso] || []);
+    const day26 = month.weeks.flat().find(d => d.dateLabel === '26');
+
+    expect(day26?.notes).toBe('Thanksgiving');
+  });
+});
+
+describe('getHolidays', () => {
+  it('should date Easter and the feasts that move with it', () => {
+    expect(toIsoDate(easterSunday(2026))).toBe('2026-04-05');
+    expect(toIsoDate(easterSunday(2027))).toBe('2027-03-28');
+
+    const holidays = getHolidays(2026, ['CHRISTIAN']);
+    expect(holidays['2026-02-18']).toEqual(['Ash Wednesday']);
+    expect(holidays['2026-05-24']).toEqual(['Pentecost']);
+    expect(holidays['2026-11-29']).toEqual(['First Sunday of Advent']);
+  });
+
+  it('should date national holidays by their weekday rules', () => {
+    expect(getHolidays(2026, ['UK_BANK'])['2026-05-04']).toEqual(['Early May Bank Holiday']);
+    expect(getHolidays(2026, ['CA_STATUTORY'])['2026-05-18']).toEqual(['Victoria Day']);
+    expect(getHolidays(2026, ['US_FEDERAL'])['2026-05-25']).toEqual(['Memorial Day']);
+  });
+
+  it('should list a holiday shared by two sets once', () => {
+    expect(getHolidays(2026, ['US_FEDERAL', 'CHRISTIAN'])['2026-12-25']).toEqual(['Christmas Day']);
+  });
+});
+
+describe('buildPlannerPages', () => {
+  const options = { startYear: 2026, startMonth: 8, weekStart: 'MONDAY' as const, locale: 'en-US' };
+
+  it('should cover twelve months from the start month', () => {
+    const months = buildPlannerPages(options).filter(p => p.type === 'MONTHLY_PLANNER');
+
+    expect(months).toHaveLength(12);
+    expect(months.map(m => `${m.monthlyData!.year}-${m.monthlyData!.monthIndex}`)).toEqual([
+      '2026-8', '2026-9', '2026-10', '2026-11',
+      '2027-0', '2027-1', '2027-2', '2027-3', '2027-4', '2027-5', '2027-6', '2027-7'
+    ]);
+  });
+
+  it('should follow each month with the weeks that start in it', () => {
+    const pages = buildPlannerPages(options);
+    const weeks = pages.filter(p => p.type === 'WEEKLY_PLANNER').map(p => p.weeklyData!.days[0].isoDate);
+
+    // Sept 1 2026 is a Tuesday, so the first week starts on Monday Aug 31
+    expect(weeks[0]).toBe('2026-08-31');
+    weeks.slice(1).forEach((week, i) => {
+      expect(Date.parse(week) - Date.parse(weeks[i])).toBe(7 * 24 * 60 * 60 * 1000);
+    });
+    expect(weeks[weeks.length - 1]).toBe('2027-08-30');
+
+    const october = pages.findIndex(p => p.monthlyData?.monthIndex === 9);
+    expect(pages[october - 2].weeklyData?.days[0].isoDate).toBe('2026-09-28');
+    expect(pages[october + 2].weeklyData?.days[0].isoDate).toBe('2026-10-05');
+  });
+
+  it('should pair every page into a spread', () => {
+    const pages = buildPlannerPages(options, { habits: [{ id: 'h1', name: 'Pray' }] });
+
+    expect(pages.length % 2).toBe(0);
+    for (let i = 0; i < pages.length; i += 2) {
+      expect(pages[i].spreadId).toBe(pages[i + 1].spreadId);
+    }
+    expect(pages[1].habitTracker?.habits[0].name).toBe('Pray');
+  });
+
+  it('should mark milestones on their day', () => {
+    const pages = buildPlannerPages(options, { milestones: [{ date: '2027-01-15T09:00:00Z', label: 'Launch' }] });
+    const january = pages.find(p => p.monthlyData?.monthIndex === 0)!;
+
+    expect(january.monthlyData!.weeks.flat().find(d => d.dateLabel === '15')?.notes).toBe('Launch');
+  });
+
+  it('should leave out weekly spreads when asked', () => {
+    expect(buildPlannerPages({ ...options, weeklySpreads: false })).toHaveLength(24);
+  });
+});
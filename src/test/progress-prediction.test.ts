@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDelayWeeks,
+  getHabitConsistency,
+  groupTasksIntoGoals,
+  predictFinancialGoal,
+  predictTaskGoal,
+  shouldSendPaceWarning
+} from '../../supabase/functions/_shared/progress-prediction';
+
+/**
+ * Progress Prediction Tests
+ *
+ * Covers task velocity and net worth forecasts written to
+ * progress_predictions by predict-progress, and pace warning throttling.
+ */
+
+const TODAY = '2025-06-30';
+const NO_HABITS = { expected: 0, completed: 0, rate: null, linked: false };
+
+const task = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  title: `Task ${id}`,
+  is_completed: false,
+  milestone_year: 2025,
+  ...overrides
+});
+
+describe('Progress Prediction', () => {
+  describe('Goals', () => {
+    it('should group by milestone year and skip finished goals', () => {
+      const goals = groupTasksIntoGoals([
+        task('a', { milestone_year: 2026 }),
+        task('b'),
+        task('c', { milestone_year: 2024, is_completed: true }),
+        task('d', { milestone_year: null, due_date: '2025-09-01' }),
+        task('e', { milestone_year: null, due_date: '2025-11-15T00:00:00Z' })
+      ]);
+
+      expect(goals.map(g => [g.goal_type, g.target_date])).toEqual([
+        ['2025 Milestones', '2025-12-31'],
+        ['2026 Milestones', '2026-12-31'],
+        ['Action Plan', '2025-11-15']
+      ]);
+    });
+  });
+
+  describe('Task Velocity', () => {
+    it('should compare recent velocity with the pace the target needs', () => {
+      // 4 done in the last 4 weeks = 1/week; 20 open over ~26 weeks needs 0.76/week
+      const tasks = [
+        ...['2025-06-05', '2025-06-12', '2025-06-19', '2025-06-26'].map((completed_on, i) =>
+          task(`done${i}`, { is_completed: true, completed_on })
+        ),
+        ...Array.from({ length: 20 }, (_, i) => task(`open${i}`))
+      ];
+      const prediction = predictTaskGoal(
+        { goal_type: '2025 Milestones', target_date: '2025-12-31', tasks },
+        NO_HABITS,
+        TODAY
+      );
+
+      expect(prediction.current_pace).toBe(1.31);
+      expect(prediction.status).toBe('ahead');
+      expect(prediction.predicted_completion_date).toBe('2025-11-17');
+      expect(prediction.current_value).toBe(4);
+      expect(prediction.target_value).toBe(24);
+      expect(prediction.recommendations[0]).toContain("You're on pace");
+    });
+
+    it('should flag stalled goals, overdue tasks and weak habits', () => {
+      const prediction = predictTaskGoal(
+        {
+          goal_type: 'Action Plan',
+          target_date: '2025-08-01',
+          tasks: [
+            task('late', { title: 'Call advisor', due_date: '2025-06-01' }),
+            task('next', { due_date: '2025-07-15' })
+          ]
+        },
+        { expected: 20, completed: 9, rate: 0.45, linked: true },
+        TODAY
+      );
+
+      expect(prediction.current_pace).toBe(0);
+      expect(prediction.status).toBe('at_risk');
+      expect(prediction.predicted_completion_date).toBeNull();
+      expect(prediction.recommendations).toEqual([
+        'No Action Plan tasks were completed in the last 4 weeks. Pick one small task to restart momentum.',
+        '1 task overdue. Start with "Call advisor".',
+        'Habits linked to Action Plan were done on 45% of scheduled days. Aim for 80% or more.'
+      ]);
+    });
+  });
+
+  describe('Financial Target', () => {
+    it('should project from the net worth trend', () => {
+      const snapshots = [
+        { snapshot_date: '2025-04-01', net_worth: 10000 },
+        { snapshot_date: '2025-05-01', net_worth: 11000 },
+        { snapshot_date: '2025-05-31', net_worth: 12000 },
+        { snapshot_date: '2025-06-30', net_worth: 13000 }
+      ];
+      const prediction = predictFinancialGoal(25000, '2026-06-30', snapshots, NO_HABITS, TODAY)!;
+
+      // $1,000/month against $12,000 needed over 365 days
+      expect(prediction.current_pace).toBe(1.01);
+      expect(prediction.predicted_completion_date).toBe('2026-06-25');
+      expect(prediction.metrics.trend_fit).toBe(1);
+      expect(prediction.recommendations[0]).toBe("You're on pace for $25,000. Keep growing about $1,000 per month.");
+    });
+
+    it('should need two snapshots a week apart', () => {
+      expect(predictFinancialGoal(25000, '2026-06-30', [{ snapshot_date: TODAY, net_worth: 1 }], NO_HABITS, TODAY)).toBeNull();
+      expect(predictFinancialGoal(25000, '2026-06-30', [
+        { snapshot_date: '2025-06-28', net_worth: 1 },
+        { snapshot_date: TODAY, net_worth: 2 }
+      ], NO_HABITS, TODAY)).toBeNull();
+    });
+  });
+
+  describe('Habit Consistency', () => {
+    it('should sum scheduled completions across habits', () => {
+      const habits = [
+        { id: 'h1', frequency: 'daily' as const, created_at: '2025-01-01T00:00:00Z' },
+        { id: 'h2', frequency: 'daily' as const, created_at: '2025-01-01T00:00:00Z' }
+      ];
+      const consistency = getHabitConsistency(
+        habits,
+        new Map([['h1', ['2025-06-27', '2025-06-28', '2025-06-29', '2025-06-30']], ['h2', ['2025-06-30']]]),
+        '2025-06-27',
+        TODAY,
+        'UTC',
+        false
+      );
+
+      expect(consistency.expected).toBe(8);
+      expect(consistency.completed).toBe(5);
+      expect(consistency.rate).toBe(0.625);
+    });
+  });
+
+  describe('Pace Warnings', () => {
+    it('should warn late goals at most once a week', () => {
+      const late = { current_pace: 0.5, target_date: '2025-12-31', predicted_completion_date: '2026-01-20' };
+      const now = new Date('2025-06-30T12:00:00Z');
+
+      expect(getDelayWeeks(late)).toBe(3);
+      expect(shouldSendPaceWarning(late, null, now)).toBe(true);
+      expect(shouldSendPaceWarning(late, '2025-06-26T12:00:00Z', now)).toBe(false);
+      expect(shouldSendPaceWarning(late, '2025-06-20T12:00:00Z', now)).toBe(true);
+      expect(shouldSendPaceWarning({ ...late, current_pace: 0.9 }, null, now)).toBe(false);
+      expect(shouldSendPaceWarning({ ...late, predicted_completion_date: '2025-12-01' }, null, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPromptVariables,
+  fillPromptTemplate,
+  getTemplateVariables,
+  sortPresets,
+  withNegativePrompt
+} from '../../services/promptPresetService';
+import type { PromptPreset } from '../../types';
+
+/**
+ * Prompt Preset Tests
+ *
+ * Covers template variables, filling them from the profile and onboarding
+ * answers, negative guidance and preset ordering across scopes.
+ */
+
+const preset = (overrides: Partial<PromptPreset>): PromptPreset => ({
+  id: 'p',
+  scope: 'platform',
+  name: 'Preset',
+  template: '',
+  sortOrder: 0,
+  isActive: true,
+  ...overrides
+});
+
+describe('buildPromptVariables', () => {
+  it('should take values from the profile and onboarding answers', () => {
+    const vars = buildPromptVariables(
+      { names: 'Jordan & Sam', dreamLocation: 'Lisbon', targetRetirementYear: 2032 },
+      { visionText: 'A quiet life by the sea', themeName: 'Retirement', financialTarget: 1500000 }
+    );
+
+    expect(vars).toEqual({
+      name: 'Jordan',
+      dreamLocation: 'Lisbon',
+      retirementYear: '2032',
+      financialTarget: '$1,500,000',
+      visionText: 'A quiet life by the sea',
+      theme: 'Retirement'
+    });
+  });
+
+  it('should prefer the profile financial target and skip empty values', () => {
+    const vars = buildPromptVariables({ dreamLocation: '  ', financial_target: 250000 }, { financialTarget: 1000 });
+
+    expect(vars.financialTarget).toBe('$250,000');
+    expect(vars).not.toHaveProperty('dreamLocation');
+    expect(buildPromptVariables(null, null)).toEqual({});
+  });
+});
+
+describe('fillPromptTemplate', () => {
+  it('should replace every known variable', () => {
+    const result = fillPromptTemplate('{name} on a sailboat in {dreamLocation}, {name} smiling', { name: 'Jordan', dreamLocation: 'Lisbon' });
+
+    expect(result.prompt).toBe('Jordan on a sailboat in Lisbon, Jordan smiling');
+    expect(result.missing).toEqual([]);
+  });
+
+  it('should leave missing variables in place and report them once', () => {
+    const result = fillPromptTemplate('{name} in {dreamLocation} near {dreamLocation}', { name: 'Jordan' });
+
+    expect(result.prompt).toBe('Jordan in {dreamLocation} near {dreamLocation}');
+    expect(result.missing).toEqual(['dreamLocation']);
+  });
+
+  it('should list template variables in order of first use', () => {
+    expect(getTemplateVariables('{b} and {a} then {b}')).toEqual(['b', 'a']);
+    expect(getTemplateVariables('No variables { here }')).toEqual([]);
+  });
+});
+
+describe('withNegativePrompt', () => {
+  it('should append negative guidance only when given', () => {
+    expect(withNegativePrompt('A beach ', 'text, crowds')).toBe('A beach\nAvoid: text, crowds');
+    expect(withNegativePrompt('A beach', '  ')).toBe('A beach');
+    expect(withNegativePrompt('A beach')).toBe('A beach');
+  });
+});
+
+describe('sortPresets', () => {
+  it('should order by scope, then sort order, then name', () => {
+    const sorted = sortPresets([
+      preset({ id: 'platform-b', scope: 'platform', name: 'B' }),
+      preset({ id: 'team', scope: 'team', name: 'Team' }),
+      preset({ id: 'platform-a', scope: 'platform', name: 'A' }),
+      preset({ id: 'platform-first', scope: 'platform', name: 'Z', sortOrder: -1 }),
+      preset({ id: 'mine', scope: 'personal', name: 'Mine' })
+    ]);
+
+    expect(sorted.map(p => p.id)).toEqual(['mine', 'team', 'platform-first', 'platform-a', 'platform-b']);
+  });
+});
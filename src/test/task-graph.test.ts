@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDependencyCycle,
+  getTaskGraphError,
+  sanitizeTaskLinks,
+  scheduleTasks
+} from '../../services/taskGraphService';
+import type { ActionTask } from '../../types';
+
+/**
+ * Task Graph Tests
+ *
+ * Covers subtasks, "blocked by" dependencies, cycle checks on save and
+ * the projected schedule behind the Goals timeline.
+ */
+
+const TODAY = '2026-03-01';
+
+const task = (id: string, dueDate: string, overrides: Partial<ActionTask> = {}): ActionTask => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  dueDate,
+  type: 'ADMIN',
+  isCompleted: false,
+  durationDays: 10,
+  ...overrides
+});
+
+describe('Task Graph', () => {
+  describe('Cycles', () => {
+    it('should find dependency cycles and name them', () => {
+      const tasks = [
+        task('a', '2026-04-01', { dependsOn: ['c'] }),
+        task('b', '2026-05-01', { dependsOn: ['a'] }),
+        task('c', '2026-06-01', { dependsOn: ['b'] })
+      ];
+
+      expect(findDependencyCycle(tasks)).toEqual(['a', 'c', 'b', 'a']);
+      expect(getTaskGraphError(tasks)).toBe(
+        'Dependency cycle: "Task a" → "Task c" → "Task b" → "Task a". Remove one of these links.'
+      );
+    });
+
+    it('should treat a subtask blocked by its parent as a cycle', () => {
+      const tasks = [
+        task('parent', '2026-06-01'),
+        task('child', '2026-05-01', { parentTaskId: 'parent', dependsOn: ['parent'] })
+      ];
+
+      expect(findDependencyCycle(tasks)).not.toBeNull();
+      expect(getTaskGraphError([task('a', '2026-04-01', { dependsOn: ['a'] })])).toBe('"Task a" cannot depend on itself.');
+      expect(getTaskGraphError([task('a', '2026-04-01'), task('b', '2026-05-01', { dependsOn: ['a'] })])).toBeNull();
+    });
+
+    it('should drop links to tasks outside the plan', () => {
+      const [linked] = sanitizeTaskLinks([task('a', '2026-04-01', { parentTaskId: 'gone', dependsOn: ['gone', 'a'] })]);
+
+      expect(linked.parentTaskId).toBeUndefined();
+      expect(linked.dependsOn).toEqual(['a']);
+    });
+  });
+
+  describe('Schedule', () => {
+    it('should shift dependent tasks when an upstream task slips', () => {
+      // "a" was due a week ago and is still open, so it finishes today at best
+      const schedule = scheduleTasks([
+        task('a', '2026-02-22'),
+        task('b', '2026-03-05', { dependsOn: ['a'] }),
+        task('c', '2026-03-20', { dependsOn: ['b'] }),
+        task('side', '2026-03-02')
+      ], TODAY);
+      const entry = (id: string) => schedule.entries.find(e => e.taskId === id)!;
+
+      expect(entry('a').end).toBe('2026-03-01');
+      expect(entry('a').shiftDays).toBe(7);
+      expect(entry('b').end).toBe('2026-03-11');
+      expect(entry('b').shiftDays).toBe(6);
+      expect(entry('b').blockedBy).toEqual(['a']);
+      expect(entry('c').end).toBe('2026-03-21');
+      expect(entry('side').shiftDays).toBe(0);
+      expect(schedule.criticalPath).toEqual(['a', 'b', 'c']);
+      expect(schedule.projectEnd).toBe('2026-03-21');
+      expect(entry('side').isCritical).toBe(false);
+    });
+
+    it('should not let completed tasks hold anything up', () => {
+      const schedule = scheduleTasks([
+        task('a', '2026-02-01', { isCompleted: true }),
+        task('b', '2026-03-05', { dependsOn: ['a'] })
+      ], TODAY);
+
+      expect(schedule.entries.map(e => e.shiftDays)).toEqual([0, 0]);
+      expect(schedule.entries[1].blockedBy).toEqual([]);
+      expect(schedule.criticalPath).toEqual(['b']);
+    });
+
+    it('should finish parents with their subtasks and list subtasks underneath', () => {
+      const schedule = scheduleTasks([
+        task('parent', '2026-04-01', { displayOrder: 0 }),
+        task('other', '2026-04-01', { displayOrder: 1 }),
+        task('child', '2026-04-15', { displayOrder: 2, parentTaskId: 'parent' })
+      ], TODAY);
+
+      expect(schedule.entries.map(e => [e.taskId, e.depth])).toEqual([['parent', 0], ['child', 1], ['other', 0]]);
+      expect(schedule.entries[0].end).toBe('2026-04-15');
+      expect(schedule.criticalPath).toEqual(['child', 'parent']);
+    });
+
+    it('should report cycles instead of projecting dates', () => {
+      const schedule = scheduleTasks([
+        task('a', '2026-04-01', { dependsOn: ['b'] }),
+        task('b', '2026-04-01', { dependsOn: ['a'] })
+      ], TODAY);
+
+      expect(schedule.cycle).toEqual(['a', 'b', 'a']);
+      expect(schedule.criticalPath).toEqual([]);
+      expect(schedule.projectEnd).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRecurrence,
+  getOccurrencesAfter,
+  normalizeRecurrence,
+  parseRecurrenceRule,
+  planNextOccurrence
+} from '../../supabase/functions/_shared/task-recurrence';
+
+/**
+ * Task Recurrence Tests
+ *
+ * Covers RRULE parsing, the phrases accepted from the Goals page and the
+ * voice coach, and how the next occurrence is picked when one is done.
+ */
+
+describe('Task Recurrence', () => {
+  describe('Rules', () => {
+    it('should pin phrases to the anchor date', () => {
+      expect(normalizeRecurrence('quarterly', '2026-01-15')).toBe('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15');
+      expect(normalizeRecurrence('Annual', '2026-03-14')).toBe('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=14');
+      expect(normalizeRecurrence('every 2 weeks', '2026-03-02')).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+      expect(normalizeRecurrence('every friday', '2026-03-02')).toBe('FREQ=WEEKLY;BYDAY=FR');
+      expect(normalizeRecurrence('RRULE:FREQ=MONTHLY;BYDAY=1MO', '2026-03-02')).toBe('FREQ=MONTHLY;BYDAY=1MO');
+    });
+
+    it('should reject input it cannot schedule', () => {
+      expect(() => normalizeRecurrence('whenever I feel like it', '2026-03-02')).toThrow(/Unrecognized recurrence/);
+      expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow(/Unsupported recurrence frequency/);
+      expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20260101')).toThrow();
+    });
+
+    it('should describe rules in plain words', () => {
+      expect(describeRecurrence('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15')).toBe('Every 3 months on day 15');
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')).toBe('Weekly on weekdays');
+      expect(describeRecurrence('FREQ=MONTHLY;BYDAY=-1FR')).toBe('Monthly on the last Friday');
+      expect(describeRecurrence('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=1')).toBe('Yearly on Mar 1');
+      expect(describeRecurrence('quarterly')).toBe('Every 3 months');
+    });
+  });
+
+  describe('Occurrences', () => {
+    it('should keep monthly tasks on the 31st without drifting', () => {
+      const rule = normalizeRecurrence('monthly', '2026-01-31');
+
+      expect(getOccurrencesAfter(rule, '2026-01-31', '2026-01-31', 3)).toEqual(['2026-02-28', '2026-03-31', '2026-04-30']);
+    });
+
+    it('should follow intervals, weekdays and nth weekdays', () => {
+      expect(getOccurrencesAfter('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15', '2026-01-15', '2026-01-15', 2))
+        .toEqual(['2026-04-15', '2026-07-15']);
+      expect(getOccurrencesAfter('FREQ=WEEKLY;BYDAY=MO,TH', '2026-03-02', '2026-03-02', 3))
+        .toEqual(['2026-03-05', '2026-03-09', '2026-03-12']);
+      expect(getOccurrencesAfter('FREQ=MONTHLY;BYDAY=-1FR', '2026-01-30', '2026-01-30', 2))
+        .toEqual(['2026-02-27', '2026-03-27']);
+    });
+
+    it('should stop at COUNT and UNTIL', () => {
+      expect(getOccurrencesAfter('FREQ=DAILY;COUNT=3', '2026-01-01', '2026-01-01', 10)).toEqual(['2026-01-02', '2026-01-03']);
+      expect(getOccurrencesAfter('FREQ=WEEKLY;UNTIL=20260120', '2026-01-01', '2026-01-01', 10)).toEqual(['2026-01-08', '2026-01-15']);
+    });
+
+    it('should record lapsed occurrences as skipped when catching up', () => {
+      const rule = 'FREQ=MONTHLY;BYMONTHDAY=10';
+
+      expect(planNextOccurrence(rule, '2026-01-10', '2026-01-10', '2026-04-15')).toEqual({
+        skipped: ['2026-02-10', '2026-03-10', '2026-04-10'],
+        next: '2026-05-10'
+      });
+      expect(planNextOccurrence(rule, '2026-01-10', '2026-01-10', '2026-04-10')).toEqual({
+        skipped: ['2026-02-10', '2026-03-10'],
+        next: '2026-04-10'
+      });
+      expect(planNextOccurrence('FREQ=DAILY;COUNT=2', '2026-01-01', '2026-01-02', '2026-01-01').next).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TAG_LENGTH,
+  MAX_TAGS_PER_IMAGE,
+  buildPrefixSearchQuery,
+  countTags,
+  mergeTags,
+  normalizeTags,
+  removeTag,
+  updateSelection
+} from '../../services/visionLibraryService';
+
+/**
+ * Vision Library Tests
+ *
+ * Covers tag clean-up and counts, the full-text prefix query sent to the
+ * gallery search, and shift-click range selection for bulk actions.
+ */
+
+describe('normalizeTags', () => {
+  it('should lowercase, trim, strip # and de-duplicate', () => {
+    expect(normalizeTags(' Beach, #travel,beach ,, 2030 ')).toEqual(['beach', 'travel', '2030']);
+    expect(normalizeTags(['Dream  Home', 'dream home'])).toEqual(['dream home']);
+  });
+
+  it('should cap tag length', () => {
+    expect(normalizeTags('x'.repeat(50))[0]).toHaveLength(MAX_TAG_LENGTH);
+  });
+});
+
+describe('mergeTags / removeTag', () => {
+  it('should append new tags after existing ones', () => {
+    expect(mergeTags(['beach'], 'Travel, beach')).toEqual(['beach', 'travel']);
+    expect(mergeTags(undefined, ['home'])).toEqual(['home']);
+  });
+
+  it('should keep the per-image limit', () => {
+    const existing = Array.from({ length: MAX_TAGS_PER_IMAGE }, (_, i) => `tag${i}`);
+    expect(mergeTags(existing, 'one more')).toHaveLength(MAX_TAGS_PER_IMAGE);
+  });
+
+  it('should remove a single tag', () => {
+    expect(removeTag(['beach', 'travel'], 'beach')).toEqual(['travel']);
+    expect(removeTag(undefined, 'beach')).toEqual([]);
+  });
+});
+
+describe('countTags', () => {
+  it('should order by usage then name', () => {
+    const counts = countTags([{ tags: ['travel', 'beach'] }, { tags: ['beach'] }, { tags: ['art'] }, {}]);
+
+    expect(counts).toEqual([
+      { tag: 'beach', count: 2 },
+      { tag: 'art', count: 1 },
+      { tag: 'travel', count: 1 }
+    ]);
+  });
+});
+
+describe('buildPrefixSearchQuery', () => {
+  it('should match every word as a prefix', () => {
+    expect(buildPrefixSearchQuery('Beach vil')).toBe('beach:* & vil:*');
+  });
+
+  it('should drop tsquery operators and punctuation', () => {
+    expect(buildPrefixSearchQuery("home's & (garden) | !pool")).toBe('home:* & s:* & garden:* & pool:*');
+  });
+
+  it('should return null for empty input', () => {
+    expect(buildPrefixSearchQuery('  ')).toBeNull();
+    expect(buildPrefixSearchQuery('&|!')).toBeNull();
+  });
+});
+
+describe('updateSelection', () => {
+  const ids = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should toggle a single image', () => {
+    expect(updateSelection([], ids, 'b', null, false)).toEqual(['b']);
+    expect(updateSelection(['b'], ids, 'b', 'b', false)).toEqual([]);
+  });
+
+  it('should select the range from the anchor in either direction', () => {
+    expect(updateSelection(['b'], ids, 'd', 'b', true)).toEqual(['b', 'c', 'd']);
+    expect(updateSelection(['e'], ids, 'c', 'e', true)).toEqual(['e', 'c', 'd']);
+  });
+
+  it('should fall back to a toggle without a usable anchor', () => {
+    expect(updateSelection([], ids, 'c', null, true)).toEqual(['c']);
+    expect(updateSelection([], ids, 'c', 'missing', true)).toEqual(['c']);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLineageTree,
+  flattenLineage,
+  getPreviousVersion,
+  getVersionPath,
+  groupByLineage
+} from '../../services/visionLineageService';
+import type { VisionImage } from '../../types';
+
+/**
+ * Vision Image Lineage Tests
+ *
+ * Covers the version tree shown in the Vision Board history panel
+ * (step back, branches) and the per-vision grouping used by the Gallery.
+ */
+
+const version = (id: string, createdAt: number, parentImageId?: string, lineageRootId = 'a'): VisionImage => ({
+  id,
+  url: `https://example.com/${id}.png`,
+  prompt: `Prompt ${id}`,
+  createdAt,
+  parentImageId,
+  lineageRootId
+});
+
+// a -> b -> c, and a second branch a -> d
+const lineage = [
+  version('c', 3, 'b'),
+  version('a', 1),
+  version('d', 4, 'a'),
+  version('b', 2, 'a')
+];
+
+describe('buildLineageTree', () => {
+  it('should nest versions under the image they were generated from', () => {
+    const roots = buildLineageTree(lineage);
+
+    expect(roots).toHaveLength(1);
+    expect(roots[0].image.id).toBe('a');
+    expect(roots[0].children.map(n => n.image.id)).toEqual(['b', 'd']);
+    expect(roots[0].children[0].children[0].image.id).toBe('c');
+    expect(roots[0].children[0].children[0].depth).toBe(2);
+  });
+
+  it('should treat a version whose parent was deleted as a root', () => {
+    const roots = buildLineageTree(lineage.filter(v => v.id !== 'b'));
+
+    expect(roots.map(n => n.image.id)).toEqual(['a', 'c']);
+    expect(roots[1].depth).toBe(0);
+  });
+});
+
+describe('flattenLineage', () => {
+  it('should list each branch depth-first', () => {
+    const flat = flattenLineage(buildLineageTree(lineage));
+
+    expect(flat.map(n => n.image.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(flat.map(n => n.depth)).toEqual([0, 1, 2, 1]);
+  });
+});
+
+describe('getVersionPath / getPreviousVersion', () => {
+  it('should walk from the first version down to the requested one', () => {
+    expect(getVersionPath(lineage, 'c').map(v => v.id)).toEqual(['a', 'b', 'c']);
+    expect(getVersionPath(lineage, 'missing')).toEqual([]);
+  });
+
+  it('should step back to the parent version', () => {
+    expect(getPreviousVersion(lineage, 'c')?.id).toBe('b');
+    expect(getPreviousVersion(lineage, 'd')?.id).toBe('a');
+    expect(getPreviousVersion(lineage, 'a')).toBeNull();
+  });
+
+  it('should stop on a parent cycle instead of looping', () => {
+    const cyclic = [version('x', 1, 'y'), version('y', 2, 'x')];
+    expect(getVersionPath(cyclic, 'x').map(v => v.id)).toEqual(['y', 'x']);
+  });
+});
+
+describe('groupByLineage', () => {
+  it('should show one group per vision with its latest version first', () => {
+    const images = [
+      ...lineage,
+      version('solo', 10, undefined, 'solo'),
+      // Rows saved before lineage tracking have no root; they stand alone
+      { id: 'legacy', url: 'https://example.com/legacy.png', prompt: 'Legacy', createdAt: 0 }
+    ];
+
+    const groups = groupByLineage(images);
+
+    expect(groups.map(g => g.rootId)).toEqual(['solo', 'a', 'legacy']);
+    expect(groups[1].latest.id).toBe('d');
+    expect(groups[1].versions.map(v => v.id)).toEqual(['d', 'c', 'b', 'a']);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildSharePreviewHtml,
+  createShare,
+  generateShareToken,
+  getShareExpiry,
+  getShareState,
+  hashPasscode,
+  revokeShare,
+  timingSafeEqual,
+  verifyPasscode
+} from '../../supabase/functions/_shared/vision-share';
+import { parseShareToken } from '../../services/visionShareService';
+
+/**
+ * Vision Share Link Tests
+ *
+ * Covers share tokens, passcode hashing, expiry and revocation, the link
+ * preview page, the owner's create and revoke actions and parsing the
+ * public /share/:token route.
+ */
+
+describe('generateShareToken', () => {
+  it('should produce distinct URL-safe tokens', () => {
+    const a = generateShareToken();
+    const b = generateShareToken();
+
+    expect(a).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(a).not.toBe(b);
+    expect(parseShareToken(`/share/${a}`)).toBe(a);
+  });
+});
+
+describe('hashPasscode / verifyPasscode', () => {
+  it('should accept the right passcode and reject others', async () => {
+    const stored = await hashPasscode('sunrise');
+
+    expect(stored).not.toContain('sunrise');
+    expect(await verifyPasscode('sunrise', stored)).toBe(true);
+    expect(await verifyPasscode(' sunrise ', stored)).toBe(true);
+    expect(await verifyPasscode('sunset', stored)).toBe(false);
+  });
+
+  it('should salt each hash', async () => {
+    expect(await hashPasscode('same')).not.toBe(await hashPasscode('same'));
+  });
+
+  it('should store a PBKDF2 hash with its iteration count', async () => {
+    expect(await hashPasscode('sunrise')).toMatch(/^pbkdf2\$100000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+  });
+
+  it('should reject malformed stored hashes', async () => {
+    expect(await verifyPasscode('sunrise', '')).toBe(false);
+    expect(await verifyPasscode('sunrise', 'abc:def')).toBe(false);
+    expect(await verifyPasscode('sunrise', 'pbkdf2$0$00$00')).toBe(false);
+  });
+
+  it('should compare bytes of any length', () => {
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true);
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false);
+    expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 0]))).toBe(false);
+  });
+});
+
+describe('getShareState', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('should treat revoked before expired', () => {
+    expect(getShareState({ expires_at: '2026-02-01T00:00:00Z', revoked_at: '2026-01-01T00:00:00Z' }, now)).toBe('revoked');
+  });
+
+  it('should expire at the expiry time', () => {
+    expect(getShareState({ expires_at: '2026-03-01T12:00:00Z', revoked_at: null }, now)).toBe('expired');
+    expect(getShareState({ expires_at: '2026-03-02T00:00:00Z', revoked_at: null }, now)).toBe('active');
+    expect(getShareState({ expires_at: null, revoked_at: null }, now)).toBe('active');
+  });
+
+  it('should compute expiry from a number of days', () => {
+    expect(getShareExpiry(7, now)).toBe('2026-03-08T12:00:00.000Z');
+    expect(getShareExpiry(null, now)).toBeNull();
+  });
+});
+
+describe('buildSharePreviewHtml', () => {
+  it('should include escaped Open Graph tags and a redirect to the app', () => {
+    const html = buildSharePreviewHtml({
+      title: 'Our "Dream" <Home>',
+      description: 'Goals: Buy land',
+      imageUrl: 'https://example.com/v.png',
+      pageUrl: 'https://app.example.com/share/abc'
+    });
+
+    expect(html).toContain('<meta property="og:title" content="Our &quot;Dream&quot; &lt;Home&gt;">');
+    expect(html).toContain('<meta property="og:image" content="https://example.com/v.png">');
+    expect(html).toContain('url=https://app.example.com/share/abc');
+    expect(html).not.toContain('<Home>');
+  });
+
+  it('should leave out the image when none is given', () => {
+    const html = buildSharePreviewHtml({ title: 'Locked', description: '', imageUrl: '', pageUrl: 'https://app.example.com/share/abc' });
+
+    expect(html).not.toContain('og:image');
+    expect(html).toContain('content="summary"');
+  });
+});
+
+/**
+ * Query builder stand-in: every chained call returns the builder, and
+ * single()/maybeSingle() resolve with the given row
+ */
+const fakeSupabase = (row: any) => {
+  const query: any = {};
+  for (const method of ['select', 'insert', 'update', 'eq', 'is']) query[method] = vi.fn(() => query);
+  query.single = vi.fn(async () => ({ data: row, error: null }));
+  query.maybeSingle = vi.fn(async () => ({ data: row, error: null }));
+  const bucket = {
+    getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://cdn.example.com/${path}` } })),
+    remove: vi.fn(async () => ({ error: null }))
+  };
+  return { from: vi.fn(() => query), storage: { from: vi.fn(() => bucket) }, query, bucket };
+};
+
+describe('createShare', () => {
+  const vision = { id: 'v1', image_url: 'https://cdn.example.com/v1.png' };
+
+  it('should check the vision with the user client and write the share with the service role', async () => {
+    const user = fakeSupabase(vision);
+    const admin = fakeSupabase({ id: 's1', vision_id: 'v1' });
+
+    const share = await createShare(user, admin, 'u1', {
+      vision_id: 'v1',
+      title: '  Dream Home  ',
+      goals: [{ title: ' Buy land ', completed: true }, { title: '' }, null],
+      passcode: 'sunrise',
+      expires_in_days: 7
+    });
+
+    expect(share).toEqual({ id: 's1', vision_id: 'v1' });
+    expect(user.from).toHaveBeenCalledWith('vision_boards');
+    expect(user.query.eq).toHaveBeenCalledWith('user_id', 'u1');
+    expect(user.query.insert).not.toHaveBeenCalled();
+    expect(admin.from).toHaveBeenCalledWith('vision_shares');
+
+    const row = admin.query.insert.mock.calls[0][0];
+    expect(row).toMatchObject({
+      user_id: 'u1',
+      vision_id: 'v1',
+      title: 'Dream Home',
+      goals: [{ title: 'Buy land', completed: true }],
+      image_url: vision.image_url,
+      watermarked_path: null
+    });
+    expect(row.token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(await verifyPasscode('sunrise', row.passcode_hash)).toBe(true);
+    expect(row.expires_at).not.toBeNull();
+  });
+
+  it('should share the watermarked copy only from the user\'s folder', async () => {
+    const admin = fakeSupabase({ id: 's1' });
+
+    await createShare(fakeSupabase(vision), admin, 'u1', { vision_id: 'v1', watermarked_path: 'shares/u1/v1.png' });
+    expect(admin.query.insert.mock.calls[0][0].image_url).toBe('https://cdn.example.com/shares/u1/v1.png');
+
+    await expect(createShare(fakeSupabase(vision), admin, 'u1', { vision_id: 'v1', watermarked_path: 'shares/u2/v1.png' }))
+      .rejects.toThrow('Invalid watermarked image path');
+  });
+
+  it('should not write a share for someone else\'s vision', async () => {
+    const admin = fakeSupabase({ id: 's1' });
+
+    await expect(createShare(fakeSupabase(null), admin, 'u1', { vision_id: 'v2' })).rejects.toThrow('Vision not found');
+    expect(admin.query.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('revokeShare', () => {
+  it('should revoke only the owner\'s active link and remove its watermarked copy', async () => {
+    const admin = fakeSupabase({ id: 's1', watermarked_path: 'shares/u1/v1.png' });
+
+    expect(await revokeShare(admin, 'u1', 's1')).toBe(true);
+    expect(admin.query.update).toHaveBeenCalledWith({ revoked_at: expect.any(String) });
+    expect(admin.query.eq).toHaveBeenCalledWith('id', 's1');
+    expect(admin.query.eq).toHaveBeenCalledWith('user_id', 'u1');
+    expect(admin.query.is).toHaveBeenCalledWith('revoked_at', null);
+    expect(admin.bucket.remove).toHaveBeenCalledWith(['shares/u1/v1.png']);
+  });
+
+  it('should report links that were not found or already revoked', async () => {
+    const admin = fakeSupabase(null);
+
+    expect(await revokeShare(admin, 'u1', 's1')).toBe(false);
+    expect(admin.bucket.remove).not.toHaveBeenCalled();
+    await expect(revokeShare(admin, 'u1', '')).rejects.toThrow('Missing share_id');
+  });
+});
+
+describe('parseShareToken', () => {
+  it('should only match the public share route', () => {
+    expect(parseShareToken('/share/abcdefghijklmnop1234/')).toBe('abcdefghijklmnop1234');
+    expect(parseShareToken('/share/short')).toBeNull();
+    expect(parseShareToken('/gallery')).toBeNull();
+    expect(parseShareToken('/share/abcdefghijklmnop1234/extra')).toBeNull();
+  });
+});
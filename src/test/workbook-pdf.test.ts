@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import * as pdfLib from 'pdf-lib';
+import {
+  LayoutPage,
+  THEME_PALETTES,
+  getSafeArea,
+  layoutWorkbook,
+  layoutWorkbookPage,
+  measureText,
+  wrapText
+} from '../../supabase/functions/_shared/workbook-layout';
+import { renderWorkbookPdf } from '../../supabase/functions/_shared/workbook-pdf';
+
+/**
+ * Workbook PDF Tests
+ *
+ * Covers the shared page layout (page size, safe area, wrapping, themes)
+ * and that rendering the same pages always gives the same PDF bytes.
+ */
+
+const trade = { widthPx: 1800, heightPx: 2700, safeMarginPx: 118, dpi: 300 };
+
+// 2x1 PNG
+const PNG = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAIAAAB7QOjdAAAAEElEQVR4nGP4z8DAwMDAAAAI/AH/6Yq2qAAAAABJRU5ErkJggg=='), c => c.charCodeAt(0));
+
+const page = (extra: Partial<LayoutPage> = {}): LayoutPage => ({
+  type: 'TITLE_PAGE',
+  pageNumber: 1,
+  layout: trade,
+  textBlocks: [],
+  imageBlocks: [],
+  ...extra
+});
+
+const workbook: LayoutPage[] = [
+  page({
+    type: 'COVER_FRONT',
+    textBlocks: [{ role: 'TITLE', content: 'My Vision Workbook', position: { x: 50, y: 40 } }],
+    imageBlocks: [{ url: 'https://cdn/cover.png', position: { x: 0, y: 0, w: 100, h: 100 } }]
+  }),
+  page({
+    type: 'MONTHLY_PLANNER',
+    pageNumber: 2,
+    monthlyData: { year: 2026, monthIndex: 0, monthLabel: 'January', weeks: [[{ id: 'd1', dateLabel: '1' }]] }
+  }),
+  page({
+    type: 'HABIT_TRACKER',
+    pageNumber: 3,
+    habitTracker: { habits: [{ id: 'h1', name: 'Morning run' }], period: 'MONTH' }
+  })
+];
+
+const render = (pages: LayoutPage[]) => renderWorkbookPdf(pdfLib, pages, {
+  theme: 'faith',
+  fetchBytes: async () => PNG
+});
+
+describe('getSafeArea', () => {
+  it('should inset the 10mm safety margin in points', () => {
+    const area = getSafeArea(trade, 1);
+
+    expect(area.left).toBeCloseTo(28.32, 1);
+    expect(area.right).toBeCloseTo(432 - 28.32, 1);
+    expect(area.bottom).toBeCloseTo(648 - 28.32, 1);
+  });
+
+  it('should put the spiral margin on the binding edge', () => {
+    const spiral = { ...trade, spiralEdgeMarginPx: 142 };
+
+    expect(getSafeArea(spiral, 1).left).toBeCloseTo(28.32 + 34.08, 1);
+    expect(getSafeArea(spiral, 2).right).toBeCloseTo(432 - 28.32 - 34.08, 1);
+  });
+});
+
+describe('wrapText', () => {
+  it('should keep every line inside the width', () => {
+    const lines = wrapText('Every page in this workbook is a step closer to the life you deserve', 'sans', 10, 120);
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(measureText(line, 'sans', 10)).toBeLessThanOrEqual(120));
+  });
+
+  it('should break words longer than the width', () => {
+    expect(wrapText('Supercalifragilisticexpialidocious', 'sans', 10, 60).length).toBeGreaterThan(1);
+  });
+});
+
+describe('layoutWorkbookPage', () => {
+  it('should size the page from the trim size', () => {
+    const a4 = layoutWorkbookPage(page({ layout: { widthPx: 2480, heightPx: 3508, safeMarginPx: 118, dpi: 300 } }));
+
+    expect(a4.width).toBeCloseTo(595.2, 1);
+    expect(a4.height).toBeCloseTo(841.9, 1);
+  });
+
+  it('should draw the cover in the theme color with its image', () => {
+    const cover = layoutWorkbookPage(workbook[0], { theme: 'health' });
+
+    expect(cover.background).toBe(THEME_PALETTES.health.primary);
+    expect(cover.ops.find(op => op.kind === 'image')?.url).toBe('https://cdn/cover.png');
+  });
+
+  it('should keep text blocks inside the safe area', () => {
+    const scene = layoutWorkbookPage(page({
+      textBlocks: [{ role: 'BODY', content: 'A long note placed right at the edge of the page', position: { x: 98, y: 99 } }]
+    }));
+    const area = getSafeArea(trade, 1);
+    const text = scene.ops.filter(op => op.kind === 'text');
+
+    expect(text.length).toBeGreaterThan(0);
+    text.forEach(op => {
+      const half = measureText(op.text!, op.font!, op.size!) / 2;
+      expect(op.x - half).toBeGreaterThanOrEqual(area.left);
+      expect(op.x + half).toBeLessThanOrEqual(area.right + 0.01);
+      expect(op.y).toBeLessThanOrEqual(area.bottom);
+    });
+  });
+
+  it('should pad the workbook to an even page count', () => {
+    expect(layoutWorkbook(workbook)).toHaveLength(4);
+  });
+});
+
+describe('renderWorkbookPdf', () => {
+  it('should render the same bytes every time', async () => {
+    const first = await render(workbook);
+    const second = await render(workbook);
+
+    expect(Array.from(first)).toEqual(Array.from(second));
+  });
+
+  it('should print every page at the trim size', async () => {
+    const doc = await pdfLib.PDFDocument.load(await render(workbook));
+
+    expect(doc.getPageCount()).toBe(4);
+    expect(doc.getPage(0).getSize()).toEqual({ width: 432, height: 648 });
+    expect(doc.getTitle()).toBe('My Vision Workbook');
+  });
+
+  it('should reject images it can\'t print', async () => {
+    await expect(renderWorkbookPdf(pdfLib, workbook, {
+      fetchBytes: async () => new TextEncoder().encode('RIFF....WEBP')
+    })).rejects.toThrow('Unsupported image format');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import WorkbookPageRenderer from '../../components/workbook/WorkbookPageRenderer';
+import { PRODIGI_SPECS, calculateSafeArea } from '../../services/workbook/printSpecifications';
+import {
+  SceneOp,
+  THEME_PALETTES,
+  layoutWorkbookPage,
+  measureText,
+  pxToPt
+} from '../../supabase/functions/_shared/workbook-layout';
+import { WORKBOOK_PAGE_FIXTURES } from './fixtures/workbook-pages';
+
+/**
+ * Workbook Page Renderer Tests
+ *
+ * Visual regression for the preview: each page type is rendered to SVG
+ * and compared with its stored snapshot in __snapshots__/workbook-renderers.
+ * Run `npx vitest run -u` after an intended layout change and review the
+ * SVG diffs.
+ */
+
+const toPt = (px: number) => pxToPt(px, PRODIGI_SPECS.DPI);
+
+const safe = calculateSafeArea('TRADE_6x9');
+const area = {
+  left: toPt(safe.offsetX),
+  top: toPt(safe.offsetY),
+  right: toPt(safe.offsetX + safe.width),
+  bottom: toPt(safe.offsetY + safe.height)
+};
+
+/**
+ * Horizontal and vertical extent of a draw op (text is approximated by
+ * its advance width and the cap height above the baseline)
+ */
+function bounds(op: SceneOp) {
+  switch (op.kind) {
+    case 'line':
+      return { left: Math.min(op.x, op.x2!), right: Math.max(op.x, op.x2!), top: Math.min(op.y, op.y2!), bottom: Math.max(op.y, op.y2!) };
+    case 'circle':
+      return { left: op.x - op.r!, right: op.x + op.r!, top: op.y - op.r!, bottom: op.y + op.r! };
+    case 'text': {
+      const width = measureText(op.text!, op.font!, op.size!);
+      const left = op.anchor === 'middle' ? op.x - width / 2 : op.anchor === 'end' ? op.x - width : op.x;
+      return { left, right: left + width, top: op.y - op.size! * 0.7, bottom: op.y };
+    }
+    default:
+      return { left: op.x, right: op.x + op.w!, top: op.y, bottom: op.y + op.h! };
+  }
+}
+
+describe('WorkbookPageRenderer', () => {
+  WORKBOOK_PAGE_FIXTURES.forEach(page => {
+    describe(page.type, () => {
+      it('should match the snapshot', async () => {
+        const svg = renderToStaticMarkup(<WorkbookPageRenderer page={page} theme="faith" />);
+
+        await expect(svg).toMatchFileSnapshot(`./__snapshots__/workbook-renderers/${page.type}.svg`);
+      });
+
+      it('should keep everything inside the safe area', () => {
+        const { ops } = layoutWorkbookPage(page);
+
+        expect(ops.length).toBeGreaterThan(0);
+        ops.forEach(op => {
+          const box = bounds(op);
+          expect(box.left).toBeGreaterThanOrEqual(area.left - 0.01);
+          expect(box.right).toBeLessThanOrEqual(area.right + 0.01);
+          expect(box.top).toBeGreaterThanOrEqual(area.top - 0.01);
+          expect(box.bottom).toBeLessThanOrEqual(area.bottom + 0.01);
+        });
+      });
+
+      it('should draw in the theme pack colors', () => {
+        const { ops, background } = layoutWorkbookPage(page, { theme: 'health' });
+        const colors = new Set([background, ...ops.flatMap(op => [op.fill, op.stroke])]);
+
+        expect(colors.has(THEME_PALETTES.health.primary) || colors.has(THEME_PALETTES.health.accent)).toBe(true);
+        expect(colors.has(THEME_PALETTES.faith.primary)).toBe(false);
+      });
+    });
+  });
+
+  it('should fill in default days and prompts when the page has none', () => {
+    const weekly = WORKBOOK_PAGE_FIXTURES.find(p => p.type === 'WEEKLY_PLANNER')!;
+    const reflection = WORKBOOK_PAGE_FIXTURES.find(p => p.type === 'REFLECTION_MONTH')!;
+    const texts = (ops: SceneOp[]) => ops.filter(op => op.kind === 'text').map(op => op.text);
+
+    expect(texts(layoutWorkbookPage({ ...weekly, weeklyData: undefined }).ops)).toContain('SUNDAY');
+    expect(texts(layoutWorkbookPage({ ...reflection, reflectionPrompts: undefined }).ops)).toContain('03');
+  });
+});
@@ -34,6 +34,7 @@ vi.mock('../../services/workbook/workbookLayoutService', () => ({
 
 // Import after mocking
 import { buildInitialWorkbookPages, BuildOptions, CoverThemeId } from '../../services/workbook/workbookService';
+import { isValidPageCount } from '../../services/workbook/printSpecifications';
 import { VisionImage, Habit } from '../../types';
 import { generatePage } from '../../services/workbook/workbookLayoutService';
 
@@ -256,5 +257,65 @@ describe('workbookService', () => {
             expect(pageTypes).toContain('GOAL_OVERVIEW');
             expect(pageTypes).toContain('HABIT_TRACKER');
         });
+
+        it('should pad the workbook to a valid page count for the binding', async () => {
+            const pages = await buildInitialWorkbookPages({
+                edition: 'EXECUTIVE_VISION_BOOK',
+                trimSize: 'TRADE_6x9',
+                goals: [],
+                habits: [],
+                visionBoardImages: [],
+                binding: 'hardcover'
+            });
+
+            expect(isValidPageCount(pages.length, 'hardcover').valid).toBe(true);
+            expect(pages.map(p => p.pageNumber)).toEqual(pages.map((_, i) => i + 1));
+        });
+    });
+
+    describe('dated planner', () => {
+        const plannerOptions: BuildOptions = {
+            edition: 'EXECUTIVE_VISION_BOOK',
+            trimSize: 'TRADE_6x9',
+            goals: [],
+            habits: mockHabits,
+            visionBoardImages: mockVisionImages.slice(0, 1),
+            actionTasks: [{ id: 'task-1', title: 'Launch website', due_date: '2026-11-12' }],
+            planner: { startYear: 2026, startMonth: 8, weekStart: 'MONDAY', locale: 'en-GB', holidaySets: ['UK_BANK'] }
+        };
+
+        it('should replace the sample month with twelve dated months', async () => {
+            const pages = await buildInitialWorkbookPages(plannerOptions);
+            const months = pages.filter(p => p.type === 'MONTHLY_PLANNER');
+
+            expect(months).toHaveLength(12);
+            expect(months[0].title).toBe('September 2026');
+            expect(months[11].title).toBe('August 2027');
+            expect(generatePage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'MONTHLY_PLANNER' }));
+        });
+
+        it('should use the user\'s habits and milestones', async () => {
+            const pages = await buildInitialWorkbookPages(plannerOptions);
+            const habitPages = pages.filter(p => p.type === 'HABIT_TRACKER');
+            const week = pages.find(p => p.weeklyData?.days.some(d => d.isoDate === '2026-11-12'));
+
+            expect(habitPages).toHaveLength(12);
+            expect(habitPages[0].habitTracker?.habits.map(h => h.name)).toEqual(['Morning meditation', 'Read 30 minutes']);
+            expect(week?.weeklyData?.days.find(d => d.isoDate === '2026-11-12')?.notes).toEqual(['Launch website']);
+        });
+
+        it('should start every spread on a left-hand page', async () => {
+            const pages = await buildInitialWorkbookPages(plannerOptions);
+
+            pages.filter(p => p.type === 'WEEKLY_PLANNER' || p.type === 'MONTHLY_PLANNER').forEach(page => {
+                expect(page.pageNumber % 2).toBe(0);
+            });
+        });
+
+        it('should stay within the binding\'s page limits', async () => {
+            const pages = await buildInitialWorkbookPages({ ...plannerOptions, binding: 'softcover' });
+
+            expect(isValidPageCount(pages.length, 'softcover').valid).toBe(true);
+        });
     });
 });
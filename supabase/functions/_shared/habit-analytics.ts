@@ -0,0 +1,420 @@
+/**
+ * Habit Analytics for Supabase Edge Functions
+ *
+ * Builds the richer per-habit analytics behind habit-service `analytics`
+ * and the pattern insights in generate-weekly-review:
+ * - a daily heatmap (365 days by default)
+ * - when in the day completions are logged
+ * - completion rate by weekday, with the strongest and weakest days
+ * - how completing the habit relates to the user's mood_rating
+ *
+ * Schedules, pauses and measurable targets come from the habit schedule
+ * engine, so rates here agree with streaks and stats.
+ *
+ * @module habit-analytics
+ */
+
+import {
+  addDays,
+  DEFAULT_TIMEZONE,
+  getDailyTotals,
+  getDayOfWeek,
+  getDayProgress,
+  getHabitStartDate,
+  getLocalDateString,
+  isHabitScheduledOn,
+  isMeasurableHabit,
+  toLocalDate
+} from './habit-schedule.ts';
+import type { HabitSchedule } from './habit-schedule.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AnalyticsCompletion {
+  completed_at: string;
+  value?: number | null;
+  mood_rating?: number | null;
+  /** When the entry was logged; used for time-of-day patterns */
+  created_at?: string | null;
+  is_backfilled?: boolean | null;
+}
+
+export interface HeatmapDay {
+  date: string;
+  /** Amount logged (measurable habits) or 1/0 */
+  value: number;
+  /** Intensity 0-4 for rendering */
+  level: number;
+  scheduled: boolean;
+}
+
+export type TimeOfDayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface TimeOfDayDistribution {
+  /** Completions logged in each local hour (0-23) */
+  hourly: number[];
+  periods: Record<TimeOfDayPeriod, number>;
+  peakHour: number | null;
+  peakPeriod: TimeOfDayPeriod | null;
+  /** Completions with a usable log time (backfilled entries are excluded) */
+  sampleSize: number;
+}
+
+export interface WeekdayStat {
+  /** 0 = Sunday */
+  day: number;
+  scheduled: number;
+  completed: number;
+  /** Percentage, or null when the day was never scheduled */
+  rate: number | null;
+}
+
+export interface WeekdayPerformance {
+  days: WeekdayStat[];
+  strongestDay: number | null;
+  weakestDay: number | null;
+}
+
+export type CorrelationStrength = 'none' | 'weak' | 'moderate' | 'strong';
+
+export interface MoodCorrelation {
+  /** Scheduled days with a mood rating */
+  sampleDays: number;
+  avgMoodWhenDone: number | null;
+  avgMoodWhenMissed: number | null;
+  /** Pearson correlation between completion (0-1) and mood, -1 to 1 */
+  correlation: number | null;
+  strength: CorrelationStrength;
+  /** Measurable habits: correlation between the amount logged and mood */
+  valueCorrelation: number | null;
+}
+
+export interface HabitAnalytics {
+  range: { start: string; end: string };
+  heatmap: HeatmapDay[];
+  timeOfDay: TimeOfDayDistribution;
+  weekdays: WeekdayPerformance;
+  mood: MoodCorrelation;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_ANALYTICS_DAYS = 365;
+
+// Fewer data points than this and a correlation is noise
+const MIN_CORRELATION_SAMPLES = 10;
+
+// A weekday needs this many scheduled occurrences to rank as strong or weak
+const MIN_WEEKDAY_SAMPLES = 2;
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// ============================================
+// Analytics
+// ============================================
+
+/**
+ * Build all analytics for one habit over the `days` ending on `today`.
+ * `moodByDate` holds the user's average mood per local date across all
+ * habits (see buildMoodByDate), since mood is only logged on completions.
+ */
+export function buildHabitAnalytics(
+  habit: HabitSchedule,
+  completions: AnalyticsCompletion[],
+  moodByDate: Map<string, number>,
+  today: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  days: number = DEFAULT_ANALYTICS_DAYS
+): HabitAnalytics {
+  const start = addDays(today, -(days - 1));
+  const inRange = completions.filter(c => {
+    const date = toLocalDate(c.completed_at, timezone);
+    return date >= start && date <= today;
+  });
+
+  return {
+    range: { start, end: today },
+    heatmap: buildHeatmap(habit, inRange, start, today, timezone),
+    timeOfDay: getTimeOfDayDistribution(inRange, timezone),
+    weekdays: getWeekdayPerformance(habit, inRange, start, today, timezone),
+    mood: getMoodCorrelation(habit, inRange, moodByDate, start, today, timezone)
+  };
+}
+
+/**
+ * One entry per day between two local dates. Days before the habit
+ * started, unscheduled days and paused days are marked unscheduled.
+ */
+export function buildHeatmap(
+  habit: HabitSchedule,
+  completions: AnalyticsCompletion[],
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): HeatmapDay[] {
+  const totals = getDailyTotals(habit, completions, timezone);
+  const habitStart = getHabitStartDate(habit, timezone);
+  const heatmap: HeatmapDay[] = [];
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const value = totals.get(date) || 0;
+    const progress = getDayProgress(habit, value);
+    heatmap.push({
+      date,
+      value: Math.round(value * 100) / 100,
+      level: progress > 0 ? Math.max(1, Math.ceil(progress * 4)) : 0,
+      scheduled: (!habitStart || date >= habitStart) && isHabitScheduledOn(habit, date)
+    });
+  }
+
+  return heatmap;
+}
+
+/**
+ * When completions are logged, by local hour and period. Backfilled
+ * entries, and entries logged on a different day than they count for,
+ * say nothing about when the habit was done and are skipped.
+ */
+export function getTimeOfDayDistribution(
+  completions: AnalyticsCompletion[],
+  timezone: string = DEFAULT_TIMEZONE
+): TimeOfDayDistribution {
+  const hourly = new Array(24).fill(0);
+  const periods: Record<TimeOfDayPeriod, number> = { morning: 0, afternoon: 0, evening: 0, night: 0 };
+  let sampleSize = 0;
+
+  for (const completion of completions) {
+    if (!completion.created_at || completion.is_backfilled) continue;
+    const loggedAt = new Date(completion.created_at);
+    if (isNaN(loggedAt.getTime())) continue;
+    if (getLocalDateString(loggedAt, timezone) !== toLocalDate(completion.completed_at, timezone)) continue;
+
+    const hour = getLocalHour(loggedAt, timezone);
+    hourly[hour]++;
+    periods[getPeriod(hour)]++;
+    sampleSize++;
+  }
+
+  const peakHour = sampleSize > 0 ? hourly.indexOf(Math.max(...hourly)) : null;
+  const peakPeriod = sampleSize > 0
+    ? (Object.keys(periods) as TimeOfDayPeriod[]).reduce((a, b) => (periods[b] > periods[a] ? b : a))
+    : null;
+
+  return { hourly, periods, peakHour, peakPeriod, sampleSize };
+}
+
+/**
+ * Completion rate per weekday between two local dates. Measurable habits
+ * earn partial credit. Weekly-target habits can be done on any day, so
+ * their rate is the share of each weekday on which the habit was done.
+ */
+export function getWeekdayPerformance(
+  habit: HabitSchedule,
+  completions: AnalyticsCompletion[],
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): WeekdayPerformance {
+  const totals = getDailyTotals(habit, completions, timezone);
+  const habitStart = getHabitStartDate(habit, timezone);
+  const from = habitStart && habitStart > startDate ? habitStart : startDate;
+  const scheduled = new Array(7).fill(0);
+  const completed = new Array(7).fill(0);
+
+  for (let date = from; date <= endDate; date = addDays(date, 1)) {
+    if (!isHabitScheduledOn(habit, date)) continue;
+    const day = getDayOfWeek(date);
+    scheduled[day]++;
+    completed[day] += getDayProgress(habit, totals.get(date) || 0);
+  }
+
+  const days: WeekdayStat[] = scheduled.map((count, day) => ({
+    day,
+    scheduled: count,
+    completed: Math.round(completed[day] * 100) / 100,
+    rate: count > 0 ? Math.round((completed[day] / count) * 1000) / 10 : null
+  }));
+
+  const ranked = days
+    .filter(d => d.scheduled >= MIN_WEEKDAY_SAMPLES && d.rate !== null)
+    .sort((a, b) => b.rate! - a.rate!);
+  const hasSpread = ranked.length >= 2 && ranked[0].rate! > ranked[ranked.length - 1].rate!;
+
+  return {
+    days,
+    strongestDay: hasSpread ? ranked[0].day : null,
+    weakestDay: hasSpread ? ranked[ranked.length - 1].day : null
+  };
+}
+
+/**
+ * Relate completing a habit to mood. Each scheduled day with a known mood
+ * is one sample: completion progress (0-1) against that day's mood.
+ */
+export function getMoodCorrelation(
+  habit: HabitSchedule,
+  completions: AnalyticsCompletion[],
+  moodByDate: Map<string, number>,
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): MoodCorrelation {
+  const totals = getDailyTotals(habit, completions, timezone);
+  const habitStart = getHabitStartDate(habit, timezone);
+  const progress: number[] = [];
+  const moods: number[] = [];
+  const doneMoods: number[] = [];
+  const missedMoods: number[] = [];
+
+  for (const [date, mood] of moodByDate) {
+    if (date < startDate || date > endDate) continue;
+    if (habitStart && date < habitStart) continue;
+    if (!isHabitScheduledOn(habit, date)) continue;
+
+    const dayProgress = getDayProgress(habit, totals.get(date) || 0);
+    progress.push(dayProgress);
+    moods.push(mood);
+    (dayProgress > 0 ? doneMoods : missedMoods).push(mood);
+  }
+
+  const correlation = progress.length >= MIN_CORRELATION_SAMPLES ? pearson(progress, moods) : null;
+
+  let valueCorrelation: number | null = null;
+  if (isMeasurableHabit(habit)) {
+    const rated = completions.filter(c => c.mood_rating != null && c.value != null);
+    if (rated.length >= MIN_CORRELATION_SAMPLES) {
+      valueCorrelation = pearson(rated.map(c => Number(c.value)), rated.map(c => Number(c.mood_rating)));
+    }
+  }
+
+  return {
+    sampleDays: progress.length,
+    avgMoodWhenDone: average(doneMoods),
+    avgMoodWhenMissed: average(missedMoods),
+    correlation,
+    strength: getCorrelationStrength(correlation),
+    valueCorrelation
+  };
+}
+
+/**
+ * Average mood_rating per local date across all of a user's completions
+ */
+export function buildMoodByDate(
+  completions: AnalyticsCompletion[],
+  timezone: string = DEFAULT_TIMEZONE
+): Map<string, number> {
+  const sums = new Map<string, { total: number; count: number }>();
+  for (const completion of completions) {
+    if (completion.mood_rating == null) continue;
+    const date = toLocalDate(completion.completed_at, timezone);
+    const entry = sums.get(date) || { total: 0, count: 0 };
+    entry.total += Number(completion.mood_rating);
+    entry.count++;
+    sums.set(date, entry);
+  }
+
+  const moodByDate = new Map<string, number>();
+  for (const [date, { total, count }] of sums) moodByDate.set(date, total / count);
+  return moodByDate;
+}
+
+// ============================================
+// Insights
+// ============================================
+
+/**
+ * Short, plain-language observations for a habit's analytics, strongest
+ * signal first. Empty when there is not enough data to say anything.
+ */
+export function describeHabitPatterns(title: string, analytics: HabitAnalytics): string[] {
+  const insights: string[] = [];
+  const { weekdays, mood, timeOfDay } = analytics;
+
+  if (mood.correlation !== null && mood.strength !== 'none' && mood.strength !== 'weak'
+    && mood.avgMoodWhenDone !== null && mood.avgMoodWhenMissed !== null) {
+    insights.push(
+      mood.correlation > 0
+        ? `Mood averages ${mood.avgMoodWhenDone}/5 on days you complete "${title}" vs ${mood.avgMoodWhenMissed}/5 when you skip it`
+        : `Mood tends to be lower on days you complete "${title}" (${mood.avgMoodWhenDone}/5 vs ${mood.avgMoodWhenMissed}/5)`
+    );
+  }
+
+  if (weekdays.strongestDay !== null && weekdays.weakestDay !== null) {
+    const best = weekdays.days[weekdays.strongestDay];
+    const worst = weekdays.days[weekdays.weakestDay];
+    insights.push(
+      `"${title}" is strongest on ${DAY_LABELS[best.day]}s (${best.rate}%) and weakest on ${DAY_LABELS[worst.day]}s (${worst.rate}%)`
+    );
+  }
+
+  if (timeOfDay.peakPeriod && timeOfDay.sampleSize >= MIN_CORRELATION_SAMPLES) {
+    const share = Math.round((timeOfDay.periods[timeOfDay.peakPeriod] / timeOfDay.sampleSize) * 100);
+    if (share >= 50) {
+      insights.push(`${share}% of "${title}" check-ins happen in the ${timeOfDay.peakPeriod}`);
+    }
+  }
+
+  return insights;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function getLocalHour(date: Date, timezone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    hourCycle: 'h23'
+  }).format(date);
+  return Number(hour) % 24;
+}
+
+function getPeriod(hour: number): TimeOfDayPeriod {
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Pearson correlation coefficient, or null when either series is constant
+ */
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+
+  if (varX === 0 || varY === 0) return null;
+  return Math.round((cov / Math.sqrt(varX * varY)) * 100) / 100;
+}
+
+function getCorrelationStrength(correlation: number | null): CorrelationStrength {
+  if (correlation === null) return 'none';
+  const magnitude = Math.abs(correlation);
+  if (magnitude >= 0.5) return 'strong';
+  if (magnitude >= 0.3) return 'moderate';
+  if (magnitude >= 0.1) return 'weak';
+  return 'none';
+}
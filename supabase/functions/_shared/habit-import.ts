@@ -0,0 +1,752 @@
+/**
+ * Habit Import & Export for Supabase Edge Functions
+ *
+ * Parses habit history from other trackers into rows for the `habits` and
+ * `habit_completions` tables, previews what an import would change, and
+ * serializes a user's habits back out.
+ *
+ * Supported formats:
+ * - csv: one row per completion (habit, date, value, notes) with optional
+ *   habit settings columns. Rows without a date define a habit only. This
+ *   is also the export format, so exports round-trip.
+ * - loop: the CSV export of Loop Habit Tracker (Habits.csv plus the
+ *   combined Checkmarks.csv from the exported zip).
+ *
+ * Both formats can also be exported.
+ *
+ * Pure TypeScript with no Deno imports so it can be unit tested directly.
+ *
+ * @module habit-import
+ */
+
+import type { HabitFrequency, HabitTargetPeriod } from './habit-schedule.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export type HabitImportFormat = 'csv' | 'loop';
+
+export interface ImportedHabit {
+  title: string;
+  description: string | null;
+  frequency: HabitFrequency;
+  custom_days: number[];
+  weekly_target: number;
+  target_value: number | null;
+  target_period: HabitTargetPeriod;
+  unit: string | null;
+  is_active: boolean;
+}
+
+export interface ImportedCompletion {
+  habit_title: string;
+  /** Local date (YYYY-MM-DD) the completion counts for */
+  completed_at: string;
+  value: number | null;
+  notes: string | null;
+}
+
+export interface ImportIssue {
+  /** 1-based line in the source file (0 when not tied to a line) */
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ParsedImport {
+  habits: ImportedHabit[];
+  completions: ImportedCompletion[];
+  issues: ImportIssue[];
+}
+
+/** Minimal shape of rows already stored for the user */
+export interface ExistingHabitRecord {
+  id: string;
+  title: string;
+  created_at?: string | null;
+  completion_dates: string[];
+}
+
+export interface ImportPreview {
+  /** Habits that will be created */
+  newHabits: ImportedHabit[];
+  /** Imported habits matched by title to a habit the user already has */
+  matchedHabits: Array<{ title: string; habit_id: string }>;
+  /** Completions that will be inserted */
+  completions: ImportedCompletion[];
+  /** Completions skipped because the day is already logged */
+  duplicateCompletions: number;
+  issues: ImportIssue[];
+  /** False when any error was found; errors block the import */
+  canImport: boolean;
+}
+
+export interface ExportableHabit {
+  title: string;
+  description?: string | null;
+  frequency?: string | null;
+  custom_days?: number[] | null;
+  weekly_target?: number | null;
+  target_value?: number | null;
+  target_period?: string | null;
+  unit?: string | null;
+  is_active?: boolean | null;
+  completions: Array<{ completed_at: string; value?: number | null; notes?: string | null }>;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const MAX_IMPORT_ROWS = 20000;
+
+export const HABIT_CSV_COLUMNS = [
+  'habit', 'date', 'value', 'notes', 'frequency', 'custom_days',
+  'weekly_target', 'target_value', 'target_period', 'unit', 'description', 'archived'
+] as const;
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FREQUENCIES: HabitFrequency[] = ['daily', 'weekly', 'weekdays', 'custom'];
+
+// Column aliases accepted in generic CSV headers
+const COLUMN_ALIASES: Record<string, string> = {
+  habit: 'habit', name: 'habit', title: 'habit', habit_name: 'habit',
+  date: 'date', day: 'date', completed_at: 'date', completed_on: 'date',
+  value: 'value', amount: 'value', quantity: 'value',
+  notes: 'notes', note: 'notes', comment: 'notes',
+  frequency: 'frequency', custom_days: 'custom_days', days: 'custom_days',
+  weekly_target: 'weekly_target', target_value: 'target_value', target: 'target_value',
+  target_period: 'target_period', unit: 'unit', description: 'description',
+  archived: 'archived'
+};
+
+// Loop Habit Tracker checkmark values (boolean habits)
+const LOOP_YES_MANUAL = 2;
+
+// Loop stores numerical entries in thousandths
+const LOOP_NUMERIC_SCALE = 1000;
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields. Handles quoted fields,
+ * escaped quotes, embedded newlines, CRLF line endings and a UTF-8 BOM.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+/**
+ * Serialize rows to CSV, quoting fields that need it
+ */
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows
+    .map(row => row.map(formatCsvField).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse an import in the given format. `today` (YYYY-MM-DD, user's
+ * timezone) rejects completions dated in the future.
+ */
+export function parseHabitImport(
+  format: HabitImportFormat,
+  files: { csv?: string; habitsCsv?: string; checkmarksCsv?: string },
+  today: string
+): ParsedImport {
+  if (format === 'csv') {
+    if (!files.csv) throw new Error('csv content is required for csv imports');
+    return parseGenericCsv(files.csv, today);
+  }
+  if (format === 'loop') {
+    if (!files.habitsCsv) throw new Error('habitsCsv (Habits.csv) is required for Loop imports');
+    return parseLoopExport(files.habitsCsv, files.checkmarksCsv || '', today);
+  }
+  throw new Error(`Unsupported import format: ${format}. Valid formats: csv, loop`);
+}
+
+/**
+ * Parse the generic CSV format. The header row is required; `habit` is the
+ * only mandatory column. Habit settings are read from each habit's first
+ * row.
+ */
+export function parseGenericCsv(text: string, today: string): ParsedImport {
+  const rows = parseCsv(text);
+  const issues: ImportIssue[] = [];
+  const habits = new Map<string, ImportedHabit>();
+  const completions: ImportedCompletion[] = [];
+
+  if (rows.length === 0) {
+    return { habits: [], completions: [], issues: [{ line: 0, severity: 'error', message: 'File is empty' }] };
+  }
+
+  const columns = rows[0].map(h => COLUMN_ALIASES[normalizeHeader(h)] || null);
+  if (!columns.includes('habit')) {
+    issues.push({ line: 1, severity: 'error', message: 'Missing required "habit" column' });
+    return { habits: [], completions: [], issues };
+  }
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    issues.push({ line: 0, severity: 'error', message: `Too many rows (max ${MAX_IMPORT_ROWS})` });
+    return { habits: [], completions: [], issues };
+  }
+
+  for (let r = 1; r < rows.length; r++) {
+    const line = r + 1;
+    const record: Record<string, string> = {};
+    columns.forEach((column, idx) => {
+      if (column && record[column] === undefined) record[column] = (rows[r][idx] || '').trim();
+    });
+
+    const title = record.habit;
+    if (!title) {
+      issues.push({ line, severity: 'error', message: 'Habit name is empty' });
+      continue;
+    }
+
+    const key = titleKey(title);
+    if (!habits.has(key)) {
+      habits.set(key, buildHabitFromCsv(title, record, line, issues));
+    }
+
+    if (!record.date) continue;
+
+    const date = normalizeDate(record.date);
+    if (!date) {
+      issues.push({ line, severity: 'error', message: `Invalid date "${record.date}" (use YYYY-MM-DD)` });
+      continue;
+    }
+    if (date > today) {
+      issues.push({ line, severity: 'error', message: `Date ${date} is in the future` });
+      continue;
+    }
+
+    let value: number | null = null;
+    if (record.value) {
+      value = Number(record.value);
+      if (!Number.isFinite(value) || value < 0) {
+        issues.push({ line, severity: 'error', message: `Invalid value "${record.value}"` });
+        continue;
+      }
+      if (value === 0) continue; // Logged as not done
+    }
+
+    completions.push({
+      habit_title: habits.get(key)!.title,
+      completed_at: date,
+      value,
+      notes: record.notes || null
+    });
+  }
+
+  return { habits: [...habits.values()], completions: mergeSameDay(completions, habits, issues), issues };
+}
+
+/**
+ * Parse a Loop Habit Tracker CSV export.
+ *
+ * Habits.csv columns (newer exports): Position, Name, Type, Question,
+ * Description, FrequencyNumerator, FrequencyDenominator, Color, Unit,
+ * Target Type, Target Value, Archived?. Older exports use NumRepetitions
+ * and Interval instead of the frequency columns.
+ *
+ * Checkmarks.csv has a Date column followed by one column per habit name.
+ * Only manual check-ins count for boolean habits; Loop's implied "auto"
+ * checks are not real completions. Numerical values are in thousandths.
+ */
+export function parseLoopExport(habitsCsv: string, checkmarksCsv: string, today: string): ParsedImport {
+  const issues: ImportIssue[] = [];
+  const habitRows = parseCsv(habitsCsv);
+
+  if (habitRows.length === 0) {
+    return { habits: [], completions: [], issues: [{ line: 0, severity: 'error', message: 'Habits.csv is empty' }] };
+  }
+
+  const header = habitRows[0].map(normalizeHeader);
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const nameIdx = col('name');
+  if (nameIdx === -1) {
+    issues.push({ line: 1, severity: 'error', message: 'Habits.csv is missing the Name column' });
+    return { habits: [], completions: [], issues };
+  }
+
+  const typeIdx = col('type');
+  const descriptionIdx = col('description');
+  const questionIdx = col('question');
+  const numeratorIdx = col('frequencynumerator', 'numrepetitions');
+  const denominatorIdx = col('frequencydenominator', 'interval');
+  const unitIdx = col('unit');
+  const targetIdx = col('target_value');
+  const archivedIdx = col('archived', 'archived?');
+
+  const habits = new Map<string, ImportedHabit>();
+  const numerical = new Set<string>();
+
+  for (let r = 1; r < habitRows.length; r++) {
+    const row = habitRows[r];
+    const line = r + 1;
+    const title = (row[nameIdx] || '').trim();
+    if (!title) {
+      issues.push({ line, severity: 'error', message: 'Habit name is empty' });
+      continue;
+    }
+
+    const key = titleKey(title);
+    if (habits.has(key)) {
+      issues.push({ line, severity: 'warning', message: `Duplicate habit "${title}" ignored` });
+      continue;
+    }
+
+    const isNumerical = typeIdx !== -1 && row[typeIdx]?.trim() === '1';
+    if (isNumerical) numerical.add(key);
+
+    const schedule = mapLoopFrequency(
+      Number(row[numeratorIdx] || 1),
+      Number(row[denominatorIdx] || 1),
+      title,
+      line,
+      issues
+    );
+    const targetValue = isNumerical && targetIdx !== -1 ? Number(row[targetIdx]) : NaN;
+
+    habits.set(key, {
+      title,
+      description: (row[descriptionIdx] || row[questionIdx] || '').trim() || null,
+      frequency: schedule.frequency,
+      custom_days: [],
+      weekly_target: schedule.weekly_target,
+      target_value: Number.isFinite(targetValue) && targetValue > 0 ? targetValue : null,
+      target_period: 'day',
+      unit: isNumerical ? (row[unitIdx] || '').trim() || null : null,
+      is_active: !isTruthy(row[archivedIdx])
+    });
+  }
+
+  const completions: ImportedCompletion[] = [];
+  const checkmarkRows = parseCsv(checkmarksCsv);
+
+  if (checkmarkRows.length === 0) {
+    issues.push({ line: 0, severity: 'warning', message: 'No Checkmarks.csv provided; only habits will be imported' });
+  } else {
+    const habitColumns = checkmarkRows[0].slice(1).map(name => {
+      const key = titleKey(name);
+      if (!habits.has(key)) {
+        issues.push({ line: 1, severity: 'warning', message: `Checkmarks column "${name}" has no matching habit and was skipped` });
+        return null;
+      }
+      return key;
+    });
+
+    for (let r = 1; r < checkmarkRows.length; r++) {
+      const line = r + 1;
+      const date = normalizeDate(checkmarkRows[r][0] || '');
+      if (!date) {
+        issues.push({ line, severity: 'error', message: `Invalid date "${checkmarkRows[r][0]}" in Checkmarks.csv` });
+        continue;
+      }
+      if (date > today) continue;
+
+      habitColumns.forEach((key, idx) => {
+        if (!key) return;
+        const raw = Number(checkmarkRows[r][idx + 1]);
+        if (!Number.isFinite(raw) || raw <= 0) return;
+
+        if (numerical.has(key)) {
+          completions.push({
+            habit_title: habits.get(key)!.title,
+            completed_at: date,
+            value: raw / LOOP_NUMERIC_SCALE,
+            notes: null
+          });
+        } else if (raw === LOOP_YES_MANUAL) {
+          completions.push({ habit_title: habits.get(key)!.title, completed_at: date, value: null, notes: null });
+        }
+      });
+    }
+  }
+
+  return { habits: [...habits.values()], completions, issues };
+}
+
+// ============================================
+// Preview
+// ============================================
+
+/**
+ * Compare a parsed import against the user's existing habits. Habits are
+ * matched by title (case-insensitive); a completion is a duplicate when its
+ * habit already has an entry for that day. Duplicates are skipped, never
+ * overwritten.
+ */
+export function buildImportPreview(parsed: ParsedImport, existing: ExistingHabitRecord[]): ImportPreview {
+  const existingByTitle = new Map(existing.map(h => [titleKey(h.title), h]));
+  const newHabits: ImportedHabit[] = [];
+  const matchedHabits: Array<{ title: string; habit_id: string }> = [];
+
+  for (const habit of parsed.habits) {
+    const match = existingByTitle.get(titleKey(habit.title));
+    if (match) {
+      matchedHabits.push({ title: habit.title, habit_id: match.id });
+    } else {
+      newHabits.push(habit);
+    }
+  }
+
+  let duplicateCompletions = 0;
+  const completions = parsed.completions.filter(c => {
+    const match = existingByTitle.get(titleKey(c.habit_title));
+    if (match && match.completion_dates.includes(c.completed_at)) {
+      duplicateCompletions++;
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    newHabits,
+    matchedHabits,
+    completions,
+    duplicateCompletions,
+    issues: parsed.issues,
+    canImport: !parsed.issues.some(i => i.severity === 'error')
+  };
+}
+
+/**
+ * Earliest completion date per habit title key, used to move a habit's
+ * start back so imported history counts toward stats and streaks
+ */
+export function getEarliestCompletionDates(completions: ImportedCompletion[]): Map<string, string> {
+  const earliest = new Map<string, string>();
+  for (const completion of completions) {
+    const key = titleKey(completion.habit_title);
+    const current = earliest.get(key);
+    if (!current || completion.completed_at < current) earliest.set(key, completion.completed_at);
+  }
+  return earliest;
+}
+
+/**
+ * Case- and whitespace-insensitive key used to match habits by title
+ */
+export function titleKey(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Export habits and completions in the generic CSV format. Habits without
+ * completions get a single row with an empty date so they survive a
+ * round-trip.
+ */
+export function exportHabitsCsv(habits: ExportableHabit[]): string {
+  const rows: Array<Array<string | number | boolean | null | undefined>> = [[...HABIT_CSV_COLUMNS]];
+
+  for (const habit of habits) {
+    const settings = [
+      habit.frequency || 'daily',
+      (habit.custom_days || []).map(d => DAY_NAMES[d]).join(';'),
+      habit.weekly_target ?? '',
+      habit.target_value ?? '',
+      habit.target_period || 'day',
+      habit.unit || '',
+      habit.description || '',
+      habit.is_active === false
+    ];
+    const completions = [...habit.completions].sort((a, b) => a.completed_at.localeCompare(b.completed_at));
+
+    if (completions.length === 0) {
+      rows.push([habit.title, '', '', '', ...settings]);
+    }
+    for (const completion of completions) {
+      rows.push([
+        habit.title,
+        completion.completed_at.slice(0, 10),
+        completion.value ?? '',
+        completion.notes || '',
+        ...settings
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+/**
+ * Export habits as a Loop Habit Tracker CSV pair (Habits.csv and
+ * Checkmarks.csv). Schedules become "N times per 7 days"; every day from
+ * the first to the last completion gets a checkmarks row, newest first.
+ */
+export function exportLoopCsv(habits: ExportableHabit[]): { habitsCsv: string; checkmarksCsv: string } {
+  const habitRows: Array<Array<string | number | boolean | null | undefined>> = [[
+    'Position', 'Name', 'Type', 'Question', 'Description', 'FrequencyNumerator',
+    'FrequencyDenominator', 'Color', 'Unit', 'Target Type', 'Target Value', 'Archived?'
+  ]];
+
+  habits.forEach((habit, idx) => {
+    const numerical = !!habit.target_value;
+    const [numerator, denominator] = toLoopFrequency(habit);
+    habitRows.push([
+      String(idx + 1).padStart(3, '0'),
+      habit.title,
+      numerical ? 1 : 0,
+      '',
+      habit.description || '',
+      numerator,
+      denominator,
+      '',
+      habit.unit || '',
+      numerical ? 0 : '',
+      numerical ? habit.target_value : '',
+      habit.is_active === false
+    ]);
+  });
+
+  const valuesByDate = new Map<string, Map<number, number>>();
+  habits.forEach((habit, idx) => {
+    for (const completion of habit.completions) {
+      const date = completion.completed_at.slice(0, 10);
+      if (!valuesByDate.has(date)) valuesByDate.set(date, new Map());
+      const value = habit.target_value
+        ? Math.round((completion.value ?? habit.target_value) * LOOP_NUMERIC_SCALE)
+        : LOOP_YES_MANUAL;
+      valuesByDate.get(date)!.set(idx, value);
+    }
+  });
+
+  const checkmarkRows: Array<Array<string | number | boolean | null | undefined>> = [
+    ['Date', ...habits.map(h => h.title)]
+  ];
+  const dates = [...valuesByDate.keys()].sort();
+  if (dates.length > 0) {
+    for (let date = dates[dates.length - 1]; date >= dates[0]; date = shiftDate(date, -1)) {
+      const values = valuesByDate.get(date);
+      checkmarkRows.push([date, ...habits.map((_, idx) => values?.get(idx) ?? 0)]);
+    }
+  }
+
+  return { habitsCsv: toCsv(habitRows), checkmarksCsv: toCsv(checkmarkRows) };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function toLoopFrequency(habit: ExportableHabit): [number, number] {
+  switch (habit.frequency) {
+    case 'weekly':
+      return habit.custom_days?.length ? [habit.custom_days.length, 7] : [habit.weekly_target || 1, 7];
+    case 'weekdays':
+      return [5, 7];
+    case 'custom':
+      return habit.custom_days?.length ? [habit.custom_days.length, 7] : [1, 1];
+    default:
+      return [1, 1];
+  }
+}
+
+function formatCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function isTruthy(value: string | undefined): boolean {
+  return ['true', 'yes', '1', 'y'].includes((value || '').trim().toLowerCase());
+}
+
+/**
+ * Accept YYYY-MM-DD (optionally followed by a time) and return the date
+ * part, or null if it is not a real calendar date
+ */
+function normalizeDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return null;
+  return `${y}-${m}-${d}`;
+}
+
+function parseCustomDays(value: string): number[] | null {
+  const days = new Set<number>();
+  for (const part of value.split(/[;|\s]+/).filter(Boolean)) {
+    const name = part.slice(0, 3).toLowerCase();
+    const day = /^\d$/.test(part) ? Number(part) : DAY_NAMES.indexOf(name);
+    if (day < 0 || day > 6) return null;
+    days.add(day);
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+function buildHabitFromCsv(
+  title: string,
+  record: Record<string, string>,
+  line: number,
+  issues: ImportIssue[]
+): ImportedHabit {
+  let frequency: HabitFrequency = 'daily';
+  const rawFrequency = (record.frequency || '').toLowerCase();
+  if (rawFrequency) {
+    if (FREQUENCIES.includes(rawFrequency as HabitFrequency)) {
+      frequency = rawFrequency as HabitFrequency;
+    } else {
+      issues.push({ line, severity: 'warning', message: `Unknown frequency "${record.frequency}" for "${title}"; using daily` });
+    }
+  }
+
+  let customDays: number[] = [];
+  if (record.custom_days) {
+    const parsed = parseCustomDays(record.custom_days);
+    if (parsed) {
+      customDays = parsed;
+    } else {
+      issues.push({ line, severity: 'warning', message: `Could not read days "${record.custom_days}" for "${title}"` });
+    }
+  }
+  if (frequency === 'custom' && customDays.length === 0) {
+    issues.push({ line, severity: 'warning', message: `Custom habit "${title}" has no days; using daily` });
+    frequency = 'daily';
+  }
+
+  const weeklyTarget = Number(record.weekly_target);
+  const targetValue = Number(record.target_value);
+  const targetPeriod = (record.target_period || '').toLowerCase() === 'week' ? 'week' : 'day';
+
+  return {
+    title,
+    description: record.description || null,
+    frequency,
+    custom_days: customDays,
+    weekly_target: Number.isInteger(weeklyTarget) && weeklyTarget >= 1 && weeklyTarget <= 7 ? weeklyTarget : 1,
+    target_value: record.target_value && Number.isFinite(targetValue) && targetValue > 0 ? targetValue : null,
+    target_period: targetPeriod,
+    unit: record.unit || null,
+    is_active: !isTruthy(record.archived)
+  };
+}
+
+/**
+ * The tables hold one row per habit per day: sum repeated measurable
+ * entries, and drop repeated check-ins for yes/no habits
+ */
+function mergeSameDay(
+  completions: ImportedCompletion[],
+  habits: Map<string, ImportedHabit>,
+  issues: ImportIssue[]
+): ImportedCompletion[] {
+  const byDay = new Map<string, ImportedCompletion>();
+
+  for (const completion of completions) {
+    const key = `${titleKey(completion.habit_title)}|${completion.completed_at}`;
+    const existing = byDay.get(key);
+    if (!existing) {
+      byDay.set(key, { ...completion });
+      continue;
+    }
+
+    const habit = habits.get(titleKey(completion.habit_title));
+    if (habit?.target_value && (existing.value !== null || completion.value !== null)) {
+      existing.value = (existing.value ?? habit.target_value) + (completion.value ?? habit.target_value);
+    } else {
+      issues.push({
+        line: 0,
+        severity: 'warning',
+        message: `"${completion.habit_title}" is logged more than once on ${completion.completed_at}; kept one entry`
+      });
+    }
+    if (completion.notes) {
+      existing.notes = existing.notes ? `${existing.notes}; ${completion.notes}` : completion.notes;
+    }
+  }
+
+  return [...byDay.values()];
+}
+
+/**
+ * Loop schedules are "N times per D days". Map them onto the nearest
+ * frequency this app supports.
+ */
+function mapLoopFrequency(
+  numerator: number,
+  denominator: number,
+  title: string,
+  line: number,
+  issues: ImportIssue[]
+): { frequency: HabitFrequency; weekly_target: number } {
+  if (!(numerator > 0) || !(denominator > 0) || numerator >= denominator) {
+    return { frequency: 'daily', weekly_target: 1 };
+  }
+  if (denominator === 7) {
+    return { frequency: 'weekly', weekly_target: numerator };
+  }
+
+  const perWeek = Math.min(7, Math.max(1, Math.round((numerator * 7) / denominator)));
+  issues.push({
+    line,
+    severity: 'warning',
+    message: `"${title}" repeats ${numerator} times every ${denominator} days; imported as ${perWeek} per week`
+  });
+  return perWeek === 7
+    ? { frequency: 'daily', weekly_target: 1 }
+    : { frequency: 'weekly', weekly_target: perWeek };
+}
@@ -0,0 +1,369 @@
+/**
+ * Habit Routines for Supabase Edge Functions
+ *
+ * A routine stacks habits into an ordered chain started by an anchor cue
+ * ("after coffee → journal → plan day"), optionally within a time window.
+ * habit-service, watch-sync and slack-bot use this module to prompt the
+ * next step after a completion and to report routine-level stats.
+ *
+ * A step counts for a day when its habit is scheduled that day; a routine
+ * day is complete when every scheduled step was done. Pauses, schedules
+ * and measurable targets come from the habit schedule engine.
+ *
+ * @module habit-routines
+ */
+
+import {
+  addDays,
+  attachStreakProtection,
+  DEFAULT_TIMEZONE,
+  getDailyTotals,
+  getDayProgress,
+  getHabitStartDate,
+  getTargetPeriod,
+  isHabitScheduledOn,
+  resolveTimezone
+} from './habit-schedule.ts';
+import type { CompletionEntry, HabitSchedule } from './habit-schedule.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RoutineStep {
+  habit_id: string;
+  position: number;
+}
+
+export interface HabitRoutine {
+  id: string;
+  title: string;
+  anchor_cue?: string | null;
+  /** Local HH:MM[:SS]; both or neither of window_start/window_end are set */
+  window_start?: string | null;
+  window_end?: string | null;
+  steps: RoutineStep[];
+}
+
+export type RoutineHabit = HabitSchedule & { id: string; title: string };
+
+export interface RoutineStepStatus {
+  habit_id: string;
+  title: string;
+  position: number;
+  /** Whether the step's habit is scheduled (and not paused) on the day */
+  scheduled: boolean;
+  completed: boolean;
+}
+
+export interface RoutineProgress {
+  routine_id: string;
+  title: string;
+  anchor_cue: string | null;
+  steps: RoutineStepStatus[];
+  completedSteps: number;
+  /** Steps scheduled on the day */
+  totalSteps: number;
+  isComplete: boolean;
+  /** Next scheduled step still to do, or null when the routine is done */
+  nextStep: RoutineStepStatus | null;
+}
+
+export interface RoutineStats {
+  routine_id: string;
+  range: { start: string; end: string };
+  /** Days on which at least one step was scheduled */
+  dueDays: number;
+  /** Due days on which every scheduled step was done */
+  completedDays: number;
+  /** Due days with some but not all steps done */
+  partialDays: number;
+  /** completedDays / dueDays as a percentage rounded to one decimal */
+  rate: number;
+  /** Consecutive complete due days up to today (today never breaks it) */
+  currentStreak: number;
+  /** Completion rate of each step over its scheduled days, in routine order */
+  stepRates: Array<{ habit_id: string; title: string; rate: number }>;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Columns the schedule engine needs, plus what routines display
+const ROUTINE_HABIT_COLUMNS =
+  'id, title, frequency, custom_days, weekly_target, target_value, target_period, unit, grace_days, paused_until, created_at, is_active';
+
+// ============================================
+// Progress
+// ============================================
+
+/**
+ * Where a routine stands on a local date. Pass `afterHabitId` (the step
+ * just completed) to prompt the step that follows it; earlier steps that
+ * were skipped are only suggested once nothing later is left.
+ */
+export function getRoutineProgress(
+  routine: HabitRoutine,
+  habitsById: Map<string, RoutineHabit>,
+  completionsByHabit: Map<string, CompletionEntry[]>,
+  date: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  afterHabitId?: string
+): RoutineProgress {
+  const steps = getOrderedSteps(routine, habitsById).map(({ step, habit }) => {
+    const scheduled = isStepScheduledOn(habit, date, timezone);
+    return {
+      habit_id: step.habit_id,
+      title: habit.title,
+      position: step.position,
+      scheduled,
+      completed: scheduled && isStepDoneOn(habit, completionsByHabit.get(habit.id) || [], date, timezone)
+    };
+  });
+
+  const due = steps.filter(s => s.scheduled);
+  const remaining = due.filter(s => !s.completed);
+  const afterPosition = steps.find(s => s.habit_id === afterHabitId)?.position;
+  const nextStep = (afterPosition !== undefined && remaining.find(s => s.position > afterPosition))
+    || remaining[0]
+    || null;
+
+  return {
+    routine_id: routine.id,
+    title: routine.title,
+    anchor_cue: routine.anchor_cue || null,
+    steps,
+    completedSteps: due.length - remaining.length,
+    totalSteps: due.length,
+    isComplete: due.length > 0 && remaining.length === 0,
+    nextStep
+  };
+}
+
+/**
+ * Whether a local time (HH:MM) falls in the routine's window. Windows may
+ * wrap past midnight. Routines without a window are always in window.
+ */
+export function isWithinRoutineWindow(routine: HabitRoutine, localTime: string): boolean {
+  if (!routine.window_start || !routine.window_end) return true;
+  const time = localTime.slice(0, 5);
+  const start = routine.window_start.slice(0, 5);
+  const end = routine.window_end.slice(0, 5);
+  return start <= end
+    ? time >= start && time <= end
+    : time >= start || time <= end;
+}
+
+/**
+ * Current local time (HH:MM) in a timezone
+ */
+export function getLocalTimeString(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: resolveTimezone(timezone),
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(date);
+}
+
+// ============================================
+// Stats
+// ============================================
+
+/**
+ * Routine-level completion stats between two local dates (inclusive)
+ */
+export function calculateRoutineStats(
+  routine: HabitRoutine,
+  habitsById: Map<string, RoutineHabit>,
+  completionsByHabit: Map<string, CompletionEntry[]>,
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): RoutineStats {
+  const ordered = getOrderedSteps(routine, habitsById);
+  const stepCounts = ordered.map(() => ({ scheduled: 0, done: 0 }));
+  const dayResults = new Map<string, 'complete' | 'partial' | 'missed'>();
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    let scheduled = 0;
+    let done = 0;
+
+    ordered.forEach(({ habit }, idx) => {
+      if (!isStepScheduledOn(habit, date, timezone)) return;
+      scheduled++;
+      stepCounts[idx].scheduled++;
+      if (isStepDoneOn(habit, completionsByHabit.get(habit.id) || [], date, timezone)) {
+        done++;
+        stepCounts[idx].done++;
+      }
+    });
+
+    if (scheduled === 0) continue;
+    dayResults.set(date, done === scheduled ? 'complete' : done > 0 ? 'partial' : 'missed');
+  }
+
+  const results = [...dayResults.values()];
+  const completedDays = results.filter(r => r === 'complete').length;
+
+  let currentStreak = 0;
+  for (let date = endDate; date >= startDate; date = addDays(date, -1)) {
+    const result = dayResults.get(date);
+    if (!result) continue;
+    if (result === 'complete') currentStreak++;
+    else if (date !== endDate) break;
+  }
+
+  return {
+    routine_id: routine.id,
+    range: { start: startDate, end: endDate },
+    dueDays: results.length,
+    completedDays,
+    partialDays: results.filter(r => r === 'partial').length,
+    rate: results.length > 0 ? Math.round((completedDays / results.length) * 1000) / 10 : 0,
+    currentStreak,
+    stepRates: ordered.map(({ habit }, idx) => ({
+      habit_id: habit.id,
+      title: habit.title,
+      rate: stepCounts[idx].scheduled > 0
+        ? Math.round((stepCounts[idx].done / stepCounts[idx].scheduled) * 1000) / 10
+        : 0
+    }))
+  };
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Load active routines with their ordered steps and the step habits
+ * (pauses and freezes attached). Filter by owner or by routine ids.
+ */
+export async function loadRoutines(
+  supabase: any,
+  filter: { userId?: string; routineIds?: string[] }
+): Promise<{ routines: HabitRoutine[]; habitsById: Map<string, RoutineHabit> }> {
+  let query = supabase
+    .from('habit_routines')
+    .select('id, title, anchor_cue, window_start, window_end, is_active, created_at, habit_routine_steps(habit_id, position)')
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.routineIds) query = query.in('id', filter.routineIds);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load routines: ${error.message}`);
+
+  const routines: HabitRoutine[] = (data || []).map((row: any) => {
+    const { habit_routine_steps, ...routine } = row;
+    return { ...routine, steps: habit_routine_steps || [] };
+  });
+
+  const habitIds = [...new Set(routines.flatMap(r => r.steps.map(s => s.habit_id)))];
+  const habitsById = new Map<string, RoutineHabit>();
+  if (habitIds.length === 0) return { routines, habitsById };
+
+  const { data: habits, error: habitsError } = await supabase
+    .from('habits')
+    .select(ROUTINE_HABIT_COLUMNS)
+    .in('id', habitIds)
+    .eq('is_active', true);
+
+  if (habitsError) throw new Error(`Failed to load routine habits: ${habitsError.message}`);
+
+  for (const habit of await attachStreakProtection(supabase, habits)) {
+    habitsById.set(habit.id, habit);
+  }
+  return { routines, habitsById };
+}
+
+/**
+ * After a habit is completed, where each routine containing it stands and
+ * which step to prompt next. Empty when the habit is in no routine.
+ */
+export async function getRoutinePrompts(
+  supabase: any,
+  habitId: string,
+  today: string,
+  timezone: string
+): Promise<RoutineProgress[]> {
+  const { data: memberships, error } = await supabase
+    .from('habit_routine_steps')
+    .select('routine_id')
+    .eq('habit_id', habitId);
+
+  if (error || !memberships || memberships.length === 0) return [];
+
+  const { routines, habitsById } = await loadRoutines(supabase, {
+    routineIds: memberships.map((m: any) => m.routine_id)
+  });
+  if (routines.length === 0) return [];
+
+  const completionsByHabit = await loadCompletionsByHabit(supabase, [...habitsById.keys()], today, today);
+  return routines.map(routine =>
+    getRoutineProgress(routine, habitsById, completionsByHabit, today, timezone, habitId)
+  );
+}
+
+/**
+ * Completions per habit between two local dates (inclusive)
+ */
+export async function loadCompletionsByHabit(
+  supabase: any,
+  habitIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<Map<string, CompletionEntry[]>> {
+  const byHabit = new Map<string, CompletionEntry[]>();
+  if (habitIds.length === 0) return byHabit;
+
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_at, value')
+    .in('habit_id', habitIds)
+    .gte('completed_at', startDate)
+    .lte('completed_at', endDate);
+
+  if (error) throw new Error(`Failed to load completions: ${error.message}`);
+
+  for (const row of data || []) {
+    if (!byHabit.has(row.habit_id)) byHabit.set(row.habit_id, []);
+    byHabit.get(row.habit_id)!.push(row);
+  }
+  return byHabit;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Steps in routine order, dropping steps whose habit is gone or inactive
+ */
+function getOrderedSteps(
+  routine: HabitRoutine,
+  habitsById: Map<string, RoutineHabit>
+): Array<{ step: RoutineStep; habit: RoutineHabit }> {
+  return [...routine.steps]
+    .sort((a, b) => a.position - b.position)
+    .filter(step => habitsById.has(step.habit_id))
+    .map(step => ({ step, habit: habitsById.get(step.habit_id)! }));
+}
+
+function isStepScheduledOn(habit: RoutineHabit, date: string, timezone: string): boolean {
+  const start = getHabitStartDate(habit, timezone);
+  return (!start || date >= start) && isHabitScheduledOn(habit, date);
+}
+
+/**
+ * A step is done on a day when that day's target was met. Habits with a
+ * weekly amount target count any entry logged that day.
+ */
+function isStepDoneOn(habit: RoutineHabit, completions: CompletionEntry[], date: string, timezone: string): boolean {
+  const total = getDailyTotals(habit, completions, timezone).get(date) || 0;
+  if (getTargetPeriod(habit) === 'week') return total > 0;
+  return getDayProgress(habit, total) >= 1;
+}
@@ -0,0 +1,857 @@
+/**
+ * Habit Schedule & Streak Engine for Supabase Edge Functions
+ *
+ * Single source of truth for habit recurrence, expected-completion math and
+ * streak calculation. habit-service, watch-sync, celebrate-streak,
+ * habit-reminder-scheduler and generate-weekly-review all use it so that
+ * streaks and completion rates agree everywhere.
+ *
+ * All calendar math is done on local date strings (YYYY-MM-DD) in the
+ * user's IANA timezone, never on server-local Date objects.
+ *
+ * Streak protection: paused (vacation) days are neither expected nor
+ * counted, frozen days keep a streak alive without extending it, and a
+ * habit's grace_days tolerate that many consecutive misses.
+ *
+ * @module habit-schedule
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type HabitFrequency = 'daily' | 'weekly' | 'weekdays' | 'custom';
+
+export type HabitTargetPeriod = 'day' | 'week';
+
+export interface HabitSchedule {
+  frequency?: HabitFrequency | string | null;
+  /** Day numbers 0-6 (0 = Sunday) the habit is scheduled on */
+  custom_days?: number[] | null;
+  /** Completions required per week for weekly habits without fixed days */
+  weekly_target?: number | null;
+  /** Amount to reach for measurable habits (e.g. 8 glasses, 30 minutes) */
+  target_value?: number | null;
+  /** Whether target_value applies per scheduled day or per week */
+  target_period?: HabitTargetPeriod | string | null;
+  /** Unit label for measurable habits */
+  unit?: string | null;
+  /** Habit creation timestamp; days before it are never expected */
+  created_at?: string | null;
+  /** Consecutive missed days (or weeks) tolerated before a streak breaks */
+  grace_days?: number | null;
+  /** Vacation-mode date ranges (inclusive); an open end_date means still paused */
+  pauses?: HabitPause[] | null;
+  /** Missed dates covered by a streak freeze */
+  frozen_dates?: string[] | null;
+}
+
+export interface HabitPause {
+  start_date: string;
+  end_date: string | null;
+}
+
+/**
+ * A completion row, or just its date. Measurable habits sum `value` per
+ * day; a row without a value counts as meeting the target.
+ */
+export type CompletionEntry = string | { completed_at: string; value?: number | null };
+
+export interface CompletionSummary {
+  /** Completions expected in the range */
+  expected: number;
+  /** Completions that count toward the expectation (capped at expected).
+   *  Measurable habits earn partial credit, so this may be fractional. */
+  completed: number;
+  /** Completion rate as a percentage rounded to one decimal */
+  rate: number;
+  /** Sum of logged values in the range (measurable habits only) */
+  totalValue?: number;
+}
+
+export interface HabitProgress {
+  /** Amount logged in the current period */
+  value: number;
+  /** Amount required in the current period */
+  target: number;
+  unit: string | null;
+  period: HabitTargetPeriod;
+  /** Progress as a percentage, capped at 100 */
+  percent: number;
+  isComplete: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+/** Streak lengths that trigger celebrations and badges */
+export const STREAK_MILESTONES = [7, 14, 21, 30, 60, 90, 100, 180, 365];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Streak walks stop after this many days with nothing found
+const MAX_STREAK_LOOKBACK_DAYS = 3660;
+
+/** Upper bound for a habit's grace window */
+export const MAX_GRACE_DAYS = 3;
+
+/** Days back a completion may be logged, unless the user configures otherwise */
+export const DEFAULT_BACKFILL_DAYS = 7;
+
+/** Upper bound for the configurable backfill window */
+export const MAX_BACKFILL_DAYS = 30;
+
+// ============================================
+// Timezone Helpers
+// ============================================
+
+/**
+ * Resolve a usable IANA timezone, falling back to the default for
+ * missing or unknown zones.
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  if (!timezone) return DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) for an instant in a timezone
+ */
+export function getLocalDateString(date: Date, timezone: string): string {
+  const parts = getZonedParts(date, resolveTimezone(timezone));
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+/**
+ * Get today's local date (YYYY-MM-DD) in a timezone
+ */
+export function getTodayInTimezone(timezone: string, now: Date = new Date()): string {
+  return getLocalDateString(now, timezone);
+}
+
+/**
+ * Convert a local wall-clock time in a timezone to a UTC instant.
+ * Handles DST transitions by re-checking the offset at the candidate instant.
+ */
+export function zonedTimeToUtc(dateStr: string, time: string, timezone: string): Date {
+  const tz = resolveTimezone(timezone);
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number);
+  const wallClockUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  let instant = wallClockUtc - getTimezoneOffsetMs(new Date(wallClockUtc), tz);
+  const correctedOffset = getTimezoneOffsetMs(new Date(instant), tz);
+  instant = wallClockUtc - correctedOffset;
+
+  return new Date(instant);
+}
+
+/**
+ * Get the UTC instants bounding a local calendar day
+ */
+export function getLocalDayBounds(dateStr: string, timezone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(dateStr, '00:00:00', timezone),
+    end: zonedTimeToUtc(addDays(dateStr, 1), '00:00:00', timezone)
+  };
+}
+
+/**
+ * Load a user's timezone from user_comm_preferences
+ */
+export async function getUserTimezone(supabase: any, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('user_comm_preferences')
+    .select('timezone')
+    .eq('user_id', userId)
+    .single();
+
+  return resolveTimezone(data?.timezone);
+}
+
+/**
+ * Attach pause ranges and frozen dates from habit_pauses and
+ * habit_streak_freezes to habit rows so the engine can honor them
+ */
+export async function attachStreakProtection(
+  supabase: any,
+  habits: any[] | null | undefined
+): Promise<any[]> {
+  if (!habits || habits.length === 0) return [];
+  const habitIds = habits.map(h => h.id);
+
+  const [{ data: pauses }, { data: freezes }] = await Promise.all([
+    supabase
+      .from('habit_pauses')
+      .select('habit_id, start_date, end_date')
+      .in('habit_id', habitIds),
+    supabase
+      .from('habit_streak_freezes')
+      .select('habit_id, frozen_date')
+      .in('habit_id', habitIds)
+  ]);
+
+  return habits.map(habit => ({
+    ...habit,
+    pauses: (pauses || [])
+      .filter((p: any) => p.habit_id === habit.id)
+      .map((p: any) => ({ start_date: p.start_date, end_date: p.end_date })),
+    frozen_dates: (freezes || [])
+      .filter((f: any) => f.habit_id === habit.id)
+      .map((f: any) => f.frozen_date)
+  }));
+}
+
+// ============================================
+// Date String Helpers
+// ============================================
+
+/**
+ * Normalize a DATE or TIMESTAMPTZ value to a local date string.
+ * Bare dates are returned unchanged; timestamps are converted to the timezone.
+ */
+export function toLocalDate(value: string, timezone: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  return getLocalDateString(new Date(value), timezone);
+}
+
+export function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY);
+  return date.toISOString().split('T')[0];
+}
+
+export function diffInDays(fromDateStr: string, toDateStr: string): number {
+  return Math.round((parseDate(toDateStr) - parseDate(fromDateStr)) / MS_PER_DAY);
+}
+
+/**
+ * Day of week (0 = Sunday) for a calendar date, independent of server timezone
+ */
+export function getDayOfWeek(dateStr: string): number {
+  return new Date(parseDate(dateStr)).getUTCDay();
+}
+
+/**
+ * Start of the week containing a date. Weeks start on Monday by default.
+ */
+export function getWeekStart(dateStr: string, weekStartsOn: number = 1): string {
+  const offset = (getDayOfWeek(dateStr) - weekStartsOn + 7) % 7;
+  return addDays(dateStr, -offset);
+}
+
+// ============================================
+// Recurrence
+// ============================================
+
+/**
+ * Whether a habit tracks an amount (with a unit and target) rather than
+ * a yes/no completion
+ */
+export function isMeasurableHabit(habit: HabitSchedule): boolean {
+  return Number(habit.target_value) > 0;
+}
+
+export function getTargetPeriod(habit: HabitSchedule): HabitTargetPeriod {
+  return isMeasurableHabit(habit) && habit.target_period === 'week' ? 'week' : 'day';
+}
+
+/**
+ * Whether a habit is judged per week rather than per scheduled day: weekly
+ * habits without fixed days, and measurable habits with a weekly target
+ */
+export function isWeeklyTargetHabit(habit: HabitSchedule): boolean {
+  if (getTargetPeriod(habit) === 'week') return true;
+  return habit.frequency === 'weekly' && !hasCustomDays(habit);
+}
+
+export function getWeeklyTarget(habit: HabitSchedule): number {
+  const target = Number(habit.weekly_target) || 1;
+  return Math.min(Math.max(Math.round(target), 1), 7);
+}
+
+/**
+ * Check if a habit is scheduled on a local calendar date.
+ * Weekly-target habits can be done on any day of the week.
+ */
+export function isHabitScheduledOn(habit: HabitSchedule, dateStr: string): boolean {
+  if (isHabitPausedOn(habit, dateStr)) return false;
+  if (getTargetPeriod(habit) === 'week') return true;
+
+  const dayOfWeek = getDayOfWeek(dateStr);
+
+  switch (habit.frequency) {
+    case 'weekdays':
+      return dayOfWeek >= 1 && dayOfWeek <= 5;
+    case 'custom':
+    case 'weekly':
+      return hasCustomDays(habit) ? habit.custom_days!.includes(dayOfWeek) : true;
+    case 'daily':
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a date falls inside one of the habit's vacation-mode pauses
+ */
+export function isHabitPausedOn(habit: HabitSchedule, dateStr: string): boolean {
+  if (!habit.pauses || habit.pauses.length === 0) return false;
+  return habit.pauses.some(pause =>
+    dateStr >= pause.start_date && (!pause.end_date || dateStr <= pause.end_date)
+  );
+}
+
+export function getGraceDays(habit: HabitSchedule): number {
+  const grace = Math.round(Number(habit.grace_days) || 0);
+  return Math.min(Math.max(grace, 0), MAX_GRACE_DAYS);
+}
+
+/**
+ * Whether a missed date is covered by a streak freeze
+ */
+export function isDateFrozen(habit: HabitSchedule, dateStr: string): boolean {
+  return !!habit.frozen_dates && habit.frozen_dates.includes(dateStr);
+}
+
+/**
+ * Whether a habit still needs doing on a date: it is scheduled, that day's
+ * target is not yet met, and (for weekly-target habits) the week's target
+ * has not been met
+ */
+export function isHabitDueOn(
+  habit: HabitSchedule,
+  completions: CompletionEntry[],
+  dateStr: string,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean {
+  if (!isHabitScheduledOn(habit, dateStr)) return false;
+
+  const totals = getDailyTotals(habit, completions, timezone);
+
+  if (isWeeklyTargetHabit(habit)) {
+    const weekStart = getWeekStart(dateStr);
+    if (getTargetPeriod(habit) === 'day' && totals.has(dateStr)) return false;
+    return !getWeekProgress(habit, totals, weekStart, addDays(weekStart, 6)).met;
+  }
+
+  return getDayProgress(habit, totals.get(dateStr) || 0) < 1;
+}
+
+/**
+ * First local date on which a habit can be expected, or null if unknown
+ */
+export function getHabitStartDate(habit: HabitSchedule, timezone: string): string | null {
+  return habit.created_at ? toLocalDate(habit.created_at, timezone) : null;
+}
+
+/**
+ * Count completions expected between two local dates (inclusive),
+ * ignoring days before the habit existed. A measurable weekly target
+ * counts as one expected completion per week.
+ */
+export function countExpectedCompletions(
+  habit: HabitSchedule,
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): number {
+  const from = getEffectiveStart(habit, startDate, timezone);
+  if (from > endDate) return 0;
+
+  if (isWeeklyTargetHabit(habit)) {
+    let expected = 0;
+    for (const week of splitIntoWeeks(from, endDate)) {
+      expected += getWeekExpected(habit, week.start, week.end);
+    }
+    return expected;
+  }
+
+  let expected = 0;
+  for (let date = from; date <= endDate; date = addDays(date, 1)) {
+    if (isHabitScheduledOn(habit, date)) expected++;
+  }
+  return expected;
+}
+
+/**
+ * Summarize expected vs. actual completions between two local dates.
+ * Completions on unscheduled days, and extra completions beyond a weekly
+ * target, do not inflate the rate past 100%. Measurable habits earn
+ * partial credit for partial amounts.
+ */
+export function summarizeCompletions(
+  habit: HabitSchedule,
+  completions: CompletionEntry[],
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): CompletionSummary {
+  const expected = countExpectedCompletions(habit, startDate, endDate, timezone);
+  const totals = getDailyTotals(habit, completions, timezone);
+  const from = getEffectiveStart(habit, startDate, timezone);
+
+  let completed = 0;
+  if (isWeeklyTargetHabit(habit)) {
+    for (const week of splitIntoWeeks(from, endDate)) {
+      completed += getWeekProgress(habit, totals, week.start, week.end).completed;
+    }
+  } else {
+    for (const [date, total] of totals) {
+      if (date >= from && date <= endDate && isHabitScheduledOn(habit, date)) {
+        completed += getDayProgress(habit, total);
+      }
+    }
+  }
+  completed = Math.min(roundTo(completed, 2), expected);
+
+  const summary: CompletionSummary = {
+    expected,
+    completed,
+    rate: expected > 0 ? Math.round((completed / expected) * 1000) / 10 : 0
+  };
+
+  if (isMeasurableHabit(habit)) {
+    let totalValue = 0;
+    for (const [date, total] of totals) {
+      if (date >= startDate && date <= endDate) totalValue += total;
+    }
+    summary.totalValue = roundTo(totalValue, 2);
+  }
+
+  return summary;
+}
+
+/**
+ * Progress toward a measurable habit's target for the day (or week)
+ * containing a date. Yes/no habits report a target of 1.
+ */
+export function getHabitProgress(
+  habit: HabitSchedule,
+  completions: CompletionEntry[],
+  dateStr: string,
+  timezone: string = DEFAULT_TIMEZONE
+): HabitProgress {
+  const totals = getDailyTotals(habit, completions, timezone);
+  const period = getTargetPeriod(habit);
+  let target = isMeasurableHabit(habit) ? Number(habit.target_value) : 1;
+
+  let value = totals.get(dateStr) || 0;
+  if (period === 'week') {
+    const weekStart = getWeekStart(dateStr);
+    const weekEnd = addDays(weekStart, 6);
+    value = sumRange(totals, weekStart, weekEnd);
+    const activeDays = countActiveDays(habit, weekStart, weekEnd);
+    if (activeDays > 0) target = roundTo((target * activeDays) / 7, 2);
+  }
+  if (!isMeasurableHabit(habit)) value = value > 0 ? 1 : 0;
+
+  const percent = Math.min(100, Math.round((value / target) * 100));
+
+  return {
+    value: roundTo(value, 2),
+    target,
+    unit: habit.unit || null,
+    period,
+    percent,
+    isComplete: value >= target
+  };
+}
+
+/**
+ * Sum completion values per local date. Yes/no habits count each row as 1;
+ * measurable habits count a row without a value as meeting the target.
+ * Completions on paused days are left out.
+ */
+export function getDailyTotals(
+  habit: HabitSchedule,
+  completions: CompletionEntry[],
+  timezone: string
+): Map<string, number> {
+  const defaultValue = isMeasurableHabit(habit) ? Number(habit.target_value) : 1;
+  const totals = new Map<string, number>();
+
+  for (const entry of completions) {
+    if (!entry) continue;
+    const completedAt = typeof entry === 'string' ? entry : entry.completed_at;
+    if (!completedAt) continue;
+
+    const rawValue = typeof entry === 'string' ? null : entry.value;
+    const value = isMeasurableHabit(habit) && rawValue != null ? Number(rawValue) : defaultValue;
+    const date = toLocalDate(completedAt, timezone);
+    // Paused days count as neither missed nor completed
+    if (isHabitPausedOn(habit, date)) continue;
+    totals.set(date, (totals.get(date) || 0) + value);
+  }
+
+  return totals;
+}
+
+/**
+ * Fraction (0-1) of a day's target that was met
+ */
+export function getDayProgress(habit: HabitSchedule, total: number): number {
+  if (total <= 0) return 0;
+  if (!isMeasurableHabit(habit)) return 1;
+  return Math.min(total / Number(habit.target_value), 1);
+}
+
+// ============================================
+// Streaks
+// ============================================
+
+/**
+ * Calculate the current streak for a habit as of a local date.
+ *
+ * Day-based habits count consecutive scheduled days whose target was met;
+ * unscheduled and paused days neither extend nor break the streak, and
+ * neither do frozen days or misses within the grace window. Weekly-target
+ * habits count consecutive weeks that met the target under the same rules.
+ * The current day (or week) never breaks a streak while it is in progress.
+ */
+export function calculateCurrentStreak(
+  habit: HabitSchedule,
+  completions: CompletionEntry[],
+  today: string,
+  timezone: string = DEFAULT_TIMEZONE
+): number {
+  const totals = getDailyTotals(habit, completions, timezone);
+  if (totals.size === 0) return 0;
+
+  if (isWeeklyTargetHabit(habit)) {
+    return calculateWeeklyStreak(habit, totals, today);
+  }
+
+  const earliest = [...totals.keys()].sort()[0];
+  const graceDays = getGraceDays(habit);
+  let streak = 0;
+  let missed = 0;
+  let date = today;
+
+  for (let i = 0; i < MAX_STREAK_LOOKBACK_DAYS && date >= earliest; i++) {
+    if (isHabitScheduledOn(habit, date)) {
+      if (isDayComplete(habit, totals, date)) {
+        streak++;
+        missed = 0;
+      } else if (date !== today && !isDateFrozen(habit, date) && ++missed > graceDays) {
+        break;
+      }
+    }
+    date = addDays(date, -1);
+  }
+
+  return streak;
+}
+
+/**
+ * Calculate the longest streak ever achieved from a habit's completions
+ */
+export function calculateLongestStreak(
+  habit: HabitSchedule,
+  completions: CompletionEntry[],
+  timezone: string = DEFAULT_TIMEZONE
+): number {
+  const totals = getDailyTotals(habit, completions, timezone);
+  const dates = [...totals.keys()].sort();
+  if (dates.length === 0) return 0;
+
+  const last = dates[dates.length - 1];
+  const graceDays = getGraceDays(habit);
+  let longest = 0;
+  let current = 0;
+  let missed = 0;
+
+  if (isWeeklyTargetHabit(habit)) {
+    for (const week of splitIntoWeeks(getWeekStart(dates[0]), last)) {
+      const weekEnd = addDays(week.start, 6);
+      if (getWeekProgress(habit, totals, week.start, weekEnd).met) {
+        current++;
+        missed = 0;
+      } else if (isWeekExcused(habit, week.start) || ++missed <= graceDays) {
+        continue;
+      } else {
+        current = 0;
+      }
+      longest = Math.max(longest, current);
+    }
+    return longest;
+  }
+
+  for (let date = dates[0]; date <= last; date = addDays(date, 1)) {
+    if (!isHabitScheduledOn(habit, date)) continue;
+    if (isDayComplete(habit, totals, date)) {
+      current++;
+      missed = 0;
+    } else if (!isDateFrozen(habit, date) && ++missed > graceDays) {
+      current = 0;
+    }
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+export function isStreakMilestone(streak: number): boolean {
+  return STREAK_MILESTONES.includes(streak);
+}
+
+// ============================================
+// Reminders
+// ============================================
+
+/**
+ * Get the next UTC instant a habit reminder should fire, at the given
+ * wall-clock time (HH:MM) in the user's timezone, on a scheduled day
+ */
+export function getNextReminderTime(
+  habit: HabitSchedule,
+  reminderTime: string,
+  timezone: string,
+  now: Date = new Date()
+): Date {
+  let date = getTodayInTimezone(timezone, now);
+
+  for (let i = 0; i < 8; i++) {
+    if (isHabitScheduledOn(habit, date)) {
+      const candidate = zonedTimeToUtc(date, reminderTime, timezone);
+      if (candidate > now) return candidate;
+    }
+    date = addDays(date, 1);
+  }
+
+  return zonedTimeToUtc(date, reminderTime, timezone);
+}
+
+// ============================================
+// Pauses
+// ============================================
+
+/**
+ * Check a requested pause range against today. Pauses may not start in the
+ * past, so they can never hide days that were already missed.
+ * Returns an error message, or null when the pause may be created.
+ */
+export function getPauseError(startDate: string, endDate: string, today: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return 'Pause dates must be in YYYY-MM-DD format';
+  }
+  if (startDate < today) {
+    return 'Pauses cannot start in the past';
+  }
+  if (endDate < startDate) {
+    return 'Pause end date must be on or after the start date';
+  }
+  return null;
+}
+
+// ============================================
+// Backfill
+// ============================================
+
+/**
+ * Load how many days back a user may log completions, from
+ * user_agent_settings.habit_backfill_days
+ */
+export async function getBackfillWindow(supabase: any, userId: string): Promise<number> {
+  const { data } = await supabase
+    .from('user_agent_settings')
+    .select('habit_backfill_days')
+    .eq('user_id', userId)
+    .single();
+
+  const days = data?.habit_backfill_days;
+  if (days === null || days === undefined) return DEFAULT_BACKFILL_DAYS;
+  return Math.min(Math.max(Math.round(Number(days)) || 0, 0), MAX_BACKFILL_DAYS);
+}
+
+/**
+ * Check a completion date against today and the backfill window.
+ * Returns an error message, or null when the date may be logged.
+ */
+export function getBackfillError(dateStr: string, today: string, windowDays: number): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    return 'Completion date must be in YYYY-MM-DD format';
+  }
+  if (dateStr > today) {
+    return 'Cannot log a completion for a future date';
+  }
+  if (diffInDays(dateStr, today) > windowDays) {
+    return windowDays === 0
+      ? 'Completions can only be logged for today'
+      : `Completions can only be logged up to ${windowDays} days back`;
+  }
+  return null;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function hasCustomDays(habit: HabitSchedule): boolean {
+  return Array.isArray(habit.custom_days) && habit.custom_days.length > 0;
+}
+
+function getEffectiveStart(habit: HabitSchedule, startDate: string, timezone: string): string {
+  const habitStart = getHabitStartDate(habit, timezone);
+  return habitStart && habitStart > startDate ? habitStart : startDate;
+}
+
+function isDayComplete(habit: HabitSchedule, totals: Map<string, number>, date: string): boolean {
+  return getDayProgress(habit, totals.get(date) || 0) >= 1;
+}
+
+function getWeekExpected(habit: HabitSchedule, start: string, end: string): number {
+  const activeDays = countActiveDays(habit, start, end);
+  if (getTargetPeriod(habit) === 'week') return activeDays > 0 ? 1 : 0;
+  return Math.min(getWeeklyTarget(habit), activeDays);
+}
+
+/**
+ * Days in a range that are not paused
+ */
+function countActiveDays(habit: HabitSchedule, start: string, end: string): number {
+  let days = 0;
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (!isHabitPausedOn(habit, date)) days++;
+  }
+  return days;
+}
+
+/**
+ * Whether a week that missed its target is excused: fully paused, or
+ * covered by a streak freeze on one of its days
+ */
+function isWeekExcused(habit: HabitSchedule, weekStart: string): boolean {
+  const weekEnd = addDays(weekStart, 6);
+  if (countActiveDays(habit, weekStart, weekEnd) === 0) return true;
+  return (habit.frozen_dates || []).some(date => date >= weekStart && date <= weekEnd);
+}
+
+/**
+ * Progress for a (possibly partial) week of a weekly-target habit
+ */
+function getWeekProgress(
+  habit: HabitSchedule,
+  totals: Map<string, number>,
+  start: string,
+  end: string
+): { completed: number; met: boolean } {
+  const expected = getWeekExpected(habit, start, end);
+  if (expected === 0) return { completed: 0, met: false };
+
+  if (getTargetPeriod(habit) === 'week') {
+    // Paused days shrink the week's target proportionally
+    const weekStart = getWeekStart(start);
+    const activeShare = countActiveDays(habit, weekStart, addDays(weekStart, 6)) / 7;
+    const target = roundTo(Number(habit.target_value) * activeShare, 2);
+    const fraction = Math.min(sumRange(totals, start, end) / target, 1);
+    return { completed: fraction, met: fraction >= 1 };
+  }
+
+  let days = 0;
+  for (const date of totals.keys()) {
+    if (date >= start && date <= end) days++;
+  }
+  return { completed: Math.min(days, expected), met: days >= expected };
+}
+
+function calculateWeeklyStreak(habit: HabitSchedule, totals: Map<string, number>, today: string): number {
+  const earliestWeek = getWeekStart([...totals.keys()].sort()[0]);
+  const currentWeek = getWeekStart(today);
+  const graceDays = getGraceDays(habit);
+  let weekStart = currentWeek;
+  let streak = 0;
+  let missed = 0;
+
+  while (weekStart >= earliestWeek) {
+    if (getWeekProgress(habit, totals, weekStart, addDays(weekStart, 6)).met) {
+      streak++;
+      missed = 0;
+    } else if (
+      weekStart !== currentWeek &&
+      !isWeekExcused(habit, weekStart) &&
+      ++missed > graceDays
+    ) {
+      break;
+    }
+    weekStart = addDays(weekStart, -7);
+  }
+
+  return streak;
+}
+
+function splitIntoWeeks(startDate: string, endDate: string): { start: string; end: string }[] {
+  const weeks: { start: string; end: string }[] = [];
+  let start = startDate;
+
+  while (start <= endDate) {
+    const weekEnd = addDays(getWeekStart(start), 6);
+    const end = weekEnd < endDate ? weekEnd : endDate;
+    weeks.push({ start, end });
+    start = addDays(end, 1);
+  }
+
+  return weeks;
+}
+
+function sumRange(totals: Map<string, number>, start: string, end: string): number {
+  let sum = 0;
+  for (const [date, total] of totals) {
+    if (date >= start && date <= end) sum += total;
+  }
+  return sum;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function parseDate(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function getZonedParts(date: Date, timezone: string) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
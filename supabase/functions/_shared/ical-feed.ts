@@ -0,0 +1,499 @@
+/**
+ * iCalendar Feed Builder for Supabase Edge Functions
+ *
+ * Turns a user's plan into an RFC 5545 calendar so it can be subscribed
+ * to (or imported) from Apple Calendar, Outlook or any other client
+ * without connecting an OAuth account. calendar-feed serves it both as a
+ * token-protected subscription and as a one-off .ics download.
+ *
+ * What ends up in the calendar:
+ * - Action tasks as all-day events on their due date. A recurring series
+ *   becomes one event with an RRULE instead of one event per occurrence,
+ *   with an EXDATE for every occurrence that was skipped.
+ * - Milestone years as an all-day event on Dec 31 listing that year's tasks
+ * - Scheduled habit reminders and goal check-ins as short timed events
+ * - The weekly review as a weekly event in the user's timezone. Every
+ *   TZID used gets a VTIMEZONE built from the runtime's zone data, since
+ *   RFC 5545 requires one and Outlook drops events without it.
+ *
+ * Event UIDs are derived from row ids so that refreshing a subscription
+ * updates events in place instead of duplicating them.
+ *
+ * @module ical-feed
+ */
+
+import { addDays, getDayOfWeek } from './habit-schedule.ts';
+import { parseRecurrenceRule } from './task-recurrence.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  /** All-day events: start date (YYYY-MM-DD); ends the next day */
+  date?: string;
+  /** Timed events: UTC ISO timestamp, or local time when tzid is set */
+  dateTime?: string;
+  /** IANA timezone for a local dateTime (YYYY-MM-DDTHH:MM:SS) */
+  tzid?: string;
+  durationMinutes?: number;
+  /** RRULE value without the "RRULE:" prefix */
+  rrule?: string;
+  /** Dates (YYYY-MM-DD) left out of an all-day recurring event */
+  exdates?: string[];
+  categories?: string[];
+}
+
+export interface FeedTask {
+  id: string;
+  title: string;
+  description?: string | null;
+  due_date?: string | null;
+  is_completed?: boolean | null;
+  milestone_year?: number | null;
+  priority?: string | null;
+  recurrence_rule?: string | null;
+  recurrence_anchor?: string | null;
+  recurrence_series_id?: string | null;
+  skipped_at?: string | null;
+}
+
+export interface FeedHabitReminder {
+  id: string;
+  habit_name: string;
+  scheduled_for: string;
+  reminder_message?: string | null;
+  status?: string | null;
+  snoozed_until?: string | null;
+}
+
+export interface FeedGoalCheckin {
+  id: string;
+  goal_title: string;
+  scheduled_for: string;
+  checkin_message?: string | null;
+  status?: string | null;
+}
+
+export interface FeedWeeklyReview {
+  /** Day name, e.g. 'sunday' */
+  weekly_review_day?: string | null;
+  /** HH:MM or HH:MM:SS */
+  weekly_review_time?: string | null;
+  timezone?: string | null;
+}
+
+export interface PlanCalendarInput {
+  userId: string;
+  tasks: FeedTask[];
+  habitReminders: FeedHabitReminder[];
+  goalCheckins: FeedGoalCheckin[];
+  weeklyReview?: FeedWeeklyReview | null;
+  /** User's local date (YYYY-MM-DD), used to place the weekly review */
+  today: string;
+  /** Generation time, written as DTSTAMP */
+  now: Date;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const CALENDAR_NAME = 'Visionary AI Plan';
+
+const PRODUCT_ID = '-//Visionary AI//Plan Feed//EN';
+
+const UID_DOMAIN = 'visionaryaicoach.com';
+
+const REMINDER_DURATION_MINUTES = 15;
+
+const WEEKLY_REVIEW_DURATION_MINUTES = 30;
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const MINUTE_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// ============================================
+// Plan Mapping
+// ============================================
+
+/**
+ * Build the user's plan calendar as .ics text
+ */
+export function buildPlanCalendar(input: PlanCalendarInput): string {
+  const events: IcsEvent[] = [
+    ...getTaskEvents(input.tasks),
+    ...getMilestoneEvents(input.userId, input.tasks),
+    ...input.habitReminders.filter(r => r.status !== 'skipped').map(getHabitReminderEvent),
+    ...input.goalCheckins.filter(c => c.status !== 'skipped').map(getGoalCheckinEvent)
+  ];
+
+  const review = input.weeklyReview ? getWeeklyReviewEvent(input.userId, input.weeklyReview, input.today) : null;
+  if (review) events.push(review);
+
+  return serializeCalendar(CALENDAR_NAME, events, input.now);
+}
+
+/**
+ * All-day events for dated tasks. Rows of a recurring series collapse into
+ * one repeating event anchored at the series' first occurrence; its skipped
+ * rows become EXDATEs. Other skipped tasks are left out.
+ */
+export function getTaskEvents(tasks: FeedTask[]): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  const series = new Map<string, FeedTask[]>();
+
+  for (const task of tasks) {
+    if (!task.due_date) continue;
+    if (task.recurrence_rule && task.recurrence_series_id) {
+      if (!series.has(task.recurrence_series_id)) series.set(task.recurrence_series_id, []);
+      series.get(task.recurrence_series_id)!.push(task);
+      continue;
+    }
+    if (task.skipped_at) continue;
+    events.push({
+      uid: `task-${task.id}@${UID_DOMAIN}`,
+      summary: formatTaskSummary(task),
+      description: task.description || undefined,
+      date: task.due_date,
+      categories: ['Task']
+    });
+  }
+
+  for (const [seriesId, rows] of series) {
+    // The latest open occurrence carries the current rule; a series with
+    // none left has ended
+    const open = rows.filter(r => !r.skipped_at);
+    if (open.length === 0) continue;
+    const latest = open.sort((a, b) => a.due_date!.localeCompare(b.due_date!)).pop()!;
+    const anchor = latest.recurrence_anchor || rows.map(r => r.due_date!).sort()[0];
+    const skipped = rows.filter(r => r.skipped_at).map(r => r.due_date!);
+    let rrule: string | undefined;
+    try {
+      rrule = toIcsRecurrence(latest.recurrence_rule!);
+    } catch {
+      // An unreadable rule still shows the upcoming occurrence
+    }
+    events.push({
+      uid: `task-series-${seriesId}@${UID_DOMAIN}`,
+      summary: latest.title,
+      description: latest.description || undefined,
+      date: rrule ? anchor : latest.due_date!,
+      rrule,
+      exdates: rrule && skipped.length > 0 ? [...new Set(skipped)].sort() : undefined,
+      categories: ['Task']
+    });
+  }
+
+  return events;
+}
+
+/**
+ * One all-day event per milestone year on Dec 31, listing its tasks
+ */
+export function getMilestoneEvents(userId: string, tasks: FeedTask[]): IcsEvent[] {
+  const byYear = new Map<number, FeedTask[]>();
+  for (const task of tasks) {
+    if (!task.milestone_year || task.skipped_at) continue;
+    if (!byYear.has(task.milestone_year)) byYear.set(task.milestone_year, []);
+    byYear.get(task.milestone_year)!.push(task);
+  }
+
+  return [...byYear.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([year, yearTasks]) => {
+      const done = yearTasks.filter(t => t.is_completed).length;
+      return {
+        uid: `milestone-${userId}-${year}@${UID_DOMAIN}`,
+        summary: `${year} milestone (${done}/${yearTasks.length} done)`,
+        description: yearTasks.map(t => `${t.is_completed ? '[x]' : '[ ]'} ${t.title}`).join('\n'),
+        date: `${year}-12-31`,
+        categories: ['Milestone']
+      };
+    });
+}
+
+/**
+ * Timed event for a scheduled habit reminder (at the snoozed time if snoozed)
+ */
+export function getHabitReminderEvent(reminder: FeedHabitReminder): IcsEvent {
+  const at = reminder.status === 'snoozed' && reminder.snoozed_until ? reminder.snoozed_until : reminder.scheduled_for;
+  return {
+    uid: `habit-reminder-${reminder.id}@${UID_DOMAIN}`,
+    summary: reminder.habit_name,
+    description: reminder.reminder_message || undefined,
+    dateTime: at,
+    durationMinutes: REMINDER_DURATION_MINUTES,
+    categories: ['Habit']
+  };
+}
+
+/**
+ * Timed event for a scheduled goal check-in
+ */
+export function getGoalCheckinEvent(checkin: FeedGoalCheckin): IcsEvent {
+  return {
+    uid: `goal-checkin-${checkin.id}@${UID_DOMAIN}`,
+    summary: `Check-in: ${checkin.goal_title}`,
+    description: checkin.checkin_message || undefined,
+    dateTime: checkin.scheduled_for,
+    durationMinutes: REMINDER_DURATION_MINUTES,
+    categories: ['Check-in']
+  };
+}
+
+/**
+ * Weekly review as a repeating event in the user's timezone, starting on
+ * the next review day (today included)
+ */
+export function getWeeklyReviewEvent(userId: string, review: FeedWeeklyReview, today: string): IcsEvent | null {
+  const weekday = DAY_NAMES.indexOf((review.weekly_review_day || '').toLowerCase());
+  const time = (review.weekly_review_time || '').match(/^(\d{2}):(\d{2})/);
+  if (weekday < 0 || !time) return null;
+
+  const start = addDays(today, (weekday - getDayOfWeek(today) + 7) % 7);
+  return {
+    uid: `weekly-review-${userId}@${UID_DOMAIN}`,
+    summary: 'Weekly review',
+    description: 'Look back at your wins and blockers and plan the week ahead.',
+    dateTime: `${start}T${time[1]}:${time[2]}:00`,
+    tzid: review.timezone || 'UTC',
+    durationMinutes: WEEKLY_REVIEW_DURATION_MINUTES,
+    rrule: `FREQ=WEEKLY;BYDAY=${DAY_CODES[weekday]}`,
+    categories: ['Review']
+  };
+}
+
+/**
+ * Convert a task recurrence rule to its iCalendar form. Our rules put days
+ * past the end of a short month on its last day, while RFC 5545 skips
+ * those months, so BYMONTHDAY=29..31 becomes "the last of 28..N".
+ */
+export function toIcsRecurrence(ruleText: string): string {
+  const rule = parseRecurrenceRule(ruleText);
+  const parts = ruleText.replace(/^RRULE:/i, '').toUpperCase().split(';');
+  const day = rule.byMonthDay.length === 1 ? rule.byMonthDay[0] : 0;
+  if (day <= 28) return parts.join(';');
+
+  const days = Array.from({ length: day - 27 }, (_, i) => 28 + i).join(',');
+  return parts
+    .map(part => part.startsWith('BYMONTHDAY=') ? `BYMONTHDAY=${days};BYSETPOS=-1` : part)
+    .join(';');
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+/**
+ * Serialize events into a VCALENDAR with CRLF line endings. Each TZID used
+ * by an event gets a VTIMEZONE for the year of its first event.
+ */
+export function serializeCalendar(name: string, events: IcsEvent[], now: Date): string {
+  const stamp = formatUtcDateTime(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H'
+  ];
+
+  const zoneYears = new Map<string, number>();
+  for (const event of events) {
+    if (!event.tzid || !event.dateTime) continue;
+    const year = Number(event.dateTime.slice(0, 4));
+    zoneYears.set(event.tzid, Math.min(zoneYears.get(event.tzid) ?? year, year));
+  }
+  for (const [tzid, year] of zoneYears) {
+    lines.push(...serializeTimezone(tzid, year));
+  }
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (event.date) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${event.date.replace(/-/g, '')}`,
+        `DTEND;VALUE=DATE:${addDays(event.date, 1).replace(/-/g, '')}`
+      );
+    } else if (event.dateTime) {
+      lines.push(event.tzid
+        ? `DTSTART;TZID=${event.tzid}:${formatLocalDateTime(event.dateTime)}`
+        : `DTSTART:${formatUtcDateTime(event.dateTime)}`);
+      lines.push(`DURATION:PT${event.durationMinutes || REMINDER_DURATION_MINUTES}M`);
+    }
+
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.date && event.exdates?.length) {
+      lines.push(`EXDATE;VALUE=DATE:${event.exdates.map(d => d.replace(/-/g, '')).join(',')}`);
+    }
+    lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`);
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * VTIMEZONE lines for an IANA zone. Offset changes found in `year` become
+ * yearly STANDARD/DAYLIGHT rules (e.g. the second Sunday of March), so
+ * repeating events keep the right offset in later years too.
+ */
+export function serializeTimezone(tzid: string, year: number): string[] {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: tzid,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${tzid}`];
+
+  const transitions = findOffsetTransitions(formatter, year);
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(getOffsetMinutes(formatter, Date.UTC(year, 0, 1)));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD'
+    );
+  }
+
+  for (const { at, from, to } of transitions) {
+    // Observances start at the wall-clock time before the change
+    const local = new Date(at + from * MINUTE_MS);
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatLocalDateTime(local.toISOString())}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${DAY_CODES[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatUtcOffset(from)}`,
+      `TZOFFSETTO:${formatUtcOffset(to)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a UTF-8 character
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function formatTaskSummary(task: FeedTask): string {
+  const prefix = task.is_completed ? '✓ ' : task.priority === 'high' ? '! ' : '';
+  return `${prefix}${task.title}`;
+}
+
+function formatUtcDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDateTime(local: string): string {
+  return local.replace(/[-:]/g, '').slice(0, 15);
+}
+
+/**
+ * Minutes the zone is ahead of UTC at an instant
+ */
+function getOffsetMinutes(formatter: Intl.DateTimeFormat, at: number): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(at))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((local - Math.floor(at / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Offset changes during a year, to the minute. Checks once a day, then
+ * narrows each change down with a binary search.
+ */
+function findOffsetTransitions(formatter: Intl.DateTimeFormat, year: number) {
+  const transitions: { at: number; from: number; to: number }[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = getOffsetMinutes(formatter, Date.UTC(year, 0, 1));
+
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const next = getOffsetMinutes(formatter, day + DAY_MS);
+    if (next === previous) continue;
+
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getOffsetMinutes(formatter, mid) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, from: previous, to: next });
+    previous = next;
+  }
+
+  return transitions;
+}
+
+function formatUtcOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}${String(abs % 60).padStart(2, '0')}`;
+}
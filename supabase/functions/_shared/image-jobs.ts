@@ -0,0 +1,200 @@
+/**
+ * Image Generation Jobs for Supabase Edge Functions
+ *
+ * Helpers for the background-worker's image_generation jobs, which run the
+ * gemini-proxy model fallback chain outside the browser:
+ * - Progress stages reported on the jobs row (streamed to the client)
+ * - Which failures are worth retrying, and how long to wait between tries
+ * - Which storage objects a job may read or delete for its user
+ * - Converting between data URLs and bytes for storage uploads
+ *
+ * @module image-jobs
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ImageJobStage {
+  progress: number;
+  message: string;
+}
+
+// ============================================
+// Progress
+// ============================================
+
+export const IMAGE_JOB_STAGES: Record<'preparing' | 'generating' | 'saving' | 'done', ImageJobStage> = {
+  preparing: { progress: 10, message: 'Preparing your photos' },
+  generating: { progress: 25, message: 'Generating your vision' },
+  saving: { progress: 85, message: 'Saving to your gallery' },
+  done: { progress: 100, message: 'Vision ready' }
+};
+
+/**
+ * Stage shown while waiting to retry after a transient failure
+ */
+export function getRetryStage(nextAttempt: number, maxAttempts: number): ImageJobStage {
+  return {
+    progress: IMAGE_JOB_STAGES.generating.progress,
+    message: `Image service is busy, retrying (attempt ${nextAttempt} of ${maxAttempts})`
+  };
+}
+
+// ============================================
+// Retries
+// ============================================
+
+/** Upper bound on tries, whatever the client put on the jobs row */
+export const MAX_IMAGE_JOB_ATTEMPTS = 3;
+
+/**
+ * Tries allowed for a job, clamped to 1..MAX_IMAGE_JOB_ATTEMPTS
+ */
+export function getMaxAttempts(requested?: number | null): number {
+  return Math.min(Math.max(requested ?? MAX_IMAGE_JOB_ATTEMPTS, 1), MAX_IMAGE_JOB_ATTEMPTS);
+}
+
+const TRANSIENT_PATTERNS = [
+  'RESOURCE_EXHAUSTED',
+  'UNAVAILABLE',
+  'DEADLINE_EXCEEDED',
+  'quota',
+  'rate limit',
+  'timed out',
+  'timeout',
+  'temporarily',
+  'currently unavailable',
+  'try again in a few moments',
+  'network',
+  'fetch failed',
+  'connection',
+  '429',
+  '500',
+  '502',
+  '503',
+  '504'
+];
+
+// Configuration and policy failures fail the same way on every attempt
+const PERMANENT_PATTERNS = ['API_KEY_INVALID', 'PERMISSION_DENIED', 'SAFETY', 'blocked', 'credits'];
+
+/**
+ * Whether a failed generation is likely to succeed if tried again
+ */
+export function isTransientImageError(message: string): boolean {
+  const text = message.toLowerCase();
+  if (PERMANENT_PATTERNS.some(p => text.includes(p.toLowerCase()))) return false;
+  return TRANSIENT_PATTERNS.some(p => text.includes(p.toLowerCase()));
+}
+
+/**
+ * Exponential backoff before retry number `attempt` (1 = first retry)
+ */
+export function getRetryDelayMs(attempt: number, baseMs: number = 2000, maxMs: number = 30000): number {
+  return Math.min(baseMs * 2 ** Math.max(attempt - 1, 0), maxMs);
+}
+
+// ============================================
+// Job Inputs
+// ============================================
+
+const UUID_PATTERN = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+
+const GALLERY_FILE = new RegExp(`^(${UUID_PATTERN})(?:_thumb|_medium)?\\.(?:png|jpg|webp)$`, 'i');
+
+const REFERENCE_FILE = new RegExp(`^ref_(${UUID_PATTERN})\\.(?:png|jpg|webp)$`, 'i');
+
+/**
+ * Path inside the visions bucket for a URL on this project's storage API,
+ * or null for anything else (other hosts, other buckets, path tricks)
+ */
+export function getVisionsStoragePath(url: string, supabaseUrl: string): string | null {
+  let parsed: URL;
+  let base: URL;
+  try {
+    parsed = new URL(url);
+    base = new URL(supabaseUrl);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== base.origin) return null;
+
+  const match = parsed.pathname.match(/^\/storage\/v1\/object\/(?:public\/|sign\/|authenticated\/)?visions\/(.+)$/);
+  if (!match) return null;
+
+  let path: string;
+  try {
+    path = decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+  return path.split('/').some(part => part === '' || part === '.' || part === '..') ? null : path;
+}
+
+/**
+ * Whether a storage path is a photo this user uploaded for a job
+ */
+export function isOwnJobInput(path: string, userId: string): boolean {
+  return path.startsWith(`job-inputs/${userId}/`) && !path.split('/').includes('..');
+}
+
+/**
+ * The gallery or reference row a visions bucket file belongs to, so its
+ * owner can be checked
+ */
+export function getStoredImageRecord(path: string): { table: 'vision_boards' | 'reference_images'; id: string } | null {
+  const reference = path.match(REFERENCE_FILE);
+  if (reference) return { table: 'reference_images', id: reference[1].toLowerCase() };
+  const gallery = path.match(GALLERY_FILE);
+  if (gallery) return { table: 'vision_boards', id: gallery[1].toLowerCase() };
+  return null;
+}
+
+// ============================================
+// Image Data
+// ============================================
+
+/**
+ * Decode a base64 data URL for upload
+ */
+export function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mimeType: string } {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match || !match[2]) {
+    throw new Error('Expected a base64 image data URL');
+  }
+
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, mimeType: match[1] || 'image/png' };
+}
+
+/**
+ * Encode image bytes as a data URL, the form gemini-proxy accepts
+ */
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  // Chunked so large photos don't overflow the argument limit of fromCharCode
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * File extension for an uploaded image
+ */
+export function getImageExtension(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'png';
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Image Moderation for Supabase Edge Functions
+ *
+ * Content safety gate for uploaded reference photos and generated visions:
+ * - A pluggable classifier interface; each classifier scores an image
+ *   against the moderation categories
+ * - A local rule-based classifier that reads the text around an image
+ *   (prompt, tags, likeness descriptions). It stands in until a
+ *   pixel-level classifier is wired up
+ * - Recording a decision: flagged images are quarantined for admin review
+ *   and can't be printed. Only pending images are scanned, so a decision
+ *   is never overwritten by a later scan
+ *
+ * @module image-moderation
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type ModerationCategory = 'nudity' | 'violence' | 'minors_likeness' | 'trademark';
+export type ModerationSource = 'vision' | 'reference';
+export type ModerationStatus = 'pending' | 'approved' | 'flagged' | 'rejected';
+
+export interface ModerationInput {
+  source: ModerationSource;
+  imageUrl: string;
+  prompt?: string;
+  tags?: string[];
+  // Likeness references (real people) used for a generation, or the upload itself
+  likenessTags?: string[];
+  likenessDescriptions?: string[];
+}
+
+export interface ClassifierResult {
+  scores: Partial<Record<ModerationCategory, number>>; // 0..1
+  reasons: string[];
+}
+
+export interface ImageClassifier {
+  name: string;
+  classify(input: ModerationInput): Promise<ClassifierResult>;
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: ModerationCategory[];
+  scores: Partial<Record<ModerationCategory, number>>;
+  reasons: string[];
+  classifiers: string[];
+}
+
+export const MODERATION_THRESHOLD = 0.5;
+
+// Statuses that keep an image out of print orders. Pending images are
+// scanned before printing and blocked if the scan fails.
+export const BLOCKED_MODERATION_STATUSES: ModerationStatus[] = ['flagged', 'rejected'];
+
+// ============================================
+// Rule-Based Classifier
+// ============================================
+
+const NUDITY_TERMS = /\b(nude|nudity|naked|topless|nsfw|explicit|porn\w*|sexual|sexy|erotic|lingerie|undress\w*)\b/i;
+const VIOLENCE_TERMS = /\b(gun|guns|rifle|pistol|weapon\w*|blood\w*|gore|kill\w*|murder\w*|shoot\w*|stab\w*|bomb\w*|corpse|terror\w*|massacre)\b/i;
+const MINOR_TERMS = /\b(child|children|kid|kids|baby|babies|toddler|infant|son|daughter|teen|teens|teenager|minor|boy|girl|grandson|granddaughter|grandchild\w*|\d{1,2}[- ]?(?:yo|year[- ]old))\b/i;
+const TRADEMARK_TERMS = /(\b(logo|logos|trademark\w*|disney|pixar|marvel|mickey mouse|star wars|pokemon|coca[- ]?cola|pepsi|nike|adidas|starbucks|mcdonald'?s|gucci|louis vuitton|chanel|rolex|ferrari|lamborghini)\b|®|™)/i;
+
+const matchTerm = (pattern: RegExp, text: string): string | null => {
+  const match = text.match(pattern);
+  return match ? match[0] : null;
+};
+
+/**
+ * Local stand-in classifier. It can't see pixels, so it scores the words
+ * that produced or describe the image. Any match is enough to send the
+ * image to human review.
+ */
+export const ruleBasedClassifier: ImageClassifier = {
+  name: 'rules-v1',
+  async classify(input: ModerationInput): Promise<ClassifierResult> {
+    const scores: ClassifierResult['scores'] = {};
+    const reasons: string[] = [];
+    const text = [input.prompt || '', ...(input.tags || [])].join(' ');
+    const likenessText = [...(input.likenessTags || []), ...(input.likenessDescriptions || [])].join(' ');
+
+    const nudity = matchTerm(NUDITY_TERMS, `${text} ${likenessText}`);
+    if (nudity) {
+      scores.nudity = 0.9;
+      reasons.push(`Mentions "${nudity}"`);
+    }
+
+    const violence = matchTerm(VIOLENCE_TERMS, text);
+    if (violence) {
+      scores.violence = 0.8;
+      reasons.push(`Mentions "${violence}"`);
+    }
+
+    // Generic children in a scene are fine; a real child's likeness is not
+    const minor = matchTerm(MINOR_TERMS, likenessText);
+    if (minor) {
+      scores.minors_likeness = 0.9;
+      reasons.push(`Likeness reference describes a minor ("${minor}")`);
+    }
+
+    const trademark = matchTerm(TRADEMARK_TERMS, text);
+    if (trademark) {
+      scores.trademark = 0.6;
+      reasons.push(`Possible brand or trademark ("${trademark}")`);
+    }
+
+    return { scores, reasons };
+  }
+};
+
+// ============================================
+// Moderation
+// ============================================
+
+/**
+ * Run every classifier and combine their scores (highest wins). A
+ * classifier that fails sends the image to review rather than letting
+ * it through unchecked.
+ */
+export async function moderateImage(
+  input: ModerationInput,
+  classifiers: ImageClassifier[] = [ruleBasedClassifier]
+): Promise<ModerationResult> {
+  const scores: ModerationResult['scores'] = {};
+  const reasons: string[] = [];
+  let classifierFailed = false;
+
+  for (const classifier of classifiers) {
+    try {
+      const result = await classifier.classify(input);
+      for (const [category, score] of Object.entries(result.scores) as [ModerationCategory, number][]) {
+        scores[category] = Math.max(scores[category] ?? 0, score);
+      }
+      reasons.push(...result.reasons);
+    } catch (error: any) {
+      classifierFailed = true;
+      reasons.push(`${classifier.name} failed: ${error?.message || 'unknown error'}`);
+    }
+  }
+
+  const categories = (Object.keys(scores) as ModerationCategory[])
+    .filter(category => (scores[category] ?? 0) >= MODERATION_THRESHOLD);
+
+  return {
+    flagged: categories.length > 0 || classifierFailed,
+    categories,
+    scores,
+    reasons,
+    classifiers: classifiers.map(c => c.name)
+  };
+}
+
+/**
+ * Store a moderation decision on a pending image row. Flagged images are
+ * also added to the quarantine queue (once per image) for admin review.
+ * An image that already has a decision keeps it, and that status is
+ * returned instead. Needs a service role client: users can't change
+ * moderation_status themselves.
+ */
+export async function recordModeration(
+  supabase: any,
+  item: { source: ModerationSource; imageId: string; userId: string; imageUrl: string },
+  result: ModerationResult
+): Promise<ModerationStatus> {
+  const table = getModerationTable(item.source);
+  const status: ModerationStatus = result.flagged ? 'flagged' : 'approved';
+
+  const { data: updated, error: updateError } = await supabase
+    .from(table)
+    .update({ moderation_status: status })
+    .eq('id', item.imageId)
+    .eq('moderation_status', 'pending')
+    .select('id')
+    .maybeSingle();
+  if (updateError) throw updateError;
+
+  if (!updated) {
+    const { data: current, error: currentError } = await supabase
+      .from(table)
+      .select('moderation_status')
+      .eq('id', item.imageId)
+      .maybeSingle();
+    if (currentError) throw currentError;
+    if (!current) throw new Error('Image not found');
+    return current.moderation_status;
+  }
+
+  if (result.flagged) {
+    const { error: queueError } = await supabase
+      .from('image_moderation_queue')
+      .upsert({
+        user_id: item.userId,
+        source: item.source,
+        image_id: item.imageId,
+        image_url: item.imageUrl,
+        categories: result.categories,
+        scores: result.scores,
+        reasons: result.reasons,
+        classifier: result.classifiers.join(',')
+      }, { onConflict: 'image_id,source', ignoreDuplicates: true });
+    if (queueError) throw queueError;
+  }
+
+  return status;
+}
+
+/**
+ * Scan a stored image and record the result. Images that were already
+ * approved, flagged or rejected are not scanned again.
+ */
+export async function scanStoredImage(
+  supabase: any,
+  source: ModerationSource,
+  imageId: string,
+  userId: string
+): Promise<{ status: ModerationStatus; result: ModerationResult | null }> {
+  const { input, status: current } = await loadModerationInput(supabase, source, imageId, userId);
+  if (current !== 'pending') return { status: current, result: null };
+
+  const result = await moderateImage(input);
+  const status = await recordModeration(supabase, { source, imageId, userId, imageUrl: input.imageUrl }, result);
+  return { status, result };
+}
+
+/**
+ * What the classifiers read for a stored image, and its current status.
+ * A vision brings the likeness references it was generated from; an
+ * uploaded reference photo is itself a likeness.
+ */
+export async function loadModerationInput(
+  supabase: any,
+  source: ModerationSource,
+  imageId: string,
+  userId: string
+): Promise<{ input: ModerationInput; status: ModerationStatus }> {
+  if (source === 'reference') {
+    const { data: reference } = await supabase
+      .from('reference_images')
+      .select('image_url, tags, identity_description, moderation_status')
+      .eq('id', imageId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!reference) throw new Error('Reference image not found');
+
+    return {
+      status: reference.moderation_status,
+      input: {
+        source,
+        imageUrl: reference.image_url,
+        likenessTags: reference.tags || [],
+        likenessDescriptions: reference.identity_description ? [reference.identity_description] : []
+      }
+    };
+  }
+
+  const { data: vision } = await supabase
+    .from('vision_boards')
+    .select('image_url, prompt, tags, reference_image_ids, moderation_status')
+    .eq('id', imageId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!vision) throw new Error('Vision not found');
+
+  let references: any[] = [];
+  if (vision.reference_image_ids?.length) {
+    const { data } = await supabase
+      .from('reference_images')
+      .select('tags, identity_description')
+      .in('id', vision.reference_image_ids)
+      .eq('user_id', userId);
+    references = data || [];
+  }
+
+  return {
+    status: vision.moderation_status,
+    input: {
+      source,
+      imageUrl: vision.image_url,
+      prompt: vision.prompt,
+      tags: vision.tags || [],
+      likenessTags: references.flatMap(r => r.tags || []),
+      likenessDescriptions: references.map(r => r.identity_description).filter(Boolean)
+    }
+  };
+}
+
+function getModerationTable(source: ModerationSource): 'vision_boards' | 'reference_images' {
+  return source === 'vision' ? 'vision_boards' : 'reference_images';
+}
@@ -0,0 +1,363 @@
+/**
+ * Dated Planner Calendar
+ *
+ * Builds the dated planner section of a workbook: twelve months from a
+ * chosen start month, each opened by its calendar and habit tracker and
+ * followed by a spread per week. Shared by the wizard's page builder and
+ * the edge function fallback, so both date the planner the same way:
+ * - Sunday or Monday week starts
+ * - Month, weekday and date labels in the buyer's locale
+ * - Optional national and religious holiday sets
+ * - The buyer's own habit names and milestone dates
+ *
+ * All date math is done in UTC so the planner doesn't shift with the
+ * timezone of whoever builds it.
+ *
+ * @module planner-calendar
+ */
+
+import type { LayoutPage } from './workbook-layout.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export type WeekStart = 'SUNDAY' | 'MONDAY';
+
+export type HolidaySetId = 'US_FEDERAL' | 'UK_BANK' | 'CA_STATUTORY' | 'CHRISTIAN';
+
+export interface PlannerOptions {
+  startYear: number;
+  startMonth: number; // 0-11
+  weekStart: WeekStart;
+  locale: string; // BCP 47 tag for date labels, e.g. 'en-GB'
+  holidaySets?: HolidaySetId[];
+  monthCount?: number; // defaults to 12
+  weeklySpreads?: boolean; // defaults to true
+}
+
+export interface PlannerHabit {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface PlannerMilestone {
+  date: string; // ISO date or timestamp
+  label: string;
+}
+
+/**
+ * A planner page before it's given an id, layout and page number
+ */
+export interface PlannerPage extends Pick<LayoutPage, 'title' | 'monthlyData' | 'weeklyData' | 'habitTracker'> {
+  type: 'MONTHLY_PLANNER' | 'HABIT_TRACKER' | 'WEEKLY_PLANNER' | 'NOTES_LINED';
+  spreadId?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_PLANNER_MONTHS = 12;
+
+export const HOLIDAY_SETS: Record<HolidaySetId, { label: string; kind: 'national' | 'religious' }> = {
+  US_FEDERAL: { label: 'US federal holidays', kind: 'national' },
+  UK_BANK: { label: 'UK bank holidays (England & Wales)', kind: 'national' },
+  CA_STATUTORY: { label: 'Canadian statutory holidays', kind: 'national' },
+  CHRISTIAN: { label: 'Christian holy days', kind: 'religious' }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FALLBACK_LOCALE = 'en-US';
+
+// ============================================
+// Dates
+// ============================================
+
+const utcDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+export const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const weekStartDay = (weekStart: WeekStart) => (weekStart === 'MONDAY' ? 1 : 0);
+
+/**
+ * First day of the week containing the date
+ */
+export function startOfWeek(date: Date, weekStart: WeekStart): Date {
+  const offset = (date.getUTCDay() - weekStartDay(weekStart) + 7) % 7;
+  return addDays(date, -offset);
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = utcDate(year, month + 1, 0);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = utcDate(year, month, 1);
+  return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+}
+
+// ============================================
+// Holidays
+// ============================================
+
+const HOLIDAY_RULES: Record<HolidaySetId, (year: number) => [Date, string][]> = {
+  US_FEDERAL: year => [
+    [utcDate(year, 0, 1), "New Year's Day"],
+    [nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day'],
+    [nthWeekday(year, 1, 1, 3), "Presidents' Day"],
+    [nthWeekday(year, 4, 1, -1), 'Memorial Day'],
+    [utcDate(year, 5, 19), 'Juneteenth'],
+    [utcDate(year, 6, 4), 'Independence Day'],
+    [nthWeekday(year, 8, 1, 1), 'Labor Day'],
+    [nthWeekday(year, 9, 1, 2), 'Columbus Day'],
+    [utcDate(year, 10, 11), 'Veterans Day'],
+    [nthWeekday(year, 10, 4, 4), 'Thanksgiving'],
+    [utcDate(year, 11, 25), 'Christmas Day']
+  ],
+  UK_BANK: year => [
+    [utcDate(year, 0, 1), "New Year's Day"],
+    [addDays(easterSunday(year), -2), 'Good Friday'],
+    [addDays(easterSunday(year), 1), 'Easter Monday'],
+    [nthWeekday(year, 4, 1, 1), 'Early May Bank Holiday'],
+    [nthWeekday(year, 4, 1, -1), 'Spring Bank Holiday'],
+    [nthWeekday(year, 7, 1, -1), 'Summer Bank Holiday'],
+    [utcDate(year, 11, 25), 'Christmas Day'],
+    [utcDate(year, 11, 26), 'Boxing Day']
+  ],
+  CA_STATUTORY: year => [
+    [utcDate(year, 0, 1), "New Year's Day"],
+    [addDays(easterSunday(year), -2), 'Good Friday'],
+    // Victoria Day is the last Monday before May 25
+    [addDays(utcDate(year, 4, 24), -((utcDate(year, 4, 24).getUTCDay() + 6) % 7)), 'Victoria Day'],
+    [utcDate(year, 6, 1), 'Canada Day'],
+    [nthWeekday(year, 8, 1, 1), 'Labour Day'],
+    [utcDate(year, 8, 30), 'Truth and Reconciliation Day'],
+    [nthWeekday(year, 9, 1, 2), 'Thanksgiving'],
+    [utcDate(year, 10, 11), 'Remembrance Day'],
+    [utcDate(year, 11, 25), 'Christmas Day'],
+    [utcDate(year, 11, 26), 'Boxing Day']
+  ],
+  CHRISTIAN: year => {
+    const easter = easterSunday(year);
+    const christmas = utcDate(year, 11, 25);
+    // Advent starts on the fourth Sunday before Christmas
+    const advent = addDays(christmas, -(christmas.getUTCDay() || 7) - 21);
+    return [
+      [utcDate(year, 0, 6), 'Epiphany'],
+      [addDays(easter, -46), 'Ash Wednesday'],
+      [addDays(easter, -7), 'Palm Sunday'],
+      [addDays(easter, -2), 'Good Friday'],
+      [easter, 'Easter Sunday'],
+      [addDays(easter, 39), 'Ascension Day'],
+      [addDays(easter, 49), 'Pentecost'],
+      [utcDate(year, 10, 1), "All Saints' Day"],
+      [advent, 'First Sunday of Advent'],
+      [utcDate(year, 11, 24), 'Christmas Eve'],
+      [christmas, 'Christmas Day']
+    ];
+  }
+};
+
+/**
+ * Holiday names by ISO date for the given sets. A day that is a holiday
+ * in more than one set (e.g. Christmas) is listed once.
+ */
+export function getHolidays(year: number, sets: HolidaySetId[] = []): Record<string, string[]> {
+  const holidays: Record<string, string[]> = {};
+
+  for (const set of sets) {
+    for (const [date, name] of HOLIDAY_RULES[set]?.(year) || []) {
+      const iso = toIsoDate(date);
+      holidays[iso] = holidays[iso] || [];
+      if (!holidays[iso].includes(name)) holidays[iso].push(name);
+    }
+  }
+
+  return holidays;
+}
+
+// ============================================
+// Labels
+// ============================================
+
+/**
+ * A date formatter for the locale, falling back to en-US for tags the
+ * runtime doesn't know
+ */
+function formatter(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' });
+  } catch {
+    return new Intl.DateTimeFormat(FALLBACK_LOCALE, { ...options, timeZone: 'UTC' });
+  }
+}
+
+/**
+ * Short weekday column headings in week order, e.g. MON … SUN
+ */
+export function getWeekdayLabels(locale: string, weekStart: WeekStart): string[] {
+  const format = formatter(locale, { weekday: 'short' });
+  // 2023-01-01 was a Sunday
+  return Array.from({ length: 7 }, (_, i) =>
+    format.format(utcDate(2023, 0, 1 + weekStartDay(weekStart) + i)).toUpperCase()
+  );
+}
+
+// ============================================
+// Calendar
+// ============================================
+
+type DayNotes = (iso: string) => string[];
+
+/**
+ * A month as calendar rows, padded to whole weeks
+ */
+export function buildMonthCalendar(
+  year: number,
+  monthIndex: number,
+  options: Pick<PlannerOptions, 'weekStart' | 'locale'>,
+  notesFor: DayNotes = () => []
+): NonNullable<LayoutPage['monthlyData']> {
+  const first = utcDate(year, monthIndex, 1);
+  const last = utcDate(year, monthIndex + 1, 0);
+  const weeks: { id: string; dateLabel: string; notes?: string }[][] = [];
+
+  for (let day = startOfWeek(first, options.weekStart); day <= last; day = addDays(day, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(day, i);
+      const iso = toIsoDate(date);
+      if (date.getUTCMonth() !== monthIndex) return { id: `pad-${iso}`, dateLabel: '' };
+
+      const notes = notesFor(iso);
+      return {
+        id: `day-${iso}`,
+        dateLabel: String(date.getUTCDate()),
+        ...(notes.length ? { notes: notes.join(' · ') } : {})
+      };
+    }));
+  }
+
+  return {
+    year,
+    monthIndex,
+    monthLabel: formatter(options.locale, { month: 'long' }).format(first),
+    weekdayLabels: getWeekdayLabels(options.locale, options.weekStart),
+    weeks
+  };
+}
+
+/**
+ * The seven days of the week starting on weekOf
+ */
+export function buildWeek(
+  weekOf: Date,
+  options: Pick<PlannerOptions, 'locale'>,
+  notesFor: DayNotes = () => []
+): NonNullable<LayoutPage['weeklyData']> {
+  const weekday = formatter(options.locale, { weekday: 'long' });
+  const dayMonth = formatter(options.locale, { month: 'short', day: 'numeric' });
+
+  return {
+    weekOf: formatter(options.locale, { year: 'numeric', month: 'long', day: 'numeric' }).format(weekOf),
+    days: Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(weekOf, i);
+      const notes = notesFor(toIsoDate(date));
+      return {
+        isoDate: toIsoDate(date),
+        label: weekday.format(date),
+        dateLabel: dayMonth.format(date),
+        ...(notes.length ? { notes } : {})
+      };
+    })
+  };
+}
+
+/**
+ * The planner section in print order. Every month opens on a two-page
+ * spread (calendar and habit tracker, or calendar and notes without
+ * habits) and each week that starts in the month follows as its own
+ * spread: the week's days facing a notes page.
+ *
+ * The section is a whole number of spreads, so started on a left-hand
+ * (even) page every spread faces correctly.
+ */
+export function buildPlannerPages(
+  options: PlannerOptions,
+  content: { habits?: PlannerHabit[]; milestones?: PlannerMilestone[] } = {}
+): PlannerPage[] {
+  const monthCount = options.monthCount || DEFAULT_PLANNER_MONTHS;
+  const periodStart = utcDate(options.startYear, options.startMonth, 1);
+  const periodEnd = utcDate(options.startYear, options.startMonth + monthCount, 0);
+
+  // Holidays and milestones by date, for every year the planner touches
+  const notes: Record<string, string[]> = {};
+  for (let year = periodStart.getUTCFullYear(); year <= periodEnd.getUTCFullYear(); year++) {
+    for (const [iso, names] of Object.entries(getHolidays(year, options.holidaySets))) {
+      notes[iso] = [...(notes[iso] || []), ...names];
+    }
+  }
+  for (const milestone of content.milestones || []) {
+    const iso = milestone.date?.slice(0, 10);
+    if (iso && milestone.label) notes[iso] = [...(notes[iso] || []), milestone.label];
+  }
+  const notesFor: DayNotes = iso => notes[iso] || [];
+
+  const habits = content.habits || [];
+  const pages: PlannerPage[] = [];
+  let week = startOfWeek(periodStart, options.weekStart);
+
+  for (let i = 0; i < monthCount; i++) {
+    // startMonth + i rolls over into the next year after December
+    const monthStart = utcDate(options.startYear, options.startMonth + i, 1);
+    const monthData = buildMonthCalendar(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), options, notesFor);
+    const spreadId = `month-${toIsoDate(monthStart).slice(0, 7)}`;
+    const title = formatter(options.locale, { month: 'long', year: 'numeric' }).format(monthStart);
+
+    pages.push({ type: 'MONTHLY_PLANNER', title, spreadId, monthlyData: monthData });
+    pages.push(habits.length
+      ? { type: 'HABIT_TRACKER', title: `${title} Habits`, spreadId, habitTracker: { habits, period: 'MONTH' } }
+      : { type: 'NOTES_LINED', title: `${title} Notes`, spreadId });
+
+    if (options.weeklySpreads === false) continue;
+
+    // The first week belongs to the first month even if it starts in the
+    // month before; after that a week belongs to the month it starts in
+    const nextMonth = utcDate(options.startYear, options.startMonth + i + 1, 1);
+    for (; week < nextMonth && week <= periodEnd; week = addDays(week, 7)) {
+      const weekSpreadId = `week-${toIsoDate(week)}`;
+      const weeklyData = buildWeek(week, options, notesFor);
+      pages.push({ type: 'WEEKLY_PLANNER', title: `Week of ${weeklyData.weekOf}`, spreadId: weekSpreadId, weeklyData });
+      pages.push({ type: 'NOTES_LINED', title: `Week of ${weeklyData.weekOf} Notes`, spreadId: weekSpreadId });
+    }
+  }
+
+  return pages;
+}
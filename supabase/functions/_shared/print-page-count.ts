@@ -0,0 +1,40 @@
+/**
+ * Print Page Counts
+ *
+ * Page counts Prodigi accepts for each workbook binding. The workbook
+ * builder in the app and generate-workbook-pdf both check against these,
+ * so a book the wizard accepts is also accepted when the order is printed.
+ *
+ * @module print-page-count
+ */
+
+export type PrintBinding = 'softcover' | 'hardcover';
+
+export const PAGE_COUNT_LIMITS: Record<PrintBinding, { min: number; max: number }> = {
+  softcover: { min: 20, max: 300 },
+  hardcover: { min: 24, max: 300 }
+};
+
+/**
+ * Check if page count meets Prodigi requirements
+ */
+export function isValidPageCount(
+  pageCount: number,
+  bindingType: PrintBinding
+): { valid: boolean; reason?: string } {
+  const { min, max } = PAGE_COUNT_LIMITS[bindingType];
+
+  if (pageCount % 2 !== 0) {
+    return { valid: false, reason: 'Page count must be even' };
+  }
+
+  if (pageCount < min) {
+    return { valid: false, reason: `Minimum ${min} pages required for ${bindingType}` };
+  }
+
+  if (pageCount > max) {
+    return { valid: false, reason: `Maximum ${max} pages allowed for ${bindingType}` };
+  }
+
+  return { valid: true };
+}
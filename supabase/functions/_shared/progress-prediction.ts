@@ -0,0 +1,449 @@
+/**
+ * Progress Prediction Engine for Supabase Edge Functions
+ *
+ * Deterministic pace forecasts for a user's goals, written to
+ * `progress_predictions` by the predict-progress function:
+ * - Milestone goals: open `action_tasks` per milestone year, forecast from
+ *   recent task completion velocity
+ * - Financial target: net worth snapshots trended toward the plan's
+ *   financial target
+ *
+ * Habit consistency (from the habit schedule engine) feeds each goal's
+ * confidence score and recommendations. Pace is actual rate / required
+ * rate, so 1.0 means exactly on schedule.
+ *
+ * @module progress-prediction
+ */
+
+import { addDays, diffInDays, summarizeCompletions } from './habit-schedule.ts';
+import type { CompletionEntry, HabitSchedule } from './habit-schedule.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PredictionTask {
+  id: string;
+  title: string;
+  /** YYYY-MM-DD (or an ISO timestamp) */
+  due_date?: string | null;
+  is_completed: boolean;
+  /** Local date the task was completed, when known */
+  completed_on?: string | null;
+  milestone_year?: number | null;
+}
+
+export interface TaskGoal {
+  goal_type: string;
+  target_date: string;
+  tasks: PredictionTask[];
+}
+
+export interface NetWorthSnapshot {
+  snapshot_date: string;
+  net_worth: number;
+}
+
+export interface HabitConsistency {
+  expected: number;
+  completed: number;
+  /** completed / expected (0-1), or null when nothing was scheduled */
+  rate: number | null;
+  /** Whether the habits are linked to the goal's tasks */
+  linked: boolean;
+}
+
+export type PaceStatus = 'ahead' | 'on_track' | 'behind' | 'at_risk';
+
+export interface GoalPrediction {
+  goal_type: string;
+  target_date: string;
+  /** actual / required rate, capped at MAX_PACE */
+  current_pace: number;
+  /** Null when there is no recent progress to project from */
+  predicted_completion_date: string | null;
+  confidence_score: number;
+  recommendations: string[];
+  status: PaceStatus;
+  current_value: number;
+  target_value: number;
+  metrics: Record<string, number | boolean | null>;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Task velocity is measured over the last four weeks */
+export const VELOCITY_WINDOW_DAYS = 28;
+
+/** Net worth trend looks back about six months */
+export const FINANCIAL_WINDOW_DAYS = 180;
+
+/** Habit consistency window for confidence and recommendations */
+export const HABIT_WINDOW_DAYS = 28;
+
+/** Same threshold schedule-notification uses for pace warnings */
+export const PACE_WARNING_THRESHOLD = 0.8;
+
+/** Minimum days between pace warnings for the same goal */
+export const PACE_WARNING_COOLDOWN_DAYS = 7;
+
+const MAX_PACE = 2;
+const HABIT_CONSISTENCY_GOAL = 0.8;
+const FULL_CONFIDENCE_SAMPLES = 8;
+const MAX_RECOMMENDATIONS = 4;
+
+// ============================================
+// Goals
+// ============================================
+
+/**
+ * Group tasks into goals: one per milestone year (due by Dec 31), plus an
+ * "Action Plan" goal for undated-year tasks due by their latest due date.
+ * Goals with nothing left to do, or no target date, are skipped.
+ */
+export function groupTasksIntoGoals(tasks: PredictionTask[]): TaskGoal[] {
+  const byYear = new Map<number, PredictionTask[]>();
+  const unassigned: PredictionTask[] = [];
+
+  for (const task of tasks) {
+    if (task.milestone_year) {
+      if (!byYear.has(task.milestone_year)) byYear.set(task.milestone_year, []);
+      byYear.get(task.milestone_year)!.push(task);
+    } else {
+      unassigned.push(task);
+    }
+  }
+
+  const goals: TaskGoal[] = [...byYear.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([year, yearTasks]) => ({
+      goal_type: `${year} Milestones`,
+      target_date: `${year}-12-31`,
+      tasks: yearTasks
+    }));
+
+  const dueDates = unassigned.map(t => toDateOnly(t.due_date)).filter((d): d is string => !!d).sort();
+  if (dueDates.length > 0) {
+    goals.push({ goal_type: 'Action Plan', target_date: dueDates[dueDates.length - 1], tasks: unassigned });
+  }
+
+  return goals.filter(goal => goal.tasks.some(t => !t.is_completed));
+}
+
+/**
+ * Forecast a task goal from completions in the last VELOCITY_WINDOW_DAYS
+ */
+export function predictTaskGoal(
+  goal: TaskGoal,
+  habits: HabitConsistency,
+  today: string
+): GoalPrediction {
+  const windowStart = addDays(today, -(VELOCITY_WINDOW_DAYS - 1));
+  const weeklyCounts = [0, 0, 0, 0];
+  let recentlyCompleted = 0;
+
+  for (const task of goal.tasks) {
+    if (!task.is_completed || !task.completed_on) continue;
+    if (task.completed_on < windowStart || task.completed_on > today) continue;
+    recentlyCompleted++;
+    weeklyCounts[Math.min(3, Math.floor(diffInDays(windowStart, task.completed_on) / 7))]++;
+  }
+
+  const open = goal.tasks.filter(t => !t.is_completed);
+  const remaining = open.length;
+  const daysLeft = diffInDays(today, goal.target_date);
+  const velocity = recentlyCompleted / (VELOCITY_WINDOW_DAYS / 7);
+  const required = daysLeft > 0 ? remaining / (daysLeft / 7) : Infinity;
+
+  const currentPace = roundTo(required === Infinity ? 0 : Math.min(velocity / required, MAX_PACE), 2);
+  const predicted = velocity > 0 ? addDays(today, Math.ceil((remaining / velocity) * 7)) : null;
+
+  const overdue = open
+    .filter(t => {
+      const due = toDateOnly(t.due_date);
+      return due !== null && due < today;
+    })
+    .sort((a, b) => toDateOnly(a.due_date)!.localeCompare(toDateOnly(b.due_date)!));
+
+  const recommendations: string[] = [];
+  if (daysLeft <= 0) {
+    recommendations.push(
+      `The target date for ${goal.goal_type} has passed with ${pluralize(remaining, 'task')} open. Consider moving the remaining tasks to a new date.`
+    );
+  } else if (velocity === 0) {
+    recommendations.push(
+      `No ${goal.goal_type} tasks were completed in the last 4 weeks. Pick one small task to restart momentum.`
+    );
+  } else if (currentPace < 1) {
+    recommendations.push(
+      `Complete about ${formatRate(required)} tasks per week to finish ${goal.goal_type} by ${goal.target_date} (recent pace: ${formatRate(velocity)} per week).`
+    );
+  } else {
+    recommendations.push(
+      `You're on pace for ${goal.goal_type}. Keep completing about ${formatRate(velocity)} tasks per week.`
+    );
+  }
+  if (overdue.length > 0) {
+    recommendations.push(`${pluralize(overdue.length, 'task')} overdue. Start with "${overdue[0].title}".`);
+  }
+  recommendations.push(...describeHabitConsistency(habits, goal.goal_type));
+
+  return {
+    goal_type: goal.goal_type,
+    target_date: goal.target_date,
+    current_pace: currentPace,
+    predicted_completion_date: predicted,
+    confidence_score: calculateConfidence(recentlyCompleted, getStability(weeklyCounts), habits.rate),
+    recommendations: recommendations.slice(0, MAX_RECOMMENDATIONS),
+    status: getPaceStatus(currentPace),
+    current_value: goal.tasks.length - remaining,
+    target_value: goal.tasks.length,
+    metrics: {
+      tasks_remaining: remaining,
+      tasks_overdue: overdue.length,
+      weekly_velocity: roundTo(velocity, 2),
+      required_weekly_velocity: required === Infinity ? null : roundTo(required, 2),
+      habit_consistency: habits.rate === null ? null : roundTo(habits.rate, 2),
+      habits_linked: habits.linked
+    }
+  };
+}
+
+/**
+ * Forecast a financial target from the net worth trend (least-squares
+ * slope over the snapshots). Returns null without two snapshots at least
+ * a week apart.
+ */
+export function predictFinancialGoal(
+  targetAmount: number,
+  targetDate: string,
+  snapshots: NetWorthSnapshot[],
+  habits: HabitConsistency,
+  today: string
+): GoalPrediction | null {
+  const sorted = [...snapshots].sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+  if (sorted.length < 2) return null;
+
+  const first = sorted[0];
+  const latest = sorted[sorted.length - 1];
+  if (diffInDays(first.snapshot_date, latest.snapshot_date) < 7) return null;
+
+  const { slope, rSquared } = fitTrend(sorted);
+  const current = Number(latest.net_worth);
+  const remaining = targetAmount - current;
+  const daysLeft = diffInDays(today, targetDate);
+  const daysObserved = diffInDays(first.snapshot_date, latest.snapshot_date);
+
+  let currentPace: number;
+  let predicted: string | null;
+  const recommendations: string[] = [];
+
+  if (remaining <= 0) {
+    currentPace = MAX_PACE;
+    predicted = latest.snapshot_date;
+    recommendations.push(`You've reached your financial target of ${formatMoney(targetAmount)}.`);
+  } else {
+    const requiredPerDay = daysLeft > 0 ? remaining / daysLeft : Infinity;
+    currentPace = roundTo(requiredPerDay === Infinity ? 0 : clamp(slope / requiredPerDay, 0, MAX_PACE), 2);
+    predicted = slope > 0 ? addDays(today, Math.ceil(remaining / slope)) : null;
+
+    if (daysLeft <= 0) {
+      recommendations.push(
+        `The target date for your financial goal has passed ${formatMoney(remaining)} short. Consider setting a new date.`
+      );
+    } else if (slope <= 0) {
+      recommendations.push(
+        `Net worth hasn't grown over the last ${daysObserved} days. Review spending or automate a monthly transfer toward ${formatMoney(targetAmount)}.`
+      );
+    } else if (currentPace < 1) {
+      recommendations.push(
+        `Grow net worth by about ${formatMoney(requiredPerDay * 30)} per month to reach ${formatMoney(targetAmount)} by ${targetDate} (recent trend: ${formatMoney(slope * 30)} per month).`
+      );
+    } else {
+      recommendations.push(`You're on pace for ${formatMoney(targetAmount)}. Keep growing about ${formatMoney(slope * 30)} per month.`);
+    }
+  }
+
+  if (sorted.length < FULL_CONFIDENCE_SAMPLES) {
+    recommendations.push('Refresh your bank balances regularly so this forecast stays accurate.');
+  }
+  recommendations.push(...describeHabitConsistency(habits, 'your financial goal'));
+
+  return {
+    goal_type: 'Financial Target',
+    target_date: targetDate,
+    current_pace: currentPace,
+    predicted_completion_date: predicted,
+    confidence_score: calculateConfidence(sorted.length, rSquared, habits.rate),
+    recommendations: recommendations.slice(0, MAX_RECOMMENDATIONS),
+    status: getPaceStatus(currentPace),
+    current_value: roundTo(current, 2),
+    target_value: targetAmount,
+    metrics: {
+      monthly_trend: roundTo(slope * 30, 2),
+      required_monthly: remaining > 0 && daysLeft > 0 ? roundTo((remaining / daysLeft) * 30, 2) : null,
+      trend_fit: roundTo(rSquared, 2),
+      snapshots: sorted.length,
+      habit_consistency: habits.rate === null ? null : roundTo(habits.rate, 2)
+    }
+  };
+}
+
+// ============================================
+// Habits
+// ============================================
+
+/**
+ * Share of scheduled habit completions done between two local dates,
+ * across the given habits
+ */
+export function getHabitConsistency(
+  habits: HabitSchedule[],
+  completionsByHabit: Map<string, CompletionEntry[]>,
+  startDate: string,
+  endDate: string,
+  timezone: string,
+  linked: boolean
+): HabitConsistency {
+  let expected = 0;
+  let completed = 0;
+
+  for (const habit of habits as Array<HabitSchedule & { id: string }>) {
+    const summary = summarizeCompletions(habit, completionsByHabit.get(habit.id) || [], startDate, endDate, timezone);
+    expected += summary.expected;
+    completed += summary.completed;
+  }
+
+  return {
+    expected,
+    completed: roundTo(completed, 2),
+    rate: expected > 0 ? completed / expected : null,
+    linked
+  };
+}
+
+// ============================================
+// Status & Warnings
+// ============================================
+
+/**
+ * Status bands match ProgressPredictionWidget: 1.0+ on track, 0.7+ behind
+ */
+export function getPaceStatus(pace: number): PaceStatus {
+  if (pace >= 1.2) return 'ahead';
+  if (pace >= 1) return 'on_track';
+  if (pace >= 0.7) return 'behind';
+  return 'at_risk';
+}
+
+/**
+ * Whole weeks the forecast lands after the target (0 when on time).
+ * Goals with no forecast count as one week late.
+ */
+export function getDelayWeeks(prediction: Pick<GoalPrediction, 'target_date' | 'predicted_completion_date'>): number {
+  if (!prediction.predicted_completion_date) return 1;
+  const days = diffInDays(prediction.target_date, prediction.predicted_completion_date);
+  return days > 0 ? Math.ceil(days / 7) : 0;
+}
+
+/**
+ * A goal earns a pace warning when it is below the warning threshold, its
+ * forecast misses the target, and it was not warned about recently
+ */
+export function shouldSendPaceWarning(
+  prediction: Pick<GoalPrediction, 'current_pace' | 'target_date' | 'predicted_completion_date'>,
+  lastWarnedAt: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (prediction.current_pace >= PACE_WARNING_THRESHOLD) return false;
+  if (getDelayWeeks(prediction) === 0) return false;
+  if (!lastWarnedAt) return true;
+  const elapsedDays = (now.getTime() - new Date(lastWarnedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return elapsedDays >= PACE_WARNING_COOLDOWN_DAYS;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * 0.05-0.95 from how much data there is, how steady it is (0-1) and how
+ * consistent the user's habits are (neutral when unknown)
+ */
+function calculateConfidence(samples: number, stability: number, habitRate: number | null): number {
+  const dataScore = Math.min(samples / FULL_CONFIDENCE_SAMPLES, 1);
+  const habitScore = habitRate === null ? 0.5 : Math.min(habitRate, 1);
+  const score = 0.15 + 0.35 * dataScore + 0.25 * stability + 0.25 * habitScore;
+  return roundTo(clamp(score, 0.05, 0.95), 2);
+}
+
+/**
+ * 1 minus the coefficient of variation of weekly counts
+ */
+function getStability(weeklyCounts: number[]): number {
+  const mean = weeklyCounts.reduce((sum, n) => sum + n, 0) / weeklyCounts.length;
+  if (mean === 0) return 0;
+  const variance = weeklyCounts.reduce((sum, n) => sum + (n - mean) ** 2, 0) / weeklyCounts.length;
+  return clamp(1 - Math.sqrt(variance) / mean, 0, 1);
+}
+
+/**
+ * Least-squares net worth change per day, with the fit's R²
+ */
+function fitTrend(snapshots: NetWorthSnapshot[]): { slope: number; rSquared: number } {
+  const origin = snapshots[0].snapshot_date;
+  const points = snapshots.map(s => ({ x: diffInDays(origin, s.snapshot_date), y: Number(s.net_worth) }));
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const p of points) {
+    sxy += (p.x - meanX) * (p.y - meanY);
+    sxx += (p.x - meanX) ** 2;
+    syy += (p.y - meanY) ** 2;
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const rSquared = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 1;
+  return { slope, rSquared };
+}
+
+function describeHabitConsistency(habits: HabitConsistency, goalLabel: string): string[] {
+  if (habits.rate === null || habits.rate >= HABIT_CONSISTENCY_GOAL) return [];
+  const percent = Math.round(habits.rate * 100);
+  return habits.linked
+    ? [`Habits linked to ${goalLabel} were done on ${percent}% of scheduled days. Aim for ${HABIT_CONSISTENCY_GOAL * 100}% or more.`]
+    : [`Your habits were done on ${percent}% of scheduled days in the last 4 weeks. Steadier habits make progress on ${goalLabel} more predictable.`];
+}
+
+function toDateOnly(value?: string | null): string | null {
+  if (!value) return null;
+  const match = /^(\d{4}-\d{2}-\d{2})/.exec(value);
+  return match ? match[1] : null;
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function formatRate(value: number): string {
+  return String(roundTo(value, 1));
+}
+
+function formatMoney(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
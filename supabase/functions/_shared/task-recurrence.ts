@@ -0,0 +1,494 @@
+/**
+ * Task Recurrence for Supabase Edge Functions
+ *
+ * Recurring action tasks ("rebalance portfolio quarterly", "review budget
+ * monthly", "annual physical") carry an RRULE-style rule. Each occurrence
+ * is its own action_tasks row; completing or skipping one creates the
+ * next. Occurrences that lapsed while the task sat overdue are recorded
+ * as skipped rows so they still show up in history.
+ *
+ * Supported rule parts (RFC 5545 subset):
+ * - FREQ=DAILY|WEEKLY|MONTHLY|YEARLY and INTERVAL
+ * - BYDAY (MO..SU; with an ordinal such as 1MO or -1FR for MONTHLY/YEARLY)
+ * - BYMONTHDAY (negative counts from month end; days past the end of a
+ *   short month fall on its last day)
+ * - BYMONTH, COUNT and UNTIL (YYYYMMDD)
+ *
+ * Occurrences are counted from the series anchor (the first occurrence's
+ * date), so monthly tasks on the 31st do not drift after February.
+ *
+ * @module task-recurrence
+ */
+
+import { addDays, getDayOfWeek, getWeekStart } from './habit-schedule.ts';
+
+// ============================================
+// Types
+// ============================================
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  /** 0 = Sunday */
+  weekday: number;
+  /** Ordinal within the month or year, e.g. 1 = first, -1 = last */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count?: number;
+  /** Inclusive, YYYY-MM-DD */
+  until?: string;
+}
+
+export interface RecurringTaskRow {
+  id: string;
+  user_id: string;
+  due_date: string | null;
+  recurrence_rule: string | null;
+  recurrence_anchor?: string | null;
+  recurrence_series_id?: string | null;
+  [key: string]: any;
+}
+
+export interface NextOccurrencePlan {
+  /** Occurrences that passed before today, recorded as skipped */
+  skipped: string[];
+  next: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Upper bound on lapsed occurrences recorded when catching up */
+export const MAX_CATCH_UP_OCCURRENCES = 60;
+
+/** Safety limit on periods scanned when a rule rarely or never matches */
+const MAX_PERIODS = 5000;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ORDINALS: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '-1': 'last' };
+
+/** Plain-language shortcuts accepted wherever a rule is entered */
+const RECURRENCE_PHRASES: Record<string, string> = {
+  'daily': 'FREQ=DAILY',
+  'every day': 'FREQ=DAILY',
+  'weekdays': 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  'every weekday': 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  'weekly': 'FREQ=WEEKLY',
+  'every week': 'FREQ=WEEKLY',
+  'biweekly': 'FREQ=WEEKLY;INTERVAL=2',
+  'fortnightly': 'FREQ=WEEKLY;INTERVAL=2',
+  'every other week': 'FREQ=WEEKLY;INTERVAL=2',
+  'monthly': 'FREQ=MONTHLY',
+  'every month': 'FREQ=MONTHLY',
+  'quarterly': 'FREQ=MONTHLY;INTERVAL=3',
+  'every quarter': 'FREQ=MONTHLY;INTERVAL=3',
+  'semiannually': 'FREQ=MONTHLY;INTERVAL=6',
+  'twice a year': 'FREQ=MONTHLY;INTERVAL=6',
+  'yearly': 'FREQ=YEARLY',
+  'annually': 'FREQ=YEARLY',
+  'annual': 'FREQ=YEARLY',
+  'every year': 'FREQ=YEARLY'
+};
+
+// ============================================
+// Rules
+// ============================================
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix).
+ * Throws on parts outside the supported subset.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+  let hasFreq = false;
+
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value)) {
+          throw new Error(`Unsupported recurrence frequency: ${value}`);
+        }
+        rule.freq = value as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(value, 'INTERVAL');
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt(value, 'COUNT');
+        break;
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) throw new Error(`Invalid UNTIL date: ${value}`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map(day => {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) throw new Error(`Invalid BYMONTHDAY: ${day}`);
+          return n;
+        });
+        break;
+      case 'BYMONTH':
+        rule.byMonth = value.split(',').map(month => {
+          const n = Number(month);
+          if (!Number.isInteger(n) || n < 1 || n > 12) throw new Error(`Invalid BYMONTH: ${month}`);
+          return n;
+        });
+        break;
+      case 'WKST':
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (!hasFreq) throw new Error('Recurrence rule needs a FREQ');
+  if (rule.freq === 'WEEKLY' && rule.byDay.some(d => d.nth !== undefined)) {
+    throw new Error('Weekly rules cannot use ordinal days like 1MO');
+  }
+  if (rule.count && rule.until) {
+    throw new Error('Recurrence rule cannot have both COUNT and UNTIL');
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to RRULE form (without the "RRULE:" prefix)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.nth ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Turn user or agent input ("quarterly", "every 2 weeks", "every monday"
+ * or an RRULE) into a rule pinned to the anchor date, so "monthly" on a
+ * task due the 15th stays on the 15th. Throws on unrecognized input.
+ */
+export function normalizeRecurrence(input: string, anchor: string): string {
+  const phrase = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  let text = RECURRENCE_PHRASES[phrase];
+
+  if (!text) {
+    const every = phrase.match(/^every (\d+) (day|week|month|year)s?$/);
+    const weekday = phrase.match(/^every (sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?$/);
+    if (every) {
+      const freq = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' }[every[2] as 'day' | 'week' | 'month' | 'year'];
+      text = `FREQ=${freq};INTERVAL=${every[1]}`;
+    } else if (weekday) {
+      const index = WEEKDAY_NAMES.findIndex(name => name.toLowerCase() === weekday[1]);
+      text = `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[index]}`;
+    } else if (/FREQ=/i.test(input)) {
+      text = input;
+    } else {
+      throw new Error(`Unrecognized recurrence: "${input}". Try daily, weekly, monthly, quarterly, yearly or an RRULE.`);
+    }
+  }
+
+  return formatRecurrenceRule(withAnchorDefaults(parseRecurrenceRule(text), anchor));
+}
+
+/**
+ * Short label for a rule (or a phrase not yet pinned to a date), e.g.
+ * "Every 3 months on day 15"
+ */
+export function describeRecurrence(ruleText: string): string {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(RECURRENCE_PHRASES[ruleText.trim().toLowerCase()] || ruleText);
+  } catch {
+    return 'Repeats';
+  }
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const base = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+
+  let detail = '';
+  const isWeekdays = rule.byDay.length === 5 && [1, 2, 3, 4, 5].every(d => rule.byDay.some(b => b.weekday === d));
+  if (rule.freq === 'WEEKLY' && isWeekdays) {
+    detail = ' on weekdays';
+  } else if (rule.byDay.length > 0) {
+    detail = ` on ${rule.byDay.map(d => {
+      const name = WEEKDAY_NAMES[d.weekday];
+      return d.nth !== undefined ? `the ${ORDINALS[String(d.nth)] || `#${d.nth}`} ${name}` : name.slice(0, 3);
+    }).join(', ')}`;
+  } else if (rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay.map(d => (d === -1 ? 'the last day' : d < 0 ? `${-d} days before month end` : `day ${d}`));
+    detail = rule.freq === 'YEARLY' && rule.byMonth.length > 0
+      ? ` on ${rule.byMonth.map(m => MONTH_NAMES[m - 1]).join(', ')} ${rule.byMonthDay.join(', ')}`
+      : ` on ${days.join(', ')}`;
+  }
+
+  let limit = '';
+  if (rule.count) limit = `, ${rule.count} times`;
+  if (rule.until) limit = `, until ${rule.until}`;
+
+  return `${base}${detail}${limit}`;
+}
+
+// ============================================
+// Occurrences
+// ============================================
+
+/**
+ * Occurrences strictly after a date, in order
+ */
+export function getOccurrencesAfter(ruleText: string, anchor: string, after: string, limit: number): string[] {
+  const rule = withAnchorDefaults(parseRecurrenceRule(ruleText), anchor);
+  const result: string[] = [];
+  let seen = 0;
+
+  for (let period = 0; period < MAX_PERIODS && result.length < limit; period++) {
+    for (const date of getPeriodDates(rule, anchor, period)) {
+      if (date < anchor) continue;
+      if (rule.until && date > rule.until) return result;
+      seen++;
+      if (rule.count && seen > rule.count) return result;
+      if (date > after) {
+        result.push(date);
+        if (result.length >= limit) return result;
+      }
+    }
+  }
+
+  return result;
+}
+
+export function getNextOccurrence(ruleText: string, anchor: string, after: string): string | null {
+  return getOccurrencesAfter(ruleText, anchor, after, 1)[0] || null;
+}
+
+/**
+ * What follows an occurrence due on `dueDate` that was just completed or
+ * skipped: lapsed occurrences before today, then the next one to do
+ */
+export function planNextOccurrence(ruleText: string, anchor: string, dueDate: string, today: string): NextOccurrencePlan {
+  const skipped: string[] = [];
+  let after = dueDate;
+
+  while (true) {
+    const batch = getOccurrencesAfter(ruleText, anchor, after, 50);
+    if (batch.length === 0) break;
+
+    for (const date of batch) {
+      if (date >= today) {
+        return { skipped: skipped.slice(-MAX_CATCH_UP_OCCURRENCES), next: date };
+      }
+      skipped.push(date);
+    }
+    after = batch[batch.length - 1];
+  }
+
+  return { skipped: skipped.slice(-MAX_CATCH_UP_OCCURRENCES), next: null };
+}
+
+/**
+ * Create the follow-up row(s) for a recurring task that was completed,
+ * or skip the task itself first when `skip` is set. Does nothing for
+ * one-off tasks or when the series already has a later open occurrence.
+ */
+export async function advanceRecurringTask(
+  supabase: any,
+  task: RecurringTaskRow,
+  today: string,
+  options: { skip?: boolean } = {}
+): Promise<{ next: any | null; skipped: number }> {
+  if (!task.recurrence_rule || !task.due_date) return { next: null, skipped: 0 };
+
+  const dueDate = task.due_date.split('T')[0];
+  const anchor = task.recurrence_anchor || dueDate;
+  const seriesId = task.recurrence_series_id || task.id;
+
+  if (options.skip) {
+    const { error } = await supabase
+      .from('action_tasks')
+      .update({ skipped_at: new Date().toISOString(), is_completed: false })
+      .eq('id', task.id);
+    if (error) throw new Error(`Failed to skip task: ${error.message}`);
+  }
+
+  const { data: existing } = await supabase
+    .from('action_tasks')
+    .select('*')
+    .eq('recurrence_series_id', seriesId)
+    .eq('is_completed', false)
+    .is('skipped_at', null)
+    .gt('due_date', dueDate)
+    .order('due_date', { ascending: true })
+    .limit(1);
+
+  if (existing && existing.length > 0) return { next: existing[0], skipped: 0 };
+
+  const plan = planNextOccurrence(task.recurrence_rule, anchor, dueDate, today);
+  const buildRow = (date: string) => ({
+    user_id: task.user_id,
+    plan_id: task.plan_id ?? null,
+    title: task.title,
+    description: task.description || '',
+    type: task.type,
+    priority: task.priority || 'medium',
+    source: task.source || 'manual',
+    ai_metadata: task.ai_metadata || {},
+    display_order: task.display_order ?? 0,
+    parent_task_id: task.parent_task_id ?? null,
+    duration_days: task.duration_days ?? null,
+    milestone_year: task.milestone_year ? Number(date.slice(0, 4)) : null,
+    due_date: date,
+    is_completed: false,
+    recurrence_rule: task.recurrence_rule,
+    recurrence_anchor: anchor,
+    recurrence_series_id: seriesId,
+    created_at: new Date().toISOString()
+  });
+
+  if (!task.recurrence_series_id || !task.recurrence_anchor) {
+    await supabase
+      .from('action_tasks')
+      .update({ recurrence_series_id: seriesId, recurrence_anchor: anchor })
+      .eq('id', task.id);
+  }
+
+  if (plan.skipped.length > 0) {
+    const skippedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('action_tasks')
+      .insert(plan.skipped.map(date => ({ ...buildRow(date), skipped_at: skippedAt })));
+    if (error) throw new Error(`Failed to record skipped occurrences: ${error.message}`);
+  }
+
+  if (!plan.next) return { next: null, skipped: plan.skipped.length };
+
+  const { data: next, error } = await supabase
+    .from('action_tasks')
+    .insert(buildRow(plan.next))
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create next occurrence: ${error.message}`);
+
+  return { next, skipped: plan.skipped.length };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function parsePositiveInt(value: string, name: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid ${name}: ${value}`);
+  return n;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  const match = value.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) throw new Error(`Invalid BYDAY: ${value}`);
+  const weekday = WEEKDAY_CODES.indexOf(match[2]);
+  return match[1] ? { weekday, nth: Number(match[1]) } : { weekday };
+}
+
+/**
+ * Fill in the day (and month) the anchor falls on when the rule leaves
+ * them out, as RFC 5545 does with DTSTART
+ */
+function withAnchorDefaults(rule: RecurrenceRule, anchor: string): RecurrenceRule {
+  const [, month, day] = anchor.split('-').map(Number);
+  const result = { ...rule };
+
+  if (rule.freq === 'WEEKLY' && rule.byDay.length === 0) {
+    result.byDay = [{ weekday: getDayOfWeek(anchor) }];
+  }
+  if (rule.freq === 'MONTHLY' && rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+    result.byMonthDay = [day];
+  }
+  if (rule.freq === 'YEARLY') {
+    if (rule.byMonth.length === 0) result.byMonth = [month];
+    if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) result.byMonthDay = [day];
+  }
+
+  return result;
+}
+
+/**
+ * Candidate dates in the n-th period (day, week, month or year) after
+ * the anchor's period, sorted
+ */
+function getPeriodDates(rule: RecurrenceRule, anchor: string, period: number): string[] {
+  const step = period * rule.interval;
+  const [anchorYear, anchorMonth] = anchor.split('-').map(Number);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(anchor, step)];
+    case 'WEEKLY': {
+      const weekStart = addDays(getWeekStart(anchor, 1), step * 7);
+      return rule.byDay
+        .map(d => addDays(weekStart, (d.weekday + 6) % 7))
+        .sort();
+    }
+    case 'MONTHLY': {
+      const monthIndex = anchorMonth - 1 + step;
+      return getMonthDates(rule, anchorYear + Math.floor(monthIndex / 12), (monthIndex % 12) + 1);
+    }
+    case 'YEARLY':
+      return [...rule.byMonth]
+        .sort((a, b) => a - b)
+        .flatMap(month => getMonthDates(rule, anchorYear + step, month));
+  }
+}
+
+function getMonthDates(rule: RecurrenceRule, year: number, month: number): string[] {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  for (const d of rule.byMonthDay) {
+    days.add(d > 0 ? Math.min(d, daysInMonth) : daysInMonth + d + 1);
+  }
+
+  for (const { weekday, nth } of rule.byDay) {
+    const matches: number[] = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+      if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) matches.push(day);
+    }
+    if (nth === undefined) {
+      matches.forEach(day => days.add(day));
+    } else {
+      const day = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+      if (day) days.add(day);
+    }
+  }
+
+  return [...days]
+    .filter(day => day >= 1)
+    .sort((a, b) => a - b)
+    .map(day => `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+}
@@ -0,0 +1,267 @@
+/**
+ * Vision Share Links for Supabase Edge Functions
+ *
+ * Helpers for the vision-share function, which serves read-only public
+ * links to a single vision board:
+ * - Random share tokens and PBKDF2 passcode hashes
+ * - How many wrong passcodes a share accepts before it locks for a while
+ * - Whether a share is still viewable (expiry and revocation)
+ * - The HTML page link previews (Open Graph) are built from
+ * - Creating and revoking links for their owner
+ *
+ * @module vision-share
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type ShareState = 'active' | 'expired' | 'revoked';
+
+export interface ShareRecord {
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface SharePreview {
+  title: string;
+  description: string;
+  imageUrl: string;
+  pageUrl: string; // Public route in the app the preview redirects to
+}
+
+export interface CreateShareInput {
+  vision_id?: string;
+  title?: string;
+  goals?: any;
+  expires_in_days?: number | string | null;
+  passcode?: string | null;
+  watermarked_path?: string | null;
+}
+
+// ============================================
+// Tokens & Passcodes
+// ============================================
+
+export const PASSCODE_HASH_ITERATIONS = 100_000;
+
+/** Passcode tries per share within one lockout window */
+export const PASSCODE_MAX_ATTEMPTS = 5;
+
+export const PASSCODE_LOCKOUT_MINUTES = 15;
+
+/**
+ * 24 random bytes, base64url encoded (32 characters, safe in a URL path)
+ */
+export function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+}
+
+async function pbkdf2(passcode: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode.trim()), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Compare without returning early, so response time doesn't reveal how
+ * much of a guess matched
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * PBKDF2-SHA256 of a passcode, stored as "pbkdf2$iterations$salt$hash"
+ */
+export async function hashPasscode(passcode: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(passcode, salt, PASSCODE_HASH_ITERATIONS);
+  return `pbkdf2$${PASSCODE_HASH_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export async function verifyPasscode(passcode: string, stored: string): Promise<boolean> {
+  const [scheme, iterationText, saltHex, hashHex] = stored.split('$');
+  const iterations = Number(iterationText);
+  const salt = fromHex(saltHex || '');
+  const expected = fromHex(hashHex || '');
+  if (scheme !== 'pbkdf2' || !Number.isInteger(iterations) || iterations <= 0 || !salt || !expected) return false;
+
+  return timingSafeEqual(await pbkdf2(passcode, salt, iterations), expected);
+}
+
+// ============================================
+// Validity
+// ============================================
+
+export function getShareState(share: ShareRecord, now: Date = new Date()): ShareState {
+  if (share.revoked_at) return 'revoked';
+  if (share.expires_at && new Date(share.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+/**
+ * Expiry timestamp for a share lasting `days` (null = never expires)
+ */
+export function getShareExpiry(days: number | null | undefined, now: Date = new Date()): string | null {
+  if (!days || days <= 0) return null;
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// ============================================
+// Link Preview
+// ============================================
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Page served at the share URL. Crawlers read the Open Graph tags;
+ * browsers are sent on to the app's public share route.
+ */
+export function buildSharePreviewHtml(preview: SharePreview): string {
+  const title = escapeHtml(preview.title);
+  const description = escapeHtml(preview.description);
+  const image = escapeHtml(preview.imageUrl);
+  const page = escapeHtml(preview.pageUrl);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<meta name="description" content="${description}">
+<meta name="robots" content="noindex">
+<meta property="og:type" content="website">
+<meta property="og:title" content="${title}">
+<meta property="og:description" content="${description}">
+<meta property="og:url" content="${page}">
+${image ? `<meta property="og:image" content="${image}">\n<meta name="twitter:image" content="${image}">\n` : ''}<meta name="twitter:card" content="${image ? 'summary_large_image' : 'summary'}">
+<meta name="twitter:title" content="${title}">
+<meta name="twitter:description" content="${description}">
+<meta http-equiv="refresh" content="0; url=${page}">
+</head>
+<body>
+<p><a href="${page}">${title}</a></p>
+</body>
+</html>`;
+}
+
+// ============================================
+// Owner Actions
+// ============================================
+
+const MAX_GOALS = 10;
+const MAX_TITLE_LENGTH = 120;
+
+/**
+ * Create a share link for one of the user's visions and return the new
+ * row. Users can only read vision_shares, so the row is written with the
+ * service role client; the vision itself is looked up with the user's
+ * client so RLS confirms they own it.
+ */
+export async function createShare(
+  supabase: any,
+  supabaseAdmin: any,
+  userId: string,
+  input: CreateShareInput
+): Promise<any> {
+  const { vision_id, title, goals, expires_in_days, passcode, watermarked_path } = input;
+  if (!vision_id) throw new Error('Missing vision_id');
+
+  const { data: vision } = await supabase
+    .from('vision_boards')
+    .select('id, image_url')
+    .eq('id', vision_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!vision) throw new Error('Vision not found');
+
+  // The watermarked copy is rendered and uploaded by the client under the user's folder
+  let imageUrl = vision.image_url;
+  if (watermarked_path) {
+    if (!String(watermarked_path).startsWith(`shares/${userId}/`)) {
+      throw new Error('Invalid watermarked image path');
+    }
+    imageUrl = supabase.storage.from('visions').getPublicUrl(watermarked_path).data.publicUrl;
+  }
+
+  const sharedGoals = (Array.isArray(goals) ? goals : [])
+    .filter((g: any) => g && typeof g.title === 'string' && g.title.trim())
+    .slice(0, MAX_GOALS)
+    .map((g: any) => ({ title: g.title.trim().slice(0, MAX_TITLE_LENGTH), completed: !!g.completed }));
+
+  const { data: share, error } = await supabaseAdmin
+    .from('vision_shares')
+    .insert({
+      user_id: userId,
+      vision_id,
+      token: generateShareToken(),
+      title: title ? String(title).trim().slice(0, MAX_TITLE_LENGTH) : null,
+      goals: sharedGoals,
+      image_url: imageUrl,
+      watermarked_path: watermarked_path || null,
+      passcode_hash: passcode ? await hashPasscode(String(passcode)) : null,
+      expires_at: getShareExpiry(Number(expires_in_days) || null)
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create share link: ${error.message}`);
+  }
+
+  return share;
+}
+
+/**
+ * Revoke one of the user's share links and remove its watermarked copy.
+ * Returns false when the link was not found or was already revoked.
+ * Written with the service role client, scoped to the owner's rows.
+ */
+export async function revokeShare(supabaseAdmin: any, userId: string, shareId: string): Promise<boolean> {
+  if (!shareId) throw new Error('Missing share_id');
+
+  const { data: share, error } = await supabaseAdmin
+    .from('vision_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id, watermarked_path')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke share link: ${error.message}`);
+  }
+
+  if (share?.watermarked_path) {
+    await supabaseAdmin.storage.from('visions').remove([share.watermarked_path]);
+  }
+
+  return !!share;
+}
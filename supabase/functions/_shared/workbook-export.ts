@@ -0,0 +1,87 @@
+/**
+ * Workbook PDF Export for Supabase Edge Functions
+ *
+ * Renders a workbook order's pages with the shared renderer
+ * (workbook-pdf.ts) and stores the file in the workbooks bucket. The
+ * stored file is the one sent to Prodigi and offered for download.
+ *
+ * The bucket is private: downloads get a short-lived signed URL, and
+ * Prodigi gets a long-lived one when the order is submitted.
+ *
+ * @module workbook-export
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+// Keep in step with pdf-lib / @pdf-lib/fontkit in package.json so the
+// browser renders the same bytes
+import * as PDFLib from 'https://esm.sh/pdf-lib@1.17.1'
+import fontkit from 'https://esm.sh/@pdf-lib/fontkit@1.1.1'
+import { loadWorkbookFonts, renderWorkbookPdf } from './workbook-pdf.ts'
+import type { LayoutPage, WorkbookTheme } from './workbook-layout.ts'
+
+export const WORKBOOKS_BUCKET = 'workbooks'
+
+export const WORKBOOK_DOWNLOAD_URL_TTL_SECONDS = 60 * 60
+
+// Prodigi fetches print files when production starts, which can be days after submission
+export const WORKBOOK_PRINT_URL_TTL_SECONDS = 30 * 24 * 60 * 60
+
+export interface WorkbookExport {
+  url: string;
+  path: string;
+  pageCount: number;
+}
+
+export async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+/**
+ * Render the pages and upload them as the order's final workbook PDF. The
+ * returned URL is signed for `expiresIn` seconds.
+ */
+export async function exportWorkbookPdf(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  orderId: string,
+  pages: LayoutPage[],
+  theme: WorkbookTheme,
+  expiresIn: number = WORKBOOK_DOWNLOAD_URL_TTL_SECONDS
+): Promise<WorkbookExport> {
+  const fonts = await loadWorkbookFonts(supabaseUrl, fetchBytes)
+  const pdfBytes = await renderWorkbookPdf(PDFLib, pages, { theme, fonts, fontkit, fetchBytes })
+
+  const path = `${orderId}/final_workbook.pdf`
+  const { error } = await supabase.storage
+    .from(WORKBOOKS_BUCKET)
+    .upload(path, pdfBytes, { contentType: 'application/pdf', upsert: true })
+
+  if (error) throw new Error(`Failed to upload workbook PDF: ${error.message}`)
+
+  return {
+    url: await signWorkbookPdfUrl(supabase, path, expiresIn),
+    path,
+    pageCount: pages.length + (pages.length % 2)
+  }
+}
+
+/**
+ * Signed URL for a file in the workbooks bucket
+ */
+export async function signWorkbookPdfUrl(supabase: SupabaseClient, path: string, expiresIn: number): Promise<string> {
+  const { data, error } = await supabase.storage.from(WORKBOOKS_BUCKET).createSignedUrl(path, expiresIn)
+  if (error || !data) throw new Error(`Failed to sign workbook PDF URL: ${error?.message}`)
+  return data.signedUrl
+}
+
+/**
+ * Path in the workbooks bucket for a public or signed storage URL on this
+ * project, or null for any other URL
+ */
+export function getWorkbookPdfPath(url: string, supabaseUrl: string): string | null {
+  if (!url.startsWith(`${supabaseUrl}/storage/v1/object/`)) return null
+  const match = new URL(url).pathname.match(/^\/storage\/v1\/object\/(?:public|sign)\/workbooks\/(.+)$/)
+  return match ? decodeURIComponent(match[1]) : null
+}
@@ -0,0 +1,996 @@
+/**
+ * Workbook Page Layout
+ *
+ * Lays out a workbook page as a flat list of draw operations in PDF points
+ * (top-left origin). The preview draws the scene as SVG and workbook-pdf.ts
+ * paints the same scene into the print PDF, so the buyer approves exactly
+ * what gets printed:
+ * - Page size and safe area from the page's layout meta (trim size, DPI,
+ *   spiral edge on the binding side)
+ * - Theme pack colors and the two workbook typefaces
+ * - Text wrapping with fixed metrics, so line breaks don't depend on which
+ *   renderer draws the page
+ * - Dedicated layouts for the planner, roadmap, reflection, notes, quote
+ *   and divider pages; every other page type is laid out from its text
+ *   and image blocks
+ *
+ * @module workbook-layout
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type WorkbookTheme = 'faith' | 'executive' | 'retirement' | 'health' | 'entrepreneur' | 'relationship';
+
+export type SceneFont = 'serif' | 'serifBold' | 'serifItalic' | 'sans' | 'sansBold';
+
+export type TextRole = 'TITLE' | 'SUBTITLE' | 'BODY' | 'QUOTE' | 'CAPTION' | 'LABEL' | 'SCRIPTURE' | 'AFFIRMATION';
+
+export interface LayoutMeta {
+  widthPx: number;
+  heightPx: number;
+  safeMarginPx: number;
+  spiralEdgeMarginPx?: number;
+  dpi: number;
+}
+
+export interface LayoutTextBlock {
+  role: TextRole;
+  content: string;
+  align?: 'left' | 'center' | 'right' | 'justify';
+  emphasis?: 'normal' | 'bold' | 'italic' | 'highlight';
+  position?: { x: number; y: number; w?: number }; // % of the page
+}
+
+export interface LayoutImageBlock {
+  url: string;
+  position?: { x: number; y: number; w: number; h: number }; // % of the page
+}
+
+/**
+ * The parts of a WorkbookPage the layout reads
+ */
+export interface LayoutPage {
+  type: string;
+  pageNumber: number;
+  layout: LayoutMeta;
+  title?: string;
+  subtitle?: string;
+  textBlocks?: LayoutTextBlock[];
+  imageBlocks?: LayoutImageBlock[];
+  monthlyData?: {
+    year: number;
+    monthIndex: number;
+    monthLabel: string;
+    weekdayLabels?: string[]; // in week order, SUN…SAT when missing
+    weeks: { id: string; dateLabel: string; notes?: string }[][];
+  };
+  habitTracker?: {
+    habits: { id: string; name: string; description?: string }[];
+    period: 'MONTH' | 'QUARTER' | 'YEAR';
+  };
+  weeklyData?: {
+    weekOf: string;
+    days: { isoDate: string; label: string; dateLabel?: string; notes?: string[]; sections?: string[] }[];
+  };
+  roadmap?: {
+    year: number;
+    quarter?: 1 | 2 | 3 | 4;
+    summary: string;
+    goals: { id: string; category: string; label: string; status?: 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' }[];
+    keyMilestones: string[];
+  };
+  reflectionPrompts?: { id: string; question: string; helperText?: string }[];
+}
+
+/**
+ * One draw operation. Coordinates are points from the top-left corner;
+ * text y is the baseline and circle x/y is the center.
+ */
+export interface SceneOp {
+  kind: 'rect' | 'line' | 'circle' | 'text' | 'image';
+  x: number;
+  y: number;
+  w?: number;
+  h?: number;
+  x2?: number;
+  y2?: number;
+  r?: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number;
+  opacity?: number;
+  text?: string;
+  font?: SceneFont;
+  size?: number;
+  anchor?: 'start' | 'middle' | 'end';
+  url?: string; // image, scaled to cover its box
+}
+
+export interface PageScene {
+  width: number;
+  height: number;
+  background: string;
+  ops: SceneOp[];
+}
+
+export interface ThemePalette {
+  primary: string;
+  accent: string;
+  muted: string;
+}
+
+export interface LayoutOptions {
+  theme?: WorkbookTheme;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const POINTS_PER_INCH = 72;
+
+// Layout sizes are designed for a 6x9 trade page and scale with page width
+const BASE_PAGE_WIDTH_PT = 432;
+
+export const THEME_PALETTES: Record<WorkbookTheme, ThemePalette> = {
+  executive: { primary: '#1E243C', accent: '#D97706', muted: '#666666' },
+  faith: { primary: '#4C4C80', accent: '#D6AE5E', muted: '#878799' },
+  retirement: { primary: '#156680', accent: '#F69951', muted: '#808080' },
+  health: { primary: '#2E8B57', accent: '#1DA0E2', muted: '#708090' },
+  entrepreneur: { primary: '#333333', accent: '#FF7A00', muted: '#999999' },
+  relationship: { primary: '#BC3B71', accent: '#E1826D', muted: '#978087' }
+};
+
+const INK = '#1E293B';
+const RULE = '#E2E8F0';
+const PANEL = '#F8FAFC';
+const PAPER = '#FFFFFF';
+
+/**
+ * Font files embedded in the print PDF, and the CSS family the preview
+ * draws with (loaded from Google Fonts in workbook.css).
+ */
+export const WORKBOOK_FONTS: Record<SceneFont, { family: string; weight: number; italic: boolean; file: string }> = {
+  serif: { family: "'Playfair Display', Georgia, serif", weight: 400, italic: false, file: 'PlayfairDisplay-Regular.ttf' },
+  serifBold: { family: "'Playfair Display', Georgia, serif", weight: 700, italic: false, file: 'PlayfairDisplay-Bold.ttf' },
+  serifItalic: { family: "'Playfair Display', Georgia, serif", weight: 400, italic: true, file: 'PlayfairDisplay-Italic.ttf' },
+  sans: { family: 'Inter, system-ui, sans-serif', weight: 400, italic: false, file: 'Inter-Regular.ttf' },
+  sansBold: { family: 'Inter, system-ui, sans-serif', weight: 600, italic: false, file: 'Inter-SemiBold.ttf' }
+};
+
+const ROLE_STYLES: Record<TextRole, { font: SceneFont; size: number; color: 'ink' | 'primary' | 'accent' | 'muted'; lineHeight: number; upper?: boolean }> = {
+  TITLE: { font: 'serifBold', size: 24, color: 'primary', lineHeight: 1.2 },
+  SUBTITLE: { font: 'sans', size: 11, color: 'muted', lineHeight: 1.4, upper: true },
+  BODY: { font: 'sans', size: 10, color: 'ink', lineHeight: 1.6 },
+  QUOTE: { font: 'serifItalic', size: 16, color: 'accent', lineHeight: 1.4 },
+  CAPTION: { font: 'sans', size: 9, color: 'muted', lineHeight: 1.4 },
+  LABEL: { font: 'sansBold', size: 8, color: 'muted', lineHeight: 1.3, upper: true },
+  SCRIPTURE: { font: 'serifItalic', size: 12, color: 'primary', lineHeight: 1.5 },
+  AFFIRMATION: { font: 'serifBold', size: 14, color: 'primary', lineHeight: 1.4 }
+};
+
+const WEEKDAY_LABELS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const HABIT_MIN_ROWS = 15;
+const HABIT_DAYS = 31;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const DEFAULT_WEEK_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+  .map(label => ({ isoDate: '', label, sections: [] as string[] }));
+
+const DEFAULT_REFLECTION_PROMPTS: LayoutPage['reflectionPrompts'] = [
+  { id: 'wins', question: 'What were my biggest wins this month?' },
+  { id: 'lessons', question: 'What did I learn, and what will I do differently?' },
+  { id: 'focus', question: 'What is the one thing that matters most next month?' }
+];
+
+// Dot grid pitch is physical (5mm) rather than scaled with the page
+const DOT_GRID_PITCH_PT = (5 / 25.4) * POINTS_PER_INCH;
+const DOT = '#CBD5E1';
+
+// ============================================
+// Geometry
+// ============================================
+
+export const pxToPt = (px: number, dpi: number): number => (px / dpi) * POINTS_PER_INCH;
+
+export interface SafeArea {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Printable area inside the safety margins, in points. Spiral-bound pages
+ * get the extra margin on the binding edge: the left of right-hand (odd)
+ * pages and the right of left-hand (even) pages.
+ */
+export function getSafeArea(layout: LayoutMeta, pageNumber: number): SafeArea {
+  const width = pxToPt(layout.widthPx, layout.dpi);
+  const height = pxToPt(layout.heightPx, layout.dpi);
+  const margin = pxToPt(layout.safeMarginPx, layout.dpi);
+  const spiral = layout.spiralEdgeMarginPx ? pxToPt(layout.spiralEdgeMarginPx, layout.dpi) : 0;
+  const isLeftPage = pageNumber % 2 === 0;
+
+  const left = margin + (isLeftPage ? 0 : spiral);
+  const right = width - margin - (isLeftPage ? spiral : 0);
+
+  return {
+    left,
+    top: margin,
+    right,
+    bottom: height - margin,
+    width: right - left,
+    height: height - margin * 2
+  };
+}
+
+// ============================================
+// Text Metrics
+// ============================================
+
+/**
+ * Advance width of a character in ems. Deliberately a little wide for
+ * both typefaces so wrapped lines never overrun in either renderer.
+ */
+function charWidth(ch: string): number {
+  if (ch === ' ') return 0.28;
+  if ('il.,:;|!\'`'.includes(ch)) return 0.3;
+  if ('fjrt()[]-/'.includes(ch)) return 0.4;
+  if ('mwMW@%'.includes(ch)) return 0.9;
+  if (ch >= 'A' && ch <= 'Z') return 0.7;
+  if (ch >= '0' && ch <= '9') return 0.6;
+  return 0.56;
+}
+
+export function measureText(text: string, font: SceneFont, size: number): number {
+  const bold = font === 'serifBold' || font === 'sansBold';
+  let ems = 0;
+  for (const ch of text) ems += charWidth(ch);
+  return ems * size * (bold ? 1.06 : 1);
+}
+
+/**
+ * Wrap text to a width. Newlines start a new line; words longer than the
+ * width are broken by character.
+ */
+export function wrapText(text: string, font: SceneFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+
+      let rest = word;
+      while (measureText(rest, font, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measureText(rest.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * First line of text that fits the width, with an ellipsis if cut
+ */
+export function fitLine(text: string, font: SceneFont, size: number, maxWidth: number): string {
+  if (measureText(text, font, size) <= maxWidth) return text;
+  let cut = text.length;
+  while (cut > 0 && measureText(`${text.slice(0, cut).trimEnd()}…`, font, size) > maxWidth) cut--;
+  return cut > 0 ? `${text.slice(0, cut).trimEnd()}…` : '';
+}
+
+// ============================================
+// Layout
+// ============================================
+
+interface LayoutContext {
+  page: LayoutPage;
+  width: number;
+  height: number;
+  area: SafeArea;
+  scale: number;
+  palette: ThemePalette;
+  ops: SceneOp[];
+}
+
+/**
+ * Lay out one page
+ */
+export function layoutWorkbookPage(page: LayoutPage, options: LayoutOptions = {}): PageScene {
+  const width = pxToPt(page.layout.widthPx, page.layout.dpi);
+  const height = pxToPt(page.layout.heightPx, page.layout.dpi);
+  const ctx: LayoutContext = {
+    page,
+    width,
+    height,
+    area: getSafeArea(page.layout, page.pageNumber),
+    scale: width / BASE_PAGE_WIDTH_PT,
+    palette: THEME_PALETTES[options.theme || 'executive'] || THEME_PALETTES.executive,
+    ops: []
+  };
+
+  let background = PAPER;
+
+  if (page.type === 'MONTHLY_PLANNER' && page.monthlyData) {
+    layoutMonthlyPlanner(ctx);
+  } else if (page.type === 'HABIT_TRACKER' && page.habitTracker) {
+    layoutHabitTracker(ctx);
+  } else if (page.type === 'NOTES_LINED') {
+    layoutLinedNotes(ctx);
+  } else if (page.type === 'NOTES_DOTGRID') {
+    layoutDotGridNotes(ctx);
+  } else if (page.type === 'ROADMAP_YEAR') {
+    layoutYearRoadmap(ctx);
+  } else if (page.type === 'ROADMAP_QUARTER') {
+    layoutQuarterRoadmap(ctx);
+  } else if (page.type === 'WEEKLY_PLANNER') {
+    layoutWeeklyPlanner(ctx);
+  } else if (page.type === 'REFLECTION_MONTH') {
+    layoutReflection(ctx);
+  } else if (page.type === 'QUOTE_PAGE') {
+    layoutQuote(ctx);
+  } else if (page.type === 'SECTION_DIVIDER') {
+    background = ctx.palette.primary;
+    layoutSectionDivider(ctx);
+  } else if (page.type === 'COVER_FRONT') {
+    background = ctx.palette.primary;
+    layoutBlocks(ctx, true);
+  } else {
+    layoutBlocks(ctx, false);
+  }
+
+  return { width, height, background, ops: ctx.ops };
+}
+
+/**
+ * Lay out every page, padded to the even page count print requires
+ */
+export function layoutWorkbook(pages: LayoutPage[], options: LayoutOptions = {}): PageScene[] {
+  const scenes = pages.map(page => layoutWorkbookPage(page, options));
+
+  if (scenes.length % 2 !== 0) {
+    const last = scenes[scenes.length - 1];
+    scenes.push({ width: last.width, height: last.height, background: PAPER, ops: [] });
+  }
+
+  return scenes;
+}
+
+const roleColor = (ctx: LayoutContext, color: 'ink' | 'primary' | 'accent' | 'muted'): string =>
+  color === 'ink' ? INK : ctx.palette[color];
+
+function pushText(
+  ctx: LayoutContext,
+  text: string,
+  x: number,
+  y: number,
+  font: SceneFont,
+  size: number,
+  fill: string,
+  anchor: 'start' | 'middle' | 'end' = 'start'
+) {
+  if (!text) return;
+  ctx.ops.push({ kind: 'text', x, y, text, font, size, fill, anchor });
+}
+
+function pushLine(ctx: LayoutContext, x: number, y: number, x2: number, y2: number, stroke: string, strokeWidth: number, extra: Partial<SceneOp> = {}) {
+  ctx.ops.push({ kind: 'line', x, y, x2, y2, stroke, strokeWidth, ...extra });
+}
+
+function pushRect(ctx: LayoutContext, x: number, y: number, w: number, h: number, extra: Partial<SceneOp>) {
+  ctx.ops.push({ kind: 'rect', x, y, w, h, ...extra });
+}
+
+/**
+ * Wrapped text from a top edge. Returns the y below the last line.
+ */
+function pushWrapped(
+  ctx: LayoutContext,
+  text: string,
+  x: number,
+  top: number,
+  maxWidth: number,
+  font: SceneFont,
+  size: number,
+  fill: string,
+  options: { lineHeight?: number; anchor?: 'start' | 'middle' | 'end'; maxLines?: number } = {}
+): number {
+  const lineHeight = size * (options.lineHeight || 1.4);
+  const lines = wrapText(text, font, size, maxWidth).slice(0, options.maxLines);
+  lines.forEach((line, i) => pushText(ctx, line, x, top + i * lineHeight + size, font, size, fill, options.anchor));
+  return top + lines.length * lineHeight;
+}
+
+/**
+ * Eyebrow label, page title and a short accent rule. Returns the y where
+ * the page body starts.
+ */
+function pushHeading(ctx: LayoutContext, title: string, eyebrow?: string): number {
+  const { area, scale, palette } = ctx;
+  let y = area.top;
+
+  if (eyebrow) {
+    pushText(ctx, eyebrow.toUpperCase(), area.left, y + 7 * scale, 'sansBold', 7 * scale, palette.accent);
+    y += 12 * scale;
+  }
+
+  const titleSize = 22 * scale;
+  const title1 = fitLine(title, 'serifBold', titleSize, area.width);
+  pushText(ctx, title1, area.left, y + titleSize, 'serifBold', titleSize, palette.primary);
+  y += titleSize + 8 * scale;
+  pushLine(ctx, area.left, y, area.left + 40 * scale, y, palette.accent, 1.5 * scale);
+
+  return y + 14 * scale;
+}
+
+function pushWritingLines(ctx: LayoutContext, left: number, right: number, top: number, bottom: number, gap: number) {
+  for (let y = top + gap; y <= bottom + 0.01; y += gap) {
+    pushLine(ctx, left, y, right, y, RULE, 0.75);
+  }
+}
+
+/**
+ * First text block with one of the roles
+ */
+const blockText = (page: LayoutPage, roles: TextRole[]): string | undefined =>
+  page.textBlocks?.find(b => roles.includes(b.role) && b.content)?.content;
+
+/**
+ * Text and image blocks at their % positions. Blocks with a width start
+ * at x and wrap inside it; blocks without one are centered on (x, y).
+ * Text always stays inside the safe area.
+ */
+function layoutBlocks(ctx: LayoutContext, onCover: boolean) {
+  const { page, area, scale } = ctx;
+
+  for (const block of page.imageBlocks || []) {
+    const pos = block.position || { x: 0, y: 0, w: 100, h: 100 };
+    const x = (pos.x / 100) * ctx.width;
+    const y = (pos.y / 100) * ctx.height;
+    const w = (pos.w / 100) * ctx.width;
+    const h = (pos.h / 100) * ctx.height;
+
+    if (block.url) {
+      ctx.ops.push({ kind: 'image', x, y, w, h, url: block.url });
+    } else {
+      pushRect(ctx, x, y, w, h, { fill: PANEL, stroke: RULE, strokeWidth: 0.75 });
+    }
+  }
+
+  // Keep cover text legible over a cover image
+  if (onCover && page.imageBlocks?.some(b => b.url)) {
+    pushRect(ctx, 0, 0, ctx.width, ctx.height, { fill: '#000000', opacity: 0.35 });
+  }
+
+  const textBlocks: LayoutTextBlock[] = page.textBlocks?.length
+    ? page.textBlocks
+    : page.title ? [{ role: 'TITLE', content: page.title, position: { x: 50, y: 12 } }] : [];
+
+  for (const block of textBlocks) {
+    if (!block.content) continue;
+
+    const style = ROLE_STYLES[block.role] || ROLE_STYLES.BODY;
+    const size = style.size * scale * (onCover && block.role === 'TITLE' ? 1.4 : 1);
+    const font = emphasisFont(style.font, block.emphasis);
+    const fill = onCover ? PAPER
+      : block.emphasis === 'highlight' ? ctx.palette.accent
+        : roleColor(ctx, style.color);
+    const content = style.upper ? block.content.toUpperCase() : block.content;
+    const lineHeight = size * style.lineHeight;
+    const pos = block.position || { x: 50, y: 50 };
+    const anchorX = (pos.x / 100) * ctx.width;
+
+    let left: number;
+    let right: number;
+    if (pos.w) {
+      left = Math.max(area.left, anchorX);
+      right = Math.min(area.right, anchorX + (pos.w / 100) * ctx.width);
+    } else {
+      // Centered blocks near an edge get at least 40% of the safe width,
+      // moved inward as far as needed
+      const half = Math.max(area.width * 0.2, Math.min(anchorX - area.left, area.right - anchorX));
+      const center = Math.min(Math.max(anchorX, area.left + half), area.right - half);
+      left = center - half;
+      right = center + half;
+    }
+
+    const lines = wrapText(content, font, size, Math.max(right - left, size));
+    const blockHeight = lines.length * lineHeight;
+    let top = pos.w ? (pos.y / 100) * ctx.height : (pos.y / 100) * ctx.height - blockHeight / 2;
+    top = Math.max(area.top, Math.min(top, area.bottom - blockHeight));
+
+    const align = pos.w ? (block.align || 'left') : 'center';
+    const anchor = align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start';
+    const x = anchor === 'middle' ? (left + right) / 2 : anchor === 'end' ? right : left;
+
+    lines.forEach((line, i) => {
+      const baseline = top + i * lineHeight + size;
+      if (baseline > area.bottom) return;
+      pushText(ctx, line, x, baseline, font, size, fill, anchor);
+    });
+  }
+}
+
+function emphasisFont(font: SceneFont, emphasis?: LayoutTextBlock['emphasis']): SceneFont {
+  const serif = font.startsWith('serif');
+  if (emphasis === 'bold') return serif ? 'serifBold' : 'sansBold';
+  if (emphasis === 'italic' && serif) return 'serifItalic';
+  return font;
+}
+
+/**
+ * Month grid: month and year header, seven-day grid with a few writing
+ * lines per day, and a monthly focus box
+ */
+function layoutMonthlyPlanner(ctx: LayoutContext) {
+  const { area, scale, palette } = ctx;
+  const data = ctx.page.monthlyData!;
+
+  // Header
+  const monthSize = 26 * scale;
+  pushText(ctx, data.monthLabel.toUpperCase(), area.left, area.top + monthSize, 'serifBold', monthSize, palette.primary);
+  pushText(ctx, String(data.year), area.left, area.top + monthSize + 16 * scale, 'sans', 11 * scale, palette.muted);
+  pushText(ctx, '"Vision without execution is just hallucination."', area.right, area.top + monthSize, 'serifItalic', 7.5 * scale, palette.muted, 'end');
+
+  const headerBottom = area.top + 50 * scale;
+  pushLine(ctx, area.left, headerBottom, area.right, headerBottom, RULE, 1.5 * scale);
+
+  // Monthly focus box
+  const footerHeight = 60 * scale;
+  const footerTop = area.bottom - footerHeight;
+  pushRect(ctx, area.left, footerTop, area.width, footerHeight, { fill: PANEL, stroke: RULE, strokeWidth: 0.75 });
+  pushText(ctx, 'MONTHLY FOCUS & KEY OBJECTIVES', area.left + 10 * scale, footerTop + 16 * scale, 'sansBold', 7 * scale, palette.muted);
+  pushLine(ctx, area.left + 10 * scale, footerTop + 40 * scale, area.right - 10 * scale, footerTop + 40 * scale, RULE, 0.75, { dash: 3 * scale });
+
+  // Calendar grid
+  const gridTop = headerBottom + 12 * scale;
+  const gridBottom = footerTop - 12 * scale;
+  const dayHeaderHeight = 16 * scale;
+  const colWidth = area.width / 7;
+  const weeks = data.weeks.length ? data.weeks : [[]];
+  const rowHeight = (gridBottom - gridTop - dayHeaderHeight) / weeks.length;
+
+  pushRect(ctx, area.left, gridTop, area.width, dayHeaderHeight, { fill: PANEL });
+  (data.weekdayLabels || WEEKDAY_LABELS).forEach((label, col) => {
+    pushText(ctx, label, area.left + colWidth * (col + 0.5), gridTop + dayHeaderHeight / 2 + 2.5 * scale, 'sansBold', 6.5 * scale, palette.primary, 'middle');
+  });
+
+  weeks.forEach((week, row) => {
+    const cellTop = gridTop + dayHeaderHeight + row * rowHeight;
+    for (let col = 0; col < 7; col++) {
+      const day = week[col];
+      const cellLeft = area.left + col * colWidth;
+
+      if (day?.dateLabel) {
+        pushText(ctx, day.dateLabel, cellLeft + colWidth - 3 * scale, cellTop + 10 * scale, 'sansBold', 8 * scale, INK, 'end');
+      }
+      if (day?.notes) {
+        wrapText(day.notes, 'sans', 5.5 * scale, colWidth - 6 * scale).slice(0, 2).forEach((line, i) => {
+          pushText(ctx, line, cellLeft + 3 * scale, cellTop + 18 * scale + i * 7 * scale, 'sans', 5.5 * scale, palette.muted);
+        });
+      }
+
+      // Writing lines
+      const lineGap = 6 * scale;
+      if (rowHeight > 36 * scale) {
+        for (let i = 1; i <= 3; i++) {
+          const y = cellTop + rowHeight - i * lineGap;
+          pushLine(ctx, cellLeft + 3 * scale, y, cellLeft + colWidth - 3 * scale, y, RULE, 0.5);
+        }
+      }
+    }
+  });
+
+  // Grid lines
+  for (let col = 0; col <= 7; col++) {
+    const x = area.left + col * colWidth;
+    pushLine(ctx, x, gridTop, x, gridBottom, RULE, 0.75);
+  }
+  pushLine(ctx, area.left, gridTop, area.right, gridTop, RULE, 0.75);
+  for (let row = 0; row <= weeks.length; row++) {
+    const y = gridTop + dayHeaderHeight + row * rowHeight;
+    pushLine(ctx, area.left, y, area.right, y, RULE, 0.75);
+  }
+}
+
+/**
+ * Habit grid: one row per habit (padded with blank rows), a check circle
+ * per day, and write-in boxes for the month's results
+ */
+function layoutHabitTracker(ctx: LayoutContext) {
+  const { area, scale, palette } = ctx;
+  const { habits } = ctx.page.habitTracker!;
+
+  // Header
+  const titleSize = 22 * scale;
+  pushText(ctx, ctx.page.title || 'Habit Architecture', area.left, area.top + titleSize, 'serifBold', titleSize, palette.primary);
+  const quote = '"We are what we repeatedly do. Excellence, then, is not an act, but a habit."';
+  wrapText(quote, 'sans', 8 * scale, area.width).forEach((line, i) => {
+    pushText(ctx, line, area.left, area.top + titleSize + 14 * scale + i * 11 * scale, 'sans', 8 * scale, palette.muted);
+  });
+
+  // Footer boxes
+  const footerHeight = 44 * scale;
+  const footerTop = area.bottom - footerHeight;
+  const gap = 10 * scale;
+  const boxWidth = (area.width - gap * 2) / 3;
+  ['SUCCESS RATE', 'LONGEST STREAK', 'REWARD'].forEach((label, i) => {
+    const x = area.left + i * (boxWidth + gap);
+    pushRect(ctx, x, footerTop, boxWidth, footerHeight, { fill: PANEL, stroke: RULE, strokeWidth: 0.75 });
+    pushText(ctx, label, x + 8 * scale, footerTop + 14 * scale, 'sansBold', 6 * scale, palette.muted);
+    pushLine(ctx, x + 8 * scale, footerTop + 34 * scale, x + boxWidth - 8 * scale, footerTop + 34 * scale, RULE, 0.75, { dash: 3 * scale });
+  });
+
+  // Tracker grid
+  const gridTop = area.top + 70 * scale;
+  const gridBottom = footerTop - 14 * scale;
+  const headerHeight = 14 * scale;
+  const nameWidth = area.width * 0.3;
+  const dayWidth = (area.width - nameWidth) / HABIT_DAYS;
+  const rowCount = Math.max(habits.length, HABIT_MIN_ROWS);
+  const rowHeight = Math.min(24 * scale, (gridBottom - gridTop - headerHeight) / rowCount);
+  const tableBottom = gridTop + headerHeight + rowCount * rowHeight;
+  const daysLeft = area.left + nameWidth;
+
+  pushRect(ctx, area.left, gridTop, area.width, headerHeight, { fill: PANEL });
+  pushText(ctx, 'HABIT / ROUTINE', area.left + 5 * scale, gridTop + headerHeight / 2 + 2.5 * scale, 'sansBold', 6 * scale, palette.primary);
+  for (let d = 0; d < HABIT_DAYS; d++) {
+    pushText(ctx, String(d + 1), daysLeft + dayWidth * (d + 0.5), gridTop + headerHeight / 2 + 2 * scale, 'sans', 4.5 * scale, palette.muted, 'middle');
+  }
+
+  for (let row = 0; row < rowCount; row++) {
+    const rowTop = gridTop + headerHeight + row * rowHeight;
+    if (row % 2 === 1) {
+      pushRect(ctx, area.left, rowTop, area.width, rowHeight, { fill: PANEL });
+    }
+
+    const habit = habits[row];
+    if (habit) {
+      const nameSize = 7 * scale;
+      const hasDescription = !!habit.description && rowHeight >= 18 * scale;
+      const nameBaseline = rowTop + (hasDescription ? rowHeight / 2 : rowHeight / 2 + nameSize / 3);
+      pushText(ctx, fitLine(habit.name, 'sansBold', nameSize, nameWidth - 10 * scale), area.left + 5 * scale, nameBaseline, 'sansBold', nameSize, INK);
+      if (hasDescription) {
+        pushText(ctx, fitLine(habit.description!, 'sans', 5 * scale, nameWidth - 10 * scale), area.left + 5 * scale, nameBaseline + 7 * scale, 'sans', 5 * scale, palette.muted);
+      }
+    }
+
+    const radius = Math.min(dayWidth, rowHeight) * 0.3;
+    for (let d = 0; d < HABIT_DAYS; d++) {
+      ctx.ops.push({
+        kind: 'circle',
+        x: daysLeft + dayWidth * (d + 0.5),
+        y: rowTop + rowHeight / 2,
+        r: radius,
+        stroke: RULE,
+        strokeWidth: 0.5
+      });
+    }
+  }
+
+  // Grid lines
+  pushRect(ctx, area.left, gridTop, area.width, tableBottom - gridTop, { stroke: RULE, strokeWidth: 0.75 });
+  pushLine(ctx, daysLeft, gridTop, daysLeft, tableBottom, RULE, 0.75);
+  for (let row = 0; row <= rowCount; row++) {
+    const y = gridTop + headerHeight + row * rowHeight;
+    pushLine(ctx, area.left, y, area.right, y, RULE, 0.5);
+  }
+}
+
+/**
+ * Title and evenly spaced writing lines down the page
+ */
+function layoutLinedNotes(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const title = page.textBlocks?.find(b => b.role === 'TITLE')?.content || page.title || 'Notes';
+
+  const titleSize = 18 * scale;
+  pushText(ctx, fitLine(title, 'serifBold', titleSize, area.width), area.left, area.top + titleSize, 'serifBold', titleSize, palette.primary);
+
+  const lineGap = 22 * scale;
+  for (let y = area.top + titleSize + 24 * scale; y <= area.bottom; y += lineGap) {
+    pushLine(ctx, area.left, y, area.right, y, RULE, 0.75);
+  }
+}
+
+/**
+ * Title and a 5mm dot grid filling the safe area
+ */
+function layoutDotGridNotes(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const title = blockText(page, ['TITLE']) || page.title || 'Notes';
+
+  const titleSize = 18 * scale;
+  pushText(ctx, title, area.left, area.top + titleSize, 'serifBold', titleSize, palette.primary);
+
+  const top = area.top + titleSize + 18 * scale;
+  const cols = Math.floor(area.width / DOT_GRID_PITCH_PT);
+  const rows = Math.floor((area.bottom - top) / DOT_GRID_PITCH_PT);
+  const left = area.left + (area.width - cols * DOT_GRID_PITCH_PT) / 2;
+
+  for (let row = 0; row <= rows; row++) {
+    for (let col = 0; col <= cols; col++) {
+      ctx.ops.push({
+        kind: 'circle',
+        x: left + col * DOT_GRID_PITCH_PT,
+        y: top + row * DOT_GRID_PITCH_PT,
+        r: 0.7,
+        fill: DOT
+      });
+    }
+  }
+}
+
+/**
+ * Year at a glance: summary, key goals, milestones and a box per quarter
+ */
+function layoutYearRoadmap(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const roadmap = page.roadmap;
+
+  let y = pushHeading(ctx, page.title || 'The Year Ahead', roadmap?.year ? `${roadmap.year} Roadmap` : 'Roadmap');
+
+  if (roadmap?.summary) {
+    y = pushWrapped(ctx, roadmap.summary, area.left, y, area.width, 'sans', 9 * scale, palette.muted, { lineHeight: 1.5, maxLines: 4 }) + 10 * scale;
+  }
+
+  const goals = (roadmap?.goals || []).slice(0, 8);
+  if (goals.length) {
+    pushText(ctx, 'KEY GOALS', area.left, y + 7 * scale, 'sansBold', 7 * scale, palette.muted);
+    y += 12 * scale;
+    const rowHeight = 15 * scale;
+    goals.forEach(goal => {
+      const mid = y + rowHeight / 2;
+      ctx.ops.push({
+        kind: 'circle',
+        x: area.left + 4 * scale,
+        y: mid,
+        r: 3 * scale,
+        stroke: palette.accent,
+        strokeWidth: 0.75,
+        fill: goal.status === 'COMPLETED' ? palette.accent : undefined
+      });
+      const category = goal.category.charAt(0) + goal.category.slice(1).toLowerCase();
+      pushText(ctx, category, area.right, mid + 2.5 * scale, 'sans', 6.5 * scale, palette.muted, 'end');
+      pushText(ctx, fitLine(goal.label, 'sans', 8.5 * scale, area.width * 0.7), area.left + 14 * scale, mid + 3 * scale, 'sans', 8.5 * scale, INK);
+      pushLine(ctx, area.left, y + rowHeight, area.right, y + rowHeight, RULE, 0.5);
+      y += rowHeight;
+    });
+    y += 12 * scale;
+  }
+
+  const milestones = (roadmap?.keyMilestones || []).slice(0, 6);
+  if (milestones.length) {
+    pushText(ctx, 'MILESTONES', area.left, y + 7 * scale, 'sansBold', 7 * scale, palette.muted);
+    y += 12 * scale;
+    milestones.forEach(milestone => {
+      pushRect(ctx, area.left + 1.5 * scale, y + 4 * scale, 4 * scale, 4 * scale, { fill: palette.accent });
+      pushText(ctx, fitLine(milestone, 'sans', 8.5 * scale, area.width - 14 * scale), area.left + 14 * scale, y + 9 * scale, 'sans', 8.5 * scale, INK);
+      y += 14 * scale;
+    });
+    y += 12 * scale;
+  }
+
+  // Quarters, 2x2 in whatever space is left
+  const gap = 10 * scale;
+  const boxWidth = (area.width - gap) / 2;
+  const boxHeight = Math.max(60 * scale, (area.bottom - y - gap) / 2);
+  const headerHeight = 16 * scale;
+  for (let q = 0; q < 4; q++) {
+    const x = area.left + (q % 2) * (boxWidth + gap);
+    const top = y + Math.floor(q / 2) * (boxHeight + gap);
+    if (top + boxHeight > area.bottom + 0.01) break;
+
+    pushRect(ctx, x, top, boxWidth, headerHeight, { fill: PANEL });
+    pushRect(ctx, x, top, boxWidth, boxHeight, { stroke: RULE, strokeWidth: 0.75 });
+    pushText(ctx, `Q${q + 1}`, x + 6 * scale, top + 11 * scale, 'serifBold', 10 * scale, palette.primary);
+    const months = MONTH_NAMES.slice(q * 3, q * 3 + 3).map(m => m.slice(0, 3).toUpperCase()).join(' · ');
+    pushText(ctx, months, x + boxWidth - 6 * scale, top + 10.5 * scale, 'sans', 6 * scale, palette.muted, 'end');
+    pushWritingLines(ctx, x + 6 * scale, x + boxWidth - 6 * scale, top + headerHeight, top + boxHeight - 4 * scale, 16 * scale);
+  }
+}
+
+/**
+ * One quarter: a column per month, then goal and milestone checklists
+ */
+function layoutQuarterRoadmap(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const roadmap = page.roadmap;
+  const quarter = roadmap?.quarter || 1;
+
+  const eyebrow = roadmap?.year ? `Q${quarter} ${roadmap.year}` : `Q${quarter}`;
+  let y = pushHeading(ctx, page.title || `Quarter ${quarter} Plan`, eyebrow);
+
+  if (roadmap?.summary) {
+    y = pushWrapped(ctx, roadmap.summary, area.left, y, area.width, 'sans', 9 * scale, palette.muted, { lineHeight: 1.5, maxLines: 3 }) + 10 * scale;
+  }
+
+  // Month columns
+  const gap = 8 * scale;
+  const colWidth = (area.width - gap * 2) / 3;
+  const columnsHeight = (area.bottom - y) * 0.45;
+  const headerHeight = 16 * scale;
+  MONTH_NAMES.slice((quarter - 1) * 3, quarter * 3).forEach((month, i) => {
+    const x = area.left + i * (colWidth + gap);
+    pushRect(ctx, x, y, colWidth, headerHeight, { fill: PANEL });
+    pushRect(ctx, x, y, colWidth, columnsHeight, { stroke: RULE, strokeWidth: 0.75 });
+    pushText(ctx, month.toUpperCase(), x + colWidth / 2, y + 10.5 * scale, 'sansBold', 7 * scale, palette.primary, 'middle');
+    pushWritingLines(ctx, x + 5 * scale, x + colWidth - 5 * scale, y + headerHeight, y + columnsHeight - 4 * scale, 15 * scale);
+  });
+  y += columnsHeight + 16 * scale;
+
+  // Checklists, padded with blank rows to the bottom of the page
+  const listWidth = (area.width - gap * 2) / 2;
+  const lists: { label: string; items: string[] }[] = [
+    { label: 'QUARTER GOALS', items: (roadmap?.goals || []).map(g => g.label) },
+    { label: 'MILESTONES', items: roadmap?.keyMilestones || [] }
+  ];
+  const rowHeight = 16 * scale;
+  const rows = Math.floor((area.bottom - y - 12 * scale) / rowHeight);
+
+  lists.forEach((list, i) => {
+    const x = area.left + i * (listWidth + gap * 2);
+    pushText(ctx, list.label, x, y + 7 * scale, 'sansBold', 7 * scale, palette.muted);
+    for (let row = 0; row < rows; row++) {
+      const top = y + 12 * scale + row * rowHeight;
+      const box = 6 * scale;
+      pushRect(ctx, x, top + (rowHeight - box) / 2, box, box, { stroke: palette.accent, strokeWidth: 0.75 });
+      const item = list.items[row];
+      if (item) {
+        pushText(ctx, fitLine(item, 'sans', 8 * scale, listWidth - 12 * scale), x + 12 * scale, top + rowHeight / 2 + 3 * scale, 'sans', 8 * scale, INK);
+      }
+      pushLine(ctx, x + 12 * scale, top + rowHeight, x + listWidth, top + rowHeight, RULE, 0.5);
+    }
+  });
+}
+
+/**
+ * Week spread: top priorities, then a band per day split into the day's
+ * sections
+ */
+function layoutWeeklyPlanner(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const data = page.weeklyData;
+  const days = data?.days?.length ? data.days : DEFAULT_WEEK_DAYS;
+
+  let y = pushHeading(ctx, data?.weekOf ? `Week of ${data.weekOf}` : page.title || 'This Week', 'Weekly Planner');
+
+  // Priorities
+  const prioritiesHeight = 54 * scale;
+  pushRect(ctx, area.left, y, area.width, prioritiesHeight, { fill: PANEL, stroke: RULE, strokeWidth: 0.75 });
+  pushText(ctx, 'TOP PRIORITIES', area.left + 8 * scale, y + 12 * scale, 'sansBold', 7 * scale, palette.muted);
+  for (let i = 0; i < 3; i++) {
+    const lineY = y + 26 * scale + i * 11 * scale;
+    pushText(ctx, `${i + 1}`, area.left + 8 * scale, lineY, 'sansBold', 7 * scale, palette.accent);
+    pushLine(ctx, area.left + 18 * scale, lineY + 1 * scale, area.right - 8 * scale, lineY + 1 * scale, RULE, 0.5);
+  }
+  y += prioritiesHeight + 10 * scale;
+
+  // Days
+  const labelWidth = area.width * 0.22;
+  const rowHeight = (area.bottom - y) / days.length;
+  days.forEach((day, i) => {
+    const top = y + i * rowHeight;
+    pushLine(ctx, area.left, top, area.right, top, palette.primary, i === 0 ? 1 : 0.5);
+    pushText(ctx, fitLine(day.label.toUpperCase(), 'sansBold', 7.5 * scale, labelWidth - 6 * scale), area.left, top + 11 * scale, 'sansBold', 7.5 * scale, palette.primary);
+    if (day.dateLabel || day.isoDate) {
+      pushText(ctx, day.dateLabel || day.isoDate, area.left, top + 20 * scale, 'sans', 6 * scale, palette.muted);
+    }
+    // Holidays and milestones
+    (day.notes || []).slice(0, 2).forEach((note, n) => {
+      if (top + (29 + n * 8) * scale > top + rowHeight - 2 * scale) return;
+      pushText(ctx, fitLine(note, 'sansBold', 5.5 * scale, labelWidth - 6 * scale), area.left, top + (29 + n * 8) * scale, 'sansBold', 5.5 * scale, palette.accent);
+    });
+
+    const sections = day.sections?.length ? day.sections : [''];
+    const sectionWidth = (area.width - labelWidth) / sections.length;
+    sections.forEach((section, s) => {
+      const left = area.left + labelWidth + s * sectionWidth;
+      if (section) {
+        pushText(ctx, fitLine(section.toUpperCase(), 'sans', 5.5 * scale, sectionWidth - 6 * scale), left, top + 8 * scale, 'sans', 5.5 * scale, palette.muted);
+      }
+      pushWritingLines(ctx, left, left + sectionWidth - (s < sections.length - 1 ? 6 * scale : 0), top + 4 * scale, top + rowHeight - 2 * scale, 13 * scale);
+    });
+  });
+  pushLine(ctx, area.left, area.bottom, area.right, area.bottom, palette.primary, 0.5);
+}
+
+/**
+ * Numbered reflection prompts, each with an equal share of writing space
+ */
+function layoutReflection(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const prompts = page.reflectionPrompts?.length ? page.reflectionPrompts : DEFAULT_REFLECTION_PROMPTS;
+
+  const y = pushHeading(ctx, page.title || 'Monthly Reflection', 'Reflection');
+  const share = (area.bottom - y) / prompts.length;
+  const indent = 20 * scale;
+
+  prompts.forEach((prompt, i) => {
+    const top = y + i * share;
+    pushText(ctx, String(i + 1).padStart(2, '0'), area.left, top + 13 * scale, 'serifBold', 13 * scale, palette.accent);
+    let textBottom = pushWrapped(ctx, prompt.question, area.left + indent, top, area.width - indent, 'serifBold', 10.5 * scale, palette.primary, { lineHeight: 1.35, maxLines: 3 });
+    if (prompt.helperText) {
+      textBottom = pushWrapped(ctx, prompt.helperText, area.left + indent, textBottom + 2 * scale, area.width - indent, 'sans', 7.5 * scale, palette.muted, { maxLines: 2 });
+    }
+    pushWritingLines(ctx, area.left + indent, area.right, textBottom + 2 * scale, top + share - 10 * scale, 18 * scale);
+  });
+}
+
+/**
+ * A single quote, centered, with its attribution
+ */
+function layoutQuote(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const quote = blockText(page, ['QUOTE', 'SCRIPTURE', 'AFFIRMATION', 'BODY']) || page.title || '';
+  const attribution = blockText(page, ['CAPTION', 'LABEL']) || page.subtitle;
+
+  const size = 18 * scale;
+  const lineHeight = size * 1.45;
+  const maxWidth = area.width * 0.8;
+  const lines = wrapText(quote, 'serifItalic', size, maxWidth).slice(0, Math.floor(area.height * 0.6 / lineHeight));
+  const center = area.left + area.width / 2;
+  let y = area.top + (area.height - lines.length * lineHeight) / 2;
+
+  pushText(ctx, '\u201C', center, y - 8 * scale, 'serifBold', 60 * scale, palette.accent, 'middle');
+  lines.forEach(line => {
+    pushText(ctx, line, center, y + size, 'serifItalic', size, palette.primary, 'middle');
+    y += lineHeight;
+  });
+
+  pushLine(ctx, center - 20 * scale, y + 14 * scale, center + 20 * scale, y + 14 * scale, palette.accent, 1 * scale);
+  if (attribution) {
+    const text = fitLine(`\u2014 ${attribution}`.toUpperCase(), 'sans', 8 * scale, area.width);
+    pushText(ctx, text, center, y + 32 * scale, 'sans', 8 * scale, palette.muted, 'middle');
+  }
+}
+
+/**
+ * Full-color divider opening a section of the workbook
+ */
+function layoutSectionDivider(ctx: LayoutContext) {
+  const { area, scale, palette, page } = ctx;
+  const title = blockText(page, ['TITLE']) || page.title || '';
+  const eyebrow = blockText(page, ['LABEL']);
+  const subtitle = blockText(page, ['SUBTITLE', 'BODY']) || page.subtitle;
+
+  const center = area.left + area.width / 2;
+  const titleSize = 30 * scale;
+  const titleLines = wrapText(title, 'serifBold', titleSize, area.width * 0.85).slice(0, 4);
+  const titleHeight = titleLines.length * titleSize * 1.2;
+  let y = area.top + area.height * 0.45 - titleHeight / 2;
+
+  if (eyebrow) {
+    pushText(ctx, fitLine(eyebrow.toUpperCase(), 'sansBold', 8 * scale, area.width), center, y - 24 * scale, 'sansBold', 8 * scale, palette.accent, 'middle');
+  }
+  pushLine(ctx, center - 24 * scale, y - 12 * scale, center + 24 * scale, y - 12 * scale, palette.accent, 1.5 * scale);
+
+  titleLines.forEach(line => {
+    pushText(ctx, line, center, y + titleSize, 'serifBold', titleSize, PAPER, 'middle');
+    y += titleSize * 1.2;
+  });
+
+  if (subtitle) {
+    pushWrapped(ctx, subtitle, center, y + 12 * scale, area.width * 0.75, 'sans', 10 * scale, PAPER, { anchor: 'middle', maxLines: 4, lineHeight: 1.5 });
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Workbook PDF Renderer
+ *
+ * Paints workbook-layout.ts scenes into a print-ready PDF. The browser
+ * (at-home download) and the edge functions (Prodigi submission) both
+ * render through here, so the same pages produce the same file:
+ * - pdf-lib is passed in by the caller (npm in the browser, esm.sh in
+ *   Deno), pinned to the same version on both sides
+ * - Fonts are embedded from the workbook-assets bucket
+ * - No timestamps or random IDs are written, so rendering is repeatable
+ *   byte for byte
+ *
+ * PRODIGI PRINT SPECIFICATIONS:
+ * - Page size is the trim size (no manual bleed, Prodigi adds it)
+ * - RGB color (Prodigi converts to CMYK)
+ * - Even page count (a blank page is added if needed)
+ *
+ * @module workbook-pdf
+ */
+
+import {
+  LayoutPage,
+  PageScene,
+  SceneFont,
+  SceneOp,
+  WORKBOOK_FONTS,
+  WorkbookTheme,
+  layoutWorkbook
+} from './workbook-layout.ts';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * The parts of the pdf-lib module the renderer uses
+ */
+export interface PdfLibModule {
+  PDFDocument: any;
+  StandardFonts: any;
+  rgb: (r: number, g: number, b: number) => any;
+  pushGraphicsState: () => any;
+  popGraphicsState: () => any;
+  rectangle: (x: number, y: number, width: number, height: number) => any;
+  clip: () => any;
+  endPath: () => any;
+}
+
+export type FetchBytes = (url: string) => Promise<Uint8Array>;
+
+export interface RenderWorkbookOptions {
+  theme?: WorkbookTheme;
+  fetchBytes: FetchBytes;
+  // Font files to embed, with the @pdf-lib/fontkit module to read them.
+  // Without them the PDF falls back to the standard (unembedded) fonts,
+  // which Prodigi rejects; that's only for tests and local development.
+  fonts?: Partial<Record<SceneFont, Uint8Array>>;
+  fontkit?: any;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const WORKBOOK_ASSETS_BUCKET = 'workbook-assets';
+export const WORKBOOK_PDF_CREATOR = 'Visionary';
+
+// Standard-font stand-ins when font files aren't supplied
+const STANDARD_FONT_NAMES: Record<SceneFont, string> = {
+  serif: 'TimesRoman',
+  serifBold: 'TimesRomanBold',
+  serifItalic: 'TimesRomanItalic',
+  sans: 'Helvetica',
+  sansBold: 'HelveticaBold'
+};
+
+// ============================================
+// Fonts
+// ============================================
+
+export const getWorkbookFontUrl = (supabaseUrl: string, font: SceneFont): string =>
+  `${supabaseUrl}/storage/v1/object/public/${WORKBOOK_ASSETS_BUCKET}/fonts/${WORKBOOK_FONTS[font].file}`;
+
+/**
+ * Download every workbook font file
+ */
+export async function loadWorkbookFonts(
+  supabaseUrl: string,
+  fetchBytes: FetchBytes
+): Promise<Record<SceneFont, Uint8Array>> {
+  const names = Object.keys(WORKBOOK_FONTS) as SceneFont[];
+  const files = await Promise.all(names.map(name => fetchBytes(getWorkbookFontUrl(supabaseUrl, name))));
+
+  return names.reduce((fonts, name, i) => {
+    fonts[name] = files[i];
+    return fonts;
+  }, {} as Record<SceneFont, Uint8Array>);
+}
+
+async function embedFonts(pdfLib: PdfLibModule, doc: any, options: RenderWorkbookOptions) {
+  const names = Object.keys(WORKBOOK_FONTS) as SceneFont[];
+  const embedded = options.fontkit && names.every(name => options.fonts?.[name]);
+
+  if (embedded) {
+    doc.registerFontkit(options.fontkit);
+  }
+
+  const fonts = {} as Record<SceneFont, { font: any; charset: Set<number> }>;
+  for (const name of names) {
+    const font = embedded
+      ? await doc.embedFont(options.fonts![name], { subset: true })
+      : await doc.embedFont(pdfLib.StandardFonts[STANDARD_FONT_NAMES[name]]);
+    fonts[name] = { font, charset: new Set<number>(font.getCharacterSet()) };
+  }
+
+  return fonts;
+}
+
+/**
+ * Swap characters the font has no glyph for, which pdf-lib can't encode
+ */
+function encodable(text: string, charset: Set<number>): string {
+  let out = '';
+  for (const ch of text) {
+    out += charset.has(ch.codePointAt(0)!) ? ch : '?';
+  }
+  return out;
+}
+
+// ============================================
+// Images
+// ============================================
+
+async function embedImage(doc: any, bytes: Uint8Array, url: string) {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return doc.embedPng(bytes);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return doc.embedJpg(bytes);
+  throw new Error(`Unsupported image format for print: ${url}`);
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+const hexToRgb = (pdfLib: PdfLibModule, hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return pdfLib.rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+/**
+ * Render workbook pages to PDF bytes
+ */
+export async function renderWorkbookPdf(
+  pdfLib: PdfLibModule,
+  pages: LayoutPage[],
+  options: RenderWorkbookOptions
+): Promise<Uint8Array> {
+  if (pages.length === 0) throw new Error('Workbook has no pages');
+
+  const scenes = layoutWorkbook(pages, { theme: options.theme });
+
+  // updateMetadata: false keeps pdf-lib from stamping the current time
+  const doc = await pdfLib.PDFDocument.create({ updateMetadata: false });
+  const cover = pages[0];
+  const title = cover.title || cover.textBlocks?.find(b => b.role === 'TITLE')?.content;
+  if (title) doc.setTitle(title);
+  doc.setCreator(WORKBOOK_PDF_CREATOR);
+  doc.setProducer(WORKBOOK_PDF_CREATOR);
+
+  const fonts = await embedFonts(pdfLib, doc, options);
+
+  // Each image is fetched and embedded once however often it's used
+  const images = new Map<string, Promise<any>>();
+  const getImage = (url: string) => {
+    if (!images.has(url)) {
+      images.set(url, options.fetchBytes(url).then(bytes => embedImage(doc, bytes, url)));
+    }
+    return images.get(url)!;
+  };
+
+  for (const scene of scenes) {
+    const page = doc.addPage([scene.width, scene.height]);
+    await paintScene(pdfLib, page, scene, fonts, getImage);
+  }
+
+  return doc.save();
+}
+
+async function paintScene(
+  pdfLib: PdfLibModule,
+  page: any,
+  scene: PageScene,
+  fonts: Record<SceneFont, { font: any; charset: Set<number> }>,
+  getImage: (url: string) => Promise<any>
+) {
+  const H = scene.height;
+  const color = (hex?: string) => (hex ? hexToRgb(pdfLib, hex) : undefined);
+
+  if (scene.background !== '#FFFFFF') {
+    page.drawRectangle({ x: 0, y: 0, width: scene.width, height: H, color: color(scene.background) });
+  }
+
+  for (const op of scene.ops) {
+    switch (op.kind) {
+      case 'rect':
+        page.drawRectangle({
+          x: op.x,
+          y: H - op.y - op.h!,
+          width: op.w,
+          height: op.h,
+          color: color(op.fill),
+          borderColor: color(op.stroke),
+          borderWidth: op.stroke ? op.strokeWidth || 1 : 0,
+          opacity: op.opacity,
+          borderDashArray: op.dash ? [op.dash] : undefined
+        });
+        break;
+
+      case 'line':
+        page.drawLine({
+          start: { x: op.x, y: H - op.y },
+          end: { x: op.x2, y: H - op.y2! },
+          thickness: op.strokeWidth || 1,
+          color: color(op.stroke),
+          opacity: op.opacity,
+          dashArray: op.dash ? [op.dash] : undefined
+        });
+        break;
+
+      case 'circle':
+        page.drawCircle({
+          x: op.x,
+          y: H - op.y,
+          size: op.r,
+          color: color(op.fill),
+          borderColor: color(op.stroke),
+          borderWidth: op.stroke ? op.strokeWidth || 1 : 0
+        });
+        break;
+
+      case 'text':
+        paintText(page, op, H, fonts[op.font || 'sans'], color(op.fill));
+        break;
+
+      case 'image':
+        paintImage(pdfLib, page, op, H, await getImage(op.url!));
+        break;
+    }
+  }
+}
+
+function paintText(page: any, op: SceneOp, H: number, embedded: { font: any; charset: Set<number> }, color: any) {
+  const text = encodable(op.text || '', embedded.charset);
+  const width = embedded.font.widthOfTextAtSize(text, op.size);
+  const x = op.anchor === 'middle' ? op.x - width / 2 : op.anchor === 'end' ? op.x - width : op.x;
+
+  page.drawText(text, { x, y: H - op.y, size: op.size, font: embedded.font, color });
+}
+
+/**
+ * Scale the image to cover its box (like object-fit: cover) and clip the overflow
+ */
+function paintImage(pdfLib: PdfLibModule, page: any, op: SceneOp, H: number, image: any) {
+  const scale = Math.max(op.w! / image.width, op.h! / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const top = op.y + (op.h! - height) / 2;
+
+  page.pushOperators(
+    pdfLib.pushGraphicsState(),
+    pdfLib.rectangle(op.x, H - op.y - op.h!, op.w!, op.h!),
+    pdfLib.clip(),
+    pdfLib.endPath()
+  );
+  page.drawImage(image, {
+    x: op.x + (op.w! - width) / 2,
+    y: H - top - height,
+    width,
+    height
+  });
+  page.pushOperators(pdfLib.popGraphicsState());
+}
@@ -0,0 +1,113 @@
+/**
+ * Admin List Moderation Queue - Edge Function
+ *
+ * Lists images quarantined by the moderation scan for review.
+ * Requires platform_admin or support_agent role.
+ *
+ * Query Parameters:
+ * - status: Filter by review status (pending, approved, rejected; default: pending)
+ * - source: Filter by image source (vision, reference)
+ * - user_id: Filter by user ID
+ * - date_from, date_to: Filter by created_at date range
+ * - sort_order: asc or desc (default: desc)
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 50, max: 200)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  initAdminContext,
+  parsePaginationParams,
+  parseFilterParams,
+  paginatedResponse,
+  handleAdminError,
+  applyDateFilter,
+  applySorting,
+  isValidUUID,
+  corsHeaders
+} from '../_shared/admin-utils.ts'
+
+declare const Deno: any;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: { ...corsHeaders, 'Access-Control-Allow-Methods': 'GET, OPTIONS' }
+    });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Initialize admin context
+    await initAdminContext(req, supabase, ['platform_admin', 'support_agent']);
+
+    const url = new URL(req.url);
+    const pagination = parsePaginationParams(url);
+    const filters = parseFilterParams(url);
+
+    const status = filters.status || 'pending';
+    const source = url.searchParams.get('source');
+    const userId = url.searchParams.get('user_id');
+
+    // Build query
+    let query = supabase
+      .from('image_moderation_queue')
+      .select('*', { count: 'exact' })
+      .eq('status', status);
+
+    if (source) {
+      query = query.eq('source', source);
+    }
+
+    // Apply user filter
+    if (userId) {
+      if (!isValidUUID(userId)) {
+        throw new Error('Invalid user_id format');
+      }
+      query = query.eq('user_id', userId);
+    }
+
+    // Apply date range filter
+    query = applyDateFilter(query, 'created_at', filters.dateFrom, filters.dateTo);
+
+    // Apply sorting
+    query = applySorting(query, 'created_at', filters.sortOrder, 'created_at');
+
+    // Apply pagination
+    query = query.range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+    const { data: items, count, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch moderation queue: ${error.message}`);
+    }
+
+    // The queue references auth.users, so attach profile names separately
+    const userIds = [...new Set((items || []).map((item: any) => item.user_id))];
+    let profilesById: Record<string, any> = {};
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, names, email')
+        .in('id', userIds);
+      profilesById = Object.fromEntries((profiles || []).map((p: any) => [p.id, p]));
+    }
+
+    const withUsers = (items || []).map((item: any) => ({
+      ...item,
+      user: profilesById[item.user_id] || null
+    }));
+
+    return paginatedResponse(withUsers, pagination, count || 0);
+
+  } catch (error) {
+    return handleAdminError(error);
+  }
+});
@@ -0,0 +1,127 @@
+/**
+ * Admin Review Moderation Item - Edge Function
+ *
+ * Allows platform admins to resolve a quarantined image:
+ * - approved: the flag was a false positive; the image can be printed again
+ * - rejected: the flag is confirmed; the image stays blocked from printing
+ *
+ * Request Body:
+ * - item_id: UUID of the image_moderation_queue row (required)
+ * - decision: 'approved' | 'rejected' (required)
+ * - notes: Review notes (required when rejecting)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  initAdminContext,
+  successResponse,
+  handleAdminError,
+  adminErrorResponse,
+  isValidUUID,
+  logAdminAction,
+  corsHeaders
+} from '../_shared/admin-utils.ts'
+
+declare const Deno: any;
+
+const VALID_DECISIONS = ['approved', 'rejected'];
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: { ...corsHeaders, 'Access-Control-Allow-Methods': 'POST, OPTIONS' }
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return adminErrorResponse('Method not allowed', 'METHOD_NOT_ALLOWED', 405);
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Initialize admin context - only platform_admin can resolve moderation items
+    const ctx = await initAdminContext(req, supabase, ['platform_admin']);
+
+    const { item_id, decision, notes } = ctx.body || {};
+
+    // Validate item_id
+    if (!item_id) {
+      return adminErrorResponse('item_id is required', 'MISSING_PARAM', 400);
+    }
+
+    if (!isValidUUID(item_id)) {
+      return adminErrorResponse('Invalid item_id format', 'INVALID_PARAM', 400);
+    }
+
+    if (!VALID_DECISIONS.includes(decision)) {
+      return adminErrorResponse(`decision must be one of: ${VALID_DECISIONS.join(', ')}`, 'INVALID_PARAM', 400);
+    }
+
+    if (decision === 'rejected' && !notes) {
+      return adminErrorResponse('notes are required when rejecting an image', 'MISSING_PARAM', 400);
+    }
+
+    // Get current queue item
+    const { data: item, error: fetchError } = await supabase
+      .from('image_moderation_queue')
+      .select('*')
+      .eq('id', item_id)
+      .single();
+
+    if (fetchError || !item) {
+      return adminErrorResponse('Moderation item not found', 'NOT_FOUND', 404);
+    }
+
+    const { data: updatedItem, error: updateError } = await supabase
+      .from('image_moderation_queue')
+      .update({
+        status: decision,
+        reviewed_by: ctx.authz.userId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes || null
+      })
+      .eq('id', item_id)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to update moderation item: ${updateError.message}`);
+    }
+
+    // Carry the decision over to the image itself
+    const table = item.source === 'vision' ? 'vision_boards' : 'reference_images';
+    const { error: imageError } = await supabase
+      .from(table)
+      .update({ moderation_status: decision })
+      .eq('id', item.image_id);
+
+    if (imageError) {
+      throw new Error(`Failed to update image status: ${imageError.message}`);
+    }
+
+    // Log the admin action
+    await logAdminAction(
+      ctx,
+      decision === 'approved' ? 'admin.moderation.approve' : 'admin.moderation.reject',
+      table,
+      item.image_id,
+      `Admin ${decision} flagged ${item.source} image (${(item.categories || []).join(', ') || 'classifier error'})${notes ? ` Notes: ${notes}` : ''}`,
+      {
+        oldValues: { status: item.status },
+        newValues: { status: decision }
+      }
+    );
+
+    return successResponse({ item: updatedItem });
+
+  } catch (error) {
+    return handleAdminError(error);
+  }
+});
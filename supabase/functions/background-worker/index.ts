@@ -1,5 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+    IMAGE_JOB_STAGES,
+    ImageJobStage,
+    bytesToDataUrl,
+    dataUrlToBytes,
+    getImageExtension,
+    getMaxAttempts,
+    getRetryDelayMs,
+    getRetryStage,
+    getStoredImageRecord,
+    getVisionsStoragePath,
+    isOwnJobInput,
+    isTransientImageError
+} from '../_shared/image-jobs.ts'
+import { moderateImage, recordModeration } from '../_shared/image-moderation.ts'
+import { exportWorkbookPdf } from '../_shared/workbook-export.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -12,10 +28,9 @@ serve(async (req) => {
     }
 
     try {
-        const supabase = createClient(
-            Deno.env.get('SUPABASE_URL') ?? '',
-            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-        )
+        const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? ''
+        const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
         const { jobId } = await req.json()
 
@@ -34,11 +49,30 @@ serve(async (req) => {
             throw new Error(`Job not found: ${fetchError?.message}`)
         }
 
-        // 2. Update Status to Processing
-        await supabase
+        // Users may only start their own jobs; other functions call with the service role key
+        const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+        if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+            const { data: { user } } = await supabase.auth.getUser(token)
+            if (!user || user.id !== job.user_id) {
+                throw new Error('Unauthorized')
+            }
+        }
+
+        // 2. Claim the job so a second trigger doesn't run it twice
+        const { data: claimed } = await supabase
             .from('jobs')
-            .update({ status: 'processing' })
+            .update({ status: 'processing', started_at: new Date().toISOString() })
             .eq('id', jobId)
+            .eq('status', 'pending')
+            .select('id')
+            .maybeSingle()
+
+        if (!claimed) {
+            return new Response(
+                JSON.stringify({ success: true, jobId, skipped: `Job is already ${job.status}` }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
 
         let result = {}
 
@@ -46,13 +80,10 @@ serve(async (req) => {
         try {
             switch (job.type) {
                 case 'pdf_export':
-                    result = await handlePdfExport(job.payload)
+                    result = await handlePdfExport(supabase, job, SUPABASE_URL)
                     break
                 case 'image_generation':
-                    // Placeholder for async image generation
-                    // In a real scenario, this might call the AI model and upload to storage
-                    await new Promise(resolve => setTimeout(resolve, 3000)) // Simulate work
-                    result = { url: 'https://placehold.co/600x400', prompt: job.payload.prompt }
+                    result = await handleImageGeneration(supabase, job, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
                     break
                 default:
                     throw new Error(`Unknown job type: ${job.type}`)
@@ -63,7 +94,9 @@ serve(async (req) => {
                 .from('jobs')
                 .update({
                     status: 'completed',
-                    result: result
+                    result: result,
+                    progress: 100,
+                    completed_at: new Date().toISOString()
                 })
                 .eq('id', jobId)
 
@@ -74,7 +107,8 @@ serve(async (req) => {
                 .from('jobs')
                 .update({
                     status: 'failed',
-                    error: processError.message
+                    error: processError.message,
+                    completed_at: new Date().toISOString()
                 })
                 .eq('id', jobId)
         }
@@ -92,12 +126,271 @@ serve(async (req) => {
     }
 })
 
-// Mock Handlers
-async function handlePdfExport(payload: any) {
-    // Simulate PDF generation delay
-    await new Promise(resolve => setTimeout(resolve, 2000))
+/**
+ * Generate a vision image through gemini-proxy's model fallback chain,
+ * retrying transient failures, then save it to the user's gallery. A FREE
+ * user's credit is reserved up front and refunded if the job fails, so
+ * nothing is charged unless the image is saved.
+ */
+async function handleImageGeneration(
+    supabase: SupabaseClient,
+    job: any,
+    supabaseUrl: string,
+    serviceKey: string
+) {
+    try {
+        const { error: reserveError } = await supabase.rpc('reserve_job_credit', { p_job_id: job.id })
+        if (reserveError) throw new Error(reserveError.message)
+
+        try {
+            return await generateAndSaveImage(supabase, job, supabaseUrl, serviceKey)
+        } catch (error) {
+            const { error: refundError } = await supabase.rpc('refund_job_credit', { p_job_id: job.id })
+            if (refundError) console.error(`Job ${job.id}: credit refund failed`, refundError)
+            throw error
+        }
+    } finally {
+        // Photos the client uploaded only for this job, kept until the last retry
+        await removeJobInputs(supabase, job.user_id, job.payload?.uploadedInputs)
+    }
+}
+
+async function generateAndSaveImage(
+    supabase: SupabaseClient,
+    job: any,
+    supabaseUrl: string,
+    serviceKey: string
+) {
+    const payload = job.payload || {}
+    // The row is client-written, so its max_attempts is only a request
+    const maxAttempts = getMaxAttempts(job.max_attempts)
+
+    // Inputs arrive as storage URLs (the client uploads photos first to keep
+    // the job row small); the proxy expects data URLs
+    await setProgress(supabase, job.id, IMAGE_JOB_STAGES.preparing)
+    const toDataUrl = (image: string) => loadInputImage(supabase, job.user_id, supabaseUrl, image)
+    const images = await Promise.all((payload.images || []).map(toDataUrl))
+    const identityAnchorImage = payload.identityAnchorImage ? await toDataUrl(payload.identityAnchorImage) : undefined
+
+    let generated: any = null
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        await supabase.from('jobs').update({ attempts: attempt }).eq('id', job.id)
+        await setProgress(supabase, job.id, IMAGE_JOB_STAGES.generating)
+
+        try {
+            const response = await fetch(`${supabaseUrl}/functions/v1/gemini-proxy`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${serviceKey}`
+                },
+                body: JSON.stringify({
+                    action: 'generate_image',
+                    user_id: job.user_id,
+                    images,
+                    prompt: payload.prompt,
+                    embeddedText: payload.embeddedText,
+                    titleText: payload.titleText,
+                    style: payload.style,
+                    aspectRatio: payload.aspectRatio,
+                    identityPrompt: payload.identityPrompt,
+                    referenceImageTags: payload.referenceImageTags || [],
+                    identityAnchorImage,
+                    requestType: payload.requestType || 'AUTO'
+                })
+            })
+
+            if (!response.ok) {
+                throw new Error(`gemini-proxy returned ${response.status}`)
+            }
+
+            const data = await response.json()
+            if (!data.success || !data.image) {
+                throw new Error(data.error || 'Generation failed')
+            }
+
+            generated = data
+            break
+        } catch (error: any) {
+            const message = error.message || String(error)
+            if (attempt >= maxAttempts || !isTransientImageError(message)) {
+                throw error
+            }
+            console.warn(`Job ${job.id} attempt ${attempt} failed, retrying: ${message}`)
+            await setProgress(supabase, job.id, getRetryStage(attempt + 1, maxAttempts))
+            await new Promise(resolve => setTimeout(resolve, getRetryDelayMs(attempt)))
+        }
+    }
+
+    // Save to the gallery like saveVisionImage, minus the resized variants:
+    // Deno has no canvas, so the client adds those when the job completes
+    await setProgress(supabase, job.id, IMAGE_JOB_STAGES.saving)
+    const imageId = crypto.randomUUID()
+    const { bytes, mimeType } = dataUrlToBytes(generated.image)
+    const fileName = `${imageId}.${getImageExtension(mimeType)}`
+
+    const { error: uploadError } = await supabase
+        .storage
+        .from('visions')
+        .upload(fileName, bytes, { contentType: mimeType, upsert: true })
+
+    if (uploadError) throw uploadError
+
+    const { data: { publicUrl } } = supabase
+        .storage
+        .from('visions')
+        .getPublicUrl(fileName)
+
+    const savedPrompt = payload.savePrompt || payload.prompt || 'Vision Board Image'
+    const { data: saved, error: dbError } = await supabase
+        .from('vision_boards')
+        .insert([{
+            id: imageId,
+            user_id: job.user_id,
+            prompt: savedPrompt,
+            image_url: publicUrl,
+            is_favorite: true,
+            // Lineage root is inherited from the parent by a trigger
+            parent_image_id: payload.parentImageId || null,
+            style: payload.style || null,
+            model_used: generated.model_used || null,
+            reference_image_ids: payload.referenceImageIds?.length ? payload.referenceImageIds : null,
+            likeness_optimized: generated.likeness_optimized || false,
+            likeness_metadata: generated.likeness_score != null ? { likeness_score: generated.likeness_score } : {}
+        }])
+        .select('parent_image_id, lineage_root_id')
+        .single()
+
+    if (dbError) throw dbError
+
+    // Scan before the image can reach a print order; flagged images go to the review queue
+    let moderationStatus = 'pending'
+    try {
+        const moderation = await moderateImage({
+            source: 'vision',
+            imageUrl: publicUrl,
+            prompt: payload.prompt,
+            likenessTags: payload.referenceImageTags || [],
+            likenessDescriptions: payload.identityPrompt ? [payload.identityPrompt] : []
+        })
+        moderationStatus = await recordModeration(
+            supabase,
+            { source: 'vision', imageId, userId: job.user_id, imageUrl: publicUrl },
+            moderation
+        )
+    } catch (error) {
+        // The image stays pending, and pending images are scanned again before printing
+        console.error(`Job ${job.id}: moderation failed`, error)
+    }
+
+    await setProgress(supabase, job.id, IMAGE_JOB_STAGES.done)
+
+    return {
+        imageId,
+        url: publicUrl,
+        prompt: savedPrompt,
+        parent_image_id: saved?.parent_image_id ?? null,
+        lineage_root_id: saved?.lineage_root_id ?? imageId,
+        moderation_status: moderationStatus,
+        model_used: generated.model_used,
+        likeness_optimized: generated.likeness_optimized,
+        likeness_score: generated.likeness_score,
+        strategy_used: generated.strategy_used,
+        request_mode: generated.request_mode,
+        identity_anchor_used: generated.identity_anchor_used,
+        was_retried: generated.was_retried,
+        warning: generated.warning
+    }
+}
+
+async function setProgress(supabase: SupabaseClient, jobId: string, stage: ImageJobStage) {
+    await supabase
+        .from('jobs')
+        .update({ progress: stage.progress, progress_message: stage.message })
+        .eq('id', jobId)
+}
+
+/**
+ * Read an input image as a data URL. URLs are only followed into the
+ * visions bucket, and only to the user's own job uploads, gallery images
+ * and reference photos; the worker never fetches arbitrary addresses.
+ */
+async function loadInputImage(
+    supabase: SupabaseClient,
+    userId: string,
+    supabaseUrl: string,
+    image: string
+): Promise<string> {
+    if (image.startsWith('data:')) return image
+
+    const path = getVisionsStoragePath(image, supabaseUrl)
+    if (!path || !(await ownsStoredImage(supabase, userId, path))) {
+        throw new Error('Input images must be your own uploads')
+    }
+
+    const { data, error } = await supabase.storage.from('visions').download(path)
+    if (error || !data) throw new Error(`Failed to fetch input image: ${error?.message}`)
+    return bytesToDataUrl(new Uint8Array(await data.arrayBuffer()), data.type || 'image/png')
+}
+
+async function ownsStoredImage(supabase: SupabaseClient, userId: string, path: string): Promise<boolean> {
+    if (isOwnJobInput(path, userId)) return true
+
+    const record = getStoredImageRecord(path)
+    if (!record) return false
+
+    const { data } = await supabase
+        .from(record.table)
+        .select('id')
+        .eq('id', record.id)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+    return !!data
+}
+
+async function removeJobInputs(supabase: SupabaseClient, userId: string, paths?: string[]) {
+    // The payload is client-written; only delete this user's job uploads
+    const owned = (paths || []).filter(path => typeof path === 'string' && isOwnJobInput(path, userId))
+    if (!owned.length) return
+    const { error } = await supabase.storage.from('visions').remove(owned)
+    if (error) console.warn('Failed to remove job inputs:', error.message)
+}
+
+/**
+ * Render a workbook order's stored pages to its print PDF. This is the
+ * file Prodigi gets, so a download from here matches the printed book.
+ * The download URL is signed and short-lived; submit-to-prodigi signs a
+ * fresh one for printing.
+ */
+async function handlePdfExport(supabase: SupabaseClient, job: any, supabaseUrl: string) {
+    const orderId = job.payload?.orderId
+    if (!orderId) throw new Error('orderId is required')
+
+    const { data: order } = await supabase
+        .from('workbook_orders')
+        .select('id, theme_pack, customization_data')
+        .eq('id', orderId)
+        .eq('user_id', job.user_id)
+        .maybeSingle()
+
+    if (!order) throw new Error('Workbook order not found')
+
+    const pages = order.customization_data?.workbook_pages
+    if (!Array.isArray(pages) || pages.length === 0) {
+        throw new Error('Workbook order has no pages to render')
+    }
+
+    const theme = order.theme_pack || order.customization_data?.theme_pack || 'executive'
+    const exported = await exportWorkbookPdf(supabase, supabaseUrl, orderId, pages, theme)
+
+    await supabase
+        .from('workbook_orders')
+        .update({ merged_pdf_url: exported.url })
+        .eq('id', orderId)
+
     return {
-        downloadUrl: `https://example.com/download/${crypto.randomUUID()}.pdf`,
-        pageCount: payload.pages || 10
+        downloadUrl: exported.url,
+        pageCount: exported.pageCount
     }
 }
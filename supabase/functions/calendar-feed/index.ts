@@ -0,0 +1,317 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTodayInTimezone, resolveTimezone } from '../_shared/habit-schedule.ts'
+import { buildPlanCalendar } from '../_shared/ical-feed.ts'
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Past reminders and check-ins kept in the feed so recent history stays visible
+const HISTORY_DAYS = 30
+
+/**
+ * Calendar Feed
+ *
+ * iCalendar export of the user's plan: task due dates, milestone years,
+ * scheduled habit reminders, goal check-ins and the weekly review.
+ *
+ * Calendar clients cannot send a Supabase JWT, so the subscription URL is
+ * protected by a per-user token from calendar_feed_tokens instead
+ * (verify_jwt is off for this function; every other action checks the
+ * Authorization header itself).
+ *
+ * Actions:
+ * - feed (GET ?token=...): The subscription feed as text/calendar
+ * - status: Current subscription URL, if the feed is enabled
+ * - rotate: Issue a new token (enables the feed; old URLs stop working)
+ * - disable: Delete the token so the feed URL stops working
+ * - export: One-off .ics file for download
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: { ...corsHeaders, 'Access-Control-Allow-Methods': 'POST, GET, OPTIONS' }
+    })
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const url = new URL(req.url)
+  const feedToken = url.searchParams.get('token')
+
+  // Subscription fetches from calendar clients
+  if (feedToken) {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    return await serveFeed(supabase, feedToken)
+  }
+
+  try {
+    const action = url.searchParams.get('action') || 'status'
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid or expired authentication token')
+    }
+
+    // calendar_feed_tokens is read-only to users; token writes go through
+    // the service role once the caller is verified
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+    switch (action) {
+      case 'status':
+        return await handleStatus(supabase, user.id, SUPABASE_URL)
+      case 'rotate':
+        return await handleRotate(supabaseAdmin, user.id, SUPABASE_URL)
+      case 'disable':
+        return await handleDisable(supabaseAdmin, user.id)
+      case 'export':
+        return await handleExport(supabase, user.id)
+      default:
+        throw new Error(`Unknown action: ${action}. Valid actions: status, rotate, disable, export`)
+    }
+
+  } catch (error: any) {
+    console.error('Calendar feed error:', error.message)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
+
+/**
+ * Serve the subscription feed for a token
+ */
+async function serveFeed(supabase: any, token: string) {
+  try {
+    const { data: feed } = await supabase
+      .from('calendar_feed_tokens')
+      .select('id, user_id')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (!feed) {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders })
+    }
+
+    const { calendar } = await buildUserCalendar(supabase, feed.user_id)
+
+    await supabase
+      .from('calendar_feed_tokens')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id)
+
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=900'
+      }
+    })
+  } catch (error: any) {
+    console.error('Calendar feed error:', error.message)
+    return new Response('Failed to build calendar feed', { status: 500, headers: corsHeaders })
+  }
+}
+
+/**
+ * Current subscription URL and last fetch time, if the feed is enabled
+ */
+async function handleStatus(supabase: any, userId: string, supabaseUrl: string) {
+  const { data: feed, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('token, last_accessed_at, created_at')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load calendar feed: ${error.message}`)
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      enabled: !!feed,
+      feed_url: feed ? getFeedUrl(supabaseUrl, feed.token) : null,
+      last_accessed_at: feed?.last_accessed_at || null,
+      created_at: feed?.created_at || null
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Issue a new feed token, replacing any existing one
+ */
+async function handleRotate(supabaseAdmin: any, userId: string, supabaseUrl: string) {
+  const token = generateFeedToken()
+
+  const { data: feed, error } = await supabaseAdmin
+    .from('calendar_feed_tokens')
+    .upsert({
+      user_id: userId,
+      token,
+      last_accessed_at: null,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select('created_at')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create calendar feed: ${error.message}`)
+  }
+
+  console.log(`Rotated calendar feed token for user ${userId}`)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      enabled: true,
+      feed_url: getFeedUrl(supabaseUrl, token),
+      last_accessed_at: null,
+      created_at: feed.created_at
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Delete the user's feed token
+ */
+async function handleDisable(supabaseAdmin: any, userId: string) {
+  const { error } = await supabaseAdmin
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to disable calendar feed: ${error.message}`)
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, enabled: false, feed_url: null, last_accessed_at: null, created_at: null }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * One-off .ics file of the current plan
+ */
+async function handleExport(supabase: any, userId: string) {
+  const { calendar, today } = await buildUserCalendar(supabase, userId)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      filename: `visionary-plan-${today}.ics`,
+      content: calendar
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Load the user's plan and reminders and build the calendar
+ */
+async function buildUserCalendar(supabase: any, userId: string) {
+  const { data: prefs } = await supabase
+    .from('user_comm_preferences')
+    .select('timezone, weekly_review_day, weekly_review_time')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const timezone = resolveTimezone(prefs?.timezone)
+  const now = new Date()
+  const today = getTodayInTimezone(timezone, now)
+  const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const [tasks, habitReminders, goalCheckins] = await Promise.all([
+    getPlanTasks(supabase, userId),
+    supabase
+      .from('scheduled_habit_reminders')
+      .select('id, habit_name, scheduled_for, reminder_message, status, snoozed_until')
+      .eq('user_id', userId)
+      .gte('scheduled_for', since)
+      .order('scheduled_for'),
+    supabase
+      .from('scheduled_goal_checkins')
+      .select('id, goal_title, scheduled_for, checkin_message, status')
+      .eq('user_id', userId)
+      .gte('scheduled_for', since)
+      .order('scheduled_for')
+  ])
+
+  const calendar = buildPlanCalendar({
+    userId,
+    tasks,
+    habitReminders: habitReminders.data || [],
+    goalCheckins: goalCheckins.data || [],
+    weeklyReview: prefs ? { ...prefs, timezone } : null,
+    today,
+    now
+  })
+
+  return { calendar, today }
+}
+
+/**
+ * Tasks in the user's active plan (plus tasks not tied to any plan).
+ * Skipped rows are included so recurring series can exclude those dates.
+ */
+async function getPlanTasks(supabase: any, userId: string) {
+  const { data: activePlan } = await supabase
+    .from('goal_plans')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  let query = supabase
+    .from('action_tasks')
+    .select('id, title, description, due_date, is_completed, milestone_year, priority, recurrence_rule, recurrence_anchor, recurrence_series_id, skipped_at')
+    .eq('user_id', userId)
+
+  query = activePlan
+    ? query.or(`plan_id.is.null,plan_id.eq.${activePlan.id}`)
+    : query.is('plan_id', null)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load tasks: ${error.message}`)
+  }
+
+  return data || []
+}
+
+function getFeedUrl(supabaseUrl: string, token: string): string {
+  return `${supabaseUrl}/functions/v1/calendar-feed?token=${token}`
+}
+
+/**
+ * 32 random bytes, hex encoded
+ */
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
@@ -1,5 +1,12 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import {
+  attachStreakProtection,
+  calculateCurrentStreak,
+  getTodayInTimezone,
+  getUserTimezone,
+  isStreakMilestone
+} from '../_shared/habit-schedule.ts'
 
 declare const Deno: any
 
@@ -23,6 +30,11 @@ const corsHeaders = {
  * - 365 days (1 year)
  *
  * Usage: Call after habit completion with { habitId, userId, newStreak }
+ *
+ * The streak is recomputed with the shared habit schedule engine in the
+ * user's timezone (including vacation pauses, streak freezes and grace
+ * days), so a stale or mismatched newStreak cannot trigger a celebration
+ * on its own.
  */
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -48,32 +60,51 @@ serve(async (req) => {
       )
     }
 
-    // Check if this is a milestone streak
-    const milestones = [7, 14, 21, 30, 60, 90, 100, 180, 365]
-    const isMilestone = milestones.includes(newStreak)
+    // Get habit details
+    const { data: habitRow, error: habitError } = await supabase
+      .from('habits')
+      .select('id, title, description, frequency, custom_days, weekly_target, target_value, target_period, unit, grace_days, created_at')
+      .eq('id', habitId)
+      .eq('user_id', userId)
+      .single()
+
+    if (habitError || !habitRow) {
+      throw new Error('Habit not found')
+    }
+
+    // Recompute the streak in the user's timezone, honoring pauses,
+    // streak freezes and the habit's grace window
+    const [habit] = await attachStreakProtection(supabase, [habitRow])
+    const timezone = await getUserTimezone(supabase, userId)
+    const { data: completions } = await supabase
+      .from('habit_completions')
+      .select('completed_at, value')
+      .eq('habit_id', habitId)
+      .order('completed_at', { ascending: false })
+
+    const streak = calculateCurrentStreak(
+      habit,
+      completions || [],
+      getTodayInTimezone(timezone),
+      timezone
+    )
+
+    if (streak !== newStreak) {
+      console.warn(`Streak mismatch for habit ${habitId}: caller sent ${newStreak}, computed ${streak}`)
+    }
 
-    if (!isMilestone) {
+    // Check if this is a milestone streak
+    if (!isStreakMilestone(streak)) {
       return new Response(
         JSON.stringify({
           success: true,
           celebrated: false,
-          message: `Streak of ${newStreak} is not a milestone`
+          message: `Streak of ${streak} is not a milestone`
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Get habit details
-    const { data: habit, error: habitError } = await supabase
-      .from('habits')
-      .select('title, description')
-      .eq('id', habitId)
-      .single()
-
-    if (habitError || !habit) {
-      throw new Error('Habit not found')
-    }
-
     // Get user details
     const { data: profile } = await supabase
       .from('profiles')
@@ -112,7 +143,7 @@ serve(async (req) => {
     }
 
     // Generate celebration message based on milestone
-    const message = generateCelebrationMessage(firstName, habit.title, newStreak)
+    const message = generateCelebrationMessage(firstName, habit.title, streak)
 
     // Log the celebration
     const { data: celebration, error: celebrationError } = await supabase
@@ -120,7 +151,7 @@ serve(async (req) => {
       .insert({
         user_id: userId,
         habit_id: habitId,
-        streak_count: newStreak,
+        streak_count: streak,
         message: message,
         celebrated_at: new Date().toISOString()
       })
@@ -157,7 +188,7 @@ serve(async (req) => {
 
         if (twilioResponse.ok) {
           notificationSent = true
-          console.log(`Celebration SMS sent for ${newStreak}-day streak on "${habit.title}"`)
+          console.log(`Celebration SMS sent for ${streak}-day streak on "${habit.title}"`)
         } else {
           const errorData = await twilioResponse.json()
           console.error('Twilio SMS error:', errorData)
@@ -179,7 +210,7 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         celebrated: true,
-        milestone: newStreak,
+        milestone: streak,
         habitTitle: habit.title,
         message: message,
         notificationSent: notificationSent,
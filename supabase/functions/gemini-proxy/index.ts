@@ -131,10 +131,14 @@ serve(async (req) => {
       global: { headers: { Authorization: authHeader } }
     })
 
-    // Verify user authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
+    // Internal callers (background-worker image jobs) use the service role key
+    // and act for the job's user
+    const token = authHeader.replace('Bearer ', '')
+    const isServiceCall = token === SUPABASE_SERVICE_ROLE_KEY && !!params.user_id
+    const { data: { user }, error: authError } = isServiceCall
+      ? { data: { user: { id: params.user_id as string } }, error: null }
+      : await supabase.auth.getUser(token)
+    delete params.user_id
 
     if (authError || !user) {
       console.error(`[${requestId}] Auth error:`, authError?.message)
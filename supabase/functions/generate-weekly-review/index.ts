@@ -1,8 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  addDays,
+  attachStreakProtection,
+  getTodayInTimezone,
+  getUserTimezone,
+  getWeekStart,
+  summarizeCompletions
+} from '../_shared/habit-schedule.ts'
+import {
+  buildHabitAnalytics,
+  buildMoodByDate,
+  describeHabitPatterns
+} from '../_shared/habit-analytics.ts'
 
 declare const Deno: any;
 
+// Habit patterns (weekdays, time of day, mood) look back this far
+const PATTERN_LOOKBACK_DAYS = 90
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -17,6 +33,7 @@ const corsHeaders = {
  * - Wins and blockers identification
  * - AI-generated insights and recommendations
  * - Mood trend analysis
+ * - Habit patterns: weakest weekdays, time of day and mood correlation
  *
  * Actions:
  * - generate: Generate review for current or specified week
@@ -107,8 +124,9 @@ async function generateWeeklyReview(
 ) {
   const { weekStart: customWeekStart, notify = true } = body
 
-  // Calculate week range
-  const { weekStart, weekEnd } = getWeekRange(customWeekStart)
+  // Calculate week range in the user's timezone
+  const timezone = await getUserTimezone(supabase, userId)
+  const { weekStart, weekEnd } = getWeekRange(timezone, customWeekStart)
 
   console.log(`Generating weekly review for user ${userId}: ${weekStart} to ${weekEnd}`)
 
@@ -136,7 +154,7 @@ async function generateWeeklyReview(
     supabase.from('habits').select('*').eq('user_id', userId).eq('is_active', true),
     // Habit completions for the week
     supabase.from('habit_completions')
-      .select('habit_id, completed_at, mood_rating, notes')
+      .select('habit_id, completed_at, value, mood_rating, notes')
       .gte('completed_at', weekStart)
       .lte('completed_at', weekEnd)
       .in('habit_id', await getHabitIds(supabase, userId)),
@@ -151,14 +169,15 @@ async function generateWeeklyReview(
     supabase.from('user_knowledge_base').select('*').eq('user_id', userId).single()
   ])
 
-  const habits = habitsData.data || []
+  // Paused (vacation) days count as neither missed nor completed
+  const habits = await attachStreakProtection(supabase, habitsData.data)
   const completions = completionsData.data || []
   const tasks = tasksData.data || []
   const profile = profileData.data || {}
   const knowledgeBase = knowledgeBaseData.data || {}
 
   // Calculate habit completion rate
-  const habitCompletionRate = calculateHabitCompletionRate(habits, completions, weekStart, weekEnd)
+  const habitCompletionRate = calculateHabitCompletionRate(habits, completions, weekStart, weekEnd, timezone)
 
   // Count tasks
   const tasksCompleted = tasks.filter((t: any) => t.status === 'completed').length
@@ -172,11 +191,14 @@ async function generateWeeklyReview(
     ? Math.round(moodRatings.reduce((a: number, b: number) => a + b, 0) / moodRatings.length * 10) / 10
     : null
 
+  // Longer-term habit patterns (weekdays, time of day, mood)
+  const patterns = await identifyHabitPatterns(supabase, habits, weekEnd, timezone)
+
   // Identify wins
-  const wins = identifyWins(habits, completions, tasks, knowledgeBase)
+  const wins = identifyWins(habits, completions, tasks, knowledgeBase, weekStart, weekEnd, timezone)
 
   // Identify blockers
-  const blockers = identifyBlockers(habits, completions, tasks, weekStart, weekEnd)
+  const blockers = identifyBlockers(habits, completions, tasks, weekStart, weekEnd, timezone)
 
   // Generate AI insights
   let aiInsights = ''
@@ -193,12 +215,13 @@ async function generateWeeklyReview(
       blockers,
       habitCompletionRate,
       moodAverage,
-      knowledgeBase
+      knowledgeBase,
+      patterns
     )
     aiInsights = aiResult.insights
     nextSteps = aiResult.nextSteps
   } else {
-    aiInsights = generateFallbackInsights(wins, blockers, habitCompletionRate, tasksCompleted)
+    aiInsights = generateFallbackInsights(wins, blockers, habitCompletionRate, tasksCompleted, patterns)
     nextSteps = generateFallbackNextSteps(blockers, habits, tasks)
   }
 
@@ -259,7 +282,8 @@ async function generateWeeklyReview(
  * Get existing weekly review
  */
 async function getWeeklyReview(supabase: any, userId: string, params: URLSearchParams) {
-  const weekStart = params.get('weekStart') || getWeekRange().weekStart
+  const weekStart = params.get('weekStart') ||
+    getWeekRange(await getUserTimezone(supabase, userId)).weekStart
 
   const { data, error } = await supabase
     .from('weekly_reviews')
@@ -373,28 +397,64 @@ async function getHabitIds(supabase: any, userId: string): Promise<string[]> {
   return data?.map((h: any) => h.id) || []
 }
 
-function getWeekRange(customStart?: string): { weekStart: string; weekEnd: string } {
-  let startDate: Date
+/**
+ * Plain-language habit patterns over the weeks leading up to weekEnd,
+ * strongest signals first
+ */
+async function identifyHabitPatterns(
+  supabase: any,
+  habits: any[],
+  weekEnd: string,
+  timezone: string
+): Promise<string[]> {
+  if (habits.length === 0) return []
 
-  if (customStart) {
-    startDate = new Date(customStart)
-  } else {
-    // Get previous week's Monday
-    const now = new Date()
-    const dayOfWeek = now.getDay()
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1
-    startDate = new Date(now)
-    startDate.setDate(now.getDate() - daysToMonday - 7) // Previous week's Monday
-  }
+  const startDate = addDays(weekEnd, -(PATTERN_LOOKBACK_DAYS - 1))
+  const { data, error } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_at, value, mood_rating, created_at, is_backfilled')
+    .in('habit_id', habits.map((h: any) => h.id))
+    .gte('completed_at', startDate)
+    .lte('completed_at', weekEnd)
 
-  startDate.setHours(0, 0, 0, 0)
+  if (error) {
+    console.error('Failed to load habit history for patterns:', error)
+    return []
+  }
+
+  const completions = data || []
+  const moodByDate = buildMoodByDate(completions, timezone)
+  const patterns: string[][] = habits.map((habit: any) => {
+    const analytics = buildHabitAnalytics(
+      habit,
+      completions.filter((c: any) => c.habit_id === habit.id),
+      moodByDate,
+      weekEnd,
+      timezone,
+      PATTERN_LOOKBACK_DAYS
+    )
+    return describeHabitPatterns(habit.title, analytics)
+  })
+
+  // Take each habit's strongest pattern before anyone's second
+  const ordered: string[] = []
+  for (let rank = 0; ordered.length < 3 && patterns.some(p => p.length > rank); rank++) {
+    for (const habitPatterns of patterns) {
+      if (habitPatterns[rank] && ordered.length < 3) ordered.push(habitPatterns[rank])
+    }
+  }
+  return ordered
+}
 
-  const endDate = new Date(startDate)
-  endDate.setDate(startDate.getDate() + 6)
+function getWeekRange(timezone: string, customStart?: string): { weekStart: string; weekEnd: string } {
+  // Custom start date, or the previous week's Monday in the user's timezone
+  const weekStart = customStart
+    ? customStart.split('T')[0]
+    : addDays(getWeekStart(getTodayInTimezone(timezone)), -7)
 
   return {
-    weekStart: startDate.toISOString().split('T')[0],
-    weekEnd: endDate.toISOString().split('T')[0]
+    weekStart,
+    weekEnd: addDays(weekStart, 6)
   }
 }
 
@@ -407,7 +467,8 @@ function calculateHabitCompletionRate(
   habits: any[],
   completions: any[],
   weekStart: string,
-  weekEnd: string
+  weekEnd: string,
+  timezone: string
 ): number {
   if (habits.length === 0) return 0
 
@@ -415,30 +476,35 @@ function calculateHabitCompletionRate(
   let totalCompleted = 0
 
   for (const habit of habits) {
-    const expectedDays = getExpectedDaysInWeek(habit.frequency)
-    totalExpected += expectedDays
-
-    const habitCompletions = completions.filter((c: any) => c.habit_id === habit.id)
-    totalCompleted += Math.min(habitCompletions.length, expectedDays)
+    const summary = summarizeHabitWeek(habit, completions, weekStart, weekEnd, timezone)
+    totalExpected += summary.expected
+    totalCompleted += summary.completed
   }
 
   return totalExpected > 0 ? Math.round((totalCompleted / totalExpected) * 100) : 0
 }
 
-function getExpectedDaysInWeek(frequency: string): number {
-  switch (frequency) {
-    case 'daily': return 7
-    case 'weekdays': return 5
-    case 'weekly': return 1
-    default: return 7
-  }
+function summarizeHabitWeek(
+  habit: any,
+  completions: any[],
+  weekStart: string,
+  weekEnd: string,
+  timezone: string
+) {
+  // Measurable habits earn partial credit from each day's logged value
+  const habitCompletions = completions.filter((c: any) => c.habit_id === habit.id)
+
+  return summarizeCompletions(habit, habitCompletions, weekStart, weekEnd, timezone)
 }
 
 function identifyWins(
   habits: any[],
   completions: any[],
   tasks: any[],
-  knowledgeBase: any
+  knowledgeBase: any,
+  weekStart: string,
+  weekEnd: string,
+  timezone: string
 ): any[] {
   const wins: any[] = []
 
@@ -453,16 +519,9 @@ function identifyWins(
   }
 
   // High habit completion
-  const habitGroups = new Map<string, number>()
-  for (const completion of completions) {
-    const count = habitGroups.get(completion.habit_id) || 0
-    habitGroups.set(completion.habit_id, count + 1)
-  }
-
   for (const habit of habits) {
-    const count = habitGroups.get(habit.id) || 0
-    const expected = getExpectedDaysInWeek(habit.frequency)
-    if (count >= expected) {
+    const { expected, completed } = summarizeHabitWeek(habit, completions, weekStart, weekEnd, timezone)
+    if (expected > 0 && completed >= expected) {
       wins.push({
         type: 'habit_streak',
         title: `${habit.title} - 100% completion`,
@@ -487,21 +546,16 @@ function identifyBlockers(
   completions: any[],
   tasks: any[],
   weekStart: string,
-  weekEnd: string
+  weekEnd: string,
+  timezone: string
 ): any[] {
   const blockers: any[] = []
 
   // Missed habits
-  const habitGroups = new Map<string, number>()
-  for (const completion of completions) {
-    const count = habitGroups.get(completion.habit_id) || 0
-    habitGroups.set(completion.habit_id, count + 1)
-  }
-
   for (const habit of habits) {
-    const count = habitGroups.get(habit.id) || 0
-    const expected = getExpectedDaysInWeek(habit.frequency)
-    const completionRate = count / expected
+    const { expected, completed } = summarizeHabitWeek(habit, completions, weekStart, weekEnd, timezone)
+    if (expected === 0) continue
+    const completionRate = completed / expected
 
     if (completionRate < 0.5) {
       blockers.push({
@@ -542,7 +596,8 @@ async function generateAIInsights(
   blockers: any[],
   habitCompletionRate: number,
   moodAverage: number | null,
-  knowledgeBase: any
+  knowledgeBase: any,
+  patterns: string[]
 ): Promise<{ insights: string; nextSteps: string[] }> {
   const userName = profile.full_name || profile.email?.split('@')[0] || 'there'
 
@@ -564,9 +619,12 @@ ${wins.map(w => `- ${w.title}`).join('\n') || '- No specific wins recorded'}
 BLOCKERS:
 ${blockers.map(b => `- ${b.title} (${b.severity || 'medium'} priority)`).join('\n') || '- No blockers identified'}
 
+HABIT PATTERNS (last ${PATTERN_LOOKBACK_DAYS} days):
+${patterns.map(p => `- ${p}`).join('\n') || '- Not enough history yet'}
+
 Write a 2-3 paragraph personalized weekly review that:
 1. Celebrates their wins genuinely
-2. Addresses blockers with empathy and practical suggestions
+2. Addresses blockers with empathy and practical suggestions, using the habit patterns where relevant
 3. Connects progress to their dream retirement vision
 4. Ends with motivation for next week
 
@@ -615,7 +673,7 @@ Format response as JSON:
   } catch (error) {
     console.error('AI insights error:', error)
     return {
-      insights: generateFallbackInsights(wins, blockers, habitCompletionRate, tasks.filter((t: any) => t.status === 'completed').length),
+      insights: generateFallbackInsights(wins, blockers, habitCompletionRate, tasks.filter((t: any) => t.status === 'completed').length, patterns),
       nextSteps: generateFallbackNextSteps(blockers, habits, tasks)
     }
   }
@@ -625,7 +683,8 @@ function generateFallbackInsights(
   wins: any[],
   blockers: any[],
   habitCompletionRate: number,
-  tasksCompleted: number
+  tasksCompleted: number,
+  patterns: string[] = []
 ): string {
   let insights = ''
 
@@ -648,6 +707,11 @@ function generateFallbackInsights(
     insights += `\n\nAreas to focus on: ${blockers.slice(0, 2).map(b => b.title).join(', ')}. Consider what's getting in the way and how you can adjust. `
   }
 
+  // Patterns
+  if (patterns.length > 0) {
+    insights += `\n\nPatterns worth noticing: ${patterns.join('. ')}. `
+  }
+
   // Closing
   insights += `\n\nRemember, your vision board dreams are achieved through consistent daily actions. Keep going!`
 
@@ -738,12 +802,13 @@ async function generateWeeklyReviewInternal(
   geminiApiKey: string | null
 ) {
   // Simplified internal version for batch processing
-  const { weekStart, weekEnd } = getWeekRange()
+  const timezone = await getUserTimezone(supabase, userId)
+  const { weekStart, weekEnd } = getWeekRange(timezone)
 
   const [habitsData, completionsData, tasksData] = await Promise.all([
     supabase.from('habits').select('*').eq('user_id', userId).eq('is_active', true),
     supabase.from('habit_completions')
-      .select('habit_id, completed_at, mood_rating')
+      .select('habit_id, completed_at, value, mood_rating')
       .gte('completed_at', weekStart)
       .lte('completed_at', weekEnd)
       .in('habit_id', await getHabitIds(supabase, userId)),
@@ -753,18 +818,19 @@ async function generateWeeklyReviewInternal(
       .or(`updated_at.gte.${weekStart},created_at.gte.${weekStart}`)
   ])
 
-  const habits = habitsData.data || []
+  // Paused (vacation) days count as neither missed nor completed
+  const habits = await attachStreakProtection(supabase, habitsData.data)
   const completions = completionsData.data || []
   const tasks = tasksData.data || []
 
-  const habitCompletionRate = calculateHabitCompletionRate(habits, completions, weekStart, weekEnd)
+  const habitCompletionRate = calculateHabitCompletionRate(habits, completions, weekStart, weekEnd, timezone)
   const moodRatings = completions.filter((c: any) => c.mood_rating).map((c: any) => c.mood_rating)
   const moodAverage = moodRatings.length > 0
     ? Math.round(moodRatings.reduce((a: number, b: number) => a + b, 0) / moodRatings.length * 10) / 10
     : null
 
-  const wins = identifyWins(habits, completions, tasks, {})
-  const blockers = identifyBlockers(habits, completions, tasks, weekStart, weekEnd)
+  const wins = identifyWins(habits, completions, tasks, {}, weekStart, weekEnd, timezone)
+  const blockers = identifyBlockers(habits, completions, tasks, weekStart, weekEnd, timezone)
 
   await supabase
     .from('weekly_reviews')
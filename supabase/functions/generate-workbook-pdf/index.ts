@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { WORKBOOK_PRINT_URL_TTL_SECONDS, exportWorkbookPdf } from '../_shared/workbook-export.ts'
+import { buildPlannerPages, PlannerOptions } from '../_shared/planner-calendar.ts'
+import { isValidPageCount, PAGE_COUNT_LIMITS, PrintBinding } from '../_shared/print-page-count.ts'
 
 declare const Deno: any;
 
@@ -280,14 +283,28 @@ async function generateWorkbook(supabase: any, userId: string, orderId: string)
       actionTasks: actionTasks || []
     })
 
-    // Map legacy sections to page format
-    pagesToRender = sections.map(s => ({
+    // Map legacy sections to page format (6x9 trade at 300 DPI, 10mm safety margin)
+    const legacyLayout = {
+      trimSize: 'TRADE_6x9',
+      widthPx: 1800,
+      heightPx: 2700,
+      safeMarginPx: 118,
+      spiralEdgeMarginPx: order.template?.binding === 'SPIRAL' ? 142 : undefined,
+      dpi: 300
+    };
+
+    pagesToRender = sections.map((s, i) => ({
       type: s.section_type === 'monthly_planner' ? 'MONTHLY_PLANNER' :
+        s.section_type === 'weekly_planner' ? 'WEEKLY_PLANNER' :
         s.section_type === 'habit_tracker' ? 'HABIT_TRACKER' :
         s.section_type === 'vision_gallery' ? 'VISION_BOARD_SPREAD' :
+        s.section_type === 'notes' ? 'NOTES_LINED' :
           'GENERIC',
       ...s.content,
+      pageNumber: i + 1,
+      layout: legacyLayout,
       monthlyData: s.content.monthlyData,
+      weeklyData: s.content.weeklyData,
       habitTracker: s.section_type === 'habit_tracker' ? {
         habits: s.content.habits || [],
         period: 'MONTH'
@@ -302,56 +319,30 @@ async function generateWorkbook(supabase: any, userId: string, orderId: string)
           position: { x: 0, y: 5, w: 100, h: 70 }
         })) : [],
       textBlocks: [
-        { role: 'TITLE', content: s.title, position: { x: 10, y: 10 } },
-        ...(s.content.text ? [{ role: 'BODY', content: s.content.text, position: { x: 10, y: 20 } }] : [])
+        { role: 'TITLE', content: s.title, position: { x: 10, y: 10, w: 80 } },
+        ...(s.content.text ? [{ role: 'BODY', content: s.content.text, position: { x: 10, y: 20, w: 80 } }] : [])
       ]
     }));
   }
 
-  // REAL PDF GENERATION with v2.1 theme support
+  // Render with the shared renderer the preview and at-home download use
   console.log(`[GenerateWorkbook] Generating PDF for ${pagesToRender.length} pages...`);
 
   // Extract theme from order customization data or stored pages
   const themePack = order.theme_pack || order.customization_data?.theme_pack || 'executive';
-  const bindingType = order.template?.binding || 'SOFTCOVER';
 
-  console.log(`[GenerateWorkbook] Using theme: ${themePack}, binding: ${bindingType}`);
+  console.log(`[GenerateWorkbook] Using theme: ${themePack}`);
 
-  let pdfBytes: Uint8Array;
+  let pdfUrl: string;
   try {
-    const { generatePdf } = await import('./pdfGenerator.ts');
-    pdfBytes = await generatePdf(pagesToRender, {
-      theme: themePack,
-      bindingType: bindingType
-    });
+    // Signed for long enough that Prodigi can still fetch it when production starts
+    const exported = await exportWorkbookPdf(supabase, Deno.env.get('SUPABASE_URL'), orderId, pagesToRender, themePack, WORKBOOK_PRINT_URL_TTL_SECONDS);
+    pdfUrl = exported.url;
   } catch (e: any) {
     console.error("[GenerateWorkbook] PDF Generation failed:", e);
     throw new Error(`PDF Generation failed: ${e.message}`);
   }
 
-  // Upload to Supabase Storage
-  const fileName = `${orderId}/final_workbook.pdf`;
-  const { data: uploadData, error: uploadError } = await supabase
-    .storage
-    .from('workbooks') // Ensure this bucket exists
-    .upload(fileName, pdfBytes, {
-      contentType: 'application/pdf',
-      upsert: true
-    });
-
-  if (uploadError) {
-    console.error("Storage upload failed:", uploadError);
-    throw new Error("Failed to upload generated PDF");
-  }
-
-  // Get Public URL
-  const { data: { publicUrl } } = supabase
-    .storage
-    .from('workbooks')
-    .getPublicUrl(fileName);
-
-  const pdfUrl = publicUrl;
-
   // Update order with PDF URL
   await supabase
     .from('workbook_orders')
@@ -663,26 +654,37 @@ async function generateSections(
     })
   }
 
-  // 10. Monthly Planner (Calendar)
-  if (order.customization_data?.included_sections?.includes('monthly_planner')) {
-    const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
-    const year = new Date().getFullYear() + 1; // Planning for next year
+  // 10. Dated Planner (12 months from the chosen start month, with weekly spreads)
+  const includesPlanner = order.customization_data?.included_sections?.includes('monthly_planner')
+  const binding: PrintBinding = order.template?.binding === 'hardcover' ? 'hardcover' : 'softcover'
+  if (includesPlanner) {
+    const plannerContent = {
+      habits: habits.map(h => ({ id: h.id, name: h.title, description: h.description })),
+      milestones: actionTasks
+        .filter(t => t.due_date)
+        .map(t => ({ date: t.due_date, label: t.title }))
+    }
+
+    // Weekly spreads are left out if they'd take the book over the binding's limit
+    let plannerPages = buildPlannerPages(getPlannerOptions(order), plannerContent)
+    if (sections.length + plannerPages.length + TRAILING_SECTIONS > PAGE_COUNT_LIMITS[binding].max) {
+      console.warn(`[GenerateWorkbook] Planner too long for ${binding}, leaving out weekly spreads`)
+      plannerPages = buildPlannerPages({ ...getPlannerOptions(order), weeklySpreads: false }, plannerContent)
+    }
 
-    for (let i = 0; i < 12; i++) {
+    for (const page of plannerPages) {
       sections.push({
         workbook_order_id: orderId,
-        section_type: 'monthly_planner',
+        section_type: PLANNER_SECTION_TYPES[page.type],
         section_order: sectionOrder++,
-        title: `${months[i]} ${year}`,
+        title: page.title,
         content: {
-          monthlyData: {
-            monthLabel: months[i],
-            year: year,
-            weeks: generateCalendarWeeks(year, i) // Helper function we'll need to add or inline
-          }
+          monthlyData: page.monthlyData,
+          weeklyData: page.weeklyData,
+          habits: page.habitTracker?.habits
         },
         status: 'complete'
-      });
+      })
     }
   }
 
@@ -733,6 +735,24 @@ async function generateSections(
     status: 'complete'
   })
 
+  // A printed planner makes the book long enough to need a page count
+  // Prodigi accepts: pad with notes pages ahead of the back cover
+  if (includesPlanner) {
+    while (
+      !isValidPageCount(sections.length + 1, binding).valid &&
+      sections.length + 1 < PAGE_COUNT_LIMITS[binding].max
+    ) {
+      sections.push({
+        workbook_order_id: orderId,
+        section_type: 'notes',
+        section_order: sectionOrder++,
+        title: 'Notes',
+        content: {},
+        status: 'complete'
+      })
+    }
+  }
+
   // 14. Back Cover
   sections.push({
     workbook_order_id: orderId,
@@ -747,6 +767,13 @@ async function generateSections(
     status: 'complete'
   })
 
+  if (includesPlanner) {
+    const pageCount = isValidPageCount(sections.length, binding)
+    if (!pageCount.valid) {
+      throw new Error(`Workbook can't be printed: ${pageCount.reason}`)
+    }
+  }
+
   // Insert all sections
   const { data: insertedSections, error } = await supabase
     .from('workbook_sections')
@@ -804,38 +831,26 @@ async function getOrders(supabase: any, userId: string) {
   )
 }
 
-/**
- * Helper to generate calendar weeks for a given month/year
- */
-function generateCalendarWeeks(year: number, monthIndex: number) {
-  const firstDay = new Date(year, monthIndex, 1);
-  const lastDay = new Date(year, monthIndex + 1, 0);
+// Sections that can follow the planner: weekly journal, reflection, notes and back cover
+const TRAILING_SECTIONS = 4
 
-  const weeks = [];
-  let currentWeek = [];
-
-  // Pad start
-  for (let i = 0; i < firstDay.getDay(); i++) {
-    currentWeek.push({ id: `pad-start-${i}`, dateLabel: '' });
-  }
-
-  // Days
-  for (let d = 1; d <= lastDay.getDate(); d++) {
-    currentWeek.push({ id: `day-${d}`, dateLabel: String(d) });
-
-    if (currentWeek.length === 7) {
-      weeks.push(currentWeek);
-      currentWeek = [];
-    }
-  }
+const PLANNER_SECTION_TYPES: Record<string, string> = {
+  MONTHLY_PLANNER: 'monthly_planner',
+  HABIT_TRACKER: 'habit_tracker',
+  WEEKLY_PLANNER: 'weekly_planner',
+  NOTES_LINED: 'notes'
+}
 
-  // Pad end
-  if (currentWeek.length > 0) {
-    while (currentWeek.length < 7) {
-      currentWeek.push({ id: `pad-end-${currentWeek.length}`, dateLabel: '' });
-    }
-    weeks.push(currentWeek);
+/**
+ * Planner settings chosen in the wizard, defaulting to next January
+ * with Sunday week starts for older orders
+ */
+function getPlannerOptions(order: any): PlannerOptions {
+  return {
+    startYear: new Date().getFullYear() + 1,
+    startMonth: 0,
+    weekStart: 'SUNDAY',
+    locale: 'en-US',
+    ...order.customization_data?.planner
   }
-
-  return weeks;
 }
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { allHeaders, handleCors, rateLimitResponse } from '../_shared/cors.ts'
 import { checkRateLimitWithAlert, getClientIp, getRateLimitHeaders } from '../_shared/rate-limit.ts'
+import { getTodayInTimezone, getUserTimezone } from '../_shared/habit-schedule.ts'
 
 declare const Deno: any;
 
@@ -9,7 +10,8 @@ declare const Deno: any;
  * Get Plaid Account Balances
  *
  * Retrieves current account balances for a user's linked Plaid accounts.
- * Requires user authentication.
+ * Requires user authentication. Complete fetches also record the day's
+ * net worth in financial_snapshots for progress predictions.
  */
 serve(async (req) => {
   // Handle CORS preflight
@@ -222,6 +224,23 @@ serve(async (req) => {
 
     const netWorth = totals.checking + totals.savings + totals.investment - totals.credit - totals.loan
 
+    // Partial fetches would understate net worth, so only full ones are recorded
+    if (allAccounts.length > 0 && errors.length === 0) {
+      const timezone = await getUserTimezone(supabase, userId)
+      const { error: snapshotError } = await supabase
+        .from('financial_snapshots')
+        .upsert({
+          user_id: userId,
+          snapshot_date: getTodayInTimezone(timezone),
+          net_worth: netWorth,
+          source: 'plaid'
+        }, { onConflict: 'user_id,snapshot_date' })
+
+      if (snapshotError) {
+        console.error('Error recording net worth snapshot:', snapshotError)
+      }
+    }
+
     console.log(`Successfully retrieved ${allAccounts.length} accounts for user ${userId}`)
 
     return new Response(
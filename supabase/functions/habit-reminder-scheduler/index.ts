@@ -1,5 +1,16 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import {
+  attachStreakProtection,
+  calculateCurrentStreak,
+  getLocalDayBounds,
+  getTodayInTimezone,
+  isHabitDueOn,
+  isHabitPausedOn,
+  isHabitScheduledOn,
+  resolveTimezone,
+  zonedTimeToUtc
+} from '../_shared/habit-schedule.ts'
 
 declare const Deno: any
 
@@ -17,7 +28,7 @@ const corsHeaders = {
  *
  * This function:
  * 1. Gets all users with habit reminders enabled
- * 2. Gets their habits scheduled for today
+ * 2. Gets their habits scheduled for today (skipping paused habits)
  * 3. Creates scheduled_habit_reminders records for each
  * 4. The process-scheduled-reminders function will send them at the right time
  */
@@ -66,18 +77,16 @@ serve(async (req) => {
           .eq('user_id', userSettings.user_id)
           .single()
 
-        const userTimezone = commPrefs?.timezone || 'America/New_York'
+        const userTimezone = resolveTimezone(commPrefs?.timezone)
 
         // Get today's date in user's timezone
-        const now = new Date()
-        const userNow = new Date(now.toLocaleString('en-US', { timeZone: userTimezone }))
-        const dayOfWeek = userNow.getDay() // 0 = Sunday, 1 = Monday, etc.
-        const todayStr = userNow.toISOString().split('T')[0]
+        const todayStr = getTodayInTimezone(userTimezone)
+        const todayBounds = getLocalDayBounds(todayStr, userTimezone)
 
         // Get user's active habits
-        const { data: habits, error: habitsError } = await supabase
+        const { data: habitRows, error: habitsError } = await supabase
           .from('habits')
-          .select('id, title, description, frequency, custom_days, reminder_time, current_streak')
+          .select('id, title, description, frequency, custom_days, weekly_target, target_value, target_period, unit, grace_days, paused_until, reminder_time, created_at')
           .eq('user_id', userSettings.user_id)
           .eq('is_active', true)
 
@@ -86,9 +95,17 @@ serve(async (req) => {
           continue
         }
 
-        for (const habit of habits || []) {
+        const habits = await attachStreakProtection(supabase, habitRows)
+
+        for (const habit of habits) {
+          // Vacation mode: no reminders while paused
+          if (isHabitPausedOn(habit, todayStr)) {
+            totalSkipped++
+            continue
+          }
+
           // Check if habit is scheduled for today based on frequency
-          if (!isHabitScheduledForToday(habit, dayOfWeek)) {
+          if (!isHabitScheduledOn(habit, todayStr)) {
             continue
           }
 
@@ -97,8 +114,8 @@ serve(async (req) => {
             .from('scheduled_habit_reminders')
             .select('id')
             .eq('habit_id', habit.id)
-            .gte('scheduled_for', todayStr + 'T00:00:00')
-            .lt('scheduled_for', todayStr + 'T23:59:59')
+            .gte('scheduled_for', todayBounds.start.toISOString())
+            .lt('scheduled_for', todayBounds.end.toISOString())
             .single()
 
           if (existingReminder) {
@@ -107,15 +124,16 @@ serve(async (req) => {
           }
 
           // Check if habit already completed today
-          const { data: completion } = await supabase
+          const { data: completions } = await supabase
             .from('habit_completions')
-            .select('id')
+            .select('completed_at, value')
             .eq('habit_id', habit.id)
-            .gte('completed_at', todayStr + 'T00:00:00')
-            .single()
+            .order('completed_at', { ascending: false })
+
+          const habitCompletions = completions || []
 
-          if (completion) {
-            // Already completed, no need to remind
+          if (!isHabitDueOn(habit, habitCompletions, todayStr, userTimezone)) {
+            // Already completed (or target met), no need to remind
             totalSkipped++
             continue
           }
@@ -130,7 +148,8 @@ serve(async (req) => {
           )
 
           // Generate personalized message
-          const message = await generateHabitReminderMessage(supabase, habit, userSettings.user_id)
+          const streak = calculateCurrentStreak(habit, habitCompletions, todayStr, userTimezone)
+          const message = await generateHabitReminderMessage(supabase, habit, streak, userSettings.user_id)
 
           // Schedule the reminder
           const { error: insertError } = await supabase
@@ -184,36 +203,6 @@ serve(async (req) => {
   }
 })
 
-/**
- * Check if a habit is scheduled for today based on its frequency
- */
-function isHabitScheduledForToday(habit: any, dayOfWeek: number): boolean {
-  if (!habit.frequency || habit.frequency === 'daily') {
-    return true
-  }
-
-  if (habit.frequency === 'weekly' || habit.frequency === 'custom') {
-    // Check if today is in custom_days array
-    // custom_days is an array of day numbers (0 = Sunday, 1 = Monday, etc.)
-    if (Array.isArray(habit.custom_days)) {
-      return habit.custom_days.includes(dayOfWeek)
-    }
-    // If no custom_days specified for weekly, default to true
-    return habit.frequency === 'weekly'
-  }
-
-  if (habit.frequency === 'weekdays') {
-    return dayOfWeek >= 1 && dayOfWeek <= 5
-  }
-
-  if (habit.frequency === 'weekends') {
-    return dayOfWeek === 0 || dayOfWeek === 6
-  }
-
-  // Default to true for unknown frequencies
-  return true
-}
-
 /**
  * Calculate the reminder time based on habit settings and user preferences
  */
@@ -224,16 +213,9 @@ function calculateReminderTime(
   timezone: string,
   todayStr: string
 ): Date {
-  let baseTime: Date
-
-  if (habitReminderTime) {
-    // Parse habit's specific reminder time (format: "HH:MM" or "HH:MM:SS")
-    const [hours, minutes] = habitReminderTime.split(':').map(Number)
-    baseTime = new Date(`${todayStr}T${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:00`)
-  } else {
-    // Default to 9:00 AM in user's timezone
-    baseTime = new Date(`${todayStr}T09:00:00`)
-  }
+  // Habit's specific reminder time (format: "HH:MM" or "HH:MM:SS"),
+  // defaulting to 9:00 AM, interpreted in the user's timezone
+  let baseTime = zonedTimeToUtc(todayStr, habitReminderTime || '09:00', timezone)
 
   // Adjust based on timing preference
   if (timing === 'before' && minutesBefore > 0) {
@@ -253,6 +235,7 @@ function calculateReminderTime(
 async function generateHabitReminderMessage(
   supabase: any,
   habit: any,
+  streak: number,
   userId: string
 ): Promise<string> {
   // Get user's name
@@ -263,7 +246,6 @@ async function generateHabitReminderMessage(
     .single()
 
   const firstName = profile?.full_name?.split(' ')[0] || 'there'
-  const streak = habit.current_streak || 0
 
   // Generate contextual message based on streak
   if (streak === 0) {
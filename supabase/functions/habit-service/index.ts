@@ -1,5 +1,47 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  addDays,
+  attachStreakProtection,
+  calculateCurrentStreak,
+  calculateLongestStreak,
+  getBackfillError,
+  getBackfillWindow,
+  getHabitProgress,
+  getNextReminderTime,
+  getPauseError,
+  getTodayInTimezone,
+  getUserTimezone,
+  isHabitPausedOn,
+  isHabitScheduledOn,
+  isMeasurableHabit,
+  isStreakMilestone,
+  MAX_GRACE_DAYS,
+  summarizeCompletions
+} from '../_shared/habit-schedule.ts'
+import {
+  buildHabitAnalytics,
+  buildMoodByDate,
+  DEFAULT_ANALYTICS_DAYS,
+  describeHabitPatterns
+} from '../_shared/habit-analytics.ts'
+import {
+  calculateRoutineStats,
+  getLocalTimeString,
+  getRoutinePrompts,
+  getRoutineProgress,
+  isWithinRoutineWindow,
+  loadCompletionsByHabit,
+  loadRoutines
+} from '../_shared/habit-routines.ts'
+import {
+  buildImportPreview,
+  exportHabitsCsv,
+  exportLoopCsv,
+  getEarliestCompletionDates,
+  parseHabitImport,
+  titleKey
+} from '../_shared/habit-import.ts'
 
 declare const Deno: any;
 
@@ -8,17 +50,46 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Streak freezes: earned at milestones up to a cap, or bought with credits
+const MAX_EARNED_FREEZES = 3
+const STREAK_FREEZE_CREDIT_COST = 10
+
+// Import limits: raw upload size and rows written per insert
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+const IMPORT_BATCH_SIZE = 500
+
+// Columns the habit schedule engine reads
+const HABIT_SCHEDULE_COLUMNS =
+  'id, frequency, custom_days, weekly_target, target_value, target_period, unit, grace_days, paused_until, created_at'
+
 /**
  * Habit Service - Core Habit Management API
  *
  * Actions:
  * - create: Create a new habit
- * - complete: Record habit completion (triggers streak calculation)
+ * - complete: Record habit completion (triggers streak calculation).
+ *   Measurable habits accept a `value` that is added to the day's total.
+ *   Pass `completed_for_date` to backfill a past day within the user's
+ *   backfill window. Same-day completions of a routine step return the
+ *   routine's next step.
  * - list: List user habits with current streaks
  * - stats: Get completion rates and streak statistics
+ * - analytics: Heatmap, time-of-day, weekday and mood patterns for a habit
  * - delete: Delete a habit
  * - update: Update habit details
  * - uncomplete: Remove a completion (undo)
+ * - pause: Vacation mode - pause a habit until a date
+ * - resume: End a habit's pause early
+ * - freezes: Get the user's streak freeze balance
+ * - buy_freeze: Spend credits on a streak freeze
+ * - use_freeze: Cover a missed day with a streak freeze
+ * - import: Import habits and history from CSV or Loop Habit Tracker.
+ *   Pass `dryRun: true` for a preview with validation issues and
+ *   duplicates; nothing is written until a non-dry run.
+ * - export: Export habits and completions (format=csv|loop)
+ * - routines: List routines (ordered habit stacks) with today's progress
+ * - create_routine / update_routine / delete_routine: Manage routines
+ * - routine_stats: Routine-level completion stats
  */
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -54,6 +125,10 @@ serve(async (req) => {
 
     const userId = user.id
 
+    // Service-role client for writes the user's token may not make:
+    // streak freeze functions, habit_pauses and imported history
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
     // Get action from query params or body
     const url = new URL(req.url)
     const action = url.searchParams.get('action')
@@ -72,21 +147,47 @@ serve(async (req) => {
       case 'create':
         return await createHabit(supabase, userId, body)
       case 'complete':
-        return await completeHabit(supabase, userId, body)
+        return await completeHabit(supabase, supabaseAdmin, userId, body)
       case 'uncomplete':
         return await uncompleteHabit(supabase, userId, body)
       case 'list':
         return await listHabits(supabase, userId, url.searchParams)
       case 'stats':
         return await getHabitStats(supabase, userId, url.searchParams)
+      case 'analytics':
+        return await getHabitAnalytics(supabase, userId, url.searchParams)
       case 'delete':
         return await deleteHabit(supabase, userId, body)
       case 'update':
         return await updateHabit(supabase, userId, body)
       case 'get':
         return await getHabit(supabase, userId, url.searchParams)
+      case 'pause':
+        return await pauseHabit(supabase, supabaseAdmin, userId, body)
+      case 'resume':
+        return await resumeHabit(supabase, supabaseAdmin, userId, body)
+      case 'freezes':
+        return await getFreezeBalance(supabase, userId)
+      case 'buy_freeze':
+        return await buyStreakFreeze(supabaseAdmin, userId)
+      case 'use_freeze':
+        return await useStreakFreeze(supabase, supabaseAdmin, userId, body)
+      case 'import':
+        return await importHabits(supabase, supabaseAdmin, userId, body)
+      case 'export':
+        return await exportHabits(supabase, userId, url.searchParams)
+      case 'routines':
+        return await listRoutines(supabase, userId)
+      case 'create_routine':
+        return await createRoutine(supabase, userId, body)
+      case 'update_routine':
+        return await updateRoutine(supabase, userId, body)
+      case 'delete_routine':
+        return await deleteRoutine(supabase, userId, body)
+      case 'routine_stats':
+        return await getRoutineStats(supabase, userId, url.searchParams)
       default:
-        throw new Error(`Unknown action: ${action}. Valid actions: create, complete, uncomplete, list, stats, delete, update, get`)
+        throw new Error(`Unknown action: ${action}. Valid actions: create, complete, uncomplete, list, stats, analytics, delete, update, get, pause, resume, freezes, buy_freeze, use_freeze, import, export, routines, create_routine, update_routine, delete_routine, routine_stats`)
     }
 
   } catch (error: any) {
@@ -102,18 +203,29 @@ serve(async (req) => {
  * Create a new habit
  */
 async function createHabit(supabase: any, userId: string, body: any) {
-  const { title, description, frequency, customDays, reminderTime, taskId } = body
+  const {
+    title, description, frequency, customDays, weeklyTarget,
+    targetValue, targetPeriod, unit, graceDays, reminderTime, taskId
+  } = body
 
   if (!title) {
     throw new Error('Habit title is required')
   }
 
+  validateMeasurableFields(targetValue, targetPeriod)
+  validateGraceDays(graceDays)
+
   const habitData: any = {
     user_id: userId,
     title,
     description: description || null,
     frequency: frequency || 'daily',
     custom_days: customDays || [],
+    weekly_target: weeklyTarget || 1,
+    target_value: targetValue || null,
+    target_period: targetPeriod || 'day',
+    unit: unit || null,
+    grace_days: graceDays || 0,
     reminder_time: reminderTime || null,
     task_id: taskId || null,
     is_active: true
@@ -132,7 +244,7 @@ async function createHabit(supabase: any, userId: string, body: any) {
 
   // Schedule reminder if reminder_time is set
   if (reminderTime) {
-    await scheduleHabitReminder(supabase, userId, habit.id, reminderTime)
+    await scheduleHabitReminder(supabase, userId, habit, reminderTime)
   }
 
   console.log('Habit created:', habit.id)
@@ -154,26 +266,72 @@ async function createHabit(supabase: any, userId: string, body: any) {
 /**
  * Record habit completion
  */
-async function completeHabit(supabase: any, userId: string, body: any) {
-  const { habitId, date, notes, moodRating } = body
+async function completeHabit(supabase: any, supabaseAdmin: any, userId: string, body: any) {
+  const { habitId, notes, moodRating, value } = body
 
   if (!habitId) {
     throw new Error('Habit ID is required')
   }
 
   // Verify habit belongs to user
-  const { data: habit, error: habitError } = await supabase
-    .from('habits')
-    .select('id, title, user_id')
-    .eq('id', habitId)
-    .eq('user_id', userId)
-    .single()
+  const habit = await getProtectedHabit(supabase, userId, habitId)
 
-  if (habitError || !habit) {
-    throw new Error('Habit not found or access denied')
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const completionDate = await resolveCompletionDate(supabase, userId, body, today)
+  const isBackfill = completionDate < today
+
+  if (isHabitPausedOn(habit, completionDate)) {
+    throw new Error(`Habit is paused${habit.paused_until ? ` until ${habit.paused_until}` : ''}`)
+  }
+
+  if (isMeasurableHabit(habit)) {
+    // Measurable habits sum entries into the day's completion row
+    const amount = value === undefined || value === null ? Number(habit.target_value) : Number(value)
+    if (!(amount > 0)) {
+      throw new Error('Value must be a positive number')
+    }
+
+    const before = await getCompletions(supabase, habitId)
+    const wasComplete = getHabitProgress(habit, before, completionDate, timezone).isComplete
+
+    const completion = await addToCompletion(supabase, habit, completionDate, amount, userId, isBackfill, notes, moodRating)
+
+    const after = await getCompletions(supabase, habitId)
+    const progress = getHabitProgress(habit, after, completionDate, timezone)
+
+    // Backfilled entries can join streaks, so recompute from all completions
+    const currentStreak = calculateCurrentStreak(habit, after, today, timezone)
+
+    // Only celebrate when this entry is the one that met the target
+    if (!wasComplete && progress.isComplete) {
+      await checkStreakMilestone(supabase, supabaseAdmin, userId, habitId, habit.title, currentStreak)
+    }
+
+    console.log('Habit progress logged:', habitId, `${progress.value}/${progress.target}`, 'Streak:', currentStreak)
+
+    // Prompt the next routine step once this step is done for today
+    const routines = !isBackfill && progress.isComplete && !wasComplete
+      ? await getRoutinePrompts(supabase, habitId, today, timezone)
+      : []
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        completion,
+        currentStreak,
+        progress,
+        backfilled: isBackfill,
+        habitTitle: habit.title,
+        routines
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
   }
 
-  const completionDate = date || new Date().toISOString().split('T')[0]
+  const previousStreak = isBackfill
+    ? calculateCurrentStreak(habit, await getCompletions(supabase, habitId), today, timezone)
+    : null
 
   // Insert completion (unique constraint will prevent duplicates)
   const { data: completion, error: completionError } = await supabase
@@ -182,7 +340,9 @@ async function completeHabit(supabase: any, userId: string, body: any) {
       habit_id: habitId,
       completed_at: completionDate,
       notes: notes || null,
-      mood_rating: moodRating || null
+      mood_rating: moodRating || null,
+      is_backfilled: isBackfill,
+      logged_by: userId
     })
     .select()
     .single()
@@ -194,23 +354,28 @@ async function completeHabit(supabase: any, userId: string, body: any) {
     throw new Error(`Failed to record completion: ${completionError.message}`)
   }
 
-  // Get updated streak (calculated by PostgreSQL trigger)
-  const { data: streakData } = await supabase
-    .rpc('calculate_streak', { p_habit_id: habitId })
+  // Get updated streak in the user's timezone; a backfill may bridge a gap
+  const completions = await getCompletions(supabase, habitId)
+  const currentStreak = calculateCurrentStreak(habit, completions, today, timezone)
 
-  const currentStreak = streakData || 0
+  // Check for streak milestones and trigger notifications. A backfill only
+  // celebrates if it actually changed the streak.
+  if (!isBackfill || currentStreak !== previousStreak) {
+    await checkStreakMilestone(supabase, supabaseAdmin, userId, habitId, habit.title, currentStreak)
+  }
 
-  // Check for streak milestones and trigger notifications
-  await checkStreakMilestone(supabase, userId, habitId, habit.title, currentStreak)
+  console.log('Habit completed:', habitId, completionDate, isBackfill ? '(backfilled)' : '', 'Streak:', currentStreak)
 
-  console.log('Habit completed:', habitId, 'Streak:', currentStreak)
+  const routines = isBackfill ? [] : await getRoutinePrompts(supabase, habitId, today, timezone)
 
   return new Response(
     JSON.stringify({
       success: true,
       completion,
       currentStreak,
-      habitTitle: habit.title
+      backfilled: isBackfill,
+      habitTitle: habit.title,
+      routines
     }),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   )
@@ -220,25 +385,18 @@ async function completeHabit(supabase: any, userId: string, body: any) {
  * Remove a habit completion (undo)
  */
 async function uncompleteHabit(supabase: any, userId: string, body: any) {
-  const { habitId, date } = body
+  const { habitId } = body
 
   if (!habitId) {
     throw new Error('Habit ID is required')
   }
 
   // Verify habit belongs to user
-  const { data: habit, error: habitError } = await supabase
-    .from('habits')
-    .select('id, user_id')
-    .eq('id', habitId)
-    .eq('user_id', userId)
-    .single()
+  const habit = await getProtectedHabit(supabase, userId, habitId)
 
-  if (habitError || !habit) {
-    throw new Error('Habit not found or access denied')
-  }
-
-  const completionDate = date || new Date().toISOString().split('T')[0]
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const completionDate = await resolveCompletionDate(supabase, userId, body, today)
 
   const { error: deleteError } = await supabase
     .from('habit_completions')
@@ -251,13 +409,13 @@ async function uncompleteHabit(supabase: any, userId: string, body: any) {
   }
 
   // Get updated streak
-  const { data: streakData } = await supabase
-    .rpc('calculate_streak', { p_habit_id: habitId })
+  const completions = await getCompletions(supabase, habitId)
+  const currentStreak = calculateCurrentStreak(habit, completions, today, timezone)
 
   return new Response(
     JSON.stringify({
       success: true,
-      currentStreak: streakData || 0,
+      currentStreak,
       message: 'Completion removed'
     }),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -279,6 +437,12 @@ async function listHabits(supabase: any, userId: string, params: URLSearchParams
       description,
       frequency,
       custom_days,
+      weekly_target,
+      target_value,
+      target_period,
+      unit,
+      grace_days,
+      paused_until,
       reminder_time,
       task_id,
       is_active,
@@ -301,44 +465,26 @@ async function listHabits(supabase: any, userId: string, params: URLSearchParams
     throw new Error(`Failed to fetch habits: ${error.message}`)
   }
 
-  // Get today's date for completion check
-  const today = new Date().toISOString().split('T')[0]
+  // Get today's date in the user's timezone for completion check
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
 
   // Enrich each habit with streak data and completion status
+  const protectedHabits = await attachStreakProtection(supabase, habits)
   const enrichedHabits = await Promise.all(
-    habits.map(async (habit: any) => {
-      // Get current streak
-      const { data: streakData } = await supabase
-        .rpc('calculate_streak', { p_habit_id: habit.id })
-
-      // Check if completed today
-      const { data: todayCompletion } = await supabase
-        .from('habit_completions')
-        .select('id')
-        .eq('habit_id', habit.id)
-        .eq('completed_at', today)
-        .single()
-
-      // Get longest streak from achievements
-      const { data: longestStreakData } = await supabase
-        .from('user_achievements')
-        .select('value')
-        .eq('user_id', userId)
-        .eq('achievement_key', `habit_streak_${habit.id}`)
-        .single()
-
-      // Get total completions count
-      const { count: totalCompletions } = await supabase
-        .from('habit_completions')
-        .select('id', { count: 'exact', head: true })
-        .eq('habit_id', habit.id)
+    protectedHabits.map(async (habit: any) => {
+      const completions = await getCompletions(supabase, habit.id)
+      const progress = getHabitProgress(habit, completions, today, timezone)
+      const { pauses, frozen_dates, ...habitRow } = habit
 
       return {
-        ...habit,
-        currentStreak: streakData || 0,
-        longestStreak: longestStreakData?.value || streakData || 0,
-        completedToday: !!todayCompletion,
-        totalCompletions: totalCompletions || 0
+        ...habitRow,
+        currentStreak: calculateCurrentStreak(habit, completions, today, timezone),
+        longestStreak: calculateLongestStreak(habit, completions, timezone),
+        completedToday: progress.isComplete,
+        isPaused: isHabitPausedOn(habit, today),
+        progress: isMeasurableHabit(habit) ? progress : null,
+        totalCompletions: completions.length
       }
     })
   )
@@ -363,20 +509,25 @@ async function getHabit(supabase: any, userId: string, params: URLSearchParams)
     throw new Error('Habit ID is required')
   }
 
-  const { data: habit, error } = await supabase
+  const { data: habitRow, error } = await supabase
     .from('habits')
     .select('*')
     .eq('id', habitId)
     .eq('user_id', userId)
     .single()
 
-  if (error || !habit) {
+  if (error || !habitRow) {
     throw new Error('Habit not found')
   }
 
+  const [habit] = await attachStreakProtection(supabase, [habitRow])
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+
   // Get streak
-  const { data: streakData } = await supabase
-    .rpc('calculate_streak', { p_habit_id: habitId })
+  const completions = await getCompletions(supabase, habitId)
+  const currentStreak = calculateCurrentStreak(habit, completions, today, timezone)
+  const progress = getHabitProgress(habit, completions, today, timezone)
 
   // Get recent completions
   const { data: recentCompletions } = await supabase
@@ -387,18 +538,19 @@ async function getHabit(supabase: any, userId: string, params: URLSearchParams)
     .limit(30)
 
   // Check if completed today
-  const today = new Date().toISOString().split('T')[0]
-  const completedToday = recentCompletions?.some(
-    (c: any) => c.completed_at === today
-  ) || false
+  const completedToday = progress.isComplete
 
   return new Response(
     JSON.stringify({
       success: true,
       habit: {
-        ...habit,
-        currentStreak: streakData || 0,
+        ...habitRow,
+        currentStreak,
         completedToday,
+        isPaused: isHabitPausedOn(habit, today),
+        pauses: habit.pauses,
+        frozenDates: habit.frozen_dates,
+        progress: isMeasurableHabit(habit) ? progress : null,
         recentCompletions: recentCompletions || []
       }
     }),
@@ -414,42 +566,45 @@ async function getHabitStats(supabase: any, userId: string, params: URLSearchPar
   const period = params.get('period') || '30' // days
 
   const periodDays = parseInt(period)
-  const startDate = new Date()
-  startDate.setDate(startDate.getDate() - periodDays)
-  const startDateStr = startDate.toISOString().split('T')[0]
+  const timezone = await getUserTimezone(supabase, userId)
+  const range = {
+    startDate: addDays(getTodayInTimezone(timezone), -(periodDays - 1)),
+    endDate: getTodayInTimezone(timezone),
+    periodDays,
+    timezone
+  }
 
   if (habitId) {
     // Stats for specific habit
-    return await getSingleHabitStats(supabase, userId, habitId, startDateStr, periodDays)
+    return await getSingleHabitStats(supabase, userId, habitId, range)
   } else {
     // Aggregate stats for all habits
-    return await getAllHabitsStats(supabase, userId, startDateStr, periodDays)
+    return await getAllHabitsStats(supabase, userId, range)
   }
 }
 
+interface StatsRange {
+  startDate: string
+  endDate: string
+  periodDays: number
+  timezone: string
+}
+
 async function getSingleHabitStats(
   supabase: any,
   userId: string,
   habitId: string,
-  startDate: string,
-  periodDays: number
+  range: StatsRange
 ) {
-  // Verify habit belongs to user
-  const { data: habit, error: habitError } = await supabase
-    .from('habits')
-    .select('id, title, frequency, created_at')
-    .eq('id', habitId)
-    .eq('user_id', userId)
-    .single()
+  const { startDate, endDate, periodDays, timezone } = range
 
-  if (habitError || !habit) {
-    throw new Error('Habit not found')
-  }
+  // Verify habit belongs to user
+  const habit = await getProtectedHabit(supabase, userId, habitId)
 
   // Get completions in period
   const { data: completions, error: completionsError } = await supabase
     .from('habit_completions')
-    .select('completed_at, mood_rating, notes')
+    .select('completed_at, value, mood_rating, notes, is_backfilled')
     .eq('habit_id', habitId)
     .gte('completed_at', startDate)
     .order('completed_at', { ascending: true })
@@ -459,13 +614,12 @@ async function getSingleHabitStats(
   }
 
   // Get current streak
-  const { data: streakData } = await supabase
-    .rpc('calculate_streak', { p_habit_id: habitId })
+  const allCompletions = await getCompletions(supabase, habitId)
+  const currentStreak = calculateCurrentStreak(habit, allCompletions, endDate, timezone)
 
-  // Calculate expected days based on frequency
-  const expectedDays = calculateExpectedDays(habit.frequency, periodDays, habit.created_at)
-  const completedDays = completions?.length || 0
-  const completionRate = expectedDays > 0 ? (completedDays / expectedDays) * 100 : 0
+  // Calculate expected vs. completed based on the habit's schedule
+  const completionDates = completions?.map((c: any) => c.completed_at) || []
+  const summary = summarizeCompletions(habit, completions || [], startDate, endDate, timezone)
 
   // Calculate average mood
   const moodRatings = completions?.filter((c: any) => c.mood_rating).map((c: any) => c.mood_rating) || []
@@ -473,9 +627,6 @@ async function getSingleHabitStats(
     ? moodRatings.reduce((a: number, b: number) => a + b, 0) / moodRatings.length
     : null
 
-  // Build completion calendar
-  const completionDates = completions?.map((c: any) => c.completed_at) || []
-
   return new Response(
     JSON.stringify({
       success: true,
@@ -483,13 +634,26 @@ async function getSingleHabitStats(
         habitId,
         habitTitle: habit.title,
         period: `${periodDays} days`,
-        currentStreak: streakData || 0,
-        completedDays,
-        expectedDays,
-        completionRate: Math.round(completionRate * 10) / 10,
+        currentStreak,
+        completedDays: summary.completed,
+        expectedDays: summary.expected,
+        completionRate: summary.rate,
         averageMood: averageMood ? Math.round(averageMood * 10) / 10 : null,
         completionDates,
-        frequency: habit.frequency
+        backfilledDates: completions?.filter((c: any) => c.is_backfilled).map((c: any) => c.completed_at) || [],
+        pausedDays: countPausedDays(habit, startDate, endDate),
+        frozenDates: (habit.frozen_dates || []).filter((d: string) => d >= startDate && d <= endDate),
+        frequency: habit.frequency,
+        ...(isMeasurableHabit(habit) && {
+          unit: habit.unit,
+          targetValue: habit.target_value,
+          targetPeriod: habit.target_period || 'day',
+          totalValue: summary.totalValue,
+          dailyValues: completions?.map((c: any) => ({
+            date: c.completed_at,
+            value: c.value ?? habit.target_value
+          })) || []
+        })
       }
     }),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -499,13 +663,14 @@ async function getSingleHabitStats(
 async function getAllHabitsStats(
   supabase: any,
   userId: string,
-  startDate: string,
-  periodDays: number
+  range: StatsRange
 ) {
+  const { startDate, endDate, periodDays, timezone } = range
+
   // Get all active habits
   const { data: habits, error: habitsError } = await supabase
     .from('habits')
-    .select('id, title, frequency, created_at')
+    .select(`${HABIT_SCHEDULE_COLUMNS}, title`)
     .eq('user_id', userId)
     .eq('is_active', true)
 
@@ -531,28 +696,25 @@ async function getAllHabitsStats(
   }
 
   // Get stats for each habit
+  const protectedHabits = await attachStreakProtection(supabase, habits)
   const habitStats = await Promise.all(
-    habits.map(async (habit: any) => {
-      const { data: completions } = await supabase
-        .from('habit_completions')
-        .select('completed_at')
-        .eq('habit_id', habit.id)
-        .gte('completed_at', startDate)
-
-      const { data: streakData } = await supabase
-        .rpc('calculate_streak', { p_habit_id: habit.id })
-
-      const expectedDays = calculateExpectedDays(habit.frequency, periodDays, habit.created_at)
-      const completedDays = completions?.length || 0
-      const completionRate = expectedDays > 0 ? (completedDays / expectedDays) * 100 : 0
+    protectedHabits.map(async (habit: any) => {
+      const completions = await getCompletions(supabase, habit.id)
+      const summary = summarizeCompletions(habit, completions, startDate, endDate, timezone)
 
       return {
         habitId: habit.id,
         habitTitle: habit.title,
-        currentStreak: streakData || 0,
-        completedDays,
-        expectedDays,
-        completionRate: Math.round(completionRate * 10) / 10
+        currentStreak: calculateCurrentStreak(habit, completions, endDate, timezone),
+        completedDays: summary.completed,
+        expectedDays: summary.expected,
+        completionRate: summary.rate,
+        pausedDays: countPausedDays(habit, startDate, endDate),
+        ...(isMeasurableHabit(habit) && {
+          unit: habit.unit,
+          targetValue: habit.target_value,
+          totalValue: summary.totalValue
+        })
       }
     })
   )
@@ -589,11 +751,65 @@ async function getAllHabitsStats(
   )
 }
 
+/**
+ * Get analytics for a single habit: daily heatmap, time-of-day and weekday
+ * patterns, and how completing it relates to the user's mood
+ */
+async function getHabitAnalytics(supabase: any, userId: string, params: URLSearchParams) {
+  const habitId = params.get('habitId')
+  if (!habitId) {
+    throw new Error('habitId is required')
+  }
+
+  const days = Math.min(Math.max(parseInt(params.get('days') || '', 10) || DEFAULT_ANALYTICS_DAYS, 7), DEFAULT_ANALYTICS_DAYS)
+  const habit = await getProtectedHabit(supabase, userId, habitId)
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const startDate = addDays(today, -(days - 1))
+
+  const [completionsResult, moodResult] = await Promise.all([
+    supabase
+      .from('habit_completions')
+      .select('completed_at, value, mood_rating, created_at, is_backfilled')
+      .eq('habit_id', habitId)
+      .gte('completed_at', startDate)
+      .order('completed_at', { ascending: true }),
+    // Mood is only logged on completions, so use the user's mood across all habits
+    supabase
+      .from('habit_completions')
+      .select('completed_at, mood_rating, habits!inner(user_id)')
+      .eq('habits.user_id', userId)
+      .not('mood_rating', 'is', null)
+      .gte('completed_at', startDate)
+  ])
+
+  if (completionsResult.error) {
+    throw new Error(`Failed to fetch completions: ${completionsResult.error.message}`)
+  }
+
+  const moodByDate = buildMoodByDate(moodResult.data || [], timezone)
+  const analytics = buildHabitAnalytics(habit, completionsResult.data || [], moodByDate, today, timezone, days)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      habitId,
+      title: habit.title,
+      analytics,
+      insights: describeHabitPatterns(habit.title, analytics)
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
 /**
  * Update habit details
  */
 async function updateHabit(supabase: any, userId: string, body: any) {
-  const { habitId, title, description, frequency, customDays, reminderTime, isActive } = body
+  const {
+    habitId, title, description, frequency, customDays, weeklyTarget,
+    targetValue, targetPeriod, unit, graceDays, reminderTime, isActive
+  } = body
 
   if (!habitId) {
     throw new Error('Habit ID is required')
@@ -616,6 +832,17 @@ async function updateHabit(supabase: any, userId: string, body: any) {
   if (description !== undefined) updates.description = description
   if (frequency !== undefined) updates.frequency = frequency
   if (customDays !== undefined) updates.custom_days = customDays
+  if (weeklyTarget !== undefined) updates.weekly_target = weeklyTarget
+  if (targetValue !== undefined) {
+    validateMeasurableFields(targetValue, targetPeriod)
+    updates.target_value = targetValue
+  }
+  if (targetPeriod !== undefined) updates.target_period = targetPeriod
+  if (unit !== undefined) updates.unit = unit
+  if (graceDays !== undefined) {
+    validateGraceDays(graceDays)
+    updates.grace_days = graceDays
+  }
   if (reminderTime !== undefined) updates.reminder_time = reminderTime
   if (isActive !== undefined) updates.is_active = isActive
 
@@ -705,28 +932,780 @@ async function deleteHabit(supabase: any, userId: string, body: any) {
 }
 
 /**
- * Helper: Calculate expected completion days based on frequency
+ * Pause a habit (vacation mode). Paused days count as neither missed nor
+ * completed, and reminders are skipped until the pause ends.
+ */
+async function pauseHabit(supabase: any, supabaseAdmin: any, userId: string, body: any) {
+  const { habitId, until, from, reason } = body
+
+  if (!habitId || !until) {
+    throw new Error('Habit ID and pause end date (until) are required')
+  }
+
+  const habit = await getProtectedHabit(supabase, userId, habitId)
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const startDate = from || today
+
+  const pauseError = getPauseError(startDate, until, today)
+  if (pauseError) {
+    throw new Error(pauseError)
+  }
+  if (isHabitPausedOn(habit, startDate)) {
+    throw new Error('Habit is already paused')
+  }
+
+  // habit_pauses is read-only to users; pauses are only written here
+  const { data: pause, error } = await supabaseAdmin
+    .from('habit_pauses')
+    .insert({
+      habit_id: habitId,
+      user_id: userId,
+      start_date: startDate,
+      end_date: until,
+      reason: reason || null
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to pause habit: ${error.message}`)
+  }
+
+  await supabase
+    .from('habits')
+    .update({ paused_until: until })
+    .eq('id', habitId)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      pause,
+      message: `Habit paused until ${until}`
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * End a habit's active pause. The pause stops yesterday so today counts again.
+ */
+async function resumeHabit(supabase: any, supabaseAdmin: any, userId: string, body: any) {
+  const { habitId } = body
+
+  if (!habitId) {
+    throw new Error('Habit ID is required')
+  }
+
+  await getProtectedHabit(supabase, userId, habitId)
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const yesterday = addDays(today, -1)
+
+  // Pauses that have not started yet are dropped entirely
+  await supabaseAdmin
+    .from('habit_pauses')
+    .delete()
+    .eq('habit_id', habitId)
+    .gte('start_date', today)
+
+  const { error } = await supabaseAdmin
+    .from('habit_pauses')
+    .update({ end_date: yesterday })
+    .eq('habit_id', habitId)
+    .lt('start_date', today)
+    .or(`end_date.is.null,end_date.gte.${today}`)
+
+  if (error) {
+    throw new Error(`Failed to resume habit: ${error.message}`)
+  }
+
+  await supabase
+    .from('habits')
+    .update({ paused_until: null })
+    .eq('id', habitId)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: 'Habit resumed'
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Get the user's streak freeze balance
+ */
+async function getFreezeBalance(supabase: any, userId: string) {
+  const { data: balance } = await supabase
+    .from('user_streak_freezes')
+    .select('available, earned_total, purchased_total')
+    .eq('user_id', userId)
+    .single()
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      freezes: {
+        available: balance?.available || 0,
+        earnedTotal: balance?.earned_total || 0,
+        purchasedTotal: balance?.purchased_total || 0,
+        creditCost: STREAK_FREEZE_CREDIT_COST
+      }
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Spend credits on a streak freeze
+ */
+async function buyStreakFreeze(supabaseAdmin: any, userId: string) {
+  const { data: available, error } = await supabaseAdmin.rpc('purchase_streak_freeze', {
+    p_user_id: userId,
+    p_cost: STREAK_FREEZE_CREDIT_COST
+  })
+
+  if (error) {
+    throw new Error(`Failed to buy streak freeze: ${error.message}`)
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      available,
+      creditsSpent: STREAK_FREEZE_CREDIT_COST
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Cover a missed scheduled day with a streak freeze (defaults to yesterday)
+ */
+async function useStreakFreeze(supabase: any, supabaseAdmin: any, userId: string, body: any) {
+  const { habitId, date } = body
+
+  if (!habitId) {
+    throw new Error('Habit ID is required')
+  }
+
+  const habit = await getProtectedHabit(supabase, userId, habitId)
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const frozenDate = date || addDays(today, -1)
+
+  if (frozenDate >= today) {
+    throw new Error('Only past days can be covered by a streak freeze')
+  }
+  if (!isHabitScheduledOn(habit, frozenDate)) {
+    throw new Error('Habit was not scheduled on that day')
+  }
+  if ((habit.frozen_dates || []).includes(frozenDate)) {
+    throw new Error('That day is already covered by a streak freeze')
+  }
+
+  const completions = await getCompletions(supabase, habitId)
+  if (getHabitProgress(habit, completions, frozenDate, timezone).isComplete) {
+    throw new Error('Habit was completed that day')
+  }
+
+  const { data: available, error } = await supabaseAdmin.rpc('use_streak_freeze', {
+    p_user_id: userId,
+    p_habit_id: habitId,
+    p_date: frozenDate
+  })
+
+  if (error) {
+    throw new Error(`Failed to use streak freeze: ${error.message}`)
+  }
+
+  const protectedHabit = { ...habit, frozen_dates: [...(habit.frozen_dates || []), frozenDate] }
+  const currentStreak = calculateCurrentStreak(protectedHabit, completions, today, timezone)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      frozenDate,
+      available,
+      currentStreak
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * List the user's routines with today's step progress
  */
-function calculateExpectedDays(
-  frequency: string,
-  periodDays: number,
-  createdAt: string
-): number {
-  const habitAge = Math.floor(
-    (Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24)
+async function listRoutines(supabase: any, userId: string) {
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const localTime = getLocalTimeString(new Date(), timezone)
+
+  const { routines, habitsById } = await loadRoutines(supabase, { userId })
+  const completionsByHabit = await loadCompletionsByHabit(supabase, [...habitsById.keys()], today, today)
+
+  const enriched = routines.map(routine => ({
+    id: routine.id,
+    title: routine.title,
+    anchorCue: routine.anchor_cue || null,
+    windowStart: routine.window_start || null,
+    windowEnd: routine.window_end || null,
+    inWindow: isWithinRoutineWindow(routine, localTime),
+    today: getRoutineProgress(routine, habitsById, completionsByHabit, today, timezone)
+  }))
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      routines: enriched,
+      count: enriched.length
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   )
-  const effectiveDays = Math.min(periodDays, habitAge + 1)
+}
+
+/**
+ * Create a routine from an ordered list of habit IDs
+ */
+async function createRoutine(supabase: any, userId: string, body: any) {
+  const { title, anchorCue, windowStart, windowEnd, habitIds } = body
+
+  if (!title) {
+    throw new Error('Routine title is required')
+  }
+  validateRoutineWindow(windowStart, windowEnd)
+  await validateRoutineHabits(supabase, userId, habitIds)
+
+  const { data: routine, error } = await supabase
+    .from('habit_routines')
+    .insert({
+      user_id: userId,
+      title,
+      anchor_cue: anchorCue || null,
+      window_start: windowStart || null,
+      window_end: windowEnd || null
+    })
+    .select()
+    .single()
 
-  switch (frequency) {
-    case 'daily':
-      return effectiveDays
-    case 'weekdays':
-      // Approximate: 5/7 of days
-      return Math.round(effectiveDays * (5 / 7))
-    case 'weekly':
-      return Math.ceil(effectiveDays / 7)
-    default:
-      return effectiveDays
+  if (error) {
+    throw new Error(`Failed to create routine: ${error.message}`)
+  }
+
+  await replaceRoutineSteps(supabase, routine.id, habitIds)
+
+  console.log('Routine created:', routine.id, habitIds.length, 'steps')
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      routine: { ...routine, steps: habitIds.map((habitId: string, position: number) => ({ habit_id: habitId, position })) }
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Update a routine's details; pass habitIds to replace (or reorder) its steps
+ */
+async function updateRoutine(supabase: any, userId: string, body: any) {
+  const { routineId, title, anchorCue, windowStart, windowEnd, habitIds } = body
+
+  if (!routineId) {
+    throw new Error('Routine ID is required')
+  }
+  await getOwnedRoutine(supabase, userId, routineId)
+
+  const updates: any = {}
+  if (title !== undefined) updates.title = title
+  if (anchorCue !== undefined) updates.anchor_cue = anchorCue || null
+  if (windowStart !== undefined || windowEnd !== undefined) {
+    validateRoutineWindow(windowStart, windowEnd)
+    updates.window_start = windowStart || null
+    updates.window_end = windowEnd || null
+  }
+
+  if (Object.keys(updates).length > 0) {
+    const { error } = await supabase
+      .from('habit_routines')
+      .update(updates)
+      .eq('id', routineId)
+
+    if (error) {
+      throw new Error(`Failed to update routine: ${error.message}`)
+    }
+  }
+
+  if (habitIds !== undefined) {
+    await validateRoutineHabits(supabase, userId, habitIds)
+    await replaceRoutineSteps(supabase, routineId, habitIds)
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, routineId }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Delete a routine. Its habits are kept.
+ */
+async function deleteRoutine(supabase: any, userId: string, body: any) {
+  const { routineId } = body
+
+  if (!routineId) {
+    throw new Error('Routine ID is required')
+  }
+  const routine = await getOwnedRoutine(supabase, userId, routineId)
+
+  const { error } = await supabase
+    .from('habit_routines')
+    .delete()
+    .eq('id', routineId)
+
+  if (error) {
+    throw new Error(`Failed to delete routine: ${error.message}`)
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: `Routine "${routine.title}" deleted`
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Routine-level completion stats over a period (default 30 days).
+ * Omit routineId for all of the user's routines.
+ */
+async function getRoutineStats(supabase: any, userId: string, params: URLSearchParams) {
+  const routineId = params.get('routineId')
+  const days = Math.min(Math.max(parseInt(params.get('days') || '30', 10) || 30, 1), 365)
+
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const startDate = addDays(today, -(days - 1))
+
+  if (routineId) {
+    await getOwnedRoutine(supabase, userId, routineId)
+  }
+
+  const { routines, habitsById } = await loadRoutines(
+    supabase,
+    routineId ? { userId, routineIds: [routineId] } : { userId }
+  )
+  const completionsByHabit = await loadCompletionsByHabit(supabase, [...habitsById.keys()], startDate, today)
+
+  const stats = routines.map(routine => ({
+    title: routine.title,
+    ...calculateRoutineStats(routine, habitsById, completionsByHabit, startDate, today, timezone)
+  }))
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      period: { start: startDate, end: today, days },
+      stats
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Import habits and completions from another tracker.
+ * Habits are matched to existing ones by title; days already logged are
+ * skipped rather than overwritten.
+ */
+async function importHabits(supabase: any, supabaseAdmin: any, userId: string, body: any) {
+  const { format, csv, habitsCsv, checkmarksCsv, dryRun } = body
+
+  const size = [csv, habitsCsv, checkmarksCsv].reduce((sum, file) => sum + (file?.length || 0), 0)
+  if (size > MAX_IMPORT_BYTES) {
+    throw new Error('Import file is too large (max 5 MB)')
+  }
+
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const parsed = parseHabitImport(format, { csv, habitsCsv, checkmarksCsv }, today)
+
+  const { data: existingHabits, error: habitsError } = await supabase
+    .from('habits')
+    .select('id, title, created_at')
+    .eq('user_id', userId)
+
+  if (habitsError) {
+    throw new Error(`Failed to fetch habits: ${habitsError.message}`)
+  }
+
+  const existingDates = await getCompletionDatesByHabit(supabase, (existingHabits || []).map((h: any) => h.id))
+  const preview = buildImportPreview(
+    parsed,
+    (existingHabits || []).map((h: any) => ({ ...h, completion_dates: existingDates.get(h.id) || [] }))
+  )
+
+  const summary = {
+    newHabits: preview.newHabits.map(h => h.title),
+    matchedHabits: preview.matchedHabits,
+    completionsToImport: preview.completions.length,
+    duplicateCompletions: preview.duplicateCompletions,
+    issues: preview.issues,
+    canImport: preview.canImport
+  }
+
+  if (dryRun) {
+    return new Response(
+      JSON.stringify({ success: true, dryRun: true, preview: summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  if (!preview.canImport) {
+    const errorCount = preview.issues.filter(i => i.severity === 'error').length
+    throw new Error(`Import has ${errorCount} error(s); run a dry run to review them`)
+  }
+
+  // Start habits at their first imported day so history counts toward stats
+  const earliest = getEarliestCompletionDates(preview.completions)
+  const habitIds = new Map<string, string>(preview.matchedHabits.map(m => [titleKey(m.title), m.habit_id]))
+
+  if (preview.newHabits.length > 0) {
+    const { data: created, error: createError } = await supabase
+      .from('habits')
+      .insert(preview.newHabits.map(habit => ({
+        ...habit,
+        user_id: userId,
+        created_at: earliest.get(titleKey(habit.title)) || new Date().toISOString()
+      })))
+      .select('id, title')
+
+    if (createError) {
+      throw new Error(`Failed to create habits: ${createError.message}`)
+    }
+    for (const habit of created) habitIds.set(titleKey(habit.title), habit.id)
+  }
+
+  for (const match of preview.matchedHabits) {
+    const firstDay = earliest.get(titleKey(match.title))
+    const existing = existingHabits.find((h: any) => h.id === match.habit_id)
+    if (firstDay && existing?.created_at && firstDay < existing.created_at.slice(0, 10)) {
+      await supabase.from('habits').update({ created_at: firstDay }).eq('id', match.habit_id)
+    }
+  }
+
+  const rows = preview.completions.map(completion => ({
+    habit_id: habitIds.get(titleKey(completion.habit_title)),
+    completed_at: completion.completed_at,
+    value: completion.value,
+    notes: completion.notes,
+    is_backfilled: false,
+    logged_by: userId
+  }))
+
+  // History predates the backfill window, which the completions trigger
+  // enforces on user writes; every habit_id here belongs to this user
+  let imported = 0
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('habit_completions')
+      .upsert(rows.slice(i, i + IMPORT_BATCH_SIZE), { onConflict: 'habit_id,completed_at', ignoreDuplicates: true })
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to import completions after ${imported} rows: ${error.message}`)
+    }
+    imported += data?.length || 0
+  }
+
+  console.log('Habits imported:', userId, preview.newHabits.length, 'habits,', imported, 'completions')
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      dryRun: false,
+      preview: summary,
+      habitsCreated: preview.newHabits.length,
+      completionsImported: imported
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Export the user's habits and completions as CSV files
+ */
+async function exportHabits(supabase: any, userId: string, params: URLSearchParams) {
+  const format = params.get('format') || 'csv'
+  if (format !== 'csv' && format !== 'loop') {
+    throw new Error(`Unsupported export format: ${format}. Valid formats: csv, loop`)
+  }
+
+  const { data: habits, error } = await supabase
+    .from('habits')
+    .select('id, title, description, frequency, custom_days, weekly_target, target_value, target_period, unit, is_active')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch habits: ${error.message}`)
+  }
+
+  const completionsByHabit = await getCompletionsByHabit(supabase, (habits || []).map((h: any) => h.id))
+  const exportable = (habits || []).map((habit: any) => ({
+    ...habit,
+    completions: completionsByHabit.get(habit.id) || []
+  }))
+
+  const stamp = getTodayInTimezone(await getUserTimezone(supabase, userId))
+  let files: Array<{ filename: string; content: string }>
+  if (format === 'loop') {
+    const { habitsCsv, checkmarksCsv } = exportLoopCsv(exportable)
+    files = [
+      { filename: 'Habits.csv', content: habitsCsv },
+      { filename: 'Checkmarks.csv', content: checkmarksCsv }
+    ]
+  } else {
+    files = [{ filename: `habits-${stamp}.csv`, content: exportHabitsCsv(exportable) }]
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      format,
+      files,
+      habitCount: exportable.length
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Helper: Load a routine owned by the user
+ */
+async function getOwnedRoutine(supabase: any, userId: string, routineId: string): Promise<any> {
+  const { data: routine, error } = await supabase
+    .from('habit_routines')
+    .select('id, title')
+    .eq('id', routineId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !routine) {
+    throw new Error('Routine not found or access denied')
+  }
+  return routine
+}
+
+/**
+ * Helper: Replace a routine's steps with habits in the given order
+ */
+async function replaceRoutineSteps(supabase: any, routineId: string, habitIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from('habit_routine_steps')
+    .delete()
+    .eq('routine_id', routineId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update routine steps: ${deleteError.message}`)
+  }
+
+  const { error } = await supabase
+    .from('habit_routine_steps')
+    .insert(habitIds.map((habitId, position) => ({ routine_id: routineId, habit_id: habitId, position })))
+
+  if (error) {
+    throw new Error(`Failed to save routine steps: ${error.message}`)
+  }
+}
+
+/**
+ * Helper: Routine steps must be distinct active habits owned by the user
+ */
+async function validateRoutineHabits(supabase: any, userId: string, habitIds: any) {
+  if (!Array.isArray(habitIds) || habitIds.length < 2) {
+    throw new Error('A routine needs at least two habits (habitIds)')
+  }
+  if (new Set(habitIds).size !== habitIds.length) {
+    throw new Error('A habit can only appear once in a routine')
+  }
+
+  const { data: habits, error } = await supabase
+    .from('habits')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .in('id', habitIds)
+
+  if (error || !habits || habits.length !== habitIds.length) {
+    throw new Error('Routine habits not found or access denied')
+  }
+}
+
+/**
+ * Helper: A routine window needs both ends as HH:MM
+ */
+function validateRoutineWindow(windowStart: any, windowEnd: any) {
+  if (!windowStart && !windowEnd) return
+  const isTime = (value: any) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value)
+  if (!isTime(windowStart) || !isTime(windowEnd)) {
+    throw new Error('windowStart and windowEnd must both be set as HH:MM')
+  }
+}
+
+/**
+ * Helper: Load a habit owned by the user with its pauses and freezes attached
+ */
+async function getProtectedHabit(supabase: any, userId: string, habitId: string): Promise<any> {
+  const { data: habit, error } = await supabase
+    .from('habits')
+    .select(`${HABIT_SCHEDULE_COLUMNS}, title, user_id`)
+    .eq('id', habitId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !habit) {
+    throw new Error('Habit not found or access denied')
+  }
+
+  const [protectedHabit] = await attachStreakProtection(supabase, [habit])
+  return protectedHabit
+}
+
+/**
+ * Helper: Resolve the day a completion is for (completed_for_date, or the
+ * legacy date field), defaulting to today and enforcing the backfill window
+ */
+async function resolveCompletionDate(supabase: any, userId: string, body: any, today: string) {
+  const requested = body.completed_for_date || body.completedForDate || body.date
+  if (!requested || requested === today) return today
+
+  const windowDays = await getBackfillWindow(supabase, userId)
+  const backfillError = getBackfillError(requested, today, windowDays)
+  if (backfillError) {
+    throw new Error(backfillError)
+  }
+  return requested
+}
+
+/**
+ * Helper: Count paused days in a range
+ */
+function countPausedDays(habit: any, startDate: string, endDate: string): number {
+  let days = 0
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (isHabitPausedOn(habit, date)) days++
+  }
+  return days
+}
+
+/**
+ * Helper: Fetch all completions (date and logged value) for a habit, most recent first
+ */
+async function getCompletions(supabase: any, habitId: string): Promise<any[]> {
+  const { data: completions } = await supabase
+    .from('habit_completions')
+    .select('completed_at, value')
+    .eq('habit_id', habitId)
+    .order('completed_at', { ascending: false })
+
+  return completions || []
+}
+
+/**
+ * Helper: Fetch every completion for a set of habits, grouped by habit.
+ * Paged because PostgREST caps each response at 1000 rows.
+ */
+async function getCompletionsByHabit(supabase: any, habitIds: string[]): Promise<Map<string, any[]>> {
+  const byHabit = new Map<string, any[]>()
+  if (habitIds.length === 0) return byHabit
+
+  const pageSize = 1000
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('habit_completions')
+      .select('habit_id, completed_at, value, notes')
+      .in('habit_id', habitIds)
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch completions: ${error.message}`)
+    }
+    for (const row of data || []) {
+      if (!byHabit.has(row.habit_id)) byHabit.set(row.habit_id, [])
+      byHabit.get(row.habit_id)!.push(row)
+    }
+    if (!data || data.length < pageSize) break
+  }
+
+  return byHabit
+}
+
+/**
+ * Helper: Logged dates (YYYY-MM-DD) per habit, for duplicate detection
+ */
+async function getCompletionDatesByHabit(supabase: any, habitIds: string[]): Promise<Map<string, string[]>> {
+  const byHabit = await getCompletionsByHabit(supabase, habitIds)
+  const dates = new Map<string, string[]>()
+  for (const [habitId, rows] of byHabit) {
+    dates.set(habitId, rows.map(row => String(row.completed_at).slice(0, 10)))
+  }
+  return dates
+}
+
+/**
+ * Helper: Add an amount to a measurable habit's completion row for a date,
+ * creating the row on the first entry of the day
+ */
+async function addToCompletion(
+  supabase: any,
+  habit: any,
+  completionDate: string,
+  amount: number,
+  userId: string,
+  isBackfill: boolean,
+  notes?: string,
+  moodRating?: number
+) {
+  // Summed in the database so concurrent entries for the day don't overwrite each other
+  const { data, error } = await supabase.rpc('add_habit_progress', {
+    p_habit_id: habit.id,
+    p_completed_at: completionDate,
+    p_amount: amount,
+    p_notes: notes || null,
+    p_mood_rating: moodRating || null,
+    p_is_backfilled: isBackfill,
+    p_logged_by: userId
+  })
+
+  if (error) {
+    throw new Error(`Failed to record progress: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Helper: Validate target fields for measurable habits
+ */
+function validateMeasurableFields(targetValue: any, targetPeriod: any) {
+  if (targetValue !== undefined && targetValue !== null && !(Number(targetValue) > 0)) {
+    throw new Error('Target value must be a positive number')
+  }
+  if (targetPeriod !== undefined && targetPeriod !== null && !['day', 'week'].includes(targetPeriod)) {
+    throw new Error('Target period must be "day" or "week"')
+  }
+}
+
+/**
+ * Helper: Validate the grace window
+ */
+function validateGraceDays(graceDays: any) {
+  if (graceDays === undefined || graceDays === null) return
+  if (!Number.isInteger(graceDays) || graceDays < 0 || graceDays > MAX_GRACE_DAYS) {
+    throw new Error(`Grace days must be a whole number from 0 to ${MAX_GRACE_DAYS}`)
   }
 }
 
@@ -736,7 +1715,7 @@ function calculateExpectedDays(
 async function scheduleHabitReminder(
   supabase: any,
   userId: string,
-  habitId: string,
+  habit: any,
   reminderTime: string
 ) {
   // Get user's timezone preference
@@ -749,15 +1728,8 @@ async function scheduleHabitReminder(
   const timezone = prefs?.timezone || 'America/New_York'
   const channel = prefs?.preferred_channel || 'push'
 
-  // Calculate next occurrence of reminder time
-  const now = new Date()
-  const [hours, minutes] = reminderTime.split(':').map(Number)
-  const scheduledFor = new Date(now)
-  scheduledFor.setHours(hours, minutes, 0, 0)
-
-  if (scheduledFor <= now) {
-    scheduledFor.setDate(scheduledFor.getDate() + 1)
-  }
+  // Calculate next scheduled occurrence of reminder time in the user's timezone
+  const scheduledFor = getNextReminderTime(habit, reminderTime, timezone)
 
   await supabase
     .from('scheduled_checkins')
@@ -768,7 +1740,7 @@ async function scheduleHabitReminder(
       channel,
       status: 'pending',
       content: {
-        habit_id: habitId,
+        habit_id: habit.id,
         type: 'reminder'
       }
     })
@@ -779,17 +1751,25 @@ async function scheduleHabitReminder(
  */
 async function checkStreakMilestone(
   supabase: any,
+  supabaseAdmin: any,
   userId: string,
   habitId: string,
   habitTitle: string,
   currentStreak: number
 ) {
-  const milestones = [7, 14, 21, 30, 60, 90, 100, 180, 365]
-
-  if (milestones.includes(currentStreak)) {
+  if (isStreakMilestone(currentStreak)) {
     // Log milestone achievement
     console.log(`Streak milestone reached: ${habitTitle} - ${currentStreak} days`)
 
+    // Milestones earn a streak freeze
+    const { error: freezeError } = await supabaseAdmin.rpc('earn_streak_freeze', {
+      p_user_id: userId,
+      p_max_available: MAX_EARNED_FREEZES
+    })
+    if (freezeError) {
+      console.error('Error granting streak freeze:', freezeError)
+    }
+
     // Call celebrate-streak function for notification handling
     try {
       const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { scanStoredImage } from '../_shared/image-moderation.ts'
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+/**
+ * Moderate Image
+ *
+ * Scans one of the user's images after it is saved and records the
+ * result. Flagged images go to the quarantine queue for admin review
+ * (admin-list-moderation-queue / admin-review-moderation-item) and are
+ * blocked from printing. Generated images from the background worker are
+ * scanned there instead. Only pending images are scanned; anything
+ * already decided returns its current status.
+ *
+ * Request Body:
+ * - source: 'vision' | 'reference'
+ * - image_id: UUID of the vision_boards or reference_images row
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: { ...corsHeaders, 'Access-Control-Allow-Methods': 'POST, OPTIONS' }
+    })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    // Service role: users can't write moderation_status themselves
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+    if (authError || !user) {
+      throw new Error('Invalid or expired authentication token')
+    }
+
+    const { source, image_id } = await req.json().catch(() => ({}))
+    if (source !== 'vision' && source !== 'reference') {
+      throw new Error("source must be 'vision' or 'reference'")
+    }
+    if (!image_id) {
+      throw new Error('image_id is required')
+    }
+
+    const { status, result } = await scanStoredImage(supabase, source, image_id, user.id)
+
+    if (result?.flagged) {
+      console.log(`Image ${image_id} flagged for review:`, result.categories.join(', '))
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, status, categories: result?.categories || [] }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error: any) {
+    console.error('Moderate image error:', error.message)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
@@ -0,0 +1,352 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  addDays,
+  attachStreakProtection,
+  getLocalDateString,
+  getTodayInTimezone,
+  getUserTimezone
+} from '../_shared/habit-schedule.ts'
+import {
+  FINANCIAL_WINDOW_DAYS,
+  getDelayWeeks,
+  getHabitConsistency,
+  groupTasksIntoGoals,
+  HABIT_WINDOW_DAYS,
+  predictFinancialGoal,
+  predictTaskGoal,
+  shouldSendPaceWarning
+} from '../_shared/progress-prediction.ts'
+import type { GoalPrediction, PredictionTask } from '../_shared/progress-prediction.ts'
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+/**
+ * Predict Progress
+ *
+ * Deterministic goal forecasts written to progress_predictions, one row
+ * per goal:
+ * - Milestone goals from action_tasks completion velocity
+ * - Financial target from net worth snapshots
+ * - Habit consistency adjusts confidence and recommendations
+ *
+ * Goals that fall behind emit a pace_warning through schedule-notification
+ * (at most weekly per goal).
+ *
+ * Actions:
+ * - predict: Recalculate predictions for the current user
+ * - process_all: Recalculate predictions for all onboarded users (cron job)
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: { ...corsHeaders, 'Access-Control-Allow-Methods': 'POST, GET, OPTIONS' }
+    })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    const url = new URL(req.url)
+    const action = url.searchParams.get('action') || 'predict'
+
+    // For process_all action (cron), no auth needed
+    if (action === 'process_all') {
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+      return await processAllUsers(supabase)
+    }
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid or expired authentication token')
+    }
+
+    switch (action) {
+      case 'predict': {
+        const predictions = await generatePredictions(supabase, user.id)
+        return new Response(
+          JSON.stringify({ success: true, predictions }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      default:
+        throw new Error(`Unknown action: ${action}. Valid actions: predict, process_all`)
+    }
+
+  } catch (error: any) {
+    console.error('Predict progress error:', error.message)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
+
+/**
+ * Recalculate and store a user's goal predictions, then send pace warnings
+ */
+async function generatePredictions(supabase: any, userId: string): Promise<GoalPrediction[]> {
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+
+  const [tasks, habitData, financial] = await Promise.all([
+    getPlanTasks(supabase, userId, timezone),
+    getHabitData(supabase, userId, today),
+    getFinancialData(supabase, userId, today)
+  ])
+
+  const habitStart = addDays(today, -(HABIT_WINDOW_DAYS - 1))
+  const overallHabits = getHabitConsistency(habitData.habits, habitData.completionsByHabit, habitStart, today, timezone, false)
+
+  const predictions: GoalPrediction[] = groupTasksIntoGoals(tasks).map(goal => {
+    const taskIds = new Set(goal.tasks.map(t => t.id))
+    const linked = habitData.habits.filter((h: any) => h.task_id && taskIds.has(h.task_id))
+    const habits = linked.length > 0
+      ? getHabitConsistency(linked, habitData.completionsByHabit, habitStart, today, timezone, true)
+      : overallHabits
+    return predictTaskGoal(goal, habits, today)
+  })
+
+  // The financial target is due with the last milestone of the plan
+  const milestoneYears = tasks.map(t => t.milestone_year).filter((y): y is number => !!y)
+  const financialTargetDate = predictions.map(p => p.target_date)
+    .concat(milestoneYears.map(y => `${y}-12-31`))
+    .sort()
+    .pop()
+
+  if (financial.target > 0 && financialTargetDate) {
+    const prediction = predictFinancialGoal(financial.target, financialTargetDate, financial.snapshots, overallHabits, today)
+    if (prediction) predictions.push(prediction)
+  }
+
+  await savePredictions(supabase, userId, predictions)
+  console.log(`Predicted ${predictions.length} goals for user ${userId}`)
+
+  return predictions
+}
+
+/**
+ * Recalculate predictions for every onboarded user (cron job)
+ */
+async function processAllUsers(supabase: any) {
+  const results = {
+    processed: 0,
+    failed: 0,
+    errors: [] as string[]
+  }
+
+  const pageSize = 1000
+  for (let from = 0; ; from += pageSize) {
+    const { data: users, error } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('onboarding_completed', true)
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch users: ${error.message}`)
+    }
+
+    for (const user of users || []) {
+      try {
+        await generatePredictions(supabase, user.id)
+        results.processed++
+      } catch (e: any) {
+        results.failed++
+        results.errors.push(`${user.id}: ${e.message}`)
+      }
+    }
+
+    if (!users || users.length < pageSize) break
+  }
+
+  console.log(`Processed ${results.processed} users, ${results.failed} failed`)
+
+  return new Response(
+    JSON.stringify({ success: true, results }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Tasks in the user's active plan (plus tasks not tied to any plan)
+ */
+async function getPlanTasks(supabase: any, userId: string, timezone: string): Promise<PredictionTask[]> {
+  const { data: activePlan } = await supabase
+    .from('goal_plans')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  let query = supabase
+    .from('action_tasks')
+    .select('id, title, due_date, is_completed, completed_at, milestone_year')
+    .eq('user_id', userId)
+    .is('skipped_at', null)
+
+  query = activePlan
+    ? query.or(`plan_id.is.null,plan_id.eq.${activePlan.id}`)
+    : query.is('plan_id', null)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load tasks: ${error.message}`)
+  }
+
+  return (data || []).map((task: any) => ({
+    ...task,
+    completed_on: task.completed_at ? getLocalDateString(new Date(task.completed_at), timezone) : null
+  }))
+}
+
+async function getHabitData(supabase: any, userId: string, today: string) {
+  const { data: habits } = await supabase
+    .from('habits')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+
+  const protectedHabits = await attachStreakProtection(supabase, habits || [])
+  const completionsByHabit = new Map<string, any[]>()
+  if (protectedHabits.length === 0) return { habits: protectedHabits, completionsByHabit }
+
+  const { data: completions } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_at, value')
+    .in('habit_id', protectedHabits.map((h: any) => h.id))
+    .gte('completed_at', addDays(today, -(HABIT_WINDOW_DAYS - 1)))
+    .lte('completed_at', today)
+
+  for (const completion of completions || []) {
+    if (!completionsByHabit.has(completion.habit_id)) completionsByHabit.set(completion.habit_id, [])
+    completionsByHabit.get(completion.habit_id)!.push(completion)
+  }
+
+  return { habits: protectedHabits, completionsByHabit }
+}
+
+/**
+ * Financial target (active plan first, then profile) and recent snapshots
+ */
+async function getFinancialData(supabase: any, userId: string, today: string) {
+  const [{ data: plan }, { data: profile }, { data: snapshots }] = await Promise.all([
+    supabase.from('goal_plans').select('financial_target').eq('user_id', userId).eq('status', 'active').maybeSingle(),
+    supabase.from('profiles').select('financial_target').eq('id', userId).single(),
+    supabase
+      .from('financial_snapshots')
+      .select('snapshot_date, net_worth')
+      .eq('user_id', userId)
+      .gte('snapshot_date', addDays(today, -FINANCIAL_WINDOW_DAYS))
+      .order('snapshot_date', { ascending: true })
+  ])
+
+  return {
+    target: Number(plan?.financial_target || profile?.financial_target || 0),
+    snapshots: snapshots || []
+  }
+}
+
+/**
+ * Upsert one row per goal, drop goals that no longer apply and send
+ * pace warnings for goals that fell behind
+ */
+async function savePredictions(supabase: any, userId: string, predictions: GoalPrediction[]) {
+  const { data: existing } = await supabase
+    .from('progress_predictions')
+    .select('goal_type, last_warned_at')
+    .eq('user_id', userId)
+
+  const lastWarned = new Map<string, string | null>(
+    (existing || []).map((row: any) => [row.goal_type, row.last_warned_at])
+  )
+  const calculatedAt = new Date().toISOString()
+
+  if (predictions.length > 0) {
+    const { error } = await supabase
+      .from('progress_predictions')
+      .upsert(
+        predictions.map(p => ({ user_id: userId, ...p, calculated_at: calculatedAt })),
+        { onConflict: 'user_id,goal_type' }
+      )
+
+    if (error) {
+      throw new Error(`Failed to save predictions: ${error.message}`)
+    }
+  }
+
+  const current = new Set(predictions.map(p => p.goal_type))
+  const stale = [...lastWarned.keys()].filter(goalType => !current.has(goalType))
+  if (stale.length > 0) {
+    await supabase
+      .from('progress_predictions')
+      .delete()
+      .eq('user_id', userId)
+      .in('goal_type', stale)
+  }
+
+  for (const prediction of predictions) {
+    if (!shouldSendPaceWarning(prediction, lastWarned.get(prediction.goal_type))) continue
+
+    try {
+      await sendPaceWarning(userId, prediction)
+      await supabase
+        .from('progress_predictions')
+        .update({ last_warned_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('goal_type', prediction.goal_type)
+    } catch (e: any) {
+      console.error(`Pace warning failed for ${userId} (${prediction.goal_type}):`, e.message)
+    }
+  }
+}
+
+async function sendPaceWarning(userId: string, prediction: GoalPrediction) {
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/schedule-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({
+      action: 'trigger_event',
+      userId,
+      eventType: 'pace_falling_behind',
+      eventData: {
+        goalTitle: prediction.goal_type,
+        delayWeeks: getDelayWeeks(prediction),
+        pace: prediction.current_pace,
+        recommendation: prediction.recommendations[0] || null
+      }
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error(`schedule-notification returned ${response.status}`)
+  }
+}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getDelayWeeks, shouldSendPaceWarning } from '../_shared/progress-prediction.ts'
 
 declare const Deno: any;
 
@@ -20,7 +21,7 @@ const corsHeaders = {
  * - habit_reminder: Daily habit check-ins
  * - weekly_review: Weekly progress summaries
  * - milestone_reminder: Upcoming milestone alerts
- * - pace_warning: Goal pace warnings
+ * - pace_warning: Goal pace warnings (predictions come from predict-progress)
  * - streak_celebration: Streak milestones (7, 30, 100 days)
  * - custom: Custom messages from AI Agent
  */
@@ -465,7 +466,8 @@ async function checkStreakMilestones(supabase: any) {
 }
 
 /**
- * Check for pace warnings to send
+ * Check for pace warnings to send. Shares the weekly per-goal throttle
+ * (last_warned_at) with the warnings predict-progress triggers itself.
  */
 async function checkPaceWarnings(supabase: any) {
   const { data: predictions, error } = await supabase
@@ -482,32 +484,33 @@ async function checkPaceWarnings(supabase: any) {
   const warned = []
 
   for (const prediction of predictions || []) {
-    // Calculate delay
-    const targetDate = new Date(prediction.target_date)
-    const predictedDate = new Date(prediction.predicted_completion_date)
-    const delayWeeks = Math.ceil((predictedDate.getTime() - targetDate.getTime()) / (7 * 24 * 60 * 60 * 1000))
-
-    if (delayWeeks > 0) {
-      const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
-      await fetch(`${SUPABASE_URL}/functions/v1/send-sms`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
-        },
-        body: JSON.stringify({
-          userId: prediction.user_id,
-          template: 'pace_warning',
-          templateData: {
-            name: prediction.profiles?.names?.split(' ')[0] || 'there',
-            goalTitle: prediction.goal_type,
-            delayWeeks
-          }
-        })
+    if (!prediction.target_date || !shouldSendPaceWarning(prediction, prediction.last_warned_at)) continue
+    const delayWeeks = getDelayWeeks(prediction)
+
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+    await fetch(`${SUPABASE_URL}/functions/v1/send-sms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+      },
+      body: JSON.stringify({
+        userId: prediction.user_id,
+        template: 'pace_warning',
+        templateData: {
+          name: prediction.profiles?.names?.split(' ')[0] || 'there',
+          goalTitle: prediction.goal_type,
+          delayWeeks
+        }
       })
+    })
 
-      warned.push({ userId: prediction.user_id, goalType: prediction.goal_type, delayWeeks })
-    }
+    await supabase
+      .from('progress_predictions')
+      .update({ last_warned_at: new Date().toISOString() })
+      .eq('id', prediction.id)
+
+    warned.push({ userId: prediction.user_id, goalType: prediction.goal_type, delayWeeks })
   }
 
   return new Response(
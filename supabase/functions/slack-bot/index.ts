@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTodayInTimezone, getUserTimezone } from '../_shared/habit-schedule.ts'
+import { getRoutinePrompts } from '../_shared/habit-routines.ts'
 
 declare const Deno: any;
 
@@ -300,10 +302,16 @@ async function handleInteractions(supabase: any, req: Request, signingSecret: st
             notes: 'Completed via Slack'
           })
 
+        const text = `✅ Habit completed! Keep up the great work! 🔥`
+        const routineBlocks = await getRoutinePromptBlocks(supabase, installation.user_id, habitId)
+
         // Update the message
         return new Response(JSON.stringify({
           replace_original: true,
-          text: `✅ Habit completed! Keep up the great work! 🔥`
+          text,
+          ...(routineBlocks.length > 0 ? {
+            blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }, ...routineBlocks]
+          } : {})
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         })
@@ -710,12 +718,47 @@ async function completeHabitCommand(supabase: any, userId: string, habitName: st
       notes: 'Completed via Slack command'
     })
 
+  const text = `✅ "${habit.title}" marked as complete! Keep up the momentum! 🔥`
+  const routineBlocks = await getRoutinePromptBlocks(supabase, userId, habit.id)
+
   return {
     response_type: 'ephemeral',
-    text: `✅ "${habit.title}" marked as complete! Keep up the momentum! 🔥`
+    text,
+    ...(routineBlocks.length > 0 ? {
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }, ...routineBlocks]
+    } : {})
   }
 }
 
+/**
+ * Blocks prompting the next step of each routine the completed habit
+ * belongs to, with a button to complete it
+ */
+async function getRoutinePromptBlocks(supabase: any, userId: string, habitId: string): Promise<any[]> {
+  const timezone = await getUserTimezone(supabase, userId)
+  const routines = await getRoutinePrompts(supabase, habitId, getTodayInTimezone(timezone), timezone)
+
+  return routines.map(routine => {
+    const counter = `(${routine.completedSteps}/${routine.totalSteps})`
+    if (!routine.nextStep) {
+      return {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `🎉 *${routine.title}* routine complete ${counter}` }]
+      }
+    }
+    return {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `➡️ Next in *${routine.title}* ${counter}: *${routine.nextStep.title}*` },
+      accessory: {
+        type: 'button',
+        text: { type: 'plain_text', text: 'Complete', emoji: true },
+        action_id: `complete_habit_${routine.nextStep.habit_id}`,
+        style: 'primary'
+      }
+    }
+  })
+}
+
 function getHelpCommand() {
   return {
     response_type: 'ephemeral',
@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { BLOCKED_MODERATION_STATUSES, scanStoredImage } from '../_shared/image-moderation.ts'
+import { WORKBOOK_PRINT_URL_TTL_SECONDS, getWorkbookPdfPath, signWorkbookPdfUrl } from '../_shared/workbook-export.ts'
 
 declare const Deno: any;
 
@@ -14,6 +17,9 @@ const corsHeaders = {
  * - Omit empty line2/stateOrCounty fields (Prodigi rejects empty strings)
  * - Remove finish attribute for canvas products (GLOBAL-CAN-*)
  * - Trim whitespace from all address fields
+ * - Refuse orders containing images flagged by moderation (403, blocked: true);
+ *   images not scanned yet are scanned first and refused if the scan fails
+ * - Re-sign workbook PDF links (private bucket) so Prodigi gets a long-lived URL
  */
 serve(async (req) => {
   // Handle CORS preflight requests - must return before any JSON parsing
@@ -45,6 +51,20 @@ serve(async (req) => {
       )
     }
 
+    // Moderation gate: flagged, rejected and unscannable images never reach the printer
+    const blockedIds = await findBlockedImages(orderId, items)
+    if (blockedIds.length > 0) {
+      console.warn(`Order ${orderId} blocked by moderation:`, blockedIds.join(', '))
+      return new Response(
+        JSON.stringify({
+          success: false,
+          blocked: true,
+          error: 'This order contains an image that is under content review and can\'t be printed'
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
     // If no API key, return simulation response
     if (!PRODIGI_API_KEY) {
       console.log('PRODIGI_API_KEY not set - returning simulation response')
@@ -59,6 +79,8 @@ serve(async (req) => {
       )
     }
 
+    const printItems = await signWorkbookAssets(orderId, items)
+
     // Construct Prodigi API request
     const prodigiEndpoint = PRODIGI_SANDBOX
       ? 'https://api.sandbox.prodigi.com/v4.0/Orders'
@@ -92,7 +114,7 @@ serve(async (req) => {
         name: (recipient.name || '').trim(),
         address
       },
-      items: items.map((item: any) => {
+      items: printItems.map((item: any) => {
         console.log('Processing item SKU:', item.sku)
 
         const mappedItem: any = {
@@ -179,3 +201,70 @@ serve(async (req) => {
     )
   }
 })
+
+/**
+ * Links to this order's files in the private workbooks bucket may have
+ * expired; replace them with ones signed long enough for Prodigi to fetch
+ * the file when production starts. Other URLs pass through unchanged.
+ */
+async function signWorkbookAssets(orderId: string, items: any[]): Promise<any[]> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'))
+
+  return Promise.all(items.map(async (item: any) => ({
+    ...item,
+    assets: await Promise.all((item.assets || []).map(async (asset: any) => {
+      const path = asset.url ? getWorkbookPdfPath(asset.url, supabaseUrl) : null
+      if (!path || !path.startsWith(`${orderId}/`)) return asset
+      return { ...asset, url: await signWorkbookPdfUrl(supabase, path, WORKBOOK_PRINT_URL_TTL_SECONDS) }
+    }))
+  })))
+}
+
+/**
+ * Vision ids in this order that moderation has flagged or rejected. Visions
+ * are found through the poster or workbook order and by matching asset URLs,
+ * so callers that only send image URLs are covered too. Pending visions
+ * (their first scan failed) are scanned now; if that fails again they
+ * count as blocked.
+ */
+async function findBlockedImages(orderId: string, items: any[]): Promise<string[]> {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'))
+
+  const [{ data: posterOrder }, { data: workbookOrder }] = await Promise.all([
+    supabase.from('poster_orders').select('vision_board_id').eq('id', orderId).maybeSingle(),
+    supabase.from('workbook_orders').select('vision_board_ids').eq('id', orderId).maybeSingle()
+  ])
+
+  const visionIds = [
+    ...(posterOrder?.vision_board_id ? [posterOrder.vision_board_id] : []),
+    ...(workbookOrder?.vision_board_ids || [])
+  ]
+  const assetUrls = items.flatMap((item: any) => (item.assets || []).map((asset: any) => asset.url)).filter(Boolean)
+
+  const checked = [...BLOCKED_MODERATION_STATUSES, 'pending']
+  const [byId, byUrl] = await Promise.all([
+    visionIds.length
+      ? supabase.from('vision_boards').select('id, user_id, moderation_status').in('id', visionIds).in('moderation_status', checked)
+      : Promise.resolve({ data: [] }),
+    assetUrls.length
+      ? supabase.from('vision_boards').select('id, user_id, moderation_status').in('image_url', assetUrls).in('moderation_status', checked)
+      : Promise.resolve({ data: [] })
+  ])
+
+  const rows = new Map([...(byId.data || []), ...(byUrl.data || [])].map((row: any) => [row.id, row]))
+  const blocked: string[] = []
+  for (const row of rows.values()) {
+    let status = row.moderation_status
+    if (status === 'pending') {
+      try {
+        status = (await scanStoredImage(supabase, 'vision', row.id, row.user_id)).status
+      } catch (error: any) {
+        console.error(`Moderation scan failed for vision ${row.id}:`, error.message)
+      }
+    }
+    if (status !== 'approved') blocked.push(row.id)
+  }
+
+  return blocked
+}
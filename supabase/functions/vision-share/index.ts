@@ -0,0 +1,293 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  buildSharePreviewHtml,
+  createShare,
+  getShareState,
+  PASSCODE_LOCKOUT_MINUTES,
+  PASSCODE_MAX_ATTEMPTS,
+  revokeShare,
+  verifyPasscode
+} from '../_shared/vision-share.ts'
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+/**
+ * Vision Share
+ *
+ * Expiring, revocable public links to a single vision board.
+ *
+ * The share URL points at this function so link previews get Open Graph
+ * tags; browsers are redirected to the app's public /share/:token route,
+ * which loads the shared vision with the view action. verify_jwt is off
+ * for this function; owner actions check the Authorization header
+ * themselves.
+ *
+ * Actions:
+ * - preview (GET ?token=...): HTML page with Open Graph tags
+ * - view (public): Shared image, title and goals; counts the view
+ * - create: New share link for one of the user's visions
+ * - list: The user's share links with view counts and state
+ * - revoke: Stop a share link from working
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: { ...corsHeaders, 'Access-Control-Allow-Methods': 'POST, GET, OPTIONS' }
+    })
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const SITE_URL = Deno.env.get('SITE_URL') || 'https://ai-interactive-vision-board-2.vercel.app'
+  const url = new URL(req.url)
+  const previewToken = url.searchParams.get('token')
+
+  // Link previews and clicks on the shared URL
+  if (previewToken) {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    return await servePreview(supabase, previewToken, SITE_URL)
+  }
+
+  try {
+    const action = url.searchParams.get('action') || 'list'
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+
+    if (action === 'view') {
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+      return await handleView(supabase, body)
+    }
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid or expired authentication token')
+    }
+
+    // vision_shares is read-only to users; share writes go through the
+    // service role once the caller is verified
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+    switch (action) {
+      case 'create':
+        return await handleCreate(supabase, supabaseAdmin, user.id, body, SUPABASE_URL)
+      case 'list':
+        return await handleList(supabase, user.id, SUPABASE_URL)
+      case 'revoke':
+        return await handleRevoke(supabaseAdmin, user.id, body)
+      default:
+        throw new Error(`Unknown action: ${action}. Valid actions: view, create, list, revoke`)
+    }
+
+  } catch (error: any) {
+    console.error('Vision share error:', error.message)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
+
+/**
+ * Open Graph page for the share URL. Passcode-protected, expired and
+ * revoked shares get a preview without the image.
+ */
+async function servePreview(supabase: any, token: string, siteUrl: string) {
+  const { data: share } = await supabase
+    .from('vision_shares')
+    .select('title, goals, image_url, passcode_hash, expires_at, revoked_at')
+    .eq('token', token)
+    .maybeSingle()
+
+  const pageUrl = `${siteUrl}/share/${encodeURIComponent(token)}`
+  const state = share ? getShareState(share) : 'revoked'
+  const isOpen = state === 'active' && !share?.passcode_hash
+
+  const html = buildSharePreviewHtml({
+    title: state !== 'active'
+      ? 'This vision link is no longer available'
+      : share.title || 'A vision board shared from Visionary',
+    description: isOpen && share.goals?.length
+      ? `Goals: ${share.goals.map((g: any) => g.title).join(' · ')}`
+      : 'A vision board created with Visionary.',
+    imageUrl: isOpen ? share.image_url : '',
+    pageUrl
+  })
+
+  return new Response(html, {
+    status: share ? 200 : 404,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300'
+    }
+  })
+}
+
+/**
+ * Public read-only view of a share. Failures are returned with
+ * success: false and a reason so the page can show the right message.
+ * Each share allows PASSCODE_MAX_ATTEMPTS passcode tries per lockout
+ * window, counted in the database so parallel requests share the limit.
+ */
+async function handleView(supabase: any, body: any) {
+  const { token, passcode } = body
+  if (!token) throw new Error('Missing token')
+
+  const { data: share } = await supabase
+    .from('vision_shares')
+    .select('id, title, goals, image_url, watermarked_path, passcode_hash, expires_at, revoked_at, view_count, created_at')
+    .eq('token', token)
+    .maybeSingle()
+
+  const state = share ? getShareState(share) : 'revoked'
+  if (!share || state !== 'active') {
+    return viewFailure(share ? state : 'not_found', state === 'expired'
+      ? 'This vision link has expired.'
+      : 'This vision link is no longer available.')
+  }
+
+  if (share.passcode_hash) {
+    if (!passcode) {
+      return viewFailure('passcode_required', 'Enter the passcode to view this vision.')
+    }
+
+    const { data: allowed, error: attemptError } = await supabase.rpc('claim_share_passcode_attempt', {
+      p_share_id: share.id,
+      p_max_attempts: PASSCODE_MAX_ATTEMPTS,
+      p_window_minutes: PASSCODE_LOCKOUT_MINUTES
+    })
+    if (attemptError) {
+      throw new Error(`Failed to check passcode: ${attemptError.message}`)
+    }
+    if (!allowed) {
+      return viewFailure('passcode_locked', `Too many incorrect passcodes. Try again in ${PASSCODE_LOCKOUT_MINUTES} minutes.`)
+    }
+
+    if (!(await verifyPasscode(String(passcode), share.passcode_hash))) {
+      return viewFailure('passcode_invalid', 'That passcode is not correct.')
+    }
+  }
+
+  // Approximate under concurrent views, which is fine for a counter.
+  // A correct passcode clears the failed tries.
+  await supabase
+    .from('vision_shares')
+    .update({
+      view_count: (share.view_count || 0) + 1,
+      last_viewed_at: new Date().toISOString(),
+      ...(share.passcode_hash ? { passcode_attempts: 0, passcode_window_started_at: null } : {})
+    })
+    .eq('id', share.id)
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      share: {
+        title: share.title,
+        goals: share.goals || [],
+        image_url: share.image_url,
+        watermarked: !!share.watermarked_path,
+        expires_at: share.expires_at,
+        created_at: share.created_at
+      }
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+function viewFailure(reason: string, error: string) {
+  return new Response(
+    JSON.stringify({ success: false, reason, error }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Create a share link for one of the user's visions
+ */
+async function handleCreate(supabase: any, supabaseAdmin: any, userId: string, body: any, supabaseUrl: string) {
+  const share = await createShare(supabase, supabaseAdmin, userId, body)
+
+  console.log(`Created share link for vision ${share.vision_id}`)
+
+  return new Response(
+    JSON.stringify({ success: true, share: toOwnerShare(share, supabaseUrl) }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * The user's share links, newest first
+ */
+async function handleList(supabase: any, userId: string, supabaseUrl: string) {
+  const { data, error } = await supabase
+    .from('vision_shares')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load share links: ${error.message}`)
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, shares: (data || []).map((s: any) => toOwnerShare(s, supabaseUrl)) }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Revoke a share link and remove its watermarked copy
+ */
+async function handleRevoke(supabaseAdmin: any, userId: string, body: any) {
+  const revoked = await revokeShare(supabaseAdmin, userId, body.share_id)
+
+  return new Response(
+    JSON.stringify({ success: true, revoked }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Share as shown to its owner (never includes the passcode hash)
+ */
+function toOwnerShare(share: any, supabaseUrl: string) {
+  return {
+    id: share.id,
+    vision_id: share.vision_id,
+    share_url: `${supabaseUrl}/functions/v1/vision-share?token=${share.token}`,
+    title: share.title,
+    goals: share.goals || [],
+    image_url: share.image_url,
+    watermarked: !!share.watermarked_path,
+    has_passcode: !!share.passcode_hash,
+    state: getShareState(share),
+    expires_at: share.expires_at,
+    revoked_at: share.revoked_at,
+    view_count: share.view_count || 0,
+    last_viewed_at: share.last_viewed_at,
+    created_at: share.created_at
+  }
+}
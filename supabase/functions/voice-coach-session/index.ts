@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { describeRecurrence, normalizeRecurrence } from '../_shared/task-recurrence.ts'
 
 declare const Deno: any;
 
@@ -1256,6 +1257,10 @@ function getOpenAITools() {
               type: 'string',
               enum: ['low', 'medium', 'high'],
               description: 'Task priority'
+            },
+            recurrence: {
+              type: 'string',
+              description: 'How often the task repeats, e.g. "monthly", "quarterly", "yearly", "every 2 weeks", "every monday" or an RRULE like "FREQ=MONTHLY;BYDAY=1MO" (optional, omit for one-off tasks)'
             }
           },
           required: ['title']
@@ -1733,6 +1738,7 @@ async function executeAgentTool(
       const title = args?.title
       const description = args?.description
       const due_date_raw = args?.due_date
+      const recurrence_raw = args?.recurrence
 
       // Validate required args
       if (!title) {
@@ -1773,13 +1779,27 @@ async function executeAgentTool(
         }
       }
 
-      // Build the insert object for action_tasks table
+      // Recurring tasks start on their due date (today if none was given)
+      let recurrenceRule: string | null = null
+      if (recurrence_raw) {
+        parsedDueDate = parsedDueDate || new Date().toISOString().split('T')[0]
+        try {
+          recurrenceRule = normalizeRecurrence(recurrence_raw, parsedDueDate)
+        } catch (err: any) {
+          return { success: false, error: `${err.message} How often should "${title}" repeat?` }
+        }
+      }
+
+      // Build the insert object for action_tasks table. The task joins the
+      // plan the user is working on so an open Goals page shows it live.
       const insertData: any = {
         user_id: userId,
+        plan_id: await getEditablePlanId(supabase, userId),
         title,
         description: description || '',
         type: 'task',
         is_completed: false,
+        modified_by: 'voice_agent',
         created_at: new Date().toISOString()
       }
 
@@ -1788,6 +1808,11 @@ async function executeAgentTool(
         insertData.due_date = parsedDueDate
       }
 
+      if (recurrenceRule) {
+        insertData.recurrence_rule = recurrenceRule
+        insertData.recurrence_anchor = parsedDueDate
+      }
+
       console.log('[create_task] Inserting task:', JSON.stringify(insertData))
 
       // Create action task (using correct table name)
@@ -1802,10 +1827,19 @@ async function executeAgentTool(
         return { success: false, error: `Failed to create task: ${error.message}` }
       }
 
+      // The first occurrence starts the series
+      if (recurrenceRule) {
+        await supabase
+          .from('action_tasks')
+          .update({ recurrence_series_id: task.id })
+          .eq('id', task.id)
+      }
+
       const dueDateDisplay = parsedDueDate || ''
+      const recurrenceDisplay = recurrenceRule ? `, repeating ${describeRecurrence(recurrenceRule).toLowerCase()}` : ''
       return {
         success: true,
-        message: `Task created: "${title}"${dueDateDisplay ? ` due ${dueDateDisplay}` : ''}`,
+        message: `Task created: "${title}"${dueDateDisplay ? ` due ${dueDateDisplay}` : ''}${recurrenceDisplay}`,
         taskId: task.id
       }
     }
@@ -1979,9 +2013,10 @@ async function executeAgentTool(
         case 'tasks': {
           const { data: tasks } = await supabase
             .from('action_tasks')
-            .select('id, title, is_completed, due_date, type')
+            .select('id, title, is_completed, due_date, type, recurrence_rule')
             .eq('user_id', userId)
             .eq('is_completed', false)
+            .is('skipped_at', null)
             .order('due_date', { ascending: true })
             .limit(10)
 
@@ -1989,7 +2024,7 @@ async function executeAgentTool(
             success: true,
             data: tasks || [],
             summary: tasks?.length
-              ? `Found ${tasks.length} pending tasks: ${tasks.map((t: any) => t.title).join(', ')}`
+              ? `Found ${tasks.length} pending tasks: ${tasks.map((t: any) => t.recurrence_rule ? `${t.title} (${describeRecurrence(t.recurrence_rule).toLowerCase()})` : t.title).join(', ')}`
               : 'No pending tasks'
           }
         }
@@ -3146,6 +3181,21 @@ async function executeAgentTool(
   }
 }
 
+/**
+ * The plan new tasks belong to: the draft being edited, else the active plan
+ */
+async function getEditablePlanId(supabase: any, userId: string): Promise<string | null> {
+  const { data: plans } = await supabase
+    .from('goal_plans')
+    .select('id, status')
+    .eq('user_id', userId)
+    .in('status', ['draft', 'active'])
+    .order('created_at', { ascending: false })
+
+  const plan = (plans || []).find((p: any) => p.status === 'draft') || (plans || [])[0]
+  return plan?.id || null
+}
+
 /**
  * Parse reminder time string to Date
  */
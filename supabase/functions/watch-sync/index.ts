@@ -1,5 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  addDays,
+  attachStreakProtection,
+  calculateCurrentStreak,
+  getHabitProgress,
+  getTodayInTimezone,
+  getUserTimezone,
+  isHabitPausedOn,
+  isMeasurableHabit,
+  isStreakMilestone,
+  summarizeCompletions
+} from '../_shared/habit-schedule.ts'
+import { getRoutinePrompts } from '../_shared/habit-routines.ts'
 
 declare const Deno: any;
 
@@ -8,12 +21,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Columns the habit schedule engine reads
+const HABIT_SCHEDULE_COLUMNS =
+  'frequency, custom_days, weekly_target, target_value, target_period, unit, grace_days, paused_until, created_at'
+
 /**
  * Watch Sync - Apple Watch Data Synchronization Service
  *
  * This function handles all data sync between the Apple Watch app and Supabase:
  * - get_habits: Fetch active habits with today's completion status
- * - complete_habit: Log a habit completion from Watch
+ * - complete_habit: Log a habit completion (or an amount for measurable habits) from Watch
  * - uncomplete_habit: Undo a habit completion from Watch
  * - get_stats: Get user's habit statistics (streaks, counts)
  * - register_device: Register Watch device token for push notifications
@@ -54,7 +71,7 @@ serve(async (req) => {
         return await getHabits(supabase, user.id)
 
       case 'complete_habit':
-        return await completeHabit(supabase, user.id, body.habit_id, body.notes)
+        return await completeHabit(supabase, user.id, body.habit_id, body.notes, body.value)
 
       case 'uncomplete_habit':
         return await uncompleteHabit(supabase, user.id, body.habit_id)
@@ -82,7 +99,8 @@ serve(async (req) => {
  * Get active habits with today's completion status
  */
 async function getHabits(supabase: any, userId: string) {
-  const today = new Date().toISOString().split('T')[0]
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
 
   // Get active habits
   const { data: habits, error: habitsError } = await supabase
@@ -94,22 +112,11 @@ async function getHabits(supabase: any, userId: string) {
 
   if (habitsError) throw habitsError
 
-  // Get today's completions
-  const { data: completions, error: compError } = await supabase
-    .from('habit_completions')
-    .select('habit_id, completed_at')
-    .eq('user_id', userId)
-    .gte('completed_at', `${today}T00:00:00`)
-    .lte('completed_at', `${today}T23:59:59`)
-
-  if (compError) throw compError
-
-  const completedHabitIds = new Set(completions?.map((c: any) => c.habit_id) || [])
-
-  // Calculate streaks for each habit
-  const habitsWithStatus = await Promise.all((habits || []).map(async (habit: any) => {
-    // Simple streak calculation - count consecutive days backward
-    const streak = await calculateStreak(supabase, habit.id, userId)
+  // Calculate streaks for each habit using the shared streak engine
+  const protectedHabits = await attachStreakProtection(supabase, habits)
+  const habitsWithStatus = await Promise.all(protectedHabits.map(async (habit: any) => {
+    const completions = await getCompletions(supabase, habit.id)
+    const progress = getHabitProgress(habit, completions, today, timezone)
 
     return {
       id: habit.id,
@@ -117,9 +124,13 @@ async function getHabits(supabase: any, userId: string) {
       description: habit.description,
       frequency: habit.frequency,
       reminderTime: habit.reminder_time,
-      completedToday: completedHabitIds.has(habit.id),
-      currentStreak: streak,
-      targetCount: habit.target_count || 1
+      completedToday: progress.isComplete,
+      isPaused: isHabitPausedOn(habit, today),
+      currentStreak: calculateCurrentStreak(habit, completions, today, timezone),
+      targetCount: habit.target_count || 1,
+      unit: habit.unit || null,
+      targetValue: habit.target_value || null,
+      progress: isMeasurableHabit(habit) ? progress : null
     }
   }))
 
@@ -130,75 +141,78 @@ async function getHabits(supabase: any, userId: string) {
 }
 
 /**
- * Calculate consecutive day streak for a habit
+ * Fetch all completions (date and logged value) for a habit, most recent first
  */
-async function calculateStreak(supabase: any, habitId: string, userId: string): Promise<number> {
+async function getCompletions(supabase: any, habitId: string): Promise<any[]> {
   const { data: completions, error } = await supabase
     .from('habit_completions')
-    .select('completed_at')
+    .select('completed_at, value')
     .eq('habit_id', habitId)
-    .eq('user_id', userId)
     .order('completed_at', { ascending: false })
-    .limit(100)
 
-  if (error || !completions?.length) return 0
-
-  let streak = 0
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-
-  // Get unique dates
-  const completedDates = [...new Set(completions.map((c: any) =>
-    new Date(c.completed_at).toISOString().split('T')[0]
-  ))].sort().reverse()
-
-  // Check if completed today or yesterday to start streak
-  const todayStr = today.toISOString().split('T')[0]
-  const yesterday = new Date(today)
-  yesterday.setDate(yesterday.getDate() - 1)
-  const yesterdayStr = yesterday.toISOString().split('T')[0]
+  if (error) throw error
 
-  if (completedDates[0] !== todayStr && completedDates[0] !== yesterdayStr) {
-    return 0 // Streak broken
-  }
+  return completions || []
+}
 
-  // Count consecutive days
-  let checkDate = new Date(completedDates[0])
-  for (const dateStr of completedDates) {
-    const date = new Date(dateStr)
-    const checkDateStr = checkDate.toISOString().split('T')[0]
-
-    if (dateStr === checkDateStr) {
-      streak++
-      checkDate.setDate(checkDate.getDate() - 1)
-    } else {
-      break
-    }
-  }
+/**
+ * Fetch a habit owned by the user, with its pauses and streak freezes
+ */
+async function getOwnedHabit(supabase: any, userId: string, habitId: string) {
+  const { data: habit } = await supabase
+    .from('habits')
+    .select(`id, title, ${HABIT_SCHEDULE_COLUMNS}`)
+    .eq('id', habitId)
+    .eq('user_id', userId)
+    .single()
 
-  return streak
+  if (!habit) return null
+  const [protectedHabit] = await attachStreakProtection(supabase, [habit])
+  return protectedHabit
 }
 
 /**
  * Log a habit completion from Watch
  */
-async function completeHabit(supabase: any, userId: string, habitId: string, notes?: string) {
+async function completeHabit(
+  supabase: any,
+  userId: string,
+  habitId: string,
+  notes?: string,
+  value?: number
+) {
   if (!habitId) {
     return jsonError('habit_id is required', 400)
   }
 
-  // Check if already completed today
-  const today = new Date().toISOString().split('T')[0]
+  const habit = await getOwnedHabit(supabase, userId, habitId)
+  if (!habit) {
+    return jsonError('Habit not found', 404)
+  }
+
+  // Check if already completed today in the user's timezone
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+
+  if (isHabitPausedOn(habit, today)) {
+    return jsonError(`Habit is paused until ${habit.paused_until}`, 409)
+  }
+
   const { data: existing } = await supabase
     .from('habit_completions')
-    .select('id')
+    .select('id, value')
     .eq('habit_id', habitId)
-    .eq('user_id', userId)
-    .gte('completed_at', `${today}T00:00:00`)
-    .lte('completed_at', `${today}T23:59:59`)
+    .eq('completed_at', today)
     .single()
 
-  if (existing) {
+  const measurable = isMeasurableHabit(habit)
+  const amount = value === undefined || value === null ? Number(habit.target_value) : Number(value)
+
+  if (measurable && !(amount > 0)) {
+    return jsonError('value must be a positive number', 400)
+  }
+
+  if (existing && !measurable) {
     return jsonSuccess({
       success: true,
       alreadyCompleted: true,
@@ -206,34 +220,64 @@ async function completeHabit(supabase: any, userId: string, habitId: string, not
     })
   }
 
-  // Insert completion
-  const { data: completion, error } = await supabase
-    .from('habit_completions')
-    .insert({
-      habit_id: habitId,
-      user_id: userId,
-      completed_at: new Date().toISOString(),
-      notes: notes || null,
-      source: 'watch' // Track that this came from Watch
-    })
-    .select()
-    .single()
+  const wasComplete = measurable &&
+    getHabitProgress(habit, await getCompletions(supabase, habitId), today, timezone).isComplete
+
+  // Insert completion, or add to today's total for measurable habits
+  const { data: completion, error } = existing
+    ? await supabase
+      .from('habit_completions')
+      .update({ value: (existing.value ?? Number(habit.target_value)) + amount })
+      .eq('id', existing.id)
+      .select()
+      .single()
+    : await supabase
+      .from('habit_completions')
+      .insert({
+        habit_id: habitId,
+        completed_at: today,
+        value: measurable ? amount : null,
+        notes: notes || null,
+        source: 'watch' // Track that this came from Watch
+      })
+      .select()
+      .single()
 
   if (error) throw error
 
   // Calculate new streak
-  const newStreak = await calculateStreak(supabase, habitId, userId)
+  const completions = await getCompletions(supabase, habitId)
+  const progress = getHabitProgress(habit, completions, today, timezone)
+  const newStreak = calculateCurrentStreak(habit, completions, today, timezone)
+  const isMilestone = isStreakMilestone(newStreak) && progress.isComplete && !wasComplete
 
   // Check for streak milestones and trigger notification if needed
-  if ([7, 30, 100].includes(newStreak)) {
+  if (isMilestone) {
     await triggerStreakMilestone(supabase, userId, habitId, newStreak)
   }
 
+  // Surface the next step of any routine this habit belongs to
+  const routines = progress.isComplete && !wasComplete
+    ? await getRoutinePrompts(supabase, habitId, today, timezone)
+    : []
+  const nextRoutineStep = routines.find(r => r.nextStep)
+
   return jsonSuccess({
     success: true,
     completion,
     newStreak,
-    isMilestone: [7, 30, 100].includes(newStreak)
+    isMilestone,
+    progress: measurable ? progress : null,
+    nextRoutineStep: nextRoutineStep
+      ? {
+        routine_id: nextRoutineStep.routine_id,
+        routine_title: nextRoutineStep.title,
+        habit_id: nextRoutineStep.nextStep!.habit_id,
+        title: nextRoutineStep.nextStep!.title,
+        completed_steps: nextRoutineStep.completedSteps,
+        total_steps: nextRoutineStep.totalSteps
+      }
+      : null
   })
 }
 
@@ -245,15 +289,19 @@ async function uncompleteHabit(supabase: any, userId: string, habitId: string) {
     return jsonError('habit_id is required', 400)
   }
 
-  const today = new Date().toISOString().split('T')[0]
+  const habit = await getOwnedHabit(supabase, userId, habitId)
+  if (!habit) {
+    return jsonError('Habit not found', 404)
+  }
+
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
 
   const { error } = await supabase
     .from('habit_completions')
     .delete()
     .eq('habit_id', habitId)
-    .eq('user_id', userId)
-    .gte('completed_at', `${today}T00:00:00`)
-    .lte('completed_at', `${today}T23:59:59`)
+    .eq('completed_at', today)
 
   if (error) throw error
 
@@ -264,48 +312,46 @@ async function uncompleteHabit(supabase: any, userId: string, habitId: string) {
  * Get user's habit statistics
  */
 async function getStats(supabase: any, userId: string) {
-  const { data: habits, error } = await supabase
+  const { data: habitRows, error } = await supabase
     .from('habits')
-    .select('id, title')
+    .select(`id, title, ${HABIT_SCHEDULE_COLUMNS}`)
     .eq('user_id', userId)
     .eq('is_active', true)
 
   if (error) throw error
+  const habits = await attachStreakProtection(supabase, habitRows)
 
-  const today = new Date().toISOString().split('T')[0]
-
-  // Get today's completions
-  const { data: todayCompletions } = await supabase
-    .from('habit_completions')
-    .select('habit_id')
-    .eq('user_id', userId)
-    .gte('completed_at', `${today}T00:00:00`)
-    .lte('completed_at', `${today}T23:59:59`)
-
-  const completedToday = new Set(todayCompletions?.map((c: any) => c.habit_id) || [])
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
+  const weekAgo = addDays(today, -6)
 
-  // Calculate longest streak
+  let completedToday = 0
   let longestStreak = 0
+  let weeklyCompletions = 0
+  let weeklyCompleted = 0
+  let weeklyExpected = 0
+
   for (const habit of habits || []) {
-    const streak = await calculateStreak(supabase, habit.id, userId)
+    const completions = await getCompletions(supabase, habit.id)
+    const streak = calculateCurrentStreak(habit, completions, today, timezone)
+    const summary = summarizeCompletions(habit, completions, weekAgo, today, timezone)
+
+    if (getHabitProgress(habit, completions, today, timezone).isComplete) completedToday++
     if (streak > longestStreak) longestStreak = streak
+    weeklyCompletions += completions.filter((c: any) => c.completed_at >= weekAgo && c.completed_at <= today).length
+    weeklyCompleted += summary.completed
+    weeklyExpected += summary.expected
   }
 
-  // Get total completions this week
-  const weekAgo = new Date()
-  weekAgo.setDate(weekAgo.getDate() - 7)
-  const { count: weeklyCompletions } = await supabase
-    .from('habit_completions')
-    .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId)
-    .gte('completed_at', weekAgo.toISOString())
-
   return jsonSuccess({
     totalHabits: habits?.length || 0,
-    completedToday: completedToday.size,
-    remainingToday: (habits?.length || 0) - completedToday.size,
+    completedToday,
+    remainingToday: (habits?.length || 0) - completedToday,
     longestStreak,
-    weeklyCompletions: weeklyCompletions || 0
+    weeklyCompletions,
+    weeklyCompletionRate: weeklyExpected > 0
+      ? Math.round((weeklyCompleted / weeklyExpected) * 100)
+      : 0
   })
 }
 
@@ -351,16 +397,21 @@ async function getCoachPrompt(supabase: any, userId: string, context?: string) {
   const firstName = profile?.names?.split(' ')[0] || 'there'
 
   // Get stats for personalization
-  const { data: habits } = await supabase
+  const { data: habitRows } = await supabase
     .from('habits')
-    .select('id, title')
+    .select(`id, title, ${HABIT_SCHEDULE_COLUMNS}`)
     .eq('user_id', userId)
     .eq('is_active', true)
+  const habits = await attachStreakProtection(supabase, habitRows)
+
+  const timezone = await getUserTimezone(supabase, userId)
+  const today = getTodayInTimezone(timezone)
 
   let longestStreak = 0
   let habitWithStreak = ''
   for (const habit of habits || []) {
-    const streak = await calculateStreak(supabase, habit.id, userId)
+    const completions = await getCompletions(supabase, habit.id)
+    const streak = calculateCurrentStreak(habit, completions, today, timezone)
     if (streak > longestStreak) {
       longestStreak = streak
       habitWithStreak = habit.title
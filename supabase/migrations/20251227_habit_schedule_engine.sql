@@ -0,0 +1,37 @@
+-- ============================================
+-- HABIT SCHEDULE ENGINE
+-- Migration: 20251227_habit_schedule_engine
+--
+-- Adds weekly completion targets to habits. Streaks and completion rates
+-- are now computed by the shared habit-schedule module in Edge Functions,
+-- in each user's timezone, using frequency, custom_days and weekly_target.
+-- ============================================
+
+-- ============================================
+-- PART 1: WEEKLY TARGET COLUMN
+-- ============================================
+
+ALTER TABLE habits
+  ADD COLUMN IF NOT EXISTS weekly_target INT DEFAULT 1;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'habits_weekly_target_check'
+  ) THEN
+    ALTER TABLE habits
+      ADD CONSTRAINT habits_weekly_target_check
+      CHECK (weekly_target >= 1 AND weekly_target <= 7);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN habits.weekly_target IS
+  'Completions required per week for weekly habits without custom_days (1-7)';
+
+-- ============================================
+-- PART 2: INDEXES
+-- ============================================
+
+-- Streak calculation reads a habit's completions newest first
+CREATE INDEX IF NOT EXISTS idx_habit_completions_habit_date
+  ON habit_completions(habit_id, completed_at DESC);
@@ -0,0 +1,63 @@
+-- ============================================
+-- QUANTITATIVE HABITS
+-- Migration: 20251228_quantitative_habits
+--
+-- Adds measurable habits ("8 glasses of water", "30 minutes reading").
+-- A habit with a target_value is measurable: entries are summed into the
+-- day's habit_completions.value, and the day (or week) is complete once
+-- the total reaches the target. Partial totals earn partial credit in
+-- completion rates.
+-- ============================================
+
+-- ============================================
+-- PART 1: HABIT TARGETS
+-- ============================================
+
+ALTER TABLE habits
+  ADD COLUMN IF NOT EXISTS unit TEXT,
+  ADD COLUMN IF NOT EXISTS target_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS target_period TEXT DEFAULT 'day';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'habits_target_value_check'
+  ) THEN
+    ALTER TABLE habits
+      ADD CONSTRAINT habits_target_value_check
+      CHECK (target_value IS NULL OR target_value > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'habits_target_period_check'
+  ) THEN
+    ALTER TABLE habits
+      ADD CONSTRAINT habits_target_period_check
+      CHECK (target_period IN ('day', 'week'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN habits.unit IS 'Unit label for measurable habits (e.g. glasses, minutes, steps)';
+COMMENT ON COLUMN habits.target_value IS 'Amount to reach per target_period; NULL for yes/no habits';
+COMMENT ON COLUMN habits.target_period IS 'Whether target_value applies per scheduled day or per week';
+
+-- ============================================
+-- PART 2: COMPLETION VALUES
+-- ============================================
+
+ALTER TABLE habit_completions
+  ADD COLUMN IF NOT EXISTS value NUMERIC;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'habit_completions_value_check'
+  ) THEN
+    ALTER TABLE habit_completions
+      ADD CONSTRAINT habit_completions_value_check
+      CHECK (value IS NULL OR value >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN habit_completions.value IS
+  'Summed amount logged for the day on measurable habits; NULL for yes/no habits';
@@ -0,0 +1,176 @@
+-- ============================================
+-- STREAK PROTECTION
+-- Migration: 20251229_streak_protection
+--
+-- Keeps one missed day from wiping out a long streak:
+-- - Streak freezes: earned at streak milestones or bought with credits,
+--   then spent to cover a missed day
+-- - Grace window: habits.grace_days consecutive misses are tolerated
+-- - Vacation mode: pause a habit until a date; paused days count as
+--   neither missed nor completed
+-- ============================================
+
+-- ============================================
+-- PART 1: GRACE WINDOW AND PAUSE STATE
+-- ============================================
+
+ALTER TABLE habits
+  ADD COLUMN IF NOT EXISTS grace_days INT DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS paused_until DATE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'habits_grace_days_check'
+  ) THEN
+    ALTER TABLE habits
+      ADD CONSTRAINT habits_grace_days_check
+      CHECK (grace_days BETWEEN 0 AND 3);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN habits.grace_days IS 'Consecutive missed days (or weeks) tolerated before the streak breaks';
+COMMENT ON COLUMN habits.paused_until IS 'Last day of the active vacation pause; NULL when not paused';
+
+-- ============================================
+-- PART 2: PAUSE HISTORY
+-- ============================================
+
+-- Kept after a pause ends so past stats keep excluding paused days
+CREATE TABLE IF NOT EXISTS habit_pauses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id UUID NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE habit_pauses ENABLE ROW LEVEL SECURITY;
+
+-- Pauses are written only by habit-service, which checks the dates
+CREATE POLICY "Users can view own habit pauses"
+ON habit_pauses FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_habit_pauses_habit ON habit_pauses(habit_id, start_date);
+
+-- ============================================
+-- PART 3: STREAK FREEZES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS user_streak_freezes (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  available INT NOT NULL DEFAULT 0 CHECK (available >= 0),
+  earned_total INT NOT NULL DEFAULT 0,
+  purchased_total INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_streak_freezes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own streak freeze balance"
+ON user_streak_freezes FOR SELECT
+USING (auth.uid() = user_id);
+
+-- One row per missed day covered by a freeze
+CREATE TABLE IF NOT EXISTS habit_streak_freezes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id UUID NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  frozen_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(habit_id, frozen_date)
+);
+
+ALTER TABLE habit_streak_freezes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own used streak freezes"
+ON habit_streak_freezes FOR SELECT
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- PART 4: FREEZE FUNCTIONS
+-- ============================================
+
+-- Grant an earned freeze unless the user already holds p_max_available
+CREATE OR REPLACE FUNCTION earn_streak_freeze(p_user_id UUID, p_max_available INT DEFAULT 3)
+RETURNS INT AS $$
+DECLARE
+  v_available INT;
+BEGIN
+  INSERT INTO user_streak_freezes (user_id, available, earned_total)
+  VALUES (p_user_id, 1, 1)
+  ON CONFLICT (user_id) DO UPDATE
+    SET available = user_streak_freezes.available
+          + CASE WHEN user_streak_freezes.available < p_max_available THEN 1 ELSE 0 END,
+        earned_total = user_streak_freezes.earned_total
+          + CASE WHEN user_streak_freezes.available < p_max_available THEN 1 ELSE 0 END,
+        updated_at = NOW()
+  RETURNING available INTO v_available;
+
+  RETURN v_available;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spend credits on a freeze; raises if the user cannot afford it
+CREATE OR REPLACE FUNCTION purchase_streak_freeze(p_user_id UUID, p_cost INT)
+RETURNS INT AS $$
+DECLARE
+  v_available INT;
+BEGIN
+  IF p_cost IS NULL OR p_cost <= 0 THEN
+    RAISE EXCEPTION 'Streak freeze cost must be positive';
+  END IF;
+
+  UPDATE profiles
+    SET credits = credits - p_cost
+    WHERE id = p_user_id AND COALESCE(credits, 0) >= p_cost;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not enough credits to buy a streak freeze';
+  END IF;
+
+  INSERT INTO user_streak_freezes (user_id, available, purchased_total)
+  VALUES (p_user_id, 1, 1)
+  ON CONFLICT (user_id) DO UPDATE
+    SET available = user_streak_freezes.available + 1,
+        purchased_total = user_streak_freezes.purchased_total + 1,
+        updated_at = NOW()
+  RETURNING available INTO v_available;
+
+  RETURN v_available;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cover a missed day with a freeze; raises if none are available
+CREATE OR REPLACE FUNCTION use_streak_freeze(p_user_id UUID, p_habit_id UUID, p_date DATE)
+RETURNS INT AS $$
+DECLARE
+  v_available INT;
+BEGIN
+  UPDATE user_streak_freezes
+    SET available = available - 1, updated_at = NOW()
+    WHERE user_id = p_user_id AND available > 0
+    RETURNING available INTO v_available;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No streak freezes available';
+  END IF;
+
+  INSERT INTO habit_streak_freezes (habit_id, user_id, frozen_date)
+  VALUES (p_habit_id, p_user_id, p_date);
+
+  RETURN v_available;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only habit-service (service role) grants, sells or spends freezes
+REVOKE EXECUTE ON FUNCTION earn_streak_freeze(UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purchase_streak_freeze(UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION use_streak_freeze(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION earn_streak_freeze(UUID, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION purchase_streak_freeze(UUID, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION use_streak_freeze(UUID, UUID, DATE) TO service_role;
@@ -0,0 +1,218 @@
+-- ============================================
+-- HABIT BACKFILL & AUDIT TRAIL
+-- Migration: 20251230_habit_backfill_audit
+--
+-- Lets users log a completion for a past date (completed_for_date)
+-- within a configurable window, flags those entries as backfilled, and
+-- records every insert, update and delete on habit_completions with the
+-- user who made it. Team managers can review backfilled entries.
+-- add_habit_progress (summing measurable habit entries) is defined here
+-- too, since it writes the backfill columns.
+-- ============================================
+
+-- ============================================
+-- PART 1: BACKFILL FLAGS AND WINDOW
+-- ============================================
+
+ALTER TABLE habit_completions
+  ADD COLUMN IF NOT EXISTS is_backfilled BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS logged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN habit_completions.is_backfilled IS 'True when logged after the day it counts for (completed_at)';
+COMMENT ON COLUMN habit_completions.logged_by IS 'User who logged the entry';
+
+ALTER TABLE user_agent_settings
+  ADD COLUMN IF NOT EXISTS habit_backfill_days INT DEFAULT 7;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'user_agent_settings_habit_backfill_days_check'
+  ) THEN
+    ALTER TABLE user_agent_settings
+      ADD CONSTRAINT user_agent_settings_habit_backfill_days_check
+      CHECK (habit_backfill_days BETWEEN 0 AND 30);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN user_agent_settings.habit_backfill_days IS 'How many days back habit completions may be logged (0 = today only)';
+
+-- Decide is_backfilled and enforce the window in the database, so a
+-- client writing habit_completions directly can't log an old day as if
+-- it were today. "Today" is the habit owner's day in their timezone.
+-- Only service-role writes skip the window and are left as sent;
+-- habit-service imports past history that way, with logged_by set to
+-- the importing user.
+CREATE OR REPLACE FUNCTION enforce_habit_backfill_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_owner UUID;
+  v_timezone TEXT;
+  v_window INT;
+  v_today DATE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_owner FROM habits WHERE id = NEW.habit_id;
+
+  SELECT timezone INTO v_timezone FROM user_comm_preferences WHERE user_id = v_owner;
+  IF v_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'America/New_York';
+  END IF;
+
+  SELECT habit_backfill_days INTO v_window FROM user_agent_settings WHERE user_id = v_owner;
+  v_window := LEAST(GREATEST(COALESCE(v_window, 7), 0), 30);
+
+  v_today := (NOW() AT TIME ZONE v_timezone)::DATE;
+  NEW.completed_at := COALESCE(NEW.completed_at, v_today);
+
+  IF NEW.completed_at > v_today THEN
+    RAISE EXCEPTION 'Cannot log a completion for a future date';
+  END IF;
+
+  IF NEW.completed_at < v_today - v_window THEN
+    RAISE EXCEPTION 'Completions can only be logged up to % days back', v_window;
+  END IF;
+
+  NEW.is_backfilled := NEW.completed_at < v_today;
+  NEW.logged_by := auth.uid();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS habit_completions_backfill_window ON habit_completions;
+CREATE TRIGGER habit_completions_backfill_window
+  BEFORE INSERT OR UPDATE OF completed_at, is_backfilled ON habit_completions
+  FOR EACH ROW EXECUTE FUNCTION enforce_habit_backfill_window();
+
+-- ============================================
+-- PART 2: AUDIT TABLE
+-- ============================================
+
+-- No FK to habits: rows outlive the habit, and cascaded deletes must not fail
+CREATE TABLE IF NOT EXISTS habit_completion_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id UUID NOT NULL,
+  habit_title TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('logged', 'updated', 'removed')),
+  completed_for_date DATE NOT NULL,
+  is_backfilled BOOLEAN DEFAULT FALSE,
+  old_values JSONB,
+  new_values JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE habit_completion_audit IS 'Append-only history of changes to habit completions';
+
+CREATE INDEX IF NOT EXISTS idx_habit_completion_audit_user ON habit_completion_audit(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_habit_completion_audit_habit ON habit_completion_audit(habit_id, completed_for_date);
+
+ALTER TABLE habit_completion_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own habit audit"
+ON habit_completion_audit FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Team owners, admins and managers can view their members' history
+CREATE POLICY "Team managers can view member habit audit"
+ON habit_completion_audit FOR SELECT
+USING (
+  is_platform_admin()
+  OR EXISTS (
+    SELECT 1 FROM team_members manager
+    JOIN team_members member ON member.team_id = manager.team_id
+    WHERE manager.user_id = auth.uid()
+    AND manager.role IN ('owner', 'admin', 'manager')
+    AND manager.is_active = TRUE
+    AND member.user_id = habit_completion_audit.user_id
+    AND member.is_active = TRUE
+  )
+);
+
+-- ============================================
+-- PART 3: AUDIT TRIGGER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION log_habit_completion_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row habit_completions%ROWTYPE;
+  v_owner UUID;
+  v_title TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  SELECT user_id, title INTO v_owner, v_title
+  FROM habits
+  WHERE id = v_row.habit_id;
+
+  -- Habit itself is being deleted; nothing left to audit against
+  IF v_owner IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO habit_completion_audit (
+    habit_id, habit_title, user_id, actor_id, action,
+    completed_for_date, is_backfilled, old_values, new_values
+  ) VALUES (
+    v_row.habit_id,
+    v_title,
+    v_owner,
+    COALESCE(auth.uid(), v_row.logged_by),
+    CASE TG_OP WHEN 'INSERT' THEN 'logged' WHEN 'UPDATE' THEN 'updated' ELSE 'removed' END,
+    v_row.completed_at::DATE,
+    COALESCE(v_row.is_backfilled, FALSE),
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS habit_completions_audit ON habit_completions;
+CREATE TRIGGER habit_completions_audit
+  AFTER INSERT OR UPDATE OR DELETE ON habit_completions
+  FOR EACH ROW EXECUTE FUNCTION log_habit_completion_change();
+
+-- ============================================
+-- PART 4: ATOMIC PROGRESS
+-- ============================================
+
+-- Add an amount to the day's entry in one statement, so two entries
+-- logged at the same moment both count. An existing entry without a
+-- value was a plain check-off and counts as the full target.
+-- Lives here rather than with the measurable-habit columns because it
+-- writes is_backfilled and logged_by, added in PART 1.
+-- Runs as the caller: RLS on habit_completions still applies.
+CREATE OR REPLACE FUNCTION add_habit_progress(
+  p_habit_id UUID,
+  p_completed_at DATE,
+  p_amount NUMERIC,
+  p_notes TEXT DEFAULT NULL,
+  p_mood_rating INT DEFAULT NULL,
+  p_is_backfilled BOOLEAN DEFAULT FALSE,
+  p_logged_by UUID DEFAULT NULL
+)
+RETURNS habit_completions AS $$
+  INSERT INTO habit_completions (habit_id, completed_at, value, notes, mood_rating, is_backfilled, logged_by)
+  VALUES (p_habit_id, p_completed_at, p_amount, p_notes, p_mood_rating, p_is_backfilled, p_logged_by)
+  ON CONFLICT (habit_id, completed_at) DO UPDATE
+    SET value = COALESCE(
+          habit_completions.value,
+          (SELECT target_value FROM habits WHERE id = p_habit_id),
+          0
+        ) + EXCLUDED.value,
+        notes = COALESCE(EXCLUDED.notes, habit_completions.notes),
+        mood_rating = COALESCE(EXCLUDED.mood_rating, habit_completions.mood_rating)
+  RETURNING *;
+$$ LANGUAGE sql;
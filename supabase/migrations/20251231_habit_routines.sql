@@ -0,0 +1,82 @@
+-- ============================================
+-- HABIT ROUTINES
+-- Migration: 20251231_habit_routines
+--
+-- Habit stacking: a routine is an ordered chain of habits started by an
+-- anchor cue ("after morning coffee") with an optional time window.
+-- Completing a step prompts the next one; routine-level stats count a day
+-- as complete when every step scheduled that day was done.
+-- ============================================
+
+-- ============================================
+-- PART 1: ROUTINES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS habit_routines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  anchor_cue TEXT,
+  window_start TIME,
+  window_end TIME,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((window_start IS NULL) = (window_end IS NULL))
+);
+
+COMMENT ON COLUMN habit_routines.anchor_cue IS 'Existing behavior the routine is stacked on, e.g. "After morning coffee"';
+COMMENT ON COLUMN habit_routines.window_start IS 'Local start of the time window the routine is meant for';
+COMMENT ON COLUMN habit_routines.window_end IS 'Local end of the time window; may be earlier than window_start for overnight windows';
+
+CREATE INDEX IF NOT EXISTS idx_habit_routines_user ON habit_routines(user_id) WHERE is_active = TRUE;
+
+ALTER TABLE habit_routines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own habit routines"
+ON habit_routines FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_habit_routines_updated_at ON habit_routines;
+CREATE TRIGGER update_habit_routines_updated_at
+  BEFORE UPDATE ON habit_routines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- PART 2: ROUTINE STEPS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS habit_routine_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id UUID NOT NULL REFERENCES habit_routines(id) ON DELETE CASCADE,
+  habit_id UUID NOT NULL REFERENCES habits(id) ON DELETE CASCADE,
+  position INT NOT NULL CHECK (position >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(routine_id, habit_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_habit_routine_steps_routine ON habit_routine_steps(routine_id, position);
+CREATE INDEX IF NOT EXISTS idx_habit_routine_steps_habit ON habit_routine_steps(habit_id);
+
+ALTER TABLE habit_routine_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage steps of own routines"
+ON habit_routine_steps FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM habit_routines r
+    WHERE r.id = habit_routine_steps.routine_id AND r.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM habit_routines r
+    WHERE r.id = habit_routine_steps.routine_id AND r.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM habits h
+    WHERE h.id = habit_routine_steps.habit_id AND h.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,81 @@
+-- ============================================
+-- GOAL PLAN VERSION SNAPSHOTS
+-- Migration: 20260102_goal_plan_version_snapshots
+--
+-- Revisions carry task rows over from the plan they were based on, so
+-- once a revision is approved the archived plan no longer has tasks of
+-- its own. approve_goal_plan() now freezes each plan's tasks into
+-- task_snapshot when it becomes active, which lets the Goals history
+-- view compare versions and restore an archived one as a new draft.
+-- ============================================
+
+-- ============================================
+-- PART 1: SNAPSHOT COLUMNS
+-- ============================================
+
+ALTER TABLE goal_plans ADD COLUMN IF NOT EXISTS task_snapshot JSONB;
+ALTER TABLE goal_plans ADD COLUMN IF NOT EXISTS restored_from_plan_id UUID REFERENCES goal_plans(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN goal_plans.task_snapshot IS 'action_tasks rows as they were when the plan was approved; NULL for drafts';
+COMMENT ON COLUMN goal_plans.restored_from_plan_id IS 'Archived plan this draft was restored from';
+
+-- ============================================
+-- PART 2: SNAPSHOT ON APPROVAL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION approve_goal_plan(p_plan_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_plan_exists BOOLEAN;
+BEGIN
+  -- Verify plan exists and is a draft owned by user
+  SELECT EXISTS(
+    SELECT 1 FROM goal_plans
+    WHERE id = p_plan_id
+      AND user_id = p_user_id
+      AND status = 'draft'
+  ) INTO v_plan_exists;
+
+  IF NOT v_plan_exists THEN
+    RAISE EXCEPTION 'Plan not found, not a draft, or not owned by user';
+  END IF;
+
+  -- Archive any existing active plan
+  UPDATE goal_plans
+  SET status = 'archived', archived_at = NOW()
+  WHERE user_id = p_user_id AND status = 'active';
+
+  -- Approve the draft plan, freezing its tasks for history
+  UPDATE goal_plans
+  SET status = 'active',
+      approved_at = NOW(),
+      updated_at = NOW(),
+      task_snapshot = COALESCE((
+        SELECT jsonb_agg(to_jsonb(t) ORDER BY t.display_order, t.created_at)
+        FROM action_tasks t
+        WHERE t.plan_id = p_plan_id
+      ), '[]'::jsonb)
+  WHERE id = p_plan_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION approve_goal_plan(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- PART 3: BACKFILL
+-- ============================================
+-- Best effort for existing plans: whatever tasks are still attached.
+-- Archived plans whose tasks moved to a later revision stay NULL and
+-- show as having no tasks.
+
+UPDATE goal_plans gp
+SET task_snapshot = (
+  SELECT jsonb_agg(to_jsonb(t) ORDER BY t.display_order, t.created_at)
+  FROM action_tasks t
+  WHERE t.plan_id = gp.id
+)
+WHERE gp.status IN ('active', 'archived')
+  AND gp.task_snapshot IS NULL
+  AND EXISTS (SELECT 1 FROM action_tasks t WHERE t.plan_id = gp.id);
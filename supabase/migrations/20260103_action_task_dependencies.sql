@@ -0,0 +1,33 @@
+-- ============================================
+-- ACTION TASK DEPENDENCIES AND SUBTASKS
+-- Migration: 20260103_action_task_dependencies
+--
+-- Long-horizon plans need more than a flat ordered list. Tasks can now
+-- be nested under a parent task and blocked by other tasks in the same
+-- plan. Cycle checks and the projected schedule (critical path, shifted
+-- due dates) are computed by the app when a plan is saved and shown.
+-- ============================================
+
+-- ============================================
+-- PART 1: COLUMNS
+-- ============================================
+
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS parent_task_id UUID REFERENCES action_tasks(id) ON DELETE SET NULL;
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS depends_on UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS duration_days INTEGER CHECK (duration_days IS NULL OR duration_days > 0);
+
+COMMENT ON COLUMN action_tasks.parent_task_id IS 'Parent task when this task is a subtask; the parent finishes when its subtasks do';
+COMMENT ON COLUMN action_tasks.depends_on IS 'Tasks in the same plan that must be completed before this one (blocked by)';
+COMMENT ON COLUMN action_tasks.duration_days IS 'Expected working time before the due date; the timeline assumes 7 days when NULL';
+
+ALTER TABLE action_tasks DROP CONSTRAINT IF EXISTS action_tasks_not_own_parent;
+ALTER TABLE action_tasks ADD CONSTRAINT action_tasks_not_own_parent
+  CHECK (parent_task_id IS NULL OR parent_task_id <> id);
+
+-- ============================================
+-- PART 2: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_action_tasks_parent ON action_tasks(parent_task_id)
+  WHERE parent_task_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_action_tasks_depends_on ON action_tasks USING GIN (depends_on);
@@ -0,0 +1,32 @@
+-- ============================================
+-- RECURRING ACTION TASKS
+-- Migration: 20260104_recurring_action_tasks
+--
+-- Plan items like "review budget monthly" or "annual physical" repeat.
+-- A task can carry an RRULE-style rule; every occurrence is its own row
+-- and rows of one series share recurrence_series_id. Completing or
+-- skipping an occurrence creates the next one (see the task-recurrence
+-- shared module). Occurrences that lapsed while a task sat overdue are
+-- kept as skipped rows.
+-- ============================================
+
+-- ============================================
+-- PART 1: COLUMNS
+-- ============================================
+
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS recurrence_anchor DATE;
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS recurrence_series_id UUID;
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS skipped_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN action_tasks.recurrence_rule IS 'RRULE-style rule (e.g. FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15); NULL for one-off tasks';
+COMMENT ON COLUMN action_tasks.recurrence_anchor IS 'Date of the first occurrence; later occurrences are counted from it so they do not drift';
+COMMENT ON COLUMN action_tasks.recurrence_series_id IS 'Shared by every occurrence of a recurring task (the id of the first occurrence)';
+COMMENT ON COLUMN action_tasks.skipped_at IS 'When this occurrence was skipped, or lapsed before it was done';
+
+-- ============================================
+-- PART 2: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_action_tasks_recurrence_series ON action_tasks(recurrence_series_id, due_date)
+  WHERE recurrence_series_id IS NOT NULL;
@@ -0,0 +1,13 @@
+-- ============================================
+-- GOAL PLAN IMPORT SOURCE
+-- Migration: 20260105_goal_plan_import_source
+--
+-- Plans can now be imported from Markdown outlines, CSV files and
+-- Todoist/Trello exports. An import lands in a draft plan with
+-- source = 'import' (imported tasks already use action_tasks.source =
+-- 'import') and is reviewed before approval like any other draft.
+-- ============================================
+
+ALTER TABLE goal_plans DROP CONSTRAINT IF EXISTS goal_plans_source_check;
+ALTER TABLE goal_plans ADD CONSTRAINT goal_plans_source_check
+  CHECK (source IN ('onboarding', 'manual', 'revision', 'ai_regenerate', 'import'));
@@ -0,0 +1,28 @@
+-- ============================================
+-- CALENDAR FEED TOKENS
+-- Migration: 20260106_calendar_feed_tokens
+--
+-- iCalendar subscription feed of a user's plan (task due dates, milestone
+-- years, habit reminders, goal check-ins and the weekly review) for Apple
+-- Calendar, Outlook and other clients that cannot send a Supabase JWT.
+-- The feed URL carries a random per-user token instead; rotating it
+-- invalidates every existing subscription. Tokens are issued and rotated
+-- by the calendar-feed edge function only.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
+  token TEXT NOT NULL UNIQUE,
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN calendar_feed_tokens.token IS 'Random secret in the subscription URL; replaced on rotation';
+COMMENT ON COLUMN calendar_feed_tokens.last_accessed_at IS 'Last time a calendar client fetched the feed';
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed token"
+ON calendar_feed_tokens FOR SELECT
+USING (auth.uid() = user_id);
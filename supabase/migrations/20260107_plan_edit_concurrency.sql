@@ -0,0 +1,82 @@
+-- ============================================
+-- GOAL PLAN EDIT CONCURRENCY
+-- Migration: 20260107_plan_edit_concurrency
+--
+-- The Goals page, the AI coach and the voice agent can all write the
+-- same plan. Every goal_plans and action_tasks row now carries a
+-- revision that increases on each update; the app sends the revision it
+-- last read and treats a write that matches no row as a conflict to be
+-- merged instead of silently overwriting. modified_by records who made
+-- the latest change so open sessions can say where it came from, and
+-- both tables are published to realtime so those sessions see it live.
+-- ============================================
+
+-- ============================================
+-- PART 1: COLUMNS
+-- ============================================
+
+ALTER TABLE goal_plans ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE goal_plans ADD COLUMN IF NOT EXISTS modified_by TEXT NOT NULL DEFAULT 'user';
+
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE action_tasks ADD COLUMN IF NOT EXISTS modified_by TEXT NOT NULL DEFAULT 'user';
+
+ALTER TABLE goal_plans DROP CONSTRAINT IF EXISTS goal_plans_modified_by_check;
+ALTER TABLE goal_plans ADD CONSTRAINT goal_plans_modified_by_check
+  CHECK (modified_by IN ('user', 'ai_coach', 'voice_agent'));
+
+ALTER TABLE action_tasks DROP CONSTRAINT IF EXISTS action_tasks_modified_by_check;
+ALTER TABLE action_tasks ADD CONSTRAINT action_tasks_modified_by_check
+  CHECK (modified_by IN ('user', 'ai_coach', 'voice_agent'));
+
+COMMENT ON COLUMN goal_plans.revision IS 'Increases on every update; writes that expect an older revision are conflicts';
+COMMENT ON COLUMN goal_plans.modified_by IS 'Who made the latest change: user, ai_coach or voice_agent';
+COMMENT ON COLUMN action_tasks.revision IS 'Increases on every update; writes that expect an older revision are conflicts';
+COMMENT ON COLUMN action_tasks.modified_by IS 'Who made the latest change: user, ai_coach or voice_agent';
+
+-- ============================================
+-- PART 2: REVISION TRIGGER
+-- ============================================
+
+-- Bump on every update so writers that skip the check still invalidate
+-- stale copies held by open sessions
+CREATE OR REPLACE FUNCTION bump_row_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_goal_plans_revision ON goal_plans;
+CREATE TRIGGER bump_goal_plans_revision
+  BEFORE UPDATE ON goal_plans
+  FOR EACH ROW EXECUTE FUNCTION bump_row_revision();
+
+DROP TRIGGER IF EXISTS bump_action_tasks_revision ON action_tasks;
+CREATE TRIGGER bump_action_tasks_revision
+  BEFORE UPDATE ON action_tasks
+  FOR EACH ROW EXECUTE FUNCTION bump_row_revision();
+
+-- ============================================
+-- PART 3: REALTIME
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'goal_plans'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE goal_plans;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'action_tasks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE action_tasks;
+  END IF;
+END $$;
@@ -0,0 +1,147 @@
+-- ============================================
+-- BACKGROUND JOBS
+-- Migration: 20260108_background_jobs
+--
+-- Queue for work the background-worker edge function runs outside the
+-- browser. Vision image generation moves here: the client inserts a job,
+-- the worker runs the gemini-proxy model fallback chain, retries
+-- transient failures and saves the image to the gallery. A FREE user's
+-- credit is reserved when the job is claimed and refunded if it fails.
+-- Progress is written to the row and streamed to the client over
+-- realtime.
+-- ============================================
+
+-- ============================================
+-- PART 1: TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('image_generation', 'pdf_export', 'email', 'data_processing')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tables created before this migration only had the columns above
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS progress_message TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS credit_reserved BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN jobs.progress IS 'Percent complete, written by the worker as the job moves through its stages';
+COMMENT ON COLUMN jobs.progress_message IS 'Current stage shown to the user, e.g. retrying after a busy model';
+COMMENT ON COLUMN jobs.attempts IS 'Tries made so far; transient failures are retried up to max_attempts';
+COMMENT ON COLUMN jobs.credit_reserved IS 'A FREE user credit is held for this job; refunded if it fails';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_created ON jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_pending ON jobs(created_at) WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_jobs_updated_at ON jobs;
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- PART 2: RLS
+-- ============================================
+
+-- Users queue and watch their own jobs; only the worker (service role) updates them
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own jobs" ON jobs;
+CREATE POLICY "Users can view own jobs"
+ON jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own jobs" ON jobs;
+CREATE POLICY "Users can create own jobs"
+ON jobs FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'pending' AND NOT credit_reserved);
+
+-- ============================================
+-- PART 3: CREDIT RESERVATION
+-- ============================================
+
+-- The worker takes a FREE user's credit as soon as it claims a job, so two
+-- jobs started together can't both spend the last one. PRO/ELITE are
+-- unlimited and reserve nothing.
+CREATE OR REPLACE FUNCTION reserve_job_credit(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID;
+  v_tier TEXT;
+BEGIN
+  SELECT user_id INTO v_user_id FROM jobs WHERE id = p_job_id AND NOT credit_reserved;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT subscription_tier INTO v_tier FROM profiles WHERE id = v_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+  IF v_tier IS DISTINCT FROM 'FREE' THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE profiles
+    SET credits = credits - 1
+    WHERE id = v_user_id AND COALESCE(credits, 0) > 0;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No credits remaining. Upgrade to keep generating visions.';
+  END IF;
+
+  UPDATE jobs SET credit_reserved = TRUE WHERE id = p_job_id;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give a failed job's credit back; safe to call more than once
+CREATE OR REPLACE FUNCTION refund_job_credit(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  UPDATE jobs
+    SET credit_reserved = FALSE
+    WHERE id = p_job_id AND credit_reserved
+    RETURNING user_id INTO v_user_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE profiles SET credits = COALESCE(credits, 0) + 1 WHERE id = v_user_id;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the worker (service role) moves credits
+REVOKE EXECUTE ON FUNCTION reserve_job_credit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_job_credit(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_job_credit(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_job_credit(UUID) TO service_role;
+
+-- ============================================
+-- PART 4: REALTIME
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE jobs;
+  END IF;
+END $$;
@@ -0,0 +1,65 @@
+-- ============================================
+-- VISION IMAGE LINEAGE
+-- Migration: 20260109_vision_image_lineage
+--
+-- Every generation is saved to the gallery, so refining a vision leaves a
+-- trail of versions. Each vision_boards row now records the image it was
+-- generated from and the style used; lineage_root_id groups all versions
+-- descended from the same original so the Vision Board can show the
+-- history as a tree (step back, branch, compare) and the Gallery can show
+-- one card per vision.
+-- ============================================
+
+-- ============================================
+-- PART 1: COLUMNS
+-- ============================================
+
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS parent_image_id UUID REFERENCES public.vision_boards(id) ON DELETE SET NULL;
+
+-- Not a foreign key: the group survives deleting its first version
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS lineage_root_id UUID;
+
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS style TEXT;
+
+COMMENT ON COLUMN public.vision_boards.parent_image_id IS 'Version this image was generated from (null for originals)';
+COMMENT ON COLUMN public.vision_boards.lineage_root_id IS 'First version of the vision; shared by every version descended from it';
+COMMENT ON COLUMN public.vision_boards.style IS 'Style preset used for generation (photorealistic, cinematic, ...)';
+
+UPDATE public.vision_boards SET lineage_root_id = id WHERE lineage_root_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vision_boards_lineage
+ON public.vision_boards(user_id, lineage_root_id);
+
+-- ============================================
+-- PART 2: ROOT ASSIGNMENT
+-- ============================================
+
+-- Callers only send parent_image_id; the root is inherited from the parent
+-- (only within the same user's images)
+CREATE OR REPLACE FUNCTION set_vision_lineage_root()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.lineage_root_id := NULL;
+
+  IF NEW.parent_image_id IS NOT NULL THEN
+    SELECT COALESCE(lineage_root_id, id) INTO NEW.lineage_root_id
+    FROM public.vision_boards
+    WHERE id = NEW.parent_image_id AND user_id = NEW.user_id;
+
+    IF NEW.lineage_root_id IS NULL THEN
+      NEW.parent_image_id := NULL;
+    END IF;
+  END IF;
+
+  NEW.lineage_root_id := COALESCE(NEW.lineage_root_id, NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_vision_boards_lineage_root ON public.vision_boards;
+CREATE TRIGGER set_vision_boards_lineage_root
+  BEFORE INSERT ON public.vision_boards
+  FOR EACH ROW EXECUTE FUNCTION set_vision_lineage_root();
@@ -0,0 +1,90 @@
+-- ============================================
+-- VISION SHARE LINKS
+-- Migration: 20260110_vision_shares
+--
+-- Server-backed public links to a single vision board. Each share has a
+-- random token, an optional expiry and passcode, a view count, and can be
+-- revoked by its owner. The shared page shows only what the owner picked
+-- when creating the link (title and selected goals, snapshotted here), so
+-- nothing else from the profile is exposed. With the watermark option the
+-- link serves a watermarked copy of the image instead of the original.
+-- Shares are created, viewed and revoked through the vision-share edge
+-- function only.
+-- ============================================
+
+-- ============================================
+-- PART 1: TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS vision_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vision_id UUID NOT NULL REFERENCES public.vision_boards(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  title TEXT,
+  goals JSONB NOT NULL DEFAULT '[]',
+  image_url TEXT NOT NULL,
+  watermarked_path TEXT,
+  passcode_hash TEXT,
+  passcode_attempts INTEGER NOT NULL DEFAULT 0,
+  passcode_window_started_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN vision_shares.token IS 'Random secret in the public share URL';
+COMMENT ON COLUMN vision_shares.goals IS 'Goal titles the owner chose to show, copied when the link was created';
+COMMENT ON COLUMN vision_shares.image_url IS 'Image served to viewers: the vision itself, or its watermarked copy';
+COMMENT ON COLUMN vision_shares.watermarked_path IS 'Storage path of the watermarked copy in the visions bucket, removed on revoke';
+COMMENT ON COLUMN vision_shares.passcode_hash IS 'PBKDF2-SHA256 of the optional passcode ("pbkdf2$iterations$salt$hash")';
+COMMENT ON COLUMN vision_shares.passcode_attempts IS 'Passcode tries since passcode_window_started_at; reset by a correct passcode';
+
+CREATE INDEX IF NOT EXISTS idx_vision_shares_user ON vision_shares(user_id, created_at DESC);
+
+-- ============================================
+-- PART 2: RLS
+-- ============================================
+
+-- Owners can list their shares; tokens are only resolved by the edge function
+ALTER TABLE vision_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own vision shares" ON vision_shares;
+CREATE POLICY "Users can view own vision shares"
+ON vision_shares FOR SELECT
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- PART 3: PASSCODE ATTEMPTS
+-- ============================================
+
+-- Count a passcode try before it is checked, so parallel guesses can't
+-- slip past the limit. Returns false once p_max_attempts tries have been
+-- made in the current window; the window restarts after p_window_minutes.
+CREATE OR REPLACE FUNCTION claim_share_passcode_attempt(p_share_id UUID, p_max_attempts INT, p_window_minutes INT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ := NOW() - make_interval(mins => p_window_minutes);
+BEGIN
+  UPDATE vision_shares
+    SET passcode_attempts = CASE
+          WHEN passcode_window_started_at IS NULL OR passcode_window_started_at <= v_window_start THEN 1
+          ELSE passcode_attempts + 1
+        END,
+        passcode_window_started_at = CASE
+          WHEN passcode_window_started_at IS NULL OR passcode_window_started_at <= v_window_start THEN NOW()
+          ELSE passcode_window_started_at
+        END
+    WHERE id = p_share_id
+      AND (passcode_window_started_at IS NULL
+        OR passcode_window_started_at <= v_window_start
+        OR passcode_attempts < p_max_attempts);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_share_passcode_attempt(UUID, INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_share_passcode_attempt(UUID, INT, INT) TO service_role;
@@ -0,0 +1,118 @@
+-- ============================================
+-- VISION GALLERY ALBUMS, TAGS & SEARCH
+-- Migration: 20260111_vision_albums
+--
+-- Heavy users have hundreds of generations, so the gallery is now paged
+-- and filterable on the server:
+-- - Albums: each vision can be filed in one of the user's albums
+-- - Tags: free-form labels on vision_boards.tags
+-- - Search: a tsvector over the prompt and tags, kept current by a trigger
+--   (array_to_string isn't immutable, so it can't be a generated column)
+-- ============================================
+
+-- ============================================
+-- PART 1: ALBUMS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS vision_albums (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vision_albums_user_name
+ON vision_albums(user_id, lower(name));
+
+DROP TRIGGER IF EXISTS update_vision_albums_updated_at ON vision_albums;
+CREATE TRIGGER update_vision_albums_updated_at
+  BEFORE UPDATE ON vision_albums
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE vision_albums ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own vision albums" ON vision_albums;
+CREATE POLICY "Users can view own vision albums"
+ON vision_albums FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own vision albums" ON vision_albums;
+CREATE POLICY "Users can create own vision albums"
+ON vision_albums FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own vision albums" ON vision_albums;
+CREATE POLICY "Users can update own vision albums"
+ON vision_albums FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own vision albums" ON vision_albums;
+CREATE POLICY "Users can delete own vision albums"
+ON vision_albums FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================
+-- PART 2: VISION COLUMNS
+-- ============================================
+
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Deleting an album leaves its visions unfiled
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS album_id UUID REFERENCES vision_albums(id) ON DELETE SET NULL;
+
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+COMMENT ON COLUMN public.vision_boards.tags IS 'User labels, lowercase and trimmed by the client';
+COMMENT ON COLUMN public.vision_boards.search_vector IS 'Prompt and tags for full-text search; maintained by trigger';
+
+CREATE INDEX IF NOT EXISTS idx_vision_boards_album ON public.vision_boards(user_id, album_id);
+CREATE INDEX IF NOT EXISTS idx_vision_boards_tags ON public.vision_boards USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_vision_boards_search ON public.vision_boards USING GIN(search_vector);
+
+-- ============================================
+-- PART 3: TRIGGERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_vision_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.prompt, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(COALESCE(NEW.tags, '{}'), ' ')), 'B');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_vision_boards_search_vector ON public.vision_boards;
+CREATE TRIGGER update_vision_boards_search_vector
+  BEFORE INSERT OR UPDATE OF prompt, tags ON public.vision_boards
+  FOR EACH ROW EXECUTE FUNCTION update_vision_search_vector();
+
+-- A vision can only be filed in one of its owner's albums
+CREATE OR REPLACE FUNCTION check_vision_album_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.album_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM vision_albums WHERE id = NEW.album_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Album not found';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_vision_boards_album_owner ON public.vision_boards;
+CREATE TRIGGER check_vision_boards_album_owner
+  BEFORE INSERT OR UPDATE OF album_id ON public.vision_boards
+  FOR EACH ROW EXECUTE FUNCTION check_vision_album_owner();
+
+-- Backfill existing rows
+UPDATE public.vision_boards
+SET search_vector =
+  setweight(to_tsvector('english', COALESCE(prompt, '')), 'A') ||
+  setweight(to_tsvector('english', array_to_string(COALESCE(tags, '{}'), ' ')), 'B')
+WHERE search_vector IS NULL;
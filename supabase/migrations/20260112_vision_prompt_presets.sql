@@ -0,0 +1,121 @@
+-- ============================================
+-- VISION PROMPT PRESETS
+-- Migration: 20260112_vision_prompt_presets
+--
+-- Reusable prompt templates for vision generation, e.g.
+-- "{name} on a sailboat in {dreamLocation} at golden hour".
+-- Variables are filled on the client from the user's profile and
+-- onboarding answers. Each preset also carries a style, negative
+-- guidance and aspect ratio.
+--
+-- Scopes:
+-- - personal: visible to and managed by its owner
+-- - team:     visible to team members, managed by team owners/admins/managers
+-- - platform: visible to everyone, managed by platform admins
+-- ============================================
+
+-- ============================================
+-- PART 1: TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS vision_prompt_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('personal', 'team', 'platform')),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  description TEXT,
+  template TEXT NOT NULL CHECK (char_length(template) BETWEEN 1 AND 2000),
+  style TEXT,
+  negative_prompt TEXT CHECK (char_length(negative_prompt) <= 1000),
+  aspect_ratio TEXT CHECK (aspect_ratio IN ('16:9', '4:3', '1:1', '3:4', '9:16')),
+  sort_order INT NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Each scope is tied to exactly the owner it needs
+  CONSTRAINT vision_prompt_presets_scope_owner CHECK (
+    (scope = 'personal' AND owner_id IS NOT NULL AND team_id IS NULL) OR
+    (scope = 'team' AND team_id IS NOT NULL AND owner_id IS NULL) OR
+    (scope = 'platform' AND owner_id IS NULL AND team_id IS NULL)
+  )
+);
+
+COMMENT ON TABLE vision_prompt_presets IS 'Prompt templates with style, negative guidance and aspect ratio for vision generation';
+COMMENT ON COLUMN vision_prompt_presets.template IS 'Prompt text with {variable} placeholders filled from the user profile';
+
+CREATE INDEX IF NOT EXISTS idx_vision_prompt_presets_owner ON vision_prompt_presets(owner_id) WHERE scope = 'personal';
+CREATE INDEX IF NOT EXISTS idx_vision_prompt_presets_team ON vision_prompt_presets(team_id) WHERE scope = 'team';
+
+DROP TRIGGER IF EXISTS update_vision_prompt_presets_updated_at ON vision_prompt_presets;
+CREATE TRIGGER update_vision_prompt_presets_updated_at
+  BEFORE UPDATE ON vision_prompt_presets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- PART 2: ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE vision_prompt_presets ENABLE ROW LEVEL SECURITY;
+
+-- Who may create, edit or delete a preset of a given scope
+CREATE OR REPLACE FUNCTION can_manage_prompt_preset(p_scope TEXT, p_owner_id UUID, p_team_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN CASE p_scope
+    WHEN 'personal' THEN p_owner_id = auth.uid()
+    WHEN 'team' THEN has_team_role(p_team_id, ARRAY['owner', 'admin', 'manager'])
+    WHEN 'platform' THEN is_platform_admin()
+    ELSE FALSE
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION can_manage_prompt_preset(TEXT, UUID, UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can view available prompt presets" ON vision_prompt_presets;
+CREATE POLICY "Users can view available prompt presets"
+ON vision_prompt_presets FOR SELECT
+USING (
+  (scope = 'personal' AND owner_id = auth.uid()) OR
+  (scope = 'team' AND is_team_member(team_id)) OR
+  (scope = 'platform' AND auth.uid() IS NOT NULL)
+);
+
+DROP POLICY IF EXISTS "Users can create prompt presets they manage" ON vision_prompt_presets;
+CREATE POLICY "Users can create prompt presets they manage"
+ON vision_prompt_presets FOR INSERT
+WITH CHECK (can_manage_prompt_preset(scope, owner_id, team_id));
+
+DROP POLICY IF EXISTS "Users can update prompt presets they manage" ON vision_prompt_presets;
+CREATE POLICY "Users can update prompt presets they manage"
+ON vision_prompt_presets FOR UPDATE
+USING (can_manage_prompt_preset(scope, owner_id, team_id))
+WITH CHECK (can_manage_prompt_preset(scope, owner_id, team_id));
+
+DROP POLICY IF EXISTS "Users can delete prompt presets they manage" ON vision_prompt_presets;
+CREATE POLICY "Users can delete prompt presets they manage"
+ON vision_prompt_presets FOR DELETE
+USING (can_manage_prompt_preset(scope, owner_id, team_id));
+
+-- ============================================
+-- PART 3: PLATFORM PRESETS
+-- ============================================
+
+INSERT INTO vision_prompt_presets (scope, name, description, template, style, negative_prompt, aspect_ratio, sort_order)
+SELECT * FROM (VALUES
+  ('platform', 'Golden Hour Sailing', 'Relaxed life on the water',
+   '{name} on a sailboat in {dreamLocation} at golden hour, calm water, warm light',
+   'photorealistic', 'crowds, storm clouds, text', '16:9', 10),
+  ('platform', 'Dream Home Morning', 'Coffee on the porch of the dream home',
+   '{name} enjoying morning coffee on the porch of a beautiful home in {dreamLocation}, soft sunrise',
+   'photorealistic', 'clutter, construction, text', '16:9', 20),
+  ('platform', 'Freedom Year', 'Celebrating the target year',
+   '{name} celebrating financial freedom in {retirementYear}, surrounded by family, {dreamLocation} in the background',
+   'cinematic', 'money piles, text, logos', '16:9', 30),
+  ('platform', 'My Vision, Painted', 'The onboarding vision as a painting',
+   'An inspiring scene of {visionText}',
+   'watercolor', 'text, watermark', '4:3', 40)
+) AS seed(scope, name, description, template, style, negative_prompt, aspect_ratio, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM vision_prompt_presets WHERE scope = 'platform');
@@ -0,0 +1,109 @@
+-- ============================================
+-- IMAGE MODERATION & QUARANTINE
+-- Migration: 20260113_image_moderation
+--
+-- Uploaded reference photos and generated visions are scanned for
+-- nudity, violence, minors in likeness references and brand/trademark
+-- issues (see _shared/image-moderation.ts). Flagged images are
+-- quarantined for admin review and blocked from printing.
+--
+-- moderation_status:
+-- - pending:  not scanned yet
+-- - approved: passed the scan or cleared by an admin
+-- - flagged:  waiting in the review queue
+-- - rejected: an admin confirmed the flag
+-- ============================================
+
+-- ============================================
+-- PART 1: STATUS COLUMNS
+-- ============================================
+
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (moderation_status IN ('pending', 'approved', 'flagged', 'rejected'));
+
+ALTER TABLE public.reference_images
+ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (moderation_status IN ('pending', 'approved', 'flagged', 'rejected'));
+
+-- Images from before moderation existed are treated as approved
+UPDATE public.vision_boards SET moderation_status = 'approved' WHERE moderation_status = 'pending';
+UPDATE public.reference_images SET moderation_status = 'approved' WHERE moderation_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_vision_boards_moderation
+ON public.vision_boards(moderation_status) WHERE moderation_status IN ('flagged', 'rejected');
+
+-- Only the moderation pipeline (service role) and platform admins set the status;
+-- user writes start at pending and can't change it afterwards. Swapping in a
+-- different image sends it back to pending, so an approval never carries over.
+CREATE OR REPLACE FUNCTION protect_moderation_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' OR is_platform_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    NEW.moderation_status := 'pending';
+  ELSE
+    NEW.moderation_status := OLD.moderation_status;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_vision_boards_moderation ON public.vision_boards;
+CREATE TRIGGER protect_vision_boards_moderation
+  BEFORE INSERT OR UPDATE ON public.vision_boards
+  FOR EACH ROW EXECUTE FUNCTION protect_moderation_status();
+
+DROP TRIGGER IF EXISTS protect_reference_images_moderation ON public.reference_images;
+CREATE TRIGGER protect_reference_images_moderation
+  BEFORE INSERT OR UPDATE ON public.reference_images
+  FOR EACH ROW EXECUTE FUNCTION protect_moderation_status();
+
+-- ============================================
+-- PART 2: QUARANTINE QUEUE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS image_moderation_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('vision', 'reference')),
+  image_id UUID NOT NULL,
+  image_url TEXT NOT NULL,
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  scores JSONB NOT NULL DEFAULT '{}',
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  classifier TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE image_moderation_queue IS 'Images flagged by the moderation scan, awaiting or after admin review';
+
+CREATE INDEX IF NOT EXISTS idx_image_moderation_queue_status ON image_moderation_queue(status, created_at DESC);
+-- One queue row per image, however many times it is scanned
+CREATE UNIQUE INDEX IF NOT EXISTS idx_image_moderation_queue_image ON image_moderation_queue(image_id, source);
+
+ALTER TABLE image_moderation_queue ENABLE ROW LEVEL SECURITY;
+
+-- Users can see why their own images are held; review happens through admin functions
+DROP POLICY IF EXISTS "Users can view own moderation items" ON image_moderation_queue;
+CREATE POLICY "Users can view own moderation items"
+ON image_moderation_queue FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Staff can view moderation queue" ON image_moderation_queue;
+CREATE POLICY "Staff can view moderation queue"
+ON image_moderation_queue FOR SELECT
+USING (has_platform_role(ARRAY['platform_admin', 'support_agent']));
+
+DROP POLICY IF EXISTS "Service role can manage moderation queue" ON image_moderation_queue;
+CREATE POLICY "Service role can manage moderation queue"
+ON image_moderation_queue FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,19 @@
+-- ============================================
+-- IMAGE VARIANTS
+-- Migration: 20260114_image_variants
+--
+-- Saved visions get resized copies next to the original in the visions
+-- bucket (see services/imageService.ts):
+-- - thumb:  400px JPEG for grids
+-- - medium: 1280px JPEG for cards and the dashboard
+-- - print:  full-resolution PNG, also the row's image_url
+--
+-- image_variants maps each name to { url, width, height }. Images saved
+-- before this (or by the background worker) have none and are shown
+-- from image_url.
+-- ============================================
+
+ALTER TABLE public.vision_boards
+ADD COLUMN IF NOT EXISTS image_variants JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.vision_boards.image_variants IS 'Resized copies: { thumb, medium, print } each { url, width, height }';
@@ -0,0 +1,26 @@
+-- ============================================
+-- WORKBOOK PDF STORAGE
+-- Migration: 20260115_workbook_pdf_assets
+--
+-- Workbook PDFs are rendered by _shared/workbook-pdf.ts in the browser
+-- (at-home download) and in the edge functions (Prodigi submission).
+-- - workbooks: rendered order PDFs at {order_id}/final_workbook.pdf.
+--   Private; the edge functions hand out signed URLs (short-lived for
+--   downloads, long-lived for Prodigi). Only the service role writes.
+-- - workbook-assets: font files embedded in every PDF, under fonts/
+--   (PlayfairDisplay-Regular/Bold/Italic.ttf, Inter-Regular/SemiBold.ttf).
+--   Upload them once per project; renders fail until they exist.
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES
+  ('workbooks', 'workbooks', false),
+  ('workbook-assets', 'workbook-assets', true)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public;
+
+DROP POLICY IF EXISTS "Workbook PDFs are public" ON storage.objects;
+DROP POLICY IF EXISTS "Workbook assets are public" ON storage.objects;
+CREATE POLICY "Workbook assets are public"
+ON storage.objects FOR SELECT
+USING ( bucket_id = 'workbook-assets' );
@@ -81,6 +81,17 @@ export interface FinancialGoal {
   goal: number;
 }
 
+// Resized copies of a saved image (see imageService); print is full resolution
+export type ImageVariantName = 'thumb' | 'medium' | 'print';
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export type ImageVariants = Partial<Record<ImageVariantName, ImageVariant>>;
+
 export interface VisionImage {
   id: string;
   url: string;
@@ -88,6 +99,60 @@ export interface VisionImage {
   createdAt: number;
   tags?: string[];
   isFavorite?: boolean;
+  // Lineage: each refinement is saved as a new version of the image it was generated from
+  parentImageId?: string;
+  lineageRootId?: string;
+  style?: string;
+  modelUsed?: string;
+  referenceImageIds?: string[];
+  likenessScore?: number;
+  albumId?: string;
+  moderationStatus?: ModerationStatus;
+  variants?: ImageVariants;
+}
+
+export interface VisionAlbum {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Server-side gallery filters and paging (all optional; no query returns everything)
+export interface VisionGalleryQuery {
+  search?: string; // Full-text over prompts and tags, prefix-matched
+  tags?: string[]; // Visions carrying every one of these tags
+  albumId?: string | null; // null = not in any album
+  favoritesOnly?: boolean;
+  page?: number; // 0-based
+  pageSize?: number;
+}
+
+// Reusable prompt templates ("{name} on a sailboat in {dreamLocation}")
+export type PromptPresetScope = 'personal' | 'team' | 'platform';
+
+export interface PromptPreset {
+  id: string;
+  scope: PromptPresetScope;
+  teamId?: string;
+  name: string;
+  description?: string;
+  template: string;
+  style?: string; // Artistic style id, e.g. 'photorealistic'
+  negativePrompt?: string; // What the image should avoid
+  aspectRatio?: string; // e.g. '16:9'
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export type PromptPresetInput = Omit<PromptPreset, 'id' | 'sortOrder' | 'isActive'> & {
+  sortOrder?: number;
+  isActive?: boolean;
+};
+
+// Generation settings a preset carries besides its prompt text
+export interface VisionPromptOptions {
+  style?: string;
+  aspectRatio?: string;
 }
 
 export interface ReferenceImage {
@@ -98,6 +163,57 @@ export interface ReferenceImage {
   identityDescription?: string; // Neutral physical description for identity preservation
 }
 
+// Content moderation: flagged images wait for admin review and can't be printed
+export type ModerationStatus = 'pending' | 'approved' | 'flagged' | 'rejected';
+export type ModerationCategory = 'nudity' | 'violence' | 'minors_likeness' | 'trademark';
+
+export interface ModerationQueueItem {
+  id: string;
+  userId: string;
+  userName?: string;
+  userEmail?: string;
+  source: 'vision' | 'reference';
+  imageId: string;
+  imageUrl: string;
+  categories: ModerationCategory[];
+  scores: Partial<Record<ModerationCategory, number>>;
+  reasons: string[];
+  status: 'pending' | 'approved' | 'rejected';
+  reviewNotes?: string;
+  reviewedAt?: number;
+  createdAt: number;
+}
+
+// Vision board collage (several gallery images, headline and affirmations on one canvas)
+export type CollageLayout = 'grid' | 'freeform';
+export type CollageLayerKind = 'image' | 'headline' | 'sticker';
+
+export interface CollageLayer {
+  id: string;
+  kind: CollageLayerKind;
+  // Position and size as fractions of the canvas, so layers survive aspect changes and export at any resolution
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // degrees
+  imageId?: string;
+  imageUrl?: string;
+  text?: string;
+  fontScale?: number; // Font size as a fraction of canvas height
+  color?: string;
+  background?: string;
+}
+
+export interface CollageDocument {
+  size: string; // Poster size from PRODUCT_CONFIG, e.g. '18x24'
+  orientation: 'portrait' | 'landscape';
+  layout: CollageLayout;
+  background: string;
+  gap: number; // Grid gutter as a fraction of the shorter canvas side
+  layers: CollageLayer[]; // Bottom to top
+}
+
 export interface UserProfile {
   names: string;
   targetRetirementYear: number;
@@ -140,11 +256,60 @@ export interface ActionTask {
   displayOrder?: number;
   priority?: 'high' | 'medium' | 'low';
   source?: 'onboarding' | 'manual' | 'ai_regenerate' | 'import';
+  // Plan structure
+  parentTaskId?: string;
+  dependsOn?: string[]; // ids of tasks that block this one
+  durationDays?: number;
+  // Recurrence (each occurrence is its own task)
+  recurrenceRule?: string; // RRULE-style, e.g. FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15
+  recurrenceAnchor?: string; // first occurrence, YYYY-MM-DD
+  recurrenceSeriesId?: string;
+  skippedAt?: string;
+  // Edit concurrency (bumped on every write)
+  revision?: number;
+  modifiedBy?: PlanEditor;
+}
+
+// Task Dependency Schedule (Goals timeline)
+export interface TaskScheduleEntry {
+  taskId: string;
+  depth: number;
+  start: string; // YYYY-MM-DD
+  end: string; // projected finish, YYYY-MM-DD
+  plannedEnd: string | null; // the task's own due date
+  shiftDays: number;
+  isCritical: boolean;
+  blockedBy: string[]; // incomplete upstream task ids
+}
+
+export interface TaskSchedule {
+  entries: TaskScheduleEntry[];
+  criticalPath: string[];
+  projectEnd: string | null;
+  cycle: string[] | null;
+}
+
+// Plan Import (Markdown, CSV, Todoist, Trello)
+export type PlanImportFormat = 'markdown' | 'csv' | 'todoist' | 'trello';
+
+export interface PlanImportIssue {
+  line: number; // 1-based line or row in the source, 0 when not tied to one
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PlanImportResult {
+  format: PlanImportFormat;
+  title?: string; // document or board name, when the source has one
+  tasks: ActionTask[]; // milestones first, each followed by its tasks
+  milestoneCount: number;
+  issues: PlanImportIssue[];
 }
 
 // Goal Plan (v1.7 Draft Plan Review)
+export type PlanEditor = 'user' | 'ai_coach' | 'voice_agent';
 export type GoalPlanStatus = 'draft' | 'active' | 'archived';
-export type GoalPlanSource = 'onboarding' | 'manual' | 'revision' | 'ai_regenerate';
+export type GoalPlanSource = 'onboarding' | 'manual' | 'revision' | 'ai_regenerate' | 'import';
 
 export interface GoalPlan {
   id: string;
@@ -165,9 +330,70 @@ export interface GoalPlan {
   updatedAt?: string;
   approvedAt?: string;
   archivedAt?: string;
+  restoredFromPlanId?: string;
+  revision?: number;
+  modifiedBy?: PlanEditor;
   tasks?: ActionTask[];
 }
 
+// Goal Plan Version Diff
+export type PlanTaskField = 'title' | 'description' | 'dueDate' | 'type' | 'priority' | 'isCompleted';
+export type PlanInsightField = 'summary' | 'strengths' | 'suggestions' | 'focusAreas';
+
+export interface PlanFieldChange<F extends string = string> {
+  field: F;
+  before: string | number | boolean | string[] | null;
+  after: string | number | boolean | string[] | null;
+}
+
+export interface PlanTaskEdit {
+  before: ActionTask;
+  after: ActionTask;
+  changes: PlanFieldChange<PlanTaskField>[];
+}
+
+export interface PlanTaskMove {
+  task: ActionTask;
+  fromPosition: number;
+  toPosition: number;
+}
+
+export interface PlanDiff {
+  baseVersion: number;
+  compareVersion: number;
+  added: ActionTask[];
+  removed: ActionTask[];
+  edited: PlanTaskEdit[];
+  reordered: PlanTaskMove[];
+  insights: PlanFieldChange<PlanInsightField>[];
+  plan: PlanFieldChange<'visionText' | 'financialTarget'>[];
+  unchangedCount: number;
+  hasChanges: boolean;
+}
+
+export interface PlanComparison {
+  base: GoalPlan;
+  compare: GoalPlan;
+  diff: PlanDiff;
+}
+
+// Goal Plan Edit Conflicts
+export type PlanTaskMergeField = PlanTaskField | 'parentTaskId' | 'dependsOn' | 'durationDays' | 'recurrenceRule';
+
+export interface PlanTaskFieldConflict {
+  field: PlanTaskMergeField;
+  base: PlanFieldChange['before']; // value both edits started from
+  mine: PlanFieldChange['before'];
+  theirs: PlanFieldChange['before'];
+}
+
+export interface PlanTaskConflict {
+  mine: ActionTask;
+  theirs: ActionTask | null; // null when the task was deleted elsewhere
+  merged: ActionTask; // theirs plus every field only I changed
+  conflicts: PlanTaskFieldConflict[]; // fields both sides changed differently
+}
+
 export interface Milestone {
   year: number;
   title: string;
@@ -305,6 +531,7 @@ export type MessageRole = 'user' | 'agent' | 'system';
 export type ContentType = 'text' | 'audio' | 'action';
 export type ChannelType = 'voice' | 'sms' | 'email' | 'push' | 'in_app' | 'call';
 export type HabitFrequency = 'daily' | 'weekly' | 'weekdays' | 'custom';
+export type HabitTargetPeriod = 'day' | 'week';
 export type CheckinType = 'weekly_review' | 'daily_habit' | 'milestone_reminder' | 'custom';
 export type ActionStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 
@@ -364,6 +591,71 @@ export interface UserCommPreferences {
   updated_at: string;
 }
 
+// iCalendar subscription feed (calendar-feed edge function)
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  feed_url: string | null; // https URL; clients that want webcal:// swap the scheme
+  last_accessed_at: string | null;
+  created_at: string | null;
+}
+
+export interface CalendarExportFile {
+  filename: string;
+  content: string;
+}
+
+// Public vision share links (vision-share edge function)
+export type VisionShareState = 'active' | 'expired' | 'revoked';
+
+export interface SharedGoal {
+  title: string;
+  completed: boolean;
+}
+
+export interface VisionShare {
+  id: string;
+  vision_id: string;
+  share_url: string; // Serves link previews, then redirects to /share/:token
+  title: string | null;
+  goals: SharedGoal[];
+  image_url: string;
+  watermarked: boolean;
+  has_passcode: boolean;
+  state: VisionShareState;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+export interface CreateVisionShareInput {
+  visionId: string;
+  title?: string;
+  goals?: SharedGoal[];
+  expiresInDays?: number | null; // null = never expires
+  passcode?: string;
+  watermark?: boolean;
+}
+
+// What a visitor sees on the public share route
+export interface SharedVision {
+  title: string | null;
+  goals: SharedGoal[];
+  image_url: string;
+  watermarked: boolean;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface SharedVisionResult {
+  success: boolean;
+  share?: SharedVision;
+  // Why the share can't be shown (when success is false)
+  reason?: 'not_found' | 'expired' | 'revoked' | 'passcode_required' | 'passcode_invalid' | 'passcode_locked';
+  error?: string;
+}
+
 // ============================================
 // AI AGENT SETTINGS TYPES
 // ============================================
@@ -515,6 +807,14 @@ export interface Habit {
   description?: string;
   frequency: HabitFrequency;
   custom_days: number[]; // 0-6 for Sunday-Saturday
+  weekly_target?: number; // Completions per week for weekly habits without custom_days
+  // Measurable habits (set target_value to track an amount instead of yes/no)
+  unit?: string; // e.g. 'glasses', 'minutes', 'steps'
+  target_value?: number;
+  target_period?: HabitTargetPeriod;
+  // Streak protection
+  grace_days?: number; // Consecutive misses tolerated before the streak breaks (0-3)
+  paused_until?: string; // Vacation mode: last paused day (YYYY-MM-DD)
   reminder_time?: string;
   is_active: boolean;
   created_at: string;
@@ -527,11 +827,125 @@ export interface HabitCompletion {
   id: string;
   habit_id: string;
   completed_at: string;
+  value?: number; // Summed amount for the day on measurable habits
   notes?: string;
   mood_rating?: number; // 1-5
+  is_backfilled?: boolean; // Logged after the day it counts for
   created_at: string;
 }
 
+// Habit analytics (habit-service analytics action)
+export interface HabitHeatmapDay {
+  date: string; // YYYY-MM-DD
+  value: number;
+  level: number; // 0-4 intensity
+  scheduled: boolean;
+}
+
+export interface HabitWeekdayStat {
+  day: number; // 0 = Sunday
+  scheduled: number;
+  completed: number;
+  rate: number | null; // Percentage; null when never scheduled
+}
+
+export interface HabitAnalytics {
+  range: { start: string; end: string };
+  heatmap: HabitHeatmapDay[];
+  timeOfDay: {
+    hourly: number[]; // 24 local hours
+    periods: Record<'morning' | 'afternoon' | 'evening' | 'night', number>;
+    peakHour: number | null;
+    peakPeriod: 'morning' | 'afternoon' | 'evening' | 'night' | null;
+    sampleSize: number;
+  };
+  weekdays: {
+    days: HabitWeekdayStat[];
+    strongestDay: number | null;
+    weakestDay: number | null;
+  };
+  mood: {
+    sampleDays: number;
+    avgMoodWhenDone: number | null;
+    avgMoodWhenMissed: number | null;
+    correlation: number | null; // -1 to 1
+    strength: 'none' | 'weak' | 'moderate' | 'strong';
+    valueCorrelation: number | null;
+  };
+}
+
+// Habit import/export (habit-service import and export actions)
+export type HabitImportFormat = 'csv' | 'loop';
+
+export interface HabitImportIssue {
+  line: number; // 1-based line in the source file, 0 when not tied to a line
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface HabitImportPreview {
+  newHabits: string[];
+  matchedHabits: { title: string; habit_id: string }[];
+  completionsToImport: number;
+  duplicateCompletions: number; // Days already logged; skipped, never overwritten
+  issues: HabitImportIssue[];
+  canImport: boolean;
+}
+
+export interface HabitImportResult {
+  dryRun: boolean;
+  preview: HabitImportPreview;
+  habitsCreated?: number;
+  completionsImported?: number;
+}
+
+export interface HabitExportFile {
+  filename: string;
+  content: string;
+}
+
+// Habit routines (habit-service routine actions)
+export interface RoutineStepStatus {
+  habit_id: string;
+  title: string;
+  position: number;
+  scheduled: boolean; // Due today (not paused, on the habit's schedule)
+  completed: boolean;
+}
+
+export interface RoutineProgress {
+  routine_id: string;
+  title: string;
+  anchor_cue: string | null;
+  steps: RoutineStepStatus[];
+  completedSteps: number;
+  totalSteps: number;
+  isComplete: boolean;
+  nextStep: RoutineStepStatus | null;
+}
+
+export interface HabitRoutine {
+  id: string;
+  title: string;
+  anchorCue: string | null;
+  windowStart: string | null; // Local HH:MM:SS
+  windowEnd: string | null;
+  inWindow: boolean;
+  today: RoutineProgress;
+}
+
+export interface RoutineStats {
+  routine_id: string;
+  title: string;
+  range: { start: string; end: string };
+  dueDays: number;
+  completedDays: number;
+  partialDays: number;
+  rate: number; // Percentage of due days fully completed
+  currentStreak: number;
+  stepRates: { habit_id: string; title: string; rate: number }[];
+}
+
 export interface UserAchievement {
   id: string;
   user_id: string;
@@ -588,12 +1002,16 @@ export interface WeeklyReview {
 export interface ProgressPrediction {
   id: string;
   user_id: string;
-  goal_type: string;
+  goal_type: string; // e.g. "2026 Milestones", "Action Plan", "Financial Target"
   target_date: string;
-  current_pace: number; // 0 to 1+ (above 1 = ahead of schedule)
-  predicted_completion_date: string;
+  current_pace: number; // 0 to 2 (above 1 = ahead of schedule)
+  predicted_completion_date: string | null; // Null when there's no recent progress to project from
   confidence_score: number;
   recommendations: string[];
+  status?: 'ahead' | 'on_track' | 'behind' | 'at_risk';
+  current_value?: number; // Tasks done, or current net worth
+  target_value?: number; // Total tasks, or the financial target
+  metrics?: Record<string, number | boolean | null>;
   calculated_at: string;
 }
 
@@ -89,12 +89,13 @@ export interface MonthlyCalendarData {
     year: number;
     monthIndex: number;
     monthLabel: string;
+    weekdayLabels?: string[]; // Locale labels in week order (Sunday or Monday first)
     weeks: { id: string; dateLabel: string; notes?: string }[][];
 }
 
 export interface WeeklyPlannerData {
     weekOf: string;
-    days: { isoDate: string; label: string; sections?: string[] }[];
+    days: { isoDate: string; label: string; dateLabel?: string; notes?: string[]; sections?: string[] }[];
 }
 
 export interface HabitTrackerData {